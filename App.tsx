@@ -14,6 +14,9 @@ import * as Notifications from 'expo-notifications';
 // Import our new notification services
 import NotificationService from './services/NotificationService';
 import MedicationAlarmHandler from './services/MedicationAlarmHandler';
+import OfflineSyncService from './services/OfflineSyncService';
+import NotificationScheduler from './services/NotificationScheduler';
+import AlertRuleService from './services/AlertRuleService';
 
 export default function App() {
   registerTranslation('en', en);
@@ -27,6 +30,12 @@ export default function App() {
         // Start security cleanup service
         securityCleanupService.start();
 
+        // Check caregivers' alert rules as readings, check-ins and dose logs are saved
+        AlertRuleService.start();
+
+        // Replay dose logs, metrics and check-ins saved while offline
+        OfflineSyncService.start();
+
         // Initialize notification system
         console.log('[App.tsx] Initializing notification system...');
         const notificationPermissions = await requestNotificationPermissions();
@@ -45,6 +54,9 @@ export default function App() {
             // Start medication monitoring background task
             await MedicationAlarmHandler.startMedicationMonitoring();
             
+            // Keep the next hours of dose and appointment reminders in line with the database
+            NotificationScheduler.start();
+
             // Set up notification response handler
             Notifications.addNotificationResponseReceivedListener(
               MedicationAlarmHandler.handleNotificationResponse
@@ -82,6 +94,9 @@ export default function App() {
     return () => {
       // Cleanup on app unmount
       securityCleanupService.stop();
+      AlertRuleService.stop();
+      OfflineSyncService.stop();
+      NotificationScheduler.stop();
       MedicationAlarmHandler.stopMedicationMonitoring();
     };
   }, []);
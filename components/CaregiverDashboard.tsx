@@ -42,7 +42,7 @@ import * as Haptics from 'expo-haptics';
 import { format, parseISO } from 'date-fns';
 import ConnectionGuide from './ConnectionGuide';
 import PatientDataView from './PatientDataView';
-import NotificationService from '../services/NotificationService';
+import CaregiverRealtimeService from '../services/CaregiverRealtimeService';
 
 const { width: screenWidth } = Dimensions.get('window');
 const AnimatedCard = Animated.createAnimatedComponent(Card);
@@ -197,26 +197,16 @@ const CaregiverDashboard: React.FC = () => {
     return `${firstName || ''} ${lastName || ''}`.trim();
   };
 
-  // Start automatic caregiver alert polling
+  // Live caregiver alerts and dose logs; the feed is rebuilt when the patient list changes
   useEffect(() => {
-    let isComponentMounted = true;
+    if (!user || user.role !== 'caregiver') return;
+    CaregiverRealtimeService.start(user.id, patients.map(p => p.id));
+  }, [user?.id, user?.role, patients]);
 
-    const startPolling = async () => {
-      if (user && isComponentMounted) {
-        console.log('[CaregiverDashboard] Starting automatic caregiver alert polling...');
-        await NotificationService.startCaregiverAlertPolling();
-      }
-    };
-
-    startPolling();
-
-    // Cleanup function
-    return () => {
-      isComponentMounted = false;
-      console.log('[CaregiverDashboard] Stopping automatic caregiver alert polling...');
-      NotificationService.stopCaregiverAlertPolling();
-    };
-  }, [user]);
+  useEffect(() => {
+    if (!user || user.role !== 'caregiver') return;
+    return () => CaregiverRealtimeService.stop();
+  }, [user?.id, user?.role]);
 
   if (authLoading && patients.length === 0) {
     return (
@@ -18,8 +18,9 @@ import {
 } from 'react-native-paper';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabase';
+import { findLogForDose, repositories } from '../lib/repositories';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import OfflineSyncService from '../services/OfflineSyncService';
 
 const { height } = Dimensions.get('window');
 
@@ -264,6 +265,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ visible, onClose }) => {
   // Handle user answer for conversational flow
   const handleUserResponse = (option) => {
     const q = sessionQuestions[currentQuestionIndex];
+    // Keep the answer as a check-in, so caregivers' alert rules can see it
+    if (user) {
+      OfflineSyncService.submit({
+        kind: 'health_checkin',
+        payload: {
+          user_id: user.id,
+          question_id: q.id,
+          response: option.label,
+          checkin_date: new Date().toISOString().split('T')[0],
+          created_at: new Date().toISOString(),
+        },
+      }).catch(error => console.error('[ChatInterface] Failed to save answer:', error));
+    }
     // Add user's answer
     setConversation(prev => [
       ...prev,
@@ -397,40 +411,31 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ visible, onClose }) => {
     let botText = '';
     try {
       if (questionId === 'today_meds') {
-        const today = new Date().toLocaleDateString('en-CA');
-        const { data: meds } = await supabase
-          .from('medications')
-          .select('name, medication_schedules(scheduled_time, days_of_week)')
-          .eq('user_id', user.id);
-        if (meds && meds.length > 0) {
-          botText = `Today’s medications: ` + meds.map((m: any) => m.name).join(', ');
+        const doses = await repositories.schedules.getScheduleForDate(user.id, new Date());
+        if (doses.length > 0) {
+          botText = `Today’s medications: ` + [...new Set(doses.map(d => d.medicationName))].join(', ');
         } else {
           botText = 'No medications scheduled for today.';
         }
       } else if (questionId === 'next_appt') {
         const today = new Date().toISOString().split('T')[0];
-        const { data: appts } = await supabase
-          .from('doctor_appointments')
-          .select('appointment_date, doctor_name')
-          .eq('patient_id', user.id)
-          .gte('appointment_date', today)
-          .order('appointment_date', { ascending: true })
-          .limit(1);
-        if (appts && appts.length > 0) {
-          const appt = appts[0];
+        const appt = await repositories.appointments.getNextAppointment(user.id, today);
+        if (appt) {
           botText = `Next appointment: ${appt.appointment_date} with Dr. ${appt.doctor_name}`;
         } else {
           botText = 'No upcoming appointments.';
         }
       } else if (questionId === 'missed_doses') {
-        const today = new Date().toISOString().split('T')[0];
-        const { data: logs } = await supabase
-          .from('medication_administration_logs')
-          .select('medication_id, taken_at')
-          .eq('user_id', user.id)
-          .is('taken_at', null);
-        if (logs && logs.length > 0) {
-          botText = `You have ${logs.length} missed doses today.`;
+        // Doses from earlier today that were neither taken nor skipped
+        const now = new Date();
+        const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        const [doses, logs] = await Promise.all([
+          repositories.schedules.getScheduleForDate(user.id, now),
+          repositories.doseLogs.listForDoseWindow(user.id, todayStart, now),
+        ]);
+        const missed = doses.filter(dose => dose.intendedDoseTime <= now && !findLogForDose(dose, logs));
+        if (missed.length > 0) {
+          botText = `You have ${missed.length} missed doses today.`;
         } else {
           botText = 'No missed doses today!';
         }
@@ -438,27 +443,19 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ visible, onClose }) => {
         const today = new Date();
         const weekFromNow = new Date();
         weekFromNow.setDate(today.getDate() + 7);
-        const { data: appts } = await supabase
-          .from('doctor_appointments')
-          .select('appointment_date, doctor_name')
-          .eq('patient_id', user.id)
-          .gte('appointment_date', today.toISOString().split('T')[0])
-          .lte('appointment_date', weekFromNow.toISOString().split('T')[0])
-          .order('appointment_date', { ascending: true });
-        if (appts && appts.length > 0) {
-          botText = 'Appointments this week: ' + appts.map((a: any) => `${a.appointment_date} with Dr. ${a.doctor_name}`).join('; ');
+        const appts = await repositories.appointments.listBetween(
+          user.id,
+          today.toISOString().split('T')[0],
+          weekFromNow.toISOString().split('T')[0]
+        );
+        if (appts.length > 0) {
+          botText = 'Appointments this week: ' + appts.map(a => `${a.appointment_date} with Dr. ${a.doctor_name}`).join('; ');
         } else {
           botText = 'No appointments this week.';
         }
       } else if (questionId === 'last_checkin') {
-        const { data: checkins } = await supabase
-          .from('health_checkins')
-          .select('question_id, response, checkin_date')
-          .eq('user_id', user.id)
-          .order('checkin_date', { ascending: false })
-          .limit(1);
-        if (checkins && checkins.length > 0) {
-          const c = checkins[0];
+        const c = await repositories.checkins.getLatest(user.id);
+        if (c) {
           botText = `Last check-in (${c.checkin_date}): ${c.question_id} - ${c.response}`;
         } else {
           botText = 'No health check-ins found.';
@@ -498,8 +495,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ visible, onClose }) => {
     setCheckinResponses(prev => ({ ...prev, [questionId]: answer }));
     // Save to database
     try {
-      await supabase.from('health_checkins').insert({
-        user_id: user?.id,
+      if (!user) throw new Error('Not signed in');
+      await repositories.checkins.insert({
+        user_id: user.id,
         question_id: questionId,
         response: answer,
         checkin_date: new Date().toISOString().split('T')[0],
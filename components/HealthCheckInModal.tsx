@@ -15,7 +15,7 @@ import {
   Surface,
 } from 'react-native-paper';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
-import { supabase } from '../lib/supabase';
+import OfflineSyncService from '../services/OfflineSyncService';
 import { useAuth } from '../context/AuthContext';
 
 interface Question {
@@ -162,17 +162,18 @@ const HealthCheckInModal: React.FC<HealthCheckInModalProps> = ({ visible, onClos
 
     setIsSubmitting(true);
     try {
-      // Store each response as a health check-in entry
+      // Store each response as a health check-in entry (queued while offline)
       for (const [questionId, response] of Object.entries(finalResponses)) {
-        await supabase
-          .from('health_checkins')
-          .insert({
+        await OfflineSyncService.submit({
+          kind: 'health_checkin',
+          payload: {
             user_id: user.id,
             question_id: questionId,
             response: response,
             checkin_date: new Date().toISOString().split('T')[0], // Today's date
             created_at: new Date().toISOString(),
-          });
+          },
+        });
       }
 
       onClose();
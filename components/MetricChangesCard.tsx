@@ -0,0 +1,133 @@
+import React, { useState, useCallback } from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Text, Card, Icon, useTheme, ActivityIndicator } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { format, subDays } from 'date-fns';
+import { repositories } from '../lib/repositories';
+import { useUnitPreferences } from '../hooks/useUnitPreferences';
+import {
+  BASELINE_DAYS,
+  MetricChange,
+  buildMetricSeries,
+  describeAnomaly,
+  describeMetricChange,
+  summarizeMetricChanges,
+} from '../lib/metricStats';
+
+const CHANGES_SHOWN = 4;
+
+interface MetricChangesCardProps {
+  patientId: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+// "What changed" this week: weekly shifts and readings unusual for this patient
+const MetricChangesCard: React.FC<MetricChangesCardProps> = ({ patientId, style }) => {
+  const theme = useTheme();
+  const [changes, setChanges] = useState<MetricChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { units } = useUnitPreferences();
+
+  const loadChanges = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const now = new Date();
+      // Enough history for the baseline of the oldest reading in the last week
+      const [readings, definitions] = await Promise.all([
+        repositories.metrics.listBetween(patientId, subDays(now, BASELINE_DAYS + 14), now),
+        repositories.metrics.listDefinitions(patientId),
+      ]);
+      setChanges(summarizeMetricChanges(buildMetricSeries(readings, definitions, units), now));
+    } catch (error) {
+      console.error('Error loading metric changes:', error);
+      setChanges([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [patientId, units]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadChanges();
+    }, [loadChanges])
+  );
+
+  const notable = changes.filter(change => change.notable).slice(0, CHANGES_SHOWN);
+
+  const trendIcon = (change: MetricChange) =>
+    change.anomalies.length > 0
+      ? 'alert-circle-outline'
+      : (change.weekly.delta ?? 0) > 0
+        ? 'trending-up'
+        : (change.weekly.delta ?? 0) < 0
+          ? 'trending-down'
+          : 'trending-neutral';
+
+  return (
+    <Card style={[styles.card, { backgroundColor: theme.colors.surface }, style]} elevation={1}>
+      <Card.Content>
+        <View style={styles.header}>
+          <Icon source="chart-line-variant" size={24} color={theme.colors.primary} />
+          <Text variant="titleMedium" style={[styles.title, { color: theme.colors.onSurface }]}>What Changed This Week</Text>
+          {isLoading && <ActivityIndicator size="small" />}
+        </View>
+
+        {!isLoading && changes.length === 0 && (
+          <Text style={{ color: theme.colors.onSurfaceVariant }}>No readings logged in the last 7 days.</Text>
+        )}
+        {!isLoading && changes.length > 0 && notable.length === 0 && (
+          <Text style={{ color: theme.colors.onSurfaceVariant }}>
+            Nothing stood out. This week's readings are in line with the usual.
+          </Text>
+        )}
+
+        {notable.map(change => (
+          <View key={change.series.categoryId} style={styles.changeRow}>
+            <Icon
+              source={trendIcon(change)}
+              size={20}
+              color={change.anomalies.length > 0 ? theme.colors.error : theme.colors.onSurfaceVariant}
+            />
+            <View style={styles.changeText}>
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>{describeMetricChange(change)}</Text>
+              {change.anomalies.map(anomaly => (
+                <Text key={anomaly.time} variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  {format(anomaly.time, 'EEE h:mm a')}: {describeAnomaly(anomaly, change.series)}
+                </Text>
+              ))}
+            </View>
+          </View>
+        ))}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    marginLeft: 8,
+    fontWeight: '600',
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginTop: 8,
+  },
+  changeText: {
+    flex: 1,
+  },
+});
+
+export default MetricChangesCard;
@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Text, Card, useTheme, ActivityIndicator } from 'react-native-paper';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import * as Haptics from 'expo-haptics';
+import { format } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { MotorDiaryEntry, MotorState, repositories } from '../lib/repositories';
+import { MOTOR_STATE_OPTIONS, getMotorStateOption } from '../lib/motorDiary';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Hourly ON/OFF diary: one tap records how the patient is doing for the selected hour
+const MotorDiaryCard: React.FC = () => {
+  const theme = useTheme();
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<MotorDiaryEntry[]>([]);
+  const [selectedHour, setSelectedHour] = useState(new Date().getHours());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const currentHour = new Date().getHours();
+
+  const loadEntries = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      setEntries(await repositories.motorDiary.listBetween(user.id, today, today));
+    } catch (error) {
+      console.error('Error loading motor diary:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user?.id, today]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleRecord = async (state: MotorState) => {
+    if (!user?.id || isSaving) return;
+    setIsSaving(true);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      const saved = await repositories.motorDiary.record(user.id, today, selectedHour, state);
+      setEntries(prev => [...prev.filter(e => e.hour !== saved.hour), saved].sort((a, b) => a.hour - b.hour));
+      // Move on to the next hour so a backlog of earlier hours can be filled quickly
+      if (selectedHour < currentHour) {
+        setSelectedHour(selectedHour + 1);
+      }
+    } catch (error: any) {
+      console.error('Error saving motor diary entry:', error);
+      Alert.alert('Error', `Failed to save diary entry: ${error.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedEntry = entries.find(e => e.hour === selectedHour);
+
+  return (
+    <Card style={[styles.card, { backgroundColor: theme.colors.surface }]} elevation={1}>
+      <Card.Content>
+        <View style={styles.header}>
+          <MaterialCommunityIcons name="chart-timeline-variant" size={24} color={theme.colors.primary} />
+          <Text variant="titleMedium" style={[styles.title, { color: theme.colors.onSurface }]}>ON/OFF Diary</Text>
+          {isLoading && <ActivityIndicator size="small" />}
+        </View>
+        <Text style={[styles.prompt, { color: theme.colors.onSurfaceVariant }]}>
+          {selectedHour === currentHour ? 'How are you right now?' : `How were you at ${format(new Date().setHours(selectedHour, 0), 'h a')}?`}
+          {selectedEntry ? ` (recorded: ${getMotorStateOption(selectedEntry.state)?.label})` : ''}
+        </Text>
+
+        <View style={styles.stateButtons}>
+          {MOTOR_STATE_OPTIONS.map(option => {
+            const isSelected = selectedEntry?.state === option.state;
+            return (
+              <TouchableOpacity
+                key={option.state}
+                style={[
+                  styles.stateButton,
+                  { borderColor: option.color, backgroundColor: isSelected ? option.color : 'transparent' },
+                ]}
+                onPress={() => handleRecord(option.state)}
+                disabled={isSaving}
+                accessibilityLabel={`Record ${option.label}`}
+              >
+                <MaterialCommunityIcons name={option.icon} size={20} color={isSelected ? '#FFFFFF' : option.color} />
+                <Text style={[styles.stateLabel, { color: isSelected ? '#FFFFFF' : theme.colors.onSurface }]}>
+                  {option.shortLabel}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Today's hours; tap an earlier hour to fill it in */}
+        <View style={styles.hourStrip}>
+          {HOURS.map(hour => {
+            const entry = entries.find(e => e.hour === hour);
+            const color = entry ? getMotorStateOption(entry.state)?.color : undefined;
+            const isFuture = hour > currentHour;
+            return (
+              <TouchableOpacity
+                key={hour}
+                style={[
+                  styles.hourCell,
+                  {
+                    backgroundColor: color ?? theme.colors.surfaceVariant,
+                    opacity: isFuture ? 0.3 : 1,
+                    borderColor: hour === selectedHour ? theme.colors.onSurface : 'transparent',
+                  },
+                ]}
+                onPress={() => setSelectedHour(hour)}
+                disabled={isFuture}
+              />
+            );
+          })}
+        </View>
+        <View style={styles.hourLabels}>
+          {['12a', '6a', '12p', '6p', '12a'].map((label, index) => (
+            <Text key={index} style={[styles.hourLabel, { color: theme.colors.onSurfaceVariant }]}>{label}</Text>
+          ))}
+        </View>
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    marginLeft: 8,
+    fontWeight: '600',
+  },
+  prompt: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  stateButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  stateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1.5,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  stateLabel: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hourStrip: {
+    flexDirection: 'row',
+    gap: 2,
+  },
+  hourCell: {
+    flex: 1,
+    height: 24,
+    borderRadius: 3,
+    borderWidth: 1.5,
+  },
+  hourLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  hourLabel: {
+    fontSize: 11,
+  },
+});
+
+export default MotorDiaryCard;
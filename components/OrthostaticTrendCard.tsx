@@ -0,0 +1,155 @@
+import React from 'react';
+import { View, StyleSheet, Dimensions, StyleProp, ViewStyle } from 'react-native';
+import { Text, Card, Button, Chip, useTheme } from 'react-native-paper';
+import { LineChart } from 'react-native-chart-kit';
+import { format } from 'date-fns';
+import { OrthostaticTest } from '../lib/repositories';
+import {
+  ORTHOSTATIC_DIASTOLIC_DROP,
+  ORTHOSTATIC_SYSTOLIC_DROP,
+  formatDrop,
+  getStoredResult,
+} from '../lib/orthostatic';
+
+const screenWidth = Dimensions.get('window').width;
+
+const RECENT_TESTS_SHOWN = 3;
+
+interface OrthostaticTrendCardProps {
+  tests: OrthostaticTest[]; // Oldest first
+  onStartTest?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Drop in blood pressure on standing across a patient's orthostatic tests
+const OrthostaticTrendCard: React.FC<OrthostaticTrendCardProps> = ({ tests, onStartTest, style }) => {
+  const theme = useTheme();
+  const results = tests.map(test => ({ test, result: getStoredResult(test) }));
+  const flaggedCount = results.filter(({ result }) => result.isOrthostatic).length;
+  const systolicColor = theme.colors.primary;
+  const diastolicColor = theme.colors.tertiary;
+
+  return (
+    <Card style={style}>
+      <Card.Title
+        title="Standing Blood Pressure Drop"
+        subtitle={
+          tests.length === 0
+            ? 'No standing tests in this period'
+            : `${flaggedCount} of ${tests.length} ${tests.length === 1 ? 'test' : 'tests'} dropped ${ORTHOSTATIC_SYSTOLIC_DROP}/${ORTHOSTATIC_DIASTOLIC_DROP} mmHg or more`
+        }
+      />
+      <Card.Content style={styles.content}>
+        {tests.length >= 2 && (
+          <>
+            <LineChart
+              data={{
+                labels: results.map(({ test }) => format(new Date(test.started_at), 'MMM d')),
+                datasets: [
+                  { data: results.map(({ result }) => result.systolicDrop), color: () => systolicColor, strokeWidth: 2 },
+                  { data: results.map(({ result }) => result.diastolicDrop), color: () => diastolicColor, strokeWidth: 2 },
+                ],
+              }}
+              width={screenWidth - 70}
+              height={200}
+              yAxisSuffix=" mmHg"
+              chartConfig={{
+                backgroundColor: theme.colors.surface,
+                backgroundGradientFrom: theme.colors.surfaceVariant,
+                backgroundGradientTo: theme.colors.surfaceVariant,
+                decimalPlaces: 0,
+                color: () => theme.colors.primary,
+                labelColor: () => theme.colors.onSurfaceVariant,
+                propsForBackgroundLines: {
+                  stroke: theme.colors.outlineVariant,
+                  strokeDasharray: '',
+                },
+              }}
+              // A flagged test gets a red dot on both lines
+              getDotColor={(_, index) => (results[index]?.result.isOrthostatic ? theme.colors.error : theme.colors.outline)}
+              style={styles.chart}
+              verticalLabelRotation={tests.length > 7 ? 30 : 0}
+            />
+            <View style={styles.legend}>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendColorBox, { backgroundColor: systolicColor }]} />
+                <Text variant="bodySmall">Systolic drop</Text>
+              </View>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendColorBox, { backgroundColor: diastolicColor }]} />
+                <Text variant="bodySmall">Diastolic drop</Text>
+              </View>
+            </View>
+          </>
+        )}
+
+        {results
+          .slice(-RECENT_TESTS_SHOWN)
+          .reverse()
+          .map(({ test, result }) => (
+            <View key={test.id} style={styles.testRow}>
+              <View style={styles.testText}>
+                <Text variant="bodyMedium">{format(new Date(test.started_at), 'MMM d, h:mm a')}</Text>
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Drop {formatDrop(result)}
+                  {test.standing_3_systolic === null ? ' · sat down before 3 minutes' : ''}
+                  {test.symptomatic ? ' · dizzy' : ''}
+                </Text>
+              </View>
+              {result.isOrthostatic && (
+                <Chip
+                  compact
+                  icon="alert"
+                  style={{ backgroundColor: theme.colors.errorContainer }}
+                  textStyle={{ color: theme.colors.onErrorContainer }}
+                >
+                  Drop
+                </Chip>
+              )}
+            </View>
+          ))}
+
+        {onStartTest && (
+          <Button mode="outlined" icon="human-handsup" onPress={onStartTest}>
+            Take a standing test
+          </Button>
+        )}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    gap: 8,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendColorBox: {
+    width: 12,
+    height: 12,
+    marginRight: 6,
+    borderRadius: 2,
+  },
+  testRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  testText: {
+    flex: 1,
+  },
+});
+
+export default OrthostaticTrendCard;
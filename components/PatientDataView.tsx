@@ -4,7 +4,9 @@ import { Text, Card, Avatar, useTheme, Surface, ActivityIndicator } from 'react-
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
-import { supabase, UserProfile } from '../lib/supabase';
+import { UserProfile } from '../lib/supabase';
+import { repositories } from '../lib/repositories';
+import CaregiverRealtimeService from '../services/CaregiverRealtimeService';
 import { format } from 'date-fns';
 
 const AnimatedSurface = Animated.createAnimatedComponent(Surface);
@@ -24,66 +26,22 @@ const PatientDataView: React.FC<PatientDataViewProps> = ({ patient }) => {
   const [healthData, setHealthData] = useState<PatientHealthData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  const fetchPatientHealthData = useCallback(async (patientId: string) => {
-    setIsLoading(true);
+  // Live refreshes are silent so the cards don't flash a spinner on every dose logged
+  const fetchPatientHealthData = useCallback(async (patientId: string, silent = false) => {
+    if (!silent) setIsLoading(true);
     try {
       const today = new Date();
       const todayStr = today.toISOString().split('T')[0];
 
-      // 1. Fetch medication adherence using the same logic as HomeScreen
-      const dayOfWeek = today.toLocaleDateString('en-US', { weekday: 'short' });
-      
-      // Get today's scheduled medications - use user_id in medication_schedules
-      const { data: schedules, error: schedulesError } = await supabase
-        .from('medication_schedules')
-        .select(`
-          id,
-          medication_id,
-          scheduled_time,
-          days_of_week,
-          medications!inner(
-            id,
-            name
-          )
-        `)
-        .eq('user_id', patientId)
-        .contains('days_of_week', [dayOfWeek]);
+      // Same definitions of adherence, next appointment and sleep as HomeScreen
+      const [medicationAdherence, appointment, latestSleep] = await Promise.all([
+        repositories.getDailyAdherence(patientId, today),
+        repositories.appointments.getNextAppointment(patientId, todayStr),
+        repositories.metrics.getLatestByCategoryName(patientId, 'Sleep Duration'),
+      ]);
 
-      if (schedulesError) throw schedulesError;
-
-      const totalScheduled = schedules?.length || 0;
-
-      // Get today's taken medications
-      const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const todayEnd = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
-      
-      const { data: logs, error: logsError } = await supabase
-        .from('medication_administration_logs')
-        .select('id, medication_id, status')
-        .eq('user_id', patientId)
-        .gte('taken_at', todayStart.toISOString())
-        .lt('taken_at', todayEnd.toISOString())
-        .eq('status', 'taken');
-
-      if (logsError) throw logsError;
-
-      const totalTaken = logs?.length || 0;
-      const medicationPercentage = totalScheduled > 0 ? Math.round((totalTaken / totalScheduled) * 100) : 0;
-
-      // 2. Fetch next appointment - use patient_id for doctor_appointments
-      const { data: appointments, error: appointmentsError } = await supabase
-        .from('doctor_appointments')
-        .select('appointment_date, doctor_name, notes')
-        .eq('patient_id', patientId)
-        .gte('appointment_date', todayStr)
-        .order('appointment_date', { ascending: true })
-        .limit(1);
-
-      if (appointmentsError) throw appointmentsError;
-
-      let nextAppointmentData = { daysUntil: -1, doctorName: undefined, appointmentDate: undefined };
-      if (appointments && appointments.length > 0) {
-        const appointment = appointments[0];
+      let nextAppointmentData: PatientHealthData['nextAppointment'] = { daysUntil: -1, doctorName: undefined, appointmentDate: undefined };
+      if (appointment) {
         const appointmentDate = new Date(appointment.appointment_date);
         const todayDate = new Date(todayStr);
         const diffTime = appointmentDate.getTime() - todayDate.getTime();
@@ -94,24 +52,9 @@ const PatientDataView: React.FC<PatientDataViewProps> = ({ patient }) => {
         };
       }
 
-      // 3. Fetch sleep data using the same logic as HomeScreen
-      const { data: sleepMetrics, error: sleepError } = await supabase
-        .from('health_metrics')
-        .select(`
-          value,
-          recorded_at,
-          health_metric_categories!inner(name)
-        `)
-        .eq('patient_id', patientId)
-        .eq('health_metric_categories.name', 'Sleep Duration')
-        .order('recorded_at', { ascending: false })
-        .limit(1);
-
-      if (sleepError) throw sleepError;
-
       let sleepQualityData = { hours: 0, quality: 'Unknown', lastNight: false };
-      if (sleepMetrics && sleepMetrics.length > 0) {
-        const hours = parseFloat(sleepMetrics[0].value);
+      if (latestSleep) {
+        const hours = Number(latestSleep.value);
         sleepQualityData = {
           hours,
           quality: hours >= 8 ? 'Great' : hours >= 7 ? 'Good' : hours >= 5 ? 'Fair' : 'Poor',
@@ -120,10 +63,10 @@ const PatientDataView: React.FC<PatientDataViewProps> = ({ patient }) => {
       }
 
       const newHealthData: PatientHealthData = {
-        medicationAdherence: { 
-          taken: totalTaken, 
-          total: totalScheduled, 
-          percentage: medicationPercentage 
+        medicationAdherence: {
+          taken: medicationAdherence.taken,
+          total: medicationAdherence.total,
+          percentage: medicationAdherence.percentage
         },
         nextAppointment: nextAppointmentData,
         sleepQuality: sleepQualityData,
@@ -133,7 +76,7 @@ const PatientDataView: React.FC<PatientDataViewProps> = ({ patient }) => {
 
     } catch (error) {
       console.error('Error fetching patient health data:', error);
-      Alert.alert('Error', 'Failed to load patient health data.');
+      if (!silent) Alert.alert('Error', 'Failed to load patient health data.');
     } finally {
       setIsLoading(false);
     }
@@ -145,6 +88,15 @@ const PatientDataView: React.FC<PatientDataViewProps> = ({ patient }) => {
     }
   }, [patient?.id, fetchPatientHealthData]);
 
+  useEffect(() => {
+    if (!patient?.id) return;
+    return CaregiverRealtimeService.subscribe(event => {
+      if (event.kind === 'resync' || event.patientId === patient.id) {
+        fetchPatientHealthData(patient.id, true);
+      }
+    });
+  }, [patient?.id, fetchPatientHealthData]);
+
   const getInitials = (firstName?: string, lastName?: string) => (firstName && lastName ? `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase() : 'P');
   const getAdherenceColor = (p: number) => (p >= 80 ? '#22c55e' : p >= 60 ? '#f59e0b' : '#ef4444');
   const getDaysColor = (d: number) => (d === -1 ? theme.colors.outline : d === 0 ? '#ef4444' : d <= 3 ? '#f59e0b' : '#22c55e');
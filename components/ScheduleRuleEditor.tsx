@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Chip, Button, IconButton, useTheme } from 'react-native-paper';
+import { DatePickerModal } from 'react-native-paper-dates';
+import { format, parseISO } from 'date-fns';
+import { DayOfWeek } from '../lib/repositories';
+import {
+  AsNeededRule,
+  FlexibleScheduleRule,
+  IntervalRule,
+  SCHEDULE_RULE_LABELS,
+  TitrationPhase,
+  TitrationRule,
+  describeScheduleRule,
+} from '../lib/scheduleRules';
+
+const WEEK: DayOfWeek[] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Starting points for each rule type, e.g. levodopa every 3 hours while awake
+export const createDefaultRule = (kind: FlexibleScheduleRule['kind'], startDate?: Date): FlexibleScheduleRule => {
+  switch (kind) {
+    case 'interval':
+      return { kind, intervalMinutes: 180, firstDose: '07:00', lastDose: '22:00', daysOfWeek: [...WEEK] };
+    case 'as_needed':
+      return { kind, maxDosesPerDay: 3, minMinutesBetween: 120 };
+    case 'titration':
+      return {
+        kind,
+        startDate: format(startDate ?? new Date(), 'yyyy-MM-dd'),
+        phases: [
+          { days: 7, times: ['08:00'], dosage: '', doseAmount: null },
+          { days: null, times: ['08:00', '14:00'], dosage: '', doseAmount: null },
+        ],
+      };
+  }
+};
+
+interface NumberFieldProps {
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+  disabled?: boolean;
+}
+
+// Keeps the raw text while typing so "2." or an empty field are not rewritten mid-edit
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, disabled }) => {
+  const [text, setText] = useState(value === null ? '' : String(value));
+  return (
+    <TextInput
+      label={label}
+      value={text}
+      onChangeText={next => {
+        setText(next);
+        onChange(next.trim() ? Number(next) : null);
+      }}
+      keyboardType="decimal-pad"
+      mode="outlined"
+      dense
+      style={styles.field}
+      disabled={disabled}
+    />
+  );
+};
+
+interface TimesFieldProps {
+  times: string[];
+  onChange: (times: string[]) => void;
+  disabled?: boolean;
+}
+
+const TimesField: React.FC<TimesFieldProps> = ({ times, onChange, disabled }) => {
+  const [text, setText] = useState(times.join(', '));
+  return (
+    <TextInput
+      label="Times (HH:MM, comma separated)"
+      value={text}
+      onChangeText={next => {
+        setText(next);
+        onChange(next.split(/[,\s]+/).filter(Boolean));
+      }}
+      mode="outlined"
+      dense
+      style={styles.field}
+      disabled={disabled}
+    />
+  );
+};
+
+interface ScheduleRuleEditorProps {
+  rule: FlexibleScheduleRule;
+  onChange: (rule: FlexibleScheduleRule) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+// Inline editor for interval, as-needed and titration schedules in the medication form
+const ScheduleRuleEditor: React.FC<ScheduleRuleEditorProps> = ({ rule, onChange, onRemove, disabled }) => {
+  const theme = useTheme();
+  const [datePickerVisible, setDatePickerVisible] = useState(false);
+
+  const renderInterval = (interval: IntervalRule) => (
+    <>
+      <View style={styles.row}>
+        <NumberField
+          label="Every (hours)"
+          value={interval.intervalMinutes / 60}
+          onChange={hours => onChange({ ...interval, intervalMinutes: Math.round((hours ?? 0) * 60) })}
+          disabled={disabled}
+        />
+        <TextInput
+          label="First dose"
+          value={interval.firstDose}
+          onChangeText={firstDose => onChange({ ...interval, firstDose })}
+          mode="outlined"
+          dense
+          style={styles.field}
+          disabled={disabled}
+        />
+        <TextInput
+          label="Last dose"
+          value={interval.lastDose}
+          onChangeText={lastDose => onChange({ ...interval, lastDose })}
+          mode="outlined"
+          dense
+          style={styles.field}
+          disabled={disabled}
+        />
+      </View>
+      <View style={styles.chipRow}>
+        {WEEK.map(day => (
+          <Chip
+            key={day}
+            selected={interval.daysOfWeek.includes(day)}
+            onPress={() =>
+              onChange({
+                ...interval,
+                daysOfWeek: interval.daysOfWeek.includes(day)
+                  ? interval.daysOfWeek.filter(d => d !== day)
+                  : WEEK.filter(d => d === day || interval.daysOfWeek.includes(d)),
+              })
+            }
+            style={styles.chip}
+            mode="outlined"
+            disabled={disabled}
+          >
+            {day}
+          </Chip>
+        ))}
+      </View>
+    </>
+  );
+
+  const renderAsNeeded = (asNeeded: AsNeededRule) => (
+    <View style={styles.row}>
+      <NumberField
+        label="Max doses per day"
+        value={asNeeded.maxDosesPerDay}
+        onChange={max => onChange({ ...asNeeded, maxDosesPerDay: max ?? 0 })}
+        disabled={disabled}
+      />
+      <NumberField
+        label="Hours between doses"
+        value={asNeeded.minMinutesBetween === null ? null : asNeeded.minMinutesBetween / 60}
+        onChange={hours => onChange({ ...asNeeded, minMinutesBetween: hours === null ? null : Math.round(hours * 60) })}
+        disabled={disabled}
+      />
+    </View>
+  );
+
+  const renderTitration = (titration: TitrationRule) => {
+    const updatePhase = (index: number, changes: Partial<TitrationPhase>) =>
+      onChange({ ...titration, phases: titration.phases.map((phase, i) => (i === index ? { ...phase, ...changes } : phase)) });
+
+    const addPhase = () => {
+      const last = titration.phases[titration.phases.length - 1];
+      // The new phase becomes the open-ended one; the previous last phase gets a length
+      const phases = titration.phases.map(phase => (phase.days === null ? { ...phase, days: 7 } : phase));
+      onChange({ ...titration, phases: [...phases, { days: null, times: last?.times ?? ['08:00'], dosage: '', doseAmount: null }] });
+    };
+
+    return (
+      <>
+        <Button
+          mode="outlined"
+          uppercase={false}
+          onPress={() => setDatePickerVisible(true)}
+          disabled={disabled}
+          style={styles.field}
+        >
+          Plan starts {format(parseISO(titration.startDate), 'MMM d, yyyy')}
+        </Button>
+        <DatePickerModal
+          locale="en"
+          mode="single"
+          visible={datePickerVisible}
+          onDismiss={() => setDatePickerVisible(false)}
+          date={parseISO(titration.startDate)}
+          onConfirm={({ date }) => {
+            setDatePickerVisible(false);
+            if (date) onChange({ ...titration, startDate: format(date, 'yyyy-MM-dd') });
+          }}
+        />
+        {titration.phases.map((phase, index) => (
+          // Keyed on the phase count too, so removing a phase resets the fields below it
+          <View key={`${index}-${titration.phases.length}`} style={[styles.phase, { borderColor: theme.colors.outlineVariant }]}>
+            <View style={styles.phaseHeader}>
+              <Text variant="labelLarge">Phase {index + 1}</Text>
+              {titration.phases.length > 1 && (
+                <IconButton
+                  icon="close"
+                  size={18}
+                  onPress={() => onChange({ ...titration, phases: titration.phases.filter((_, i) => i !== index) })}
+                  disabled={disabled}
+                />
+              )}
+            </View>
+            <View style={styles.row}>
+              <TextInput
+                label="Dose"
+                value={phase.dosage}
+                onChangeText={dosage => updatePhase(index, { dosage })}
+                mode="outlined"
+                dense
+                style={styles.field}
+                disabled={disabled}
+              />
+              <NumberField
+                label={index === titration.phases.length - 1 ? 'Days (blank = ongoing)' : 'Days'}
+                value={phase.days}
+                onChange={days => updatePhase(index, { days })}
+                disabled={disabled}
+              />
+            </View>
+            <TimesField times={phase.times} onChange={times => updatePhase(index, { times })} disabled={disabled} />
+          </View>
+        ))}
+        <Button icon="plus" mode="text" onPress={addPhase} disabled={disabled}>
+          Add phase
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text variant="titleSmall">{SCHEDULE_RULE_LABELS[rule.kind]}</Text>
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            {describeScheduleRule(rule)}
+          </Text>
+        </View>
+        <IconButton icon="delete-outline" onPress={onRemove} disabled={disabled} />
+      </View>
+      {rule.kind === 'interval' && renderInterval(rule)}
+      {rule.kind === 'as_needed' && renderAsNeeded(rule)}
+      {rule.kind === 'titration' && renderTitration(rule)}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 10,
+    paddingBottom: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerText: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    margin: 2,
+  },
+  phase: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  phaseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+});
+
+export default ScheduleRuleEditor;
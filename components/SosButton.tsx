@@ -0,0 +1,104 @@
+import React, { useRef } from 'react';
+import { Animated, Pressable, StyleSheet, View } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+
+const HOLD_DURATION_MS = 3000;
+
+// Tremor can drag a finger well off the button; the press only ends when it is lifted
+const PRESS_RETENTION = { top: 80, bottom: 80, left: 80, right: 80 };
+
+interface SosButtonProps {
+  onConfirmed: () => void;
+  disabled?: boolean;
+}
+
+// Hold-to-confirm SOS: the fill grows while the button is held and the SOS is only
+// raised once it is full. Letting go early cancels.
+const SosButton: React.FC<SosButtonProps> = ({ onConfirmed, disabled = false }) => {
+  const progress = useRef(new Animated.Value(0)).current;
+  const animation = useRef<Animated.CompositeAnimation | null>(null);
+
+  const startHold = () => {
+    if (disabled) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    animation.current = Animated.timing(progress, {
+      toValue: 1,
+      duration: HOLD_DURATION_MS,
+      useNativeDriver: false,
+    });
+    animation.current.start(({ finished }) => {
+      if (!finished) return;
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      progress.setValue(0);
+      onConfirmed();
+    });
+  };
+
+  const cancelHold = () => {
+    animation.current?.stop();
+    animation.current = null;
+    Animated.timing(progress, { toValue: 0, duration: 200, useNativeDriver: false }).start();
+  };
+
+  const fillWidth = progress.interpolate({ inputRange: [0, 1], outputRange: ['0%', '100%'] });
+
+  return (
+    <Pressable
+      onPressIn={startHold}
+      onPressOut={cancelHold}
+      pressRetentionOffset={PRESS_RETENTION}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityLabel="SOS"
+      accessibilityHint="Press and hold for three seconds to alert your caregivers"
+      style={[styles.button, disabled && styles.disabled]}
+    >
+      <Animated.View style={[styles.fill, { width: fillWidth }]} />
+      <View style={styles.content}>
+        <MaterialCommunityIcons name="alarm-light-outline" size={28} color="#fff" />
+        <View>
+          <Text variant="titleLarge" style={styles.title}>SOS</Text>
+          <Text variant="bodySmall" style={styles.subtitle}>Hold for 3 seconds to alert your caregivers</Text>
+        </View>
+      </View>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    borderRadius: 16,
+    backgroundColor: '#dc2626',
+    overflow: 'hidden',
+    minHeight: 72,
+    justifyContent: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  fill: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    backgroundColor: '#7f1d1d',
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  title: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  subtitle: {
+    color: '#fee2e2',
+  },
+});
+
+export default SosButton;
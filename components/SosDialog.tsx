@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Linking, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Button, Dialog, Portal, Text } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { parseEmergencyContact, toDialUrl } from '../lib/emergencyContact';
+import SosService, { SosResult, SosStatus } from '../services/SosService';
+import SosButton from './SosButton';
+
+interface SosDialogProps {
+  visible: boolean;
+  confirmed: boolean; // Already held on the home screen; otherwise the dialog asks for the hold
+  emergencyContact: string | null | undefined;
+  onDismiss: () => void;
+}
+
+type SosStage = 'confirm' | 'sending' | 'sent' | 'failed';
+
+const SosDialog: React.FC<SosDialogProps> = ({ visible, confirmed, emergencyContact, onDismiss }) => {
+  const [stage, setStage] = useState<SosStage>('confirm');
+  const [result, setResult] = useState<SosResult | null>(null);
+  const [status, setStatus] = useState<SosStatus | null>(null);
+
+  const contact = parseEmergencyContact(emergencyContact);
+
+  const send = async () => {
+    setStage('sending');
+    try {
+      setResult(await SosService.trigger());
+      setStage('sent');
+    } catch (error) {
+      console.error('[SosDialog] Failed to raise SOS:', error);
+      setStage('failed');
+    }
+  };
+
+  useEffect(() => {
+    if (!visible) return;
+    setResult(null);
+    setStatus(null);
+    if (confirmed) {
+      send();
+    } else {
+      setStage('confirm');
+    }
+  }, [visible, confirmed]);
+
+  useEffect(() => {
+    if (!result?.incidentId || result.notified === 0) return;
+    return SosService.watch(result.incidentId, setStatus);
+  }, [result?.incidentId]);
+
+  const describeStatus = (): string => {
+    if (!result) return '';
+    if (result.notified === 0) return 'You have no connected caregivers. Call your emergency contact.';
+    if (status?.status === 'acknowledged') return `${status.responderName ?? 'A caregiver'} is on it.`;
+    if (status?.status === 'resolved') return `${status.responderName ?? 'A caregiver'} has handled your SOS.`;
+    return `${result.notified} caregiver${result.notified > 1 ? 's were' : ' was'} alerted. We keep alerting them until someone responds.`;
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={stage === 'sending' ? undefined : onDismiss}>
+        <Dialog.Title>SOS</Dialog.Title>
+        <Dialog.Content style={styles.content}>
+          {stage === 'confirm' && (
+            <>
+              <Text variant="bodyMedium">Hold the button to alert all of your caregivers.</Text>
+              <SosButton onConfirmed={send} />
+            </>
+          )}
+          {stage === 'sending' && (
+            <View style={styles.row}>
+              <ActivityIndicator />
+              <Text variant="bodyMedium">Alerting your caregivers…</Text>
+            </View>
+          )}
+          {stage === 'sent' && (
+            <View style={styles.row}>
+              <MaterialCommunityIcons
+                name={status && status.status !== 'open' ? 'account-check' : 'bell-ring-outline'}
+                size={28}
+                color={status && status.status !== 'open' ? '#22c55e' : '#dc2626'}
+              />
+              <Text variant="bodyMedium" style={styles.statusText}>{describeStatus()}</Text>
+            </View>
+          )}
+          {stage === 'failed' && (
+            <Text variant="bodyMedium">
+              Your caregivers could not be reached. Check your connection and try again, or call for help directly.
+            </Text>
+          )}
+
+          {contact?.phoneNumber && stage !== 'confirm' && (
+            <Button
+              mode="contained"
+              icon="phone"
+              buttonColor="#dc2626"
+              onPress={() => Linking.openURL(toDialUrl(contact.phoneNumber!))}
+            >
+              Call {contact.name ?? 'emergency contact'}
+            </Button>
+          )}
+        </Dialog.Content>
+        <Dialog.Actions>
+          {stage === 'failed' && <Button onPress={send}>Try again</Button>}
+          <Button onPress={onDismiss} disabled={stage === 'sending'}>
+            {stage === 'confirm' ? 'Cancel' : 'Close'}
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    gap: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  statusText: {
+    flex: 1,
+  },
+});
+
+export default SosDialog;
@@ -3,8 +3,10 @@ import { View, StyleSheet, Alert } from 'react-native';
 import { Button, Text, Card } from 'react-native-paper';
 import { useAuth } from '../context/AuthContext';
 import NotificationService, { MedicationAlarm } from '../services/NotificationService';
+import CaregiverRealtimeService from '../services/CaregiverRealtimeService';
 import * as Notifications from 'expo-notifications';
 import { supabase } from '../lib/supabase';
+import { repositories } from '../lib/repositories';
 
 // Simple UUID generator for testing
 const generateTestUUID = (): string => {
@@ -462,12 +464,16 @@ const TestMedicationAlarms: React.FC = () => {
         return;
       }
 
-      const hasToken = settings?.expo_push_token ? 'Yes' : 'No';
-      const tokenPreview = settings?.expo_push_token ? settings.expo_push_token.substring(0, 20) + '...' : 'None';
+      const devices = await repositories.devices.listForUser(user.id);
+      const pushDevices = devices.filter(device => device.enabled && device.push_token);
+      const tokenPreview = pushDevices.length > 0 ? pushDevices[0].push_token!.substring(0, 20) + '...' : 'None';
+      const deviceLines = devices
+        .map(device => `• ${device.device_name ?? device.platform} (${device.platform}): ${device.enabled && device.push_token ? 'push' : 'no push'}`)
+        .join('\n');
       
       Alert.alert(
         'Notification Settings',
-        `User ID: ${user.id}\nEmail: ${user.email}\nRole: ${user.role}\n\nHas Push Token: ${hasToken}\nToken Preview: ${tokenPreview}\n\nCheck console for full details.`
+        `User ID: ${user.id}\nEmail: ${user.email}\nRole: ${user.role}\n\nDevices Receiving Pushes: ${pushDevices.length} of ${devices.length}\n${deviceLines}\nToken Preview: ${tokenPreview}\n\nCheck console for full details.`
       );
 
     } catch (error: any) {
@@ -556,23 +562,23 @@ const TestMedicationAlarms: React.FC = () => {
     }
   };
 
-  const checkPollingStatus = async () => {
+  const checkFeedStatus = async () => {
     if (!user) {
       Alert.alert('Error', 'Please log in first');
       return;
     }
 
     try {
-      const isActive = NotificationService.isCaregiverPollingActive();
+      const isActive = CaregiverRealtimeService.isConnected();
       
       Alert.alert(
-        'Auto-Polling Status 🔄',
-        `Automatic caregiver alert polling is currently: ${isActive ? '✅ ACTIVE' : '❌ INACTIVE'}\n\nUser: ${user.email}\nRole: ${user.role}\n\n${isActive ? 'Caregiver alerts will appear automatically every 10 seconds.' : 'You need to manually check for alerts.'}`
+        'Live Feed Status 🔄',
+        `The caregiver live feed is currently: ${isActive ? '✅ CONNECTED' : '❌ DISCONNECTED'}\n\nUser: ${user.email}\nRole: ${user.role}\n\n${isActive ? 'Caregiver alerts will appear as soon as they are created.' : 'You need to manually check for alerts.'}`
       );
       
     } catch (error: any) {
-      console.error('[TestAlarms] Error checking polling status:', error);
-      Alert.alert('Error', `Failed to check polling status: ${error.message}`);
+      console.error('[TestAlarms] Error checking feed status:', error);
+      Alert.alert('Error', `Failed to check feed status: ${error.message}`);
     }
   };
 
@@ -778,13 +784,13 @@ const TestMedicationAlarms: React.FC = () => {
         
         <Button
           mode="outlined"
-          onPress={checkPollingStatus}
+          onPress={checkFeedStatus}
           loading={isScheduling}
           disabled={isScheduling}
           style={styles.button}
           icon="radar"
         >
-          {isScheduling ? 'Checking...' : 'Check Auto-Polling Status'}
+          {isScheduling ? 'Checking...' : 'Check Live Feed Status'}
         </Button>
         
         <Text style={styles.note}>
@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, Button, Chip, Modal, Portal, Surface, ActivityIndicator, Divider } from 'react-native-paper';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { format, parseISO, subDays } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { AppointmentReport } from '../lib/repositories';
+import { VisitReport } from '../lib/visitReport';
+import VisitReportService, {
+  DEFAULT_REPORT_DAYS,
+  ReportAppointment,
+  VisitReportFormat,
+} from '../services/VisitReportService';
+
+type RangeOption = 'since_last_visit' | 'last_30_days' | 'last_90_days';
+
+interface VisitReportModalProps {
+  visible: boolean;
+  onDismiss: () => void;
+  // When set, the report can be attached to this appointment
+  appointment?: ReportAppointment | null;
+}
+
+// Builds a clinician report for a date range and shares or attaches it
+const VisitReportModal: React.FC<VisitReportModalProps> = ({ visible, onDismiss, appointment }) => {
+  const { user } = useAuth();
+  const [rangeOption, setRangeOption] = useState<RangeOption>('since_last_visit');
+  const [lastVisitDate, setLastVisitDate] = useState<Date | null>(null);
+  const [report, setReport] = useState<VisitReport | null>(null);
+  const [attachedReports, setAttachedReports] = useState<AppointmentReport[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const patientId = appointment?.patient_id ?? user?.id;
+  const patientName = user?.full_name || 'Patient';
+
+  const loadReport = useCallback(async () => {
+    if (!patientId) return;
+    setIsLoading(true);
+    try {
+      const today = new Date();
+      const range = await VisitReportService.getDefaultReportRange(patientId, today);
+      setLastVisitDate(range.lastVisit ? parseISO(range.lastVisit.appointment_date) : null);
+
+      const from =
+        rangeOption === 'last_30_days' ? subDays(today, 30) :
+        rangeOption === 'last_90_days' ? subDays(today, 90) :
+        range.from;
+
+      const [generated, attached] = await Promise.all([
+        VisitReportService.generateVisitReport(patientId, patientName, from, today, appointment ?? undefined),
+        appointment ? VisitReportService.listAttachedReports(appointment.id) : Promise.resolve([]),
+      ]);
+      setReport(generated);
+      setAttachedReports(attached);
+    } catch (error: any) {
+      console.error('Error building visit report:', error);
+      Alert.alert('Error', `Failed to build report: ${error.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [patientId, patientName, rangeOption, appointment]);
+
+  useEffect(() => {
+    if (visible) loadReport();
+  }, [visible, loadReport]);
+
+  const handleShare = async (reportFormat: VisitReportFormat) => {
+    if (!report) return;
+    setBusyAction(reportFormat);
+    try {
+      await VisitReportService.shareVisitReport(report, reportFormat);
+    } catch (error: any) {
+      console.error('Error sharing visit report:', error);
+      Alert.alert('Error', `Failed to share report: ${error.message}`);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleAttach = async () => {
+    if (!report || !appointment || !user?.id) return;
+    setBusyAction('attach');
+    try {
+      const saved = await VisitReportService.attachVisitReport(report, appointment, user.id);
+      setAttachedReports(prev => [saved, ...prev]);
+      Alert.alert('Report Attached', `The report is saved with your appointment with Dr. ${appointment.doctor_name}.`);
+    } catch (error: any) {
+      console.error('Error attaching visit report:', error);
+      Alert.alert('Error', `Failed to attach report: ${error.message}`);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleShareAttached = async (path: string | null) => {
+    if (!path) return;
+    setBusyAction(path);
+    try {
+      await VisitReportService.shareAttachedReport(path);
+    } catch (error: any) {
+      console.error('Error sharing attached report:', error);
+      Alert.alert('Error', `Failed to open report: ${error.message}`);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const rangeLabels: Record<RangeOption, string> = {
+    since_last_visit: lastVisitDate ? `Since ${format(lastVisitDate, 'MMM d')}` : `Last ${DEFAULT_REPORT_DAYS} days`,
+    last_30_days: 'Last 30 days',
+    last_90_days: 'Last 90 days',
+  };
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.modalContainer}>
+        <Surface style={styles.content} elevation={5}>
+          <View style={styles.header}>
+            <MaterialCommunityIcons name="file-chart" size={24} color="#667eea" />
+            <View style={styles.headerText}>
+              <Text variant="titleLarge" style={styles.title}>Visit Report</Text>
+              {appointment && (
+                <Text variant="bodySmall" style={styles.subtitle}>
+                  For Dr. {appointment.doctor_name} on {format(parseISO(appointment.appointment_date), 'MMM d')}
+                </Text>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.rangeChips}>
+            {(Object.keys(rangeLabels) as RangeOption[]).map(option => (
+              <Chip
+                key={option}
+                selected={rangeOption === option}
+                onPress={() => setRangeOption(option)}
+                style={styles.rangeChip}
+                compact
+              >
+                {rangeLabels[option]}
+              </Chip>
+            ))}
+          </View>
+
+          {isLoading || !report ? (
+            <ActivityIndicator style={styles.loading} />
+          ) : (
+            <View style={styles.preview}>
+              <Text variant="bodySmall" style={styles.period}>
+                {format(parseISO(report.periodStart), 'MMM d, yyyy')} – {format(parseISO(report.periodEnd), 'MMM d, yyyy')}
+              </Text>
+              <View style={styles.previewRow}>
+                <View style={styles.previewItem}>
+                  <Text style={styles.previewValue}>{report.adherence.due > 0 ? `${report.adherence.percentage}%` : '–'}</Text>
+                  <Text style={styles.previewLabel}>Doses taken</Text>
+                </View>
+                <View style={styles.previewItem}>
+                  <Text style={styles.previewValue}>{report.metrics.reduce((sum, m) => sum + m.count, 0)}</Text>
+                  <Text style={styles.previewLabel}>Readings</Text>
+                </View>
+                <View style={styles.previewItem}>
+                  <Text style={styles.previewValue}>{report.checkins.reduce((sum, c) => sum + c.total, 0)}</Text>
+                  <Text style={styles.previewLabel}>Check-ins</Text>
+                </View>
+                <View style={styles.previewItem}>
+                  <Text style={styles.previewValue}>{report.motorDiary ? `${report.motorDiary.offPercentage}%` : '–'}</Text>
+                  <Text style={styles.previewLabel}>Time OFF</Text>
+                </View>
+              </View>
+            </View>
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              mode="outlined"
+              icon="file-pdf-box"
+              onPress={() => handleShare('pdf')}
+              loading={busyAction === 'pdf'}
+              disabled={!report || busyAction !== null}
+              style={styles.actionButton}
+              textColor="#667eea"
+            >
+              Share PDF
+            </Button>
+            <Button
+              mode="outlined"
+              icon="file-delimited"
+              onPress={() => handleShare('csv')}
+              loading={busyAction === 'csv'}
+              disabled={!report || busyAction !== null}
+              style={styles.actionButton}
+              textColor="#667eea"
+            >
+              Share CSV
+            </Button>
+          </View>
+          {appointment && (
+            <Button
+              mode="contained"
+              icon="paperclip"
+              onPress={handleAttach}
+              loading={busyAction === 'attach'}
+              disabled={!report || busyAction !== null}
+              buttonColor="#667eea"
+            >
+              Attach to Appointment
+            </Button>
+          )}
+
+          {attachedReports.length > 0 && (
+            <View style={styles.attached}>
+              <Divider style={styles.divider} />
+              <Text variant="titleSmall" style={styles.attachedTitle}>Attached Reports</Text>
+              {attachedReports.map(attached => (
+                <View key={attached.id} style={styles.attachedRow}>
+                  <Text variant="bodySmall" style={styles.attachedText}>
+                    {format(parseISO(attached.period_start), 'MMM d')} – {format(parseISO(attached.period_end), 'MMM d')}
+                  </Text>
+                  <Button compact onPress={() => handleShareAttached(attached.pdf_path)} disabled={!attached.pdf_path || busyAction !== null}>
+                    PDF
+                  </Button>
+                  <Button compact onPress={() => handleShareAttached(attached.csv_path)} disabled={!attached.csv_path || busyAction !== null}>
+                    CSV
+                  </Button>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <Button mode="text" onPress={onDismiss} textColor="#6b7280" style={styles.closeButton}>
+            Close
+          </Button>
+        </Surface>
+      </Modal>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    margin: 20,
+  },
+  content: {
+    borderRadius: 20,
+    padding: 20,
+    backgroundColor: 'white',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  headerText: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  title: {
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  subtitle: {
+    color: '#6b7280',
+  },
+  rangeChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  rangeChip: {
+    backgroundColor: '#f3f4f6',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  preview: {
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  period: {
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  previewItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  previewValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  previewLabel: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderColor: '#667eea',
+  },
+  attached: {
+    marginTop: 8,
+  },
+  divider: {
+    marginVertical: 8,
+  },
+  attachedTitle: {
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  attachedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  attachedText: {
+    flex: 1,
+    color: '#4b5563',
+  },
+  closeButton: {
+    marginTop: 8,
+  },
+});
+
+export default VisitReportModal;
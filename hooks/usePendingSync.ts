@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from 'react';
+import OfflineSyncService, { OutboxEntry } from '../services/OfflineSyncService';
+
+export const usePendingSync = () => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    return OfflineSyncService.subscribe(setEntries);
+  }, []);
+
+  const pendingDoseStatuses = useMemo(
+    () => OfflineSyncService.getPendingDoseStatuses(entries),
+    [entries]
+  );
+
+  return {
+    entries,
+    pendingCount: entries.length,
+
+    // Dose keys (medicationId-yyyy-MM-dd-HH:mm) with the status waiting to sync
+    pendingDoseStatuses,
+    isDosePending: (doseKey: string): boolean => pendingDoseStatuses.has(doseKey),
+
+    pendingMetricCount: entries.filter(e => e.kind === 'health_metrics').length,
+    pendingCheckinCount: entries.filter(e => e.kind === 'health_checkin').length,
+
+    syncNow: () => OfflineSyncService.flush(),
+  };
+};
@@ -0,0 +1,17 @@
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { UnitPreferences, getUnitPreferences } from '../lib/units';
+
+// The signed-in user's measurement units, kept in profiles.preferences.units
+export const useUnitPreferences = () => {
+  const { user, updateUserProfile } = useAuth();
+
+  const units = useMemo(() => getUnitPreferences(user?.preferences), [user?.preferences]);
+
+  const setUnits = useCallback(
+    (next: UnitPreferences) => updateUserProfile({ preferences: { ...(user?.preferences ?? {}), units: next } }),
+    [user?.preferences, updateUserProfile]
+  );
+
+  return { units, setUnits };
+};
@@ -0,0 +1,5 @@
+// Run every test in a zone with daylight saving time, so schedule tests cover the
+// clock changes whatever machine they run on
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};
@@ -43,7 +43,7 @@ jest.mock('expo-constants', () => ({
 }));
 
 // Silence the warning: Animated: `useNativeDriver` is not supported
-jest.mock('react-native/Libraries/Animated/NativeAnimatedHelper');
+jest.mock('react-native/src/private/animated/NativeAnimatedHelper');
 
 // Mock React Native's Alert
 jest.mock('react-native/Libraries/Alert/Alert', () => ({
@@ -0,0 +1,128 @@
+import {
+  adherenceByDay,
+  classifyDose,
+  classifyDoses,
+  expandDoses,
+  summarizeDoses,
+} from '../adherence';
+import { ScheduledDose, getDoseKey } from '../repositories/ScheduleRepository';
+import { DoseLog } from '../repositories/DoseLogRepository';
+
+const at = (hours: number, minutes = 0) => new Date(2025, 0, 6, hours, minutes);
+
+const makeDose = (intended: Date): ScheduledDose => ({
+  doseKey: getDoseKey('med-1', intended),
+  scheduleId: 'schedule-1',
+  medicationId: 'med-1',
+  medicationName: 'Levodopa',
+  dosage: '100mg',
+  instructions: null,
+  scheduledTime: '08:00',
+  intendedDoseTime: intended,
+});
+
+const makeLog = (intended: Date, status: 'taken' | 'skipped', takenAt?: Date): DoseLog => ({
+  id: `log-${intended.getTime()}`,
+  created_at: null,
+  intended_dose_time: intended.toISOString(),
+  medication_id: 'med-1',
+  notes: null,
+  schedule_id: 'schedule-1',
+  status,
+  taken_at: takenAt ? takenAt.toISOString() : null,
+  user_id: 'patient-1',
+});
+
+describe('classifyDose', () => {
+  const dose = makeDose(at(8));
+
+  it('counts a dose taken within the late window as on time', () => {
+    const result = classifyDose(dose, makeLog(at(8), 'taken', at(9)), { now: at(12) });
+    expect(result.status).toBe('on_time');
+    expect(result.minutesLate).toBe(60);
+  });
+
+  it('counts a dose taken after the late window as late', () => {
+    const result = classifyDose(dose, makeLog(at(8), 'taken', at(9, 1)), { now: at(12) });
+    expect(result.status).toBe('late');
+    expect(result.minutesLate).toBe(61);
+  });
+
+  it('does not count a dose taken early as late', () => {
+    const result = classifyDose(dose, makeLog(at(8), 'taken', at(7, 30)), { now: at(12) });
+    expect(result.status).toBe('on_time');
+    expect(result.minutesLate).toBe(0);
+  });
+
+  it('uses the intended time when a taken log has no taken_at', () => {
+    const result = classifyDose(dose, makeLog(at(8), 'taken'), { now: at(12) });
+    expect(result.status).toBe('on_time');
+    expect(result.minutesLate).toBe(0);
+  });
+
+  it('marks skipped doses as skipped, not missed', () => {
+    expect(classifyDose(dose, makeLog(at(8), 'skipped'), { now: at(23) }).status).toBe('skipped');
+  });
+
+  it('keeps an untaken dose upcoming until its window has passed', () => {
+    expect(classifyDose(dose, undefined, { now: at(9) }).status).toBe('upcoming');
+    expect(classifyDose(dose, undefined, { now: at(9, 1) }).status).toBe('missed');
+  });
+
+  it('honours a custom late window', () => {
+    const log = makeLog(at(8), 'taken', at(8, 20));
+    expect(classifyDose(dose, log, { now: at(12), lateWindowMinutes: 15 }).status).toBe('late');
+    expect(classifyDose(dose, undefined, { now: at(8, 16), lateWindowMinutes: 15 }).status).toBe('missed');
+  });
+});
+
+describe('classifyDoses', () => {
+  it('matches logs to doses by intended dose time', () => {
+    const doses = [makeDose(at(8)), makeDose(at(20))];
+    const results = classifyDoses(doses, [makeLog(at(20), 'taken', at(20, 5))], { now: at(22) });
+    expect(results.map(r => r.status)).toEqual(['missed', 'on_time']);
+  });
+});
+
+describe('summarizeDoses', () => {
+  it('leaves upcoming doses out of the percentages', () => {
+    const now = at(13);
+    const results = classifyDoses(
+      [makeDose(at(8)), makeDose(at(10)), makeDose(at(11)), makeDose(at(12, 30)), makeDose(at(20))],
+      [makeLog(at(8), 'taken', at(8, 5)), makeLog(at(10), 'taken', at(11, 30)), makeLog(at(11), 'skipped')],
+      { now }
+    );
+
+    expect(summarizeDoses(results)).toEqual({
+      total: 5,
+      due: 3,
+      taken: 2,
+      onTime: 1,
+      late: 1,
+      skipped: 1,
+      missed: 0,
+      upcoming: 2,
+      percentage: 67,
+      onTimePercentage: 33,
+    });
+  });
+
+  it('returns zero percentages when nothing is due', () => {
+    expect(summarizeDoses([])).toMatchObject({ total: 0, due: 0, percentage: 0, onTimePercentage: 0 });
+    const upcoming = classifyDoses([makeDose(at(20))], [], { now: at(8) });
+    expect(summarizeDoses(upcoming)).toMatchObject({ total: 1, due: 0, upcoming: 1, percentage: 0 });
+  });
+});
+
+describe('empty ranges', () => {
+  it('expands no doses when the range is reversed', () => {
+    expect(expandDoses([], at(12), at(8))).toEqual([]);
+    expect(adherenceByDay([], new Date(2025, 0, 7), new Date(2025, 0, 6))).toEqual([]);
+  });
+
+  it('reports days without doses as empty', () => {
+    const days = adherenceByDay([], new Date(2025, 0, 6), new Date(2025, 0, 7));
+    expect(days.map(d => d.date)).toEqual(['2025-01-06', '2025-01-07']);
+    expect(days[0].stats.total).toBe(0);
+  });
+});
@@ -0,0 +1,201 @@
+import { AlertRule, AlertRuleCondition, RULE_TEMPLATES, RuleData, evaluateRule, evaluateRules } from '../alertRules';
+import { DoseAdherence, DoseAdherenceStatus } from '../adherence';
+import { HealthCheckin } from '../repositories/CheckinRepository';
+import { HealthMetricWithCategory } from '../repositories/MetricRepository';
+
+// Thursday 20 March 2025, 14:00 in New York (jest.globalSetup.js)
+const NOW = new Date('2025-03-20T18:00:00Z');
+
+const templateCondition = (name: string): AlertRuleCondition => RULE_TEMPLATES.find(template => template.name === name)!.condition;
+
+const makeRule = (condition: AlertRuleCondition, lastTriggeredAt: Date | null = null): AlertRule => ({
+  id: 'rule-1',
+  name: 'Test rule',
+  condition,
+  lastTriggeredAt,
+});
+
+const noData: RuleData = { metrics: [], checkins: [], doses: [] };
+
+const reading = (id: string, name: string, value: number, recordedAt: string): HealthMetricWithCategory => ({
+  id,
+  category_id: `category-${name}`,
+  value,
+  notes: null,
+  recorded_at: recordedAt,
+  health_metric_categories: { name, unit: 'mmHg', normal_range_min: 90, normal_range_max: 140 },
+});
+
+const checkin = (id: string, questionId: string, response: string, checkinDate: string): HealthCheckin => ({
+  id,
+  user_id: 'patient-1',
+  question_id: questionId,
+  response,
+  checkin_date: checkinDate,
+  created_at: `${checkinDate}T12:00:00Z`,
+  updated_at: null,
+});
+
+const dose = (medicationName: string, intended: string, status: DoseAdherenceStatus): DoseAdherence => ({
+  doseKey: `${medicationName}-${intended}`,
+  scheduleId: `schedule-${medicationName}`,
+  medicationId: `med-${medicationName}`,
+  medicationName,
+  dosage: '1 tablet',
+  instructions: null,
+  scheduledTime: '08:00',
+  intendedDoseTime: new Date(intended),
+  status,
+});
+
+describe('systolic below 90 twice in 24 hours', () => {
+  const condition = templateCondition('Systolic below 90 twice in a day');
+  const metrics = [
+    reading('old', 'Blood Pressure Systolic', 80, '2025-03-19T10:00:00Z'), // More than 24 hours ago
+    reading('low-1', 'Blood Pressure Systolic', 85, '2025-03-19T22:00:00Z'),
+    reading('normal', 'Blood Pressure Systolic', 120, '2025-03-20T08:00:00Z'),
+    reading('low-2', 'Blood Pressure Systolic', 88, '2025-03-20T16:00:00Z'),
+    reading('diastolic', 'Blood Pressure Diastolic', 60, '2025-03-20T16:00:00Z'),
+    reading('later', 'Blood Pressure Systolic', 70, '2025-03-20T19:00:00Z'), // After now
+  ];
+
+  it('fires with the two low readings in the window as evidence', () => {
+    const match = evaluateRule(makeRule(condition), { ...noData, metrics }, NOW);
+    expect(match).toEqual({
+      ruleId: 'rule-1',
+      ruleName: 'Test rule',
+      summary: 'Blood Pressure Systolic below 90, 2 times in 1 day: 85 mmHg (Wed 18:00), 88 mmHg (Thu 12:00)',
+      evidence: [
+        { source: 'metric', id: 'low-1', recordedAt: '2025-03-19T22:00:00.000Z', label: 'Blood Pressure Systolic', value: '85 mmHg' },
+        { source: 'metric', id: 'low-2', recordedAt: '2025-03-20T16:00:00.000Z', label: 'Blood Pressure Systolic', value: '88 mmHg' },
+      ],
+    });
+  });
+
+  it('does not fire on a single low reading', () => {
+    const oneLow = metrics.filter(m => m.id !== 'low-1');
+    expect(evaluateRule(makeRule(condition), { ...noData, metrics: oneLow }, NOW)).toBeNull();
+  });
+
+  it('matches the category name regardless of case', () => {
+    const lowerCase = { ...condition, categoryName: 'blood pressure systolic' } as AlertRuleCondition;
+    expect(evaluateRule(makeRule(lowerCase), { ...noData, metrics }, NOW)?.evidence).toHaveLength(2);
+  });
+
+  it('fires again only when a triggering reading is newer than the last alert', () => {
+    const data = { ...noData, metrics };
+    expect(evaluateRule(makeRule(condition, new Date('2025-03-20T17:00:00Z')), data, NOW)).toBeNull();
+    expect(evaluateRule(makeRule(condition, new Date('2025-03-20T12:00:00Z')), data, NOW)).not.toBeNull();
+  });
+
+  it('checks readings against the normal range for outside_normal rules', () => {
+    const outside = templateCondition('Systolic outside the normal range');
+    const data = { ...noData, metrics: [reading('high', 'Blood Pressure Systolic', 150, '2025-03-20T17:00:00Z')] };
+    expect(evaluateRule(makeRule(outside), data, NOW)?.evidence.map(e => e.id)).toEqual(['high']);
+    expect(evaluateRule(makeRule(outside), { ...noData, metrics: [metrics[2]] }, NOW)).toBeNull();
+  });
+});
+
+describe('3 consecutive days of poor balance', () => {
+  const condition = templateCondition('3 days in a row of poor balance');
+
+  it('fires on a run ending today, under either question id, oldest answer first', () => {
+    const checkins = [
+      checkin('c3', 'balance_today', '🔴 Poor', '2025-03-20'),
+      checkin('c1', 'balance', 'Poor', '2025-03-18'),
+      checkin('c2', 'balance_today', 'poor', '2025-03-19'),
+    ];
+    const match = evaluateRule(makeRule(condition), { ...noData, checkins }, NOW);
+    expect(match?.evidence).toEqual([
+      { source: 'checkin', id: 'c1', recordedAt: '2025-03-18T12:00:00.000Z', label: 'balance', value: 'Poor' },
+      { source: 'checkin', id: 'c2', recordedAt: '2025-03-19T12:00:00.000Z', label: 'balance_today', value: 'poor' },
+      { source: 'checkin', id: 'c3', recordedAt: '2025-03-20T12:00:00.000Z', label: 'balance_today', value: '🔴 Poor' },
+    ]);
+  });
+
+  it('does not fire when a day in the run is missing or answered differently', () => {
+    const gap = [checkin('c1', 'balance', 'Poor', '2025-03-17'), checkin('c2', 'balance', 'Poor', '2025-03-19'), checkin('c3', 'balance', 'Poor', '2025-03-20')];
+    expect(evaluateRule(makeRule(condition), { ...noData, checkins: gap }, NOW)).toBeNull();
+
+    const fair = [checkin('c1', 'balance', 'Poor', '2025-03-18'), checkin('c2', 'balance', 'Fair', '2025-03-19'), checkin('c3', 'balance', 'Poor', '2025-03-20')];
+    expect(evaluateRule(makeRule(condition), { ...noData, checkins: fair }, NOW)).toBeNull();
+  });
+
+  it('does not count a run that ended before today', () => {
+    const checkins = [checkin('c1', 'balance', 'Poor', '2025-03-17'), checkin('c2', 'balance', 'Poor', '2025-03-18'), checkin('c3', 'balance', 'Poor', '2025-03-19')];
+    expect(evaluateRule(makeRule(condition), { ...noData, checkins }, NOW)).toBeNull();
+  });
+});
+
+describe('feeling dizzy', () => {
+  const condition = templateCondition('Reported feeling dizzy');
+
+  it('fires on a yes answer today to either dizziness question', () => {
+    const checkins = [checkin('d1', 'dizzy2', '✅ Yes', '2025-03-20'), checkin('d0', 'dizzy', '❌ No', '2025-03-20')];
+    const match = evaluateRule(makeRule(condition), { ...noData, checkins }, NOW);
+    expect(match?.evidence).toEqual([
+      { source: 'checkin', id: 'd1', recordedAt: '2025-03-20T12:00:00.000Z', label: 'dizzy2', value: '✅ Yes' },
+    ]);
+    expect(match?.summary).toBe('Dizziness: "yes" 1 time in 1 day: ✅ Yes (Thu 08:00)');
+  });
+
+  it('ignores answers from earlier days and other questions', () => {
+    const checkins = [checkin('d1', 'dizzy', 'Yes', '2025-03-19'), checkin('w1', 'walk', 'Yes', '2025-03-20')];
+    expect(evaluateRule(makeRule(condition), { ...noData, checkins }, NOW)).toBeNull();
+  });
+});
+
+describe('adherence rules', () => {
+  const doses = [
+    dose('Levodopa', '2025-03-17T12:00:00Z', 'missed'), // Outside a one-day window
+    dose('Levodopa', '2025-03-19T12:00:00Z', 'on_time'),
+    dose('Levodopa', '2025-03-19T20:00:00Z', 'missed'),
+    dose('Ropinirole', '2025-03-20T12:00:00Z', 'missed'),
+    dose('Levodopa', '2025-03-20T13:00:00Z', 'skipped'),
+    dose('Levodopa', '2025-03-20T20:00:00Z', 'upcoming'),
+  ];
+
+  it('fires on 2 missed doses in a day with the missed doses as evidence', () => {
+    const match = evaluateRule(makeRule(templateCondition('2 missed doses in a day')), { ...noData, doses }, NOW);
+    expect(match?.evidence).toEqual([
+      { source: 'dose', id: 'Levodopa-2025-03-19T20:00:00Z', recordedAt: '2025-03-19T20:00:00.000Z', label: 'Levodopa', value: 'missed' },
+      { source: 'dose', id: 'Ropinirole-2025-03-20T12:00:00Z', recordedAt: '2025-03-20T12:00:00.000Z', label: 'Ropinirole', value: 'missed' },
+    ]);
+    expect(match?.summary).toBe('2 missed doses in 1 day: Levodopa Wed 16:00, Ropinirole Thu 08:00');
+  });
+
+  it('fires on low adherence with the untaken doses as evidence', () => {
+    const condition: AlertRuleCondition = { kind: 'adherence', measure: 'adherence_below', threshold: 50, windowDays: 7 };
+    const match = evaluateRule(makeRule(condition), { ...noData, doses }, NOW);
+    // 1 of 5 due doses taken: 20%
+    expect(match?.evidence.map(e => `${e.label} ${e.value}`)).toEqual([
+      'Levodopa missed',
+      'Levodopa missed',
+      'Ropinirole missed',
+      'Levodopa skipped',
+    ]);
+  });
+
+  it('does not fire when adherence is at the threshold or nothing is due', () => {
+    const condition: AlertRuleCondition = { kind: 'adherence', measure: 'adherence_below', threshold: 50, windowDays: 1 };
+    const half = [dose('Levodopa', '2025-03-20T08:00:00Z', 'late'), dose('Levodopa', '2025-03-20T12:00:00Z', 'missed')];
+    expect(evaluateRule(makeRule(condition), { ...noData, doses: half }, NOW)).toBeNull();
+    expect(evaluateRule(makeRule(condition), { ...noData, doses: [doses[5]] }, NOW)).toBeNull();
+  });
+});
+
+describe('evaluateRules', () => {
+  it('returns a match for each rule that fires, in rule order', () => {
+    const rules = [
+      { ...makeRule(templateCondition('Reported feeling dizzy')), id: 'dizzy' },
+      { ...makeRule(templateCondition('2 missed doses in a day')), id: 'missed' },
+      { ...makeRule(templateCondition('3 days in a row of poor balance')), id: 'balance' },
+    ];
+    const data: RuleData = {
+      metrics: [],
+      checkins: [checkin('d1', 'dizzy', 'Yes', '2025-03-20')],
+      doses: [dose('Levodopa', '2025-03-20T08:00:00Z', 'missed'), dose('Levodopa', '2025-03-20T12:00:00Z', 'missed')],
+    };
+    expect(evaluateRules(rules, data, NOW).map(match => match.ruleId)).toEqual(['dizzy', 'missed']);
+  });
+});
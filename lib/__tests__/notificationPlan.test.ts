@@ -0,0 +1,68 @@
+import { NotificationPreferences, PlannedNotification, describeAppointmentReminder, planNotifications } from '../notificationPlan';
+import { Appointment } from '../repositories/AppointmentRepository';
+
+const appointment = (date: string, time: string): Appointment => ({
+  appointment_date: date,
+  appointment_time: time,
+  appointment_type: 'consultation',
+  created_at: null,
+  doctor_name: 'Rivera',
+  doctor_specialty: 'Neurology',
+  id: `appointment-${date}-${time}`,
+  location: 'Clinic',
+  notes: null,
+  notification_id: null,
+  patient_id: 'patient-1',
+  reminder_sent: false,
+  status: 'scheduled',
+  updated_at: null,
+});
+
+const preferences: NotificationPreferences = {
+  medicationRemindersEnabled: false,
+  appointmentRemindersEnabled: true,
+  checkinRemindersEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+  snoozeMinutes: 10,
+  caregiverAlertDelay: 30,
+  maxAttempts: 3,
+};
+
+const planAppointments = (appointments: Appointment[], now: Date) =>
+  planNotifications({
+    doses: [],
+    appointments,
+    answeredDoseKeys: new Set(),
+    checkedInDates: new Set(),
+    preferences,
+    policies: new Map(),
+    now,
+  });
+
+const reminderText = (notification: PlannedNotification): string => {
+  if (notification.kind !== 'appointment_reminder') throw new Error(`Expected an appointment reminder, got ${notification.kind}`);
+  return describeAppointmentReminder(notification.appointment, notification.appointmentTime, notification.fireAt);
+};
+
+describe('appointment reminders', () => {
+  it('says tomorrow when the reminder fires the day before', () => {
+    const [reminder] = planAppointments([appointment('2025-03-21', '14:30:00')], new Date(2025, 2, 20, 8));
+
+    expect(reminder.fireAt).toEqual(new Date(2025, 2, 20, 14, 30));
+    expect(reminderText(reminder)).toBe('You have an appointment with Dr. Rivera tomorrow at 2:30 PM');
+  });
+
+  it('says today when quiet hours hold the reminder until the morning of the appointment', () => {
+    const [reminder] = planAppointments([appointment('2025-03-21', '23:00:00')], new Date(2025, 2, 20, 8));
+
+    expect(reminder.fireAt).toEqual(new Date(2025, 2, 21, 7));
+    expect(reminderText(reminder)).toBe('You have an appointment with Dr. Rivera today at 11:00 PM');
+  });
+
+  it('names the day when the appointment is further off', () => {
+    expect(describeAppointmentReminder({ doctor_name: 'Rivera' }, new Date(2025, 2, 24, 9), new Date(2025, 2, 21, 9))).toBe(
+      'You have an appointment with Dr. Rivera on Monday, March 24 at 9:00 AM'
+    );
+  });
+});
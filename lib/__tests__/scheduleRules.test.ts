@@ -0,0 +1,244 @@
+import {
+  AsNeededRule,
+  FixedTimeRule,
+  IntervalRule,
+  TitrationRule,
+  expandRule,
+  expandRuleForDay,
+  getAsNeededAvailability,
+  getTitrationPhaseIndex,
+  getTitrationPhaseStart,
+  nextOccurrences,
+  validateScheduleRule,
+} from '../scheduleRules';
+import { DAYS_OF_WEEK } from '../repositories/ScheduleRepository';
+
+// Tests run in America/New_York (jest.globalSetup.js): clocks go forward on
+// 9 March 2025 and back on 2 November 2025.
+
+const day = (month: number, date: number, year = 2025) => new Date(year, month - 1, date);
+const at = (month: number, date: number, hours: number, minutes = 0) => new Date(2025, month - 1, date, hours, minutes);
+const clock = (time: Date) => `${String(time.getHours()).padStart(2, '0')}:${String(time.getMinutes()).padStart(2, '0')}`;
+const HOUR_MS = 60 * 60 * 1000;
+
+const daily: FixedTimeRule = { kind: 'fixed', time: '08:00', daysOfWeek: DAYS_OF_WEEK };
+
+const everyHourAtNight: IntervalRule = {
+  kind: 'interval',
+  intervalMinutes: 60,
+  firstDose: '00:00',
+  lastDose: '04:00',
+  daysOfWeek: DAYS_OF_WEEK,
+};
+
+const titration: TitrationRule = {
+  kind: 'titration',
+  startDate: '2025-01-30',
+  phases: [
+    { days: 3, times: ['08:00'], dosage: '1 tablet', doseAmount: 1 },
+    { days: 28, times: ['20:00', '08:00'], dosage: '1 tablet', doseAmount: 1 },
+    { days: null, times: ['08:00', '14:00', '20:00'], dosage: '1 tablet', doseAmount: 1 },
+  ],
+};
+
+const rescue: AsNeededRule = { kind: 'as_needed', maxDosesPerDay: 3, minMinutesBetween: 120 };
+
+describe('expandRuleForDay', () => {
+  it('expands a fixed rule only on its weekdays', () => {
+    const weekdays: FixedTimeRule = { ...daily, daysOfWeek: ['Mon', 'Wed'] };
+    expect(expandRuleForDay(weekdays, day(1, 6))).toHaveLength(1); // Monday
+    expect(expandRuleForDay(weekdays, day(1, 7))).toEqual([]); // Tuesday
+  });
+
+  it('includes the last dose of an interval rule when it falls on the interval', () => {
+    const rule: IntervalRule = { ...everyHourAtNight, intervalMinutes: 180, firstDose: '07:00', lastDose: '22:00' };
+    expect(expandRuleForDay(rule, day(1, 6)).map(o => clock(o.time))).toEqual(['07:00', '10:00', '13:00', '16:00', '19:00', '22:00']);
+  });
+
+  it('keeps fixed doses at the same wall-clock time across both clock changes', () => {
+    const spring = expandRule(daily, day(3, 8), at(3, 10, 23, 59));
+    expect(spring.map(o => clock(o.time))).toEqual(['08:00', '08:00', '08:00']);
+    expect(spring[1].time.getTime() - spring[0].time.getTime()).toBe(23 * HOUR_MS);
+
+    const autumn = expandRule(daily, day(11, 1), at(11, 3, 23, 59));
+    expect(autumn.map(o => clock(o.time))).toEqual(['08:00', '08:00', '08:00']);
+    expect(autumn[1].time.getTime() - autumn[0].time.getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it('does not expect a dose twice when clocks go forward over it', () => {
+    const doses = expandRuleForDay(everyHourAtNight, day(3, 9));
+    expect(doses.map(o => clock(o.time))).toEqual(['00:00', '01:00', '03:00', '04:00']);
+  });
+
+  it('expects each dose once when clocks go back', () => {
+    const doses = expandRuleForDay(everyHourAtNight, day(11, 2));
+    expect(doses.map(o => clock(o.time))).toEqual(['00:00', '01:00', '02:00', '03:00', '04:00']);
+  });
+
+  it('expects nothing for as-needed rules', () => {
+    expect(expandRuleForDay(rescue, day(1, 6))).toEqual([]);
+  });
+});
+
+describe('expandRule', () => {
+  it('runs across month ends', () => {
+    const doses = expandRule(daily, day(1, 30), at(2, 2, 23, 59));
+    expect(doses.map(o => o.time.getDate())).toEqual([30, 31, 1, 2]);
+
+    const february = expandRule(daily, day(2, 27), at(3, 1, 23, 59));
+    expect(february.map(o => `${o.time.getMonth() + 1}/${o.time.getDate()}`)).toEqual(['2/27', '2/28', '3/1']);
+  });
+
+  it('handles the leap day', () => {
+    const doses = expandRule(daily, day(2, 28, 2024), new Date(2024, 2, 1, 23, 59));
+    expect(doses.map(o => o.time.getDate())).toEqual([28, 29, 1]);
+  });
+
+  it('limits occurrences to the window and the active range', () => {
+    expect(expandRule(daily, at(1, 6, 9), at(1, 8, 7))).toEqual([
+      expect.objectContaining({ time: at(1, 7, 8) }),
+    ]);
+    const ranged = expandRule(daily, day(1, 1), at(1, 31, 23, 59), { startDate: '2025-01-10', endDate: '2025-01-12' });
+    expect(ranged.map(o => o.time.getDate())).toEqual([10, 11, 12]);
+  });
+
+  it('returns nothing for a reversed window', () => {
+    expect(expandRule(daily, day(1, 8), day(1, 6))).toEqual([]);
+  });
+});
+
+describe('titration phases', () => {
+  it('switches phase on the boundary day, across the month end', () => {
+    expect(getTitrationPhaseIndex(titration, day(1, 29))).toBeNull();
+    expect(getTitrationPhaseIndex(titration, day(1, 30))).toBe(0);
+    expect(getTitrationPhaseIndex(titration, day(2, 1))).toBe(0);
+    expect(getTitrationPhaseIndex(titration, day(2, 2))).toBe(1);
+    expect(getTitrationPhaseIndex(titration, day(3, 1))).toBe(1);
+    expect(getTitrationPhaseIndex(titration, day(3, 2))).toBe(2);
+    expect(getTitrationPhaseIndex(titration, day(12, 31))).toBe(2);
+  });
+
+  it('starts each phase the day after the previous one ends', () => {
+    expect(getTitrationPhaseStart(titration, 1)).toEqual(day(2, 2));
+    expect(getTitrationPhaseStart(titration, 2)).toEqual(day(3, 2));
+  });
+
+  it('expands the times of the phase in effect, in time order', () => {
+    expect(expandRuleForDay(titration, day(2, 1)).map(o => clock(o.time))).toEqual(['08:00']);
+    const second = expandRuleForDay(titration, day(2, 2));
+    expect(second.map(o => clock(o.time))).toEqual(['08:00', '20:00']);
+    expect(second[0]).toMatchObject({ phaseIndex: 1, dosage: '1 tablet', doseAmount: 1 });
+  });
+
+  it('stops after a finite plan ends', () => {
+    const taper: TitrationRule = { ...titration, phases: titration.phases.slice(0, 2) };
+    expect(getTitrationPhaseIndex(taper, day(3, 1))).toBe(1);
+    expect(getTitrationPhaseIndex(taper, day(3, 2))).toBeNull();
+    expect(expandRuleForDay(taper, day(3, 2))).toEqual([]);
+  });
+});
+
+describe('nextOccurrences', () => {
+  it('returns the next doses after a moment, moving on to later days', () => {
+    const rule: IntervalRule = { ...everyHourAtNight, intervalMinutes: 360, firstDose: '08:00', lastDose: '20:00' };
+    expect(nextOccurrences(rule, at(1, 6, 14), 3).map(o => o.time)).toEqual([at(1, 6, 20), at(1, 7, 8), at(1, 7, 14)]);
+  });
+
+  it('does not return a dose due exactly at the moment', () => {
+    expect(nextOccurrences(daily, at(1, 6, 8), 1).map(o => o.time)).toEqual([at(1, 7, 8)]);
+  });
+
+  it('stops at the end date', () => {
+    expect(nextOccurrences(daily, at(1, 6, 9), 5, { endDate: '2025-01-08' }).map(o => o.time)).toEqual([at(1, 7, 8), at(1, 8, 8)]);
+  });
+
+  it('skips days before the start date', () => {
+    expect(nextOccurrences(daily, at(1, 6, 9), 1, { startDate: '2025-02-01' }).map(o => o.time)).toEqual([at(2, 1, 8)]);
+  });
+
+  it('gives up at the horizon', () => {
+    expect(nextOccurrences(rescue, at(1, 6, 9), 1)).toEqual([]);
+    const weekly: FixedTimeRule = { ...daily, daysOfWeek: ['Sun'] };
+    expect(nextOccurrences(weekly, at(1, 6, 9), 1, {}, 3)).toEqual([]);
+  });
+});
+
+describe('getAsNeededAvailability', () => {
+  it('allows a dose when none has been taken', () => {
+    expect(getAsNeededAvailability(rescue, [], at(1, 6, 9))).toEqual({
+      takenToday: 0,
+      remainingToday: 3,
+      canTakeNow: true,
+      nextAllowedAt: null,
+    });
+  });
+
+  it('waits for the minimum gap after the last dose', () => {
+    const availability = getAsNeededAvailability(rescue, [at(1, 6, 8)], at(1, 6, 9));
+    expect(availability).toMatchObject({ takenToday: 1, remainingToday: 2, canTakeNow: false });
+    expect(availability.nextAllowedAt).toEqual(at(1, 6, 10));
+    expect(getAsNeededAvailability(rescue, [at(1, 6, 8)], at(1, 6, 10)).canTakeNow).toBe(true);
+  });
+
+  it('applies the minimum gap across midnight but resets the daily count', () => {
+    const availability = getAsNeededAvailability(rescue, [at(1, 5, 23, 30)], at(1, 6, 0, 30));
+    expect(availability).toMatchObject({ takenToday: 0, remainingToday: 3, canTakeNow: false });
+    expect(availability.nextAllowedAt).toEqual(at(1, 6, 1, 30));
+  });
+
+  it('blocks further doses until midnight once the daily maximum is used', () => {
+    const availability = getAsNeededAvailability(rescue, [at(1, 6, 6), at(1, 6, 9), at(1, 6, 12)], at(1, 6, 18));
+    expect(availability).toEqual({ takenToday: 3, remainingToday: 0, canTakeNow: false, nextAllowedAt: day(1, 7) });
+  });
+
+  it('ignores doses logged for later times', () => {
+    expect(getAsNeededAvailability(rescue, [at(1, 6, 12)], at(1, 6, 9))).toMatchObject({ takenToday: 0, canTakeNow: true });
+  });
+
+  it('has no gap to wait for without a minimum interval', () => {
+    const rule: AsNeededRule = { ...rescue, minMinutesBetween: null };
+    expect(getAsNeededAvailability(rule, [at(1, 6, 8, 55)], at(1, 6, 9)).canTakeNow).toBe(true);
+  });
+});
+
+describe('validateScheduleRule', () => {
+  it('accepts complete rules', () => {
+    expect(validateScheduleRule(daily)).toBeNull();
+    expect(validateScheduleRule(everyHourAtNight)).toBeNull();
+    expect(validateScheduleRule(rescue)).toBeNull();
+    expect(validateScheduleRule(titration)).toBeNull();
+  });
+
+  it('rejects bad fixed rules', () => {
+    expect(validateScheduleRule({ ...daily, time: '8:00' })).toBe('Enter the time as HH:MM.');
+    expect(validateScheduleRule({ ...daily, time: '24:00' })).toBe('Enter the time as HH:MM.');
+    expect(validateScheduleRule({ ...daily, daysOfWeek: [] })).toBe('Choose at least one day.');
+  });
+
+  it('rejects bad interval rules', () => {
+    expect(validateScheduleRule({ ...everyHourAtNight, lastDose: '4pm' })).toBe('Enter the first and last dose as HH:MM.');
+    expect(validateScheduleRule({ ...everyHourAtNight, intervalMinutes: 20 })).toBe('The interval must be at least 30 minutes.');
+    expect(validateScheduleRule({ ...everyHourAtNight, intervalMinutes: NaN })).toBe('The interval must be at least 30 minutes.');
+    expect(validateScheduleRule({ ...everyHourAtNight, firstDose: '05:00' })).toBe('The last dose must be after the first dose.');
+    expect(validateScheduleRule({ ...everyHourAtNight, daysOfWeek: [] })).toBe('Choose at least one day.');
+  });
+
+  it('rejects bad as-needed rules', () => {
+    expect(validateScheduleRule({ ...rescue, maxDosesPerDay: 0 })).toBe('Set a daily maximum of at least 1 dose.');
+    expect(validateScheduleRule({ ...rescue, maxDosesPerDay: 1.5 })).toBe('Set a daily maximum of at least 1 dose.');
+    expect(validateScheduleRule({ ...rescue, minMinutesBetween: -30 })).toBe('The time between doses cannot be negative.');
+  });
+
+  it('rejects bad titration plans', () => {
+    const [first, second, last] = titration.phases;
+    expect(validateScheduleRule({ ...titration, startDate: '' })).toBe('Choose a start date for the plan.');
+    expect(validateScheduleRule({ ...titration, phases: [] })).toBe('Add at least one phase.');
+    expect(validateScheduleRule({ ...titration, phases: [last, second] })).toBe('Phase 1: only the last phase can continue indefinitely.');
+    expect(validateScheduleRule({ ...titration, phases: [{ ...first, days: 0 }, last] })).toBe('Phase 1: enter the number of days.');
+    expect(validateScheduleRule({ ...titration, phases: [first, { ...second, times: [] }] })).toBe('Phase 2: enter dose times as HH:MM.');
+    expect(validateScheduleRule({ ...titration, phases: [first, { ...second, times: ['08:00', '9'] }] })).toBe(
+      'Phase 2: enter dose times as HH:MM.'
+    );
+    expect(validateScheduleRule({ ...titration, phases: [first, { ...last, dosage: ' ' }] })).toBe('Phase 2: enter the dose.');
+  });
+});
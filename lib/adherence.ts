@@ -0,0 +1,153 @@
+import { eachDayOfInterval, format, startOfWeek } from 'date-fns';
+import { ScheduleWithMedication, ScheduledDose, expandScheduledDoses } from './repositories/ScheduleRepository';
+import { DoseLog, findLogForDose } from './repositories/DoseLogRepository';
+
+// Adherence engine: expands schedules into expected doses, matches each dose to its
+// log by intended_dose_time and classifies it. Pure functions only, so every screen
+// (and the tests) get the same answer from the same rows.
+
+export type DoseAdherenceStatus = 'on_time' | 'late' | 'skipped' | 'missed' | 'upcoming';
+
+// A dose taken up to this many minutes after its intended time still counts as on time.
+// Untaken doses become 'missed' once the same window has passed.
+export const DEFAULT_LATE_WINDOW_MINUTES = 60;
+
+export interface AdherenceOptions {
+  lateWindowMinutes?: number;
+  now?: Date;
+}
+
+export interface DoseAdherence extends ScheduledDose {
+  status: DoseAdherenceStatus;
+  log?: DoseLog;
+  minutesLate?: number; // Only set for taken doses
+}
+
+export interface AdherenceStats {
+  total: number; // Every expected dose, including ones not due yet
+  due: number; // Doses that are past their window or already logged
+  taken: number; // on time + late
+  onTime: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  upcoming: number;
+  percentage: number; // taken / due
+  onTimePercentage: number; // onTime / due
+}
+
+export interface DailyAdherence {
+  date: string; // yyyy-MM-dd
+  stats: AdherenceStats;
+}
+
+export interface WeeklyAdherence {
+  weekStart: string; // yyyy-MM-dd of the Monday
+  stats: AdherenceStats;
+}
+
+export interface MedicationAdherence {
+  medicationId: string;
+  medicationName: string;
+  stats: AdherenceStats;
+}
+
+const MINUTE = 60 * 1000;
+
+export const expandDoses = (schedules: ScheduleWithMedication[], from: Date, to: Date): ScheduledDose[] => {
+  if (from > to) return [];
+  return eachDayOfInterval({ start: from, end: to }).flatMap(day => expandScheduledDoses(schedules, day));
+};
+
+export const classifyDose = (
+  dose: ScheduledDose,
+  log: DoseLog | undefined,
+  options: AdherenceOptions = {}
+): DoseAdherence => {
+  const lateWindow = (options.lateWindowMinutes ?? DEFAULT_LATE_WINDOW_MINUTES) * MINUTE;
+  const now = options.now ?? new Date();
+  const intended = dose.intendedDoseTime.getTime();
+
+  if (log?.status === 'skipped') {
+    return { ...dose, status: 'skipped', log };
+  }
+
+  if (log?.status === 'taken') {
+    const takenAt = log.taken_at ? new Date(log.taken_at).getTime() : intended;
+    const minutesLate = Math.max(0, Math.round((takenAt - intended) / MINUTE));
+    return {
+      ...dose,
+      status: takenAt - intended > lateWindow ? 'late' : 'on_time',
+      log,
+      minutesLate,
+    };
+  }
+
+  return { ...dose, status: now.getTime() - intended > lateWindow ? 'missed' : 'upcoming' };
+};
+
+export const classifyDoses = (
+  doses: ScheduledDose[],
+  logs: DoseLog[],
+  options: AdherenceOptions = {}
+): DoseAdherence[] => doses.map(dose => classifyDose(dose, findLogForDose(dose, logs), options));
+
+export const summarizeDoses = (doses: DoseAdherence[]): AdherenceStats => {
+  const count = (status: DoseAdherenceStatus) => doses.filter(d => d.status === status).length;
+
+  const onTime = count('on_time');
+  const late = count('late');
+  const skipped = count('skipped');
+  const missed = count('missed');
+  const upcoming = count('upcoming');
+  const due = doses.length - upcoming;
+  const taken = onTime + late;
+
+  return {
+    total: doses.length,
+    due,
+    taken,
+    onTime,
+    late,
+    skipped,
+    missed,
+    upcoming,
+    percentage: due > 0 ? Math.round((taken / due) * 100) : 0,
+    onTimePercentage: due > 0 ? Math.round((onTime / due) * 100) : 0,
+  };
+};
+
+const groupBy = <T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return groups;
+};
+
+// One entry per day in [from, to], including days without any scheduled dose
+export const adherenceByDay = (doses: DoseAdherence[], from: Date, to: Date): DailyAdherence[] => {
+  const byDay = groupBy(doses, d => format(d.intendedDoseTime, 'yyyy-MM-dd'));
+  if (from > to) return [];
+  return eachDayOfInterval({ start: from, end: to }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    return { date, stats: summarizeDoses(byDay.get(date) ?? []) };
+  });
+};
+
+export const adherenceByWeek = (doses: DoseAdherence[]): WeeklyAdherence[] => {
+  const byWeek = groupBy(doses, d => format(startOfWeek(d.intendedDoseTime, { weekStartsOn: 1 }), 'yyyy-MM-dd'));
+  return [...byWeek.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, weekDoses]) => ({ weekStart, stats: summarizeDoses(weekDoses) }));
+};
+
+export const adherenceByMedication = (doses: DoseAdherence[]): MedicationAdherence[] =>
+  [...groupBy(doses, d => d.medicationId).values()]
+    .map(medicationDoses => ({
+      medicationId: medicationDoses[0].medicationId,
+      medicationName: medicationDoses[0].medicationName,
+      stats: summarizeDoses(medicationDoses),
+    }))
+    .sort((a, b) => a.medicationName.localeCompare(b.medicationName));
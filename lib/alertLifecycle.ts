@@ -0,0 +1,111 @@
+import { differenceInMinutes } from 'date-fns';
+import { CaregiverAlert, CaregiverAlertEvent, CaregiverAlertStatus } from './repositories/CaregiverAlertRepository';
+
+// Caregiver alerts as incidents. Each recipient has their own caregiver_alerts row;
+// rows raised for the same event share an incident_id and the same lifecycle
+// (open -> acknowledged -> resolved), kept in step by respond_to_caregiver_alert().
+
+export interface AlertIncident {
+  incidentId: string;
+  patientId: string;
+  alertType: string;
+  message: string;
+  details: CaregiverAlert['details']; // The data behind the alert, e.g. a health rule's evidence
+  createdAt: Date; // When the first caregiver was alerted
+  status: CaregiverAlertStatus;
+  respondedAt: Date | null;
+  resolvedAt: Date | null;
+  resolutionNote: string | null;
+  recipientCount: number; // Only the caller's own row is visible to a caregiver
+  ownAlertId: string | null; // The viewer's row, when they were one of the recipients
+  events: CaregiverAlertEvent[];
+}
+
+export interface AlertResponseStats {
+  total: number;
+  open: number;
+  medianResponseMinutes: number | null; // Alert to first acknowledgement (or resolution)
+  medianResolutionMinutes: number | null;
+}
+
+export const ALERT_STATUS_LABELS: Record<CaregiverAlertStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved',
+};
+
+export const ALERT_TYPE_LABELS: Record<string, string> = {
+  medication_missed: 'Missed dose',
+  medication_missed_local: 'Missed dose',
+  medication_interaction: 'Medication interaction',
+  medication_low_stock: 'Low stock',
+  emergency: 'Emergency',
+  health_rule: 'Health rule',
+};
+
+const toDate = (value: string | null): Date | null => (value ? new Date(value) : null);
+
+// Newest first
+export const buildAlertIncidents = (
+  alerts: CaregiverAlert[],
+  events: CaregiverAlertEvent[],
+  viewerId?: string
+): AlertIncident[] => {
+  const incidents = new Map<string, AlertIncident>();
+
+  for (const alert of alerts) {
+    const createdAt = new Date(alert.created_at ?? Date.now());
+    const existing = incidents.get(alert.incident_id);
+    if (existing) {
+      existing.recipientCount += 1;
+      if (createdAt < existing.createdAt) existing.createdAt = createdAt;
+      if (alert.caregiver_id === viewerId) existing.ownAlertId = alert.id;
+      continue;
+    }
+
+    incidents.set(alert.incident_id, {
+      incidentId: alert.incident_id,
+      patientId: alert.patient_id,
+      alertType: alert.alert_type,
+      message: alert.alert_message,
+      details: alert.details,
+      createdAt,
+      status: alert.status as CaregiverAlertStatus,
+      respondedAt: toDate(alert.responded_at),
+      resolvedAt: toDate(alert.resolved_at),
+      resolutionNote: alert.resolution_note,
+      recipientCount: 1,
+      ownAlertId: alert.caregiver_id === viewerId ? alert.id : null,
+      events: [],
+    });
+  }
+
+  for (const event of events) {
+    incidents.get(event.incident_id)?.events.push(event);
+  }
+
+  return [...incidents.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+export const getResponseMinutes = (incident: AlertIncident): number | null =>
+  incident.respondedAt ? Math.max(0, differenceInMinutes(incident.respondedAt, incident.createdAt)) : null;
+
+export const getResolutionMinutes = (incident: AlertIncident): number | null =>
+  incident.resolvedAt ? Math.max(0, differenceInMinutes(incident.resolvedAt, incident.createdAt)) : null;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+};
+
+export const summarizeAlertResponses = (incidents: AlertIncident[]): AlertResponseStats => ({
+  total: incidents.length,
+  open: incidents.filter(incident => incident.status === 'open').length,
+  medianResponseMinutes: median(incidents.map(getResponseMinutes).filter((m): m is number => m !== null)),
+  medianResolutionMinutes: median(incidents.map(getResolutionMinutes).filter((m): m is number => m !== null)),
+});
+
+export const formatMinutes = (minutes: number): string =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
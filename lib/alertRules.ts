@@ -0,0 +1,404 @@
+import { format, subDays, subHours } from 'date-fns';
+import { DoseAdherence } from './adherence';
+import { HealthCheckin } from './repositories/CheckinRepository';
+import { HealthMetricWithCategory } from './repositories/MetricRepository';
+
+// Caregiver-defined alert rules over a patient's health data. A rule's condition is
+// one of three kinds:
+//   metric    - readings of a category below/above a threshold or outside the
+//               category's normal range (the patient's target range, where set), at
+//               least `count` times in `windowHours`
+//   checkin   - check-in answers (one of `responses` to one of `questionIds`), at least
+//               `count` of them in the last `windowDays` days, or on `count`
+//               consecutive days up to today
+//   adherence - at least `threshold` missed doses, or adherence below `threshold`
+//               percent, over the last `windowDays` days
+//
+// Evaluation is a pure function of the rule, the data and "now", so the same rows
+// always give the same answer. A rule that has fired before only matches again when
+// part of the triggering data was recorded after it last fired.
+
+export type MetricComparator = 'below' | 'above' | 'outside_normal';
+
+export type CheckinMode = 'within_days' | 'consecutive_days';
+
+export type AdherenceMeasure = 'missed_doses' | 'adherence_below';
+
+export interface MetricCondition {
+  kind: 'metric';
+  categoryName: string;
+  comparator: MetricComparator;
+  threshold: number | null; // Unused for outside_normal
+  count: number;
+  windowHours: number;
+}
+
+export interface CheckinCondition {
+  kind: 'checkin';
+  questionIds: string[];
+  responses: string[]; // Normalized, see normalizeCheckinResponse
+  mode: CheckinMode;
+  count: number;
+  windowDays: number; // Unused for consecutive_days
+}
+
+export interface AdherenceCondition {
+  kind: 'adherence';
+  measure: AdherenceMeasure;
+  threshold: number;
+  windowDays: number;
+}
+
+export type AlertRuleCondition = MetricCondition | CheckinCondition | AdherenceCondition;
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertRuleCondition;
+  lastTriggeredAt: Date | null;
+}
+
+export interface RuleEvidence {
+  source: 'metric' | 'checkin' | 'dose';
+  id: string;
+  recordedAt: string; // ISO timestamp
+  label: string; // "Blood Pressure Systolic", "balance_today", medication name
+  value: string; // "85 mmHg", "Poor", "missed"
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  ruleName: string;
+  summary: string;
+  evidence: RuleEvidence[];
+}
+
+export interface RuleData {
+  metrics: HealthMetricWithCategory[];
+  checkins: HealthCheckin[];
+  doses: DoseAdherence[];
+}
+
+// What a 'health_rule' caregiver alert carries in caregiver_alerts.details
+export interface RuleAlertDetails {
+  ruleId: string;
+  ruleName: string;
+  condition: AlertRuleCondition;
+  evidence: RuleEvidence[];
+}
+
+export const HEALTH_RULE_ALERT_TYPE = 'health_rule';
+
+export const METRIC_COMPARATOR_LABELS: Record<MetricComparator, string> = {
+  below: 'Below',
+  above: 'Above',
+  outside_normal: 'Outside normal range',
+};
+
+export const ADHERENCE_MEASURE_LABELS: Record<AdherenceMeasure, string> = {
+  missed_doses: 'Missed doses',
+  adherence_below: 'Adherence below',
+};
+
+// Check-in questions a rule can watch. The chatbot and the check-in card ask some of
+// them under different ids, so each entry lists every id it is stored under.
+export const RULE_CHECKIN_QUESTIONS: { key: string; label: string; questionIds: string[]; responses: string[] }[] = [
+  { key: 'dizzy', label: 'Dizziness', questionIds: ['dizzy', 'dizzy2'], responses: ['yes', 'no'] },
+  { key: 'balance', label: 'Balance', questionIds: ['balance', 'balance_today'], responses: ['poor', 'fair', 'good'] },
+  { key: 'tremor', label: 'Tremor', questionIds: ['tremor', 'tremor_level'], responses: ['severe', 'moderate', 'mild'] },
+  { key: 'stiffness', label: 'Stiffness', questionIds: ['stiffness', 'muscle_stiffness'], responses: ['severe', 'moderate', 'mild', 'none'] },
+  { key: 'feeling', label: 'Feeling', questionIds: ['feeling_today'], responses: ['not great', 'okay', 'good'] },
+  { key: 'walk', label: 'Trouble walking', questionIds: ['walk'], responses: ['yes', 'no'] },
+  { key: 'swallow', label: 'Trouble speaking or swallowing', questionIds: ['swallow'], responses: ['yes', 'no'] },
+];
+
+export const RULE_TEMPLATES: { label: string; name: string; condition: AlertRuleCondition }[] = [
+  {
+    label: 'Low blood pressure',
+    name: 'Systolic below 90 twice in a day',
+    condition: { kind: 'metric', categoryName: 'Blood Pressure Systolic', comparator: 'below', threshold: 90, count: 2, windowHours: 24 },
+  },
+  {
+    label: 'Reading out of range',
+    name: 'Systolic outside the normal range',
+    condition: { kind: 'metric', categoryName: 'Blood Pressure Systolic', comparator: 'outside_normal', threshold: null, count: 1, windowHours: 24 },
+  },
+  {
+    label: 'Dizziness',
+    name: 'Reported feeling dizzy',
+    condition: { kind: 'checkin', questionIds: ['dizzy', 'dizzy2'], responses: ['yes'], mode: 'within_days', count: 1, windowDays: 1 },
+  },
+  {
+    label: 'Poor balance',
+    name: '3 days in a row of poor balance',
+    condition: { kind: 'checkin', questionIds: ['balance', 'balance_today'], responses: ['poor'], mode: 'consecutive_days', count: 3, windowDays: 3 },
+  },
+  {
+    label: 'Severe tremor',
+    name: 'Severe tremor 3 times in a week',
+    condition: { kind: 'checkin', questionIds: ['tremor', 'tremor_level'], responses: ['severe'], mode: 'within_days', count: 3, windowDays: 7 },
+  },
+  {
+    label: 'Missed doses',
+    name: '2 missed doses in a day',
+    condition: { kind: 'adherence', measure: 'missed_doses', threshold: 2, windowDays: 1 },
+  },
+];
+
+const MIN_WINDOW = 1;
+const MAX_WINDOW_DAYS = 30;
+
+// "🔴 Severe" -> "severe", "✅ Yes" -> "yes", "😟 Not great" -> "not great"
+export const normalizeCheckinResponse = (response: string): string =>
+  response
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= MIN_WINDOW;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+
+// A stored condition; anything malformed reads as "no condition" and never matches
+export const parseRuleCondition = (value: unknown): AlertRuleCondition | null => {
+  if (!value || typeof value !== 'object') return null;
+  const condition = value as Record<string, unknown>;
+
+  switch (condition.kind) {
+    case 'metric': {
+      const { categoryName, comparator, threshold, count, windowHours } = condition;
+      const needsThreshold = comparator !== 'outside_normal';
+      if (
+        typeof categoryName !== 'string' ||
+        !(comparator === 'below' || comparator === 'above' || comparator === 'outside_normal') ||
+        (needsThreshold && (typeof threshold !== 'number' || !Number.isFinite(threshold))) ||
+        !isCount(count) ||
+        !isCount(windowHours) ||
+        windowHours > MAX_WINDOW_DAYS * 24
+      ) {
+        return null;
+      }
+      return { kind: 'metric', categoryName, comparator, threshold: needsThreshold ? (threshold as number) : null, count, windowHours };
+    }
+    case 'checkin': {
+      const { questionIds, responses, mode, count, windowDays } = condition;
+      if (
+        !isStringList(questionIds) ||
+        !isStringList(responses) ||
+        !(mode === 'within_days' || mode === 'consecutive_days') ||
+        !isCount(count) ||
+        !isCount(windowDays) ||
+        windowDays > MAX_WINDOW_DAYS ||
+        (mode === 'consecutive_days' && count > MAX_WINDOW_DAYS)
+      ) {
+        return null;
+      }
+      return { kind: 'checkin', questionIds, responses: responses.map(normalizeCheckinResponse), mode, count, windowDays };
+    }
+    case 'adherence': {
+      const { measure, threshold, windowDays } = condition;
+      if (
+        !(measure === 'missed_doses' || measure === 'adherence_below') ||
+        typeof threshold !== 'number' ||
+        !Number.isFinite(threshold) ||
+        threshold <= 0 ||
+        !isCount(windowDays) ||
+        windowDays > MAX_WINDOW_DAYS
+      ) {
+        return null;
+      }
+      return { kind: 'adherence', measure, threshold, windowDays };
+    }
+    default:
+      return null;
+  }
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeWindowHours = (hours: number) =>
+  hours % 24 === 0 ? plural(hours / 24, 'day') : plural(hours, 'hour');
+
+const findCheckinQuestion = (questionIds: string[]) =>
+  RULE_CHECKIN_QUESTIONS.find(question => question.questionIds.some(id => questionIds.includes(id)));
+
+// `unit`, when given, follows a reading rule's threshold
+export const describeRuleCondition = (condition: AlertRuleCondition, unit?: string | null): string => {
+  switch (condition.kind) {
+    case 'metric': {
+      const test =
+        condition.comparator === 'outside_normal'
+          ? 'outside the normal range'
+          : `${condition.comparator} ${condition.threshold}${unit ? ` ${unit}` : ''}`;
+      return `${condition.categoryName} ${test}, ${plural(condition.count, 'time')} in ${describeWindowHours(condition.windowHours)}`;
+    }
+    case 'checkin': {
+      const question = findCheckinQuestion(condition.questionIds)?.label ?? condition.questionIds.join(', ');
+      const answers = condition.responses.map(response => `"${response}"`).join(' or ');
+      return condition.mode === 'consecutive_days'
+        ? `${question}: ${answers} on ${condition.count} days in a row`
+        : `${question}: ${answers} ${plural(condition.count, 'time')} in ${plural(condition.windowDays, 'day')}`;
+    }
+    case 'adherence':
+      return condition.measure === 'missed_doses'
+        ? `${plural(condition.threshold, 'missed dose')} in ${plural(condition.windowDays, 'day')}`
+        : `Adherence below ${condition.threshold}% over ${plural(condition.windowDays, 'day')}`;
+  }
+};
+
+// How far back a set of rules looks, in whole days, so callers load just enough data
+export const getRuleLookbackDays = (conditions: AlertRuleCondition[]): number =>
+  Math.max(
+    1,
+    ...conditions.map(condition => {
+      switch (condition.kind) {
+        case 'metric':
+          return Math.ceil(condition.windowHours / 24);
+        case 'checkin':
+          return condition.mode === 'consecutive_days' ? condition.count : condition.windowDays;
+        case 'adherence':
+          return condition.windowDays;
+      }
+    })
+  );
+
+const isOutOfRange = (reading: HealthMetricWithCategory, condition: MetricCondition): boolean => {
+  const { normal_range_min: min, normal_range_max: max } = reading.health_metric_categories;
+  switch (condition.comparator) {
+    case 'below':
+      return reading.value < condition.threshold!;
+    case 'above':
+      return reading.value > condition.threshold!;
+    case 'outside_normal':
+      return (min !== null && reading.value < min) || (max !== null && reading.value > max);
+  }
+};
+
+const evaluateMetric = (condition: MetricCondition, metrics: HealthMetricWithCategory[], now: Date): RuleEvidence[] | null => {
+  const windowStart = subHours(now, condition.windowHours);
+  const category = condition.categoryName.toLowerCase();
+
+  const matching = metrics.filter(reading => {
+    const recordedAt = new Date(reading.recorded_at);
+    return (
+      reading.health_metric_categories.name.toLowerCase() === category &&
+      recordedAt > windowStart &&
+      recordedAt <= now &&
+      isOutOfRange(reading, condition)
+    );
+  });
+  if (matching.length < condition.count) return null;
+
+  return matching.map(reading => ({
+    source: 'metric',
+    id: reading.id,
+    recordedAt: new Date(reading.recorded_at).toISOString(),
+    label: reading.health_metric_categories.name,
+    value: [reading.value, reading.health_metric_categories.unit].filter(part => part !== null && part !== '').join(' '),
+  }));
+};
+
+// checkin_date is the UTC day the app stores with each answer
+const toCheckinDate = (date: Date) => date.toISOString().split('T')[0];
+
+const evaluateCheckin = (condition: CheckinCondition, checkins: HealthCheckin[], now: Date): RuleEvidence[] | null => {
+  const today = toCheckinDate(now);
+  const matching = checkins.filter(
+    checkin =>
+      condition.questionIds.includes(checkin.question_id) &&
+      condition.responses.includes(normalizeCheckinResponse(checkin.response)) &&
+      checkin.checkin_date <= today
+  );
+
+  const toEvidence = (checkin: HealthCheckin): RuleEvidence => ({
+    source: 'checkin',
+    id: checkin.id,
+    recordedAt: new Date(checkin.created_at ?? `${checkin.checkin_date}T00:00:00Z`).toISOString(),
+    label: checkin.question_id,
+    value: checkin.response,
+  });
+
+  if (condition.mode === 'consecutive_days') {
+    const days = Array.from({ length: condition.count }, (_, index) =>
+      toCheckinDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - index)))
+    );
+    const run = days.map(day => matching.find(checkin => checkin.checkin_date === day));
+    return run.every(Boolean) ? (run as HealthCheckin[]).reverse().map(toEvidence) : null;
+  }
+
+  const firstDay = toCheckinDate(subDays(now, condition.windowDays - 1));
+  const inWindow = matching.filter(checkin => checkin.checkin_date >= firstDay);
+  return inWindow.length >= condition.count ? inWindow.map(toEvidence) : null;
+};
+
+const evaluateAdherence = (condition: AdherenceCondition, doses: DoseAdherence[], now: Date): RuleEvidence[] | null => {
+  const windowStart = subDays(now, condition.windowDays);
+  const due = doses.filter(
+    dose => dose.status !== 'upcoming' && dose.intendedDoseTime > windowStart && dose.intendedDoseTime <= now
+  );
+  const missed = due.filter(dose => dose.status === 'missed');
+
+  const toEvidence = (dose: DoseAdherence): RuleEvidence => ({
+    source: 'dose',
+    id: dose.doseKey,
+    recordedAt: dose.intendedDoseTime.toISOString(),
+    label: dose.medicationName,
+    value: dose.status,
+  });
+
+  if (condition.measure === 'missed_doses') {
+    return missed.length >= condition.threshold ? missed.map(toEvidence) : null;
+  }
+
+  // The doses that were not taken are the evidence for low adherence
+  if (due.length === 0) return null;
+  const notTaken = due.filter(dose => dose.status === 'missed' || dose.status === 'skipped');
+  return (1 - notTaken.length / due.length) * 100 < condition.threshold ? notTaken.map(toEvidence) : null;
+};
+
+const describeEvidence = (evidence: RuleEvidence[]): string => {
+  const shown = evidence.slice(-3).map(item =>
+    item.source === 'dose'
+      ? `${item.label} ${format(new Date(item.recordedAt), 'EEE HH:mm')}`
+      : `${item.value} (${format(new Date(item.recordedAt), 'EEE HH:mm')})`
+  );
+  return evidence.length > shown.length ? `${shown.join(', ')} and ${evidence.length - shown.length} more` : shown.join(', ');
+};
+
+export const evaluateRule = (rule: AlertRule, data: RuleData, now: Date): RuleMatch | null => {
+  const { condition } = rule;
+  const evidence =
+    condition.kind === 'metric'
+      ? evaluateMetric(condition, data.metrics, now)
+      : condition.kind === 'checkin'
+        ? evaluateCheckin(condition, data.checkins, now)
+        : evaluateAdherence(condition, data.doses, now);
+
+  if (!evidence || evidence.length === 0) return null;
+  if (rule.lastTriggeredAt && !evidence.some(item => new Date(item.recordedAt) > rule.lastTriggeredAt!)) return null;
+
+  const sorted = [...evidence].sort((a, b) => a.recordedAt.localeCompare(b.recordedAt) || a.id.localeCompare(b.id));
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    summary: `${describeRuleCondition(condition)}: ${describeEvidence(sorted)}`,
+    evidence: sorted,
+  };
+};
+
+export const evaluateRules = (rules: AlertRule[], data: RuleData, now: Date): RuleMatch[] =>
+  rules.flatMap(rule => {
+    const match = evaluateRule(rule, data, now);
+    return match ? [match] : [];
+  });
+
+export const readRuleAlertDetails = (details: unknown): RuleAlertDetails | null => {
+  if (!details || typeof details !== 'object') return null;
+  const { ruleId, ruleName, condition, evidence } = details as Record<string, unknown>;
+  const parsed = parseRuleCondition(condition);
+  if (typeof ruleId !== 'string' || typeof ruleName !== 'string' || !parsed || !Array.isArray(evidence)) return null;
+  return { ruleId, ruleName, condition: parsed, evidence: evidence as RuleEvidence[] };
+};
@@ -0,0 +1,90 @@
+import { addDays, format, isBefore, parse } from 'date-fns';
+
+// The caregiver on-call rota, as shown on the rota screen. Who actually receives an
+// alert is decided server-side by get_on_call_caregiver_ids(); this module formats
+// shifts and works out their upcoming occurrences in the device's own time, which
+// is the timezone shifts are created in.
+//
+// A shift repeats on the listed days (0 = Sunday). One whose end is not after its
+// start runs past midnight into the next day; equal times make a 24-hour shift.
+
+export interface RotaShift {
+  id: string;
+  caregiverId: string;
+  daysOfWeek: number[];
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+export interface ShiftOccurrence {
+  shiftId: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export const DAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+
+// The database stores TIME values as HH:mm:ss
+export const toRotaTime = (time: string): string => time.slice(0, 5);
+
+const sameDays = (days: number[], expected: number[]) =>
+  days.length === expected.length && expected.every(day => days.includes(day));
+
+export const isOvernightShift = (shift: Pick<RotaShift, 'startTime' | 'endTime'>): boolean =>
+  toRotaTime(shift.endTime) <= toRotaTime(shift.startTime);
+
+export const formatShiftDays = (daysOfWeek: number[]): string => {
+  if (daysOfWeek.length === 7) return 'Every day';
+  if (sameDays(daysOfWeek, WEEKDAYS)) return 'Weekdays';
+  if (sameDays(daysOfWeek, WEEKEND)) return 'Weekends';
+  // Monday first, the way families plan their week
+  return [...daysOfWeek]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map(day => DAY_SHORT_LABELS[day])
+    .join(', ');
+};
+
+export const formatShiftTimes = (shift: Pick<RotaShift, 'startTime' | 'endTime'>): string => {
+  const start = toRotaTime(shift.startTime);
+  const end = toRotaTime(shift.endTime);
+  if (start === end) return `24 hours from ${start}`;
+  return `${start}–${end}${isOvernightShift(shift) ? ' (overnight)' : ''}`;
+};
+
+const atTime = (day: Date, time: string): Date => parse(toRotaTime(time), 'HH:mm', day);
+
+// The occurrence of a shift that starts on the given day, if it runs that day
+const occurrenceOn = (shift: RotaShift, day: Date): ShiftOccurrence | null => {
+  if (!shift.daysOfWeek.includes(day.getDay())) return null;
+  const startsAt = atTime(day, shift.startTime);
+  const endsAt = isOvernightShift(shift) ? atTime(addDays(day, 1), shift.endTime) : atTime(day, shift.endTime);
+  return { shiftId: shift.id, startsAt, endsAt };
+};
+
+// Occurrences still running or yet to start, earliest first. The search starts a day
+// back so an overnight shift that began yesterday is included.
+export const getUpcomingOccurrences = (shift: RotaShift, from: Date, count: number): ShiftOccurrence[] => {
+  const occurrences: ShiftOccurrence[] = [];
+  const firstDay = addDays(new Date(from.getFullYear(), from.getMonth(), from.getDate()), -1);
+
+  for (let offset = 0; offset <= 14 && occurrences.length < count; offset++) {
+    const occurrence = occurrenceOn(shift, addDays(firstDay, offset));
+    if (occurrence && isBefore(from, occurrence.endsAt)) occurrences.push(occurrence);
+  }
+  return occurrences;
+};
+
+export const isShiftActiveAt = (shift: RotaShift, at: Date): boolean => {
+  const occurrence = getUpcomingOccurrences(shift, at, 1)[0];
+  return !!occurrence && occurrence.startsAt <= at;
+};
+
+export const formatOccurrence = (occurrence: ShiftOccurrence): string =>
+  `${format(occurrence.startsAt, 'EEE MMM d, HH:mm')}–${format(occurrence.endsAt, 'HH:mm')}`;
+
+// Days of the week no shift starts on, for a hint that alerts then go to everyone
+export const getUncoveredDays = (shifts: RotaShift[]): number[] =>
+  [0, 1, 2, 3, 4, 5, 6].filter(day => !shifts.some(shift => shift.daysOfWeek.includes(day)));
@@ -0,0 +1,95 @@
+// Bundled catalog of common Parkinson's medications and formulations. One entry
+// per formulation so immediate- and extended-release products stay distinct.
+// The migration 20250727090000_structured_medication_doses.sql maps existing
+// free-text rows onto these ids; keep the two in sync when adding entries.
+
+export type DoseForm =
+  | 'tablet'
+  | 'capsule'
+  | 'orally_disintegrating_tablet'
+  | 'sublingual_film'
+  | 'patch'
+  | 'injection'
+  | 'inhalation'
+  | 'enteral_suspension'
+  | 'subcutaneous_infusion';
+
+export type DoseUnit = 'mg' | 'mcg' | 'mg/24h' | 'mL';
+
+export type ReleaseType = 'immediate' | 'extended' | 'controlled';
+
+export interface CatalogStrength {
+  label: string; // As printed on the pack, e.g. "25/100"
+  amount: number; // Active amount used as the structured dose (levodopa for combinations)
+}
+
+export interface CatalogEntry {
+  id: string;
+  genericName: string;
+  brandNames: string[];
+  drugClass: string;
+  form: DoseForm;
+  release: ReleaseType;
+  unit: DoseUnit;
+  strengths: CatalogStrength[];
+}
+
+const mg = (...amounts: number[]): CatalogStrength[] => amounts.map(amount => ({ label: `${amount}`, amount }));
+
+// Carbidopa/levodopa style strengths: "<carbidopa>/<levodopa>", dosed by levodopa
+const combo = (...pairs: [number, number][]): CatalogStrength[] =>
+  pairs.map(([first, levodopa]) => ({ label: `${first}/${levodopa}`, amount: levodopa }));
+
+export const MEDICATION_CATALOG: CatalogEntry[] = [
+  // Levodopa
+  { id: 'carbidopa_levodopa_ir', genericName: 'Carbidopa/levodopa', brandNames: ['Sinemet'], drugClass: 'Levodopa', form: 'tablet', release: 'immediate', unit: 'mg', strengths: combo([10, 100], [25, 100], [25, 250]) },
+  { id: 'carbidopa_levodopa_cr', genericName: 'Carbidopa/levodopa', brandNames: ['Sinemet CR'], drugClass: 'Levodopa', form: 'tablet', release: 'controlled', unit: 'mg', strengths: combo([25, 100], [50, 200]) },
+  { id: 'carbidopa_levodopa_er_capsule', genericName: 'Carbidopa/levodopa', brandNames: ['Rytary', 'Numient'], drugClass: 'Levodopa', form: 'capsule', release: 'extended', unit: 'mg', strengths: combo([23.75, 95], [36.25, 145], [48.75, 195], [61.25, 245]) },
+  { id: 'carbidopa_levodopa_odt', genericName: 'Carbidopa/levodopa', brandNames: ['Parcopa'], drugClass: 'Levodopa', form: 'orally_disintegrating_tablet', release: 'immediate', unit: 'mg', strengths: combo([10, 100], [25, 100], [25, 250]) },
+  { id: 'carbidopa_levodopa_enteral', genericName: 'Carbidopa/levodopa', brandNames: ['Duopa', 'Duodopa'], drugClass: 'Levodopa', form: 'enteral_suspension', release: 'extended', unit: 'mL', strengths: [{ label: '4.63/20 per mL', amount: 1 }] },
+  { id: 'foscarbidopa_foslevodopa', genericName: 'Foscarbidopa/foslevodopa', brandNames: ['Vyalev', 'Produodopa'], drugClass: 'Levodopa', form: 'subcutaneous_infusion', release: 'extended', unit: 'mL', strengths: [{ label: '12/240 per mL', amount: 1 }] },
+  { id: 'levodopa_inhaled', genericName: 'Levodopa', brandNames: ['Inbrija'], drugClass: 'Levodopa', form: 'inhalation', release: 'immediate', unit: 'mg', strengths: mg(42) },
+  { id: 'benserazide_levodopa', genericName: 'Benserazide/levodopa', brandNames: ['Madopar', 'Prolopa'], drugClass: 'Levodopa', form: 'capsule', release: 'immediate', unit: 'mg', strengths: combo([12.5, 50], [25, 100], [50, 200]) },
+  { id: 'benserazide_levodopa_cr', genericName: 'Benserazide/levodopa', brandNames: ['Madopar CR', 'Madopar HBS'], drugClass: 'Levodopa', form: 'capsule', release: 'controlled', unit: 'mg', strengths: combo([25, 100]) },
+  { id: 'carbidopa_levodopa_entacapone', genericName: 'Carbidopa/levodopa/entacapone', brandNames: ['Stalevo'], drugClass: 'Levodopa + COMT inhibitor', form: 'tablet', release: 'immediate', unit: 'mg', strengths: [50, 75, 100, 125, 150, 200].map(levodopa => ({ label: `${levodopa / 4}/${levodopa}/200`, amount: levodopa })) },
+  { id: 'carbidopa', genericName: 'Carbidopa', brandNames: ['Lodosyn'], drugClass: 'Decarboxylase inhibitor', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(25) },
+
+  // MAO-B inhibitors
+  { id: 'rasagiline', genericName: 'Rasagiline', brandNames: ['Azilect'], drugClass: 'MAO-B inhibitor', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(0.5, 1) },
+  { id: 'selegiline', genericName: 'Selegiline', brandNames: ['Eldepryl'], drugClass: 'MAO-B inhibitor', form: 'capsule', release: 'immediate', unit: 'mg', strengths: mg(5) },
+  { id: 'selegiline_odt', genericName: 'Selegiline', brandNames: ['Zelapar'], drugClass: 'MAO-B inhibitor', form: 'orally_disintegrating_tablet', release: 'immediate', unit: 'mg', strengths: mg(1.25) },
+  { id: 'safinamide', genericName: 'Safinamide', brandNames: ['Xadago'], drugClass: 'MAO-B inhibitor', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(50, 100) },
+
+  // Dopamine agonists
+  { id: 'pramipexole_ir', genericName: 'Pramipexole', brandNames: ['Mirapex', 'Sifrol'], drugClass: 'Dopamine agonist', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(0.125, 0.25, 0.5, 0.75, 1, 1.5) },
+  { id: 'pramipexole_er', genericName: 'Pramipexole', brandNames: ['Mirapex ER', 'Sifrol ER'], drugClass: 'Dopamine agonist', form: 'tablet', release: 'extended', unit: 'mg', strengths: mg(0.375, 0.75, 1.5, 2.25, 3, 3.75, 4.5) },
+  { id: 'ropinirole_ir', genericName: 'Ropinirole', brandNames: ['Requip'], drugClass: 'Dopamine agonist', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(0.25, 0.5, 1, 2, 3, 4, 5) },
+  { id: 'ropinirole_er', genericName: 'Ropinirole', brandNames: ['Requip XL'], drugClass: 'Dopamine agonist', form: 'tablet', release: 'extended', unit: 'mg', strengths: mg(2, 4, 6, 8, 12) },
+  { id: 'rotigotine', genericName: 'Rotigotine', brandNames: ['Neupro'], drugClass: 'Dopamine agonist', form: 'patch', release: 'extended', unit: 'mg/24h', strengths: mg(1, 2, 3, 4, 6, 8) },
+  { id: 'apomorphine_injection', genericName: 'Apomorphine', brandNames: ['Apokyn', 'APO-go'], drugClass: 'Dopamine agonist', form: 'injection', release: 'immediate', unit: 'mg', strengths: mg(1, 2, 3, 4, 5, 6) },
+  { id: 'apomorphine_film', genericName: 'Apomorphine', brandNames: ['Kynmobi'], drugClass: 'Dopamine agonist', form: 'sublingual_film', release: 'immediate', unit: 'mg', strengths: mg(10, 15, 20, 25, 30) },
+
+  // COMT inhibitors
+  { id: 'entacapone', genericName: 'Entacapone', brandNames: ['Comtan'], drugClass: 'COMT inhibitor', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(200) },
+  { id: 'opicapone', genericName: 'Opicapone', brandNames: ['Ongentys'], drugClass: 'COMT inhibitor', form: 'capsule', release: 'immediate', unit: 'mg', strengths: mg(25, 50) },
+  { id: 'tolcapone', genericName: 'Tolcapone', brandNames: ['Tasmar'], drugClass: 'COMT inhibitor', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(100) },
+
+  // Other Parkinson's medications
+  { id: 'amantadine_ir', genericName: 'Amantadine', brandNames: ['Symmetrel'], drugClass: 'NMDA antagonist', form: 'capsule', release: 'immediate', unit: 'mg', strengths: mg(100) },
+  { id: 'amantadine_er_capsule', genericName: 'Amantadine', brandNames: ['Gocovri'], drugClass: 'NMDA antagonist', form: 'capsule', release: 'extended', unit: 'mg', strengths: mg(68.5, 137) },
+  { id: 'amantadine_er_tablet', genericName: 'Amantadine', brandNames: ['Osmolex ER'], drugClass: 'NMDA antagonist', form: 'tablet', release: 'extended', unit: 'mg', strengths: mg(129, 193, 258) },
+  { id: 'istradefylline', genericName: 'Istradefylline', brandNames: ['Nourianz'], drugClass: 'Adenosine A2A antagonist', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(20, 40) },
+  { id: 'trihexyphenidyl', genericName: 'Trihexyphenidyl', brandNames: ['Artane'], drugClass: 'Anticholinergic', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(2, 5) },
+  { id: 'benztropine', genericName: 'Benztropine', brandNames: ['Cogentin'], drugClass: 'Anticholinergic', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(0.5, 1, 2) },
+
+  // Common non-motor treatments
+  { id: 'pimavanserin_tablet', genericName: 'Pimavanserin', brandNames: ['Nuplazid'], drugClass: 'Antipsychotic', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(10) },
+  { id: 'pimavanserin_capsule', genericName: 'Pimavanserin', brandNames: ['Nuplazid'], drugClass: 'Antipsychotic', form: 'capsule', release: 'immediate', unit: 'mg', strengths: mg(34) },
+  { id: 'quetiapine', genericName: 'Quetiapine', brandNames: ['Seroquel'], drugClass: 'Antipsychotic', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(25, 50, 100, 200) },
+  { id: 'clozapine', genericName: 'Clozapine', brandNames: ['Clozaril'], drugClass: 'Antipsychotic', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(12.5, 25, 100) },
+  { id: 'rivastigmine_capsule', genericName: 'Rivastigmine', brandNames: ['Exelon'], drugClass: 'Cholinesterase inhibitor', form: 'capsule', release: 'immediate', unit: 'mg', strengths: mg(1.5, 3, 4.5, 6) },
+  { id: 'rivastigmine_patch', genericName: 'Rivastigmine', brandNames: ['Exelon Patch'], drugClass: 'Cholinesterase inhibitor', form: 'patch', release: 'extended', unit: 'mg/24h', strengths: mg(4.6, 9.5, 13.3) },
+  { id: 'droxidopa', genericName: 'Droxidopa', brandNames: ['Northera'], drugClass: 'Norepinephrine precursor', form: 'capsule', release: 'immediate', unit: 'mg', strengths: mg(100, 200, 300) },
+  { id: 'midodrine', genericName: 'Midodrine', brandNames: ['ProAmatine'], drugClass: 'Alpha agonist', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(2.5, 5, 10) },
+  { id: 'domperidone', genericName: 'Domperidone', brandNames: ['Motilium'], drugClass: 'Peripheral dopamine antagonist', form: 'tablet', release: 'immediate', unit: 'mg', strengths: mg(10) },
+];
@@ -0,0 +1,314 @@
+// Bundled interaction dataset for drugs common in Parkinson's regimens. It ships
+// with the app so checks work offline; it is a safety net, not a substitute for
+// a pharmacist's review, and deliberately lists only well-established combinations.
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate';
+
+export type DrugClassId =
+  | 'levodopa'
+  | 'mao_b_inhibitor'
+  | 'nonselective_maoi'
+  | 'dopamine_agonist'
+  | 'comt_inhibitor'
+  | 'amantadine'
+  | 'anticholinergic'
+  | 'typical_antipsychotic'
+  | 'd2_atypical_antipsychotic'
+  | 'dopamine_blocking_antiemetic'
+  | 'serotonin_5ht3_antagonist'
+  | 'ssri'
+  | 'snri'
+  | 'tricyclic_antidepressant'
+  | 'serotonergic_opioid'
+  | 'sympathomimetic'
+  | 'iron_supplement'
+  | 'cyp1a2_inhibitor'
+  | 'sedative'
+  | 'st_johns_wort';
+
+export interface DrugClass {
+  id: DrugClassId;
+  label: string;
+  aliases: string[]; // Extra words that identify the class in free-text sensitivities
+}
+
+export interface DrugEntry {
+  id: string;
+  name: string;
+  aliases: string[]; // Brand names and alternative spellings, lowercase
+  classes: DrugClassId[];
+}
+
+// A side is either a whole class or one specific drug
+export type InteractionTarget = { classId: DrugClassId } | { drugId: string };
+
+export interface InteractionRule {
+  id: string;
+  between: [InteractionTarget, InteractionTarget];
+  severity: InteractionSeverity;
+  summary: string;
+  recommendation: string;
+}
+
+export const DRUG_CLASSES: DrugClass[] = [
+  { id: 'levodopa', label: 'Levodopa', aliases: ['l-dopa', 'ldopa'] },
+  { id: 'mao_b_inhibitor', label: 'MAO-B inhibitors', aliases: ['mao-b', 'maob', 'mao b inhibitor', 'maoi', 'mao inhibitor', 'mao inhibitors'] },
+  { id: 'nonselective_maoi', label: 'Non-selective MAO inhibitors', aliases: ['maoi', 'maois', 'mao inhibitor', 'mao inhibitors'] },
+  { id: 'dopamine_agonist', label: 'Dopamine agonists', aliases: ['dopamine agonist', 'agonists'] },
+  { id: 'comt_inhibitor', label: 'COMT inhibitors', aliases: ['comt'] },
+  { id: 'amantadine', label: 'Amantadine', aliases: [] },
+  { id: 'anticholinergic', label: 'Anticholinergics', aliases: ['anticholinergic'] },
+  { id: 'typical_antipsychotic', label: 'Typical antipsychotics', aliases: ['antipsychotic', 'antipsychotics', 'neuroleptic', 'neuroleptics'] },
+  { id: 'd2_atypical_antipsychotic', label: 'Atypical antipsychotics (D2-blocking)', aliases: ['atypical antipsychotic', 'atypical antipsychotics'] },
+  { id: 'dopamine_blocking_antiemetic', label: 'Dopamine-blocking anti-nausea drugs', aliases: ['antiemetic', 'antiemetics'] },
+  { id: 'serotonin_5ht3_antagonist', label: '5-HT3 antagonists', aliases: ['5-ht3', 'setron', 'setrons'] },
+  { id: 'ssri', label: 'SSRIs', aliases: ['ssri'] },
+  { id: 'snri', label: 'SNRIs', aliases: ['snri'] },
+  { id: 'tricyclic_antidepressant', label: 'Tricyclic antidepressants', aliases: ['tca', 'tcas', 'tricyclic', 'tricyclics'] },
+  { id: 'serotonergic_opioid', label: 'Serotonergic opioids and cough suppressants', aliases: ['opioid', 'opioids'] },
+  { id: 'sympathomimetic', label: 'Decongestants and stimulants', aliases: ['decongestant', 'decongestants', 'sympathomimetic', 'sympathomimetics'] },
+  { id: 'iron_supplement', label: 'Iron supplements', aliases: ['iron'] },
+  { id: 'cyp1a2_inhibitor', label: 'CYP1A2 inhibitors', aliases: [] },
+  { id: 'sedative', label: 'Sedatives and sleeping pills', aliases: ['sedative', 'sedatives', 'benzodiazepine', 'benzodiazepines', 'sleeping pills'] },
+  { id: 'st_johns_wort', label: "St John's wort", aliases: [] },
+];
+
+export const DRUGS: DrugEntry[] = [
+  // Parkinson's medications
+  { id: 'carbidopa_levodopa', name: 'Carbidopa/levodopa', aliases: ['levodopa', 'carbidopa', 'sinemet', 'rytary', 'dhivy', 'duopa', 'inbrija', 'parcopa', 'crexont'], classes: ['levodopa'] },
+  { id: 'benserazide_levodopa', name: 'Benserazide/levodopa', aliases: ['madopar', 'prolopa', 'benserazide', 'co-beneldopa'], classes: ['levodopa'] },
+  { id: 'carbidopa_levodopa_entacapone', name: 'Carbidopa/levodopa/entacapone', aliases: ['stalevo'], classes: ['levodopa', 'comt_inhibitor'] },
+  { id: 'selegiline', name: 'Selegiline', aliases: ['eldepryl', 'zelapar', 'emsam'], classes: ['mao_b_inhibitor'] },
+  { id: 'rasagiline', name: 'Rasagiline', aliases: ['azilect'], classes: ['mao_b_inhibitor'] },
+  { id: 'safinamide', name: 'Safinamide', aliases: ['xadago'], classes: ['mao_b_inhibitor'] },
+  { id: 'pramipexole', name: 'Pramipexole', aliases: ['mirapex', 'mirapexin', 'sifrol'], classes: ['dopamine_agonist'] },
+  { id: 'ropinirole', name: 'Ropinirole', aliases: ['requip'], classes: ['dopamine_agonist'] },
+  { id: 'rotigotine', name: 'Rotigotine', aliases: ['neupro'], classes: ['dopamine_agonist'] },
+  { id: 'apomorphine', name: 'Apomorphine', aliases: ['apokyn', 'kynmobi', 'apo-go', 'onapgo'], classes: ['dopamine_agonist'] },
+  { id: 'entacapone', name: 'Entacapone', aliases: ['comtan'], classes: ['comt_inhibitor'] },
+  { id: 'opicapone', name: 'Opicapone', aliases: ['ongentys'], classes: ['comt_inhibitor'] },
+  { id: 'tolcapone', name: 'Tolcapone', aliases: ['tasmar'], classes: ['comt_inhibitor'] },
+  { id: 'amantadine', name: 'Amantadine', aliases: ['gocovri', 'osmolex', 'symmetrel'], classes: ['amantadine'] },
+  { id: 'trihexyphenidyl', name: 'Trihexyphenidyl', aliases: ['artane', 'benzhexol'], classes: ['anticholinergic'] },
+  { id: 'benztropine', name: 'Benztropine', aliases: ['cogentin'], classes: ['anticholinergic'] },
+
+  // Non-selective MAO inhibitors
+  { id: 'phenelzine', name: 'Phenelzine', aliases: ['nardil'], classes: ['nonselective_maoi'] },
+  { id: 'tranylcypromine', name: 'Tranylcypromine', aliases: ['parnate'], classes: ['nonselective_maoi'] },
+  { id: 'isocarboxazid', name: 'Isocarboxazid', aliases: ['marplan'], classes: ['nonselective_maoi'] },
+  { id: 'linezolid', name: 'Linezolid', aliases: ['zyvox'], classes: ['nonselective_maoi'] },
+
+  // Antipsychotics
+  { id: 'haloperidol', name: 'Haloperidol', aliases: ['haldol'], classes: ['typical_antipsychotic'] },
+  { id: 'chlorpromazine', name: 'Chlorpromazine', aliases: ['thorazine', 'largactil'], classes: ['typical_antipsychotic'] },
+  { id: 'fluphenazine', name: 'Fluphenazine', aliases: ['prolixin'], classes: ['typical_antipsychotic'] },
+  { id: 'perphenazine', name: 'Perphenazine', aliases: ['trilafon'], classes: ['typical_antipsychotic'] },
+  { id: 'risperidone', name: 'Risperidone', aliases: ['risperdal'], classes: ['d2_atypical_antipsychotic'] },
+  { id: 'olanzapine', name: 'Olanzapine', aliases: ['zyprexa'], classes: ['d2_atypical_antipsychotic'] },
+  { id: 'aripiprazole', name: 'Aripiprazole', aliases: ['abilify'], classes: ['d2_atypical_antipsychotic'] },
+  { id: 'ziprasidone', name: 'Ziprasidone', aliases: ['geodon'], classes: ['d2_atypical_antipsychotic'] },
+
+  // Anti-nausea
+  { id: 'metoclopramide', name: 'Metoclopramide', aliases: ['reglan', 'maxolon'], classes: ['dopamine_blocking_antiemetic'] },
+  { id: 'prochlorperazine', name: 'Prochlorperazine', aliases: ['compazine', 'stemetil'], classes: ['dopamine_blocking_antiemetic'] },
+  { id: 'promethazine', name: 'Promethazine', aliases: ['phenergan'], classes: ['dopamine_blocking_antiemetic'] },
+  { id: 'ondansetron', name: 'Ondansetron', aliases: ['zofran'], classes: ['serotonin_5ht3_antagonist'] },
+  { id: 'granisetron', name: 'Granisetron', aliases: ['kytril', 'sancuso'], classes: ['serotonin_5ht3_antagonist'] },
+  { id: 'palonosetron', name: 'Palonosetron', aliases: ['aloxi'], classes: ['serotonin_5ht3_antagonist'] },
+
+  // Antidepressants
+  { id: 'sertraline', name: 'Sertraline', aliases: ['zoloft'], classes: ['ssri'] },
+  { id: 'fluoxetine', name: 'Fluoxetine', aliases: ['prozac'], classes: ['ssri'] },
+  { id: 'paroxetine', name: 'Paroxetine', aliases: ['paxil', 'seroxat'], classes: ['ssri'] },
+  { id: 'citalopram', name: 'Citalopram', aliases: ['celexa'], classes: ['ssri'] },
+  { id: 'escitalopram', name: 'Escitalopram', aliases: ['lexapro', 'cipralex'], classes: ['ssri'] },
+  { id: 'fluvoxamine', name: 'Fluvoxamine', aliases: ['luvox'], classes: ['ssri', 'cyp1a2_inhibitor'] },
+  { id: 'venlafaxine', name: 'Venlafaxine', aliases: ['effexor'], classes: ['snri'] },
+  { id: 'duloxetine', name: 'Duloxetine', aliases: ['cymbalta'], classes: ['snri'] },
+  { id: 'amitriptyline', name: 'Amitriptyline', aliases: ['elavil'], classes: ['tricyclic_antidepressant'] },
+  { id: 'nortriptyline', name: 'Nortriptyline', aliases: ['pamelor'], classes: ['tricyclic_antidepressant'] },
+
+  // Pain and cough
+  { id: 'meperidine', name: 'Meperidine', aliases: ['pethidine', 'demerol'], classes: ['serotonergic_opioid'] },
+  { id: 'tramadol', name: 'Tramadol', aliases: ['ultram'], classes: ['serotonergic_opioid'] },
+  { id: 'methadone', name: 'Methadone', aliases: [], classes: ['serotonergic_opioid'] },
+  { id: 'dextromethorphan', name: 'Dextromethorphan', aliases: ['robitussin', 'delsym'], classes: ['serotonergic_opioid'] },
+
+  // Over the counter
+  { id: 'pseudoephedrine', name: 'Pseudoephedrine', aliases: ['sudafed'], classes: ['sympathomimetic'] },
+  { id: 'phenylephrine', name: 'Phenylephrine', aliases: [], classes: ['sympathomimetic'] },
+  { id: 'ephedrine', name: 'Ephedrine', aliases: [], classes: ['sympathomimetic'] },
+  { id: 'ferrous_sulfate', name: 'Iron (ferrous sulfate)', aliases: ['ferrous sulfate', 'ferrous sulphate', 'ferrous gluconate', 'ferrous fumarate', 'iron supplement'], classes: ['iron_supplement'] },
+  { id: 'st_johns_wort', name: "St John's wort", aliases: ['st johns wort', 'st. john\'s wort', 'hypericum'], classes: ['st_johns_wort'] },
+
+  // Other
+  { id: 'ciprofloxacin', name: 'Ciprofloxacin', aliases: ['cipro'], classes: ['cyp1a2_inhibitor'] },
+  { id: 'lorazepam', name: 'Lorazepam', aliases: ['ativan'], classes: ['sedative'] },
+  { id: 'diazepam', name: 'Diazepam', aliases: ['valium'], classes: ['sedative'] },
+  { id: 'alprazolam', name: 'Alprazolam', aliases: ['xanax'], classes: ['sedative'] },
+  { id: 'zolpidem', name: 'Zolpidem', aliases: ['ambien'], classes: ['sedative'] },
+];
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: 'maoi-levodopa',
+    between: [{ classId: 'nonselective_maoi' }, { classId: 'levodopa' }],
+    severity: 'contraindicated',
+    summary: 'Can cause a dangerous rise in blood pressure (hypertensive crisis).',
+    recommendation: 'Do not combine. Stop the MAO inhibitor at least 14 days before starting levodopa.',
+  },
+  {
+    id: 'maoi-maob',
+    between: [{ classId: 'nonselective_maoi' }, { classId: 'mao_b_inhibitor' }],
+    severity: 'contraindicated',
+    summary: 'Combining MAO inhibitors risks hypertensive crisis and serotonin syndrome.',
+    recommendation: 'Do not combine. Allow at least 14 days between them.',
+  },
+  {
+    id: 'maoi-comt',
+    between: [{ classId: 'nonselective_maoi' }, { classId: 'comt_inhibitor' }],
+    severity: 'contraindicated',
+    summary: 'Blocks both routes that break down catecholamines, raising heart rate and blood pressure.',
+    recommendation: 'Do not combine.',
+  },
+  {
+    id: 'maob-serotonergic-opioid',
+    between: [{ classId: 'mao_b_inhibitor' }, { classId: 'serotonergic_opioid' }],
+    severity: 'contraindicated',
+    summary: 'Can cause serotonin syndrome, which may be life-threatening.',
+    recommendation: 'Avoid. Ask the prescriber for a different pain or cough medicine.',
+  },
+  {
+    id: 'apomorphine-5ht3',
+    between: [{ drugId: 'apomorphine' }, { classId: 'serotonin_5ht3_antagonist' }],
+    severity: 'contraindicated',
+    summary: 'Has caused profound low blood pressure and loss of consciousness.',
+    recommendation: 'Do not combine. Use trimethobenzamide or domperidone for nausea instead.',
+  },
+  {
+    id: 'maob-ssri',
+    between: [{ classId: 'mao_b_inhibitor' }, { classId: 'ssri' }],
+    severity: 'major',
+    summary: 'Raises the risk of serotonin syndrome (agitation, fever, sweating, tremor).',
+    recommendation: 'Use only under close supervision at the lowest doses. Report confusion, fever or rigidity right away.',
+  },
+  {
+    id: 'maob-snri',
+    between: [{ classId: 'mao_b_inhibitor' }, { classId: 'snri' }],
+    severity: 'major',
+    summary: 'Raises the risk of serotonin syndrome (agitation, fever, sweating, tremor).',
+    recommendation: 'Use only under close supervision at the lowest doses. Report confusion, fever or rigidity right away.',
+  },
+  {
+    id: 'maob-tca',
+    between: [{ classId: 'mao_b_inhibitor' }, { classId: 'tricyclic_antidepressant' }],
+    severity: 'major',
+    summary: 'Raises the risk of serotonin syndrome and severe blood pressure changes.',
+    recommendation: 'Use only under close supervision at the lowest doses.',
+  },
+  {
+    id: 'maob-sympathomimetic',
+    between: [{ classId: 'mao_b_inhibitor' }, { classId: 'sympathomimetic' }],
+    severity: 'major',
+    summary: 'Decongestants and stimulants can trigger a sharp rise in blood pressure.',
+    recommendation: 'Avoid cold and flu products containing decongestants. Ask a pharmacist for alternatives.',
+  },
+  {
+    id: 'maob-st-johns-wort',
+    between: [{ classId: 'mao_b_inhibitor' }, { classId: 'st_johns_wort' }],
+    severity: 'major',
+    summary: 'Raises the risk of serotonin syndrome.',
+    recommendation: "Avoid St John's wort while taking an MAO-B inhibitor.",
+  },
+  {
+    id: 'maob-duplicate',
+    between: [{ classId: 'mao_b_inhibitor' }, { classId: 'mao_b_inhibitor' }],
+    severity: 'major',
+    summary: 'Two MAO-B inhibitors together add side effects without extra benefit.',
+    recommendation: 'Check with the prescriber; usually only one is intended.',
+  },
+  {
+    id: 'levodopa-typical-antipsychotic',
+    between: [{ classId: 'levodopa' }, { classId: 'typical_antipsychotic' }],
+    severity: 'major',
+    summary: 'Blocks dopamine, cancelling levodopa and worsening Parkinson\'s symptoms. People with Parkinson\'s can react severely to these drugs.',
+    recommendation: 'Avoid. If an antipsychotic is needed, quetiapine, clozapine or pimavanserin are usually preferred.',
+  },
+  {
+    id: 'agonist-typical-antipsychotic',
+    between: [{ classId: 'dopamine_agonist' }, { classId: 'typical_antipsychotic' }],
+    severity: 'major',
+    summary: 'The two drugs work against each other and can worsen movement symptoms.',
+    recommendation: 'Avoid. If an antipsychotic is needed, quetiapine, clozapine or pimavanserin are usually preferred.',
+  },
+  {
+    id: 'levodopa-d2-atypical',
+    between: [{ classId: 'levodopa' }, { classId: 'd2_atypical_antipsychotic' }],
+    severity: 'major',
+    summary: 'Blocks dopamine and can noticeably worsen stiffness, slowness and tremor.',
+    recommendation: 'Ask the prescriber about quetiapine, clozapine or pimavanserin instead.',
+  },
+  {
+    id: 'agonist-d2-atypical',
+    between: [{ classId: 'dopamine_agonist' }, { classId: 'd2_atypical_antipsychotic' }],
+    severity: 'major',
+    summary: 'The two drugs work against each other and can worsen movement symptoms.',
+    recommendation: 'Ask the prescriber about quetiapine, clozapine or pimavanserin instead.',
+  },
+  {
+    id: 'levodopa-dopamine-blocking-antiemetic',
+    between: [{ classId: 'levodopa' }, { classId: 'dopamine_blocking_antiemetic' }],
+    severity: 'major',
+    summary: 'These anti-nausea drugs block dopamine and can sharply worsen Parkinson\'s symptoms.',
+    recommendation: 'Avoid. Domperidone or ondansetron are usually safer for nausea.',
+  },
+  {
+    id: 'agonist-dopamine-blocking-antiemetic',
+    between: [{ classId: 'dopamine_agonist' }, { classId: 'dopamine_blocking_antiemetic' }],
+    severity: 'major',
+    summary: 'These anti-nausea drugs block dopamine and work against the agonist.',
+    recommendation: 'Avoid. Domperidone is usually safer for nausea.',
+  },
+  {
+    id: 'agonist-duplicate',
+    between: [{ classId: 'dopamine_agonist' }, { classId: 'dopamine_agonist' }],
+    severity: 'moderate',
+    summary: 'Two dopamine agonists together increase the risk of hallucinations, sleepiness and impulse control problems.',
+    recommendation: 'Check with the prescriber unless one is a rescue medicine such as apomorphine.',
+  },
+  {
+    id: 'agonist-sedative',
+    between: [{ classId: 'dopamine_agonist' }, { classId: 'sedative' }],
+    severity: 'moderate',
+    summary: 'Adds to daytime sleepiness and sudden sleep attacks.',
+    recommendation: 'Avoid driving until you know how the combination affects you.',
+  },
+  {
+    id: 'levodopa-iron',
+    between: [{ classId: 'levodopa' }, { classId: 'iron_supplement' }],
+    severity: 'moderate',
+    summary: 'Iron binds levodopa in the gut and reduces how much is absorbed.',
+    recommendation: 'Take iron at least 2 hours apart from levodopa.',
+  },
+  {
+    id: 'ropinirole-cyp1a2',
+    between: [{ drugId: 'ropinirole' }, { classId: 'cyp1a2_inhibitor' }],
+    severity: 'moderate',
+    summary: 'Raises ropinirole levels, increasing nausea, dizziness and sleepiness.',
+    recommendation: 'The prescriber may need to lower the ropinirole dose.',
+  },
+  {
+    id: 'rasagiline-cyp1a2',
+    between: [{ drugId: 'rasagiline' }, { classId: 'cyp1a2_inhibitor' }],
+    severity: 'moderate',
+    summary: 'Roughly doubles rasagiline levels.',
+    recommendation: 'Rasagiline is usually limited to 0.5 mg a day with this combination.',
+  },
+  {
+    id: 'amantadine-anticholinergic',
+    between: [{ classId: 'amantadine' }, { classId: 'anticholinergic' }],
+    severity: 'moderate',
+    summary: 'Adds to confusion, hallucinations, dry mouth and constipation, especially in older adults.',
+    recommendation: 'Watch for confusion and report it to the prescriber.',
+  },
+];
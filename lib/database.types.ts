@@ -0,0 +1,1234 @@
+// Table definitions for the typed repositories, kept by hand in the shape
+// `supabase gen types` produces. Update them in the same change as the migration
+// that alters a table; `npm run gen:types` overwrites this file from the linked project.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      appointment_reports: {
+        Row: {
+          appointment_id: string;
+          created_at: string | null;
+          created_by: string | null;
+          csv_path: string | null;
+          id: string;
+          patient_id: string;
+          pdf_path: string | null;
+          period_end: string;
+          period_start: string;
+        };
+        Insert: {
+          appointment_id: string;
+          created_at?: string | null;
+          created_by?: string | null;
+          csv_path?: string | null;
+          id?: string;
+          patient_id: string;
+          pdf_path?: string | null;
+          period_end: string;
+          period_start: string;
+        };
+        Update: {
+          appointment_id?: string;
+          created_at?: string | null;
+          created_by?: string | null;
+          csv_path?: string | null;
+          id?: string;
+          patient_id?: string;
+          pdf_path?: string | null;
+          period_end?: string;
+          period_start?: string;
+        };
+        Relationships: [];
+      };
+      assessment_results: {
+        Row: {
+          answers: Json;
+          created_at: string | null;
+          id: string;
+          key_factors: Json;
+          percentage: number;
+          recommendations: Json;
+          risk_level: string;
+          user_id: string;
+        };
+        Insert: {
+          answers?: Json;
+          created_at?: string | null;
+          id?: string;
+          key_factors?: Json;
+          percentage: number;
+          recommendations?: Json;
+          risk_level: string;
+          user_id: string;
+        };
+        Update: {
+          answers?: Json;
+          created_at?: string | null;
+          id?: string;
+          key_factors?: Json;
+          percentage?: number;
+          recommendations?: Json;
+          risk_level?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      caregiver_alert_events: {
+        Row: {
+          action: string;
+          actor_id: string | null;
+          actor_name: string;
+          created_at: string;
+          id: string;
+          incident_id: string;
+          note: string | null;
+          patient_id: string;
+        };
+        Insert: {
+          action: string;
+          actor_id?: string | null;
+          actor_name: string;
+          created_at?: string;
+          id?: string;
+          incident_id: string;
+          note?: string | null;
+          patient_id: string;
+        };
+        Update: {
+          action?: string;
+          actor_id?: string | null;
+          actor_name?: string;
+          created_at?: string;
+          id?: string;
+          incident_id?: string;
+          note?: string | null;
+          patient_id?: string;
+        };
+        Relationships: [];
+      };
+      caregiver_alert_rules: {
+        Row: {
+          condition: Json;
+          created_at: string;
+          created_by: string | null;
+          enabled: boolean;
+          id: string;
+          last_triggered_at: string | null;
+          name: string;
+          patient_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          condition: Json;
+          created_at?: string;
+          created_by?: string | null;
+          enabled?: boolean;
+          id?: string;
+          last_triggered_at?: string | null;
+          name: string;
+          patient_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          condition?: Json;
+          created_at?: string;
+          created_by?: string | null;
+          enabled?: boolean;
+          id?: string;
+          last_triggered_at?: string | null;
+          name?: string;
+          patient_id?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      caregiver_alerts: {
+        Row: {
+          acknowledged: boolean | null;
+          acknowledged_at: string | null;
+          alert_message: string;
+          alert_type: string;
+          caregiver_id: string;
+          created_at: string | null;
+          details: Json | null;
+          dose_scheduled_time: string | null;
+          id: string;
+          incident_id: string;
+          medication_alarm_id: string | null;
+          medication_schedule_id: string | null;
+          patient_id: string;
+          resolution_note: string | null;
+          resolved_at: string | null;
+          resolver_id: string | null;
+          responded_at: string | null;
+          responder_id: string | null;
+          status: string;
+        };
+        Insert: {
+          acknowledged?: boolean | null;
+          acknowledged_at?: string | null;
+          alert_message: string;
+          alert_type: string;
+          caregiver_id: string;
+          created_at?: string | null;
+          details?: Json | null;
+          dose_scheduled_time?: string | null;
+          id?: string;
+          incident_id?: string;
+          medication_alarm_id?: string | null;
+          medication_schedule_id?: string | null;
+          patient_id: string;
+          resolution_note?: string | null;
+          resolved_at?: string | null;
+          resolver_id?: string | null;
+          responded_at?: string | null;
+          responder_id?: string | null;
+          status?: string;
+        };
+        Update: {
+          acknowledged?: boolean | null;
+          acknowledged_at?: string | null;
+          alert_message?: string;
+          alert_type?: string;
+          caregiver_id?: string;
+          created_at?: string | null;
+          details?: Json | null;
+          dose_scheduled_time?: string | null;
+          id?: string;
+          incident_id?: string;
+          medication_alarm_id?: string | null;
+          medication_schedule_id?: string | null;
+          patient_id?: string;
+          resolution_note?: string | null;
+          resolved_at?: string | null;
+          resolver_id?: string | null;
+          responded_at?: string | null;
+          responder_id?: string | null;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'caregiver_alerts_medication_alarm_id_fkey';
+            columns: ['medication_alarm_id'];
+            isOneToOne: false;
+            referencedRelation: 'medication_alarms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'caregiver_alerts_medication_schedule_id_fkey';
+            columns: ['medication_schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'medication_schedules';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      caregiver_shift_swaps: {
+        Row: {
+          covering_caregiver_id: string;
+          created_at: string;
+          created_by: string | null;
+          ends_at: string;
+          id: string;
+          note: string | null;
+          patient_id: string;
+          shift_id: string;
+          starts_at: string;
+        };
+        Insert: {
+          covering_caregiver_id: string;
+          created_at?: string;
+          created_by?: string | null;
+          ends_at: string;
+          id?: string;
+          note?: string | null;
+          patient_id: string;
+          shift_id: string;
+          starts_at: string;
+        };
+        Update: {
+          covering_caregiver_id?: string;
+          created_at?: string;
+          created_by?: string | null;
+          ends_at?: string;
+          id?: string;
+          note?: string | null;
+          patient_id?: string;
+          shift_id?: string;
+          starts_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'caregiver_shift_swaps_shift_id_fkey';
+            columns: ['shift_id'];
+            isOneToOne: false;
+            referencedRelation: 'caregiver_shifts';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      caregiver_shifts: {
+        Row: {
+          caregiver_id: string;
+          created_at: string;
+          created_by: string | null;
+          days_of_week: number[];
+          end_time: string;
+          id: string;
+          patient_id: string;
+          start_time: string;
+          timezone: string;
+          updated_at: string;
+        };
+        Insert: {
+          caregiver_id: string;
+          created_at?: string;
+          created_by?: string | null;
+          days_of_week: number[];
+          end_time: string;
+          id?: string;
+          patient_id: string;
+          start_time: string;
+          timezone?: string;
+          updated_at?: string;
+        };
+        Update: {
+          caregiver_id?: string;
+          created_at?: string;
+          created_by?: string | null;
+          days_of_week?: number[];
+          end_time?: string;
+          id?: string;
+          patient_id?: string;
+          start_time?: string;
+          timezone?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      doctor_appointments: {
+        Row: {
+          appointment_date: string;
+          appointment_time: string;
+          appointment_type: string;
+          created_at: string | null;
+          doctor_name: string;
+          doctor_specialty: string;
+          id: string;
+          location: string;
+          notes: string | null;
+          notification_id: string | null;
+          patient_id: string;
+          reminder_sent: boolean;
+          status: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          appointment_date: string;
+          appointment_time: string;
+          appointment_type?: string;
+          created_at?: string | null;
+          doctor_name: string;
+          doctor_specialty: string;
+          id?: string;
+          location: string;
+          notes?: string | null;
+          notification_id?: string | null;
+          patient_id: string;
+          reminder_sent?: boolean;
+          status?: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          appointment_date?: string;
+          appointment_time?: string;
+          appointment_type?: string;
+          created_at?: string | null;
+          doctor_name?: string;
+          doctor_specialty?: string;
+          id?: string;
+          location?: string;
+          notes?: string | null;
+          notification_id?: string | null;
+          patient_id?: string;
+          reminder_sent?: boolean;
+          status?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      health_checkins: {
+        Row: {
+          checkin_date: string;
+          created_at: string | null;
+          id: string;
+          question_id: string;
+          response: string;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          checkin_date?: string;
+          created_at?: string | null;
+          id?: string;
+          question_id: string;
+          response: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          checkin_date?: string;
+          created_at?: string | null;
+          id?: string;
+          question_id?: string;
+          response?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      health_metric_categories: {
+        Row: {
+          archived: boolean;
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          group_name: string | null;
+          icon: string | null;
+          id: string;
+          input_type: string;
+          name: string;
+          normal_range_max: number | null;
+          normal_range_min: number | null;
+          patient_id: string | null;
+          sort_order: number;
+          unit: string | null;
+        };
+        Insert: {
+          archived?: boolean;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          group_name?: string | null;
+          icon?: string | null;
+          id?: string;
+          input_type?: string;
+          name: string;
+          normal_range_max?: number | null;
+          normal_range_min?: number | null;
+          patient_id?: string | null;
+          sort_order?: number;
+          unit?: string | null;
+        };
+        Update: {
+          archived?: boolean;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          group_name?: string | null;
+          icon?: string | null;
+          id?: string;
+          input_type?: string;
+          name?: string;
+          normal_range_max?: number | null;
+          normal_range_min?: number | null;
+          patient_id?: string | null;
+          sort_order?: number;
+          unit?: string | null;
+        };
+        Relationships: [];
+      };
+      health_metrics: {
+        Row: {
+          category_id: string;
+          created_at: string | null;
+          id: string;
+          notes: string | null;
+          patient_id: string;
+          recorded_at: string;
+          value: number;
+        };
+        Insert: {
+          category_id: string;
+          created_at?: string | null;
+          id?: string;
+          notes?: string | null;
+          patient_id: string;
+          recorded_at?: string;
+          value: number;
+        };
+        Update: {
+          category_id?: string;
+          created_at?: string | null;
+          id?: string;
+          notes?: string | null;
+          patient_id?: string;
+          recorded_at?: string;
+          value?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'health_metrics_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'health_metric_categories';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      medication_administration_logs: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          intended_dose_time: string | null;
+          medication_id: string;
+          notes: string | null;
+          schedule_id: string | null;
+          status: string;
+          taken_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          intended_dose_time?: string | null;
+          medication_id: string;
+          notes?: string | null;
+          schedule_id?: string | null;
+          status: string;
+          taken_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          intended_dose_time?: string | null;
+          medication_id?: string;
+          notes?: string | null;
+          schedule_id?: string | null;
+          status?: string;
+          taken_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'medication_administration_logs_medication_id_fkey';
+            columns: ['medication_id'];
+            isOneToOne: false;
+            referencedRelation: 'medications';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'medication_administration_logs_schedule_id_fkey';
+            columns: ['schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'medication_schedules';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      medication_alarms: {
+        Row: {
+          alarm_attempt: number;
+          alarm_sent_at: string | null;
+          alert_message: string | null;
+          caregiver_alert_sent_at: string | null;
+          caregiver_alerted: boolean;
+          created_at: string | null;
+          escalation_target: string;
+          id: string;
+          medication_schedule_id: string | null;
+          patient_id: string;
+          patient_responded: boolean;
+          response_time: string | null;
+          scheduled_time: string;
+          updated_at: string | null;
+          urgency: string;
+        };
+        Insert: {
+          alarm_attempt?: number;
+          alarm_sent_at?: string | null;
+          alert_message?: string | null;
+          caregiver_alert_sent_at?: string | null;
+          caregiver_alerted?: boolean;
+          created_at?: string | null;
+          escalation_target?: string;
+          id?: string;
+          medication_schedule_id?: string | null;
+          patient_id: string;
+          patient_responded?: boolean;
+          response_time?: string | null;
+          scheduled_time: string;
+          updated_at?: string | null;
+          urgency?: string;
+        };
+        Update: {
+          alarm_attempt?: number;
+          alarm_sent_at?: string | null;
+          alert_message?: string | null;
+          caregiver_alert_sent_at?: string | null;
+          caregiver_alerted?: boolean;
+          created_at?: string | null;
+          escalation_target?: string;
+          id?: string;
+          medication_schedule_id?: string | null;
+          patient_id?: string;
+          patient_responded?: boolean;
+          response_time?: string | null;
+          scheduled_time?: string;
+          updated_at?: string | null;
+          urgency?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'medication_alarms_medication_schedule_id_fkey';
+            columns: ['medication_schedule_id'];
+            isOneToOne: false;
+            referencedRelation: 'medication_schedules';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      medication_schedules: {
+        Row: {
+          created_at: string | null;
+          days_of_week: string[];
+          id: string;
+          medication_id: string;
+          notification_ids: string[] | null;
+          rule: Json | null;
+          scheduled_time: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          days_of_week: string[];
+          id?: string;
+          medication_id: string;
+          notification_ids?: string[] | null;
+          rule?: Json | null;
+          scheduled_time: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          days_of_week?: string[];
+          id?: string;
+          medication_id?: string;
+          notification_ids?: string[] | null;
+          rule?: Json | null;
+          scheduled_time?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'medication_schedules_medication_id_fkey';
+            columns: ['medication_id'];
+            isOneToOne: false;
+            referencedRelation: 'medications';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      medications: {
+        Row: {
+          catalog_id: string | null;
+          created_at: string | null;
+          dose_amount: number | null;
+          dose_form: string | null;
+          dose_unit: string | null;
+          dosage: string;
+          end_date: string | null;
+          escalation_policy: Json | null;
+          frequency: string | null;
+          id: string;
+          instructions: string | null;
+          low_stock_alerted_at: string | null;
+          name: string;
+          patient_id: string;
+          pills_per_dose: number;
+          refill_reminder_days: number;
+          start_date: string | null;
+          stock_count: number | null;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          catalog_id?: string | null;
+          created_at?: string | null;
+          dose_amount?: number | null;
+          dose_form?: string | null;
+          dose_unit?: string | null;
+          dosage: string;
+          end_date?: string | null;
+          escalation_policy?: Json | null;
+          frequency?: string | null;
+          id?: string;
+          instructions?: string | null;
+          low_stock_alerted_at?: string | null;
+          name: string;
+          patient_id: string;
+          pills_per_dose?: number;
+          refill_reminder_days?: number;
+          start_date?: string | null;
+          stock_count?: number | null;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          catalog_id?: string | null;
+          created_at?: string | null;
+          dose_amount?: number | null;
+          dose_form?: string | null;
+          dose_unit?: string | null;
+          dosage?: string;
+          end_date?: string | null;
+          escalation_policy?: Json | null;
+          frequency?: string | null;
+          id?: string;
+          instructions?: string | null;
+          low_stock_alerted_at?: string | null;
+          name?: string;
+          patient_id?: string;
+          pills_per_dose?: number;
+          refill_reminder_days?: number;
+          start_date?: string | null;
+          stock_count?: number | null;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      motor_diary_entries: {
+        Row: {
+          created_at: string | null;
+          entry_date: string;
+          hour: number;
+          id: string;
+          state: string;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          entry_date: string;
+          hour: number;
+          id?: string;
+          state: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          entry_date?: string;
+          hour?: number;
+          id?: string;
+          state?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      notification_settings: {
+        Row: {
+          alert_channels: Json;
+          appointment_reminders_enabled: boolean;
+          caregiver_alert_delay: number | null;
+          caregiver_alerts_enabled: boolean;
+          checkin_reminders_enabled: boolean;
+          created_at: string | null;
+          expo_push_token: string | null;
+          id: string;
+          max_reminder_attempts: number | null;
+          medication_reminders_enabled: boolean | null;
+          quiet_hours_end: string | null;
+          quiet_hours_start: string | null;
+          reminder_sound: string | null;
+          snooze_duration: number | null;
+          sound_enabled: boolean | null;
+          updated_at: string | null;
+          user_id: string;
+          vibration_enabled: boolean | null;
+        };
+        Insert: {
+          alert_channels?: Json;
+          appointment_reminders_enabled?: boolean;
+          caregiver_alert_delay?: number | null;
+          caregiver_alerts_enabled?: boolean;
+          checkin_reminders_enabled?: boolean;
+          created_at?: string | null;
+          expo_push_token?: string | null;
+          id?: string;
+          max_reminder_attempts?: number | null;
+          medication_reminders_enabled?: boolean | null;
+          quiet_hours_end?: string | null;
+          quiet_hours_start?: string | null;
+          reminder_sound?: string | null;
+          snooze_duration?: number | null;
+          sound_enabled?: boolean | null;
+          updated_at?: string | null;
+          user_id: string;
+          vibration_enabled?: boolean | null;
+        };
+        Update: {
+          alert_channels?: Json;
+          appointment_reminders_enabled?: boolean;
+          caregiver_alert_delay?: number | null;
+          caregiver_alerts_enabled?: boolean;
+          checkin_reminders_enabled?: boolean;
+          created_at?: string | null;
+          expo_push_token?: string | null;
+          id?: string;
+          max_reminder_attempts?: number | null;
+          medication_reminders_enabled?: boolean | null;
+          quiet_hours_end?: string | null;
+          quiet_hours_start?: string | null;
+          reminder_sound?: string | null;
+          snooze_duration?: number | null;
+          sound_enabled?: boolean | null;
+          updated_at?: string | null;
+          user_id?: string;
+          vibration_enabled?: boolean | null;
+        };
+        Relationships: [];
+      };
+      orthostatic_tests: {
+        Row: {
+          created_at: string;
+          diastolic_drop: number | null;
+          id: string;
+          is_orthostatic: boolean | null;
+          lying_diastolic: number;
+          lying_heart_rate: number | null;
+          lying_systolic: number;
+          notes: string | null;
+          patient_id: string;
+          standing_1_diastolic: number;
+          standing_1_heart_rate: number | null;
+          standing_1_systolic: number;
+          standing_3_diastolic: number | null;
+          standing_3_heart_rate: number | null;
+          standing_3_systolic: number | null;
+          started_at: string;
+          stood_at: string;
+          symptomatic: boolean;
+          systolic_drop: number | null;
+        };
+        Insert: {
+          created_at?: string;
+          diastolic_drop?: never;
+          id?: string;
+          is_orthostatic?: never;
+          lying_diastolic: number;
+          lying_heart_rate?: number | null;
+          lying_systolic: number;
+          notes?: string | null;
+          patient_id: string;
+          standing_1_diastolic: number;
+          standing_1_heart_rate?: number | null;
+          standing_1_systolic: number;
+          standing_3_diastolic?: number | null;
+          standing_3_heart_rate?: number | null;
+          standing_3_systolic?: number | null;
+          started_at: string;
+          stood_at: string;
+          symptomatic?: boolean;
+          systolic_drop?: never;
+        };
+        Update: {
+          created_at?: string;
+          diastolic_drop?: never;
+          id?: string;
+          is_orthostatic?: never;
+          lying_diastolic?: number;
+          lying_heart_rate?: number | null;
+          lying_systolic?: number;
+          notes?: string | null;
+          patient_id?: string;
+          standing_1_diastolic?: number;
+          standing_1_heart_rate?: number | null;
+          standing_1_systolic?: number;
+          standing_3_diastolic?: number | null;
+          standing_3_heart_rate?: number | null;
+          standing_3_systolic?: number | null;
+          started_at?: string;
+          stood_at?: string;
+          symptomatic?: boolean;
+          systolic_drop?: never;
+        };
+        Relationships: [];
+      };
+      outbound_messages: {
+        Row: {
+          body: string;
+          caregiver_alert_id: string | null;
+          channel: string;
+          created_at: string;
+          error: string | null;
+          id: string;
+          provider: string | null;
+          provider_message_id: string | null;
+          recipient: string;
+          status: string;
+          subject: string;
+          user_id: string;
+        };
+        Insert: {
+          body: string;
+          caregiver_alert_id?: string | null;
+          channel: string;
+          created_at?: string;
+          error?: string | null;
+          id?: string;
+          provider?: string | null;
+          provider_message_id?: string | null;
+          recipient: string;
+          status: string;
+          subject: string;
+          user_id: string;
+        };
+        Update: {
+          body?: string;
+          caregiver_alert_id?: string | null;
+          channel?: string;
+          created_at?: string;
+          error?: string | null;
+          id?: string;
+          provider?: string | null;
+          provider_message_id?: string | null;
+          recipient?: string;
+          status?: string;
+          subject?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'outbound_messages_caregiver_alert_id_fkey';
+            columns: ['caregiver_alert_id'];
+            isOneToOne: false;
+            referencedRelation: 'caregiver_alerts';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      patient_caregiver_connections: {
+        Row: {
+          caregiver_id: string;
+          connection_status: string;
+          created_at: string | null;
+          id: string;
+          patient_id: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          caregiver_id: string;
+          connection_status?: string;
+          created_at?: string | null;
+          id?: string;
+          patient_id: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          caregiver_id?: string;
+          connection_status?: string;
+          created_at?: string | null;
+          id?: string;
+          patient_id?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      patient_metric_targets: {
+        Row: {
+          category_id: string;
+          patient_id: string;
+          target_max: number | null;
+          target_min: number | null;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          category_id: string;
+          patient_id: string;
+          target_max?: number | null;
+          target_min?: number | null;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          category_id?: string;
+          patient_id?: string;
+          target_max?: number | null;
+          target_min?: number | null;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'patient_metric_targets_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'health_metric_categories';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      profiles: {
+        Row: {
+          avatar_url: string | null;
+          created_at: string;
+          date_of_birth: string | null;
+          diagnosis_date: string | null;
+          email: string | null;
+          emergency_contact: string | null;
+          first_name: string | null;
+          full_name: string | null;
+          gender: string | null;
+          id: string;
+          last_name: string | null;
+          medication_sensitivity: string | null;
+          phone_number: string | null;
+          preferences: Json | null;
+          profile_setup_complete: boolean | null;
+          role: string | null;
+          updated_at: string;
+          user_type: string | null;
+        };
+        Insert: {
+          avatar_url?: string | null;
+          created_at?: string;
+          date_of_birth?: string | null;
+          diagnosis_date?: string | null;
+          email?: string | null;
+          emergency_contact?: string | null;
+          first_name?: string | null;
+          full_name?: string | null;
+          gender?: string | null;
+          id: string;
+          last_name?: string | null;
+          medication_sensitivity?: string | null;
+          phone_number?: string | null;
+          preferences?: Json | null;
+          profile_setup_complete?: boolean | null;
+          role?: string | null;
+          updated_at?: string;
+          user_type?: string | null;
+        };
+        Update: {
+          avatar_url?: string | null;
+          created_at?: string;
+          date_of_birth?: string | null;
+          diagnosis_date?: string | null;
+          email?: string | null;
+          emergency_contact?: string | null;
+          first_name?: string | null;
+          full_name?: string | null;
+          gender?: string | null;
+          id?: string;
+          last_name?: string | null;
+          medication_sensitivity?: string | null;
+          phone_number?: string | null;
+          preferences?: Json | null;
+          profile_setup_complete?: boolean | null;
+          role?: string | null;
+          updated_at?: string;
+          user_type?: string | null;
+        };
+        Relationships: [];
+      };
+      sos_requests: {
+        Row: {
+          caregiver_count: number;
+          context: Json;
+          created_at: string;
+          id: string;
+          incident_id: string;
+          last_notified_at: string;
+          notify_count: number;
+          patient_id: string;
+        };
+        Insert: {
+          caregiver_count?: number;
+          context?: Json;
+          created_at?: string;
+          id?: string;
+          incident_id: string;
+          last_notified_at?: string;
+          notify_count?: number;
+          patient_id: string;
+        };
+        Update: {
+          caregiver_count?: number;
+          context?: Json;
+          created_at?: string;
+          id?: string;
+          incident_id?: string;
+          last_notified_at?: string;
+          notify_count?: number;
+          patient_id?: string;
+        };
+        Relationships: [];
+      };
+      symptom_logs: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          notes: string | null;
+          patient_id: string;
+          recorded_at: string;
+          severity: number;
+          symptom_type: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          notes?: string | null;
+          patient_id: string;
+          recorded_at?: string;
+          severity: number;
+          symptom_type?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          notes?: string | null;
+          patient_id?: string;
+          recorded_at?: string;
+          severity?: number;
+          symptom_type?: string | null;
+        };
+        Relationships: [];
+      };
+      user_devices: {
+        Row: {
+          created_at: string;
+          device_id: string;
+          device_name: string | null;
+          enabled: boolean;
+          id: string;
+          last_seen_at: string;
+          platform: string;
+          push_token: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          device_id: string;
+          device_name?: string | null;
+          enabled?: boolean;
+          id?: string;
+          last_seen_at?: string;
+          platform?: string;
+          push_token?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          device_id?: string;
+          device_name?: string | null;
+          enabled?: boolean;
+          id?: string;
+          last_seen_at?: string;
+          platform?: string;
+          push_token?: string | null;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      alert_backup_caregivers: {
+        Args: { p_now?: string; p_timeout?: string };
+        Returns: {
+          alert_id: string;
+          caregiver_id: string;
+          patient_id: string;
+          medication_alarm_id: string | null;
+          medication_schedule_id: string | null;
+          medication_name: string;
+          dose_scheduled_time: string | null;
+          alert_message: string;
+          urgency: string;
+          alert_type: string;
+        }[];
+      };
+      claim_alert_rule: {
+        Args: { p_rule_id: string; p_previous_triggered_at: string | null; p_now?: string };
+        Returns: boolean;
+      };
+      escalate_missed_medication_alarms: {
+        Args: { p_now?: string; p_patient_id?: string | null };
+        Returns: {
+          alert_id: string;
+          caregiver_id: string;
+          patient_id: string;
+          medication_alarm_id: string;
+          medication_schedule_id: string | null;
+          medication_name: string;
+          dose_scheduled_time: string;
+          alert_message: string;
+          urgency: string;
+        }[];
+      };
+      get_care_circle: {
+        Args: { p_patient_id: string };
+        Returns: {
+          caregiver_id: string;
+          first_name: string | null;
+          last_name: string | null;
+        }[];
+      };
+      get_on_call_caregiver_ids: {
+        Args: { p_patient_id: string; p_at?: string };
+        Returns: string[];
+      };
+      get_primary_caregiver_id: {
+        Args: { p_patient_id: string };
+        Returns: string | null;
+      };
+      prune_stale_user_devices: {
+        Args: { p_max_age?: string };
+        Returns: number;
+      };
+      register_user_device: {
+        Args: { p_device_id: string; p_platform: string; p_device_name?: string | null; p_push_token?: string | null };
+        Returns: Database['public']['Tables']['user_devices']['Row'];
+      };
+      respond_to_caregiver_alert: {
+        Args: { p_alert_id: string; p_status: string; p_note?: string | null };
+        Returns: {
+          incident_id: string;
+          patient_id: string;
+          status: string;
+          changed: boolean;
+          actor_name: string;
+          alert_message: string;
+        }[];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row'];
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert'];
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update'];
@@ -0,0 +1,27 @@
+// profiles.emergency_contact is free text ("Anna (daughter) +44 7700 900123",
+// "call 555-0134 - John"). The first run of at least seven digits, with the usual
+// separators, is taken as the number to dial; whatever text is left names the contact.
+
+export interface EmergencyContact {
+  name: string | null;
+  phoneNumber: string | null; // Digits with an optional leading +, ready for a tel: link
+}
+
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{5,}\d/;
+
+export const parseEmergencyContact = (text: string | null | undefined): EmergencyContact | null => {
+  const trimmed = text?.trim();
+  if (!trimmed) return null;
+
+  const match = trimmed.match(PHONE_PATTERN);
+  const digits = match ? match[0].replace(/[^\d+]/g, '') : '';
+  const phoneNumber = digits.replace(/\D/g, '').length >= 7 ? digits : null;
+
+  const name = (phoneNumber && match ? trimmed.replace(match[0], '') : trimmed)
+    .replace(/^\s*call\s+/i, '')
+    .replace(/^[\s,:;-]+|[\s,:;-]+$/g, '');
+
+  return { name: name || null, phoneNumber };
+};
+
+export const toDialUrl = (phoneNumber: string): string => `tel:${phoneNumber}`;
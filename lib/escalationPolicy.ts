@@ -0,0 +1,185 @@
+import { addMinutes } from 'date-fns';
+
+// How an unanswered dose escalates: an ordered list of steps, each firing delayMinutes
+// after the dose was due unless the dose has been answered by then. Patient steps are
+// local alarms on the patient's device; caregiver steps are raised server-side by the
+// escalate-missed-doses function from the dose's medication_alarms rows.
+//
+// A medication without a stored policy (medications.escalation_policy is null) follows
+// the default policy, built from the patient's notification settings.
+
+export type EscalationTarget = 'patient' | 'primary_caregiver' | 'all_caregivers';
+
+export type EscalationUrgency = 'normal' | 'high' | 'critical';
+
+export interface EscalationStep {
+  delayMinutes: number; // After the dose was due
+  target: EscalationTarget;
+  urgency: EscalationUrgency;
+  title: string; // Templates, see renderEscalationTemplate
+  message: string;
+}
+
+export interface EscalationPolicy {
+  steps: EscalationStep[];
+}
+
+// The parts of the patient's notification settings the default policy is built from
+export interface ReminderTiming {
+  snoozeMinutes: number;
+  caregiverAlertDelay: number;
+  maxAttempts: number;
+}
+
+export type EscalationPresetId = 'time_critical' | 'relaxed';
+
+export const MAX_ESCALATION_STEPS = 8;
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget, string> = {
+  patient: 'You',
+  primary_caregiver: 'On-call caregiver',
+  all_caregivers: 'All caregivers',
+};
+
+export const ESCALATION_URGENCY_LABELS: Record<EscalationUrgency, string> = {
+  normal: 'Normal',
+  high: 'High',
+  critical: 'Critical',
+};
+
+const TARGETS: EscalationTarget[] = ['patient', 'primary_caregiver', 'all_caregivers'];
+const URGENCIES: EscalationUrgency[] = ['normal', 'high', 'critical'];
+
+const REMINDER: Omit<EscalationStep, 'delayMinutes'> = {
+  target: 'patient',
+  urgency: 'normal',
+  title: '💊 Medication Reminder: {medication}',
+  message: 'Time to take your {dose}',
+};
+
+const SECOND_REMINDER: Omit<EscalationStep, 'delayMinutes'> = {
+  target: 'patient',
+  urgency: 'high',
+  title: '🔔 Second Reminder',
+  message: 'This is your second reminder to take your {medication}',
+};
+
+const LAST_REMINDER: Omit<EscalationStep, 'delayMinutes'> = {
+  target: 'patient',
+  urgency: 'critical',
+  title: '🚨 LAST REMINDER - URGENT',
+  message: 'LAST REMINDER: You need to take your {medication} NOW or contact your caregiver immediately',
+};
+
+const caregiverAlert = (target: EscalationTarget, urgency: EscalationUrgency): Omit<EscalationStep, 'delayMinutes'> => ({
+  target,
+  urgency,
+  title: urgency === 'critical' ? '🚨 URGENT MEDICATION ALERT' : '🚨 MEDICATION ALERT',
+  message: "🚨 {patient} hasn't taken {medication} scheduled for {time}",
+});
+
+// The original flow: up to three reminders a snooze apart, then every caregiver
+export const buildDefaultEscalationPolicy = (timing: ReminderTiming): EscalationPolicy => {
+  const reminders = [REMINDER, SECOND_REMINDER, LAST_REMINDER].slice(0, Math.min(3, Math.max(1, timing.maxAttempts)));
+  return {
+    steps: [
+      ...reminders.map((step, index) => ({ ...step, delayMinutes: timing.snoozeMinutes * index })),
+      { ...caregiverAlert('all_caregivers', 'critical'), delayMinutes: timing.caregiverAlertDelay },
+    ],
+  };
+};
+
+export const ESCALATION_PRESETS: Record<EscalationPresetId, { label: string; description: string; policy: EscalationPolicy }> = {
+  // Levodopa and other doses where being late matters
+  time_critical: {
+    label: 'Time-critical',
+    description: 'Reminders every 5 minutes, then the on-call caregiver at 15 minutes and everyone at 30',
+    policy: {
+      steps: [
+        { ...REMINDER, delayMinutes: 0 },
+        { ...SECOND_REMINDER, delayMinutes: 5 },
+        { ...LAST_REMINDER, delayMinutes: 10 },
+        { ...caregiverAlert('primary_caregiver', 'high'), delayMinutes: 15 },
+        { ...caregiverAlert('all_caregivers', 'critical'), delayMinutes: 30 },
+      ],
+    },
+  },
+  // Supplements and other doses that can wait
+  relaxed: {
+    label: 'Relaxed',
+    description: 'One reminder, a second after an hour, and no caregiver alerts',
+    policy: {
+      steps: [
+        { ...REMINDER, delayMinutes: 0 },
+        { ...SECOND_REMINDER, delayMinutes: 60 },
+      ],
+    },
+  },
+};
+
+const isValidStep = (step: unknown): step is EscalationStep => {
+  if (!step || typeof step !== 'object') return false;
+  const { delayMinutes, target, urgency, title, message } = step as Record<string, unknown>;
+  return (
+    typeof delayMinutes === 'number' &&
+    Number.isFinite(delayMinutes) &&
+    delayMinutes >= 0 &&
+    TARGETS.includes(target as EscalationTarget) &&
+    URGENCIES.includes(urgency as EscalationUrgency) &&
+    typeof title === 'string' &&
+    typeof message === 'string'
+  );
+};
+
+// A stored policy, steps in firing order; anything malformed reads as "no policy"
+export const parseEscalationPolicy = (value: unknown): EscalationPolicy | null => {
+  if (!value || typeof value !== 'object') return null;
+  const steps = (value as { steps?: unknown }).steps;
+  if (!Array.isArray(steps) || steps.length === 0 || !steps.every(isValidStep)) return null;
+  return { steps: [...steps].sort((a, b) => a.delayMinutes - b.delayMinutes).slice(0, MAX_ESCALATION_STEPS) };
+};
+
+export const resolveEscalationPolicy = (stored: unknown, timing: ReminderTiming): EscalationPolicy =>
+  parseEscalationPolicy(stored) ?? buildDefaultEscalationPolicy(timing);
+
+export const findEscalationPreset = (policy: EscalationPolicy | null): EscalationPresetId | null =>
+  (Object.keys(ESCALATION_PRESETS) as EscalationPresetId[]).find(
+    id => JSON.stringify(ESCALATION_PRESETS[id].policy) === JSON.stringify(policy)
+  ) ?? null;
+
+export const isCaregiverStep = (step: EscalationStep): boolean => step.target !== 'patient';
+
+export const getEscalationStepTime = (intendedDoseTime: Date, step: EscalationStep): Date =>
+  addMinutes(intendedDoseTime, step.delayMinutes);
+
+// How far past its due time a dose can still have steps ahead of it
+export const getEscalationSpan = (policy: EscalationPolicy): number =>
+  Math.max(0, ...policy.steps.map(step => step.delayMinutes));
+
+export interface EscalationTemplateValues {
+  medication: string;
+  dose: string; // "2 tablets of Sinemet", or just the name when there is no dosage
+  patient: string;
+  time: string;
+}
+
+export const getEscalationTemplateValues = (
+  medicationName: string,
+  dosage: string | null | undefined,
+  patientName: string,
+  time: string
+): EscalationTemplateValues => ({
+  medication: medicationName,
+  dose: dosage ? `${dosage} of ${medicationName}` : medicationName,
+  patient: patientName,
+  time,
+});
+
+// Replaces {medication}, {dose}, {patient} and {time}; unknown placeholders are left as written
+export const renderEscalationTemplate = (template: string, values: EscalationTemplateValues): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? values[key as keyof EscalationTemplateValues] : placeholder
+  );
+
+export const describeEscalationStep = (step: EscalationStep): string =>
+  `${step.delayMinutes === 0 ? 'When due' : `After ${step.delayMinutes} min`}: ${ESCALATION_TARGET_LABELS[step.target]} (${ESCALATION_URGENCY_LABELS[step.urgency].toLowerCase()})`;
@@ -0,0 +1,154 @@
+import {
+  DRUGS,
+  DRUG_CLASSES,
+  DrugClassId,
+  DrugEntry,
+  INTERACTION_RULES,
+  InteractionRule,
+  InteractionSeverity,
+  InteractionTarget,
+} from './data/medicationInteractions';
+
+// Medication safety checks against the bundled dataset. Names are free text, so
+// matching is by whole words against generic and brand names.
+
+export type MedicationWarningKind = 'interaction' | 'sensitivity';
+
+export interface MedicationWarning {
+  kind: MedicationWarningKind;
+  severity: InteractionSeverity;
+  medicationName: string; // The medication being saved
+  otherMedicationName?: string; // For interactions
+  sensitivity?: string; // For sensitivity conflicts, as the patient wrote it
+  ruleId?: string;
+  summary: string;
+  recommendation: string;
+}
+
+export interface ResolvedMedication {
+  name: string;
+  drugs: DrugEntry[];
+  classes: Set<DrugClassId>;
+}
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = {
+  contraindicated: 0,
+  major: 1,
+  moderate: 2,
+};
+
+export const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  contraindicated: 'Do not combine',
+  major: 'Serious',
+  moderate: 'Use caution',
+};
+
+const normalize = (text: string): string =>
+  ` ${text.toLowerCase().replace(/['’.]/g, '').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const containsTerm = (text: string, term: string): boolean => {
+  const normalizedTerm = normalize(term).trim();
+  return normalizedTerm.length > 0 && normalize(text).includes(` ${normalizedTerm} `);
+};
+
+const drugTerms = (drug: DrugEntry): string[] => [drug.name, drug.id.replace(/_/g, ' '), ...drug.aliases];
+
+export const resolveMedication = (name: string): ResolvedMedication => {
+  const drugs = DRUGS.filter(drug => drugTerms(drug).some(term => containsTerm(name, term)));
+  // "Carbidopa/levodopa/entacapone" also matches the plain carbidopa/levodopa entry; keep the most specific
+  const specific = drugs.filter(
+    drug => !drugs.some(other => other !== drug && other.classes.length > drug.classes.length && drug.classes.every(c => other.classes.includes(c)))
+  );
+  return { name, drugs: specific, classes: new Set(specific.flatMap(drug => drug.classes)) };
+};
+
+const matchesTarget = (medication: ResolvedMedication, target: InteractionTarget): boolean =>
+  'classId' in target
+    ? medication.classes.has(target.classId)
+    : medication.drugs.some(drug => drug.id === target.drugId);
+
+const isSameDrug = (a: ResolvedMedication, b: ResolvedMedication): boolean =>
+  a.drugs.some(drug => b.drugs.some(other => other.id === drug.id));
+
+const ruleApplies = (rule: InteractionRule, a: ResolvedMedication, b: ResolvedMedication): boolean => {
+  const [first, second] = rule.between;
+  return (matchesTarget(a, first) && matchesTarget(b, second)) || (matchesTarget(a, second) && matchesTarget(b, first));
+};
+
+export const findInteractions = (medicationName: string, otherMedicationNames: string[]): MedicationWarning[] => {
+  const medication = resolveMedication(medicationName);
+  if (medication.drugs.length === 0) return [];
+
+  return otherMedicationNames.flatMap(otherName => {
+    const other = resolveMedication(otherName);
+    // The same drug listed twice (e.g. an IR and an ER formulation) is not an interaction
+    if (other.drugs.length === 0 || isSameDrug(medication, other)) return [];
+
+    return INTERACTION_RULES.filter(rule => ruleApplies(rule, medication, other)).map(rule => ({
+      kind: 'interaction' as const,
+      severity: rule.severity,
+      medicationName,
+      otherMedicationName: otherName,
+      ruleId: rule.id,
+      summary: rule.summary,
+      recommendation: rule.recommendation,
+    }));
+  });
+};
+
+// profiles.medication_sensitivity is free text; entries are separated by commas, semicolons or new lines
+export const parseSensitivities = (text: string | null | undefined): string[] =>
+  (text ?? '')
+    .split(/[,;\n]+/)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+
+export const findSensitivityConflicts = (medicationName: string, sensitivityText: string | null | undefined): MedicationWarning[] => {
+  const medication = resolveMedication(medicationName);
+
+  return parseSensitivities(sensitivityText).flatMap((sensitivity): MedicationWarning[] => {
+    // Direct match: the sensitivity names this drug or one of its brands
+    if (containsTerm(medicationName, sensitivity) || medication.drugs.some(drug => drugTerms(drug).some(term => containsTerm(sensitivity, term)))) {
+      return [{
+        kind: 'sensitivity',
+        severity: 'contraindicated',
+        medicationName,
+        sensitivity,
+        summary: `You have recorded a sensitivity to ${sensitivity}.`,
+        recommendation: 'Confirm with the prescriber before taking this medication.',
+      }];
+    }
+
+    // Class match: the sensitivity names a drug class, or another drug in the same class
+    const sensitiveClasses = new Set<DrugClassId>([
+      ...DRUG_CLASSES.filter(c => [c.label, ...c.aliases].some(term => containsTerm(sensitivity, term))).map(c => c.id),
+      ...resolveMedication(sensitivity).classes,
+    ]);
+    const shared = [...medication.classes].filter(c => sensitiveClasses.has(c));
+    if (shared.length === 0) return [];
+
+    const classLabel = DRUG_CLASSES.find(c => c.id === shared[0])?.label ?? shared[0];
+    return [{
+      kind: 'sensitivity',
+      severity: 'major',
+      medicationName,
+      sensitivity,
+      summary: `This medication belongs to the same group (${classLabel}) as your recorded sensitivity to ${sensitivity}.`,
+      recommendation: 'Cross-reactions within a drug group are possible. Check with the prescriber.',
+    }];
+  });
+};
+
+// Everything worth warning about when saving a medication, most severe first
+export const checkMedicationSafety = (
+  medicationName: string,
+  otherMedicationNames: string[],
+  sensitivityText: string | null | undefined
+): MedicationWarning[] =>
+  [...findSensitivityConflicts(medicationName, sensitivityText), ...findInteractions(medicationName, otherMedicationNames)]
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+export const formatWarning = (warning: MedicationWarning): string =>
+  warning.kind === 'interaction'
+    ? `${SEVERITY_LABELS[warning.severity]}: ${warning.medicationName} + ${warning.otherMedicationName}. ${warning.summary}`
+    : `${SEVERITY_LABELS[warning.severity]}: ${warning.medicationName} and your sensitivity to ${warning.sensitivity}. ${warning.summary}`;
@@ -0,0 +1,83 @@
+import { addDays, differenceInCalendarDays, format, setHours, startOfDay, subDays } from 'date-fns';
+import { Medication } from './repositories/MedicationRepository';
+import { ScheduleRule, expandRuleForDay } from './scheduleRules';
+
+// Pill inventory projections. Stock itself is decremented by database triggers when
+// a dose is logged as taken; this module only works out how long it will last.
+
+export type StockStatus = 'untracked' | 'ok' | 'refill_soon' | 'critical' | 'out';
+
+// Caregivers are alerted once stock covers this many days or fewer
+export const CRITICAL_STOCK_DAYS = 3;
+
+// Refill reminders are delivered at this local hour
+export const REFILL_REMINDER_HOUR = 9;
+
+const PROJECTION_HORIZON_DAYS = 366;
+
+export type InventoryFields = Pick<
+  Medication,
+  'stock_count' | 'pills_per_dose' | 'refill_reminder_days' | 'start_date' | 'end_date'
+>;
+
+export interface StockProjection {
+  status: StockStatus;
+  dosesRemaining: number | null;
+  // Day of the first scheduled dose the stock cannot cover. Null when stock is not
+  // tracked, or when it outlasts the schedule (as-needed only, or an end date first).
+  runOutDate: Date | null;
+  daysRemaining: number | null;
+}
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  untracked: 'Not tracked',
+  ok: 'In stock',
+  refill_soon: 'Refill soon',
+  critical: 'Running out',
+  out: 'Out of stock',
+};
+
+export const projectStock = (medication: InventoryFields, rules: ScheduleRule[], now: Date = new Date()): StockProjection => {
+  if (medication.stock_count === null) {
+    return { status: 'untracked', dosesRemaining: null, runOutDate: null, daysRemaining: null };
+  }
+
+  const dosesRemaining = Math.floor(medication.stock_count / medication.pills_per_dose);
+  const today = startOfDay(now);
+  let runOutDate: Date | null = null;
+  let dosesNeeded = 0;
+
+  for (let i = 0; i < PROJECTION_HORIZON_DAYS && !runOutDate; i++) {
+    const day = addDays(today, i);
+    const dateString = format(day, 'yyyy-MM-dd');
+    if (medication.end_date && dateString > medication.end_date) break;
+    if (medication.start_date && dateString < medication.start_date) continue;
+
+    dosesNeeded += rules.flatMap(rule => expandRuleForDay(rule, day)).filter(o => o.time > now).length;
+    if (dosesNeeded > dosesRemaining) runOutDate = day;
+  }
+
+  const daysRemaining = runOutDate ? differenceInCalendarDays(runOutDate, today) : null;
+  const status: StockStatus =
+    dosesRemaining === 0 ? 'out' :
+    daysRemaining !== null && daysRemaining <= CRITICAL_STOCK_DAYS ? 'critical' :
+    daysRemaining !== null && daysRemaining <= medication.refill_reminder_days ? 'refill_soon' :
+    'ok';
+
+  return { status, dosesRemaining, runOutDate, daysRemaining };
+};
+
+// refill_reminder_days before the run-out day, in the morning
+export const getRefillReminderDate = (projection: StockProjection, refillReminderDays: number): Date | null =>
+  projection.runOutDate ? setHours(subDays(projection.runOutDate, refillReminderDays), REFILL_REMINDER_HOUR) : null;
+
+export const isLowStock = (projection: StockProjection): boolean =>
+  projection.status === 'critical' || projection.status === 'out';
+
+// "12 left · runs out Aug 3"
+export const describeStock = (medication: Pick<Medication, 'stock_count'>, projection: StockProjection): string | null => {
+  if (medication.stock_count === null) return null;
+  const left = `${medication.stock_count} left`;
+  if (projection.status === 'out') return `${left} · ${STOCK_STATUS_LABELS.out.toLowerCase()}`;
+  return projection.runOutDate ? `${left} · runs out ${format(projection.runOutDate, 'MMM d')}` : left;
+};
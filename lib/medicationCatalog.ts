@@ -0,0 +1,137 @@
+import { CatalogEntry, CatalogStrength, DoseForm, DoseUnit, MEDICATION_CATALOG, ReleaseType } from './data/medicationCatalog';
+
+export const DOSE_FORM_LABELS: Record<DoseForm, string> = {
+  tablet: 'Tablet',
+  capsule: 'Capsule',
+  orally_disintegrating_tablet: 'Dissolving tablet',
+  sublingual_film: 'Film',
+  patch: 'Patch',
+  injection: 'Injection',
+  inhalation: 'Inhaler',
+  enteral_suspension: 'Gel (pump)',
+  subcutaneous_infusion: 'Infusion',
+};
+
+export const DOSE_UNITS: DoseUnit[] = ['mg', 'mcg', 'mg/24h', 'mL'];
+
+export const RELEASE_LABELS: Record<ReleaseType, string> = {
+  immediate: 'IR',
+  extended: 'ER',
+  controlled: 'CR',
+};
+
+export interface StructuredDose {
+  catalogId: string | null;
+  amount: number | null;
+  unit: DoseUnit | null;
+  form: DoseForm | null;
+}
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const getCatalogEntry = (id: string | null | undefined): CatalogEntry | undefined =>
+  id ? MEDICATION_CATALOG.find(entry => entry.id === id) : undefined;
+
+// "Carbidopa/levodopa ER (Rytary)"
+export const getCatalogDisplayName = (entry: CatalogEntry): string => {
+  const release = entry.release === 'immediate' ? '' : ` ${RELEASE_LABELS[entry.release]}`;
+  return `${entry.genericName}${release} (${entry.brandNames.join(', ')})`;
+};
+
+export const formatStrength = (entry: CatalogEntry, strength: CatalogStrength): string =>
+  `${strength.label} ${entry.unit}`;
+
+export const formatStructuredDose = (dose: Pick<StructuredDose, 'amount' | 'unit' | 'form'>): string =>
+  [dose.amount != null && dose.unit ? `${dose.amount} ${dose.unit}` : null, dose.form ? DOSE_FORM_LABELS[dose.form].toLowerCase() : null]
+    .filter(Boolean)
+    .join(' ');
+
+const scoreEntry = (entry: CatalogEntry, query: string): number => {
+  const brands = entry.brandNames.map(normalize);
+  const generic = normalize(entry.genericName);
+  if (brands.includes(query)) return 0;
+  if (brands.some(brand => brand.startsWith(query))) return 1;
+  if (generic.startsWith(query)) return 2;
+  if (generic.split(' ').some(word => word.startsWith(query))) return 3;
+  if (brands.some(brand => brand.includes(query)) || generic.includes(query)) return 4;
+  return -1;
+};
+
+// Brand and generic prefix matches first, then substring matches
+export const searchCatalog = (query: string, limit = 6): CatalogEntry[] => {
+  const normalized = normalize(query);
+  if (normalized.length < 2) return [];
+
+  return MEDICATION_CATALOG
+    .map(entry => ({ entry, score: scoreEntry(entry, normalized) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || a.entry.genericName.localeCompare(b.entry.genericName))
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
+
+const ORAL_FORMS: DoseForm[] = ['tablet', 'capsule', 'orally_disintegrating_tablet'];
+
+const detectRelease = (text: string): ReleaseType => {
+  if (/\b(cr|hbs|controlled)\b/.test(text)) return 'controlled';
+  if (/\b(er|xl|xr|sr|la|extended|sustained)\b/.test(text)) return 'extended';
+  return 'immediate';
+};
+
+const containsWords = (text: string, term: string): boolean => ` ${text} `.includes(` ${normalize(term)} `);
+
+// Best-effort mapping of a free-text name to a catalog entry, used for rows saved
+// before the catalog existed. Brand names win (longest first, so "Sinemet CR"
+// beats "Sinemet"); otherwise generics are matched by ingredient, preferring
+// oral forms with the release type the text asks for.
+export const matchCatalogEntry = (name: string): CatalogEntry | undefined => {
+  const text = normalize(name);
+
+  const brandHits = MEDICATION_CATALOG.flatMap(entry =>
+    entry.brandNames.filter(brand => containsWords(text, brand)).map(brand => ({ entry, length: brand.length }))
+  );
+  if (brandHits.length > 0) {
+    return brandHits.sort((a, b) => b.length - a.length)[0].entry;
+  }
+
+  const release = detectRelease(text);
+  const ranked = MEDICATION_CATALOG
+    .map(entry => {
+      const ingredients = entry.genericName.split('/');
+      const present = ingredients.filter(ingredient => containsWords(text, ingredient)).length;
+      return { entry, present, total: ingredients.length };
+    })
+    .filter(({ present }) => present > 0)
+    .map(({ entry, present, total }) => ({
+      entry,
+      rank: [
+        ORAL_FORMS.includes(entry.form) ? 0 : 1,
+        present === total ? 0 : 1,
+        entry.release === release ? 0 : entry.release !== 'immediate' && release !== 'immediate' ? 1 : 2,
+        entry.form === 'orally_disintegrating_tablet' ? 1 : 0,
+      ],
+    }));
+
+  ranked.sort((a, b) => {
+    for (let i = 0; i < a.rank.length; i++) {
+      if (a.rank[i] !== b.rank[i]) return a.rank[i] - b.rank[i];
+    }
+    return 0;
+  });
+  return ranked[0]?.entry;
+};
+
+// Pulls "100 mg" or "25/100" out of a free-text dosage
+export const parseDoseAmount = (dosage: string, entry?: CatalogEntry): Pick<StructuredDose, 'amount' | 'unit'> => {
+  if (entry) {
+    const strength = entry.strengths.find(s => containsWords(normalize(dosage), s.label));
+    if (strength) return { amount: strength.amount, unit: entry.unit };
+  }
+
+  const match = dosage.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(mcg|mg\/24h|mg|ml)\b/);
+  if (!match) return { amount: null, unit: entry?.unit ?? null };
+  const unit = DOSE_UNITS.find(u => u.toLowerCase() === match[2]) ?? null;
+  return { amount: Number(match[1]), unit };
+};
+
+export type { CatalogEntry, CatalogStrength, DoseForm, DoseUnit, ReleaseType };
@@ -0,0 +1,162 @@
+import { HealthMetricCategory, HealthMetricWithCategory, PatientMetricTarget } from './repositories/MetricRepository';
+
+// What a patient tracks: the shared health_metric_categories plus the patient's own,
+// each with how it is entered, its icon, its group and the range it is judged by.
+// Categories in one group (systolic and diastolic blood pressure) are entered in one
+// form and drawn in one chart. A patient's target range, when set, replaces the
+// category's normal range everywhere a reading is judged.
+
+export type MetricInputType = 'integer' | 'decimal';
+
+export interface MetricRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface MetricDefinition {
+  id: string;
+  name: string;
+  unit: string | null;
+  inputType: MetricInputType;
+  icon: string;
+  group: string;
+  sortOrder: number;
+  patientId: string | null; // Set for the patient's own categories
+  archived: boolean;
+  normalRange: MetricRange | null;
+  target: MetricRange | null;
+}
+
+export interface MetricGroup {
+  name: string;
+  icon: string;
+  definitions: MetricDefinition[];
+}
+
+export interface EffectiveRange extends MetricRange {
+  personal: boolean;
+}
+
+export type RangeStatus = 'low' | 'high' | null;
+
+export const DEFAULT_METRIC_ICON = 'chart-line';
+
+export const METRIC_INPUT_TYPE_LABELS: Record<MetricInputType, string> = {
+  integer: 'Whole number',
+  decimal: 'Decimal',
+};
+
+export const METRIC_ICON_CHOICES = [
+  'chart-line',
+  'heart',
+  'heart-pulse',
+  'thermometer',
+  'walk',
+  'cup-water',
+  'lungs',
+  'water',
+  'scale-bathroom',
+  'emoticon-outline',
+];
+
+export const METRIC_TEMPLATES: { name: string; unit: string; inputType: MetricInputType; icon: string; target: MetricRange | null }[] = [
+  { name: 'Heart Rate', unit: 'bpm', inputType: 'integer', icon: 'heart', target: { min: 60, max: 100 } },
+  { name: 'Body Temperature', unit: '°C', inputType: 'decimal', icon: 'thermometer', target: { min: 36.1, max: 37.5 } },
+  { name: 'Steps', unit: 'steps', inputType: 'integer', icon: 'walk', target: { min: 4000, max: null } },
+  { name: 'Fluid Intake', unit: 'ml', inputType: 'integer', icon: 'cup-water', target: { min: 1500, max: null } },
+  { name: 'Oxygen Saturation', unit: '%', inputType: 'integer', icon: 'lungs', target: { min: 94, max: null } },
+];
+
+const toRange = (min: number | null, max: number | null): MetricRange | null =>
+  min === null && max === null ? null : { min, max };
+
+export const toMetricDefinition = (category: HealthMetricCategory, target?: PatientMetricTarget): MetricDefinition => ({
+  id: category.id,
+  name: category.name,
+  unit: category.unit,
+  inputType: category.input_type === 'integer' ? 'integer' : 'decimal',
+  icon: category.icon || DEFAULT_METRIC_ICON,
+  group: category.group_name || category.name,
+  sortOrder: category.sort_order,
+  patientId: category.patient_id,
+  archived: category.archived,
+  normalRange: toRange(category.normal_range_min, category.normal_range_max),
+  target: target ? toRange(target.target_min, target.target_max) : null,
+});
+
+export const buildMetricDefinitions = (categories: HealthMetricCategory[], targets: PatientMetricTarget[]): MetricDefinition[] =>
+  categories
+    .map(category => toMetricDefinition(category, targets.find(target => target.category_id === category.id)))
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+
+// Groups in the order of their first definition; definitions keep their order
+export const groupMetricDefinitions = (definitions: MetricDefinition[]): MetricGroup[] => {
+  const groups: MetricGroup[] = [];
+  definitions.forEach(definition => {
+    const group = groups.find(candidate => candidate.name === definition.group);
+    if (group) {
+      group.definitions.push(definition);
+    } else {
+      groups.push({ name: definition.group, icon: definition.icon, definitions: [definition] });
+    }
+  });
+  return groups;
+};
+
+// "Blood Pressure Systolic" in the "Blood Pressure" group -> "Systolic"
+export const getFieldLabel = (definition: MetricDefinition): string => {
+  if (definition.group === definition.name || !definition.name.startsWith(definition.group)) return definition.name;
+  return definition.name.slice(definition.group.length).trim() || definition.name;
+};
+
+export const getEffectiveRange = (definition: MetricDefinition): EffectiveRange | null => {
+  if (definition.target) return { ...definition.target, personal: true };
+  return definition.normalRange ? { ...definition.normalRange, personal: false } : null;
+};
+
+export const getRangeStatus = (value: number, range: MetricRange | null): RangeStatus => {
+  if (!range) return null;
+  if (range.min !== null && value < range.min) return 'low';
+  if (range.max !== null && value > range.max) return 'high';
+  return null;
+};
+
+export const formatMetricValue = (value: number, unit: string | null): string => `${value} ${unit ?? ''}`.trim();
+
+export const formatMetricRange = (range: MetricRange, unit: string | null): string => {
+  const suffix = unit ? ` ${unit}` : '';
+  if (range.min !== null && range.max !== null) return `${range.min}–${range.max}${suffix}`;
+  return range.min !== null ? `at least ${range.min}${suffix}` : `at most ${range.max}${suffix}`;
+};
+
+// Typed input, or null when it is not a number of the definition's input type
+export const parseMetricInput = (text: string, inputType: MetricInputType): number | null => {
+  const trimmed = text.trim().replace(',', '.');
+  if (trimmed === '') return null;
+  const value = Number(trimmed);
+  if (!Number.isFinite(value)) return null;
+  return inputType === 'integer' && !Number.isInteger(value) ? null : value;
+};
+
+// An empty field means no bound, so two empty fields give null (no range)
+export const parseMetricRange = (min: string, max: string): MetricRange | null | 'invalid' => {
+  const parse = (text: string) => (text.trim() === '' ? null : Number(text.trim().replace(',', '.')));
+  const range = { min: parse(min), max: parse(max) };
+  if ([range.min, range.max].some(bound => bound !== null && !Number.isFinite(bound))) return 'invalid';
+  if (range.min !== null && range.max !== null && range.min > range.max) return 'invalid';
+  return toRange(range.min, range.max);
+};
+
+// Readings whose category the patient has a target for are judged by the target
+export const applyPersonalRanges = (
+  metrics: HealthMetricWithCategory[],
+  definitions: MetricDefinition[]
+): HealthMetricWithCategory[] =>
+  metrics.map(metric => {
+    const target = definitions.find(definition => definition.id === metric.category_id)?.target;
+    if (!target) return metric;
+    return {
+      ...metric,
+      health_metric_categories: { ...metric.health_metric_categories, normal_range_min: target.min, normal_range_max: target.max },
+    };
+  });
@@ -0,0 +1,182 @@
+import { MetricDefinition } from './metricDefinitions';
+import { HealthMetricWithCategory } from './repositories/MetricRepository';
+import { UnitPreferences, getUnitConversion, localizeDefinition } from './units';
+
+// Trends in a patient's readings, judged against the patient's own history rather than
+// population ranges. A reading's baseline is the mean and spread of the readings in
+// the 28 days before it; a reading far outside that spread stands out. Weekly changes
+// compare the last 7 days with the 7 days before.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BASELINE_DAYS = 28;
+export const MOVING_AVERAGE_DAYS = 7;
+
+// Fewer readings than this make too shaky a baseline to judge against
+export const MIN_BASELINE_READINGS = 5;
+
+// How many standard deviations from the baseline mean a reading must be to stand out
+export const ANOMALY_THRESHOLD = 2.5;
+
+// A very steady series has almost no spread, which would flag every small wobble;
+// the spread is taken to be at least this fraction of the mean
+const MIN_RELATIVE_SPREAD = 0.02;
+
+export interface MetricSample {
+  time: number; // Epoch milliseconds
+  value: number;
+}
+
+export interface MetricSeries {
+  categoryId: string;
+  label: string;
+  unit: string | null;
+  decimalPlaces: number;
+  samples: MetricSample[]; // Oldest first
+}
+
+export interface Baseline {
+  mean: number;
+  spread: number; // Standard deviation, floored by MIN_RELATIVE_SPREAD
+  count: number;
+}
+
+export interface MetricAnomaly extends MetricSample {
+  baseline: Baseline;
+  deviation: number; // Signed, in spreads from the baseline mean
+}
+
+export interface WeeklyChange {
+  current: number | null; // Mean of the last 7 days
+  previous: number | null; // Mean of the 7 days before
+  delta: number | null;
+}
+
+export interface MetricChange {
+  series: MetricSeries;
+  weekly: WeeklyChange;
+  anomalies: MetricAnomaly[]; // In the last 7 days
+  notable: boolean;
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[]): number => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+const round = (value: number, decimalPlaces: number): number => {
+  const factor = 10 ** decimalPlaces;
+  return Math.round(value * factor) / factor;
+};
+
+const between = (samples: MetricSample[], from: number, to: number) =>
+  samples.filter(sample => sample.time >= from && sample.time < to);
+
+// One series per category with readings, for categories the patient still tracks,
+// in the viewer's units
+export const buildMetricSeries = (
+  readings: HealthMetricWithCategory[],
+  definitions: MetricDefinition[],
+  units: UnitPreferences
+): MetricSeries[] =>
+  definitions
+    .filter(definition => !definition.archived)
+    .map(definition => {
+      const shown = localizeDefinition(definition, units);
+      const conversion = getUnitConversion(definition.unit, units);
+      return {
+        categoryId: definition.id,
+        label: definition.name,
+        unit: shown.unit,
+        decimalPlaces: shown.inputType === 'integer' ? 0 : 1,
+        samples: readings
+          .filter(reading => reading.category_id === definition.id && !isNaN(Number(reading.value)))
+          .map(reading => ({ time: new Date(reading.recorded_at).getTime(), value: conversion.toDisplay(Number(reading.value)) }))
+          .sort((a, b) => a.time - b.time),
+      };
+    })
+    .filter(series => series.samples.length > 0);
+
+// The baseline from the readings in the days before a moment; null with too few of them
+export const getBaseline = (samples: MetricSample[], before: number, days = BASELINE_DAYS): Baseline | null => {
+  const values = between(samples, before - days * DAY_MS, before).map(sample => sample.value);
+  if (values.length < MIN_BASELINE_READINGS) return null;
+  const average = mean(values);
+  return {
+    mean: average,
+    spread: Math.max(standardDeviation(values), Math.abs(average) * MIN_RELATIVE_SPREAD),
+    count: values.length,
+  };
+};
+
+// For each sample, the mean of the samples in the days up to and including it
+export const movingAverage = (samples: MetricSample[], days = MOVING_AVERAGE_DAYS): number[] =>
+  samples.map(sample => mean(between(samples, sample.time - days * DAY_MS, sample.time + 1).map(s => s.value)));
+
+export const findAnomalies = (samples: MetricSample[]): MetricAnomaly[] =>
+  samples.flatMap(sample => {
+    const baseline = getBaseline(samples, sample.time);
+    if (!baseline || baseline.spread === 0) return [];
+    const deviation = (sample.value - baseline.mean) / baseline.spread;
+    return Math.abs(deviation) >= ANOMALY_THRESHOLD ? [{ ...sample, baseline, deviation }] : [];
+  });
+
+export const getWeeklyChange = (samples: MetricSample[], now: Date): WeeklyChange => {
+  const end = now.getTime();
+  const currentValues = between(samples, end - 7 * DAY_MS, end + 1).map(sample => sample.value);
+  const previousValues = between(samples, end - 14 * DAY_MS, end - 7 * DAY_MS).map(sample => sample.value);
+  const current = currentValues.length > 0 ? mean(currentValues) : null;
+  const previous = previousValues.length > 0 ? mean(previousValues) : null;
+  return { current, previous, delta: current !== null && previous !== null ? current - previous : null };
+};
+
+// What changed over the last week, most notable first. A series is notable when a
+// reading stood out, or when the weekly mean moved by more than the usual spread.
+export const summarizeMetricChanges = (series: MetricSeries[], now: Date): MetricChange[] => {
+  const weekStart = now.getTime() - 7 * DAY_MS;
+  return series
+    .map(s => {
+      const weekly = getWeeklyChange(s.samples, now);
+      const anomalies = findAnomalies(s.samples).filter(anomaly => anomaly.time >= weekStart);
+      const baseline = getBaseline(s.samples, weekStart);
+      const shifted = weekly.delta !== null && baseline !== null && Math.abs(weekly.delta) >= baseline.spread;
+      return { series: s, weekly, anomalies, notable: anomalies.length > 0 || shifted };
+    })
+    .filter(change => change.weekly.current !== null)
+    .sort(
+      (a, b) =>
+        Number(b.notable) - Number(a.notable) ||
+        b.anomalies.length - a.anomalies.length ||
+        Math.abs(b.weekly.delta ?? 0) - Math.abs(a.weekly.delta ?? 0)
+    );
+};
+
+export const formatStat = (value: number, series: Pick<MetricSeries, 'unit' | 'decimalPlaces'>): string =>
+  `${round(value, series.decimalPlaces)} ${series.unit ?? ''}`.trim();
+
+export const describeAnomaly = (anomaly: MetricAnomaly, series: Pick<MetricSeries, 'unit' | 'decimalPlaces'>): string => {
+  const low = anomaly.baseline.mean - anomaly.baseline.spread;
+  const high = anomaly.baseline.mean + anomaly.baseline.spread;
+  return `${formatStat(anomaly.value, series)} is ${anomaly.deviation > 0 ? 'higher' : 'lower'} than usual (usually ${round(low, series.decimalPlaces)}–${formatStat(high, series)})`;
+};
+
+export const describeMetricChange = (change: MetricChange): string => {
+  const { series, weekly, anomalies } = change;
+  const parts: string[] = [];
+  if (weekly.current !== null) {
+    const delta = weekly.delta !== null ? round(weekly.delta, series.decimalPlaces) : null;
+    parts.push(
+      delta === null
+        ? `averaged ${formatStat(weekly.current, series)} this week`
+        : delta === 0
+          ? `averaged ${formatStat(weekly.current, series)} this week, the same as last week`
+          : `averaged ${formatStat(weekly.current, series)} this week, ${delta > 0 ? 'up' : 'down'} ${formatStat(Math.abs(delta), series)} from last week`
+    );
+  }
+  if (anomalies.length > 0) {
+    parts.push(`${anomalies.length} ${anomalies.length === 1 ? 'reading' : 'readings'} outside the usual range`);
+  }
+  return `${series.label} ${parts.join('; ')}.`;
+};
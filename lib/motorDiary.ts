@@ -0,0 +1,69 @@
+import { format } from 'date-fns';
+import { MotorDiaryEntry, MotorState } from './repositories/MotorDiaryRepository';
+import { ScheduledDose } from './repositories/ScheduleRepository';
+
+export interface MotorStateOption {
+  state: MotorState;
+  label: string;
+  shortLabel: string;
+  icon: string;
+  color: string;
+}
+
+// Order and wording follow the Hauser diary
+export const MOTOR_STATE_OPTIONS: MotorStateOption[] = [
+  { state: 'off', label: 'OFF', shortLabel: 'OFF', icon: 'battery-low', color: '#ef4444' },
+  { state: 'on', label: 'ON, no dyskinesia', shortLabel: 'ON', icon: 'battery-high', color: '#10b981' },
+  { state: 'on_non_troublesome_dyskinesia', label: 'ON, mild dyskinesia', shortLabel: 'ON + mild', icon: 'vibrate', color: '#84cc16' },
+  { state: 'on_troublesome_dyskinesia', label: 'ON, troublesome dyskinesia', shortLabel: 'ON + severe', icon: 'alert-decagram', color: '#f59e0b' },
+  { state: 'asleep', label: 'Asleep', shortLabel: 'Asleep', icon: 'sleep', color: '#6366f1' },
+];
+
+export const getMotorStateOption = (state: string): MotorStateOption | undefined =>
+  MOTOR_STATE_OPTIONS.find(option => option.state === state);
+
+// An OFF hour within this many hours before the next scheduled dose counts as wearing off
+const WEARING_OFF_WINDOW_HOURS = 1;
+
+export interface MotorDiarySummary {
+  recordedHours: number;
+  awakeHours: number;
+  offHours: number;
+  goodOnHours: number; // ON without troublesome dyskinesia
+  troublesomeDyskinesiaHours: number;
+  offPercentage: number; // Of awake recorded hours
+  wearingOffHours: number; // OFF hours just before a scheduled dose
+}
+
+export const getDiaryKey = (entryDate: string, hour: number): string => `${entryDate}-${hour}`;
+
+export const getDoseHourKeys = (doses: ScheduledDose[]): Set<string> =>
+  new Set(doses.map(dose => getDiaryKey(format(dose.intendedDoseTime, 'yyyy-MM-dd'), dose.intendedDoseTime.getHours())));
+
+export const summarizeMotorDiary = (entries: MotorDiaryEntry[], doses: ScheduledDose[]): MotorDiarySummary => {
+  const count = (states: string[]) => entries.filter(e => states.includes(e.state)).length;
+  const doseHours = getDoseHourKeys(doses);
+
+  const offHours = count(['off']);
+  const awakeHours = entries.length - count(['asleep']);
+
+  const wearingOffHours = entries.filter(entry => {
+    if (entry.state !== 'off') return false;
+    for (let ahead = 1; ahead <= WEARING_OFF_WINDOW_HOURS; ahead++) {
+      const next = new Date(`${entry.entry_date}T00:00:00`);
+      next.setHours(entry.hour + ahead);
+      if (doseHours.has(getDiaryKey(format(next, 'yyyy-MM-dd'), next.getHours()))) return true;
+    }
+    return false;
+  }).length;
+
+  return {
+    recordedHours: entries.length,
+    awakeHours,
+    offHours,
+    goodOnHours: count(['on', 'on_non_troublesome_dyskinesia']),
+    troublesomeDyskinesiaHours: count(['on_troublesome_dyskinesia']),
+    offPercentage: awakeHours > 0 ? Math.round((offHours / awakeHours) * 100) : 0,
+    wearingOffHours,
+  };
+};
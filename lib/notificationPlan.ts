@@ -0,0 +1,194 @@
+import { addDays, addHours, differenceInCalendarDays, eachDayOfInterval, format } from 'date-fns';
+import { Appointment } from './repositories/AppointmentRepository';
+import { ScheduledDose } from './repositories/ScheduleRepository';
+import { atMinutes, toMinutes } from './scheduleRules';
+import {
+  EscalationPolicy,
+  EscalationStep,
+  ReminderTiming,
+  buildDefaultEscalationPolicy,
+  getEscalationStepTime,
+  isCaregiverStep,
+} from './escalationPolicy';
+
+export type { ReminderTiming };
+
+// Which local notifications the device should have pending right now. The scheduler
+// service turns this plan into notification content and reconciles it with the OS.
+
+// iOS silently drops pending local notifications beyond this count
+export const IOS_PENDING_NOTIFICATION_LIMIT = 64;
+
+// Left free for notifications scheduled outside the plan: snoozes, refill
+// reminders and caregiver alerts shown while the app is open
+export const RESERVED_NOTIFICATION_SLOTS = 6;
+
+export const DEFAULT_SCHEDULING_WINDOW_HOURS = 48;
+
+export const APPOINTMENT_REMINDER_HOURS = 24;
+
+// Daily nudge to fill in the health check-in, skipped once that day's check-in is done
+export const CHECKIN_REMINDER_TIME = '19:00';
+
+// Identifiers of every notification the scheduler owns start with this
+export const PLANNED_NOTIFICATION_PREFIX = 'plan-';
+
+// stepNumber is the step's 1-based position in the dose's escalation policy
+export type PlannedNotification =
+  | { kind: 'dose_alarm'; identifier: string; fireAt: Date; dose: ScheduledDose; step: EscalationStep; stepNumber: number }
+  | { kind: 'caregiver_check'; identifier: string; fireAt: Date; dose: ScheduledDose; step: EscalationStep; stepNumber: number }
+  | { kind: 'appointment_reminder'; identifier: string; fireAt: Date; appointment: Appointment; appointmentTime: Date }
+  | { kind: 'checkin_reminder'; identifier: string; fireAt: Date };
+
+export interface QuietHours {
+  quietHoursStart: string | null; // HH:mm, local
+  quietHoursEnd: string | null;
+}
+
+// The notification settings the plan depends on (a subset of NotificationSettings)
+export interface NotificationPreferences extends ReminderTiming, QuietHours {
+  medicationRemindersEnabled: boolean;
+  appointmentRemindersEnabled: boolean;
+  checkinRemindersEnabled: boolean;
+}
+
+export interface NotificationPlanInput {
+  doses: ScheduledDose[];
+  appointments: Appointment[];
+  answeredDoseKeys: Set<string>; // Doses already taken or skipped get no further alarms
+  checkedInDates: Set<string>; // yyyy-MM-dd
+  preferences: NotificationPreferences;
+  policies: Map<string, EscalationPolicy>; // By medication; others follow the default policy
+  now: Date;
+  windowHours?: number;
+  limit?: number;
+}
+
+// Compared with what is pending on the device. The signature covers everything that
+// can change for the same identifier (text, sound, fire time), so a pending
+// notification with a different signature is rescheduled.
+export interface NotificationFingerprint {
+  identifier: string;
+  signature: string | null;
+}
+
+// A start later than the end wraps past midnight (22:00-07:00)
+export const isInQuietHours = (date: Date, quietHours: QuietHours): boolean => {
+  if (!quietHours.quietHoursStart || !quietHours.quietHoursEnd) return false;
+  const start = toMinutes(quietHours.quietHoursStart);
+  const end = toMinutes(quietHours.quietHoursEnd);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+// Moves a reminder that would fire during quiet hours to the moment they end
+export const deferPastQuietHours = (date: Date, quietHours: QuietHours): Date => {
+  if (!isInQuietHours(date, quietHours)) return date;
+  const end = atMinutes(date, toMinutes(quietHours.quietHoursEnd!));
+  return end > date ? end : addDays(end, 1);
+};
+
+export const getAppointmentTime = (appointment: Pick<Appointment, 'appointment_date' | 'appointment_time'>): Date =>
+  new Date(`${appointment.appointment_date}T${appointment.appointment_time}`);
+
+// The reminder text, worded from when it fires: quiet hours can hold a reminder
+// meant for the day before until the morning of the appointment
+export const describeAppointmentReminder = (
+  appointment: Pick<Appointment, 'doctor_name'>,
+  appointmentTime: Date,
+  fireAt: Date
+): string => {
+  const days = differenceInCalendarDays(appointmentTime, fireAt);
+  const day = days === 0 ? 'today' : days === 1 ? 'tomorrow' : `on ${format(appointmentTime, 'EEEE, MMMM d')}`;
+  return `You have an appointment with Dr. ${appointment.doctor_name} ${day} at ${format(appointmentTime, 'h:mm a')}`;
+};
+
+// Stable per dose and step, so the same dose planned twice maps to the same notification
+const doseIdentifier = (type: string, dose: ScheduledDose, stepNumber: number): string =>
+  `${PLANNED_NOTIFICATION_PREFIX}${type}-${dose.scheduleId}-${format(dose.intendedDoseTime, "yyyyMMdd'T'HHmm")}-${stepNumber}`;
+
+// Patient steps are alarms; caregiver steps get a check on the patient's device that
+// asks the server to escalate straight away rather than on its next scheduled run
+const planDose = (dose: ScheduledDose, policy: EscalationPolicy): PlannedNotification[] =>
+  policy.steps.map((step, index) => ({
+    kind: isCaregiverStep(step) ? ('caregiver_check' as const) : ('dose_alarm' as const),
+    identifier: doseIdentifier(isCaregiverStep(step) ? 'check' : 'dose', dose, index + 1),
+    fireAt: getEscalationStepTime(dose.intendedDoseTime, step),
+    dose,
+    step,
+    stepNumber: index + 1,
+  }));
+
+const planAppointment = (appointment: Appointment, quietHours: QuietHours): PlannedNotification => {
+  const appointmentTime = getAppointmentTime(appointment);
+  return {
+    kind: 'appointment_reminder',
+    identifier: `${PLANNED_NOTIFICATION_PREFIX}appointment-${appointment.id}-${format(appointmentTime, "yyyyMMdd'T'HHmm")}`,
+    fireAt: deferPastQuietHours(addHours(appointmentTime, -APPOINTMENT_REMINDER_HOURS), quietHours),
+    appointment,
+    appointmentTime,
+  };
+};
+
+const planCheckin = (day: Date, quietHours: QuietHours): PlannedNotification => ({
+  kind: 'checkin_reminder',
+  identifier: `${PLANNED_NOTIFICATION_PREFIX}checkin-${format(day, 'yyyyMMdd')}`,
+  fireAt: deferPastQuietHours(atMinutes(day, toMinutes(CHECKIN_REMINDER_TIME)), quietHours),
+});
+
+// Everything due in the next windowHours, soonest first, cut to the platform limit.
+// Anything cut off is picked up by a later sync as the window rolls forward.
+// Medication alarms keep their time in quiet hours (the scheduler mutes them);
+// other reminders are held until quiet hours end.
+export const planNotifications = ({
+  doses,
+  appointments,
+  answeredDoseKeys,
+  checkedInDates,
+  preferences,
+  policies,
+  now,
+  windowHours = DEFAULT_SCHEDULING_WINDOW_HOURS,
+  limit = IOS_PENDING_NOTIFICATION_LIMIT - RESERVED_NOTIFICATION_SLOTS,
+}: NotificationPlanInput): PlannedNotification[] => {
+  const windowEnd = addHours(now, windowHours);
+
+  const defaultPolicy = buildDefaultEscalationPolicy(preferences);
+  const doseNotifications = preferences.medicationRemindersEnabled
+    ? doses
+        .filter(dose => !answeredDoseKeys.has(dose.doseKey))
+        .flatMap(dose => planDose(dose, policies.get(dose.medicationId) ?? defaultPolicy))
+    : [];
+  const appointmentNotifications = preferences.appointmentRemindersEnabled
+    ? appointments
+        .filter(appointment => appointment.status !== 'cancelled' && appointment.status !== 'completed')
+        .map(appointment => planAppointment(appointment, preferences))
+    : [];
+  const checkinNotifications = preferences.checkinRemindersEnabled
+    ? eachDayOfInterval({ start: now, end: windowEnd })
+        .filter(day => !checkedInDates.has(format(day, 'yyyy-MM-dd')))
+        .map(day => planCheckin(day, preferences))
+    : [];
+
+  return [...doseNotifications, ...appointmentNotifications, ...checkinNotifications]
+    .filter(notification => notification.fireAt > now && notification.fireAt <= windowEnd)
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, Math.max(0, limit));
+};
+
+export const diffNotifications = <T extends NotificationFingerprint>(
+  desired: T[],
+  pending: NotificationFingerprint[]
+): { toAdd: T[]; toCancel: string[] } => {
+  const pendingById = new Map(pending.map(notification => [notification.identifier, notification]));
+  const isCurrent = (notification: T): boolean => {
+    const existing = pendingById.get(notification.identifier);
+    return !!existing && existing.signature === notification.signature;
+  };
+
+  const keep = new Set(desired.filter(isCurrent).map(notification => notification.identifier));
+  return {
+    toAdd: desired.filter(notification => !keep.has(notification.identifier)),
+    toCancel: pending.filter(notification => !keep.has(notification.identifier)).map(notification => notification.identifier),
+  };
+};
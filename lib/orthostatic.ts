@@ -0,0 +1,118 @@
+import { OrthostaticTest } from './repositories/OrthostaticTestRepository';
+
+// The lying-to-standing blood pressure test. The patient rests lying down, takes a
+// reading, stands up and takes readings 1 and 3 minutes after standing. A drop of at
+// least 20 mmHg systolic or 10 mmHg diastolic from the lying reading to either
+// standing reading is orthostatic hypotension. The database computes the same drop
+// and flag (orthostatic_tests.systolic_drop, diastolic_drop, is_orthostatic); this
+// module works them out while the test is still on screen.
+
+export interface BloodPressureReading {
+  systolic: number;
+  diastolic: number;
+  heartRate: number | null;
+}
+
+export interface OrthostaticReadings {
+  lying: BloodPressureReading;
+  standing1: BloodPressureReading;
+  standing3: BloodPressureReading | null; // Missing when the patient could not stand for 3 minutes
+}
+
+export interface OrthostaticResult {
+  systolicDrop: number;
+  diastolicDrop: number;
+  heartRateRise: number | null;
+  isOrthostatic: boolean;
+}
+
+export const ORTHOSTATIC_SYSTOLIC_DROP = 20;
+export const ORTHOSTATIC_DIASTOLIC_DROP = 10;
+
+export const LYING_REST_SECONDS = 5 * 60;
+
+export const STANDING_CHECKPOINTS: { key: 'standing1' | 'standing3'; seconds: number; label: string }[] = [
+  { key: 'standing1', seconds: 60, label: '1 minute' },
+  { key: 'standing3', seconds: 3 * 60, label: '3 minutes' },
+];
+
+// The same bounds as the table's CHECK constraints
+const SYSTOLIC_BOUNDS = { min: 50, max: 300 };
+const DIASTOLIC_BOUNDS = { min: 20, max: 200 };
+const HEART_RATE_BOUNDS = { min: 20, max: 250 };
+
+const parseWhole = (text: string): number | null => {
+  const trimmed = text.trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : null;
+};
+
+const within = (value: number, bounds: { min: number; max: number }) => value >= bounds.min && value <= bounds.max;
+
+// Typed readings, or a message saying what is wrong with them. Heart rate is optional.
+export const parseBloodPressureReading = (
+  systolicText: string,
+  diastolicText: string,
+  heartRateText: string
+): BloodPressureReading | string => {
+  const systolic = parseWhole(systolicText);
+  const diastolic = parseWhole(diastolicText);
+  if (systolic === null || diastolic === null) return 'Enter both numbers as whole mmHg values.';
+  if (!within(systolic, SYSTOLIC_BOUNDS)) return `Systolic should be between ${SYSTOLIC_BOUNDS.min} and ${SYSTOLIC_BOUNDS.max}.`;
+  if (!within(diastolic, DIASTOLIC_BOUNDS)) return `Diastolic should be between ${DIASTOLIC_BOUNDS.min} and ${DIASTOLIC_BOUNDS.max}.`;
+  if (diastolic >= systolic) return 'Diastolic should be lower than systolic.';
+
+  if (heartRateText.trim() === '') return { systolic, diastolic, heartRate: null };
+  const heartRate = parseWhole(heartRateText);
+  if (heartRate === null || !within(heartRate, HEART_RATE_BOUNDS)) {
+    return `Heart rate should be between ${HEART_RATE_BOUNDS.min} and ${HEART_RATE_BOUNDS.max}, or left empty.`;
+  }
+  return { systolic, diastolic, heartRate };
+};
+
+export const evaluateOrthostaticTest = (readings: OrthostaticReadings): OrthostaticResult => {
+  const standing = [readings.standing1, ...(readings.standing3 ? [readings.standing3] : [])];
+  const systolicDrop = readings.lying.systolic - Math.min(...standing.map(reading => reading.systolic));
+  const diastolicDrop = readings.lying.diastolic - Math.min(...standing.map(reading => reading.diastolic));
+  const standingRates = standing.flatMap(reading => (reading.heartRate === null ? [] : [reading.heartRate]));
+
+  return {
+    systolicDrop,
+    diastolicDrop,
+    heartRateRise:
+      readings.lying.heartRate === null || standingRates.length === 0
+        ? null
+        : Math.max(...standingRates) - readings.lying.heartRate,
+    isOrthostatic: systolicDrop >= ORTHOSTATIC_SYSTOLIC_DROP || diastolicDrop >= ORTHOSTATIC_DIASTOLIC_DROP,
+  };
+};
+
+// The result of a stored test, as computed by the database
+export const getStoredResult = (test: OrthostaticTest): OrthostaticResult =>
+  evaluateOrthostaticTest({
+    lying: { systolic: test.lying_systolic, diastolic: test.lying_diastolic, heartRate: test.lying_heart_rate },
+    standing1: { systolic: test.standing_1_systolic, diastolic: test.standing_1_diastolic, heartRate: test.standing_1_heart_rate },
+    standing3:
+      test.standing_3_systolic !== null && test.standing_3_diastolic !== null
+        ? { systolic: test.standing_3_systolic, diastolic: test.standing_3_diastolic, heartRate: test.standing_3_heart_rate }
+        : null,
+  });
+
+// A negative number is a rise on standing
+export const formatDrop = (result: Pick<OrthostaticResult, 'systolicDrop' | 'diastolicDrop'>): string =>
+  `${result.systolicDrop}/${result.diastolicDrop} mmHg`;
+
+export const describeOrthostaticResult = (result: OrthostaticResult): string =>
+  result.isOrthostatic
+    ? `Blood pressure dropped ${formatDrop(result)} on standing. A drop of ${ORTHOSTATIC_SYSTOLIC_DROP}/${ORTHOSTATIC_DIASTOLIC_DROP} or more is orthostatic hypotension.`
+    : `Blood pressure changed by ${formatDrop(result)} on standing, less than the ${ORTHOSTATIC_SYSTOLIC_DROP}/${ORTHOSTATIC_DIASTOLIC_DROP} mmHg drop that counts as orthostatic hypotension.`;
+
+// The next standing reading due, and how long until it is; null once both are due
+export const getNextCheckpoint = (secondsStanding: number) => {
+  const next = STANDING_CHECKPOINTS.find(checkpoint => checkpoint.seconds > secondsStanding);
+  return next ? { ...next, secondsLeft: next.seconds - secondsStanding } : null;
+};
+
+export const formatTimer = (seconds: number): string => {
+  const clamped = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(clamped / 60)}:${(clamped % 60).toString().padStart(2, '0')}`;
+};
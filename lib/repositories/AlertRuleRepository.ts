@@ -0,0 +1,73 @@
+import { Json, Tables } from '../database.types';
+import { AlertRule, AlertRuleCondition, parseRuleCondition } from '../alertRules';
+import { DatabaseClient } from './client';
+
+export type CaregiverAlertRuleRow = Tables<'caregiver_alert_rules'>;
+
+export interface StoredAlertRule extends AlertRule {
+  patientId: string;
+  enabled: boolean;
+}
+
+// Rules whose stored condition no longer parses are left out rather than failing the list
+const toAlertRule = (row: CaregiverAlertRuleRow): StoredAlertRule | null => {
+  const condition = parseRuleCondition(row.condition);
+  if (!condition) return null;
+  return {
+    id: row.id,
+    patientId: row.patient_id,
+    name: row.name,
+    condition,
+    enabled: row.enabled,
+    lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at) : null,
+  };
+};
+
+export class AlertRuleRepository {
+  constructor(private client: DatabaseClient) {}
+
+  async listForPatient(patientId: string, enabledOnly = false): Promise<StoredAlertRule[]> {
+    let query = this.client
+      .from('caregiver_alert_rules')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('created_at', { ascending: true });
+    if (enabledOnly) query = query.eq('enabled', true);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []).flatMap(row => toAlertRule(row) ?? []);
+  }
+
+  async create(patientId: string, createdBy: string, name: string, condition: AlertRuleCondition): Promise<void> {
+    const { error } = await this.client.from('caregiver_alert_rules').insert({
+      patient_id: patientId,
+      created_by: createdBy,
+      name,
+      condition: condition as unknown as Json,
+    });
+    if (error) throw error;
+  }
+
+  async setEnabled(id: string, enabled: boolean): Promise<void> {
+    const { error } = await this.client.from('caregiver_alert_rules').update({ enabled }).eq('id', id);
+    if (error) throw error;
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client.from('caregiver_alert_rules').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  // Marks the rule fired; false when another device got there first, see claim_alert_rule()
+  async claimTrigger(rule: AlertRule, now: Date): Promise<boolean> {
+    const { data, error } = await this.client.rpc('claim_alert_rule', {
+      p_rule_id: rule.id,
+      p_previous_triggered_at: rule.lastTriggeredAt?.toISOString() ?? null,
+      p_now: now.toISOString(),
+    });
+
+    if (error) throw error;
+    return !!data;
+  }
+}
@@ -0,0 +1,46 @@
+import { Tables, TablesInsert } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type AppointmentReport = Tables<'appointment_reports'>;
+
+export const VISIT_REPORTS_BUCKET = 'visit-reports';
+
+export class AppointmentReportRepository {
+  constructor(private client: DatabaseClient) {}
+
+  async listForAppointment(appointmentId: string): Promise<AppointmentReport[]> {
+    const { data, error } = await this.client
+      .from('appointment_reports')
+      .select('*')
+      .eq('appointment_id', appointmentId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async insert(report: TablesInsert<'appointment_reports'>): Promise<AppointmentReport> {
+    const { data, error } = await this.client.from('appointment_reports').insert(report).select().single();
+    if (error) throw error;
+    return data;
+  }
+
+  // path is relative to the bucket: <patient_id>/<appointment_id>/<file>
+  async uploadFile(path: string, body: ArrayBuffer, contentType: string): Promise<string> {
+    const { data, error } = await this.client.storage
+      .from(VISIT_REPORTS_BUCKET)
+      .upload(path, body, { contentType, upsert: true });
+
+    if (error) throw error;
+    return data.path;
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds = 3600): Promise<string> {
+    const { data, error } = await this.client.storage
+      .from(VISIT_REPORTS_BUCKET)
+      .createSignedUrl(path, expiresInSeconds);
+
+    if (error) throw error;
+    return data.signedUrl;
+  }
+}
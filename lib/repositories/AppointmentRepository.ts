@@ -0,0 +1,66 @@
+import { Tables } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type Appointment = Tables<'doctor_appointments'>;
+
+export class AppointmentRepository {
+  constructor(private client: DatabaseClient) {}
+
+  async listForPatient(patientId: string): Promise<Appointment[]> {
+    const { data, error } = await this.client
+      .from('doctor_appointments')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('appointment_date', { ascending: true })
+      .order('appointment_time', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  // Dates are yyyy-MM-dd, both ends inclusive
+  async listBetween(patientId: string, fromDate: string, toDate: string): Promise<Appointment[]> {
+    const { data, error } = await this.client
+      .from('doctor_appointments')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gte('appointment_date', fromDate)
+      .lte('appointment_date', toDate)
+      .order('appointment_date', { ascending: true })
+      .order('appointment_time', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async getNextAppointment(patientId: string, fromDate: string): Promise<Appointment | null> {
+    const { data, error } = await this.client
+      .from('doctor_appointments')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gte('appointment_date', fromDate)
+      .neq('status', 'cancelled')
+      .order('appointment_date', { ascending: true })
+      .order('appointment_time', { ascending: true })
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  }
+
+  // Most recent completed appointment on or before the given yyyy-MM-dd date
+  async getLastCompleted(patientId: string, onOrBeforeDate: string): Promise<Appointment | null> {
+    const { data, error } = await this.client
+      .from('doctor_appointments')
+      .select('*')
+      .eq('patient_id', patientId)
+      .eq('status', 'completed')
+      .lte('appointment_date', onOrBeforeDate)
+      .order('appointment_date', { ascending: false })
+      .order('appointment_time', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  }
+}
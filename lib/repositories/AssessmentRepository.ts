@@ -0,0 +1,27 @@
+import { Tables, TablesInsert } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type AssessmentResult = Tables<'assessment_results'>;
+
+export class AssessmentRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Results saved in [from, to), oldest first
+  async listBetween(patientId: string, from: Date, to: Date): Promise<AssessmentResult[]> {
+    const { data, error } = await this.client
+      .from('assessment_results')
+      .select('*')
+      .eq('user_id', patientId)
+      .gte('created_at', from.toISOString())
+      .lt('created_at', to.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async insert(result: TablesInsert<'assessment_results'>): Promise<void> {
+    const { error } = await this.client.from('assessment_results').insert(result);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,76 @@
+import { Tables, TablesInsert } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type CaregiverAlert = Tables<'caregiver_alerts'>;
+
+export type CaregiverAlertEvent = Tables<'caregiver_alert_events'>;
+
+export type CaregiverAlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface CaregiverAlertResponse {
+  incidentId: string;
+  patientId: string;
+  status: CaregiverAlertStatus;
+  changed: boolean; // False when someone else had already moved the incident this far
+  actorName: string;
+  alertMessage: string;
+}
+
+export class CaregiverAlertRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Returns the new alerts' ids
+  async insertMany(alerts: TablesInsert<'caregiver_alerts'>[]): Promise<string[]> {
+    if (alerts.length === 0) return [];
+    const { data, error } = await this.client.from('caregiver_alerts').insert(alerts).select('id');
+    if (error) throw error;
+    return (data ?? []).map(alert => alert.id);
+  }
+
+  // Every row the caller can see about the patient: the patient sees one per
+  // recipient, a caregiver only their own
+  async listForPatient(patientId: string, since: Date): Promise<CaregiverAlert[]> {
+    const { data, error } = await this.client
+      .from('caregiver_alerts')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async listEvents(incidentIds: string[]): Promise<CaregiverAlertEvent[]> {
+    if (incidentIds.length === 0) return [];
+    const { data, error } = await this.client
+      .from('caregiver_alert_events')
+      .select('*')
+      .in('incident_id', incidentIds)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  // Moves the alert's whole incident forward, see respond_to_caregiver_alert()
+  async respond(alertId: string, status: Exclude<CaregiverAlertStatus, 'open'>, note?: string): Promise<CaregiverAlertResponse> {
+    const { data, error } = await this.client.rpc('respond_to_caregiver_alert', {
+      p_alert_id: alertId,
+      p_status: status,
+      p_note: note ?? null,
+    });
+
+    if (error) throw error;
+    const row = data?.[0];
+    if (!row) throw new Error('Alert not found');
+    return {
+      incidentId: row.incident_id,
+      patientId: row.patient_id,
+      status: row.status as CaregiverAlertStatus,
+      changed: row.changed,
+      actorName: row.actor_name,
+      alertMessage: row.alert_message,
+    };
+  }
+}
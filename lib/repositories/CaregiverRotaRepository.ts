@@ -0,0 +1,135 @@
+import { Tables } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type CaregiverShift = Tables<'caregiver_shifts'>;
+export type CaregiverShiftSwap = Tables<'caregiver_shift_swaps'>;
+
+export interface CareCircleMember {
+  caregiverId: string;
+  name: string;
+}
+
+export interface ShiftInput {
+  caregiverId: string;
+  daysOfWeek: number[];
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  timezone: string;
+}
+
+export interface ShiftSwapInput {
+  shiftId: string;
+  coveringCaregiverId: string;
+  startsAt: Date;
+  endsAt: Date;
+  note?: string | null;
+}
+
+export class CaregiverRotaRepository {
+  constructor(private client: DatabaseClient) {}
+
+  async listShifts(patientId: string): Promise<CaregiverShift[]> {
+    const { data, error } = await this.client
+      .from('caregiver_shifts')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async createShift(patientId: string, createdBy: string, shift: ShiftInput): Promise<CaregiverShift> {
+    const { data, error } = await this.client
+      .from('caregiver_shifts')
+      .insert({
+        patient_id: patientId,
+        caregiver_id: shift.caregiverId,
+        days_of_week: shift.daysOfWeek,
+        start_time: shift.startTime,
+        end_time: shift.endTime,
+        timezone: shift.timezone,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateShift(id: string, shift: ShiftInput): Promise<void> {
+    const { error } = await this.client
+      .from('caregiver_shifts')
+      .update({
+        caregiver_id: shift.caregiverId,
+        days_of_week: shift.daysOfWeek,
+        start_time: shift.startTime,
+        end_time: shift.endTime,
+        timezone: shift.timezone,
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Also removes the shift's swaps
+  async deleteShift(id: string): Promise<void> {
+    const { error } = await this.client.from('caregiver_shifts').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  // Swaps that have not ended yet
+  async listUpcomingSwaps(patientId: string, from: Date = new Date()): Promise<CaregiverShiftSwap[]> {
+    const { data, error } = await this.client
+      .from('caregiver_shift_swaps')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gt('ends_at', from.toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async createSwap(patientId: string, createdBy: string, swap: ShiftSwapInput): Promise<void> {
+    const { error } = await this.client.from('caregiver_shift_swaps').insert({
+      shift_id: swap.shiftId,
+      patient_id: patientId,
+      covering_caregiver_id: swap.coveringCaregiverId,
+      starts_at: swap.startsAt.toISOString(),
+      ends_at: swap.endsAt.toISOString(),
+      note: swap.note ?? null,
+      created_by: createdBy,
+    });
+
+    if (error) throw error;
+  }
+
+  async deleteSwap(id: string): Promise<void> {
+    const { error } = await this.client.from('caregiver_shift_swaps').delete().eq('id', id);
+    if (error) throw error;
+  }
+
+  // Every active caregiver of the patient, longest-standing first
+  async listCareCircle(patientId: string): Promise<CareCircleMember[]> {
+    const { data, error } = await this.client.rpc('get_care_circle', { p_patient_id: patientId });
+
+    if (error) throw error;
+    return (data ?? []).map(member => ({
+      caregiverId: member.caregiver_id,
+      name: `${member.first_name ?? ''} ${member.last_name ?? ''}`.trim() || 'Caregiver',
+    }));
+  }
+
+  // Empty when the patient has no rota, see get_on_call_caregiver_ids()
+  async listOnCallCaregiverIds(patientId: string, at: Date = new Date()): Promise<string[]> {
+    const { data, error } = await this.client.rpc('get_on_call_caregiver_ids', {
+      p_patient_id: patientId,
+      p_at: at.toISOString(),
+    });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+}
@@ -0,0 +1,52 @@
+import { Tables, TablesInsert } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type HealthCheckin = Tables<'health_checkins'>;
+
+export class CheckinRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // checkin_date is yyyy-MM-dd
+  async listForDate(patientId: string, checkinDate: string): Promise<HealthCheckin[]> {
+    const { data, error } = await this.client
+      .from('health_checkins')
+      .select('*')
+      .eq('user_id', patientId)
+      .eq('checkin_date', checkinDate)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async listBetween(patientId: string, fromDate: string, toDate: string): Promise<HealthCheckin[]> {
+    const { data, error } = await this.client
+      .from('health_checkins')
+      .select('*')
+      .eq('user_id', patientId)
+      .gte('checkin_date', fromDate)
+      .lte('checkin_date', toDate)
+      .order('checkin_date', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async getLatest(patientId: string): Promise<HealthCheckin | null> {
+    const { data, error } = await this.client
+      .from('health_checkins')
+      .select('*')
+      .eq('user_id', patientId)
+      .order('checkin_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return data?.[0] ?? null;
+  }
+
+  async insert(checkin: TablesInsert<'health_checkins'>): Promise<void> {
+    const { error } = await this.client.from('health_checkins').insert(checkin);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,19 @@
+import { Tables } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type CaregiverConnection = Tables<'patient_caregiver_connections'>;
+
+export class ConnectionRepository {
+  constructor(private client: DatabaseClient) {}
+
+  async listActiveCaregiverIds(patientId: string): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('patient_caregiver_connections')
+      .select('caregiver_id')
+      .eq('patient_id', patientId)
+      .eq('connection_status', 'active');
+
+    if (error) throw error;
+    return (data ?? []).map(connection => connection.caregiver_id);
+  }
+}
@@ -0,0 +1,51 @@
+import { Tables } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type UserDevice = Tables<'user_devices'>;
+
+export type DevicePlatform = 'ios' | 'android' | 'web' | 'unknown';
+
+export interface DeviceRegistration {
+  deviceId: string;
+  platform: DevicePlatform;
+  deviceName?: string | null;
+  pushToken?: string | null;
+}
+
+export class DeviceRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Upserts this device and marks it seen, see register_user_device()
+  async register(registration: DeviceRegistration): Promise<UserDevice> {
+    const { data, error } = await this.client.rpc('register_user_device', {
+      p_device_id: registration.deviceId,
+      p_platform: registration.platform,
+      p_device_name: registration.deviceName ?? null,
+      p_push_token: registration.pushToken ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listForUser(userId: string): Promise<UserDevice[]> {
+    const { data, error } = await this.client
+      .from('user_devices')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_seen_at', { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async setEnabled(id: string, enabled: boolean): Promise<void> {
+    const { error } = await this.client.from('user_devices').update({ enabled }).eq('id', id);
+    if (error) throw error;
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client.from('user_devices').delete().eq('id', id);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,63 @@
+import { Tables, TablesInsert } from '../database.types';
+import { DatabaseClient } from './client';
+import { ScheduledDose, getDoseKey } from './ScheduleRepository';
+
+export type DoseLog = Tables<'medication_administration_logs'>;
+
+export type DoseLogStatus = 'taken' | 'skipped';
+
+// Doses are matched to logs by medication and intended dose time (see getDoseKey)
+export const findLogForDose = (dose: ScheduledDose, logs: DoseLog[]): DoseLog | undefined =>
+  logs.find(log => !!log.intended_dose_time && getDoseKey(log.medication_id, log.intended_dose_time) === dose.doseKey);
+
+export class DoseLogRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Logs whose intended dose falls in [from, to)
+  async listForDoseWindow(patientId: string, from: Date, to: Date): Promise<DoseLog[]> {
+    const { data, error } = await this.client
+      .from('medication_administration_logs')
+      .select('*')
+      .eq('user_id', patientId)
+      .gte('intended_dose_time', from.toISOString())
+      .lt('intended_dose_time', to.toISOString())
+      .order('intended_dose_time', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async listTakenBetween(patientId: string, from: Date, to: Date): Promise<DoseLog[]> {
+    const { data, error } = await this.client
+      .from('medication_administration_logs')
+      .select('*')
+      .eq('user_id', patientId)
+      .eq('status', 'taken')
+      .gte('taken_at', from.toISOString())
+      .lt('taken_at', to.toISOString())
+      .order('taken_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async insert(log: TablesInsert<'medication_administration_logs'>): Promise<DoseLog> {
+    const { data, error } = await this.client
+      .from('medication_administration_logs')
+      .insert(log)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateStatus(logId: string, status: DoseLogStatus, takenAt: string): Promise<void> {
+    const { error } = await this.client
+      .from('medication_administration_logs')
+      .update({ status, taken_at: takenAt })
+      .eq('id', logId);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import { Tables, TablesInsert } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type MedicationAlarmRow = Tables<'medication_alarms'>;
+
+export class MedicationAlarmRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Alarm rows for doses scheduled in [from, to]
+  async listBetween(patientId: string, from: Date, to: Date): Promise<MedicationAlarmRow[]> {
+    const { data, error } = await this.client
+      .from('medication_alarms')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gte('scheduled_time', from.toISOString())
+      .lte('scheduled_time', to.toISOString())
+      .order('scheduled_time', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async insertMany(alarms: TablesInsert<'medication_alarms'>[]): Promise<void> {
+    if (alarms.length === 0) return;
+    const { error } = await this.client.from('medication_alarms').insert(alarms);
+    if (error) throw error;
+  }
+
+  // Only rows nobody has acted on yet, so answered and escalated doses keep their history
+  async deletePending(alarmIds: string[]): Promise<void> {
+    if (alarmIds.length === 0) return;
+    const { error } = await this.client
+      .from('medication_alarms')
+      .delete()
+      .in('id', alarmIds)
+      .eq('patient_responded', false)
+      .eq('caregiver_alerted', false);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,91 @@
+import { Tables, TablesInsert, TablesUpdate } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type Medication = Tables<'medications'>;
+
+export type MedicationWithSchedules = Medication & {
+  medication_schedules: Pick<Tables<'medication_schedules'>, 'id' | 'scheduled_time' | 'days_of_week' | 'rule'>[];
+};
+
+// Medications are owned by the patient through medications.user_id (patient_id mirrors it)
+export class MedicationRepository {
+  constructor(private client: DatabaseClient) {}
+
+  async listForPatient(patientId: string): Promise<Medication[]> {
+    const { data, error } = await this.client
+      .from('medications')
+      .select('*')
+      .eq('user_id', patientId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async listWithSchedules(patientId: string): Promise<MedicationWithSchedules[]> {
+    const { data, error } = await this.client
+      .from('medications')
+      .select('*, medication_schedules(id, scheduled_time, days_of_week, rule)')
+      .eq('user_id', patientId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as MedicationWithSchedules[];
+  }
+
+  async getById(medicationId: string): Promise<Medication | null> {
+    const { data, error } = await this.client
+      .from('medications')
+      .select('*')
+      .eq('id', medicationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async create(medication: TablesInsert<'medications'>): Promise<Medication> {
+    const { data, error } = await this.client
+      .from('medications')
+      .insert(medication)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async update(medicationId: string, updates: TablesUpdate<'medications'>): Promise<Medication> {
+    const { data, error } = await this.client
+      .from('medications')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', medicationId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Marks the low-stock alert as sent; false if another device already sent it
+  async claimLowStockAlert(medicationId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('medications')
+      .update({ low_stock_alerted_at: new Date().toISOString() })
+      .eq('id', medicationId)
+      .is('low_stock_alerted_at', null)
+      .select('id');
+
+    if (error) throw error;
+    return (data ?? []).length > 0;
+  }
+
+  async remove(medicationId: string): Promise<void> {
+    const { error } = await this.client
+      .from('medications')
+      .delete()
+      .eq('id', medicationId);
+
+    if (error) throw error;
+  }
+}
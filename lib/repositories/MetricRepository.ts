@@ -0,0 +1,135 @@
+import { Tables, TablesInsert } from '../database.types';
+import { MetricDefinition, MetricInputType, MetricRange, buildMetricDefinitions } from '../metricDefinitions';
+import { DatabaseClient } from './client';
+
+export type HealthMetric = Tables<'health_metrics'>;
+export type HealthMetricCategory = Tables<'health_metric_categories'>;
+export type PatientMetricTarget = Tables<'patient_metric_targets'>;
+
+export interface MetricCategoryInput {
+  name: string;
+  unit: string | null;
+  inputType: MetricInputType;
+  icon: string;
+}
+
+export type HealthMetricWithCategory = Pick<HealthMetric, 'id' | 'category_id' | 'value' | 'notes' | 'recorded_at'> & {
+  health_metric_categories: Pick<HealthMetricCategory, 'name' | 'unit' | 'normal_range_min' | 'normal_range_max'>;
+};
+
+const METRIC_WITH_CATEGORY_COLUMNS =
+  'id, category_id, value, notes, recorded_at, health_metric_categories!inner(name, unit, normal_range_min, normal_range_max)';
+
+export class MetricRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // The shared categories, plus the patient's own when a patient is given
+  async listCategories(patientId?: string): Promise<HealthMetricCategory[]> {
+    let query = this.client
+      .from('health_metric_categories')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+    query = patientId ? query.or(`patient_id.is.null,patient_id.eq.${patientId}`) : query.is('patient_id', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async listTargets(patientId: string): Promise<PatientMetricTarget[]> {
+    const { data, error } = await this.client.from('patient_metric_targets').select('*').eq('patient_id', patientId);
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  // Everything the patient can track, archived categories included, with their targets
+  async listDefinitions(patientId: string): Promise<MetricDefinition[]> {
+    const [categories, targets] = await Promise.all([this.listCategories(patientId), this.listTargets(patientId)]);
+    return buildMetricDefinitions(categories, targets);
+  }
+
+  async createCategory(patientId: string, createdBy: string, input: MetricCategoryInput): Promise<string> {
+    const { data, error } = await this.client
+      .from('health_metric_categories')
+      .insert({
+        patient_id: patientId,
+        created_by: createdBy,
+        name: input.name,
+        unit: input.unit,
+        input_type: input.inputType,
+        icon: input.icon,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  // Only the patient's own categories can be changed
+  async updateCategory(id: string, input: MetricCategoryInput): Promise<void> {
+    const { error } = await this.client
+      .from('health_metric_categories')
+      .update({ name: input.name, unit: input.unit, input_type: input.inputType, icon: input.icon })
+      .eq('id', id)
+      .not('patient_id', 'is', null);
+    if (error) throw error;
+  }
+
+  async setArchived(id: string, archived: boolean): Promise<void> {
+    const { error } = await this.client
+      .from('health_metric_categories')
+      .update({ archived })
+      .eq('id', id)
+      .not('patient_id', 'is', null);
+    if (error) throw error;
+  }
+
+  // A null range removes the target, so the category's normal range applies again
+  async setTarget(patientId: string, categoryId: string, range: MetricRange | null, updatedBy: string): Promise<void> {
+    const { error } = range
+      ? await this.client.from('patient_metric_targets').upsert({
+          patient_id: patientId,
+          category_id: categoryId,
+          target_min: range.min,
+          target_max: range.max,
+          updated_by: updatedBy,
+        })
+      : await this.client.from('patient_metric_targets').delete().eq('patient_id', patientId).eq('category_id', categoryId);
+    if (error) throw error;
+  }
+
+  // Readings recorded in [from, to), oldest first
+  async listBetween(patientId: string, from: Date, to: Date): Promise<HealthMetricWithCategory[]> {
+    const { data, error } = await this.client
+      .from('health_metrics')
+      .select(METRIC_WITH_CATEGORY_COLUMNS)
+      .eq('patient_id', patientId)
+      .gte('recorded_at', from.toISOString())
+      .lt('recorded_at', to.toISOString())
+      .order('recorded_at', { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as unknown as HealthMetricWithCategory[];
+  }
+
+  async getLatestByCategoryName(patientId: string, categoryName: string): Promise<HealthMetricWithCategory | null> {
+    const { data, error } = await this.client
+      .from('health_metrics')
+      .select(METRIC_WITH_CATEGORY_COLUMNS)
+      .eq('patient_id', patientId)
+      .eq('health_metric_categories.name', categoryName)
+      .order('recorded_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return ((data ?? []) as unknown as HealthMetricWithCategory[])[0] ?? null;
+  }
+
+  async insert(metrics: TablesInsert<'health_metrics'>[]): Promise<void> {
+    const { error } = await this.client.from('health_metrics').insert(metrics);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import { Tables } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type MotorDiaryEntry = Tables<'motor_diary_entries'>;
+
+// Hauser diary categories
+export type MotorState =
+  | 'off'
+  | 'on'
+  | 'on_non_troublesome_dyskinesia'
+  | 'on_troublesome_dyskinesia'
+  | 'asleep';
+
+export class MotorDiaryRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Dates are yyyy-MM-dd, both ends inclusive
+  async listBetween(patientId: string, fromDate: string, toDate: string): Promise<MotorDiaryEntry[]> {
+    const { data, error } = await this.client
+      .from('motor_diary_entries')
+      .select('*')
+      .eq('user_id', patientId)
+      .gte('entry_date', fromDate)
+      .lte('entry_date', toDate)
+      .order('entry_date', { ascending: true })
+      .order('hour', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  // One entry per hour: recording the same hour again replaces the earlier state
+  async record(patientId: string, entryDate: string, hour: number, state: MotorState): Promise<MotorDiaryEntry> {
+    const { data, error } = await this.client
+      .from('motor_diary_entries')
+      .upsert(
+        { user_id: patientId, entry_date: entryDate, hour, state, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,entry_date,hour' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async remove(patientId: string, entryDate: string, hour: number): Promise<void> {
+    const { error } = await this.client
+      .from('motor_diary_entries')
+      .delete()
+      .eq('user_id', patientId)
+      .eq('entry_date', entryDate)
+      .eq('hour', hour);
+
+    if (error) throw error;
+  }
+}
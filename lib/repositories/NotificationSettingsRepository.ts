@@ -0,0 +1,102 @@
+import { Tables, TablesInsert } from '../database.types';
+import { EscalationUrgency } from '../escalationPolicy';
+import { DatabaseClient } from './client';
+
+export type NotificationSettingsRow = Tables<'notification_settings'>;
+
+// Channels used for caregiver alerts on top of push, see 20250814090000_alert_message_channels.sql
+export type AlertChannel = 'sms' | 'email';
+
+export type AlertChannelPreferences = Record<EscalationUrgency, AlertChannel[]>;
+
+export interface NotificationSettings {
+  soundEnabled: boolean;
+  vibrationEnabled: boolean;
+  reminderSound: string;
+  maxAttempts: number;
+  snoozeMinutes: number;
+  caregiverAlertDelay: number;
+  medicationRemindersEnabled: boolean;
+  appointmentRemindersEnabled: boolean;
+  checkinRemindersEnabled: boolean;
+  caregiverAlertsEnabled: boolean;
+  quietHoursStart: string | null; // HH:mm; both ends set, or both null for no quiet hours
+  quietHoursEnd: string | null;
+  alertChannels: AlertChannelPreferences;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  soundEnabled: true,
+  vibrationEnabled: true,
+  reminderSound: 'default',
+  maxAttempts: 3,
+  snoozeMinutes: 5,
+  caregiverAlertDelay: 15,
+  medicationRemindersEnabled: true,
+  appointmentRemindersEnabled: true,
+  checkinRemindersEnabled: true,
+  caregiverAlertsEnabled: true,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  alertChannels: { normal: [], high: [], critical: ['email'] },
+};
+
+// Older rows leave most columns null; those fall back to the defaults
+export const toNotificationSettings = (row: NotificationSettingsRow | null): NotificationSettings => {
+  const defaults = DEFAULT_NOTIFICATION_SETTINGS;
+  if (!row) return defaults;
+  return {
+    soundEnabled: row.sound_enabled ?? defaults.soundEnabled,
+    vibrationEnabled: row.vibration_enabled ?? defaults.vibrationEnabled,
+    reminderSound: row.reminder_sound ?? defaults.reminderSound,
+    maxAttempts: row.max_reminder_attempts ?? defaults.maxAttempts,
+    snoozeMinutes: row.snooze_duration ?? defaults.snoozeMinutes,
+    caregiverAlertDelay: row.caregiver_alert_delay ?? defaults.caregiverAlertDelay,
+    medicationRemindersEnabled: row.medication_reminders_enabled ?? defaults.medicationRemindersEnabled,
+    appointmentRemindersEnabled: row.appointment_reminders_enabled ?? defaults.appointmentRemindersEnabled,
+    checkinRemindersEnabled: row.checkin_reminders_enabled ?? defaults.checkinRemindersEnabled,
+    caregiverAlertsEnabled: row.caregiver_alerts_enabled ?? defaults.caregiverAlertsEnabled,
+    quietHoursStart: row.quiet_hours_start?.substring(0, 5) ?? null,
+    quietHoursEnd: row.quiet_hours_end?.substring(0, 5) ?? null,
+    alertChannels: { ...defaults.alertChannels, ...(row.alert_channels as Partial<AlertChannelPreferences>) },
+  };
+};
+
+export class NotificationSettingsRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Defaults when the user has never saved any settings
+  async get(userId: string): Promise<NotificationSettings> {
+    const { data, error } = await this.client
+      .from('notification_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return toNotificationSettings(data);
+  }
+
+  async save(userId: string, settings: NotificationSettings): Promise<void> {
+    const row: TablesInsert<'notification_settings'> = {
+      user_id: userId,
+      sound_enabled: settings.soundEnabled,
+      vibration_enabled: settings.vibrationEnabled,
+      reminder_sound: settings.reminderSound,
+      max_reminder_attempts: settings.maxAttempts,
+      snooze_duration: settings.snoozeMinutes,
+      caregiver_alert_delay: settings.caregiverAlertDelay,
+      medication_reminders_enabled: settings.medicationRemindersEnabled,
+      appointment_reminders_enabled: settings.appointmentRemindersEnabled,
+      checkin_reminders_enabled: settings.checkinRemindersEnabled,
+      caregiver_alerts_enabled: settings.caregiverAlertsEnabled,
+      quiet_hours_start: settings.quietHoursStart,
+      quiet_hours_end: settings.quietHoursEnd,
+      alert_channels: settings.alertChannels,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await this.client.from('notification_settings').upsert(row, { onConflict: 'user_id' });
+    if (error) throw error;
+  }
+}
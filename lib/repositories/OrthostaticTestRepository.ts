@@ -0,0 +1,22 @@
+import { Tables } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type OrthostaticTest = Tables<'orthostatic_tests'>;
+
+export class OrthostaticTestRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Tests started in [from, to), oldest first
+  async listBetween(patientId: string, from: Date, to: Date): Promise<OrthostaticTest[]> {
+    const { data, error } = await this.client
+      .from('orthostatic_tests')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gte('started_at', from.toISOString())
+      .lt('started_at', to.toISOString())
+      .order('started_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+}
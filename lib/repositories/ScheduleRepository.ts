@@ -0,0 +1,135 @@
+import { format } from 'date-fns';
+import { Tables } from '../database.types';
+import { DatabaseClient } from './client';
+import { ScheduleRule, expandRuleForDay, parseScheduleRule } from '../scheduleRules';
+
+export type MedicationSchedule = Tables<'medication_schedules'>;
+
+export type DayOfWeek = 'Sun' | 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat';
+
+export const DAYS_OF_WEEK: DayOfWeek[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A single dose a patient is expected to take on a given day
+export interface ScheduledDose {
+  doseKey: string;
+  scheduleId: string;
+  medicationId: string;
+  medicationName: string;
+  dosage: string; // The phase dosage for titration rules, otherwise the medication's
+  instructions: string | null;
+  scheduledTime: string; // HH:mm
+  intendedDoseTime: Date;
+}
+
+export type ScheduleWithMedication = Pick<MedicationSchedule, 'id' | 'medication_id' | 'scheduled_time' | 'days_of_week' | 'rule'> & {
+  medications: Pick<Tables<'medications'>, 'id' | 'name' | 'dosage' | 'instructions' | 'start_date' | 'end_date' | 'escalation_policy'>;
+};
+
+// Schedules are stored as 'Mon', but older rows and some screens used 'monday',
+// 'Monday' or JavaScript day numbers. Everything is read back as 'Mon'.
+export const normalizeDayOfWeek = (day: string | number): DayOfWeek | null => {
+  if (typeof day === 'number') {
+    return DAYS_OF_WEEK[day] ?? null;
+  }
+  const prefix = day.trim().slice(0, 3).toLowerCase();
+  return DAYS_OF_WEEK.find(d => d.toLowerCase() === prefix) ?? null;
+};
+
+export const getDayOfWeek = (date: Date): DayOfWeek => DAYS_OF_WEEK[date.getDay()];
+
+// medicationId-yyyy-MM-dd-HH:mm of the intended dose, in local time
+export const getDoseKey = (medicationId: string, intendedDoseTime: Date | string): string => {
+  const intended = typeof intendedDoseTime === 'string' ? new Date(intendedDoseTime) : intendedDoseTime;
+  return `${medicationId}-${format(intended, 'yyyy-MM-dd')}-${format(intended, 'HH:mm')}`;
+};
+
+export const isScheduledOn = (schedule: Pick<MedicationSchedule, 'days_of_week'>, date: Date): boolean => {
+  const day = getDayOfWeek(date);
+  return (schedule.days_of_week ?? []).some(d => normalizeDayOfWeek(d) === day);
+};
+
+// Rows without a rule are a fixed time on the listed days
+export const getScheduleRule = (schedule: Pick<MedicationSchedule, 'scheduled_time' | 'days_of_week' | 'rule'>): ScheduleRule =>
+  parseScheduleRule(schedule.rule) ?? {
+    kind: 'fixed',
+    time: (schedule.scheduled_time ?? '').substring(0, 5),
+    daysOfWeek: (schedule.days_of_week ?? []).map(d => normalizeDayOfWeek(d)).filter((d): d is DayOfWeek => d !== null),
+  };
+
+// The one definition of "today's schedule": every occurrence of every schedule rule
+// on that date, for medications active (between start_date and end_date) that day.
+export const expandScheduledDoses = (schedules: ScheduleWithMedication[], date: Date): ScheduledDose[] => {
+  const dateString = format(date, 'yyyy-MM-dd');
+
+  return schedules
+    .filter(schedule => {
+      const medication = schedule.medications;
+      if (medication.start_date && dateString < medication.start_date) return false;
+      if (medication.end_date && dateString > medication.end_date) return false;
+      return !!schedule.scheduled_time || !!schedule.rule;
+    })
+    .flatMap(schedule =>
+      expandRuleForDay(getScheduleRule(schedule), date).map(occurrence => ({
+        doseKey: getDoseKey(schedule.medication_id, occurrence.time),
+        scheduleId: schedule.id,
+        medicationId: schedule.medication_id,
+        medicationName: schedule.medications.name,
+        dosage: occurrence.dosage ?? schedule.medications.dosage,
+        instructions: schedule.medications.instructions,
+        scheduledTime: format(occurrence.time, 'HH:mm'),
+        intendedDoseTime: occurrence.time,
+      }))
+    )
+    .sort((a, b) => a.intendedDoseTime.getTime() - b.intendedDoseTime.getTime());
+};
+
+export class ScheduleRepository {
+  constructor(private client: DatabaseClient) {}
+
+  async listForPatient(patientId: string): Promise<MedicationSchedule[]> {
+    const { data, error } = await this.client
+      .from('medication_schedules')
+      .select('*')
+      .eq('user_id', patientId)
+      .order('scheduled_time', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async getById(scheduleId: string): Promise<MedicationSchedule | null> {
+    const { data, error } = await this.client
+      .from('medication_schedules')
+      .select('*')
+      .eq('id', scheduleId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async listForMedication(medicationId: string): Promise<MedicationSchedule[]> {
+    const { data, error } = await this.client
+      .from('medication_schedules')
+      .select('*')
+      .eq('medication_id', medicationId)
+      .order('scheduled_time', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async listWithMedications(patientId: string): Promise<ScheduleWithMedication[]> {
+    const { data, error } = await this.client
+      .from('medication_schedules')
+      .select('id, medication_id, scheduled_time, days_of_week, rule, medications!inner(id, name, dosage, instructions, start_date, end_date, escalation_policy)')
+      .eq('user_id', patientId);
+
+    if (error) throw error;
+    return (data ?? []) as unknown as ScheduleWithMedication[];
+  }
+
+  async getScheduleForDate(patientId: string, date: Date): Promise<ScheduledDose[]> {
+    return expandScheduledDoses(await this.listWithMedications(patientId), date);
+  }
+}
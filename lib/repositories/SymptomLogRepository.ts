@@ -0,0 +1,22 @@
+import { Tables } from '../database.types';
+import { DatabaseClient } from './client';
+
+export type SymptomLog = Tables<'symptom_logs'>;
+
+export class SymptomLogRepository {
+  constructor(private client: DatabaseClient) {}
+
+  // Logs recorded in [from, to), oldest first
+  async listBetween(patientId: string, from: Date, to: Date): Promise<SymptomLog[]> {
+    const { data, error } = await this.client
+      .from('symptom_logs')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gte('recorded_at', from.toISOString())
+      .lt('recorded_at', to.toISOString())
+      .order('recorded_at', { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  }
+}
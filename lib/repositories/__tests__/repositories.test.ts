@@ -0,0 +1,166 @@
+import { DatabaseClient, createRepositories } from '../index';
+
+// A stand-in for the Supabase client: every query on a table resolves to that table's
+// result, and the filters applied are recorded so tests can check them.
+
+interface StubResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+interface RecordedQuery {
+  table: string;
+  calls: [string, unknown[]][];
+}
+
+const createStubClient = (tables: Record<string, StubResult>, rpcs: Record<string, StubResult> = {}) => {
+  const queries: RecordedQuery[] = [];
+  const rpcCalls: [string, unknown][] = [];
+
+  const builder = (table: string) => {
+    const query: RecordedQuery = { table, calls: [] };
+    queries.push(query);
+    const result = tables[table] ?? { data: null, error: null };
+    const chain: Record<string, unknown> = {
+      then: (resolve: (value: StubResult) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve(result).then(resolve, reject),
+    };
+    ['select', 'insert', 'update', 'delete', 'eq', 'neq', 'in', 'gte', 'lt', 'lte', 'order', 'limit', 'maybeSingle', 'single'].forEach(
+      method => {
+        chain[method] = (...args: unknown[]) => {
+          query.calls.push([method, args]);
+          return chain;
+        };
+      }
+    );
+    return chain;
+  };
+
+  const client = {
+    from: builder,
+    rpc: (name: string, params: unknown) => {
+      rpcCalls.push([name, params]);
+      return Promise.resolve(rpcs[name] ?? { data: null, error: null });
+    },
+  } as unknown as DatabaseClient;
+
+  return { client, queries, rpcCalls };
+};
+
+const schedule = {
+  id: 'schedule-1',
+  medication_id: 'med-1',
+  scheduled_time: '08:00',
+  days_of_week: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+  rule: null,
+  medications: {
+    id: 'med-1',
+    name: 'Levodopa',
+    dosage: '100mg',
+    instructions: null,
+    start_date: null,
+    end_date: null,
+    escalation_policy: null,
+  },
+};
+
+const log = (intended: Date, takenAt: Date) => ({
+  id: `log-${intended.getDate()}`,
+  created_at: null,
+  intended_dose_time: intended.toISOString(),
+  medication_id: 'med-1',
+  notes: null,
+  schedule_id: 'schedule-1',
+  status: 'taken',
+  taken_at: takenAt.toISOString(),
+  user_id: 'patient-1',
+});
+
+describe('DoseLogRepository', () => {
+  it('queries the logs of a patient in the dose window', async () => {
+    const { client, queries } = createStubClient({ medication_administration_logs: { data: [], error: null } });
+    const from = new Date('2025-01-06T00:00:00Z');
+    const to = new Date('2025-01-07T00:00:00Z');
+
+    await expect(createRepositories(client).doseLogs.listForDoseWindow('patient-1', from, to)).resolves.toEqual([]);
+    expect(queries).toEqual([
+      {
+        table: 'medication_administration_logs',
+        calls: [
+          ['select', ['*']],
+          ['eq', ['user_id', 'patient-1']],
+          ['gte', ['intended_dose_time', '2025-01-06T00:00:00.000Z']],
+          ['lt', ['intended_dose_time', '2025-01-07T00:00:00.000Z']],
+          ['order', ['intended_dose_time', { ascending: true }]],
+        ],
+      },
+    ]);
+  });
+
+  it('throws the database error', async () => {
+    const error = { message: 'permission denied' };
+    const { client } = createStubClient({ medication_administration_logs: { data: null, error } });
+    await expect(createRepositories(client).doseLogs.listForDoseWindow('patient-1', new Date(), new Date())).rejects.toBe(error);
+  });
+});
+
+describe('getAdherence', () => {
+  it('classifies the expected doses against the logs', async () => {
+    const { client, queries } = createStubClient({
+      medication_schedules: { data: [schedule], error: null },
+      medication_administration_logs: {
+        data: [log(new Date(2025, 0, 6, 8), new Date(2025, 0, 6, 8, 10)), log(new Date(2025, 0, 7, 8), new Date(2025, 0, 7, 10))],
+        error: null,
+      },
+    });
+
+    const doses = await createRepositories(client).getAdherence('patient-1', new Date(2025, 0, 6), new Date(2025, 0, 8), {
+      now: new Date(2025, 0, 8, 12),
+    });
+
+    expect(doses.map(dose => [dose.intendedDoseTime.getDate(), dose.status])).toEqual([
+      [6, 'on_time'],
+      [7, 'late'],
+      [8, 'missed'],
+    ]);
+    // Logs are loaded up to the end of the last day
+    const logQuery = queries.find(query => query.table === 'medication_administration_logs')!;
+    expect(logQuery.calls).toContainEqual(['lt', ['intended_dose_time', new Date(2025, 0, 9).toISOString()]]);
+  });
+
+  it('summarizes a day', async () => {
+    const { client } = createStubClient({
+      medication_schedules: { data: [schedule], error: null },
+      medication_administration_logs: { data: [], error: null },
+    });
+
+    const stats = await createRepositories(client).getDailyAdherence('patient-1', new Date(2025, 0, 6), {
+      now: new Date(2025, 0, 6, 7),
+    });
+    expect(stats).toMatchObject({ total: 1, due: 0, upcoming: 1, percentage: 0 });
+  });
+});
+
+describe('listAlertRecipientIds', () => {
+  it('alerts the caregivers on call when the patient has a rota', async () => {
+    const { client, queries, rpcCalls } = createStubClient({}, { get_on_call_caregiver_ids: { data: ['caregiver-2'], error: null } });
+
+    await expect(createRepositories(client).listAlertRecipientIds('patient-1')).resolves.toEqual(['caregiver-2']);
+    expect(rpcCalls[0][0]).toBe('get_on_call_caregiver_ids');
+    expect(queries).toEqual([]);
+  });
+
+  it('falls back to every active caregiver when nobody is on call', async () => {
+    const { client, queries } = createStubClient(
+      { patient_caregiver_connections: { data: [{ caregiver_id: 'caregiver-1' }, { caregiver_id: 'caregiver-3' }], error: null } },
+      { get_on_call_caregiver_ids: { data: [], error: null } }
+    );
+
+    await expect(createRepositories(client).listAlertRecipientIds('patient-1')).resolves.toEqual(['caregiver-1', 'caregiver-3']);
+    expect(queries[0].calls).toEqual([
+      ['select', ['caregiver_id']],
+      ['eq', ['patient_id', 'patient-1']],
+      ['eq', ['connection_status', 'active']],
+    ]);
+  });
+});
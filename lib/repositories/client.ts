@@ -0,0 +1,5 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../database.types';
+
+// Repositories only depend on this interface, so tests can pass a mocked client
+export type DatabaseClient = SupabaseClient<Database>;
@@ -0,0 +1,105 @@
+import { supabase } from '../supabase';
+import { AdherenceOptions, AdherenceStats, DoseAdherence, classifyDoses, expandDoses, summarizeDoses } from '../adherence';
+import { DatabaseClient } from './client';
+import { MedicationRepository } from './MedicationRepository';
+import { ScheduleRepository } from './ScheduleRepository';
+import { DoseLogRepository } from './DoseLogRepository';
+import { AppointmentRepository } from './AppointmentRepository';
+import { MetricRepository } from './MetricRepository';
+import { CheckinRepository } from './CheckinRepository';
+import { MotorDiaryRepository } from './MotorDiaryRepository';
+import { AppointmentReportRepository } from './AppointmentReportRepository';
+import { SymptomLogRepository } from './SymptomLogRepository';
+import { AssessmentRepository } from './AssessmentRepository';
+import { ConnectionRepository } from './ConnectionRepository';
+import { CaregiverAlertRepository } from './CaregiverAlertRepository';
+import { MedicationAlarmRepository } from './MedicationAlarmRepository';
+import { NotificationSettingsRepository } from './NotificationSettingsRepository';
+import { DeviceRepository } from './DeviceRepository';
+import { CaregiverRotaRepository } from './CaregiverRotaRepository';
+import { AlertRuleRepository } from './AlertRuleRepository';
+import { OrthostaticTestRepository } from './OrthostaticTestRepository';
+
+export * from './client';
+export * from './MedicationRepository';
+export * from './ScheduleRepository';
+export * from './DoseLogRepository';
+export * from './AppointmentRepository';
+export * from './MetricRepository';
+export * from './CheckinRepository';
+export * from './MotorDiaryRepository';
+export * from './AppointmentReportRepository';
+export * from './SymptomLogRepository';
+export * from './AssessmentRepository';
+export * from './ConnectionRepository';
+export * from './CaregiverAlertRepository';
+export * from './MedicationAlarmRepository';
+export * from './NotificationSettingsRepository';
+export * from './DeviceRepository';
+export * from './CaregiverRotaRepository';
+export * from './AlertRuleRepository';
+export * from './OrthostaticTestRepository';
+
+export const createRepositories = (client: DatabaseClient) => {
+  const medications = new MedicationRepository(client);
+  const schedules = new ScheduleRepository(client);
+  const doseLogs = new DoseLogRepository(client);
+  const connections = new ConnectionRepository(client);
+  const caregiverRota = new CaregiverRotaRepository(client);
+
+  // Every expected dose between the two days (inclusive), classified by the adherence engine
+  const getAdherence = async (
+    patientId: string,
+    from: Date,
+    to: Date,
+    options: AdherenceOptions = {}
+  ): Promise<DoseAdherence[]> => {
+    const rangeStart = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+    const rangeEnd = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+
+    const [scheduleRows, logs] = await Promise.all([
+      schedules.listWithMedications(patientId),
+      doseLogs.listForDoseWindow(patientId, rangeStart, rangeEnd),
+    ]);
+    return classifyDoses(expandDoses(scheduleRows, rangeStart, to), logs, options);
+  };
+
+  return {
+    medications,
+    schedules,
+    doseLogs,
+    appointments: new AppointmentRepository(client),
+    metrics: new MetricRepository(client),
+    checkins: new CheckinRepository(client),
+    motorDiary: new MotorDiaryRepository(client),
+    appointmentReports: new AppointmentReportRepository(client),
+    symptomLogs: new SymptomLogRepository(client),
+    assessments: new AssessmentRepository(client),
+    connections,
+    caregiverAlerts: new CaregiverAlertRepository(client),
+    alarms: new MedicationAlarmRepository(client),
+    notificationSettings: new NotificationSettingsRepository(client),
+    devices: new DeviceRepository(client),
+    caregiverRota,
+    alertRules: new AlertRuleRepository(client),
+    orthostaticTests: new OrthostaticTestRepository(client),
+
+    getAdherence,
+
+    // Who an alert raised now should go to: the caregivers on call when the patient
+    // has a rota, otherwise every active caregiver
+    async listAlertRecipientIds(patientId: string): Promise<string[]> {
+      const onCall = await caregiverRota.listOnCallCaregiverIds(patientId);
+      return onCall.length > 0 ? onCall : connections.listActiveCaregiverIds(patientId);
+    },
+
+    async getDailyAdherence(patientId: string, date: Date, options: AdherenceOptions = {}): Promise<AdherenceStats> {
+      return summarizeDoses(await getAdherence(patientId, date, date, options));
+    },
+  };
+};
+
+export type Repositories = ReturnType<typeof createRepositories>;
+
+// The app-wide client is created untyped; the generated types describe the same schema
+export const repositories = createRepositories(supabase as unknown as DatabaseClient);
@@ -0,0 +1,291 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import type { DayOfWeek } from './repositories/ScheduleRepository';
+
+// Schedule rules describe when a medication is due. A medication_schedules row
+// without a rule is a plain fixed time on chosen weekdays (the original shape);
+// everything else is stored in medication_schedules.rule.
+
+export type ScheduleRuleKind = 'fixed' | 'interval' | 'as_needed' | 'titration';
+
+export interface FixedTimeRule {
+  kind: 'fixed';
+  time: string; // HH:mm
+  daysOfWeek: DayOfWeek[];
+}
+
+// "Every 3 hours while awake": doses from firstDose every intervalMinutes, up to and including lastDose
+export interface IntervalRule {
+  kind: 'interval';
+  intervalMinutes: number;
+  firstDose: string; // HH:mm
+  lastDose: string; // HH:mm
+  daysOfWeek: DayOfWeek[];
+}
+
+// Rescue doses taken when needed. Nothing is expected, so nothing is ever missed.
+export interface AsNeededRule {
+  kind: 'as_needed';
+  maxDosesPerDay: number;
+  minMinutesBetween: number | null;
+}
+
+export interface TitrationPhase {
+  days: number | null; // null = continues until the medication's end date (last phase only)
+  times: string[]; // HH:mm, every day of the phase
+  dosage: string; // Shown in reminders and on the calendar, e.g. "25/100, 1 tablet"
+  doseAmount: number | null;
+}
+
+// Phases run back to back from startDate, e.g. a weekly levodopa up-titration or a taper
+export interface TitrationRule {
+  kind: 'titration';
+  startDate: string; // yyyy-MM-dd
+  phases: TitrationPhase[];
+}
+
+export type ScheduleRule = FixedTimeRule | IntervalRule | AsNeededRule | TitrationRule;
+
+// The rules stored in medication_schedules.rule
+export type FlexibleScheduleRule = IntervalRule | AsNeededRule | TitrationRule;
+
+// A single expected dose produced by a rule
+export interface RuleOccurrence {
+  time: Date;
+  dosage: string | null; // Set when the rule overrides the medication's dosage (titration)
+  doseAmount: number | null;
+  phaseIndex: number | null;
+}
+
+// Medication start_date / end_date, both inclusive
+export interface ActiveRange {
+  startDate?: string | null;
+  endDate?: string | null;
+}
+
+export const SCHEDULE_RULE_LABELS: Record<ScheduleRuleKind, string> = {
+  fixed: 'Fixed time',
+  interval: 'Every few hours',
+  as_needed: 'As needed',
+  titration: 'Titration / taper',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidTime = (time: string): boolean => TIME_PATTERN.test(time);
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const atMinutes = (day: Date, minutes: number): Date =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+
+const isOnDay = (daysOfWeek: DayOfWeek[], day: Date): boolean =>
+  daysOfWeek.includes(format(day, 'EEE') as DayOfWeek);
+
+const isWithinRange = (day: Date, range: ActiveRange): boolean => {
+  const dateString = format(day, 'yyyy-MM-dd');
+  if (range.startDate && dateString < range.startDate) return false;
+  if (range.endDate && dateString > range.endDate) return false;
+  return true;
+};
+
+const occurrence = (time: Date, overrides: Partial<RuleOccurrence> = {}): RuleOccurrence => ({
+  time,
+  dosage: null,
+  doseAmount: null,
+  phaseIndex: null,
+  ...overrides,
+});
+
+// A wall-clock time skipped when clocks go forward lands on the next hour, which may
+// already have a dose; that dose is only expected once
+const dropRepeatedTimes = (occurrences: RuleOccurrence[]): RuleOccurrence[] =>
+  occurrences.filter((o, i) => i === 0 || o.time.getTime() !== occurrences[i - 1].time.getTime());
+
+// The phase in effect on a day, or null before the start and after a finite plan ends
+export const getTitrationPhaseIndex = (rule: TitrationRule, day: Date): number | null => {
+  let dayIndex = differenceInCalendarDays(day, parseISO(rule.startDate));
+  if (dayIndex < 0) return null;
+
+  for (let i = 0; i < rule.phases.length; i++) {
+    const { days } = rule.phases[i];
+    if (days === null || dayIndex < days) return i;
+    dayIndex -= days;
+  }
+  return null;
+};
+
+export const getTitrationPhaseStart = (rule: TitrationRule, phaseIndex: number): Date =>
+  addDays(parseISO(rule.startDate), rule.phases.slice(0, phaseIndex).reduce((sum, phase) => sum + (phase.days ?? 0), 0));
+
+// Every occurrence of a rule on one calendar day, in time order
+export const expandRuleForDay = (rule: ScheduleRule, day: Date): RuleOccurrence[] => {
+  switch (rule.kind) {
+    case 'fixed':
+      return isOnDay(rule.daysOfWeek, day) ? [occurrence(atMinutes(day, toMinutes(rule.time)))] : [];
+
+    case 'interval': {
+      if (!isOnDay(rule.daysOfWeek, day) || rule.intervalMinutes <= 0) return [];
+      const occurrences: RuleOccurrence[] = [];
+      const last = toMinutes(rule.lastDose);
+      for (let minutes = toMinutes(rule.firstDose); minutes <= last; minutes += rule.intervalMinutes) {
+        occurrences.push(occurrence(atMinutes(day, minutes)));
+      }
+      return dropRepeatedTimes(occurrences);
+    }
+
+    case 'as_needed':
+      return [];
+
+    case 'titration': {
+      const phaseIndex = getTitrationPhaseIndex(rule, day);
+      if (phaseIndex === null) return [];
+      const phase = rule.phases[phaseIndex];
+      return dropRepeatedTimes(
+        [...phase.times]
+          .sort()
+          .map(time => occurrence(atMinutes(day, toMinutes(time)), { dosage: phase.dosage, doseAmount: phase.doseAmount, phaseIndex }))
+      );
+    }
+  }
+};
+
+// Occurrences in [from, to], limited to the medication's active range
+export const expandRule = (rule: ScheduleRule, from: Date, to: Date, range: ActiveRange = {}): RuleOccurrence[] => {
+  if (from > to) return [];
+  const occurrences: RuleOccurrence[] = [];
+  for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+    if (!isWithinRange(day, range)) continue;
+    occurrences.push(...expandRuleForDay(rule, day).filter(o => o.time >= from && o.time <= to));
+  }
+  return occurrences;
+};
+
+// The next `count` occurrences after `after`, looking at most `horizonDays` ahead
+export const nextOccurrences = (
+  rule: ScheduleRule,
+  after: Date,
+  count: number,
+  range: ActiveRange = {},
+  horizonDays = 365
+): RuleOccurrence[] => {
+  const occurrences: RuleOccurrence[] = [];
+  for (let i = 0; i < horizonDays && occurrences.length < count; i++) {
+    const day = addDays(startOfDay(after), i);
+    if (range.endDate && format(day, 'yyyy-MM-dd') > range.endDate) break;
+    if (!isWithinRange(day, range)) continue;
+    occurrences.push(...expandRuleForDay(rule, day).filter(o => o.time > after));
+  }
+  return occurrences.slice(0, count);
+};
+
+export interface AsNeededAvailability {
+  takenToday: number;
+  remainingToday: number;
+  canTakeNow: boolean;
+  nextAllowedAt: Date | null; // When canTakeNow is false: the end of the minimum gap, or midnight once the daily max is used
+}
+
+// Whether another as-needed dose is allowed, given when earlier doses were taken.
+// The minimum gap also applies across midnight; the daily max resets at midnight.
+export const getAsNeededAvailability = (rule: AsNeededRule, takenTimes: Date[], now: Date = new Date()): AsNeededAvailability => {
+  const dayStart = startOfDay(now);
+  const previous = takenTimes.filter(t => t <= now).sort((a, b) => a.getTime() - b.getTime());
+  const takenToday = previous.filter(t => t >= dayStart).length;
+  const remainingToday = Math.max(0, rule.maxDosesPerDay - takenToday);
+  if (remainingToday === 0) {
+    return { takenToday, remainingToday, canTakeNow: false, nextAllowedAt: addDays(dayStart, 1) };
+  }
+
+  const last = previous[previous.length - 1];
+  const earliest = last && rule.minMinutesBetween ? new Date(last.getTime() + rule.minMinutesBetween * 60 * 1000) : null;
+  if (earliest && earliest > now) {
+    return { takenToday, remainingToday, canTakeNow: false, nextAllowedAt: earliest };
+  }
+  return { takenToday, remainingToday, canTakeNow: true, nextAllowedAt: null };
+};
+
+// Null when the rule can be saved, otherwise a message for the user
+export const validateScheduleRule = (rule: ScheduleRule): string | null => {
+  switch (rule.kind) {
+    case 'fixed':
+      if (!TIME_PATTERN.test(rule.time)) return 'Enter the time as HH:MM.';
+      if (rule.daysOfWeek.length === 0) return 'Choose at least one day.';
+      return null;
+
+    case 'interval':
+      if (!TIME_PATTERN.test(rule.firstDose) || !TIME_PATTERN.test(rule.lastDose)) return 'Enter the first and last dose as HH:MM.';
+      if (!Number.isFinite(rule.intervalMinutes) || rule.intervalMinutes < 30) return 'The interval must be at least 30 minutes.';
+      if (toMinutes(rule.lastDose) < toMinutes(rule.firstDose)) return 'The last dose must be after the first dose.';
+      if (rule.daysOfWeek.length === 0) return 'Choose at least one day.';
+      return null;
+
+    case 'as_needed':
+      if (!Number.isInteger(rule.maxDosesPerDay) || rule.maxDosesPerDay < 1) return 'Set a daily maximum of at least 1 dose.';
+      if (rule.minMinutesBetween !== null && (!Number.isFinite(rule.minMinutesBetween) || rule.minMinutesBetween < 0)) {
+        return 'The time between doses cannot be negative.';
+      }
+      return null;
+
+    case 'titration':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(rule.startDate)) return 'Choose a start date for the plan.';
+      if (rule.phases.length === 0) return 'Add at least one phase.';
+      for (let i = 0; i < rule.phases.length; i++) {
+        const phase = rule.phases[i];
+        const label = `Phase ${i + 1}`;
+        if (phase.days === null && i < rule.phases.length - 1) return `${label}: only the last phase can continue indefinitely.`;
+        if (phase.days !== null && (!Number.isInteger(phase.days) || phase.days < 1)) return `${label}: enter the number of days.`;
+        if (phase.times.length === 0 || !phase.times.every(t => TIME_PATTERN.test(t))) return `${label}: enter dose times as HH:MM.`;
+        if (!phase.dosage.trim()) return `${label}: enter the dose.`;
+      }
+      return null;
+  }
+};
+
+const formatDays = (daysOfWeek: DayOfWeek[]): string =>
+  daysOfWeek.length === 7 ? 'daily' : daysOfWeek.join(', ');
+
+const formatInterval = (minutes: number): string =>
+  minutes % 60 === 0 ? `${minutes / 60} h` : minutes > 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+
+// One line for lists, e.g. "Every 3 h, 07:00–21:00, daily"
+export const describeScheduleRule = (rule: ScheduleRule, on: Date = new Date()): string => {
+  switch (rule.kind) {
+    case 'fixed':
+      return `${rule.time}, ${formatDays(rule.daysOfWeek)}`;
+    case 'interval':
+      return `Every ${formatInterval(rule.intervalMinutes)}, ${rule.firstDose}–${rule.lastDose}, ${formatDays(rule.daysOfWeek)}`;
+    case 'as_needed':
+      return `As needed, up to ${rule.maxDosesPerDay} a day${rule.minMinutesBetween ? `, ${formatInterval(rule.minMinutesBetween)} apart` : ''}`;
+    case 'titration': {
+      const phaseIndex = getTitrationPhaseIndex(rule, on);
+      const current = phaseIndex === null ? '' : ` (phase ${phaseIndex + 1}: ${rule.phases[phaseIndex].dosage})`;
+      return `Titration from ${format(parseISO(rule.startDate), 'MMM d')}, ${rule.phases.length} phases${current}`;
+    }
+  }
+};
+
+// medication_schedules.scheduled_time is required; rule rows store their first dose of the day
+export const getRepresentativeTime = (rule: ScheduleRule): string => {
+  switch (rule.kind) {
+    case 'fixed':
+      return rule.time;
+    case 'interval':
+      return rule.firstDose;
+    case 'as_needed':
+      return '00:00';
+    case 'titration':
+      return [...(rule.phases[0]?.times ?? [])].sort()[0] ?? '00:00';
+  }
+};
+
+// Rows store the JSON as written; anything unrecognised is treated as no rule
+export const parseScheduleRule = (value: unknown): FlexibleScheduleRule | null => {
+  if (!value || typeof value !== 'object') return null;
+  const kind = (value as { kind?: unknown }).kind;
+  return kind === 'interval' || kind === 'as_needed' || kind === 'titration'
+    ? (value as FlexibleScheduleRule)
+    : null;
+};
@@ -0,0 +1,187 @@
+import { MetricDefinition, MetricRange } from './metricDefinitions';
+
+// Readings are stored in canonical units: kg, mmol/L, °C and cm (and mmHg, hours and
+// the like, which have no alternatives here). Each user picks the units they read and
+// type values in, stored in profiles.preferences.units; a category whose unit is
+// canonical for a quantity is shown in the viewer's unit for that quantity, and
+// values typed in that unit are converted back before they are saved.
+
+export type Quantity = 'weight' | 'bloodGlucose' | 'temperature' | 'height';
+
+export type UnitPreferences = Record<Quantity, string>;
+
+interface UnitDefinition {
+  symbol: string;
+  quantity: Quantity;
+  name: string;
+  decimalPlaces: number; // For display
+  toCanonical: (value: number) => number;
+  fromCanonical: (value: number) => number;
+}
+
+export interface UnitConversion {
+  unit: string | null; // Shown to the viewer
+  decimalPlaces: number | null; // Null when nothing is converted
+  toDisplay: (value: number) => number;
+  toCanonical: (value: number) => number;
+}
+
+// mg/dL per mmol/L of glucose
+const GLUCOSE_MG_PER_MMOL = 18.016;
+const KG_PER_LB = 0.45359237;
+const CM_PER_IN = 2.54;
+
+// Converted values are stored to this many places, enough to round-trip typed values
+const CANONICAL_DECIMAL_PLACES = 3;
+
+const identity = (value: number) => value;
+
+const UNITS: UnitDefinition[] = [
+  { symbol: 'kg', quantity: 'weight', name: 'Kilograms', decimalPlaces: 1, toCanonical: identity, fromCanonical: identity },
+  { symbol: 'lb', quantity: 'weight', name: 'Pounds', decimalPlaces: 1, toCanonical: v => v * KG_PER_LB, fromCanonical: v => v / KG_PER_LB },
+  { symbol: 'mmol/L', quantity: 'bloodGlucose', name: 'mmol/L', decimalPlaces: 1, toCanonical: identity, fromCanonical: identity },
+  {
+    symbol: 'mg/dL',
+    quantity: 'bloodGlucose',
+    name: 'mg/dL',
+    decimalPlaces: 0,
+    toCanonical: v => v / GLUCOSE_MG_PER_MMOL,
+    fromCanonical: v => v * GLUCOSE_MG_PER_MMOL,
+  },
+  { symbol: '°C', quantity: 'temperature', name: 'Celsius', decimalPlaces: 1, toCanonical: identity, fromCanonical: identity },
+  { symbol: '°F', quantity: 'temperature', name: 'Fahrenheit', decimalPlaces: 1, toCanonical: v => ((v - 32) * 5) / 9, fromCanonical: v => (v * 9) / 5 + 32 },
+  { symbol: 'cm', quantity: 'height', name: 'Centimetres', decimalPlaces: 1, toCanonical: identity, fromCanonical: identity },
+  { symbol: 'in', quantity: 'height', name: 'Inches', decimalPlaces: 1, toCanonical: v => v * CM_PER_IN, fromCanonical: v => v / CM_PER_IN },
+];
+
+// Other ways people type the same units into a custom category
+const UNIT_ALIASES: Record<string, string> = {
+  kgs: 'kg',
+  kilograms: 'kg',
+  lbs: 'lb',
+  pounds: 'lb',
+  'mmol/l': 'mmol/L',
+  'mg/dl': 'mg/dL',
+  c: '°C',
+  '°c': '°C',
+  celsius: '°C',
+  f: '°F',
+  '°f': '°F',
+  fahrenheit: '°F',
+  inches: 'in',
+  '"': 'in',
+};
+
+export const QUANTITY_LABELS: Record<Quantity, string> = {
+  weight: 'Weight',
+  bloodGlucose: 'Blood glucose',
+  temperature: 'Temperature',
+  height: 'Height and length',
+};
+
+export const CANONICAL_UNITS: UnitPreferences = {
+  weight: 'kg',
+  bloodGlucose: 'mmol/L',
+  temperature: '°C',
+  height: 'cm',
+};
+
+export const US_UNITS: UnitPreferences = {
+  weight: 'lb',
+  bloodGlucose: 'mg/dL',
+  temperature: '°F',
+  height: 'in',
+};
+
+// Countries that weigh in pounds and measure glucose in mg/dL
+const US_UNIT_REGIONS = ['US', 'LR', 'MM'];
+
+const round = (value: number, decimalPlaces: number): number => {
+  const factor = 10 ** decimalPlaces;
+  return Math.round(value * factor) / factor;
+};
+
+const findUnit = (symbol: string | null): UnitDefinition | undefined => {
+  const normalized = normalizeUnit(symbol);
+  return UNITS.find(unit => unit.symbol === normalized);
+};
+
+export const getUnitChoices = (quantity: Quantity) =>
+  UNITS.filter(unit => unit.quantity === quantity).map(({ symbol, name }) => ({ symbol, name }));
+
+// A known unit in its standard spelling, or the unit as given
+export const normalizeUnit = (unit: string | null): string | null => {
+  if (unit === null) return null;
+  const trimmed = unit.trim();
+  return UNIT_ALIASES[trimmed.toLowerCase()] ?? UNITS.find(u => u.symbol.toLowerCase() === trimmed.toLowerCase())?.symbol ?? trimmed;
+};
+
+// The unit a category with this unit stores its readings in
+export const getCanonicalUnit = (unit: string | null): string | null => {
+  const known = findUnit(unit);
+  return known ? CANONICAL_UNITS[known.quantity] : unit;
+};
+
+export const getDefaultUnitPreferences = (locale = Intl.DateTimeFormat().resolvedOptions().locale): UnitPreferences => {
+  const region = locale.split(/[-_]/)[1]?.toUpperCase();
+  return region && US_UNIT_REGIONS.includes(region) ? US_UNITS : CANONICAL_UNITS;
+};
+
+// The viewer's units from profiles.preferences, falling back to the device locale
+export const getUnitPreferences = (preferences: { [key: string]: any } | null | undefined): UnitPreferences => {
+  const defaults = getDefaultUnitPreferences();
+  const stored = preferences?.units ?? {};
+  return (Object.keys(defaults) as Quantity[]).reduce((units, quantity) => {
+    const choice = findUnit(typeof stored[quantity] === 'string' ? stored[quantity] : null);
+    units[quantity] = choice?.quantity === quantity ? choice.symbol : defaults[quantity];
+    return units;
+  }, {} as UnitPreferences);
+};
+
+// How to show and read back values of a category stored in `unit`
+export const getUnitConversion = (unit: string | null, preferences: UnitPreferences): UnitConversion => {
+  const stored = findUnit(unit);
+  const shown = stored && stored.symbol === CANONICAL_UNITS[stored.quantity] ? findUnit(preferences[stored.quantity]) : undefined;
+  if (!stored || !shown || shown.symbol === stored.symbol) {
+    return { unit, decimalPlaces: null, toDisplay: identity, toCanonical: identity };
+  }
+  return {
+    unit: shown.symbol,
+    decimalPlaces: shown.decimalPlaces,
+    toDisplay: value => round(shown.fromCanonical(value), shown.decimalPlaces),
+    toCanonical: value => round(shown.toCanonical(value), CANONICAL_DECIMAL_PLACES),
+  };
+};
+
+// A value typed in `unit` as it is stored, in the canonical unit for its quantity
+export const toCanonicalValue = (value: number, unit: string | null): number => {
+  const known = findUnit(unit);
+  return known ? round(known.toCanonical(value), CANONICAL_DECIMAL_PLACES) : value;
+};
+
+export const convertValue = (value: number, fromUnit: string | null, toUnit: string | null): number => {
+  const from = findUnit(fromUnit);
+  const to = findUnit(toUnit);
+  if (!from || !to || from.quantity !== to.quantity) return value;
+  return to.fromCanonical(from.toCanonical(value));
+};
+
+const convertRange = (range: MetricRange | null, convert: (value: number) => number): MetricRange | null =>
+  range && {
+    min: range.min === null ? null : convert(range.min),
+    max: range.max === null ? null : convert(range.max),
+  };
+
+// A definition with its unit and ranges in the viewer's units. Values typed against it
+// go back through getUnitConversion(original.unit, preferences).toCanonical.
+export const localizeDefinition = (definition: MetricDefinition, preferences: UnitPreferences): MetricDefinition => {
+  const conversion = getUnitConversion(definition.unit, preferences);
+  if (conversion.decimalPlaces === null) return definition;
+  return {
+    ...definition,
+    unit: conversion.unit,
+    inputType: conversion.decimalPlaces === 0 ? 'integer' : 'decimal',
+    normalRange: convertRange(definition.normalRange, conversion.toDisplay),
+    target: convertRange(definition.target, conversion.toDisplay),
+  };
+};
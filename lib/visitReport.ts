@@ -0,0 +1,431 @@
+import { format, parseISO } from 'date-fns';
+import { AdherenceStats, DoseAdherence, MedicationAdherence, adherenceByMedication, summarizeDoses } from './adherence';
+import { MotorDiarySummary, summarizeMotorDiary } from './motorDiary';
+import { HealthMetricWithCategory } from './repositories/MetricRepository';
+import { HealthCheckin } from './repositories/CheckinRepository';
+import { MotorDiaryEntry } from './repositories/MotorDiaryRepository';
+import { SymptomLog } from './repositories/SymptomLogRepository';
+import { AssessmentResult } from './repositories/AssessmentRepository';
+
+// Clinician visit report: everything recorded in a period, reduced to what a
+// neurologist reads in the first minutes of a visit. Pure functions; fetching,
+// printing and sharing live in services/VisitReportService.
+
+export interface MetricSummary {
+  category: string;
+  unit: string;
+  count: number;
+  min: number;
+  max: number;
+  average: number;
+  latest: number;
+  latestAt: string;
+  outOfRange: number; // Readings outside the category's normal range
+  normalMin: number | null;
+  normalMax: number | null;
+}
+
+export interface CheckinResponseCount {
+  response: string;
+  count: number;
+}
+
+export interface CheckinSummary {
+  questionId: string;
+  question: string;
+  total: number;
+  responses: CheckinResponseCount[]; // Most frequent first
+}
+
+export interface SymptomSummary {
+  symptom: string;
+  count: number;
+  averageSeverity: number;
+  maxSeverity: number;
+  latestSeverity: number;
+}
+
+export interface AssessmentSummary {
+  date: string; // ISO timestamp
+  riskLevel: string;
+  percentage: number;
+  keyFactors: string[];
+}
+
+export interface VisitReport {
+  patientName: string;
+  periodStart: string; // yyyy-MM-dd, inclusive
+  periodEnd: string; // yyyy-MM-dd, inclusive
+  generatedAt: string; // ISO timestamp
+  appointment?: {
+    doctorName: string;
+    specialty: string;
+    date: string;
+    time: string;
+  };
+  adherence: AdherenceStats;
+  medications: MedicationAdherence[];
+  metrics: MetricSummary[];
+  checkins: CheckinSummary[];
+  symptoms: SymptomSummary[];
+  assessments: AssessmentSummary[];
+  motorDiary: MotorDiarySummary | null; // null when no diary entries were recorded
+}
+
+export interface VisitReportInput {
+  patientName: string;
+  periodStart: string;
+  periodEnd: string;
+  appointment?: VisitReport['appointment'];
+  doses: DoseAdherence[];
+  metrics: HealthMetricWithCategory[];
+  checkins: HealthCheckin[];
+  symptoms: SymptomLog[];
+  assessments: AssessmentResult[];
+  motorDiary: MotorDiaryEntry[];
+  now?: Date;
+}
+
+// Check-in question ids are stable; their wording lives in HealthCheckInModal
+const CHECKIN_QUESTION_LABELS: Record<string, string> = {
+  feeling_today: 'Feeling today',
+  tremor_level: 'Tremor',
+  morning_medication: 'Took morning medication',
+  sleep_quality: 'Sleep quality',
+  muscle_stiffness: 'Muscle stiffness',
+  balance_today: 'Balance',
+  energy_level: 'Energy level',
+  week_overall: 'Week overall',
+  new_symptoms: 'New symptoms',
+  exercise_days: 'Exercise days',
+};
+
+const getCheckinQuestionLabel = (questionId: string): string =>
+  CHECKIN_QUESTION_LABELS[questionId] ??
+  questionId.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+const round = (value: number, digits = 1): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+// metrics must be oldest first, as returned by MetricRepository.listBetween
+export const summarizeMetrics = (metrics: HealthMetricWithCategory[]): MetricSummary[] => {
+  const byCategory = new Map<string, HealthMetricWithCategory[]>();
+  metrics.forEach(metric => {
+    const name = metric.health_metric_categories.name;
+    byCategory.set(name, [...(byCategory.get(name) ?? []), metric]);
+  });
+
+  return [...byCategory.entries()]
+    .map(([category, readings]) => {
+      const values = readings.map(r => Number(r.value));
+      const { unit: categoryUnit, normal_range_min: normalMin, normal_range_max: normalMax } = readings[0].health_metric_categories;
+      const latest = readings[readings.length - 1];
+      return {
+        category,
+        unit: categoryUnit ?? '',
+        count: values.length,
+        min: Math.min(...values),
+        max: Math.max(...values),
+        average: round(values.reduce((sum, v) => sum + v, 0) / values.length),
+        latest: Number(latest.value),
+        latestAt: latest.recorded_at,
+        outOfRange: values.filter(v => (normalMin != null && v < normalMin) || (normalMax != null && v > normalMax)).length,
+        normalMin,
+        normalMax,
+      };
+    })
+    .sort((a, b) => a.category.localeCompare(b.category));
+};
+
+export const summarizeCheckins = (checkins: HealthCheckin[]): CheckinSummary[] => {
+  const byQuestion = new Map<string, Map<string, number>>();
+  checkins.forEach(checkin => {
+    const counts = byQuestion.get(checkin.question_id) ?? new Map<string, number>();
+    counts.set(checkin.response, (counts.get(checkin.response) ?? 0) + 1);
+    byQuestion.set(checkin.question_id, counts);
+  });
+
+  return [...byQuestion.entries()]
+    .map(([questionId, counts]) => {
+      const responses = [...counts.entries()]
+        .map(([response, count]) => ({ response, count }))
+        .sort((a, b) => b.count - a.count);
+      return {
+        questionId,
+        question: getCheckinQuestionLabel(questionId),
+        total: responses.reduce((sum, r) => sum + r.count, 0),
+        responses,
+      };
+    })
+    .sort((a, b) => a.question.localeCompare(b.question));
+};
+
+// symptoms must be oldest first, as returned by SymptomLogRepository.listBetween
+export const summarizeSymptoms = (symptoms: SymptomLog[]): SymptomSummary[] => {
+  const bySymptom = new Map<string, number[]>();
+  symptoms.forEach(log => {
+    const symptom = log.symptom_type ?? 'General';
+    bySymptom.set(symptom, [...(bySymptom.get(symptom) ?? []), Number(log.severity)]);
+  });
+
+  return [...bySymptom.entries()]
+    .map(([symptom, severities]) => ({
+      symptom,
+      count: severities.length,
+      averageSeverity: round(severities.reduce((sum, v) => sum + v, 0) / severities.length),
+      maxSeverity: Math.max(...severities),
+      latestSeverity: severities[severities.length - 1],
+    }))
+    .sort((a, b) => a.symptom.localeCompare(b.symptom));
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+export const summarizeAssessments = (results: AssessmentResult[]): AssessmentSummary[] =>
+  results.map(result => ({
+    date: result.created_at ?? '',
+    riskLevel: result.risk_level,
+    percentage: result.percentage,
+    keyFactors: toStringList(result.key_factors),
+  }));
+
+export const buildVisitReport = (input: VisitReportInput): VisitReport => ({
+  patientName: input.patientName,
+  periodStart: input.periodStart,
+  periodEnd: input.periodEnd,
+  generatedAt: (input.now ?? new Date()).toISOString(),
+  appointment: input.appointment,
+  adherence: summarizeDoses(input.doses),
+  medications: adherenceByMedication(input.doses),
+  metrics: summarizeMetrics(input.metrics),
+  checkins: summarizeCheckins(input.checkins),
+  symptoms: summarizeSymptoms(input.symptoms),
+  assessments: summarizeAssessments(input.assessments),
+  motorDiary: input.motorDiary.length > 0 ? summarizeMotorDiary(input.motorDiary, input.doses) : null,
+});
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+const formatRange = (min: number | null, max: number | null): string => {
+  if (min != null && max != null) return `${min}–${max}`;
+  if (min != null) return `≥ ${min}`;
+  if (max != null) return `≤ ${max}`;
+  return '';
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const renderVisitReportHtml = (report: VisitReport): string => {
+  const { adherence, motorDiary } = report;
+
+  const medicationRows = report.medications
+    .map(m => `
+      <tr>
+        <td>${escapeHtml(m.medicationName)}</td>
+        <td>${m.stats.due}</td>
+        <td>${m.stats.onTime}</td>
+        <td>${m.stats.late}</td>
+        <td>${m.stats.skipped}</td>
+        <td>${m.stats.missed}</td>
+        <td>${m.stats.percentage}%</td>
+      </tr>`)
+    .join('');
+
+  const metricRows = report.metrics
+    .map(m => `
+      <tr>
+        <td>${escapeHtml(m.category)}</td>
+        <td>${m.count}</td>
+        <td>${m.min} – ${m.max} ${escapeHtml(m.unit)}</td>
+        <td>${m.average} ${escapeHtml(m.unit)}</td>
+        <td>${m.latest} ${escapeHtml(m.unit)}</td>
+        <td>${escapeHtml(formatRange(m.normalMin, m.normalMax))}</td>
+        <td class="${m.outOfRange > 0 ? 'flag' : ''}">${m.outOfRange}</td>
+      </tr>`)
+    .join('');
+
+  const checkinRows = report.checkins
+    .map(c => `
+      <tr>
+        <td>${escapeHtml(c.question)}</td>
+        <td>${c.total}</td>
+        <td>${c.responses.map(r => `${escapeHtml(r.response)} (${r.count})`).join(', ')}</td>
+      </tr>`)
+    .join('');
+
+  const symptomRows = report.symptoms
+    .map(s => `
+      <tr>
+        <td>${escapeHtml(s.symptom)}</td>
+        <td>${s.count}</td>
+        <td>${s.averageSeverity}</td>
+        <td>${s.maxSeverity}</td>
+        <td>${s.latestSeverity}</td>
+      </tr>`)
+    .join('');
+
+  const assessmentRows = report.assessments
+    .map(a => `
+      <tr>
+        <td>${a.date ? format(new Date(a.date), 'MMM d, yyyy') : ''}</td>
+        <td>${escapeHtml(a.riskLevel)}</td>
+        <td>${a.percentage}%</td>
+        <td>${a.keyFactors.map(escapeHtml).join('; ')}</td>
+      </tr>`)
+    .join('');
+
+  const emptyRow = (columns: number, text: string) => `<tr><td colspan="${columns}" class="empty">${text}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1f2937; font-size: 12px; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; color: #4c1d95; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .meta { color: #6b7280; margin: 2px 0; }
+  .stats { display: flex; gap: 12px; }
+  .stat { flex: 1; border: 1px solid #e5e7eb; border-radius: 8px; padding: 8px; }
+  .stat .value { font-size: 18px; font-weight: 600; }
+  .stat .label { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #f3f4f6; }
+  th { background: #f9fafb; font-weight: 600; }
+  .flag { color: #b91c1c; font-weight: 600; }
+  .empty { color: #9ca3af; font-style: italic; }
+  .note { color: #6b7280; margin-top: 24px; font-size: 10px; }
+</style>
+</head>
+<body>
+  <h1>Visit report: ${escapeHtml(report.patientName)}</h1>
+  <p class="meta">Period: ${formatDay(report.periodStart)} – ${formatDay(report.periodEnd)}</p>
+  ${report.appointment ? `<p class="meta">Appointment: Dr. ${escapeHtml(report.appointment.doctorName)} (${escapeHtml(report.appointment.specialty)}), ${formatDay(report.appointment.date)} ${report.appointment.time.slice(0, 5)}</p>` : ''}
+  <p class="meta">Generated: ${format(new Date(report.generatedAt), 'MMM d, yyyy h:mm a')}</p>
+
+  <h2>Medication adherence</h2>
+  <div class="stats">
+    <div class="stat"><div class="value">${adherence.percentage}%</div><div class="label">Doses taken</div></div>
+    <div class="stat"><div class="value">${adherence.onTimePercentage}%</div><div class="label">Taken on time</div></div>
+    <div class="stat"><div class="value">${adherence.missed}</div><div class="label">Missed</div></div>
+    <div class="stat"><div class="value">${adherence.skipped}</div><div class="label">Skipped</div></div>
+  </div>
+  <table style="margin-top: 8px">
+    <tr><th>Medication</th><th>Due</th><th>On time</th><th>Late</th><th>Skipped</th><th>Missed</th><th>Taken</th></tr>
+    ${medicationRows || emptyRow(7, 'No scheduled doses in this period')}
+  </table>
+
+  <h2>ON/OFF diary</h2>
+  ${motorDiary ? `
+  <div class="stats">
+    <div class="stat"><div class="value">${motorDiary.offPercentage}%</div><div class="label">Awake time OFF</div></div>
+    <div class="stat"><div class="value">${motorDiary.goodOnHours} h</div><div class="label">Good ON time</div></div>
+    <div class="stat"><div class="value">${motorDiary.troublesomeDyskinesiaHours} h</div><div class="label">Troublesome dyskinesia</div></div>
+    <div class="stat"><div class="value">${motorDiary.wearingOffHours} h</div><div class="label">OFF before next dose</div></div>
+  </div>
+  <p class="meta">${motorDiary.recordedHours} hours recorded, ${motorDiary.awakeHours} awake.</p>` : '<p class="empty">No diary entries in this period</p>'}
+
+  <h2>Health metrics</h2>
+  <table>
+    <tr><th>Metric</th><th>Readings</th><th>Range</th><th>Average</th><th>Latest</th><th>Target</th><th>Out of range</th></tr>
+    ${metricRows || emptyRow(7, 'No readings in this period')}
+  </table>
+
+  <h2>Daily check-ins</h2>
+  <table>
+    <tr><th>Question</th><th>Answers</th><th>Responses</th></tr>
+    ${checkinRows || emptyRow(3, 'No check-ins in this period')}
+  </table>
+
+  <h2>Symptom logs</h2>
+  <table>
+    <tr><th>Symptom</th><th>Entries</th><th>Average severity</th><th>Worst</th><th>Latest</th></tr>
+    ${symptomRows || emptyRow(5, 'No symptoms logged in this period')}
+  </table>
+
+  <h2>Screening assessments</h2>
+  <table>
+    <tr><th>Date</th><th>Risk level</th><th>Likelihood</th><th>Key factors</th></tr>
+    ${assessmentRows || emptyRow(4, 'No assessments taken in this period')}
+  </table>
+
+  <p class="note">Patient-reported data from the app. Adherence counts a dose as late when taken more than an hour after its scheduled time.</p>
+</body>
+</html>`;
+};
+
+const csvCell = (value: string | number | null | undefined): string => {
+  const text = value == null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One long-format table so the file opens cleanly in any spreadsheet:
+// section, item, measure, value, unit
+export const renderVisitReportCsv = (report: VisitReport): string => {
+  const rows: (string | number | null)[][] = [['section', 'item', 'measure', 'value', 'unit']];
+  const add = (section: string, item: string, measure: string, value: string | number | null, unit = '') =>
+    rows.push([section, item, measure, value, unit]);
+
+  add('report', report.patientName, 'period_start', report.periodStart);
+  add('report', report.patientName, 'period_end', report.periodEnd);
+  add('report', report.patientName, 'generated_at', report.generatedAt);
+  if (report.appointment) {
+    add('report', `Dr. ${report.appointment.doctorName}`, 'appointment', `${report.appointment.date} ${report.appointment.time.slice(0, 5)}`);
+  }
+
+  const addAdherence = (item: string, stats: AdherenceStats) => {
+    add('adherence', item, 'due', stats.due, 'doses');
+    add('adherence', item, 'on_time', stats.onTime, 'doses');
+    add('adherence', item, 'late', stats.late, 'doses');
+    add('adherence', item, 'skipped', stats.skipped, 'doses');
+    add('adherence', item, 'missed', stats.missed, 'doses');
+    add('adherence', item, 'taken_percentage', stats.percentage, '%');
+  };
+  addAdherence('All medications', report.adherence);
+  report.medications.forEach(m => addAdherence(m.medicationName, m.stats));
+
+  if (report.motorDiary) {
+    const d = report.motorDiary;
+    add('motor_diary', 'All days', 'recorded', d.recordedHours, 'h');
+    add('motor_diary', 'All days', 'off', d.offHours, 'h');
+    add('motor_diary', 'All days', 'off_percentage_awake', d.offPercentage, '%');
+    add('motor_diary', 'All days', 'good_on', d.goodOnHours, 'h');
+    add('motor_diary', 'All days', 'troublesome_dyskinesia', d.troublesomeDyskinesiaHours, 'h');
+    add('motor_diary', 'All days', 'wearing_off', d.wearingOffHours, 'h');
+  }
+
+  report.metrics.forEach(m => {
+    add('metrics', m.category, 'readings', m.count);
+    add('metrics', m.category, 'min', m.min, m.unit);
+    add('metrics', m.category, 'max', m.max, m.unit);
+    add('metrics', m.category, 'average', m.average, m.unit);
+    add('metrics', m.category, 'latest', m.latest, m.unit);
+    add('metrics', m.category, 'out_of_range', m.outOfRange);
+  });
+
+  report.checkins.forEach(c => {
+    c.responses.forEach(r => add('checkins', c.question, r.response, r.count, 'answers'));
+  });
+
+  report.symptoms.forEach(sym => {
+    add('symptoms', sym.symptom, 'entries', sym.count);
+    add('symptoms', sym.symptom, 'average_severity', sym.averageSeverity);
+    add('symptoms', sym.symptom, 'max_severity', sym.maxSeverity);
+    add('symptoms', sym.symptom, 'latest_severity', sym.latestSeverity);
+  });
+
+  report.assessments.forEach(a => {
+    add('assessments', a.date, 'risk_level', a.riskLevel);
+    add('assessments', a.date, 'likelihood', a.percentage, '%');
+  });
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+};
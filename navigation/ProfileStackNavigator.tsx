@@ -3,11 +3,25 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import ProfileScreen from '../screens/ProfileScreen';
 import EditProfileScreen from '../screens/EditProfileScreen';
 import ConnectionsScreen from '../screens/ConnectionsScreen';
+import NotificationSettingsScreen from '../screens/NotificationSettingsScreen';
+import AlertHistoryScreen from '../screens/AlertHistoryScreen';
+import DevicesScreen from '../screens/DevicesScreen';
+import OnCallRotaScreen from '../screens/OnCallRotaScreen';
+import AlertRulesScreen from '../screens/AlertRulesScreen';
+import TrackedMetricsScreen from '../screens/TrackedMetricsScreen';
+import UnitSettingsScreen from '../screens/UnitSettingsScreen';
 
 export type ProfileStackParamList = {
   Profile: undefined;
   EditProfile: undefined;
   Connections: undefined;
+  NotificationSettings: undefined;
+  AlertHistory: undefined;
+  Devices: undefined;
+  OnCallRota: undefined;
+  AlertRules: undefined;
+  TrackedMetrics: undefined;
+  UnitSettings: undefined;
 };
 
 const Stack = createNativeStackNavigator<ProfileStackParamList>();
@@ -28,6 +42,62 @@ const ProfileStackNavigator = () => {
           title: 'Manage Connections'
         }}
       />
+      <Stack.Screen 
+        name="NotificationSettings" 
+        component={NotificationSettingsScreen}
+        options={{ 
+          headerShown: true,
+          title: 'Notifications'
+        }}
+      />
+      <Stack.Screen 
+        name="AlertHistory" 
+        component={AlertHistoryScreen}
+        options={{ 
+          headerShown: true,
+          title: 'Alert History'
+        }}
+      />
+      <Stack.Screen 
+        name="Devices" 
+        component={DevicesScreen}
+        options={{ 
+          headerShown: true,
+          title: 'Devices'
+        }}
+      />
+      <Stack.Screen 
+        name="OnCallRota" 
+        component={OnCallRotaScreen}
+        options={{ 
+          headerShown: true,
+          title: 'On-call Rota'
+        }}
+      />
+      <Stack.Screen 
+        name="AlertRules" 
+        component={AlertRulesScreen}
+        options={{ 
+          headerShown: true,
+          title: 'Alert Rules'
+        }}
+      />
+      <Stack.Screen 
+        name="TrackedMetrics" 
+        component={TrackedMetricsScreen}
+        options={{ 
+          headerShown: true,
+          title: 'Tracked Metrics'
+        }}
+      />
+      <Stack.Screen 
+        name="UnitSettings" 
+        component={UnitSettingsScreen}
+        options={{ 
+          headerShown: true,
+          title: 'Units'
+        }}
+      />
     </Stack.Navigator>
   );
 };
@@ -0,0 +1,323 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Button, Chip, Dialog, Portal, Surface, Text, TextInput, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { format, subDays } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { repositories } from '../lib/repositories';
+import {
+  ALERT_STATUS_LABELS,
+  ALERT_TYPE_LABELS,
+  AlertIncident,
+  buildAlertIncidents,
+  formatMinutes,
+  getResolutionMinutes,
+  getResponseMinutes,
+  summarizeAlertResponses,
+} from '../lib/alertLifecycle';
+import { readRuleAlertDetails } from '../lib/alertRules';
+import NotificationService from '../services/NotificationService';
+import CaregiverRealtimeService from '../services/CaregiverRealtimeService';
+
+const HISTORY_DAYS = 90;
+
+const STATUS_COLORS = {
+  open: '#ef4444',
+  acknowledged: '#f59e0b',
+  resolved: '#22c55e',
+};
+
+const AlertHistoryScreen: React.FC = () => {
+  const { user, patients } = useAuth();
+  const theme = useTheme();
+  const isCaregiver = user?.role === 'caregiver';
+
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [incidents, setIncidents] = useState<AlertIncident[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<AlertIncident | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+
+  const patientId = isCaregiver ? selectedPatientId : user?.id ?? null;
+
+  useEffect(() => {
+    if (isCaregiver && patients.length > 0 && !patients.some(p => p.id === selectedPatientId)) {
+      setSelectedPatientId(patients[0].id);
+    }
+  }, [isCaregiver, patients, selectedPatientId]);
+
+  const loadHistory = useCallback(async () => {
+    if (!patientId || !user) return;
+    try {
+      const alerts = await repositories.caregiverAlerts.listForPatient(patientId, subDays(new Date(), HISTORY_DAYS));
+      const events = await repositories.caregiverAlerts.listEvents([...new Set(alerts.map(alert => alert.incident_id))]);
+      setIncidents(buildAlertIncidents(alerts, events, user.id));
+    } catch (error) {
+      console.error('[AlertHistoryScreen] Failed to load alert history:', error);
+      Alert.alert('Error', 'Could not load the alert history.');
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId, user?.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadHistory();
+  }, [loadHistory]);
+
+  // Another caregiver's response arrives as an update to this caregiver's own row
+  useEffect(() => {
+    if (!isCaregiver || !patientId) return;
+    return CaregiverRealtimeService.subscribe(event => {
+      if (event.kind === 'resync' || (event.kind !== 'dose_log' && event.patientId === patientId)) {
+        loadHistory();
+      }
+    });
+  }, [isCaregiver, patientId, loadHistory]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadHistory();
+    setRefreshing(false);
+  };
+
+  const stats = useMemo(() => summarizeAlertResponses(incidents), [incidents]);
+
+  const respond = async (incident: AlertIncident, status: 'acknowledged' | 'resolved', note?: string) => {
+    if (!incident.ownAlertId) return;
+    setRespondingId(incident.incidentId);
+    try {
+      const response = await NotificationService.respondToCaregiverAlert(incident.ownAlertId, status, note);
+      if (!response.changed) {
+        Alert.alert('Already handled', `This alert is already ${ALERT_STATUS_LABELS[response.status].toLowerCase()}.`);
+      }
+      await loadHistory();
+    } catch (error) {
+      console.error('[AlertHistoryScreen] Failed to respond to alert:', error);
+      Alert.alert('Error', 'Could not update the alert. Please try again.');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const confirmResolve = async () => {
+    if (!resolving) return;
+    const incident = resolving;
+    setResolving(null);
+    await respond(incident, 'resolved', resolutionNote);
+    setResolutionNote('');
+  };
+
+  const renderIncident = (incident: AlertIncident) => {
+    const responseMinutes = getResponseMinutes(incident);
+    const resolutionMinutes = getResolutionMinutes(incident);
+    const canRespond = isCaregiver && !!incident.ownAlertId && incident.status !== 'resolved';
+    const ruleDetails = readRuleAlertDetails(incident.details);
+
+    return (
+      <Surface key={incident.incidentId} style={[styles.card, { backgroundColor: theme.colors.surface }]} elevation={1}>
+        <View style={styles.cardHeader}>
+          <Text variant="titleSmall" style={styles.cardTitle}>
+            {ALERT_TYPE_LABELS[incident.alertType] ?? 'Alert'}
+          </Text>
+          <Chip
+            compact
+            textStyle={{ color: '#fff' }}
+            style={{ backgroundColor: STATUS_COLORS[incident.status] }}
+          >
+            {ALERT_STATUS_LABELS[incident.status]}
+          </Chip>
+        </View>
+        <Text variant="bodyMedium">{incident.message}</Text>
+        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {format(incident.createdAt, 'MMM d, h:mm a')}
+          {responseMinutes !== null && ` · answered in ${formatMinutes(responseMinutes)}`}
+          {resolutionMinutes !== null && ` · resolved in ${formatMinutes(resolutionMinutes)}`}
+        </Text>
+
+        {ruleDetails?.evidence.map(item => (
+          <View key={`${item.source}-${item.id}`} style={styles.event}>
+            <MaterialCommunityIcons name="chart-timeline-variant" size={16} color={theme.colors.onSurfaceVariant} />
+            <Text variant="bodySmall" style={styles.eventText}>
+              {format(new Date(item.recordedAt), 'MMM d, h:mm a')} · {item.label}: {item.value}
+            </Text>
+          </View>
+        ))}
+
+        {incident.events.map(event => (
+          <View key={event.id} style={styles.event}>
+            <MaterialCommunityIcons
+              name={event.action === 'resolved' ? 'check-circle-outline' : 'account-check-outline'}
+              size={16}
+              color={theme.colors.primary}
+            />
+            <Text variant="bodySmall" style={styles.eventText}>
+              {event.actor_name} {event.action} at {format(new Date(event.created_at), 'h:mm a')}
+              {event.note ? `: "${event.note}"` : ''}
+            </Text>
+          </View>
+        ))}
+
+        {canRespond && (
+          <View style={styles.actions}>
+            {incident.status === 'open' && (
+              <Button
+                mode="outlined"
+                compact
+                onPress={() => respond(incident, 'acknowledged')}
+                loading={respondingId === incident.incidentId}
+                disabled={respondingId !== null}
+              >
+                I'm on it
+              </Button>
+            )}
+            <Button mode="contained" compact onPress={() => setResolving(incident)} disabled={respondingId !== null}>
+              Resolve
+            </Button>
+          </View>
+        )}
+      </Surface>
+    );
+  };
+
+  if (isCaregiver && patients.length === 0) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
+        <Text variant="bodyLarge">Connect with a patient to see their alerts.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {isCaregiver && patients.length > 1 && (
+          <View style={styles.chipRow}>
+            {patients.map(patient => (
+              <Chip key={patient.id} selected={patient.id === selectedPatientId} onPress={() => setSelectedPatientId(patient.id)}>
+                {`${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() || 'Patient'}
+              </Chip>
+            ))}
+          </View>
+        )}
+
+        <Surface style={[styles.summary, { backgroundColor: theme.colors.surface }]} elevation={2}>
+          <View style={styles.summaryItem}>
+            <Text variant="headlineSmall">{stats.total}</Text>
+            <Text variant="bodySmall">Alerts ({HISTORY_DAYS} days)</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text variant="headlineSmall">{stats.open}</Text>
+            <Text variant="bodySmall">Open</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text variant="headlineSmall">
+              {stats.medianResponseMinutes !== null ? formatMinutes(stats.medianResponseMinutes) : '—'}
+            </Text>
+            <Text variant="bodySmall">Typical response</Text>
+          </View>
+        </Surface>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} />
+        ) : incidents.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.empty}>No alerts in the last {HISTORY_DAYS} days.</Text>
+        ) : (
+          incidents.map(renderIncident)
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={resolving !== null} onDismiss={() => setResolving(null)}>
+          <Dialog.Title>Resolve alert</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              mode="outlined"
+              label="What happened?"
+              placeholder="e.g. Called patient, dose taken late"
+              value={resolutionNote}
+              onChangeText={setResolutionNote}
+              multiline
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setResolving(null)}>Cancel</Button>
+            <Button onPress={confirmResolve}>Resolve</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    borderRadius: 16,
+    paddingVertical: 16,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontWeight: '600',
+  },
+  event: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  eventText: {
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 4,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  empty: {
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
+
+export default AlertHistoryScreen;
@@ -0,0 +1,575 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Button, Chip, Dialog, IconButton, Portal, Surface, Switch, Text, TextInput, useTheme } from 'react-native-paper';
+import { format } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { useUnitPreferences } from '../hooks/useUnitPreferences';
+import { StoredAlertRule, repositories } from '../lib/repositories';
+import { MetricDefinition } from '../lib/metricDefinitions';
+import {
+  ADHERENCE_MEASURE_LABELS,
+  AdherenceMeasure,
+  AlertRuleCondition,
+  CheckinMode,
+  METRIC_COMPARATOR_LABELS,
+  MetricComparator,
+  RULE_CHECKIN_QUESTIONS,
+  RULE_TEMPLATES,
+  describeRuleCondition,
+  parseRuleCondition,
+} from '../lib/alertRules';
+import { getUnitConversion } from '../lib/units';
+
+const KIND_LABELS: Record<AlertRuleCondition['kind'], string> = {
+  metric: 'Reading',
+  checkin: 'Check-in',
+  adherence: 'Medication',
+};
+
+const CHECKIN_MODE_LABELS: Record<CheckinMode, string> = {
+  within_days: 'Within days',
+  consecutive_days: 'Days in a row',
+};
+
+// Every field as typed; turned into a condition (and validated) on save
+interface RuleDraft {
+  name: string;
+  kind: AlertRuleCondition['kind'];
+  categoryName: string;
+  comparator: MetricComparator;
+  threshold: string;
+  count: string;
+  windowHours: string;
+  questionKey: string;
+  responses: string[];
+  mode: CheckinMode;
+  windowDays: string;
+  measure: AdherenceMeasure;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  kind: 'metric',
+  categoryName: '',
+  comparator: 'below',
+  threshold: '',
+  count: '1',
+  windowHours: '24',
+  questionKey: RULE_CHECKIN_QUESTIONS[0].key,
+  responses: [],
+  mode: 'within_days',
+  windowDays: '1',
+  measure: 'missed_doses',
+};
+
+const toDraft = (name: string, condition: AlertRuleCondition): RuleDraft => {
+  switch (condition.kind) {
+    case 'metric':
+      return {
+        ...EMPTY_DRAFT,
+        name,
+        kind: 'metric',
+        categoryName: condition.categoryName,
+        comparator: condition.comparator,
+        threshold: condition.threshold?.toString() ?? '',
+        count: condition.count.toString(),
+        windowHours: condition.windowHours.toString(),
+      };
+    case 'checkin':
+      return {
+        ...EMPTY_DRAFT,
+        name,
+        kind: 'checkin',
+        questionKey:
+          RULE_CHECKIN_QUESTIONS.find(question => question.questionIds.some(id => condition.questionIds.includes(id)))?.key ??
+          EMPTY_DRAFT.questionKey,
+        responses: condition.responses,
+        mode: condition.mode,
+        count: condition.count.toString(),
+        windowDays: condition.windowDays.toString(),
+      };
+    case 'adherence':
+      return {
+        ...EMPTY_DRAFT,
+        name,
+        kind: 'adherence',
+        measure: condition.measure,
+        threshold: condition.threshold.toString(),
+        windowDays: condition.windowDays.toString(),
+      };
+  }
+};
+
+const toCondition = (draft: RuleDraft): AlertRuleCondition | null => {
+  const number = (value: string) => (value.trim() === '' ? NaN : Number(value.replace(',', '.')));
+  switch (draft.kind) {
+    case 'metric':
+      return parseRuleCondition({
+        kind: 'metric',
+        categoryName: draft.categoryName,
+        comparator: draft.comparator,
+        threshold: draft.comparator === 'outside_normal' ? null : number(draft.threshold),
+        count: number(draft.count),
+        windowHours: number(draft.windowHours),
+      });
+    case 'checkin': {
+      const question = RULE_CHECKIN_QUESTIONS.find(candidate => candidate.key === draft.questionKey);
+      const count = number(draft.count);
+      return parseRuleCondition({
+        kind: 'checkin',
+        questionIds: question?.questionIds ?? [],
+        responses: draft.responses,
+        mode: draft.mode,
+        count,
+        windowDays: draft.mode === 'consecutive_days' ? count : number(draft.windowDays),
+      });
+    }
+    case 'adherence':
+      return parseRuleCondition({
+        kind: 'adherence',
+        measure: draft.measure,
+        threshold: number(draft.threshold),
+        windowDays: number(draft.windowDays),
+      });
+  }
+};
+
+const AlertRulesScreen: React.FC = () => {
+  const { user, patients } = useAuth();
+  const theme = useTheme();
+
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [rules, setRules] = useState<StoredAlertRule[]>([]);
+  const [categories, setCategories] = useState<MetricDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const { units } = useUnitPreferences();
+
+  // Reading thresholds are stored in the category's unit and shown in the caregiver's
+  const conversionFor = (categoryName: string) =>
+    getUnitConversion(categories.find(c => c.name.toLowerCase() === categoryName.toLowerCase())?.unit ?? null, units);
+
+  const convertThreshold = (condition: AlertRuleCondition, direction: 'toDisplay' | 'toCanonical'): AlertRuleCondition =>
+    condition.kind === 'metric' && condition.threshold !== null
+      ? { ...condition, threshold: conversionFor(condition.categoryName)[direction](condition.threshold) }
+      : condition;
+
+  const describeCondition = (condition: AlertRuleCondition) =>
+    describeRuleCondition(
+      convertThreshold(condition, 'toDisplay'),
+      condition.kind === 'metric' ? conversionFor(condition.categoryName).unit : null
+    );
+
+  useEffect(() => {
+    if (patients.length > 0 && !patients.some(p => p.id === selectedPatientId)) {
+      setSelectedPatientId(patients[0].id);
+    }
+  }, [patients, selectedPatientId]);
+
+  const loadRules = useCallback(async () => {
+    if (!selectedPatientId) return;
+    try {
+      const [ruleRows, definitions] = await Promise.all([
+        repositories.alertRules.listForPatient(selectedPatientId),
+        repositories.metrics.listDefinitions(selectedPatientId),
+      ]);
+      setRules(ruleRows);
+      setCategories(definitions.filter(definition => !definition.archived));
+    } catch (error) {
+      console.error('[AlertRulesScreen] Failed to load alert rules:', error);
+      Alert.alert('Error', 'Could not load the alert rules.');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedPatientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadRules();
+  }, [loadRules]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadRules();
+    setRefreshing(false);
+  };
+
+  const toggleRule = async (rule: StoredAlertRule, enabled: boolean) => {
+    setRules(current => current.map(r => (r.id === rule.id ? { ...r, enabled } : r)));
+    try {
+      await repositories.alertRules.setEnabled(rule.id, enabled);
+    } catch (error) {
+      console.error('[AlertRulesScreen] Failed to update rule:', error);
+      setRules(current => current.map(r => (r.id === rule.id ? { ...r, enabled: !enabled } : r)));
+      Alert.alert('Error', 'Could not update the rule. Please try again.');
+    }
+  };
+
+  const confirmRemoveRule = (rule: StoredAlertRule) => {
+    Alert.alert('Remove rule', `Stop alerting on "${rule.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await repositories.alertRules.remove(rule.id);
+            await loadRules();
+          } catch (error) {
+            console.error('[AlertRulesScreen] Failed to remove rule:', error);
+            Alert.alert('Error', 'Could not remove the rule.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const saveRule = async () => {
+    if (!draft || !selectedPatientId || !user) return;
+    const typed = toCondition(draft);
+    if (!typed) {
+      Alert.alert(
+        'Check the rule',
+        draft.kind === 'checkin' && draft.responses.length === 0
+          ? 'Choose at least one answer to watch for.'
+          : 'Fill in every field with a whole number of times, hours or days (up to 30 days).'
+      );
+      return;
+    }
+
+    const condition = convertThreshold(typed, 'toCanonical');
+
+    setSaving(true);
+    try {
+      await repositories.alertRules.create(
+        selectedPatientId,
+        user.id,
+        draft.name.trim() || describeCondition(condition),
+        condition
+      );
+      setDraft(null);
+      await loadRules();
+    } catch (error) {
+      console.error('[AlertRulesScreen] Failed to save rule:', error);
+      Alert.alert('Error', 'Could not save the rule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleDraftResponse = (response: string) => {
+    if (!draft) return;
+    const responses = draft.responses.includes(response)
+      ? draft.responses.filter(r => r !== response)
+      : [...draft.responses, response];
+    setDraft({ ...draft, responses });
+  };
+
+  const renderRule = (rule: StoredAlertRule) => (
+    <Surface key={rule.id} style={[styles.card, { backgroundColor: theme.colors.surface }]} elevation={1}>
+      <View style={styles.cardHeader}>
+        <View style={styles.cardTitle}>
+          <Text variant="titleSmall" style={styles.bold}>{rule.name}</Text>
+          <Text variant="bodyMedium">{describeCondition(rule.condition)}</Text>
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            {rule.lastTriggeredAt ? `Last alerted ${format(rule.lastTriggeredAt, 'MMM d, HH:mm')}` : 'Not triggered yet'}
+          </Text>
+        </View>
+        <Switch value={rule.enabled} onValueChange={enabled => toggleRule(rule, enabled)} />
+        <IconButton icon="trash-can-outline" size={20} onPress={() => confirmRemoveRule(rule)} accessibilityLabel="Remove rule" />
+      </View>
+    </Surface>
+  );
+
+  if (patients.length === 0) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
+        <Text variant="bodyLarge">Connect with a patient to set up alert rules.</Text>
+      </View>
+    );
+  }
+
+  const draftQuestion = draft ? RULE_CHECKIN_QUESTIONS.find(question => question.key === draft.questionKey) : undefined;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {patients.length > 1 && (
+          <View style={styles.chipRow}>
+            {patients.map(patient => (
+              <Chip key={patient.id} selected={patient.id === selectedPatientId} onPress={() => setSelectedPatientId(patient.id)}>
+                {`${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() || 'Patient'}
+              </Chip>
+            ))}
+          </View>
+        )}
+
+        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          Rules are checked whenever a reading, check-in answer or dose is recorded. When one matches, the caregivers on
+          call get an alert with the data that triggered it. A rule alerts again only when there is new data.
+        </Text>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} />
+        ) : rules.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.empty}>No alert rules yet.</Text>
+        ) : (
+          rules.map(renderRule)
+        )}
+
+        {!loading && (
+          <Button mode="contained" icon="plus" onPress={() => setDraft({ ...EMPTY_DRAFT, categoryName: categories[0]?.name ?? '' })}>
+            Add rule
+          </Button>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={draft !== null} onDismiss={() => setDraft(null)}>
+          <Dialog.Title>New alert rule</Dialog.Title>
+          {draft && (
+            <Dialog.ScrollArea>
+              <ScrollView contentContainerStyle={styles.dialogContent}>
+                <Text variant="labelLarge">Start from</Text>
+                <View style={styles.chipRow}>
+                  {RULE_TEMPLATES.map(template => (
+                    <Chip key={template.label} compact onPress={() => setDraft(toDraft(template.name, convertThreshold(template.condition, 'toDisplay')))}>
+                      {template.label}
+                    </Chip>
+                  ))}
+                </View>
+
+                <Text variant="labelLarge">Watch</Text>
+                <View style={styles.chipRow}>
+                  {(Object.keys(KIND_LABELS) as AlertRuleCondition['kind'][]).map(kind => (
+                    <Chip key={kind} selected={draft.kind === kind} onPress={() => setDraft({ ...draft, kind })}>
+                      {KIND_LABELS[kind]}
+                    </Chip>
+                  ))}
+                </View>
+
+                {draft.kind === 'metric' && (
+                  <>
+                    <View style={styles.chipRow}>
+                      {categories.map(category => (
+                        <Chip
+                          key={category.id}
+                          compact
+                          selected={draft.categoryName === category.name}
+                          onPress={() => setDraft({ ...draft, categoryName: category.name })}
+                        >
+                          {category.name}
+                        </Chip>
+                      ))}
+                    </View>
+                    <View style={styles.chipRow}>
+                      {(Object.keys(METRIC_COMPARATOR_LABELS) as MetricComparator[]).map(comparator => (
+                        <Chip
+                          key={comparator}
+                          compact
+                          selected={draft.comparator === comparator}
+                          onPress={() => setDraft({ ...draft, comparator })}
+                        >
+                          {METRIC_COMPARATOR_LABELS[comparator]}
+                        </Chip>
+                      ))}
+                    </View>
+                    <View style={styles.inputRow}>
+                      {draft.comparator !== 'outside_normal' && (
+                        <TextInput
+                          mode="outlined"
+                          label={conversionFor(draft.categoryName).unit ? `Value (${conversionFor(draft.categoryName).unit})` : 'Value'}
+                          style={styles.input}
+                          keyboardType="decimal-pad"
+                          value={draft.threshold}
+                          onChangeText={threshold => setDraft({ ...draft, threshold })}
+                        />
+                      )}
+                      <TextInput
+                        mode="outlined"
+                        label="Times"
+                        style={styles.input}
+                        keyboardType="number-pad"
+                        value={draft.count}
+                        onChangeText={count => setDraft({ ...draft, count })}
+                      />
+                      <TextInput
+                        mode="outlined"
+                        label="In hours"
+                        style={styles.input}
+                        keyboardType="number-pad"
+                        value={draft.windowHours}
+                        onChangeText={windowHours => setDraft({ ...draft, windowHours })}
+                      />
+                    </View>
+                  </>
+                )}
+
+                {draft.kind === 'checkin' && (
+                  <>
+                    <View style={styles.chipRow}>
+                      {RULE_CHECKIN_QUESTIONS.map(question => (
+                        <Chip
+                          key={question.key}
+                          compact
+                          selected={draft.questionKey === question.key}
+                          onPress={() => setDraft({ ...draft, questionKey: question.key, responses: [] })}
+                        >
+                          {question.label}
+                        </Chip>
+                      ))}
+                    </View>
+                    <Text variant="labelLarge">Answered</Text>
+                    <View style={styles.chipRow}>
+                      {draftQuestion?.responses.map(response => (
+                        <Chip
+                          key={response}
+                          compact
+                          selected={draft.responses.includes(response)}
+                          onPress={() => toggleDraftResponse(response)}
+                        >
+                          {response}
+                        </Chip>
+                      ))}
+                    </View>
+                    <View style={styles.chipRow}>
+                      {(Object.keys(CHECKIN_MODE_LABELS) as CheckinMode[]).map(mode => (
+                        <Chip key={mode} compact selected={draft.mode === mode} onPress={() => setDraft({ ...draft, mode })}>
+                          {CHECKIN_MODE_LABELS[mode]}
+                        </Chip>
+                      ))}
+                    </View>
+                    <View style={styles.inputRow}>
+                      <TextInput
+                        mode="outlined"
+                        label={draft.mode === 'consecutive_days' ? 'Days in a row' : 'Times'}
+                        style={styles.input}
+                        keyboardType="number-pad"
+                        value={draft.count}
+                        onChangeText={count => setDraft({ ...draft, count })}
+                      />
+                      {draft.mode === 'within_days' && (
+                        <TextInput
+                          mode="outlined"
+                          label="In days"
+                          style={styles.input}
+                          keyboardType="number-pad"
+                          value={draft.windowDays}
+                          onChangeText={windowDays => setDraft({ ...draft, windowDays })}
+                        />
+                      )}
+                    </View>
+                  </>
+                )}
+
+                {draft.kind === 'adherence' && (
+                  <>
+                    <View style={styles.chipRow}>
+                      {(Object.keys(ADHERENCE_MEASURE_LABELS) as AdherenceMeasure[]).map(measure => (
+                        <Chip key={measure} compact selected={draft.measure === measure} onPress={() => setDraft({ ...draft, measure })}>
+                          {ADHERENCE_MEASURE_LABELS[measure]}
+                        </Chip>
+                      ))}
+                    </View>
+                    <View style={styles.inputRow}>
+                      <TextInput
+                        mode="outlined"
+                        label={draft.measure === 'missed_doses' ? 'Missed doses' : 'Percent'}
+                        style={styles.input}
+                        keyboardType="number-pad"
+                        value={draft.threshold}
+                        onChangeText={threshold => setDraft({ ...draft, threshold })}
+                      />
+                      <TextInput
+                        mode="outlined"
+                        label="Over days"
+                        style={styles.input}
+                        keyboardType="number-pad"
+                        value={draft.windowDays}
+                        onChangeText={windowDays => setDraft({ ...draft, windowDays })}
+                      />
+                    </View>
+                  </>
+                )}
+
+                <TextInput
+                  mode="outlined"
+                  label="Name (optional)"
+                  placeholder={toCondition(draft) ? describeCondition(convertThreshold(toCondition(draft)!, 'toCanonical')) : undefined}
+                  value={draft.name}
+                  onChangeText={name => setDraft({ ...draft, name })}
+                />
+              </ScrollView>
+            </Dialog.ScrollArea>
+          )}
+          <Dialog.Actions>
+            <Button onPress={() => setDraft(null)}>Cancel</Button>
+            <Button onPress={saveRule} loading={saving} disabled={saving}>Save</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    flex: 1,
+    gap: 2,
+  },
+  bold: {
+    fontWeight: '600',
+  },
+  empty: {
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  dialogContent: {
+    gap: 12,
+    paddingVertical: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+  },
+  loading: {
+    marginTop: 32,
+  },
+});
+
+export default AlertRulesScreen;
@@ -32,8 +32,21 @@ import Animated, {
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '../context/AuthContext';
 import { supabase, UserProfile } from '../lib/supabase';
+import { MotorDiaryEntry, OrthostaticTest, ScheduledDose, repositories } from '../lib/repositories';
+import { adherenceByDay, expandDoses } from '../lib/adherence';
+import {
+  MOTOR_STATE_OPTIONS,
+  getDiaryKey,
+  getDoseHourKeys,
+  getMotorStateOption,
+  summarizeMotorDiary,
+} from '../lib/motorDiary';
 import * as Haptics from 'expo-haptics';
-import { format, subDays, startOfDay, endOfDay } from 'date-fns';
+import OrthostaticTrendCard from '../components/OrthostaticTrendCard';
+import MetricChangesCard from '../components/MetricChangesCard';
+import { useUnitPreferences } from '../hooks/useUnitPreferences';
+import { UnitPreferences, convertValue, getUnitConversion } from '../lib/units';
+import { eachDayOfInterval, format, parseISO, subDays } from 'date-fns';
 
 const { width: screenWidth } = Dimensions.get('window');
 const AnimatedCard = Animated.createAnimatedComponent(Card);
@@ -62,8 +75,19 @@ interface PatientAnalytics {
   blood_glucose: ChartData[];
   weight_data: ChartData[];
   symptom_data: ChartData[];
+  motor_diary: MotorDiaryData;
+  orthostatic_tests: OrthostaticTest[]; // Oldest first
+}
+
+// Hourly ON/OFF diary with the doses that were due, for spotting wearing-off
+interface MotorDiaryData {
+  days: string[]; // yyyy-MM-dd, oldest first
+  entries: MotorDiaryEntry[];
+  doses: ScheduledDose[];
 }
 
+const MOTOR_DIARY_MAX_DAYS = 7;
+
 const CaregiverAnalyticsScreen: React.FC = () => {
   const theme = useTheme();
   const { user, patients } = useAuth();
@@ -73,6 +97,7 @@ const CaregiverAnalyticsScreen: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
   const [selectedMetric, setSelectedMetric] = useState<'sleep' | 'blood_pressure' | 'sugar_level' | 'weight'>('sleep');
+  const { units } = useUnitPreferences();
 
   const selectedPatient = patients.find(p => p.id === selectedPatientId);
 
@@ -112,38 +137,22 @@ const CaregiverAnalyticsScreen: React.FC = () => {
       const startDate = subDays(new Date(), days);
 
       // Fetch health metrics for charts
-      const { data: healthMetrics, error: metricsError } = await supabase
-        .from('health_metrics')
-        .select(`
-          value,
-          recorded_at,
-          health_metric_categories!inner(
-            name,
-            unit,
-            normal_range_min,
-            normal_range_max
-          )
-        `)
-        .eq('patient_id', patientId)
-        .gte('recorded_at', startDate.toISOString())
-        .order('recorded_at', { ascending: true });
-
-      if (metricsError) throw metricsError;
+      const healthMetrics = await repositories.metrics.listBetween(patientId, startDate, new Date());
 
       // Process sleep data
       const sleepData = (healthMetrics || [])
         .filter(m => m.health_metric_categories.name === 'Sleep Duration')
         .map(m => ({
           date: format(new Date(m.recorded_at), 'MMM dd'),
-          value: parseFloat(m.value),
+          value: Number(m.value),
         }));
 
-      // Process blood glucose data
+      // Process blood glucose data, in the caregiver's units
       const glucoseData = (healthMetrics || [])
         .filter(m => m.health_metric_categories.name === 'Blood Glucose')
         .map(m => ({
           date: format(new Date(m.recorded_at), 'MMM dd'),
-          value: parseFloat(m.value),
+          value: getUnitConversion(m.health_metric_categories.unit, units).toDisplay(Number(m.value)),
         }));
 
       // Process weight data
@@ -151,7 +160,7 @@ const CaregiverAnalyticsScreen: React.FC = () => {
         .filter(m => m.health_metric_categories.name === 'Weight')
         .map(m => ({
           date: format(new Date(m.recorded_at), 'MMM dd'),
-          value: parseFloat(m.value),
+          value: getUnitConversion(m.health_metric_categories.unit, units).toDisplay(Number(m.value)),
         }));
 
       // Process blood pressure data
@@ -166,9 +175,9 @@ const CaregiverAnalyticsScreen: React.FC = () => {
         const entry = bpMap.get(date);
         
         if (m.health_metric_categories.name === 'Blood Pressure Systolic') {
-          entry.systolic = parseFloat(m.value);
+          entry.systolic = Number(m.value);
         } else if (m.health_metric_categories.name === 'Blood Pressure Diastolic') {
-          entry.diastolic = parseFloat(m.value);
+          entry.diastolic = Number(m.value);
         }
       });
 
@@ -180,6 +189,10 @@ const CaregiverAnalyticsScreen: React.FC = () => {
       // Fetch symptom data
       const symptomData = await fetchSymptomData(patientId, days);
 
+      const motorDiaryData = await fetchMotorDiary(patientId, Math.min(days, MOTOR_DIARY_MAX_DAYS));
+
+      const orthostaticTests = await repositories.orthostaticTests.listBetween(patientId, startDate, new Date());
+
       setAnalytics({
         sleep_data: sleepData,
         medication_adherence: medicationData,
@@ -187,6 +200,8 @@ const CaregiverAnalyticsScreen: React.FC = () => {
         blood_glucose: glucoseData,
         weight_data: weightData,
         symptom_data: symptomData,
+        motor_diary: motorDiaryData,
+        orthostatic_tests: orthostaticTests,
       });
 
     } catch (error) {
@@ -194,45 +209,18 @@ const CaregiverAnalyticsScreen: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [timeRange]);
+  }, [timeRange, units]);
 
   const fetchMedicationAdherence = async (patientId: string, days: number) => {
     try {
-      const medicationData: ChartData[] = [];
-      const startDate = subDays(new Date(), days);
-
-      for (let i = 0; i < days; i++) {
-        const date = subDays(new Date(), i);
-        const dayStart = startOfDay(date);
-        const dayEnd = endOfDay(date);
-        const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'short' });
+      const endDate = new Date();
+      const startDate = subDays(endDate, days - 1);
+      const doses = await repositories.getAdherence(patientId, startDate, endDate);
 
-        // Get scheduled medications for this day
-        const { data: schedules } = await supabase
-          .from('medication_schedules')
-          .select('id')
-          .eq('user_id', patientId)
-          .contains('days_of_week', [dayOfWeek]);
-
-        const totalScheduled = schedules?.length || 0;
-
-        // Get taken medications for this day
-        const { data: logs } = await supabase
-          .from('medication_administration_logs')
-          .select('id')
-          .eq('user_id', patientId)
-          .gte('taken_at', dayStart.toISOString())
-          .lte('taken_at', dayEnd.toISOString())
-          .eq('status', 'taken');
-
-        const totalTaken = logs?.length || 0;
-        const adherenceRate = totalScheduled > 0 ? (totalTaken / totalScheduled) * 100 : 0;
-
-        medicationData.unshift({
-          date: format(date, 'MMM dd'),
-          value: Math.round(adherenceRate),
-        });
-      }
+      const medicationData: ChartData[] = adherenceByDay(doses, startDate, endDate).map(day => ({
+        date: format(parseISO(day.date), 'MMM dd'),
+        value: day.stats.percentage,
+      }));
 
       return medicationData;
     } catch (error) {
@@ -241,6 +229,23 @@ const CaregiverAnalyticsScreen: React.FC = () => {
     }
   };
 
+  const fetchMotorDiary = async (patientId: string, days: number): Promise<MotorDiaryData> => {
+    const endDate = new Date();
+    const startDate = subDays(endDate, days - 1);
+    const dayStrings = eachDayOfInterval({ start: startDate, end: endDate }).map(d => format(d, 'yyyy-MM-dd'));
+
+    try {
+      const [entries, scheduleRows] = await Promise.all([
+        repositories.motorDiary.listBetween(patientId, dayStrings[0], dayStrings[dayStrings.length - 1]),
+        repositories.schedules.listWithMedications(patientId),
+      ]);
+      return { days: dayStrings, entries, doses: expandDoses(scheduleRows, startDate, endDate) };
+    } catch (error) {
+      console.error('Error fetching motor diary:', error);
+      return { days: dayStrings, entries: [], doses: [] };
+    }
+  };
+
   const fetchSymptomData = async (patientId: string, days: number) => {
     try {
       const { data: symptoms } = await supabase
@@ -450,11 +455,17 @@ const CaregiverAnalyticsScreen: React.FC = () => {
                 <Text style={styles.loadingText}>Loading analytics...</Text>
               </View>
             ) : analytics ? (
-              <ChartDisplaySection 
-                analytics={analytics}
-                selectedMetric={selectedMetric}
-                timeRange={timeRange}
-              />
+              <>
+                {selectedPatientId && <MetricChangesCard patientId={selectedPatientId} style={styles.chartCard} />}
+                <ChartDisplaySection 
+                  analytics={analytics}
+                  selectedMetric={selectedMetric}
+                  timeRange={timeRange}
+                  units={units}
+                />
+                <MotorFluctuationSection data={analytics.motor_diary} />
+                <OrthostaticTrendCard tests={analytics.orthostatic_tests} style={styles.chartCard} />
+              </>
             ) : null}
           </>
         )}
@@ -463,11 +474,17 @@ const CaregiverAnalyticsScreen: React.FC = () => {
   );
 };
 
+const convertIdealRange = (range: { min: number; max: number }, fromUnit: string, toUnit: string) => ({
+  min: Math.round(convertValue(range.min, fromUnit, toUnit) * 10) / 10,
+  max: Math.round(convertValue(range.max, fromUnit, toUnit) * 10) / 10,
+});
+
 // Chart Display Section Component
-const ChartDisplaySection = ({ analytics, selectedMetric, timeRange }: {
+const ChartDisplaySection = ({ analytics, selectedMetric, timeRange, units }: {
   analytics: PatientAnalytics;
   selectedMetric: string;
   timeRange: string;
+  units: UnitPreferences;
 }) => {
   const getChartColor = (metric: string) => {
     switch (metric) {
@@ -503,8 +520,8 @@ const ChartDisplaySection = ({ analytics, selectedMetric, timeRange }: {
             data={analytics.blood_glucose}
             title="Blood Sugar Level"
             color="#f59e0b"
-            unit="mg/dL"
-            idealRange={{ min: 70, max: 140 }}
+            unit={units.bloodGlucose}
+            idealRange={convertIdealRange({ min: 70, max: 140 }, 'mg/dL', units.bloodGlucose)}
           />
         );
       case 'weight':
@@ -513,8 +530,8 @@ const ChartDisplaySection = ({ analytics, selectedMetric, timeRange }: {
             data={analytics.weight_data}
             title="Weight Trend"
             color="#10b981"
-            unit="kg"
-            idealRange={{ min: 60, max: 100 }}
+            unit={units.weight}
+            idealRange={convertIdealRange({ min: 60, max: 100 }, 'kg', units.weight)}
           />
         );
       default:
@@ -537,6 +554,84 @@ const ChartDisplaySection = ({ analytics, selectedMetric, timeRange }: {
   );
 };
 
+// ON/OFF diary grid: one row per day, one cell per hour, dose times marked underneath
+const MotorFluctuationSection = ({ data }: { data: MotorDiaryData }) => {
+  const entriesByKey = new Map(data.entries.map(entry => [getDiaryKey(entry.entry_date, entry.hour), entry]));
+  const doseHours = getDoseHourKeys(data.doses);
+  const summary = summarizeMotorDiary(data.entries, data.doses);
+
+  return (
+    <AnimatedCard entering={FadeInDown.delay(500)} style={styles.chartCard} elevation={0}>
+      <Card.Content>
+        <View style={styles.chartHeader}>
+          <Text variant="titleLarge" style={styles.chartTitle}>Motor Fluctuations</Text>
+          <Text style={styles.chartSubtitle}>ON/OFF diary, last {data.days.length} days</Text>
+        </View>
+
+        {data.entries.length === 0 ? (
+          <View style={styles.noDataContainer}>
+            <MaterialCommunityIcons name="chart-timeline-variant" size={48} color="#d1d5db" />
+            <Text style={styles.noDataText}>No diary entries for this period</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.motorSummaryRow}>
+              <View style={styles.motorSummaryItem}>
+                <Text style={[styles.motorSummaryValue, { color: '#ef4444' }]}>{summary.offPercentage}%</Text>
+                <Text style={styles.motorSummaryLabel}>OFF time (awake)</Text>
+              </View>
+              <View style={styles.motorSummaryItem}>
+                <Text style={[styles.motorSummaryValue, { color: '#f59e0b' }]}>{summary.troublesomeDyskinesiaHours}h</Text>
+                <Text style={styles.motorSummaryLabel}>Troublesome dyskinesia</Text>
+              </View>
+              <View style={styles.motorSummaryItem}>
+                <Text style={[styles.motorSummaryValue, { color: '#374151' }]}>{summary.wearingOffHours}</Text>
+                <Text style={styles.motorSummaryLabel}>OFF hours before a dose</Text>
+              </View>
+            </View>
+
+            {data.days.map(day => (
+              <View key={day} style={styles.motorDayRow}>
+                <Text style={styles.motorDayLabel}>{format(parseISO(day), 'EEE')}</Text>
+                <View style={styles.motorDayHours}>
+                  {Array.from({ length: 24 }, (_, hour) => {
+                    const entry = entriesByKey.get(getDiaryKey(day, hour));
+                    const hasDose = doseHours.has(getDiaryKey(day, hour));
+                    return (
+                      <View key={hour} style={styles.motorHour}>
+                        <View
+                          style={[
+                            styles.motorHourCell,
+                            { backgroundColor: entry ? getMotorStateOption(entry.state)?.color : '#f1f5f9' },
+                          ]}
+                        />
+                        <View style={[styles.motorDoseMarker, { backgroundColor: hasDose ? '#1f2937' : 'transparent' }]} />
+                      </View>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+
+            <View style={[styles.chartLegend, { flexWrap: 'wrap', marginTop: 12 }]}>
+              {MOTOR_STATE_OPTIONS.map(option => (
+                <View key={option.state} style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: option.color }]} />
+                  <Text style={styles.legendText}>{option.label}</Text>
+                </View>
+              ))}
+              <View style={styles.legendItem}>
+                <View style={[styles.legendDot, { backgroundColor: '#1f2937' }]} />
+                <Text style={styles.legendText}>Dose due</Text>
+              </View>
+            </View>
+          </>
+        )}
+      </Card.Content>
+    </AnimatedCard>
+  );
+};
+
 // Line Chart Component
 const LineChart = ({ data, title, color, unit, idealRange, reversed = false }: {
   data: ChartData[];
@@ -1219,6 +1314,55 @@ const styles = StyleSheet.create({
   rotatingIcon: {
     transform: [{ rotate: '360deg' }],
   },
+  motorSummaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  motorSummaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  motorSummaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  motorSummaryLabel: {
+    fontSize: 11,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  motorDayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  motorDayLabel: {
+    width: 36,
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  motorDayHours: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  motorHour: {
+    flex: 1,
+    alignItems: 'center',
+    marginHorizontal: 0.5,
+  },
+  motorHourCell: {
+    width: '100%',
+    height: 16,
+    borderRadius: 2,
+  },
+  motorDoseMarker: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 2,
+  },
 });
 
 export default CaregiverAnalyticsScreen; 
\ No newline at end of file
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, IconButton, List, Surface, Switch, Text, useTheme } from 'react-native-paper';
+import { format } from 'date-fns';
+import { useAuth } from '../context/AuthContext';
+import { repositories } from '../lib/repositories';
+import { UserDevice } from '../lib/repositories/DeviceRepository';
+import NotificationService from '../services/NotificationService';
+
+const PLATFORM_ICONS: Record<string, string> = {
+  ios: 'apple',
+  android: 'android',
+  web: 'web',
+  unknown: 'cellphone',
+};
+
+const PLATFORM_NAMES: Record<string, string> = {
+  ios: 'iPhone or iPad',
+  android: 'Android device',
+  web: 'Web browser',
+  unknown: 'Unknown device',
+};
+
+const DevicesScreen: React.FC = () => {
+  const { user } = useAuth();
+  const theme = useTheme();
+
+  const [devices, setDevices] = useState<UserDevice[]>([]);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadDevices = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [list, deviceId] = await Promise.all([
+        repositories.devices.listForUser(user.id),
+        NotificationService.getDeviceId(),
+      ]);
+      setDevices(list);
+      setCurrentDeviceId(deviceId);
+    } catch (error) {
+      console.error('[DevicesScreen] Failed to load devices:', error);
+      Alert.alert('Error', 'Could not load your devices.');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadDevices();
+    setRefreshing(false);
+  };
+
+  const toggleDevice = async (device: UserDevice, enabled: boolean) => {
+    setDevices(current => current.map(d => (d.id === device.id ? { ...d, enabled } : d)));
+    try {
+      await repositories.devices.setEnabled(device.id, enabled);
+    } catch (error) {
+      console.error('[DevicesScreen] Failed to update device:', error);
+      setDevices(current => current.map(d => (d.id === device.id ? { ...d, enabled: !enabled } : d)));
+      Alert.alert('Error', 'Could not update the device. Please try again.');
+    }
+  };
+
+  const removeDevice = (device: UserDevice) => {
+    const isCurrent = device.device_id === currentDeviceId;
+    Alert.alert(
+      'Remove device',
+      isCurrent
+        ? 'This device will stop receiving alerts until you open the app again.'
+        : `${device.device_name || PLATFORM_NAMES[device.platform]} will stop receiving alerts. It is added back when it next opens the app while signed in.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await repositories.devices.remove(device.id);
+              setDevices(current => current.filter(d => d.id !== device.id));
+            } catch (error) {
+              console.error('[DevicesScreen] Failed to remove device:', error);
+              Alert.alert('Error', 'Could not remove the device. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const describeDevice = (device: UserDevice): string => {
+    const parts = [`Last seen ${format(new Date(device.last_seen_at), 'MMM d, yyyy h:mm a')}`];
+    if (!device.push_token) parts.push('notifications not allowed');
+    return parts.join(' · ');
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      contentContainerStyle={styles.contentContainer}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+    >
+      <Text variant="bodyMedium" style={[styles.intro, { color: theme.colors.onSurfaceVariant }]}>
+        Alerts and reminders are pushed to every device switched on here. Devices that have not opened the app for
+        60 days are removed automatically.
+      </Text>
+
+      <Surface style={[styles.card, { backgroundColor: theme.colors.surface }]} elevation={2}>
+        {loading ? (
+          <ActivityIndicator style={styles.loading} />
+        ) : devices.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.empty}>No devices registered yet.</Text>
+        ) : (
+          devices.map((device, index) => (
+            <View key={device.id}>
+              {index > 0 && <View style={styles.divider} />}
+              <List.Item
+                title={`${device.device_name || PLATFORM_NAMES[device.platform]}${device.device_id === currentDeviceId ? ' (this device)' : ''}`}
+                description={describeDevice(device)}
+                descriptionNumberOfLines={2}
+                left={props => <List.Icon {...props} icon={PLATFORM_ICONS[device.platform] ?? 'cellphone'} color={theme.colors.primary} />}
+                right={() => (
+                  <View style={styles.itemActions}>
+                    <Switch value={device.enabled} onValueChange={value => toggleDevice(device, value)} />
+                    <IconButton icon="trash-can-outline" size={20} onPress={() => removeDevice(device)} />
+                  </View>
+                )}
+              />
+            </View>
+          ))
+        )}
+      </Surface>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  intro: {
+    paddingHorizontal: 4,
+  },
+  card: {
+    borderRadius: 16,
+    paddingVertical: 8,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: 'rgba(0,0,0,0.08)',
+    marginHorizontal: 16,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  empty: {
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+});
+
+export default DevicesScreen;
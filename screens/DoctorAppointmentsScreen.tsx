@@ -41,9 +41,11 @@ import Animated, {
 import * as Haptics from 'expo-haptics';
 import * as Notifications from 'expo-notifications';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { format, parseISO, isBefore, addDays, addHours } from 'date-fns';
+import { format, parseISO, isBefore, addDays } from 'date-fns';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
+import VisitReportModal from '../components/VisitReportModal';
+import NotificationScheduler from '../services/NotificationScheduler';
 
 const { width, height } = Dimensions.get('window');
 const AnimatedCard = Animated.createAnimatedComponent(Card);
@@ -120,6 +122,7 @@ const DoctorAppointmentsScreen: React.FC = () => {
     appointment_type: 'in-person',
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [reportAppointment, setReportAppointment] = useState<DoctorAppointment | null>(null);
 
   const headerHeight = useSharedValue(240);
 
@@ -201,42 +204,6 @@ const DoctorAppointmentsScreen: React.FC = () => {
     return Object.keys(errors).length === 0;
   };
 
-  const scheduleNotification = async (appointment: DoctorAppointment): Promise<string | null> => {
-    try {
-      const appointmentDateTime = new Date(`${appointment.appointment_date}T${appointment.appointment_time}`);
-      const reminderTime = addHours(appointmentDateTime, -24); // 24 hours before
-
-      if (isBefore(reminderTime, new Date())) {
-        return null; // Don't schedule if reminder time is in the past
-      }
-
-      const notificationId = await Notifications.scheduleNotificationAsync({
-        content: {
-          title: '🩺 Appointment Reminder',
-          body: `You have an appointment with Dr. ${appointment.doctor_name} tomorrow at ${format(appointmentDateTime, 'h:mm a')}`,
-          data: { appointmentId: appointment.id },
-          sound: true,
-        },
-        trigger: {
-          date: reminderTime,
-        },
-      });
-
-      return notificationId;
-    } catch (error) {
-      console.error('Error scheduling notification:', error);
-      return null;
-    }
-  };
-
-  const cancelNotification = async (notificationId: string) => {
-    try {
-      await Notifications.cancelScheduledNotificationAsync(notificationId);
-    } catch (error) {
-      console.error('Error canceling notification:', error);
-    }
-  };
-
   const saveAppointment = async () => {
     if (!validateForm() || !user?.id) return;
 
@@ -263,10 +230,6 @@ const DoctorAppointmentsScreen: React.FC = () => {
       let result;
       if (editingAppointment) {
         // Update existing appointment
-        if (editingAppointment.notification_id) {
-          await cancelNotification(editingAppointment.notification_id);
-        }
-
         const { data, error } = await supabase
           .from('doctor_appointments')
           .update(appointmentData)
@@ -291,14 +254,8 @@ const DoctorAppointmentsScreen: React.FC = () => {
         result = data;
       }
 
-      // Schedule notification
-      const notificationId = await scheduleNotification(result);
-      if (notificationId) {
-        await supabase
-          .from('doctor_appointments')
-          .update({ notification_id: notificationId })
-          .eq('id', result.id);
-      }
+      // The reminder 24 hours before is planned with the rest of the device's notifications
+      NotificationScheduler.sync();
 
       closeModal();
       await loadAppointments();
@@ -327,16 +284,13 @@ const DoctorAppointmentsScreen: React.FC = () => {
             try {
               Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
 
-              if (appointment.notification_id) {
-                await cancelNotification(appointment.notification_id);
-              }
-
               const { error } = await supabase
                 .from('doctor_appointments')
                 .delete()
                 .eq('id', appointment.id);
 
               if (error) throw error;
+              NotificationScheduler.sync();
 
               await loadAppointments();
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -363,6 +317,7 @@ const DoctorAppointmentsScreen: React.FC = () => {
         .eq('id', appointment.id);
 
       if (error) throw error;
+      NotificationScheduler.sync();
 
       await loadAppointments();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -550,6 +505,19 @@ const DoctorAppointmentsScreen: React.FC = () => {
                 Complete
               </Button>
             )}
+            {isUpcoming && appointment.status === 'scheduled' && (
+              <Button
+                mode="outlined"
+                icon="file-chart"
+                onPress={() => setReportAppointment(appointment)}
+                style={styles.modernEditButton}
+                labelStyle={styles.modernActionButtonLabel}
+                textColor="#667eea"
+                compact
+              >
+                Report
+              </Button>
+            )}
             <Button
               mode="outlined"
               onPress={() => openModal(appointment)}
@@ -904,6 +872,13 @@ const DoctorAppointmentsScreen: React.FC = () => {
         </Modal>
       </Portal>
 
+      {/* Visit Report Modal */}
+      <VisitReportModal
+        visible={reportAppointment !== null}
+        onDismiss={() => setReportAppointment(null)}
+        appointment={reportAppointment}
+      />
+
       {/* Date Picker Modal */}
       <Portal>
         <Modal visible={showDatePicker} onDismiss={() => setShowDatePicker(false)} contentContainerStyle={styles.pickerModalContainer}>
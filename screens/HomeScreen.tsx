@@ -2,7 +2,7 @@ import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { StyleSheet, View, ScrollView, ActivityIndicator, Alert, Dimensions, RefreshControl, Platform, StatusBar, TouchableOpacity } from 'react-native';
 import { Button, Card, Text, Avatar, List, useTheme, Divider, IconButton, Surface } from 'react-native-paper';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabase';
+import { repositories } from '../lib/repositories';
 import { LinearGradient } from 'expo-linear-gradient';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { BottomSheetModal, BottomSheetModalProvider } from '@gorhom/bottom-sheet';
@@ -33,6 +33,12 @@ import PatientInviteCard from '../components/PatientInviteCard';
 import ConnectionGuide from '../components/ConnectionGuide';
 import FloatingChatBot from '../components/FloatingChatBot';
 import ChatInterface from '../components/ChatInterface';
+import MotorDiaryCard from '../components/MotorDiaryCard';
+import MetricChangesCard from '../components/MetricChangesCard';
+import SosButton from '../components/SosButton';
+import SosDialog from '../components/SosDialog';
+import SosService from '../services/SosService';
+import AlertRuleService from '../services/AlertRuleService';
 
 const ANIMATION_DURATION = 500;
 const ITEM_ANIMATION_DELAY = 150;
@@ -553,6 +559,9 @@ const HomeScreen: React.FC = () => {
   // Chatbot state
   const [showChatInterface, setShowChatInterface] = useState(false);
 
+  // 'confirmed' once the SOS button was held; 'confirm' when the SOS notification action still needs the hold
+  const [sosDialog, setSosDialog] = useState<'confirm' | 'confirmed' | null>(null);
+
   // Animation values using react-native-reanimated
   const fadeAnim = useSharedValue(0);
   const slideAnim = useSharedValue(50);
@@ -563,51 +572,9 @@ const HomeScreen: React.FC = () => {
     if (!user?.id) return;
 
     try {
-      const today = new Date();
-      const dayOfWeek = today.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-      
-      // Get today's scheduled medications (schedules use time column and days_of_week array)
-      const { data: schedules, error: schedulesError } = await supabase
-        .from('medication_schedules')
-        .select(`
-          id,
-          medication_id,
-          scheduled_time,
-          days_of_week,
-          medications!inner(
-            id,
-            name,
-            user_id
-          )
-        `)
-        .eq('medications.user_id', user.id)
-        .contains('days_of_week', [dayOfWeek]);
-
-      if (schedulesError) throw schedulesError;
-
-      const totalScheduled = schedules?.length || 0;
-
-      // Get today's taken medications
-      const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const todayEnd = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
-      
-      const { data: logs, error: logsError } = await supabase
-        .from('medication_administration_logs')
-        .select('id, medication_id')
-        .eq('user_id', user.id)
-        .gte('taken_at', todayStart.toISOString())
-        .lt('taken_at', todayEnd.toISOString());
-
-      if (logsError) throw logsError;
-
-      const totalTaken = logs?.length || 0;
-      const percentage = totalScheduled > 0 ? Math.round((totalTaken / totalScheduled) * 100) : 0;
-
-      setMedicationAdherence({
-        taken: totalTaken,
-        total: totalScheduled,
-        percentage
-      });
+      const { taken, total, percentage } = await repositories.getDailyAdherence(user.id, new Date());
+
+      setMedicationAdherence({ taken, total, percentage });
     } catch (error) {
       console.error('Error fetching medication adherence:', error);
       // Set default values on error
@@ -623,36 +590,12 @@ const HomeScreen: React.FC = () => {
       console.log('Fetching sleep data for user:', user.id);
       
       // Get the most recent sleep data from health_metrics table
-      const { data: sleepMetrics, error } = await supabase
-        .from('health_metrics')
-        .select(`
-          value,
-          recorded_at,
-          health_metric_categories!inner(name)
-        `)
-        .eq('patient_id', user.id)
-        .eq('health_metric_categories.name', 'Sleep Duration')
-        .order('recorded_at', { ascending: false })
-        .limit(1);
-
-      console.log('Sleep metrics query result:', { data: sleepMetrics, error });
-
-      if (error) {
-        console.error('Error fetching sleep metrics:', error);
-        // Use default values on error
-        setSleepData({
-          hours: 7.5,
-          quality: 'Good',
-          qualityScore: 3
-        });
-        return;
-      }
+      const latestSleep = await repositories.metrics.getLatestByCategoryName(user.id, 'Sleep Duration');
 
-      if (sleepMetrics && sleepMetrics.length > 0) {
-        const sleepData = sleepMetrics[0];
-        const hours = parseFloat(sleepData.value);
+      if (latestSleep) {
+        const hours = Number(latestSleep.value);
         
-        console.log('Processing sleep data:', { hours, rawValue: sleepData.value });
+        console.log('Processing sleep data:', { hours, rawValue: latestSleep.value });
         
         // Calculate quality based on sleep duration
         let quality: SleepData['quality'] = 'Poor';
@@ -707,18 +650,9 @@ const HomeScreen: React.FC = () => {
       const today = new Date();
       const todayStr = today.toISOString().split('T')[0];
       
-      const { data: appointments, error } = await supabase
-        .from('doctor_appointments')
-        .select('appointment_date, doctor_name, notes')
-        .eq('patient_id', user.id)
-        .gte('appointment_date', todayStr)
-        .order('appointment_date', { ascending: true })
-        .limit(1);
-
-      if (error) throw error;
-
-      if (appointments && appointments.length > 0) {
-        const appointment = appointments[0];
+      const appointment = await repositories.appointments.getNextAppointment(user.id, todayStr);
+
+      if (appointment) {
         const appointmentDate = new Date(appointment.appointment_date);
         const todayDate = new Date(todayStr);
         const diffTime = appointmentDate.getTime() - todayDate.getTime();
@@ -784,6 +718,17 @@ const HomeScreen: React.FC = () => {
     }
   }, [user, fetchHealthData]);
 
+  useEffect(() => {
+    if (user?.role !== 'patient') return;
+    return SosService.onConfirmationRequested(() => setSosDialog('confirm'));
+  }, [user?.role]);
+
+  // Rules on missed doses have nothing to react to until the patient opens the app
+  useEffect(() => {
+    if (user?.role !== 'patient') return;
+    AlertRuleService.evaluate(user.id);
+  }, [user?.id, user?.role]);
+
   // Trigger entrance animations
   useEffect(() => {
     fadeAnim.value = withTiming(1, { duration: ANIMATION_DURATION });
@@ -937,6 +882,12 @@ const HomeScreen: React.FC = () => {
               </View>
             )}
 
+            {userType === 'patient' && (
+              <View style={styles.sosContainer}>
+                <SosButton onConfirmed={() => setSosDialog('confirmed')} />
+              </View>
+            )}
+
             <View style={styles.dailyActionsContainer}>
               <Text variant="titleLarge" style={[styles.sectionTitle, { color: theme.colors.onBackground }]}>Daily Actions</Text>
               <View style={styles.dailyActionsGrid}>
@@ -978,6 +929,10 @@ const HomeScreen: React.FC = () => {
               </View>
             </View>
 
+            {userType === 'patient' && <MetricChangesCard patientId={user.id} />}
+
+            {userType === 'patient' && <MotorDiaryCard />}
+
             {userType === 'patient' && (
               <Animated.View style={[styles.relationshipCardContainer, profileAnimatedStyle]}>
                 <NeumorphicCard 
@@ -1013,6 +968,13 @@ const HomeScreen: React.FC = () => {
         </View>
       </BottomSheetModalProvider>
       
+      <SosDialog
+        visible={sosDialog !== null}
+        confirmed={sosDialog === 'confirmed'}
+        emergencyContact={user.emergency_contact}
+        onDismiss={() => setSosDialog(null)}
+      />
+
       {/* AI Health Assistant Chat Interface */}
       <ChatInterface 
         visible={showChatInterface}
@@ -1058,6 +1020,10 @@ const styles = StyleSheet.create({
   userName: {
     fontWeight: 'bold',
   },
+  sosContainer: {
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
   dailyActionsContainer: {
     paddingHorizontal: 20,
     marginTop: 20,
@@ -3,9 +3,10 @@ import { View, StyleSheet, Text, ActivityIndicator, ScrollView, RefreshControl,
 import { Calendar, DateData } from 'react-native-calendars';
 import { useTheme, List, Paragraph, Button, Dialog, Portal, RadioButton, Surface, Card } from 'react-native-paper';
 import { useFocusEffect } from '@react-navigation/native';
-import { supabase } from '../lib/supabase';
+import { DoseLogStatus, repositories } from '../lib/repositories';
+import { DoseAdherenceStatus } from '../lib/adherence';
 import { useAuth } from '../context/AuthContext';
-import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval, setHours, setMinutes, setSeconds } from 'date-fns';
+import { format, parseISO, startOfMonth, endOfMonth, setHours, setMinutes, setSeconds } from 'date-fns';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
@@ -20,20 +21,8 @@ import Animated, {
   Layout
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
-
-// Adherence Log Statuses
-type LogStatus = 'skipped' | 'taken'; // 'taken_on_time' removed
-
-interface MedicationLog {
-  id: string;
-  medication_id: string;
-  schedule_id?: string;
-  user_id: string;
-  taken_at: string; // ISO string
-  status: LogStatus;
-  notes?: string;
-  intended_dose_time: string; // ISO string
-}
+import OfflineSyncService from '../services/OfflineSyncService';
+import { usePendingSync } from '../hooks/usePendingSync';
 
 interface ScheduledMedicationDisplayItem {
   id: string; // Unique key for the list: `${medication.id}-${schedule.id}-${dateString}-${schedule.scheduled_time}`
@@ -41,9 +30,11 @@ interface ScheduledMedicationDisplayItem {
   scheduleId?: string; // Original schedule ID
   name: string;
   dosage: string;
+  date: string; // yyyy-MM-dd
   time: string; // HH:MM
   instructions?: string;
-  logStatus?: LogStatus;
+  logStatus?: DoseLogStatus;
+  adherenceStatus: DoseAdherenceStatus;
   medicationLogId?: string; // ID of the medication_administration_logs entry
 }
 
@@ -66,13 +57,6 @@ const { width, height } = Dimensions.get('window');
 const AnimatedSurface = Animated.createAnimatedComponent(Surface);
 const AnimatedCard = Animated.createAnimatedComponent(Card);
 
-const dayNameToNumber = (dayName: string): number => {
-  const days: { [key: string]: number } = {
-    'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
-  };
-  return days[dayName];
-};
-
 const MedicationCalendarScreen = () => {
   const theme = useTheme();
   const { user } = useAuth();
@@ -84,6 +68,8 @@ const MedicationCalendarScreen = () => {
   const [error, setError] = useState<string | null>(null);
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const isProcessingRef = useRef(false); // Added ref for synchronous check
+  const { pendingDoseStatuses, pendingCount } = usePendingSync();
+  const previousPendingCountRef = useRef(pendingCount);
 
   // Animation values
   const headerOpacity = useSharedValue(0);
@@ -110,6 +96,13 @@ const MedicationCalendarScreen = () => {
     opacity: medicationListOpacity.value,
   }));
 
+  const getColorForAdherence = useCallback((status: DoseAdherenceStatus) => {
+    if (status === 'on_time') return '#4CAF50';
+    if (status === 'late') return '#FF9800';
+    if (status === 'skipped' || status === 'missed') return theme.colors.error;
+    return theme.colors.primary; // Upcoming
+  }, [theme.colors.error, theme.colors.primary]);
+
   const fetchAndProcessSchedules = useCallback(async (monthToLoad: Date, currentSelectedDate: string) => {
     if (!user) return;
     setIsLoading(true);
@@ -119,109 +112,47 @@ const MedicationCalendarScreen = () => {
       const viewStartDate = startOfMonth(monthToLoad);
       const viewEndDate = endOfMonth(monthToLoad);
 
-      // Fetch medications with their schedules
-      const { data: medicationsData, error: medError } = await supabase
-        .from('medications')
-        .select('id, name, dosage, instructions, start_date, end_date, medication_schedules(id, scheduled_time, days_of_week)')
-        .eq('patient_id', user.id)
-        // Add filters for medications active in the current view window if desired (optional optimization)
-        // .lte('start_date', format(viewEndDate, 'yyyy-MM-dd')) 
-        // .or(\`end_date.gte.${format(viewStartDate, 'yyyy-MM-dd')},end_date.is.null\`)
-
-
-      if (medError) throw medError;
-
-      // Fetch administration logs for the current view window
-      const { data: logsData, error: logError } = await supabase
-        .from('medication_administration_logs')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('intended_dose_time', viewStartDate.toISOString())
-        .lte('intended_dose_time', endOfMonth(viewEndDate).toISOString()); // Ensure end of day for viewEndDate
-
-      if (logError) throw logError;
-      
-      const logsMap = new Map<string, MedicationLog>();
-      logsData?.forEach(log => {
-        // Key for logsMap: medicationId-dateString-time (HH:MM from intended_dose_time)
-        const intendedTime = parseISO(log.intended_dose_time);
-        const logKey = `${log.medication_id}-${format(intendedTime, 'yyyy-MM-dd')}-${format(intendedTime, 'HH:mm')}`;
-        logsMap.set(logKey, log);
-      });
-
+      // Every expected dose this month, classified as on time, late, skipped, missed or upcoming
+      const doses = await repositories.getAdherence(user.id, viewStartDate, viewEndDate);
 
       const newMarkedDates: MarkedDatesType = {};
-      const takenMedColor = '#4CAF50'; // Explicit Green for "Taken"
-      const skippedMedColor = theme.colors.error;   // Use theme's error color (e.g., Red)
-      const notTakenYetColor = theme.colors.primary; // Use theme's primary color for "Scheduled/Not Logged Yet" (e.g., Blue)
-
 
-      medicationsData?.forEach(med => {
-        med.medication_schedules?.forEach(schedule => {
-          if (!schedule.days_of_week || schedule.days_of_week.length === 0 || !schedule.scheduled_time) return;
+      doses.forEach(dose => {
+        const dateString = format(dose.intendedDoseTime, 'yyyy-MM-dd');
 
-          const medStartDate = med.start_date ? parseISO(med.start_date) : new Date(1900, 0, 1);
-          const medEndDate = med.end_date ? parseISO(med.end_date) : new Date(2100, 0, 1);
-          const scheduledDaysNumbers = schedule.days_of_week.map(dayNameToNumber);
-          const [hours, minutes] = schedule.scheduled_time.split(':').map(Number);
-
-          const loopStart = medStartDate > viewStartDate ? medStartDate : viewStartDate;
-          const loopEnd = medEndDate < viewEndDate ? medEndDate : viewEndDate;
+        if (!newMarkedDates[dateString]) {
+          newMarkedDates[dateString] = { periods: [], medications: [] };
+        }
+        // Check if a period with the same name (med name + time) already exists to avoid duplicates from different schedules of the same med
+        const periodNameForMed = `${dose.medicationName}-${dose.scheduledTime}`;
+        const periodAlreadyExists = newMarkedDates[dateString].periods?.some(p => p.periodName === periodNameForMed);
+
+        if (!periodAlreadyExists) {
+          newMarkedDates[dateString].periods?.push({
+            startingDay: true,
+            endingDay: true,
+            color: getColorForAdherence(dose.status),
+            periodName: periodNameForMed // Store a name to identify the period
+          });
+        }
 
-          if (loopStart > loopEnd) return;
+        const displayItem: ScheduledMedicationDisplayItem = {
+          id: dose.doseKey, // medicationId-dateString-time
+          medicationId: dose.medicationId,
+          scheduleId: dose.scheduleId,
+          name: dose.medicationName,
+          dosage: dose.dosage,
+          date: dateString,
+          time: dose.scheduledTime,
+          instructions: dose.instructions ?? undefined,
+          logStatus: dose.log?.status as DoseLogStatus | undefined,
+          adherenceStatus: dose.status,
+          medicationLogId: dose.log?.id,
+        };
 
-          eachDayOfInterval({ start: loopStart, end: loopEnd }).forEach(dayDate => {
-            if (scheduledDaysNumbers.includes(dayDate.getDay())) {
-              const dateString = format(dayDate, 'yyyy-MM-dd');
-              const doseTimeKey = `${med.id}-${dateString}-${schedule.scheduled_time.substring(0,5)}`;
-              const existingLog = logsMap.get(doseTimeKey);
-              
-              let periodColor = notTakenYetColor; // Default for not-yet-logged
-              if (existingLog?.status === 'taken') periodColor = takenMedColor;
-              else if (existingLog?.status === 'skipped') periodColor = skippedMedColor;
-
-
-              if (!newMarkedDates[dateString]) {
-                newMarkedDates[dateString] = { periods: [], medications: [] };
-              }
-               // Check if a period with the same name (med name + time) already exists to avoid duplicates from different schedules of the same med
-              const periodNameForMed = `${med.name}-${schedule.scheduled_time.substring(0,5)}`;
-              const periodAlreadyExists = newMarkedDates[dateString].periods?.some(p => p.periodName === periodNameForMed);
-
-              if (!periodAlreadyExists) {
-                 newMarkedDates[dateString].periods?.push({ 
-                    startingDay: true, 
-                    endingDay: true, 
-                    color: periodColor,
-                    periodName: periodNameForMed // Store a name to identify the period
-                });
-              }
-
-
-              const displayItem: ScheduledMedicationDisplayItem = {
-                id: doseTimeKey, // medicationId-dateString-time
-                medicationId: med.id,
-                scheduleId: schedule.id,
-                name: med.name,
-                dosage: med.dosage,
-                time: schedule.scheduled_time.substring(0,5),
-                instructions: med.instructions,
-                logStatus: existingLog?.status,
-                medicationLogId: existingLog?.id,
-              };
-              
-              // Ensure medications array exists before pushing
-              if (!newMarkedDates[dateString].medications) {
-                 newMarkedDates[dateString].medications = [];
-              }
-              newMarkedDates[dateString].medications?.push(displayItem);
-              // Sort medications by time for consistent display
-              newMarkedDates[dateString].medications?.sort((a, b) => a.time.localeCompare(b.time));
-            }
-          });
-        });
+        newMarkedDates[dateString].medications?.push(displayItem);
       });
-      
+
       // Replace markedDates completely instead of merging
       setMarkedDates(newMarkedDates);
       
@@ -231,7 +162,7 @@ const MedicationCalendarScreen = () => {
       } else if (!newMarkedDates[currentSelectedDate] && Object.keys(newMarkedDates).length > 0) {
         // If there are marked dates but none for the selected date, clear the medications
         setMedsForSelectedDate([]);
-      } else if (Object.keys(newMarkedDates).length === 0 && medicationsData?.length === 0) {
+      } else if (Object.keys(newMarkedDates).length === 0) {
         // No medications at all, clear everything
         setMedsForSelectedDate([]);
       }
@@ -243,7 +174,7 @@ const MedicationCalendarScreen = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [user, theme.colors.error, theme.colors.primary]);
+  }, [user, getColorForAdherence]);
 
   // Effect to update medications for selected date when markedDates or selectedDate changes
   useEffect(() => {
@@ -260,7 +191,15 @@ const MedicationCalendarScreen = () => {
     }, [fetchAndProcessSchedules, currentMonth, selectedDate])
   );
 
-  const handleLogDose = async (item: ScheduledMedicationDisplayItem, statusToSet: LogStatus) => {
+  // Reload once queued offline logs have reached the server
+  useEffect(() => {
+    if (pendingCount < previousPendingCountRef.current) {
+      fetchAndProcessSchedules(currentMonth, selectedDate);
+    }
+    previousPendingCountRef.current = pendingCount;
+  }, [pendingCount]);
+
+  const handleLogDose = async (item: ScheduledMedicationDisplayItem, statusToSet: DoseLogStatus) => {
     console.log('[MedicationCalendarScreen] handleLogDose called with item:', JSON.stringify(item), 'statusToSet:', statusToSet);
     
     // Synchronous check to prevent multiple rapid presses
@@ -275,58 +214,35 @@ const MedicationCalendarScreen = () => {
     try {
       console.log('[MedicationCalendarScreen] About to handle logging for medication:', item.medicationId, 'status:', statusToSet);
 
-      if (item.medicationLogId) {
-        // Update existing log
-        console.log('[MedicationCalendarScreen] Updating existing log with ID:', item.medicationLogId);
-        const { error: updateError } = await supabase
-          .from('medication_administration_logs')
-          .update({ 
-            status: statusToSet,
-            taken_at: new Date().toISOString()
-          })
-          .eq('id', item.medicationLogId);
-
-        if (updateError) {
-          console.error('[MedicationCalendarScreen] Error updating log:', updateError);
-          throw updateError;
-        }
-        console.log('[MedicationCalendarScreen] Successfully updated existing log');
-      } else {
-        // Create new log entry
-        console.log('[MedicationCalendarScreen] Creating new log entry');
-        const intendedDoseDateTime = new Date();
-        const [hours, minutes] = item.time.split(':').map(Number);
-        intendedDoseDateTime.setHours(hours, minutes, 0, 0);
+      const intendedDoseDateTime = parseISO(item.date);
+      const [hours, minutes] = item.time.split(':').map(Number);
+      intendedDoseDateTime.setHours(hours, minutes, 0, 0);
 
-        const newLogEntry = {
+      // Goes through the offline outbox so the dose is kept (and replayed) without a connection
+      const { synced } = await OfflineSyncService.submit({
+        kind: 'dose_log',
+        payload: {
+          log_id: item.medicationLogId || null,
           medication_id: item.medicationId,
           schedule_id: item.scheduleId || null,
           user_id: user!.id,
           status: statusToSet,
           taken_at: new Date().toISOString(),
           intended_dose_time: intendedDoseDateTime.toISOString(),
-          notes: null
-        };
-
-        console.log('[MedicationCalendarScreen] New log entry to insert:', JSON.stringify(newLogEntry));
-
-        const { error: insertError } = await supabase
-          .from('medication_administration_logs')
-          .insert([newLogEntry]);
-
-        if (insertError) {
-          console.error('[MedicationCalendarScreen] Error inserting new log:', insertError);
-          throw insertError;
-        }
-        console.log('[MedicationCalendarScreen] Successfully inserted new log');
-      }
+          notes: null,
+        },
+      });
 
       // Haptic feedback
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-      // Refresh the data to reflect the changes
-      console.log('[MedicationCalendarScreen] Refreshing data after successful log operation');
-      await fetchAndProcessSchedules(currentMonth, selectedDate);
+      if (synced) {
+        // Refresh the data to reflect the changes
+        console.log('[MedicationCalendarScreen] Refreshing data after successful log operation');
+        await fetchAndProcessSchedules(currentMonth, selectedDate);
+      } else {
+        console.log('[MedicationCalendarScreen] Offline - dose log queued for sync');
+      }
 
     } catch (e: any) {
       console.error('[MedicationCalendarScreen] Error in handleLogDose catch block:', e);
@@ -357,19 +273,21 @@ const MedicationCalendarScreen = () => {
     fetchAndProcessSchedules(newMonthDate, selectedDate);
   };
 
-  const getIconForStatus = (status?: LogStatus) => {
-    if (status === 'taken') return 'check-circle'; // 'taken_on_time' removed
+  const getIconForStatus = (status: DoseAdherenceStatus) => {
+    if (status === 'on_time' || status === 'late') return 'check-circle';
     if (status === 'skipped') return 'close-circle';
+    if (status === 'missed') return 'alert-circle';
     return 'pill'; // Default for not logged
   };
-  
-  const getColorForStatus = (status?: LogStatus) => {
-    if (status === 'taken') return '#4CAF50'; // 'taken_on_time' removed
-    if (status === 'skipped') return theme.colors.error; // Usually red-ish
-    return theme.colors.onSurfaceVariant; // Default
-  };
 
-  const renderMedicationCard = (item: ScheduledMedicationDisplayItem, index: number) => {
+  const renderMedicationCard = (displayItem: ScheduledMedicationDisplayItem, index: number) => {
+    // Doses logged offline show their queued status until the outbox syncs
+    const pendingStatus = pendingDoseStatuses.get(displayItem.id);
+    const item: ScheduledMedicationDisplayItem = pendingStatus
+      ? { ...displayItem, logStatus: pendingStatus, adherenceStatus: pendingStatus === 'taken' ? 'on_time' : 'skipped' }
+      : displayItem;
+    const statusColor = getColorForAdherence(item.adherenceStatus);
+
     return (
       <AnimatedCard
         key={item.id}
@@ -398,9 +316,9 @@ const MedicationCalendarScreen = () => {
             <View style={styles.cardHeader}>
               <View style={styles.medicationInfo}>
                 <MaterialCommunityIcons 
-                  name={getIconForStatus(item.logStatus)} 
+                  name={getIconForStatus(item.adherenceStatus)} 
                   size={28} 
-                  color={getColorForStatus(item.logStatus)}
+                  color={item.adherenceStatus === 'upcoming' ? theme.colors.onSurfaceVariant : statusColor}
                   style={styles.medicationIcon}
                 />
                 <View style={styles.medicationDetails}>
@@ -410,11 +328,22 @@ const MedicationCalendarScreen = () => {
                   <Text style={[styles.medicationTime, { color: theme.colors.primary }]}>
                     Scheduled at: {item.time}
                   </Text>
+                  {item.adherenceStatus === 'missed' && (
+                    <Text style={[styles.medicationInstructions, { color: statusColor }]}>
+                      Missed
+                    </Text>
+                  )}
                   {item.instructions && (
                     <Text style={[styles.medicationInstructions, { color: theme.colors.onSurfaceVariant }]}>
                       {item.instructions}
                     </Text>
                   )}
+                  {pendingStatus && (
+                    <View style={styles.pendingSyncRow}>
+                      <MaterialCommunityIcons name="cloud-upload-outline" size={14} color={theme.colors.onSurfaceVariant} />
+                      <Text style={[styles.pendingSyncText, { color: theme.colors.onSurfaceVariant }]}>Pending sync</Text>
+                    </View>
+                  )}
                 </View>
               </View>
               
@@ -439,10 +368,16 @@ const MedicationCalendarScreen = () => {
                     </TouchableOpacity>
                   </View>
                 )}
-                {item.logStatus === 'taken' && (
+                {item.adherenceStatus === 'on_time' && (
                   <Surface style={[styles.statusBadge, { backgroundColor: 'rgba(76, 175, 80, 0.2)' }]} elevation={1}>
-                    <MaterialCommunityIcons name="check-circle" size={16} color="#4CAF50" />
-                    <Text style={[styles.statusText, { color: '#4CAF50' }]}>Taken</Text>
+                    <MaterialCommunityIcons name="check-circle" size={16} color={statusColor} />
+                    <Text style={[styles.statusText, { color: statusColor }]}>Taken</Text>
+                  </Surface>
+                )}
+                {item.adherenceStatus === 'late' && (
+                  <Surface style={[styles.statusBadge, { backgroundColor: 'rgba(255, 152, 0, 0.2)' }]} elevation={1}>
+                    <MaterialCommunityIcons name="clock-alert-outline" size={16} color={statusColor} />
+                    <Text style={[styles.statusText, { color: statusColor }]}>Taken late</Text>
                   </Surface>
                 )}
                 {item.logStatus === 'skipped' && (
@@ -728,6 +663,16 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     opacity: 0.8,
   },
+  pendingSyncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  pendingSyncText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
   actionContainer: {
     alignItems: 'center',
   },
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { ScrollView, StyleSheet, View, Alert } from 'react-native';
 import { TextInput, Button, useTheme, Text, HelperText, Card, Chip, List, Switch, IconButton } from 'react-native-paper';
 import { DatePickerModal, TimePickerModal } from 'react-native-paper-dates';
@@ -6,13 +6,46 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
-import { scheduleLocalNotification, cancelScheduledNotification } from '../src/utils/notificationUtils';
-import * as Notifications from 'expo-notifications';
-import { parseISO } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { MedicationStackParamList } from '../navigation/MedicationStackNavigator';
+import { repositories } from '../lib/repositories';
+import { MedicationWarning, SEVERITY_LABELS, checkMedicationSafety, formatWarning } from '../lib/interactions';
+import {
+  CatalogEntry,
+  DOSE_FORM_LABELS,
+  DOSE_UNITS,
+  DoseForm,
+  DoseUnit,
+  formatStrength,
+  getCatalogDisplayName,
+  getCatalogEntry,
+  searchCatalog,
+} from '../lib/medicationCatalog';
+import {
+  FlexibleScheduleRule,
+  SCHEDULE_RULE_LABELS,
+  ScheduleRule,
+  getRepresentativeTime,
+  parseScheduleRule,
+  validateScheduleRule,
+} from '../lib/scheduleRules';
+import { DayOfWeek } from '../lib/repositories';
+import { Json } from '../lib/database.types';
+import ScheduleRuleEditor, { createDefaultRule } from '../components/ScheduleRuleEditor';
+import { STOCK_STATUS_LABELS, describeStock, projectStock } from '../lib/inventory';
+import InventoryService from '../services/InventoryService';
+import {
+  ESCALATION_PRESETS,
+  EscalationPolicy,
+  EscalationPresetId,
+  describeEscalationStep,
+  findEscalationPreset,
+  parseEscalationPolicy,
+} from '../lib/escalationPolicy';
 
 // Import our new notification service
-import NotificationService, { MedicationAlarm } from '../services/NotificationService';
+import NotificationService from '../services/NotificationService';
+import NotificationScheduler from '../services/NotificationScheduler';
 
 type MedicationFormScreenRouteProp = RouteProp<{ params: { medicationId?: string } }, 'params'>;
 type MedicationFormNavigationProp = StackNavigationProp<MedicationStackParamList, 'MedicationForm'>;
@@ -21,62 +54,24 @@ interface ScheduleTime {
   id?: string; // For existing schedules
   time: string; // HH:MM format
   daysOfWeek: string[]; // e.g. ['Mon', 'Tue', 'Wed']
-  notification_ids?: string[] | null; // Added for storing notification IDs
+  rule?: FlexibleScheduleRule | null; // Interval, as-needed or titration; unset for a fixed time
 }
 
 const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-const dayNameToNumber: { [key: string]: number } = { // For Date.getDay() (Sun=0)
-  'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
-};
-
-// Helper function to calculate next notification dates
-const calculateNextNotificationDates = (
-  scheduleTime: string, 
-  daysOfWeek: string[], 
-  medStartDate: Date | undefined, 
-  medEndDate: Date | undefined, 
-  count: number = 30 // Schedule for next 30 occurrences or up to medEndDate
-): Date[] => {
-  const dates: Date[] = [];
-  if (daysOfWeek.length === 0) return dates;
-
-  const [hours, minutes] = scheduleTime.split(':').map(Number);
-  const targetDays = daysOfWeek.map(d => dayNameToNumber[d]);
-
-  let currentDate = medStartDate ? new Date(medStartDate) : new Date();
-  // Ensure currentDate starts from today if medStartDate is in the past for scheduling purposes
-  if (medStartDate && medStartDate < new Date() && !(medStartDate.toDateString() === new Date().toDateString())) {
-    currentDate = new Date(); 
-  }
-  currentDate.setHours(0, 0, 0, 0); // Start checking from the beginning of the day
 
-  let occurrencesFound = 0;
-
-  for (let i = 0; i < 365 && occurrencesFound < count; i++) { // Limit search to 1 year to prevent infinite loops
-    const checkDate = new Date(currentDate);
-    checkDate.setDate(currentDate.getDate() + i);
-
-    if (medEndDate && checkDate > medEndDate) {
-      break; // Stop if we've passed the medication's end date
-    }
+const ruleForSchedule = (schedule: ScheduleTime): ScheduleRule =>
+  schedule.rule ?? { kind: 'fixed', time: schedule.time, daysOfWeek: schedule.daysOfWeek as DayOfWeek[] };
 
-    if (targetDays.includes(checkDate.getDay())) {
-      const notificationDateTime = new Date(checkDate);
-      notificationDateTime.setHours(hours, minutes, 0, 0);
-
-      // Only schedule if the notification time is in the future
-      // And (if medStartDate is defined) it's on or after medStartDate
-      // And (if medEndDate is defined) it's on or before medEndDate (already partially handled by loop break)
-      if (notificationDateTime > new Date() && 
-          (!medStartDate || notificationDateTime >= new Date(new Date(medStartDate).setHours(hours,minutes,0,0)) ) &&
-          (!medEndDate || notificationDateTime <= new Date(new Date(medEndDate).setHours(23,59,59,999)))
-         ) {
-        dates.push(notificationDateTime);
-        occurrencesFound++;
-      }
-    }
+// Column values for a medication_schedules row
+const scheduleRowFields = (schedule: ScheduleTime) => {
+  if (!schedule.rule) {
+    return { scheduled_time: schedule.time, days_of_week: schedule.daysOfWeek, rule: null };
   }
-  return dates;
+  return {
+    scheduled_time: getRepresentativeTime(schedule.rule),
+    days_of_week: schedule.rule.kind === 'interval' ? schedule.rule.daysOfWeek : days,
+    rule: schedule.rule as unknown as Json,
+  };
 };
 
 const MedicationFormScreen = () => {
@@ -89,7 +84,18 @@ const MedicationFormScreen = () => {
   const isEditing = Boolean(medicationId);
 
   const [name, setName] = useState('');
+  const [originalName, setOriginalName] = useState(''); // Name as loaded, to tell renames from edits
+  const [otherMedicationNames, setOtherMedicationNames] = useState<string[]>([]);
   const [dosage, setDosage] = useState('');
+  const [catalogId, setCatalogId] = useState<string | null>(null);
+  const [doseAmount, setDoseAmount] = useState('');
+  const [doseUnit, setDoseUnit] = useState<DoseUnit | null>(null);
+  const [doseForm, setDoseForm] = useState<DoseForm | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [stockCount, setStockCount] = useState(''); // Blank = stock not tracked
+  const [pillsPerDose, setPillsPerDose] = useState('1');
+  const [refillReminderDays, setRefillReminderDays] = useState('7');
+  const [escalationPolicy, setEscalationPolicy] = useState<EscalationPolicy | null>(null); // null = default policy
   const [instructions, setInstructions] = useState('');
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
@@ -136,7 +142,16 @@ const MedicationFormScreen = () => {
           if (data) {
             console.log('[MedForm Edit] Fetched medication data:', data);
             setName(data.name || '');
+            setOriginalName(data.name || '');
             setDosage(data.dosage || '');
+            setCatalogId(data.catalog_id);
+            setDoseAmount(data.dose_amount != null ? String(data.dose_amount) : '');
+            setDoseUnit(data.dose_unit as DoseUnit | null);
+            setDoseForm(data.dose_form as DoseForm | null);
+            setStockCount(data.stock_count != null ? String(data.stock_count) : '');
+            setPillsPerDose(String(data.pills_per_dose ?? 1));
+            setRefillReminderDays(String(data.refill_reminder_days ?? 7));
+            setEscalationPolicy(parseEscalationPolicy(data.escalation_policy));
             setInstructions(data.instructions || '');
             setStartDate(data.start_date ? parseISO(data.start_date) : null);
             setEndDate(data.end_date ? parseISO(data.end_date) : null);
@@ -146,7 +161,7 @@ const MedicationFormScreen = () => {
                 id: s.id, // Store schedule id for updates/deletions
                 time: s.scheduled_time.substring(0, 5),
                 daysOfWeek: s.days_of_week || [],
-                notification_ids: s.notification_ids || [], // Load existing notification IDs
+                rule: parseScheduleRule(s.rule),
               }));
               setScheduleTimes(loadedSchedules);
             }
@@ -167,6 +182,87 @@ const MedicationFormScreen = () => {
     }
   }, [isEditing, medicationId, user, navigation]);
 
+  // The patient's other active medications, for the interaction check
+  useEffect(() => {
+    if (!user?.id) return;
+    const today = format(new Date(), 'yyyy-MM-dd');
+    repositories.medications.listForPatient(user.id)
+      .then(medications => setOtherMedicationNames(
+        medications
+          .filter(m => m.id !== medicationId && (!m.end_date || m.end_date >= today))
+          .map(m => m.name)
+      ))
+      .catch(e => console.warn('[MedForm] Could not load medications for interaction check:', e));
+  }, [user?.id, medicationId]);
+
+  const catalogEntry = useMemo(() => getCatalogEntry(catalogId), [catalogId]);
+  const suggestions = useMemo(() => (showSuggestions ? searchCatalog(name) : []), [name, showSuggestions]);
+
+  const handleNameChange = (text: string) => {
+    setName(text);
+    setShowSuggestions(true);
+    // Typing over a picked entry unlinks it; the structured dose fields are kept
+    if (catalogId) setCatalogId(null);
+  };
+
+  const selectCatalogEntry = (entry: CatalogEntry) => {
+    // Keep the brand the user was typing, otherwise store the generic name
+    const typed = name.trim().toLowerCase();
+    setName(entry.brandNames.find(brand => brand.toLowerCase().startsWith(typed)) ?? entry.genericName);
+    setCatalogId(entry.id);
+    setDoseForm(entry.form);
+    setDoseUnit(entry.unit);
+    setShowSuggestions(false);
+    if (entry.strengths.length === 1) {
+      setDoseAmount(String(entry.strengths[0].amount));
+    }
+  };
+
+  const selectStrength = (entry: CatalogEntry, strengthIndex: number) => {
+    const strength = entry.strengths[strengthIndex];
+    setDoseAmount(String(strength.amount));
+    setDoseUnit(entry.unit);
+    if (!dosage.trim()) setDosage(formatStrength(entry, strength));
+  };
+
+  // Run-out projection for the values currently in the form
+  const escalationPreset = useMemo(() => findEscalationPreset(escalationPolicy), [escalationPolicy]);
+
+  const stockProjection = useMemo(() => {
+    const stock = stockCount.trim() ? Number(stockCount) : null;
+    const perDose = Number(pillsPerDose);
+    const reminderDays = Number(refillReminderDays);
+    if (stock === null || !Number.isFinite(stock) || !(perDose > 0) || !Number.isFinite(reminderDays)) return null;
+    const medication = {
+      stock_count: stock,
+      pills_per_dose: perDose,
+      refill_reminder_days: reminderDays,
+      start_date: startDate ? format(startDate, 'yyyy-MM-dd') : null,
+      end_date: endDate ? format(endDate, 'yyyy-MM-dd') : null,
+    };
+    const projection = projectStock(medication, scheduleTimes.map(ruleForSchedule));
+    return { projection, summary: describeStock(medication, projection) };
+  }, [stockCount, pillsPerDose, refillReminderDays, startDate, endDate, scheduleTimes]);
+
+  const safetyWarnings = useMemo<MedicationWarning[]>(
+    () => (name.trim() ? checkMedicationSafety(name.trim(), otherMedicationNames, user?.medication_sensitivity) : []),
+    [name, otherMedicationNames, user?.medication_sensitivity]
+  );
+
+  // Resolves true when the user chooses to save despite the warnings
+  const confirmSafetyWarnings = (warnings: MedicationWarning[]) =>
+    new Promise<boolean>(resolve => {
+      Alert.alert(
+        'Medication Warning',
+        `${warnings.map(formatWarning).join('\n\n')}\n\nPlease check with your doctor or pharmacist before taking these together.`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Save Anyway', style: 'destructive', onPress: () => resolve(true) },
+        ],
+        { cancelable: true, onDismiss: () => resolve(false) }
+      );
+    });
+
   const onDismissStartDatePicker = useCallback(() => setOpenStartDatePicker(false), []);
   const onConfirmStartDatePicker = useCallback((params: { date: Date }) => {
     setOpenStartDatePicker(false);
@@ -183,7 +279,16 @@ const MedicationFormScreen = () => {
   const onConfirmTimePicker = ({ hours, minutes }: { hours: number; minutes: number }) => {
     setTimePickerVisible(false);
     const newTime = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-    setScheduleTimes(prev => [...prev, { time: newTime, daysOfWeek: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'], notification_ids: null }]);
+    setScheduleTimes(prev => [...prev, { time: newTime, daysOfWeek: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] }]);
+  };
+
+  const addScheduleRule = (kind: FlexibleScheduleRule['kind']) => {
+    const rule = createDefaultRule(kind, startDate);
+    setScheduleTimes(prev => [...prev, { time: getRepresentativeTime(rule), daysOfWeek: days, rule }]);
+  };
+
+  const updateScheduleRule = (index: number, rule: FlexibleScheduleRule) => {
+    setScheduleTimes(prev => prev.map((schedule, i) => (i === index ? { ...schedule, rule } : schedule)));
   };
 
   const removeScheduleTime = (index: number) => {
@@ -219,6 +324,35 @@ const MedicationFormScreen = () => {
       setError('Medication name and dosage are required.');
       return;
     }
+    const scheduleError = scheduleTimes.map(st => validateScheduleRule(ruleForSchedule(st))).find(Boolean);
+    if (scheduleError) {
+      setError(scheduleError);
+      return;
+    }
+    const parsedStockCount = stockCount.trim() ? Number(stockCount) : null;
+    const parsedPillsPerDose = Number(pillsPerDose);
+    const parsedRefillReminderDays = Number(refillReminderDays);
+    if (parsedStockCount !== null && (!Number.isFinite(parsedStockCount) || parsedStockCount < 0)) {
+      setError('Pills on hand must be zero or more.');
+      return;
+    }
+    if (!Number.isFinite(parsedPillsPerDose) || parsedPillsPerDose <= 0) {
+      setError('Pills per dose must be a positive number.');
+      return;
+    }
+    if (!Number.isInteger(parsedRefillReminderDays) || parsedRefillReminderDays < 0) {
+      setError('Refill reminder days must be a whole number.');
+      return;
+    }
+    const parsedDoseAmount = doseAmount.trim() ? Number(doseAmount) : null;
+    if (parsedDoseAmount !== null && (!Number.isFinite(parsedDoseAmount) || parsedDoseAmount <= 0)) {
+      setError('Dose amount must be a positive number.');
+      return;
+    }
+
+    if (safetyWarnings.length > 0 && !(await confirmSafetyWarnings(safetyWarnings))) {
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
@@ -229,6 +363,14 @@ const MedicationFormScreen = () => {
         user_id: user.id,
         name,
         dosage,
+        catalog_id: catalogId,
+        dose_amount: parsedDoseAmount,
+        dose_unit: parsedDoseAmount !== null ? doseUnit : null,
+        dose_form: doseForm,
+        stock_count: parsedStockCount,
+        pills_per_dose: parsedPillsPerDose,
+        refill_reminder_days: parsedRefillReminderDays,
+        escalation_policy: escalationPolicy as unknown as Json,
         frequency: 'Not specified', 
         instructions,
         start_date: startDate ? startDate.toISOString().split('T')[0] : null,
@@ -261,12 +403,12 @@ const MedicationFormScreen = () => {
         throw new Error('Medication ID not available after save/update.');
       }
 
-      // --- NOTIFICATION AND SCHEDULE HANDLING ---
-      // 1. Fetch existing DB schedules to compare (especially for their notification_ids)
+      // --- SCHEDULE HANDLING ---
+      // 1. Fetch existing DB schedules to compare
       const { data: existingDbSchedulesData, error: fetchOldSchedError } = isEditing && savedMedicationId ? 
         await supabase
           .from('medication_schedules')
-          .select('id, notification_ids, scheduled_time, days_of_week') // also fetch time and days for comparison
+          .select('id, scheduled_time, days_of_week, rule') // time, days and rule for comparison
           .eq('medication_id', savedMedicationId)
         : { data: [], error: null };
 
@@ -280,166 +422,48 @@ const MedicationFormScreen = () => {
       const formScheduleIds = new Set(scheduleTimes.map(st => st.id).filter(id => id));
       const schedulesToDelete = Array.from(existingDbSchedulesMap.values()).filter(dbSched => !formScheduleIds.has(dbSched.id));
       const schedulesToAdd = scheduleTimes.filter(st => !st.id);
-      const schedulesToUpdate = scheduleTimes.filter(st => st.id && existingDbSchedulesMap.has(st.id));
-
-      // 3. Process deletions
-      if (schedulesToDelete.length > 0) {
-        const deletePromises = schedulesToDelete.map(async (dbSched) => {
-          // Cancel existing notifications for this schedule
-          if (dbSched.notification_ids && dbSched.notification_ids.length > 0) {
-            console.log(`[MedForm] Cancelling ${dbSched.notification_ids.length} notifications for deleted schedule ID ${dbSched.id}`);
-            await Promise.all(dbSched.notification_ids.map((nid: string) => cancelScheduledNotification(nid)));
-          }
-          return supabase.from('medication_schedules').delete().eq('id', dbSched.id);
-        });
-        const deleteResults = await Promise.all(deletePromises);
-        deleteResults.forEach(result => {
-          if (result.error) console.warn('Error deleting schedule:', result.error.message);
-        });
+      const schedulesToUpdate = scheduleTimes.filter(st => {
+        const existingDbSchedule = st.id ? existingDbSchedulesMap.get(st.id) : undefined;
+        if (!existingDbSchedule) return false;
+        // Only rows whose time, days or rule actually changed
+        const timeChanged = existingDbSchedule.scheduled_time.substring(0,5) !== st.time;
+        const daysChanged = JSON.stringify(existingDbSchedule.days_of_week.slice().sort()) !== JSON.stringify(st.daysOfWeek.slice().sort());
+        const ruleChanged = JSON.stringify(existingDbSchedule.rule ?? null) !== JSON.stringify(st.rule ?? null);
+        return timeChanged || daysChanged || ruleChanged;
+      });
+
+      // 3. Apply the changes; reminders are planned from the saved rows afterwards
+      const scheduleResults = await Promise.all([
+        ...schedulesToDelete.map(dbSched => supabase.from('medication_schedules').delete().eq('id', dbSched.id)),
+        ...schedulesToAdd.map(st =>
+          supabase.from('medication_schedules').insert({
+            medication_id: savedMedicationId,
+            user_id: user.id,
+            ...scheduleRowFields(st),
+          })
+        ),
+        ...schedulesToUpdate.map(st => supabase.from('medication_schedules').update(scheduleRowFields(st)).eq('id', st.id!)),
+      ]);
+      scheduleResults.forEach(result => {
+        if (result.error) console.warn('Error saving schedule:', result.error.message);
+      });
+
+      // Reminders for the next hours follow the saved schedules
+      NotificationScheduler.sync();
+
+      // Refill reminder and low-stock alerts follow the new stock and schedule
+      InventoryService.refreshStock(savedMedicationId);
+
+      // Caregivers hear about a conflict once, when the medication is added or renamed
+      if (safetyWarnings.length > 0 && (!isEditing || name !== originalName)) {
+        const patientName = user.full_name || 'Your patient';
+        NotificationService.notifyCaregivers(
+          user.id,
+          'medication_interaction',
+          `${patientName} saved ${name} despite a medication warning. ${safetyWarnings.map(formatWarning).join(' ')}`
+        );
       }
-      
-      // 4. Process additions
-      if (schedulesToAdd.length > 0) {
-        const addPromises = schedulesToAdd.map(async (st) => {
-          const newNotificationIds: string[] = [];
-          const nextNotificationDateObjects = calculateNextNotificationDates(st.time, st.daysOfWeek, startDate, endDate);
-          
-          console.log(`[MedForm] For new schedule ${st.time} on ${st.daysOfWeek.join(',')}, calculated dates:`, nextNotificationDateObjects.map(d => d.toISOString()));
-
-          // 🚀 NEW: Schedule advanced 3-step alarm system for each occurrence
-          for (const notificationDateTime of nextNotificationDateObjects) {
-            const secondsUntilTrigger = (notificationDateTime.getTime() - new Date().getTime()) / 1000;
-            if (secondsUntilTrigger > 0) {
-              // Schedule traditional notification (backward compatibility)
-              const trigger: Notifications.TimeIntervalNotificationTriggerInput = {
-                seconds: Math.max(1, Math.round(secondsUntilTrigger)),
-                repeats: false,
-                type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
-              };
-              const notificationTitle = `Medication Reminder: ${name}`;
-              const notificationBody = `Time to take your ${dosage} of ${name}.`;
-              console.log(`[MedForm] Scheduling new notification for ${name} at ${notificationDateTime.toISOString()} (in ${secondsUntilTrigger}s) with explicit trigger`);
-              const notificationId = await scheduleLocalNotification(
-                notificationTitle,
-                notificationBody,
-                Math.max(1, Math.round(secondsUntilTrigger)), 
-                { medicationId: savedMedicationId, scheduleTime: st.time },
-                trigger
-              );
-              if (notificationId) newNotificationIds.push(notificationId);
-
-              // 🚀 NEW: Schedule advanced 3-step alarm system
-              try {
-                const medicationAlarm: MedicationAlarm = {
-                  id: `alarm-${savedMedicationId}-${st.time}-${notificationDateTime.getTime()}`,
-                  patientId: user.id,
-                  medicationScheduleId: '', // Will be updated after schedule is created
-                  medicationName: name,
-                  scheduledTime: notificationDateTime,
-                  attempt: 1,
-                };
-                
-                console.log(`[MedForm] Scheduling advanced 3-step alarm system for ${name} at ${notificationDateTime.toISOString()}`);
-                await NotificationService.scheduleMedicationAlarms(medicationAlarm);
-                console.log(`[MedForm] Advanced alarm system scheduled successfully for ${name}`);
-              } catch (alarmError) {
-                console.error(`[MedForm] Failed to schedule advanced alarm system for ${name}:`, alarmError);
-                // Don't fail the entire process if advanced alarms fail
-              }
-            }
-          }
-          
-          // Insert the schedule into database
-          const { data: insertedSchedule, error: insertError } = await supabase
-            .from('medication_schedules')
-            .insert({
-              medication_id: savedMedicationId,
-              user_id: user.id,
-              scheduled_time: st.time,
-              days_of_week: st.daysOfWeek,
-              notification_ids: newNotificationIds.length > 0 ? newNotificationIds : null,
-            })
-            .select('id')
-            .single();
 
-          if (insertError) {
-            console.warn('Error adding schedule:', insertError.message);
-          } else if (insertedSchedule) {
-            // Update the alarm with the actual schedule ID
-            console.log(`[MedForm] Schedule created with ID: ${insertedSchedule.id}`);
-          }
-
-          return { error: insertError };
-        });
-        const addResults = await Promise.all(addPromises);
-        addResults.forEach(result => {
-          if (result.error) console.warn('Error adding schedule:', result.error.message);
-        });
-      }
-
-      // 5. Process updates
-      if (schedulesToUpdate.length > 0) {
-        const updatePromises = schedulesToUpdate.map(async (st) => {
-          if (!st.id) return null; // Should not happen due to filter
-          const existingDbSchedule = existingDbSchedulesMap.get(st.id);
-          const newNotificationIds: string[] = [];
-
-          // Check if schedule details (time or days) actually changed
-          const timeChanged = existingDbSchedule?.scheduled_time.substring(0,5) !== st.time;
-          const daysChanged = JSON.stringify(existingDbSchedule?.days_of_week.slice().sort()) !== JSON.stringify(st.daysOfWeek.slice().sort());
-
-          if (timeChanged || daysChanged || (existingDbSchedule && !existingDbSchedule.notification_ids)) { // Reschedule if details changed or no existing notif IDs
-            // Cancel old notifications for this specific schedule if they exist
-            if (existingDbSchedule?.notification_ids && existingDbSchedule.notification_ids.length > 0) {
-              console.log(`[MedForm] Cancelling ${existingDbSchedule.notification_ids.length} old notifications for updated schedule ID ${st.id}`);
-              await Promise.all(existingDbSchedule.notification_ids.map((nid: string) => cancelScheduledNotification(nid)));
-            }
-            
-            const nextNotificationDateObjects = calculateNextNotificationDates(st.time, st.daysOfWeek, startDate, endDate);
-            console.log(`[MedForm] For updated schedule ${st.id} (${st.time} on ${st.daysOfWeek.join(',')}), calculated dates:`, nextNotificationDateObjects.map(d => d.toISOString()));
-
-            for (const notificationDateTime of nextNotificationDateObjects) {
-              const secondsUntilTrigger = (notificationDateTime.getTime() - new Date().getTime()) / 1000;
-              if (secondsUntilTrigger > 0) {
-                const trigger: Notifications.TimeIntervalNotificationTriggerInput = {
-                  seconds: Math.max(1, Math.round(secondsUntilTrigger)),
-                  repeats: false,
-                  type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
-                };
-                const notificationTitle = `Medication Reminder: ${name}`;
-                const notificationBody = `Time to take your ${dosage} of ${name}.`;
-                console.log(`[MedForm] Scheduling updated notification for ${name} at ${notificationDateTime.toISOString()} (in ${secondsUntilTrigger}s) with explicit trigger`);
-                const notificationId = await scheduleLocalNotification(
-                  notificationTitle,
-                  notificationBody,
-                  Math.max(1, Math.round(secondsUntilTrigger)),
-                  { medicationId: savedMedicationId, scheduleTime: st.time, originalScheduleId: st.id },
-                  trigger // Pass explicit trigger
-                );
-                if (notificationId) newNotificationIds.push(notificationId);
-              }
-            }
-            return supabase.from('medication_schedules').update({
-              scheduled_time: st.time,
-              days_of_week: st.daysOfWeek,
-              notification_ids: newNotificationIds.length > 0 ? newNotificationIds : null,
-            }).eq('id', st.id);
-          } else if (existingDbSchedule) {
-            // No change in time/days, retain existing notification_ids
-            return supabase.from('medication_schedules').update({
-              // No need to update time or days_of_week if not changed
-              // notification_ids: existingDbSchedule.notification_ids 
-              // No change implies no update needed unless explicitly clearing/changing notification_ids
-            }).eq('id', st.id); // Effectively a no-op if nothing else changes, but good for consistency
-          }
-          return null;
-        });
-        const updateResults = await Promise.all(updatePromises.filter(p => p !== null));
-        updateResults.forEach(result => {
-          if (result && result.error) console.warn('Error updating schedule:', result.error.message);
-        });
-      }
-      
       setIsLoading(false);
       Alert.alert('Success', `Medication ${isEditing ? 'updated' : 'saved'} successfully.`);
       navigation.navigate('MedicationList');
@@ -452,17 +476,50 @@ const MedicationFormScreen = () => {
   };
 
   return (
-    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
       <Text style={styles.title}>{isEditing ? 'Edit Medication' : 'Add New Medication'}</Text>
       
       <TextInput
         label="Medication Name"
         value={name}
-        onChangeText={setName}
+        onChangeText={handleNameChange}
         mode="outlined"
         style={styles.input}
         disabled={isLoading}
+        right={catalogId ? <TextInput.Icon icon="check-decagram" color={theme.colors.primary} /> : undefined}
       />
+      {suggestions.length > 0 && (
+        <Card style={styles.suggestionCard}>
+          {suggestions.map(entry => (
+            <List.Item
+              key={entry.id}
+              title={getCatalogDisplayName(entry)}
+              description={`${entry.drugClass} · ${DOSE_FORM_LABELS[entry.form]}`}
+              onPress={() => selectCatalogEntry(entry)}
+              left={props => <List.Icon {...props} icon="pill" />}
+            />
+          ))}
+        </Card>
+      )}
+      {safetyWarnings.length > 0 && (
+        <Card style={[styles.warningCard, { backgroundColor: theme.colors.errorContainer }]}>
+          <Card.Content>
+            {safetyWarnings.map((warning, index) => (
+              <View key={index} style={index > 0 ? styles.warningSpacing : undefined}>
+                <Text style={[styles.warningTitle, { color: theme.colors.onErrorContainer }]}>
+                  {SEVERITY_LABELS[warning.severity]}:{' '}
+                  {warning.kind === 'interaction'
+                    ? `interacts with ${warning.otherMedicationName}`
+                    : `conflicts with your sensitivity to ${warning.sensitivity}`}
+                </Text>
+                <Text style={{ color: theme.colors.onErrorContainer }}>
+                  {warning.summary} {warning.recommendation}
+                </Text>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+      )}
       <TextInput
         label="Dosage"
         value={dosage}
@@ -475,6 +532,65 @@ const MedicationFormScreen = () => {
         Dosage is required.
       </HelperText>
 
+      <Card style={styles.doseCard}>
+        <Card.Title title="Structured Dose" subtitle={catalogEntry ? getCatalogDisplayName(catalogEntry) : 'Used for reports and analytics'} />
+        <Card.Content>
+          {catalogEntry && catalogEntry.strengths.length > 1 && (
+            <View style={styles.chipRow}>
+              {catalogEntry.strengths.map((strength, index) => (
+                <Chip
+                  key={strength.label}
+                  selected={doseAmount === String(strength.amount)}
+                  onPress={() => selectStrength(catalogEntry, index)}
+                  style={styles.doseChip}
+                  mode="outlined"
+                  disabled={isLoading}
+                >
+                  {formatStrength(catalogEntry, strength)}
+                </Chip>
+              ))}
+            </View>
+          )}
+          <TextInput
+            label="Amount per dose"
+            value={doseAmount}
+            onChangeText={setDoseAmount}
+            keyboardType="decimal-pad"
+            mode="outlined"
+            style={styles.input}
+            disabled={isLoading}
+          />
+          <View style={styles.chipRow}>
+            {DOSE_UNITS.map(unit => (
+              <Chip
+                key={unit}
+                selected={doseUnit === unit}
+                onPress={() => setDoseUnit(doseUnit === unit ? null : unit)}
+                style={styles.doseChip}
+                mode="outlined"
+                disabled={isLoading}
+              >
+                {unit}
+              </Chip>
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            {(Object.keys(DOSE_FORM_LABELS) as DoseForm[]).map(form => (
+              <Chip
+                key={form}
+                selected={doseForm === form}
+                onPress={() => setDoseForm(doseForm === form ? null : form)}
+                style={styles.doseChip}
+                mode="outlined"
+                disabled={isLoading}
+              >
+                {DOSE_FORM_LABELS[form]}
+              </Chip>
+            ))}
+          </View>
+        </Card.Content>
+      </Card>
+
       <TextInput
         label="Instructions (optional)"
         value={instructions}
@@ -485,6 +601,88 @@ const MedicationFormScreen = () => {
         disabled={isLoading}
       />
 
+      <Card style={styles.doseCard}>
+        <Card.Title
+          title="Pill Supply"
+          subtitle={stockProjection?.summary ?? 'Leave blank if you do not want to track stock'}
+          right={props =>
+            stockProjection && stockProjection.projection.status !== 'ok' ? (
+              <Chip {...props} compact style={styles.stockChip}>
+                {STOCK_STATUS_LABELS[stockProjection.projection.status]}
+              </Chip>
+            ) : null
+          }
+        />
+        <Card.Content>
+          <View style={styles.inventoryRow}>
+            <TextInput
+              label="Pills on hand"
+              value={stockCount}
+              onChangeText={setStockCount}
+              keyboardType="decimal-pad"
+              mode="outlined"
+              style={[styles.input, styles.inventoryField]}
+              disabled={isLoading}
+            />
+            <TextInput
+              label="Pills per dose"
+              value={pillsPerDose}
+              onChangeText={setPillsPerDose}
+              keyboardType="decimal-pad"
+              mode="outlined"
+              style={[styles.input, styles.inventoryField]}
+              disabled={isLoading}
+            />
+          </View>
+          <TextInput
+            label="Remind me this many days before running out"
+            value={refillReminderDays}
+            onChangeText={setRefillReminderDays}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.input}
+            disabled={isLoading || !stockCount.trim()}
+          />
+        </Card.Content>
+      </Card>
+
+      <Card style={styles.doseCard}>
+        <Card.Title
+          title="If a Dose Is Missed"
+          subtitle={
+            !escalationPolicy
+              ? 'Reminders and caregiver alerts follow your notification settings'
+              : escalationPreset
+                ? ESCALATION_PRESETS[escalationPreset].description
+                : 'Custom escalation'
+          }
+          subtitleNumberOfLines={2}
+        />
+        <Card.Content>
+          <View style={styles.chipRow}>
+            <Chip selected={!escalationPolicy} onPress={() => setEscalationPolicy(null)} style={styles.doseChip} disabled={isLoading}>
+              Default
+            </Chip>
+            {(Object.keys(ESCALATION_PRESETS) as EscalationPresetId[]).map(id => (
+              <Chip
+                key={id}
+                selected={escalationPreset === id}
+                onPress={() => setEscalationPolicy(ESCALATION_PRESETS[id].policy)}
+                style={styles.doseChip}
+                disabled={isLoading}
+              >
+                {ESCALATION_PRESETS[id].label}
+              </Chip>
+            ))}
+          </View>
+          {escalationPolicy?.steps.map((step, index) => (
+            <Text key={index} variant="bodySmall" style={styles.escalationStep}>
+              {describeEscalationStep(step)}
+            </Text>
+          ))}
+        </Card.Content>
+      </Card>
+
       <Card style={styles.dateCard}>
         <Card.Content>
           <Button onPress={() => setOpenStartDatePicker(true)} uppercase={false} mode="outlined" disabled={isLoading}>
@@ -517,14 +715,29 @@ const MedicationFormScreen = () => {
       <Card style={styles.scheduleCard}>
         <Card.Title 
             title="Medication Schedule" 
-            subtitle="Add times and select days"
+            subtitle="Add fixed times, intervals, as-needed doses or a titration plan"
             right={(props) => <IconButton {...props} icon="plus-circle" onPress={() => setTimePickerVisible(true)} disabled={isLoading} />}
         />
         <Card.Content>
+            <View style={styles.chipRow}>
+                {(['interval', 'as_needed', 'titration'] as const).map(kind => (
+                    <Chip key={kind} icon="plus" onPress={() => addScheduleRule(kind)} style={styles.doseChip} disabled={isLoading}>
+                        {SCHEDULE_RULE_LABELS[kind]}
+                    </Chip>
+                ))}
+            </View>
             {scheduleTimes.length === 0 && (
                 <Text style={styles.noScheduleText}>No schedule times added yet. Tap the '+' to add.</Text>
             )}
-            {scheduleTimes.map((schedule, index) => (
+            {scheduleTimes.map((schedule, index) => schedule.rule ? (
+                <ScheduleRuleEditor
+                    key={schedule.id ?? `new-${index}`}
+                    rule={schedule.rule}
+                    onChange={rule => updateScheduleRule(index, rule)}
+                    onRemove={() => removeScheduleTime(index)}
+                    disabled={isLoading}
+                />
+            ) : (
                 <View key={index} style={styles.scheduleItemContainer}>
                     <List.Item
                         title={`${schedule.time} - ${formatDaysOfWeek(schedule.daysOfWeek)}`}
@@ -590,6 +803,44 @@ const styles = StyleSheet.create({
   input: {
     marginBottom: 12,
   },
+  suggestionCard: {
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  doseCard: {
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  doseChip: {
+    margin: 2,
+  },
+  inventoryRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inventoryField: {
+    flex: 1,
+  },
+  escalationStep: {
+    marginTop: 4,
+  },
+  stockChip: {
+    marginRight: 12,
+  },
+  warningCard: {
+    marginBottom: 12,
+  },
+  warningTitle: {
+    fontWeight: 'bold',
+    marginBottom: 2,
+  },
+  warningSpacing: {
+    marginTop: 10,
+  },
   dateCard: {
     marginBottom: 16,
     marginTop: 4
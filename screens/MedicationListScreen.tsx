@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { 
   StyleSheet, 
   View, 
@@ -34,6 +34,9 @@ import { BlurView } from 'expo-blur';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import * as Haptics from 'expo-haptics';
 import { MedicationStackParamList } from '../navigation/MedicationStackNavigator';
+import { MedicationSchedule, getScheduleRule } from '../lib/repositories';
+import { describeStock, isLowStock, projectStock } from '../lib/inventory';
+import NotificationScheduler from '../services/NotificationScheduler';
 
 type MedicationListNavigationProp = StackNavigationProp<MedicationStackParamList, 'MedicationList'>;
 
@@ -48,6 +51,10 @@ interface Medication {
   category?: string;
   frequency?: string;
   schedule_times?: string[];
+  stock_count: number | null;
+  pills_per_dose: number;
+  refill_reminder_days: number;
+  medication_schedules?: Pick<MedicationSchedule, 'scheduled_time' | 'days_of_week' | 'rule'>[];
 }
 
 const { width } = Dimensions.get('window');
@@ -66,6 +73,15 @@ const MedicationCard = React.memo(({
 }) => {
   const theme = useTheme();
 
+  const stock = useMemo(() => {
+    if (item.stock_count === null) return null;
+    const projection = projectStock(
+      { ...item, start_date: item.start_date ?? null, end_date: item.end_date ?? null },
+      (item.medication_schedules ?? []).map(getScheduleRule)
+    );
+    return { summary: describeStock(item, projection), isLow: isLowStock(projection) };
+  }, [item]);
+
   const getScheduleText = () => {
     if (item.schedule_times && item.schedule_times.length > 0) {
       if (item.schedule_times.length === 1) {
@@ -113,6 +129,14 @@ const MedicationCard = React.memo(({
                     {getScheduleText()}
                   </Text>
                 </View>
+                {stock?.summary && (
+                  <View style={styles.scheduleRow}>
+                    <MaterialCommunityIcons name="package-variant" size={16} color={stock.isLow ? '#ef4444' : '#6b7280'} />
+                    <Text variant="bodyMedium" style={[styles.scheduleText, stock.isLow && styles.lowStockText]}>
+                      {stock.summary}
+                    </Text>
+                  </View>
+                )}
               </View>
               <View style={styles.editIcon}>
                 <MaterialCommunityIcons name="chevron-right" size={24} color="#6b7280" />
@@ -154,7 +178,7 @@ const MedicationListScreen = () => {
       setIsLoading(true);
       const { data, error } = await supabase
         .from('medications')
-        .select('*')
+        .select('*, medication_schedules(scheduled_time, days_of_week, rule)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -221,6 +245,7 @@ const MedicationListScreen = () => {
         .eq('id', medicationToDelete.id);
 
       if (error) throw error;
+      NotificationScheduler.sync();
 
       // Update local state
       setMedications(prev => prev.filter(med => med.id !== medicationToDelete.id));
@@ -461,6 +486,10 @@ const styles = StyleSheet.create({
     gap: 6,
     marginTop: 4,
   },
+  lowStockText: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
   scheduleText: {
     color: '#6b7280',
     fontSize: 14,
@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Button, Chip, List, Surface, Switch, Text, useTheme } from 'react-native-paper';
+import { TimePickerModal } from 'react-native-paper-dates';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuth } from '../context/AuthContext';
+import { AlertChannel, DEFAULT_NOTIFICATION_SETTINGS, NotificationSettings, repositories } from '../lib/repositories';
+import { ESCALATION_URGENCY_LABELS, EscalationUrgency } from '../lib/escalationPolicy';
+import { toMinutes } from '../lib/scheduleRules';
+import NotificationService from '../services/NotificationService';
+import NotificationScheduler from '../services/NotificationScheduler';
+import MedicationAlarmHandler from '../services/MedicationAlarmHandler';
+
+const SNOOZE_OPTIONS = [5, 10, 15, 30];
+const CAREGIVER_DELAY_OPTIONS = [10, 15, 30, 60];
+const ATTEMPT_OPTIONS = [1, 2, 3];
+const DEFAULT_QUIET_HOURS = { quietHoursStart: '22:00', quietHoursEnd: '07:00' };
+const ALERT_URGENCIES: EscalationUrgency[] = ['normal', 'high', 'critical'];
+const ALERT_CHANNEL_OPTIONS: { channel: AlertChannel; label: string; icon: string }[] = [
+  { channel: 'sms', label: 'Text', icon: 'message-text-outline' },
+  { channel: 'email', label: 'Email', icon: 'email-outline' },
+];
+
+type ToggleKey =
+  | 'medicationRemindersEnabled'
+  | 'appointmentRemindersEnabled'
+  | 'checkinRemindersEnabled'
+  | 'caregiverAlertsEnabled'
+  | 'soundEnabled'
+  | 'vibrationEnabled';
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const NotificationSettingsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const theme = useTheme();
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingQuietHours, setEditingQuietHours] = useState<'quietHoursStart' | 'quietHoursEnd' | null>(null);
+
+  const isCaregiver = user?.role === 'caregiver';
+
+  useEffect(() => {
+    if (!user) return;
+    NotificationService.getUserSettings(user.id)
+      .then(setSettings)
+      .finally(() => setLoading(false));
+  }, [user?.id]);
+
+  const update = (changes: Partial<NotificationSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  const toggleQuietHours = (enabled: boolean) =>
+    update(enabled ? DEFAULT_QUIET_HOURS : { quietHoursStart: null, quietHoursEnd: null });
+
+  const toggleAlertChannel = (urgency: EscalationUrgency, channel: AlertChannel) => {
+    const channels = settings.alertChannels[urgency];
+    update({
+      alertChannels: {
+        ...settings.alertChannels,
+        [urgency]: channels.includes(channel) ? channels.filter(c => c !== channel) : [...channels, channel],
+      },
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      await repositories.notificationSettings.save(user.id, settings);
+      // The snooze button label and every pending reminder depend on these settings
+      await MedicationAlarmHandler.initializeNotificationCategories(settings.snoozeMinutes);
+      await NotificationScheduler.sync();
+      Alert.alert('Saved', 'Your notification settings have been updated.');
+    } catch (error) {
+      console.error('[NotificationSettingsScreen] Failed to save settings:', error);
+      Alert.alert('Error', 'Could not save your notification settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderToggle = (key: ToggleKey, title: string, description: string, icon: string) => (
+    <List.Item
+      title={title}
+      description={description}
+      left={props => <List.Icon {...props} icon={icon} color={theme.colors.primary} />}
+      right={() => <Switch value={settings[key]} onValueChange={value => update({ [key]: value })} />}
+      style={styles.listItem}
+    />
+  );
+
+  const renderOptions = (
+    title: string,
+    options: number[],
+    selected: number,
+    onSelect: (value: number) => void,
+    label: (value: number) => string
+  ) => (
+    <View style={styles.optionGroup}>
+      <Text variant="bodyMedium" style={styles.optionTitle}>{title}</Text>
+      <View style={styles.chipRow}>
+        {options.map(option => (
+          <Chip key={option} selected={selected === option} onPress={() => onSelect(option)} style={styles.chip}>
+            {label(option)}
+          </Chip>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderSection = (title: string, icon: string, children: React.ReactNode) => (
+    <Surface style={[styles.card, { backgroundColor: theme.colors.surface }]} elevation={2}>
+      <View style={styles.cardHeader}>
+        <MaterialCommunityIcons name={icon as any} size={24} color={theme.colors.primary} />
+        <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.primary }]}>
+          {title}
+        </Text>
+      </View>
+      {children}
+    </Surface>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  const quietHoursEnabled = !!settings.quietHoursStart && !!settings.quietHoursEnd;
+  const pickerMinutes = editingQuietHours && settings[editingQuietHours] ? toMinutes(settings[editingQuietHours]!) : 0;
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      contentContainerStyle={styles.contentContainer}
+    >
+      {renderSection('Reminders', 'bell-outline', (
+        <>
+          {!isCaregiver && renderToggle('medicationRemindersEnabled', 'Medication reminders', 'Alarms when a dose is due', 'pill')}
+          {renderToggle('appointmentRemindersEnabled', 'Appointment reminders', 'The day before each appointment', 'calendar-clock')}
+          {!isCaregiver && renderToggle('checkinRemindersEnabled', 'Daily check-in', 'An evening nudge if you have not checked in', 'clipboard-text-outline')}
+          {renderToggle('caregiverAlertsEnabled', 'Caregiver alerts', isCaregiver ? 'Missed doses and other alerts about your patients' : 'Alerts about people you care for', 'account-heart-outline')}
+        </>
+      ))}
+
+      {isCaregiver && renderSection('Text & Email', 'message-alert-outline', (
+        <>
+          <Text variant="bodySmall" style={[styles.sectionNote, { color: theme.colors.onSurfaceVariant }]}>
+            Missed doses and emergencies are also sent on the channels picked here. Other alerts only when none of your
+            devices can receive push notifications.
+            {!user?.phone_number && ' Add a phone number to your profile to receive texts.'}
+          </Text>
+          {ALERT_URGENCIES.map(urgency => (
+            <View key={urgency} style={styles.optionGroup}>
+              <Text variant="bodyMedium" style={styles.optionTitle}>{ESCALATION_URGENCY_LABELS[urgency]} alerts</Text>
+              <View style={styles.chipRow}>
+                {ALERT_CHANNEL_OPTIONS.map(({ channel, label, icon }) => (
+                  <Chip
+                    key={channel}
+                    icon={icon}
+                    selected={settings.alertChannels[urgency].includes(channel)}
+                    onPress={() => toggleAlertChannel(urgency, channel)}
+                    style={styles.chip}
+                  >
+                    {label}
+                  </Chip>
+                ))}
+              </View>
+            </View>
+          ))}
+        </>
+      ))}
+
+      {renderSection('Sound', 'volume-high', (
+        <>
+          {renderToggle('soundEnabled', 'Sound', 'Play a sound with notifications', 'music-note-outline')}
+          {renderToggle('vibrationEnabled', 'Vibration', 'Vibrate with medication alarms', 'vibrate')}
+        </>
+      ))}
+
+      {renderSection('Quiet Hours', 'weather-night', (
+        <>
+          <List.Item
+            title="Quiet hours"
+            description="Medication alarms stay silent; other reminders wait until quiet hours end"
+            descriptionNumberOfLines={3}
+            left={props => <List.Icon {...props} icon="bell-sleep-outline" color={theme.colors.primary} />}
+            right={() => <Switch value={quietHoursEnabled} onValueChange={toggleQuietHours} />}
+            style={styles.listItem}
+          />
+          {quietHoursEnabled && (
+            <View style={styles.quietHoursRow}>
+              <Button mode="outlined" icon="clock-start" onPress={() => setEditingQuietHours('quietHoursStart')}>
+                From {settings.quietHoursStart}
+              </Button>
+              <Button mode="outlined" icon="clock-end" onPress={() => setEditingQuietHours('quietHoursEnd')}>
+                Until {settings.quietHoursEnd}
+              </Button>
+            </View>
+          )}
+        </>
+      ))}
+
+      {!isCaregiver && renderSection('Medication Alarms', 'alarm', (
+        <>
+          {renderOptions('Snooze length', SNOOZE_OPTIONS, settings.snoozeMinutes, value => update({ snoozeMinutes: value }), value => `${value} min`)}
+          {renderOptions('Reminders per dose', ATTEMPT_OPTIONS, settings.maxAttempts, value => update({ maxAttempts: value }), value => `${value}`)}
+          {renderOptions('Alert my caregivers after', CAREGIVER_DELAY_OPTIONS, settings.caregiverAlertDelay, value => update({ caregiverAlertDelay: value }), value => `${value} min`)}
+        </>
+      ))}
+
+      <Button mode="contained" onPress={handleSave} loading={saving} disabled={saving} style={styles.saveButton}>
+        Save
+      </Button>
+
+      <TimePickerModal
+        visible={editingQuietHours !== null}
+        onDismiss={() => setEditingQuietHours(null)}
+        onConfirm={({ hours, minutes }) => {
+          if (editingQuietHours) {
+            update({ [editingQuietHours]: `${pad(hours)}:${pad(minutes)}` });
+          }
+          setEditingQuietHours(null);
+        }}
+        hours={Math.floor(pickerMinutes / 60)}
+        minutes={pickerMinutes % 60}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    paddingBottom: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    marginLeft: 12,
+    fontWeight: '600',
+  },
+  listItem: {
+    paddingHorizontal: 12,
+  },
+  quietHoursRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  sectionNote: {
+    paddingHorizontal: 20,
+    paddingBottom: 4,
+  },
+  optionGroup: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  optionTitle: {
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    marginBottom: 4,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+});
+
+export default NotificationSettingsScreen;
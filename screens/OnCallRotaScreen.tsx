@@ -0,0 +1,491 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Button, Chip, Dialog, IconButton, Portal, Surface, Text, TextInput, useTheme } from 'react-native-paper';
+import { TimePickerModal } from 'react-native-paper-dates';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuth } from '../context/AuthContext';
+import { CareCircleMember, CaregiverShift, CaregiverShiftSwap, repositories } from '../lib/repositories';
+import {
+  DAY_SHORT_LABELS,
+  RotaShift,
+  ShiftOccurrence,
+  formatOccurrence,
+  formatShiftDays,
+  formatShiftTimes,
+  getUncoveredDays,
+  getUpcomingOccurrences,
+  toRotaTime,
+} from '../lib/caregiverRota';
+import { toMinutes } from '../lib/scheduleRules';
+
+const SWAP_OCCURRENCES = 7;
+
+// Monday first in the day picker
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface ShiftDraft {
+  id?: string;
+  caregiverId: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+}
+
+interface SwapDraft {
+  shift: RotaShift;
+  occurrences: ShiftOccurrence[];
+  occurrenceIndex: number;
+  coveringCaregiverId: string | null;
+  note: string;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toRotaShift = (shift: CaregiverShift): RotaShift => ({
+  id: shift.id,
+  caregiverId: shift.caregiver_id,
+  daysOfWeek: shift.days_of_week,
+  startTime: toRotaTime(shift.start_time),
+  endTime: toRotaTime(shift.end_time),
+});
+
+// Shifts are kept in the timezone of the device that created them
+const deviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'UTC';
+
+const OnCallRotaScreen: React.FC = () => {
+  const { user, patients } = useAuth();
+  const theme = useTheme();
+  const isCaregiver = user?.role === 'caregiver';
+
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [circle, setCircle] = useState<CareCircleMember[]>([]);
+  const [shifts, setShifts] = useState<RotaShift[]>([]);
+  const [swaps, setSwaps] = useState<CaregiverShiftSwap[]>([]);
+  const [onCallIds, setOnCallIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [shiftDraft, setShiftDraft] = useState<ShiftDraft | null>(null);
+  const [swapDraft, setSwapDraft] = useState<SwapDraft | null>(null);
+  const [pickingTime, setPickingTime] = useState<'startTime' | 'endTime' | null>(null);
+
+  const patientId = isCaregiver ? selectedPatientId : user?.id ?? null;
+
+  useEffect(() => {
+    if (isCaregiver && patients.length > 0 && !patients.some(p => p.id === selectedPatientId)) {
+      setSelectedPatientId(patients[0].id);
+    }
+  }, [isCaregiver, patients, selectedPatientId]);
+
+  const loadRota = useCallback(async () => {
+    if (!patientId) return;
+    try {
+      const [members, shiftRows, swapRows, onCall] = await Promise.all([
+        repositories.caregiverRota.listCareCircle(patientId),
+        repositories.caregiverRota.listShifts(patientId),
+        repositories.caregiverRota.listUpcomingSwaps(patientId),
+        repositories.caregiverRota.listOnCallCaregiverIds(patientId),
+      ]);
+      setCircle(members);
+      setShifts(shiftRows.map(toRotaShift));
+      setSwaps(swapRows);
+      setOnCallIds(onCall);
+    } catch (error) {
+      console.error('[OnCallRotaScreen] Failed to load the rota:', error);
+      Alert.alert('Error', 'Could not load the on-call rota.');
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadRota();
+  }, [loadRota]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadRota();
+    setRefreshing(false);
+  };
+
+  const nameOf = (caregiverId: string) =>
+    circle.find(member => member.caregiverId === caregiverId)?.name ?? 'Former caregiver';
+
+  const uncoveredDays = useMemo(() => getUncoveredDays(shifts), [shifts]);
+
+  const saveShift = async () => {
+    if (!shiftDraft || !patientId || !user) return;
+    if (shiftDraft.daysOfWeek.length === 0) {
+      Alert.alert('Pick the days', 'Choose at least one day for this shift.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input = { ...shiftDraft, timezone: deviceTimezone() };
+      if (shiftDraft.id) {
+        await repositories.caregiverRota.updateShift(shiftDraft.id, input);
+      } else {
+        await repositories.caregiverRota.createShift(patientId, user.id, input);
+      }
+      setShiftDraft(null);
+      await loadRota();
+    } catch (error) {
+      console.error('[OnCallRotaScreen] Failed to save shift:', error);
+      Alert.alert('Error', 'Could not save the shift. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDeleteShift = (shift: RotaShift) => {
+    Alert.alert('Remove shift', `Remove ${nameOf(shift.caregiverId)}'s shift and its swaps?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await repositories.caregiverRota.deleteShift(shift.id);
+            await loadRota();
+          } catch (error) {
+            console.error('[OnCallRotaScreen] Failed to delete shift:', error);
+            Alert.alert('Error', 'Could not remove the shift.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const openSwap = (shift: RotaShift) => {
+    setSwapDraft({
+      shift,
+      occurrences: getUpcomingOccurrences(shift, new Date(), SWAP_OCCURRENCES),
+      occurrenceIndex: 0,
+      coveringCaregiverId: null,
+      note: '',
+    });
+  };
+
+  const saveSwap = async () => {
+    if (!swapDraft || !patientId || !user) return;
+    const occurrence = swapDraft.occurrences[swapDraft.occurrenceIndex];
+    if (!occurrence || !swapDraft.coveringCaregiverId) {
+      Alert.alert('Pick who covers', 'Choose the caregiver covering this shift.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await repositories.caregiverRota.createSwap(patientId, user.id, {
+        shiftId: occurrence.shiftId,
+        coveringCaregiverId: swapDraft.coveringCaregiverId,
+        startsAt: occurrence.startsAt,
+        endsAt: occurrence.endsAt,
+        note: swapDraft.note.trim() || null,
+      });
+      setSwapDraft(null);
+      await loadRota();
+    } catch (error) {
+      console.error('[OnCallRotaScreen] Failed to save swap:', error);
+      Alert.alert('Error', 'Could not save the swap. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelSwap = async (swap: CaregiverShiftSwap) => {
+    try {
+      await repositories.caregiverRota.deleteSwap(swap.id);
+      await loadRota();
+    } catch (error) {
+      console.error('[OnCallRotaScreen] Failed to cancel swap:', error);
+      Alert.alert('Error', 'Could not cancel the swap.');
+    }
+  };
+
+  const toggleDraftDay = (day: number) => {
+    if (!shiftDraft) return;
+    const daysOfWeek = shiftDraft.daysOfWeek.includes(day)
+      ? shiftDraft.daysOfWeek.filter(d => d !== day)
+      : [...shiftDraft.daysOfWeek, day];
+    setShiftDraft({ ...shiftDraft, daysOfWeek });
+  };
+
+  const renderShift = (shift: RotaShift) => {
+    const shiftSwaps = swaps.filter(swap => swap.shift_id === shift.id);
+
+    return (
+      <Surface key={shift.id} style={[styles.card, { backgroundColor: theme.colors.surface }]} elevation={1}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardTitle}>
+            <Text variant="titleSmall" style={styles.bold}>{nameOf(shift.caregiverId)}</Text>
+            <Text variant="bodyMedium">{formatShiftDays(shift.daysOfWeek)} · {formatShiftTimes(shift)}</Text>
+          </View>
+          {isCaregiver && (
+            <View style={styles.cardActions}>
+              <IconButton icon="swap-horizontal" size={20} onPress={() => openSwap(shift)} accessibilityLabel="Swap a shift" />
+              <IconButton icon="pencil-outline" size={20} onPress={() => setShiftDraft({ ...shift })} accessibilityLabel="Edit shift" />
+              <IconButton icon="trash-can-outline" size={20} onPress={() => confirmDeleteShift(shift)} accessibilityLabel="Remove shift" />
+            </View>
+          )}
+        </View>
+
+        {shiftSwaps.map(swap => (
+          <View key={swap.id} style={styles.swap}>
+            <MaterialCommunityIcons name="swap-horizontal" size={16} color={theme.colors.primary} />
+            <Text variant="bodySmall" style={styles.swapText}>
+              {nameOf(swap.covering_caregiver_id)} covers{' '}
+              {formatOccurrence({ shiftId: swap.shift_id, startsAt: new Date(swap.starts_at), endsAt: new Date(swap.ends_at) })}
+              {swap.note ? `: "${swap.note}"` : ''}
+            </Text>
+            {isCaregiver && (
+              <IconButton icon="close" size={16} onPress={() => cancelSwap(swap)} accessibilityLabel="Cancel swap" />
+            )}
+          </View>
+        ))}
+      </Surface>
+    );
+  };
+
+  if (isCaregiver && patients.length === 0) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
+        <Text variant="bodyLarge">Connect with a patient to plan who is on call.</Text>
+      </View>
+    );
+  }
+
+  const pickerMinutes = shiftDraft && pickingTime ? toMinutes(shiftDraft[pickingTime]) : 0;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {isCaregiver && patients.length > 1 && (
+          <View style={styles.chipRow}>
+            {patients.map(patient => (
+              <Chip key={patient.id} selected={patient.id === selectedPatientId} onPress={() => setSelectedPatientId(patient.id)}>
+                {`${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() || 'Patient'}
+              </Chip>
+            ))}
+          </View>
+        )}
+
+        <Surface style={[styles.summary, { backgroundColor: theme.colors.surface }]} elevation={2}>
+          <MaterialCommunityIcons name="account-clock-outline" size={28} color={theme.colors.primary} />
+          <View style={styles.cardTitle}>
+            <Text variant="titleSmall" style={styles.bold}>On call now</Text>
+            <Text variant="bodyMedium">
+              {shifts.length === 0
+                ? 'No rota yet: every caregiver gets every alert.'
+                : onCallIds.map(nameOf).join(', ') || 'Nobody'}
+            </Text>
+          </View>
+        </Surface>
+
+        {shifts.length > 0 && (
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            Alerts go to whoever is on call. If nobody responds within 10 minutes, the rest of the circle is alerted too.
+            Emergencies always go to everyone.
+            {uncoveredDays.length > 0 &&
+              ` No shifts start on ${uncoveredDays.map(day => DAY_SHORT_LABELS[day]).join(', ')}; when nobody is on call, everyone is alerted.`}
+          </Text>
+        )}
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} />
+        ) : (
+          shifts.map(renderShift)
+        )}
+
+        {isCaregiver && !loading && (
+          <Button
+            mode="contained"
+            icon="plus"
+            onPress={() => setShiftDraft({ caregiverId: user!.id, daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '20:00' })}
+          >
+            Add shift
+          </Button>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={shiftDraft !== null && pickingTime === null} onDismiss={() => setShiftDraft(null)}>
+          <Dialog.Title>{shiftDraft?.id ? 'Edit shift' : 'New shift'}</Dialog.Title>
+          {shiftDraft && (
+            <Dialog.Content style={styles.dialogContent}>
+              <Text variant="labelLarge">Who</Text>
+              <View style={styles.chipRow}>
+                {circle.map(member => (
+                  <Chip
+                    key={member.caregiverId}
+                    selected={shiftDraft.caregiverId === member.caregiverId}
+                    onPress={() => setShiftDraft({ ...shiftDraft, caregiverId: member.caregiverId })}
+                  >
+                    {member.name}
+                  </Chip>
+                ))}
+              </View>
+
+              <Text variant="labelLarge">Days</Text>
+              <View style={styles.chipRow}>
+                {DAY_ORDER.map(day => (
+                  <Chip key={day} compact selected={shiftDraft.daysOfWeek.includes(day)} onPress={() => toggleDraftDay(day)}>
+                    {DAY_SHORT_LABELS[day]}
+                  </Chip>
+                ))}
+              </View>
+
+              <Text variant="labelLarge">Hours</Text>
+              <View style={styles.timeRow}>
+                <Button mode="outlined" onPress={() => setPickingTime('startTime')}>From {shiftDraft.startTime}</Button>
+                <Button mode="outlined" onPress={() => setPickingTime('endTime')}>Until {shiftDraft.endTime}</Button>
+              </View>
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>{formatShiftTimes(shiftDraft)}</Text>
+            </Dialog.Content>
+          )}
+          <Dialog.Actions>
+            <Button onPress={() => setShiftDraft(null)}>Cancel</Button>
+            <Button onPress={saveShift} loading={saving} disabled={saving}>Save</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={swapDraft !== null} onDismiss={() => setSwapDraft(null)}>
+          <Dialog.Title>Swap a shift</Dialog.Title>
+          {swapDraft && (
+            <Dialog.Content style={styles.dialogContent}>
+              <Text variant="bodyMedium">
+                {nameOf(swapDraft.shift.caregiverId)} · {formatShiftDays(swapDraft.shift.daysOfWeek)} · {formatShiftTimes(swapDraft.shift)}
+              </Text>
+
+              <Text variant="labelLarge">Which one</Text>
+              <View style={styles.chipRow}>
+                {swapDraft.occurrences.map((occurrence, index) => (
+                  <Chip
+                    key={occurrence.startsAt.toISOString()}
+                    compact
+                    selected={swapDraft.occurrenceIndex === index}
+                    onPress={() => setSwapDraft({ ...swapDraft, occurrenceIndex: index })}
+                  >
+                    {formatOccurrence(occurrence)}
+                  </Chip>
+                ))}
+              </View>
+
+              <Text variant="labelLarge">Covered by</Text>
+              <View style={styles.chipRow}>
+                {circle
+                  .filter(member => member.caregiverId !== swapDraft.shift.caregiverId)
+                  .map(member => (
+                    <Chip
+                      key={member.caregiverId}
+                      selected={swapDraft.coveringCaregiverId === member.caregiverId}
+                      onPress={() => setSwapDraft({ ...swapDraft, coveringCaregiverId: member.caregiverId })}
+                    >
+                      {member.name}
+                    </Chip>
+                  ))}
+              </View>
+
+              <TextInput
+                mode="outlined"
+                label="Note (optional)"
+                value={swapDraft.note}
+                onChangeText={note => setSwapDraft({ ...swapDraft, note })}
+              />
+            </Dialog.Content>
+          )}
+          <Dialog.Actions>
+            <Button onPress={() => setSwapDraft(null)}>Cancel</Button>
+            <Button onPress={saveSwap} loading={saving} disabled={saving}>Save</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <TimePickerModal
+        visible={pickingTime !== null}
+        onDismiss={() => setPickingTime(null)}
+        onConfirm={({ hours, minutes }) => {
+          if (shiftDraft && pickingTime) {
+            setShiftDraft({ ...shiftDraft, [pickingTime]: `${pad(hours)}:${pad(minutes)}` });
+          }
+          setPickingTime(null);
+        }}
+        hours={Math.floor(pickerMinutes / 60)}
+        minutes={pickerMinutes % 60}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderRadius: 16,
+    padding: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  cardActions: {
+    flexDirection: 'row',
+  },
+  bold: {
+    fontWeight: '600',
+  },
+  swap: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  swapText: {
+    flex: 1,
+  },
+  dialogContent: {
+    gap: 12,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  loading: {
+    marginTop: 32,
+  },
+});
+
+export default OnCallRotaScreen;
@@ -19,6 +19,8 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import OpenAI from 'openai';
+import { useAuth } from '../context/AuthContext';
+import { repositories } from '../lib/repositories';
 
 // Initialize OpenAI
 const openai = new OpenAI({
@@ -45,6 +47,7 @@ interface AssessmentResult {
 
 const ParkinsonsAssessmentScreen: React.FC = () => {
   const theme = useTheme();
+  const { user } = useAuth();
   const [currentStep, setCurrentStep] = useState(0);
   const [loading, setLoading] = useState(false);
   const [assessmentData, setAssessmentData] = useState<AssessmentData>({
@@ -213,6 +216,7 @@ Important notes:
         try {
           const parsedResult = JSON.parse(resultText);
           setResult(parsedResult);
+          saveResult(parsedResult);
           setUsingFallback(false);
         } catch (parseError) {
           throw new Error('Failed to parse AI response');
@@ -230,6 +234,7 @@ Important notes:
         // Provide a basic rule-based assessment as fallback
         const fallbackResult = generateFallbackAssessment(assessmentData);
         setResult(fallbackResult);
+        saveResult(fallbackResult);
       } else {
         Alert.alert(
           'Assessment Error',
@@ -243,6 +248,23 @@ Important notes:
     }
   };
 
+  // Kept so the result can be included in visit reports; failures don't block the result screen
+  const saveResult = async (assessmentResult: AssessmentResult) => {
+    if (!user?.id) return;
+    try {
+      await repositories.assessments.insert({
+        user_id: user.id,
+        risk_level: assessmentResult.riskLevel,
+        percentage: Math.round(assessmentResult.percentage),
+        key_factors: assessmentResult.keyFactors,
+        recommendations: assessmentResult.recommendations,
+        answers: { ...assessmentData },
+      });
+    } catch (error) {
+      console.error('Error saving assessment result:', error);
+    }
+  };
+
   // Fallback assessment logic when API is unavailable
   const generateFallbackAssessment = (data: AssessmentData): AssessmentResult => {
     let riskScore = 0;
@@ -149,6 +149,15 @@ const ProfileScreen: React.FC = () => {
               onPress={() => handleNavigation('Connections')}
               style={styles.listItem}
             />
+            <View style={styles.divider} />
+            <List.Item
+              title="Devices"
+              description="Phones and tablets that receive your alerts"
+              left={props => <List.Icon {...props} icon="cellphone-link" color={theme.colors.primary} />}
+              right={props => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => handleNavigation('Devices')}
+              style={styles.listItem}
+            />
           </View>
         </Surface>
 
@@ -178,6 +187,63 @@ const ProfileScreen: React.FC = () => {
               style={styles.listItem}
             />
             <View style={styles.divider} />
+            <List.Item
+              title="Units"
+              description="Weight, glucose, temperature and height"
+              left={props => <List.Icon {...props} icon="ruler" color={theme.colors.primary} />}
+              right={props => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => handleNavigation('UnitSettings')}
+              style={styles.listItem}
+            />
+            <View style={styles.divider} />
+            <List.Item
+              title="Notifications"
+              description="Reminders, quiet hours and caregiver alerts"
+              left={props => <List.Icon {...props} icon="bell-outline" color={theme.colors.primary} />}
+              right={props => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => handleNavigation('NotificationSettings')}
+              style={styles.listItem}
+            />
+            <View style={styles.divider} />
+            <List.Item
+              title="Alert History"
+              description="Caregiver alerts, who handled them and how quickly"
+              left={props => <List.Icon {...props} icon="history" color={theme.colors.primary} />}
+              right={props => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => handleNavigation('AlertHistory')}
+              style={styles.listItem}
+            />
+
+            <List.Item
+              title="On-call Rota"
+              description="Who gets alerts when, and shift swaps"
+              left={props => <List.Icon {...props} icon="account-clock-outline" color={theme.colors.primary} />}
+              right={props => <List.Icon {...props} icon="chevron-right" />}
+              onPress={() => handleNavigation('OnCallRota')}
+              style={styles.listItem}
+            />
+            {user?.role === 'caregiver' && (
+              <>
+                <View style={styles.divider} />
+                <List.Item
+                  title="Alert Rules"
+                  description="Alerts on readings, check-ins and missed doses"
+                  left={props => <List.Icon {...props} icon="bell-cog-outline" color={theme.colors.primary} />}
+                  right={props => <List.Icon {...props} icon="chevron-right" />}
+                  onPress={() => handleNavigation('AlertRules')}
+                  style={styles.listItem}
+                />
+                <View style={styles.divider} />
+                <List.Item
+                  title="Tracked Metrics"
+                  description="Custom readings and personal target ranges"
+                  left={props => <List.Icon {...props} icon="tune-variant" color={theme.colors.primary} />}
+                  right={props => <List.Icon {...props} icon="chevron-right" />}
+                  onPress={() => handleNavigation('TrackedMetrics')}
+                  style={styles.listItem}
+                />
+              </>
+            )}
           </View>
         </Surface>
 
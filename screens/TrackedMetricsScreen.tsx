@@ -0,0 +1,432 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Button, Chip, Dialog, IconButton, Portal, Surface, Text, TextInput, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuth } from '../context/AuthContext';
+import { repositories } from '../lib/repositories';
+import {
+  DEFAULT_METRIC_ICON,
+  METRIC_ICON_CHOICES,
+  METRIC_INPUT_TYPE_LABELS,
+  METRIC_TEMPLATES,
+  MetricDefinition,
+  MetricInputType,
+  formatMetricRange,
+  getEffectiveRange,
+  parseMetricRange,
+} from '../lib/metricDefinitions';
+import { getCanonicalUnit, localizeDefinition, toCanonicalValue } from '../lib/units';
+import { useUnitPreferences } from '../hooks/useUnitPreferences';
+
+// Shared categories only take a target range; the patient's own can be edited fully
+interface MetricDraft {
+  id?: string;
+  custom: boolean;
+  name: string;
+  unit: string;
+  inputType: MetricInputType;
+  icon: string;
+  targetMin: string;
+  targetMax: string;
+}
+
+const NEW_DRAFT: MetricDraft = {
+  custom: true,
+  name: '',
+  unit: '',
+  inputType: 'decimal',
+  icon: DEFAULT_METRIC_ICON,
+  targetMin: '',
+  targetMax: '',
+};
+
+const boundText = (bound: number | null | undefined) => (bound === null || bound === undefined ? '' : bound.toString());
+
+const TrackedMetricsScreen: React.FC = () => {
+  const { user, patients } = useAuth();
+  const theme = useTheme();
+  const isCaregiver = user?.role === 'caregiver';
+  const { units } = useUnitPreferences();
+
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [definitions, setDefinitions] = useState<MetricDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<MetricDraft | null>(null);
+
+  const patientId = isCaregiver ? selectedPatientId : user?.id ?? null;
+
+  useEffect(() => {
+    if (isCaregiver && patients.length > 0 && !patients.some(p => p.id === selectedPatientId)) {
+      setSelectedPatientId(patients[0].id);
+    }
+  }, [isCaregiver, patients, selectedPatientId]);
+
+  const loadDefinitions = useCallback(async () => {
+    if (!patientId) return;
+    try {
+      setDefinitions(await repositories.metrics.listDefinitions(patientId));
+    } catch (error) {
+      console.error('[TrackedMetricsScreen] Failed to load metrics:', error);
+      Alert.alert('Error', 'Could not load the tracked metrics.');
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadDefinitions();
+  }, [loadDefinitions]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadDefinitions();
+    setRefreshing(false);
+  };
+
+  // Called with the definition in the viewer's units
+  const openEdit = (definition: MetricDefinition) => {
+    setDraft({
+      id: definition.id,
+      custom: definition.patientId !== null,
+      name: definition.name,
+      unit: definition.unit ?? '',
+      // As stored; the viewer's unit can change how a value is entered
+      inputType: definitions.find(d => d.id === definition.id)?.inputType ?? definition.inputType,
+      icon: definition.icon,
+      targetMin: boundText(definition.target?.min),
+      targetMax: boundText(definition.target?.max),
+    });
+  };
+
+  const saveMetric = async () => {
+    if (!draft || !patientId || !user) return;
+    const name = draft.name.trim();
+    if (draft.custom && !name) {
+      Alert.alert('Name the metric', 'Give the metric a name, such as "Heart Rate".');
+      return;
+    }
+    if (draft.custom && definitions.some(d => d.id !== draft.id && d.name.toLowerCase() === name.toLowerCase())) {
+      Alert.alert('Already tracked', `"${name}" is already tracked. Choose another name.`);
+      return;
+    }
+    const typedTarget = parseMetricRange(draft.targetMin, draft.targetMax);
+    if (typedTarget === 'invalid') {
+      Alert.alert('Check the target', 'Enter numbers for the target range, with the lowest value first.');
+      return;
+    }
+    // Stored in the canonical unit: a metric in lb is kept in kg, its target too
+    const unit = draft.unit.trim() || null;
+    const toStored = (bound: number | null) => (bound === null ? null : toCanonicalValue(bound, unit));
+    const target = typedTarget && { min: toStored(typedTarget.min), max: toStored(typedTarget.max) };
+
+    setSaving(true);
+    try {
+      let categoryId = draft.id;
+      if (draft.custom) {
+        const input = { name, unit: getCanonicalUnit(unit), inputType: draft.inputType, icon: draft.icon };
+        if (categoryId) {
+          await repositories.metrics.updateCategory(categoryId, input);
+        } else {
+          categoryId = await repositories.metrics.createCategory(patientId, user.id, input);
+        }
+      }
+      await repositories.metrics.setTarget(patientId, categoryId!, target, user.id);
+      setDraft(null);
+      await loadDefinitions();
+    } catch (error) {
+      console.error('[TrackedMetricsScreen] Failed to save metric:', error);
+      Alert.alert('Error', 'Could not save the metric. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setArchived = async (definition: MetricDefinition, archived: boolean) => {
+    try {
+      await repositories.metrics.setArchived(definition.id, archived);
+      await loadDefinitions();
+    } catch (error) {
+      console.error('[TrackedMetricsScreen] Failed to update metric:', error);
+      Alert.alert('Error', 'Could not update the metric.');
+    }
+  };
+
+  const confirmArchive = (definition: MetricDefinition) => {
+    Alert.alert('Stop tracking', `Stop offering "${definition.name}" in the log form? Its readings are kept.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Stop tracking', style: 'destructive', onPress: () => setArchived(definition, true) },
+    ]);
+  };
+
+  const renderDefinition = (definition: MetricDefinition) => {
+    const range = getEffectiveRange(definition);
+    const custom = definition.patientId !== null;
+
+    return (
+      <Surface
+        key={definition.id}
+        style={[styles.card, { backgroundColor: theme.colors.surface }, definition.archived && styles.archived]}
+        elevation={1}
+      >
+        <View style={styles.cardHeader}>
+          <MaterialCommunityIcons name={definition.icon as any} size={24} color={theme.colors.primary} />
+          <View style={styles.cardTitle}>
+            <Text variant="titleSmall" style={styles.bold}>
+              {definition.name}
+              {definition.unit ? ` (${definition.unit})` : ''}
+            </Text>
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+              {range
+                ? `${range.personal ? 'Target' : 'Normal range'}: ${formatMetricRange(range, definition.unit)}`
+                : 'No target range'}
+              {custom ? ` · ${METRIC_INPUT_TYPE_LABELS[definition.inputType]}` : ''}
+            </Text>
+          </View>
+          {definition.archived ? (
+            <IconButton icon="restore" size={20} onPress={() => setArchived(definition, false)} accessibilityLabel="Track again" />
+          ) : (
+            <>
+              <IconButton icon="pencil-outline" size={20} onPress={() => openEdit(definition)} accessibilityLabel="Edit metric" />
+              {custom && (
+                <IconButton icon="archive-outline" size={20} onPress={() => confirmArchive(definition)} accessibilityLabel="Stop tracking" />
+              )}
+            </>
+          )}
+        </View>
+      </Surface>
+    );
+  };
+
+  if (isCaregiver && patients.length === 0) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
+        <Text variant="bodyLarge">Connect with a patient to choose what they track.</Text>
+      </View>
+    );
+  }
+
+  const shown = definitions.map(definition => localizeDefinition(definition, units));
+  const shared = shown.filter(d => d.patientId === null && !d.archived);
+  const own = shown.filter(d => d.patientId !== null && !d.archived);
+  const archived = shown.filter(d => d.patientId !== null && d.archived);
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {isCaregiver && patients.length > 1 && (
+          <View style={styles.chipRow}>
+            {patients.map(patient => (
+              <Chip key={patient.id} selected={patient.id === selectedPatientId} onPress={() => setSelectedPatientId(patient.id)}>
+                {`${patient.first_name ?? ''} ${patient.last_name ?? ''}`.trim() || 'Patient'}
+              </Chip>
+            ))}
+          </View>
+        )}
+
+        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          A target range replaces the normal range when readings are checked: in the log form, on the charts, in alert rules
+          and in visit reports.
+        </Text>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} />
+        ) : (
+          <>
+            <Text variant="titleMedium">Standard metrics</Text>
+            {shared.map(renderDefinition)}
+
+            <Text variant="titleMedium">{isCaregiver ? 'Added for this patient' : 'Added by you'}</Text>
+            {own.length === 0 ? (
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                Nothing added yet. Add heart rate, temperature, steps or anything the care team asks for.
+              </Text>
+            ) : (
+              own.map(renderDefinition)
+            )}
+
+            {archived.length > 0 && (
+              <>
+                <Text variant="titleMedium">No longer tracked</Text>
+                {archived.map(renderDefinition)}
+              </>
+            )}
+
+            <Button mode="contained" icon="plus" onPress={() => setDraft(NEW_DRAFT)}>
+              Add metric
+            </Button>
+          </>
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Dialog visible={draft !== null} onDismiss={() => setDraft(null)}>
+          <Dialog.Title>{!draft?.id ? 'New metric' : draft.custom ? 'Edit metric' : draft.name}</Dialog.Title>
+          {draft && (
+            <Dialog.ScrollArea>
+              <ScrollView contentContainerStyle={styles.dialogContent}>
+                {!draft.id && (
+                  <>
+                    <Text variant="labelLarge">Start from</Text>
+                    <View style={styles.chipRow}>
+                      {METRIC_TEMPLATES.filter(template => !definitions.some(d => d.name === template.name)).map(template => (
+                        <Chip
+                          key={template.name}
+                          compact
+                          icon={template.icon}
+                          onPress={() =>
+                            setDraft({
+                              ...NEW_DRAFT,
+                              name: template.name,
+                              unit: template.unit,
+                              inputType: template.inputType,
+                              icon: template.icon,
+                              targetMin: boundText(template.target?.min),
+                              targetMax: boundText(template.target?.max),
+                            })
+                          }
+                        >
+                          {template.name}
+                        </Chip>
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                {draft.custom && (
+                  <>
+                    <TextInput mode="outlined" label="Name" value={draft.name} onChangeText={name => setDraft({ ...draft, name })} />
+                    <TextInput
+                      mode="outlined"
+                      label="Unit (optional)"
+                      placeholder="bpm, °C, ml"
+                      value={draft.unit}
+                      onChangeText={unit => setDraft({ ...draft, unit })}
+                    />
+
+                    <Text variant="labelLarge">Entered as</Text>
+                    <View style={styles.chipRow}>
+                      {(Object.keys(METRIC_INPUT_TYPE_LABELS) as MetricInputType[]).map(inputType => (
+                        <Chip
+                          key={inputType}
+                          compact
+                          selected={draft.inputType === inputType}
+                          onPress={() => setDraft({ ...draft, inputType })}
+                        >
+                          {METRIC_INPUT_TYPE_LABELS[inputType]}
+                        </Chip>
+                      ))}
+                    </View>
+
+                    <Text variant="labelLarge">Icon</Text>
+                    <View style={styles.chipRow}>
+                      {METRIC_ICON_CHOICES.map(icon => (
+                        <IconButton
+                          key={icon}
+                          icon={icon}
+                          size={20}
+                          mode={draft.icon === icon ? 'contained' : undefined}
+                          onPress={() => setDraft({ ...draft, icon })}
+                          accessibilityLabel={icon}
+                        />
+                      ))}
+                    </View>
+                  </>
+                )}
+
+                <Text variant="labelLarge">Target range</Text>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    mode="outlined"
+                    label="Lowest"
+                    style={styles.input}
+                    keyboardType="decimal-pad"
+                    value={draft.targetMin}
+                    onChangeText={targetMin => setDraft({ ...draft, targetMin })}
+                  />
+                  <TextInput
+                    mode="outlined"
+                    label="Highest"
+                    style={styles.input}
+                    keyboardType="decimal-pad"
+                    value={draft.targetMax}
+                    onChangeText={targetMax => setDraft({ ...draft, targetMax })}
+                  />
+                </View>
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Leave a side empty for no limit. Leave both empty to use the normal range.
+                </Text>
+              </ScrollView>
+            </Dialog.ScrollArea>
+          )}
+          <Dialog.Actions>
+            <Button onPress={() => setDraft(null)}>Cancel</Button>
+            <Button onPress={saveMetric} loading={saving} disabled={saving}>Save</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 12,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  card: {
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  archived: {
+    opacity: 0.6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  bold: {
+    fontWeight: '600',
+  },
+  dialogContent: {
+    gap: 12,
+    paddingVertical: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+  },
+  loading: {
+    marginTop: 32,
+  },
+});
+
+export default TrackedMetricsScreen;
@@ -28,12 +28,16 @@ import Animated, {
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { Calendar, DateData } from 'react-native-calendars';
-import { format, parseISO } from 'date-fns';
-import { supabase } from '../lib/supabase';
+import { addDays, format, parseISO, startOfDay, subDays } from 'date-fns';
+import { Appointment, DoseLog, DoseLogStatus, MedicationWithSchedules, ScheduleWithMedication, repositories } from '../lib/repositories';
+import { DoseAdherence } from '../lib/adherence';
+import { AsNeededRule, describeScheduleRule, getAsNeededAvailability, parseScheduleRule } from '../lib/scheduleRules';
 import { useAuth } from '../context/AuthContext';
 import { useResponsive } from '../hooks/useResponsive';
 import * as Haptics from 'expo-haptics';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import OfflineSyncService from '../services/OfflineSyncService';
+import { usePendingSync } from '../hooks/usePendingSync';
 
 const { width } = Dimensions.get('window');
 const AnimatedCard = Animated.createAnimatedComponent(Card);
@@ -56,36 +60,33 @@ interface CalendarEvent {
   medicationLogId?: string;
 }
 
-interface Medication {
-  id: string;
+// An as-needed (PRN) medication and the doses already taken, for the daily maximum
+interface AsNeededMedication {
+  scheduleId: string;
+  medicationId: string;
   name: string;
   dosage: string;
-  schedule_times: string[];
-  frequency: string;
-  start_date: string;
-  end_date?: string;
-}
-
-interface DoctorAppointment {
-  id: string;
-  doctor_name: string;
-  doctor_specialty: string;
-  appointment_date: string;
-  appointment_time: string;
-  location: string;
-  status: string;
+  rule: AsNeededRule;
+  takenTimes: Date[];
 }
 
-interface MedicationLog {
-  id: string;
-  medication_id: string;
-  schedule_id?: string;
-  user_id: string;
-  taken_at: string;
-  status: 'taken' | 'skipped';
-  notes?: string;
-  intended_dose_time: string;
-}
+const toAsNeededMedications = (schedules: ScheduleWithMedication[], logs: DoseLog[], today: string): AsNeededMedication[] =>
+  schedules.flatMap(schedule => {
+    const rule = parseScheduleRule(schedule.rule);
+    const medication = schedule.medications;
+    if (rule?.kind !== 'as_needed') return [];
+    if ((medication.start_date && today < medication.start_date) || (medication.end_date && today > medication.end_date)) return [];
+    return [{
+      scheduleId: schedule.id,
+      medicationId: schedule.medication_id,
+      name: medication.name,
+      dosage: medication.dosage,
+      rule,
+      takenTimes: logs
+        .filter(log => log.schedule_id === schedule.id && log.taken_at)
+        .map(log => new Date(log.taken_at!)),
+    }];
+  });
 
 const UnifiedCalendarScreen: React.FC = () => {
   const theme = useTheme();
@@ -98,12 +99,15 @@ const UnifiedCalendarScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [medications, setMedications] = useState<Medication[]>([]);
-  const [appointments, setAppointments] = useState<DoctorAppointment[]>([]);
+  const [medications, setMedications] = useState<MedicationWithSchedules[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [asNeededMedications, setAsNeededMedications] = useState<AsNeededMedication[]>([]);
   
   // New state for medication interactions
   const [isLogging, setIsLogging] = useState(false);
   const isProcessingRef = useRef(false);
+  const { pendingDoseStatuses, pendingCount } = usePendingSync();
+  const previousPendingCountRef = useRef(pendingCount);
 
   // Dynamic styles based on device type
   const getResponsiveStyles = () => ({
@@ -154,54 +158,22 @@ const UnifiedCalendarScreen: React.FC = () => {
     try {
       setLoading(true);
 
-      // Load medications with schedules
-      const { data: medicationsData, error: medicationsError } = await supabase
-        .from('medications')
-        .select(`
-          id,
-          name,
-          dosage,
-          instructions,
-          start_date,
-          end_date,
-          medication_schedules(
-            id,
-            scheduled_time,
-            days_of_week
-          )
-        `)
-        .eq('user_id', user.id);
-
-      if (medicationsError) throw medicationsError;
-
-      // Load appointments
-      const { data: appointmentsData, error: appointmentsError } = await supabase
-        .from('doctor_appointments')
-        .select('*')
-        .eq('patient_id', user.id)
-        .order('appointment_date', { ascending: true });
-
-      if (appointmentsError) throw appointmentsError;
-
-      // Load medication administration logs for today
       const today = new Date();
-      const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const todayEnd = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
-      
-      const { data: logsData, error: logsError } = await supabase
-        .from('medication_administration_logs')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('intended_dose_time', todayStart.toISOString())
-        .lt('intended_dose_time', todayEnd.toISOString());
-
-      if (logsError) throw logsError;
-
-      setMedications(medicationsData || []);
-      setAppointments(appointmentsData || []);
+      const [medicationsData, appointmentsData, todaysDoses, scheduleRows, recentTakenLogs] = await Promise.all([
+        repositories.medications.listWithSchedules(user.id),
+        repositories.appointments.listForPatient(user.id),
+        repositories.getAdherence(user.id, today, today),
+        repositories.schedules.listWithMedications(user.id),
+        // From yesterday, so the minimum gap between as-needed doses holds across midnight
+        repositories.doseLogs.listTakenBetween(user.id, subDays(startOfDay(today), 1), addDays(startOfDay(today), 1)),
+      ]);
+
+      setMedications(medicationsData);
+      setAppointments(appointmentsData);
+      setAsNeededMedications(toAsNeededMedications(scheduleRows, recentTakenLogs, format(today, 'yyyy-MM-dd')));
 
       // Process events for calendar with medication interactions
-      processEventsForCalendar(medicationsData || [], appointmentsData || [], logsData || []);
+      processEventsForCalendar(todaysDoses, appointmentsData);
     } catch (error: any) {
       console.error('Error loading calendar data:', error);
       Alert.alert('Error', 'Failed to load calendar data. Please try again.');
@@ -210,23 +182,13 @@ const UnifiedCalendarScreen: React.FC = () => {
     }
   };
 
-  const processEventsForCalendar = (meds: any[], appts: DoctorAppointment[], logs: MedicationLog[]) => {
+  const processEventsForCalendar = (doses: DoseAdherence[], appts: Appointment[]) => {
     const calendarEvents: CalendarEvent[] = [];
 
     console.log('[UnifiedCalendar] Processing events for calendar:', {
-      medicationsCount: meds.length,
+      dosesCount: doses.length,
       appointmentsCount: appts.length,
-      logsCount: logs.length,
       today: format(new Date(), 'yyyy-MM-dd'),
-      todayDayOfWeek: new Date().getDay()
-    });
-
-    // Create logs map for quick lookup
-    const logsMap = new Map<string, MedicationLog>();
-    logs.forEach(log => {
-      const intendedTime = parseISO(log.intended_dose_time);
-      const logKey = `${log.medication_id}-${format(intendedTime, 'yyyy-MM-dd')}-${format(intendedTime, 'HH:mm')}`;
-      logsMap.set(logKey, log);
     });
 
     // Add appointments
@@ -242,78 +204,22 @@ const UnifiedCalendarScreen: React.FC = () => {
       });
     });
 
-    // Add today's medications from schedules
-    const today = format(new Date(), 'yyyy-MM-dd');
-    const todayDayOfWeek = new Date().getDay(); // 0 = Sunday, 1 = Monday, etc.
-    
-    // Day name to number mapping to handle both string and numeric formats
-    const dayNameToNumber: { [key: string]: number } = {
-      'Sun': 0, 'Mon': 1, 'Tue': 2, 'Wed': 3, 'Thu': 4, 'Fri': 5, 'Sat': 6
-    };
-    
-    meds.forEach(medication => {
-      console.log('[UnifiedCalendar] Processing medication:', {
-        id: medication.id,
-        name: medication.name,
-        schedulesCount: medication.medication_schedules?.length || 0,
-        schedules: medication.medication_schedules
+    // Add today's medication doses
+    doses.forEach(dose => {
+      calendarEvents.push({
+        id: dose.doseKey,
+        type: 'medication',
+        title: dose.medicationName,
+        time: dose.scheduledTime,
+        date: format(dose.intendedDoseTime, 'yyyy-MM-dd'),
+        description: dose.dosage,
+        medicationId: dose.medicationId,
+        scheduleId: dose.scheduleId,
+        dosage: dose.dosage,
+        instructions: dose.instructions ?? undefined,
+        logStatus: dose.log?.status as DoseLogStatus | undefined,
+        medicationLogId: dose.log?.id,
       });
-      
-      if (medication.medication_schedules && Array.isArray(medication.medication_schedules)) {
-        medication.medication_schedules.forEach((schedule: any, index: number) => {
-          console.log(`[UnifiedCalendar] Processing schedule ${index}:`, {
-            id: schedule.id,
-            scheduled_time: schedule.scheduled_time,
-            days_of_week: schedule.days_of_week,
-            days_type: typeof schedule.days_of_week?.[0]
-          });
-          
-          if (schedule.days_of_week && schedule.days_of_week.length > 0) {
-            // Handle both string array format ['Mon', 'Tue'] and numeric array format [1, 2]
-            let isScheduledToday = false;
-            
-            if (typeof schedule.days_of_week[0] === 'string') {
-              // String format: ['Mon', 'Tue', 'Wed']
-              const scheduledDayNumbers = schedule.days_of_week.map((dayName: string) => dayNameToNumber[dayName]);
-              isScheduledToday = scheduledDayNumbers.includes(todayDayOfWeek);
-              console.log(`[UnifiedCalendar] String format - scheduledDayNumbers:`, scheduledDayNumbers, 'todayDayOfWeek:', todayDayOfWeek, 'isScheduledToday:', isScheduledToday);
-            } else {
-              // Numeric format: [1, 2, 3]
-              isScheduledToday = schedule.days_of_week.includes(todayDayOfWeek);
-              console.log(`[UnifiedCalendar] Numeric format - days_of_week:`, schedule.days_of_week, 'todayDayOfWeek:', todayDayOfWeek, 'isScheduledToday:', isScheduledToday);
-            }
-            
-            if (isScheduledToday) {
-              const scheduleTime = schedule.scheduled_time.substring(0, 5); // HH:MM
-              const doseTimeKey = `${medication.id}-${today}-${scheduleTime}`;
-              const existingLog = logsMap.get(doseTimeKey);
-              
-              console.log(`[UnifiedCalendar] Adding medication event:`, {
-                doseTimeKey,
-                medicationName: medication.name,
-                scheduleTime,
-                hasExistingLog: !!existingLog,
-                logStatus: existingLog?.status
-              });
-              
-              calendarEvents.push({
-                id: doseTimeKey,
-                type: 'medication',
-                title: medication.name,
-                time: scheduleTime,
-                date: today,
-                description: medication.dosage,
-                medicationId: medication.id,
-                scheduleId: schedule.id,
-                dosage: medication.dosage,
-                instructions: medication.instructions,
-                logStatus: existingLog?.status,
-                medicationLogId: existingLog?.id,
-              });
-            }
-          }
-        });
-      }
     });
 
     setEvents(calendarEvents.sort((a, b) => a.time.localeCompare(b.time)));
@@ -333,45 +239,32 @@ const UnifiedCalendarScreen: React.FC = () => {
     setIsLogging(true);
 
     try {
-      if (event.medicationLogId) {
-        // Update existing log
-        const { error: updateError } = await supabase
-          .from('medication_administration_logs')
-          .update({ 
-            status: statusToSet,
-            taken_at: new Date().toISOString()
-          })
-          .eq('id', event.medicationLogId);
-
-        if (updateError) throw updateError;
-      } else {
-        // Create new log entry
-        const intendedDoseDateTime = new Date();
-        const [hours, minutes] = event.time.split(':').map(Number);
-        intendedDoseDateTime.setHours(hours, minutes, 0, 0);
-
-        const newLogEntry = {
+      const intendedDoseDateTime = new Date();
+      const [hours, minutes] = event.time.split(':').map(Number);
+      intendedDoseDateTime.setHours(hours, minutes, 0, 0);
+
+      // Goes through the offline outbox so the dose is kept (and replayed) without a connection
+      const { synced } = await OfflineSyncService.submit({
+        kind: 'dose_log',
+        payload: {
+          log_id: event.medicationLogId || null,
           medication_id: event.medicationId,
           schedule_id: event.scheduleId || null,
           user_id: user.id,
           status: statusToSet,
           taken_at: new Date().toISOString(),
           intended_dose_time: intendedDoseDateTime.toISOString(),
-          notes: null
-        };
-
-        const { error: insertError } = await supabase
-          .from('medication_administration_logs')
-          .insert([newLogEntry]);
-
-        if (insertError) throw insertError;
-      }
+          notes: null,
+        },
+      });
 
       // Haptic feedback
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-      // Refresh the data to reflect the changes
-      await loadData();
+      // Refresh the data to reflect the changes; queued logs show as pending until synced
+      if (synced) {
+        await loadData();
+      }
 
     } catch (e: any) {
       console.error('Error in handleLogDose:', e);
@@ -382,6 +275,83 @@ const UnifiedCalendarScreen: React.FC = () => {
     }
   };
 
+  const handleTakeAsNeeded = async (item: AsNeededMedication) => {
+    if (!user?.id || isProcessingRef.current) return;
+
+    const now = new Date();
+    const availability = getAsNeededAvailability(item.rule, item.takenTimes, now);
+    if (!availability.canTakeNow) {
+      Alert.alert(
+        'Not Yet',
+        availability.remainingToday === 0
+          ? `You have taken the maximum of ${item.rule.maxDosesPerDay} doses of ${item.name} today.`
+          : `The next dose of ${item.name} is allowed from ${format(availability.nextAllowedAt!, 'h:mm a')}.`
+      );
+      return;
+    }
+
+    isProcessingRef.current = true;
+    setIsLogging(true);
+    try {
+      const { synced } = await OfflineSyncService.submit({
+        kind: 'dose_log',
+        payload: {
+          log_id: null,
+          medication_id: item.medicationId,
+          schedule_id: item.scheduleId,
+          user_id: user.id,
+          status: 'taken',
+          taken_at: now.toISOString(),
+          intended_dose_time: now.toISOString(),
+          notes: 'As needed',
+        },
+      });
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      // Count the dose straight away, even while it waits in the offline outbox
+      setAsNeededMedications(prev =>
+        prev.map(m => (m.scheduleId === item.scheduleId ? { ...m, takenTimes: [...m.takenTimes, now] } : m))
+      );
+      if (synced) {
+        await loadData();
+      }
+    } catch (e: any) {
+      console.error('Error logging as-needed dose:', e);
+      Alert.alert('Error', 'Failed to log medication dose. Please try again.');
+    } finally {
+      isProcessingRef.current = false;
+      setIsLogging(false);
+    }
+  };
+
+  const renderAsNeeded = (item: AsNeededMedication) => {
+    const availability = getAsNeededAvailability(item.rule, item.takenTimes);
+    return (
+      <Surface key={item.scheduleId} style={staticStyles.asNeededCard} elevation={1}>
+        <View style={staticStyles.eventInfo}>
+          <Text variant="titleMedium" style={staticStyles.eventTitle}>{item.name}</Text>
+          <Text variant="bodySmall" style={staticStyles.eventDescription}>
+            {item.dosage} · {describeScheduleRule(item.rule)}
+          </Text>
+          <Text variant="bodySmall" style={staticStyles.eventTime}>
+            {availability.takenToday} of {item.rule.maxDosesPerDay} taken today
+            {!availability.canTakeNow && availability.remainingToday > 0 && availability.nextAllowedAt
+              ? ` · next from ${format(availability.nextAllowedAt, 'h:mm a')}`
+              : ''}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[staticStyles.actionButton, availability.canTakeNow ? staticStyles.takeButton : staticStyles.disabledButton]}
+          onPress={() => handleTakeAsNeeded(item)}
+          disabled={isLogging}
+        >
+          <MaterialCommunityIcons name="check" size={16} color="#FFFFFF" />
+          <Text style={staticStyles.buttonText}>Take</Text>
+        </TouchableOpacity>
+      </Surface>
+    );
+  };
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     await loadData();
@@ -392,6 +362,14 @@ const UnifiedCalendarScreen: React.FC = () => {
     loadData();
   }, [user?.id]);
 
+  // Reload once queued offline logs have reached the server
+  useEffect(() => {
+    if (pendingCount < previousPendingCountRef.current) {
+      loadData();
+    }
+    previousPendingCountRef.current = pendingCount;
+  }, [pendingCount]);
+
   const getMarkedDates = () => {
     const marked: { [key: string]: any } = {};
 
@@ -441,7 +419,12 @@ const UnifiedCalendarScreen: React.FC = () => {
     });
   };
 
-  const renderEvent = (event: CalendarEvent, index: number) => (
+  const renderEvent = (calendarEvent: CalendarEvent, index: number) => {
+    // Doses logged offline show their queued status until the outbox syncs
+    const pendingStatus = calendarEvent.type === 'medication' ? pendingDoseStatuses.get(calendarEvent.id) : undefined;
+    const event = pendingStatus ? { ...calendarEvent, logStatus: pendingStatus } : calendarEvent;
+
+    return (
     <AnimatedCard
       key={event.id}
       entering={FadeInDown.delay(index * 100).springify()}
@@ -586,11 +569,19 @@ const UnifiedCalendarScreen: React.FC = () => {
                 <Text style={[staticStyles.statusText, { color: '#ef4444' }]}>Skipped</Text>
               </Surface>
             )}
+
+            {pendingStatus && (
+              <View style={staticStyles.pendingSyncRow}>
+                <MaterialCommunityIcons name="cloud-upload-outline" size={14} color="#6b7280" />
+                <Text variant="bodySmall" style={staticStyles.pendingSyncText}>Pending sync</Text>
+              </View>
+            )}
           </View>
         )}
       </Card.Content>
     </AnimatedCard>
-  );
+    );
+  };
 
   if (loading) {
     return (
@@ -692,6 +683,16 @@ const UnifiedCalendarScreen: React.FC = () => {
           )}
         </View>
 
+        {/* As-needed medications, today only */}
+        {selectedDate === format(new Date(), 'yyyy-MM-dd') && asNeededMedications.length > 0 && (
+          <View style={[staticStyles.eventsSection, styles.sectionGap]}>
+            <Text variant="titleLarge" style={[staticStyles.sectionTitle, styles.titleSize]}>
+              As Needed
+            </Text>
+            {asNeededMedications.map(renderAsNeeded)}
+          </View>
+        )}
+
         {/* Quick Stats */}
         <View style={[staticStyles.statsSection, styles.sectionGap]}>
           <Text variant="titleLarge" style={[staticStyles.sectionTitle, styles.titleSize]}>
@@ -857,6 +858,18 @@ const staticStyles = StyleSheet.create({
   takeButton: {
     backgroundColor: '#22c55e',
   },
+  disabledButton: {
+    backgroundColor: '#9ca3af',
+  },
+  asNeededCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 16,
+    backgroundColor: '#ffffff',
+  },
   skipButton: {
     backgroundColor: '#ffffff',
     borderWidth: 1.5,
@@ -956,6 +969,16 @@ const staticStyles = StyleSheet.create({
   skippedBadge: {
     backgroundColor: '#fecaca',
   },
+  pendingSyncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+  },
+  pendingSyncText: {
+    color: '#6b7280',
+    fontWeight: '500',
+  },
 });
 
 export default UnifiedCalendarScreen; 
\ No newline at end of file
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, View } from 'react-native';
+import { Button, Chip, Surface, Text, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useUnitPreferences } from '../hooks/useUnitPreferences';
+import {
+  CANONICAL_UNITS,
+  QUANTITY_LABELS,
+  Quantity,
+  US_UNITS,
+  UnitPreferences,
+  getUnitChoices,
+} from '../lib/units';
+
+const QUANTITIES = Object.keys(QUANTITY_LABELS) as Quantity[];
+
+const PRESETS: { label: string; units: UnitPreferences }[] = [
+  { label: 'Metric', units: CANONICAL_UNITS },
+  { label: 'US', units: US_UNITS },
+];
+
+const sameUnits = (a: UnitPreferences, b: UnitPreferences) => QUANTITIES.every(quantity => a[quantity] === b[quantity]);
+
+const UnitSettingsScreen: React.FC = () => {
+  const theme = useTheme();
+  const { units, setUnits } = useUnitPreferences();
+  const [draft, setDraft] = useState<UnitPreferences>(units);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(units);
+  }, [units]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await setUnits(draft);
+      Alert.alert('Saved', 'Readings will be shown and entered in these units.');
+    } catch (error) {
+      console.error('[UnitSettingsScreen] Failed to save units:', error);
+      Alert.alert('Error', 'Could not save your units. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <Surface style={[styles.card, { backgroundColor: theme.colors.surface }]} elevation={2}>
+        <View style={styles.cardHeader}>
+          <MaterialCommunityIcons name="ruler" size={24} color={theme.colors.primary} />
+          <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.primary }]}>
+            Units
+          </Text>
+        </View>
+        <Text variant="bodySmall" style={[styles.sectionNote, { color: theme.colors.onSurfaceVariant }]}>
+          Readings are shown and typed in your units. Everyone else sees them in their own units.
+        </Text>
+
+        <View style={styles.optionGroup}>
+          <View style={styles.chipRow}>
+            {PRESETS.map(preset => (
+              <Chip
+                key={preset.label}
+                selected={sameUnits(draft, preset.units)}
+                onPress={() => setDraft(preset.units)}
+                style={styles.chip}
+              >
+                {preset.label}
+              </Chip>
+            ))}
+          </View>
+        </View>
+
+        {QUANTITIES.map(quantity => (
+          <View key={quantity} style={styles.optionGroup}>
+            <Text variant="bodyMedium" style={styles.optionTitle}>{QUANTITY_LABELS[quantity]}</Text>
+            <View style={styles.chipRow}>
+              {getUnitChoices(quantity).map(choice => (
+                <Chip
+                  key={choice.symbol}
+                  selected={draft[quantity] === choice.symbol}
+                  onPress={() => setDraft(current => ({ ...current, [quantity]: choice.symbol }))}
+                  style={styles.chip}
+                >
+                  {choice.name}
+                </Chip>
+              ))}
+            </View>
+          </View>
+        ))}
+      </Surface>
+
+      <Button
+        mode="contained"
+        onPress={handleSave}
+        loading={saving}
+        disabled={saving || sameUnits(draft, units)}
+        style={styles.saveButton}
+      >
+        Save Units
+      </Button>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 16,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: 'hidden',
+    paddingBottom: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    marginLeft: 12,
+    fontWeight: '600',
+  },
+  sectionNote: {
+    paddingHorizontal: 20,
+    paddingBottom: 4,
+  },
+  optionGroup: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  optionTitle: {
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    marginBottom: 4,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+});
+
+export default UnitSettingsScreen;
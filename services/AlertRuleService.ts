@@ -0,0 +1,130 @@
+import { subDays } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { repositories } from '../lib/repositories';
+import { HEALTH_RULE_ALERT_TYPE, RuleAlertDetails, RuleData, evaluateRules, getRuleLookbackDays } from '../lib/alertRules';
+import { Json } from '../lib/database.types';
+import { applyPersonalRanges } from '../lib/metricDefinitions';
+import NotificationService from './NotificationService';
+import OfflineSyncService, { OutboxWrite } from './OfflineSyncService';
+
+// Runs the caregivers' alert rules (lib/alertRules.ts) on the patient's device:
+// whenever a reading, check-in answer or dose log reaches the database, and when the
+// patient opens the app, so rules on missed doses see doses that went untaken.
+// Each rule that matches raises one 'health_rule' alert, with the triggering data
+// in its details, to the caregivers on call.
+
+// A check-in is saved one answer at a time; wait for the rest before evaluating
+const EVALUATION_DELAY_MS = 3000;
+
+const patientOf = (write: OutboxWrite): string | null => {
+  switch (write.kind) {
+    case 'health_metrics':
+      return write.payload[0]?.patient_id ?? null;
+    case 'health_checkin':
+      return write.payload.user_id;
+    case 'dose_log':
+      return write.payload.user_id;
+    default:
+      return null;
+  }
+};
+
+const getPatientName = async (patientId: string): Promise<string> => {
+  const { data } = await supabase
+    .from('profiles')
+    .select('full_name, first_name, last_name')
+    .eq('id', patientId)
+    .maybeSingle();
+  return data?.full_name || [data?.first_name, data?.last_name].filter(Boolean).join(' ') || 'Your patient';
+};
+
+class AlertRuleService {
+  private static instance: AlertRuleService;
+  private unsubscribe: (() => void) | null = null;
+  private pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+  static getInstance(): AlertRuleService {
+    if (!AlertRuleService.instance) {
+      AlertRuleService.instance = new AlertRuleService();
+    }
+    return AlertRuleService.instance;
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = OfflineSyncService.onSynced(write => {
+      const patientId = patientOf(write);
+      if (patientId) this.scheduleEvaluation(patientId);
+    });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.pending.forEach(timer => clearTimeout(timer));
+    this.pending.clear();
+  }
+
+  private scheduleEvaluation(patientId: string): void {
+    const existing = this.pending.get(patientId);
+    if (existing) clearTimeout(existing);
+    this.pending.set(
+      patientId,
+      setTimeout(() => {
+        this.pending.delete(patientId);
+        this.evaluate(patientId);
+      }, EVALUATION_DELAY_MS)
+    );
+  }
+
+  // Returns the number of rules that fired
+  async evaluate(patientId: string, now: Date = new Date()): Promise<number> {
+    try {
+      const rules = await repositories.alertRules.listForPatient(patientId, true);
+      if (rules.length === 0) return 0;
+
+      const conditions = rules.map(rule => rule.condition);
+      const from = subDays(now, getRuleLookbackDays(conditions));
+      const needs = (kind: string) => conditions.some(condition => condition.kind === kind);
+
+      const [metrics, definitions, checkins, doses] = await Promise.all([
+        needs('metric') ? repositories.metrics.listBetween(patientId, from, new Date(now.getTime() + 1)) : [],
+        needs('metric') ? repositories.metrics.listDefinitions(patientId) : [],
+        needs('checkin')
+          ? repositories.checkins.listBetween(patientId, from.toISOString().split('T')[0], now.toISOString().split('T')[0])
+          : [],
+        needs('adherence') ? repositories.getAdherence(patientId, from, now, { now }) : [],
+      ]);
+      // 'Outside normal range' means outside the patient's target, where one is set
+      const data: RuleData = { metrics: applyPersonalRanges(metrics, definitions), checkins, doses };
+
+      const matches = evaluateRules(rules, data, now);
+      let fired = 0;
+      for (const match of matches) {
+        const rule = rules.find(candidate => candidate.id === match.ruleId)!;
+        if (!(await repositories.alertRules.claimTrigger(rule, now))) continue;
+
+        const details: RuleAlertDetails = {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          condition: rule.condition,
+          evidence: match.evidence,
+        };
+        const patientName = await getPatientName(patientId);
+        await NotificationService.notifyCaregivers(
+          patientId,
+          HEALTH_RULE_ALERT_TYPE,
+          `⚠️ ${patientName}: ${rule.name}. ${match.summary}`,
+          details as unknown as Json
+        );
+        fired += 1;
+      }
+      return fired;
+    } catch (error) {
+      console.error(`[AlertRuleService] Failed to evaluate alert rules for ${patientId}:`, error);
+      return 0;
+    }
+  }
+}
+
+export default AlertRuleService.getInstance();
@@ -0,0 +1,185 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { REALTIME_CHANNEL_STATES, REALTIME_SUBSCRIBE_STATES, RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { CaregiverAlert, DoseLog } from '../lib/repositories';
+import NotificationService from './NotificationService';
+
+// Live feed for caregiver devices: new caregiver_alerts rows and dose logs of the
+// connected patients arrive over Supabase Realtime. Realtime drops whatever happens
+// while the socket is down, so every (re)subscribe back-fills: pending alerts are
+// shown from the inbox and listeners are told to reload.
+
+export type CaregiverFeedEvent =
+  | { kind: 'alert'; patientId: string; alert: CaregiverAlert }
+  | { kind: 'alert_update'; patientId: string; alert: CaregiverAlert } // Acknowledged or resolved, possibly by another caregiver
+  | { kind: 'dose_log'; patientId: string; log: DoseLog }
+  | { kind: 'resync' }; // Anything may have changed while the feed was disconnected
+
+type CaregiverFeedListener = (event: CaregiverFeedEvent) => void;
+
+const RECONNECT_BASE_DELAY_MS = 2000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+
+class CaregiverRealtimeService {
+  private static instance: CaregiverRealtimeService;
+  private channel: RealtimeChannel | null = null;
+  private caregiverId: string | null = null;
+  private patientIds: string[] = [];
+  private listeners = new Set<CaregiverFeedListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private hasSubscribed = false;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  static getInstance(): CaregiverRealtimeService {
+    if (!CaregiverRealtimeService.instance) {
+      CaregiverRealtimeService.instance = new CaregiverRealtimeService();
+    }
+    return CaregiverRealtimeService.instance;
+  }
+
+  // Safe to call again when the patient list changes; the channel is only rebuilt if it did
+  start(caregiverId: string, patientIds: string[]): void {
+    const sortedPatientIds = [...patientIds].sort();
+    if (
+      this.channel &&
+      this.caregiverId === caregiverId &&
+      sortedPatientIds.join(',') === this.patientIds.join(',')
+    ) {
+      return;
+    }
+
+    this.caregiverId = caregiverId;
+    this.patientIds = sortedPatientIds;
+
+    if (!this.appStateSubscription) {
+      // Sockets are suspended in the background; on return, rejoin if needed and catch up
+      this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+        if (state !== 'active' || !this.caregiverId) return;
+        if (this.isConnected()) {
+          this.backfill();
+        } else {
+          this.connect();
+        }
+      });
+    }
+
+    this.connect();
+  }
+
+  stop(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.removeChannel();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.caregiverId = null;
+    this.patientIds = [];
+    this.reconnectAttempts = 0;
+    this.hasSubscribed = false;
+  }
+
+  isConnected(): boolean {
+    return this.channel?.state === REALTIME_CHANNEL_STATES.joined;
+  }
+
+  subscribe(listener: CaregiverFeedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private connect(): void {
+    this.removeChannel();
+    const caregiverId = this.caregiverId;
+    if (!caregiverId) return;
+
+    const alertFilter = `caregiver_id=eq.${caregiverId}`;
+    const channel = supabase
+      .channel(`caregiver-feed:${caregiverId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'caregiver_alerts', filter: alertFilter }, payload =>
+        this.handleAlert(payload.new as CaregiverAlert)
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'caregiver_alerts', filter: alertFilter }, payload =>
+        this.handleAlertUpdate(payload.new as CaregiverAlert)
+      );
+
+    if (this.patientIds.length > 0) {
+      const filter = `user_id=in.(${this.patientIds.join(',')})`;
+      channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'medication_administration_logs', filter }, payload =>
+          this.handleDoseLog(payload.new as DoseLog)
+        )
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'medication_administration_logs', filter }, payload =>
+          this.handleDoseLog(payload.new as DoseLog)
+        );
+    }
+
+    this.channel = channel;
+    channel.subscribe((status, error) => {
+      // Status changes of a channel that has since been replaced or removed
+      if (channel !== this.channel) return;
+
+      if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+        console.log('[CaregiverRealtimeService] Subscribed to caregiver feed');
+        this.reconnectAttempts = 0;
+        this.backfill();
+        this.hasSubscribed = true;
+      } else {
+        console.warn(`[CaregiverRealtimeService] Feed ${status.toLowerCase()}, reconnecting:`, error);
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private removeChannel(): void {
+    const channel = this.channel;
+    this.channel = null;
+    if (channel) {
+      supabase.removeChannel(channel);
+    }
+  }
+
+  // Exponential backoff, so a server outage is not met with a reconnect storm
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || !this.caregiverId) return;
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Alerts inserted while disconnected are still unacknowledged in the inbox
+  private backfill(): void {
+    NotificationService.checkAndShowPendingCaregiverAlerts(true);
+    if (this.hasSubscribed) {
+      this.emit({ kind: 'resync' });
+    }
+  }
+
+  private handleAlert(alert: CaregiverAlert): void {
+    NotificationService.showCaregiverAlert(alert);
+    this.emit({ kind: 'alert', patientId: alert.patient_id, alert });
+  }
+
+  // A push that could not be delivered moves its alert to the inbox, so it is shown now
+  private handleAlertUpdate(alert: CaregiverAlert): void {
+    NotificationService.showCaregiverAlert(alert);
+    this.emit({ kind: 'alert_update', patientId: alert.patient_id, alert });
+  }
+
+  private handleDoseLog(log: DoseLog): void {
+    this.emit({ kind: 'dose_log', patientId: log.user_id, log });
+  }
+
+  private emit(event: CaregiverFeedEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+export default CaregiverRealtimeService.getInstance();
@@ -0,0 +1,132 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { Medication, getScheduleRule, repositories } from '../lib/repositories';
+import { StockProjection, getRefillReminderDate, isLowStock, projectStock } from '../lib/inventory';
+import { deferPastQuietHours } from '../lib/notificationPlan';
+
+// Refill reminders and caregiver low-stock alerts. The stock count itself is kept
+// by database triggers; call refreshStock after a dose is logged or stock is edited.
+
+const REFILL_NOTIFICATION_PREFIX = 'refill-';
+
+// Run-out date a reminder was already shown for, so a reminder that is due is not repeated after every dose
+const REFILL_REMINDED_STORAGE_PREFIX = 'refillReminded:';
+
+export const LOW_STOCK_ALERT_TYPE = 'medication_low_stock';
+
+const getPatientName = async (patientId: string): Promise<string> => {
+  const { data } = await supabase
+    .from('profiles')
+    .select('full_name, first_name, last_name')
+    .eq('id', patientId)
+    .maybeSingle();
+  return data?.full_name || [data?.first_name, data?.last_name].filter(Boolean).join(' ') || 'Your patient';
+};
+
+export async function cancelRefillReminder(medicationId: string): Promise<void> {
+  await Notifications.cancelScheduledNotificationAsync(`${REFILL_NOTIFICATION_PREFIX}${medicationId}`).catch(() => undefined);
+}
+
+export async function scheduleRefillReminder(medication: Medication, projection: StockProjection): Promise<void> {
+  const identifier = `${REFILL_NOTIFICATION_PREFIX}${medication.id}`;
+  await cancelRefillReminder(medication.id);
+
+  // Refill reminders count as medication reminders and wait out quiet hours
+  const settings = await repositories.notificationSettings.get(medication.user_id);
+  if (!settings.medicationRemindersEnabled) return;
+
+  const dueDate = getRefillReminderDate(projection, medication.refill_reminder_days);
+  if (!dueDate || !projection.runOutDate) return;
+  const reminderDate = deferPastQuietHours(dueDate, settings);
+
+  const runOut = format(projection.runOutDate, 'yyyy-MM-dd');
+  const content = {
+    title: `💊 Time to refill ${medication.name}`,
+    body: `You have about ${projection.daysRemaining} days left. It runs out on ${format(projection.runOutDate, 'EEEE, MMM d')}.`,
+    sound: settings.soundEnabled ? 'default' : false,
+    data: { type: 'refill-reminder', medicationId: medication.id },
+  };
+
+  if (reminderDate > new Date()) {
+    await Notifications.scheduleNotificationAsync({
+      identifier,
+      content,
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: reminderDate },
+    });
+    return;
+  }
+
+  // Already inside the reminder window: remind once for this run-out date
+  const storageKey = `${REFILL_REMINDED_STORAGE_PREFIX}${medication.id}`;
+  if ((await AsyncStorage.getItem(storageKey)) === runOut) return;
+  await Notifications.scheduleNotificationAsync({ identifier, content, trigger: null });
+  await AsyncStorage.setItem(storageKey, runOut);
+}
+
+// Tells the caregivers on call once per stock-out; a refill re-arms the alert (see the inventory migration)
+async function alertCaregiversIfLow(medication: Medication, projection: StockProjection): Promise<boolean> {
+  if (!isLowStock(projection) || medication.low_stock_alerted_at) return false;
+  if (!(await repositories.medications.claimLowStockAlert(medication.id))) return false;
+
+  const patientName = await getPatientName(medication.user_id);
+  const message =
+    projection.status === 'out'
+      ? `⚠️ ${patientName} has run out of ${medication.name}.`
+      : `⚠️ ${patientName} has ${medication.stock_count} ${medication.name} left, about ${projection.daysRemaining} days.`;
+
+  const caregiverIds = await repositories.listAlertRecipientIds(medication.user_id);
+  await repositories.caregiverAlerts.insertMany(
+    caregiverIds.map(caregiverId => ({
+      patient_id: medication.user_id,
+      caregiver_id: caregiverId,
+      alert_type: LOW_STOCK_ALERT_TYPE,
+      alert_message: message,
+    }))
+  );
+  return true;
+}
+
+// Recomputes the projection for one medication and updates its reminder and alerts
+export async function refreshStock(medicationId: string): Promise<StockProjection | null> {
+  try {
+    const [medication, schedules] = await Promise.all([
+      repositories.medications.getById(medicationId),
+      repositories.schedules.listForMedication(medicationId),
+    ]);
+    if (!medication) return null;
+
+    const projection = projectStock(medication, schedules.map(getScheduleRule));
+    if (projection.status === 'untracked') {
+      await cancelRefillReminder(medicationId);
+      return projection;
+    }
+
+    await scheduleRefillReminder(medication, projection);
+    await alertCaregiversIfLow(medication, projection);
+    return projection;
+  } catch (error) {
+    console.error(`[InventoryService] Failed to refresh stock for ${medicationId}:`, error);
+    return null;
+  }
+}
+
+export async function refreshStockForSchedule(medicationScheduleId: string): Promise<StockProjection | null> {
+  try {
+    const schedule = await repositories.schedules.getById(medicationScheduleId);
+    return schedule ? refreshStock(schedule.medication_id) : null;
+  } catch (error) {
+    console.error(`[InventoryService] Failed to look up schedule ${medicationScheduleId}:`, error);
+    return null;
+  }
+}
+
+const InventoryService = {
+  refreshStock,
+  refreshStockForSchedule,
+  scheduleRefillReminder,
+  cancelRefillReminder,
+};
+
+export default InventoryService;
@@ -1,6 +1,8 @@
 import * as Notifications from 'expo-notifications';
 import { supabase } from '../lib/supabase';
 import NotificationService, { MedicationAlarm } from './NotificationService';
+import SosService from './SosService';
+import { DEFAULT_NOTIFICATION_SETTINGS, repositories } from '../lib/repositories';
 
 // Make TaskManager optional for better compatibility
 let TaskManager: any;
@@ -31,45 +33,22 @@ if (TaskManager) {
 // Global variable to track ongoing escalations (prevent race conditions)
 const ongoingEscalations = new Set<string>();
 
-// Check for medications that haven't been taken after 3 alarms
+// Ask the server to escalate this patient's unanswered doses. The same edge function
+// also runs on a schedule, so this is only an early trigger while the app is alive.
 async function checkMissedMedications(): Promise<void> {
   try {
-    const now = new Date();
-    const fifteenMinutesAgo = new Date(now.getTime() - (15 * 60 * 1000));
-
-    // Find alarm sequences where 3rd alarm was sent but patient hasn't responded
-    const { data: missedAlarms } = await supabase
-      .from('medication_alarms')
-      .select(`
-        *,
-        medication_schedules!inner(
-          id,
-          medications!inner(name)
-        )
-      `)
-      .eq('alarm_attempt', 3)
-      .eq('patient_responded', false)
-      .eq('caregiver_alerted', false)
-      .lt('alarm_sent_at', fifteenMinutesAgo.toISOString());
-
-    if (!missedAlarms || missedAlarms.length === 0) {
+    const { data, error } = await supabase.functions.invoke('escalate-missed-doses', {
+      body: {},
+    });
+
+    if (error) {
+      console.error('Error requesting missed medication escalation:', error);
       return;
     }
 
-    // Alert caregivers for each missed medication
-    for (const alarm of missedAlarms) {
-      const medicationAlarm: MedicationAlarm = {
-        id: alarm.id,
-        patientId: alarm.patient_id,
-        medicationScheduleId: alarm.medication_schedule_id,
-        medicationName: alarm.medication_schedules.medications.name,
-        scheduledTime: new Date(alarm.scheduled_time),
-        attempt: 3,
-      };
-
-      await NotificationService.alertCaregivers(medicationAlarm);
+    if (data?.alerted > 0) {
+      console.log(`[MedicationAlarmHandler] Server escalated ${data.alerted} missed dose alert(s)`);
     }
-
   } catch (error) {
     console.error('Error checking missed medications:', error);
   }
@@ -94,11 +73,18 @@ export async function handleNotificationResponse(response: Notifications.Notific
 
     switch (response.actionIdentifier) {
       case 'MARK_TAKEN':
-        await NotificationService.markMedicationTaken(medicationScheduleId);
+        await NotificationService.markMedicationTaken(medicationScheduleId, data.scheduledTime);
         break;
       
-      case 'SNOOZE':
-        await snoozeAlarm(medicationScheduleId, 5); // 5 minute snooze
+      case 'SNOOZE': {
+        const { snoozeMinutes } = await NotificationService.getUserSettings(data.patientId);
+        await snoozeAlarm(data, snoozeMinutes);
+        break;
+      }
+
+      case 'SOS':
+        // Opens the app on the hold-to-confirm dialog; nothing is sent from here
+        SosService.requestConfirmation();
         break;
       
       case Notifications.DEFAULT_ACTION_IDENTIFIER:
@@ -106,7 +92,7 @@ export async function handleNotificationResponse(response: Notifications.Notific
         // This could open the medication screen
         break;
     }
-  } else if (data?.type === 'caregiver-alert') {
+  } else if (data?.type === 'caregiver-alert' || data?.type === 'caregiver-alert-local') {
     // Handle caregiver alert responses
     await handleCaregiverResponse(data, response.actionIdentifier);
   }
@@ -225,8 +211,9 @@ async function triggerEscalationDirectly(medicationId: string, medicationName: s
 }
 
 // Snooze alarm for specified minutes
-async function snoozeAlarm(medicationScheduleId: string, minutes: number): Promise<void> {
+async function snoozeAlarm(alarmData: Record<string, any>, minutes: number): Promise<void> {
   try {
+    const { medicationScheduleId, patientId, scheduledTime } = alarmData;
     const snoozeTime = new Date(Date.now() + (minutes * 60 * 1000));
     
     await Notifications.scheduleNotificationAsync({
@@ -237,6 +224,8 @@ async function snoozeAlarm(medicationScheduleId: string, minutes: number): Promi
         data: {
           type: 'medication-alarm',
           medicationScheduleId,
+          patientId,
+          scheduledTime,
           snoozed: true,
         },
       },
@@ -251,28 +240,26 @@ async function snoozeAlarm(medicationScheduleId: string, minutes: number): Promi
   }
 }
 
-// Handle caregiver response to alerts
+// Handle caregiver response to alerts. Opening the alert or calling the patient
+// acknowledges it for the whole circle; marking the dose taken resolves it.
 async function handleCaregiverResponse(data: any, actionIdentifier: string): Promise<void> {
   try {
     switch (actionIdentifier) {
+      case Notifications.DEFAULT_ACTION_IDENTIFIER:
       case 'CALL_PATIENT':
-        // This would trigger a phone call or open calling app
-        console.log('Caregiver wants to call patient');
+        // Calling itself would open the phone app once the patient's number is known
+        if (data.alertId) {
+          await NotificationService.respondToCaregiverAlert(data.alertId, 'acknowledged');
+        }
         break;
       
       case 'MARK_TAKEN':
         // Caregiver marks medication as taken on behalf of patient
-        await NotificationService.markMedicationTaken(data.medicationScheduleId);
+        await NotificationService.markMedicationTaken(data.medicationScheduleId, data.scheduledTime);
         
-        // Log caregiver intervention
-        await supabase
-          .from('caregiver_alerts')
-          .update({
-            acknowledged: true,
-            acknowledged_at: new Date().toISOString(),
-          })
-          .eq('medication_schedule_id', data.medicationScheduleId)
-          .eq('acknowledged', false);
+        if (data.alertId) {
+          await NotificationService.respondToCaregiverAlert(data.alertId, 'resolved', 'Dose marked as taken by caregiver');
+        }
         break;
       
       case 'EMERGENCY':
@@ -289,16 +276,15 @@ async function handleCaregiverResponse(data: any, actionIdentifier: string): Pro
 // Handle emergency response
 async function handleEmergencyResponse(data: any): Promise<void> {
   try {
-    // Log emergency situation
-    await supabase
-      .from('caregiver_alerts')
-      .insert({
-        patient_id: data.patientId,
-        caregiver_id: data.caregiverId,
-        medication_schedule_id: null, // Always null to avoid foreign key issues
-        alert_type: 'emergency',
-        alert_message: 'Emergency response triggered by caregiver',
-      });
+    // Log emergency situation; it also goes out by text and email if the caregiver chose those
+    const alertIds = await repositories.caregiverAlerts.insertMany([{
+      patient_id: data.patientId,
+      caregiver_id: data.caregiverId,
+      medication_schedule_id: null, // Always null to avoid foreign key issues
+      alert_type: 'emergency',
+      alert_message: 'Emergency response triggered by caregiver',
+    }]);
+    await NotificationService.sendAlertMessages(alertIds);
 
     // Could trigger additional emergency protocols here
     // - Contact additional emergency contacts
@@ -310,9 +296,17 @@ async function handleEmergencyResponse(data: any): Promise<void> {
   }
 }
 
-// Initialize notification categories with actions
-export async function initializeNotificationCategories(): Promise<void> {
+// Initialize notification categories with actions. The snooze button shows the
+// patient's snooze length, so this runs again whenever that setting changes.
+export async function initializeNotificationCategories(snoozeMinutes?: number): Promise<void> {
   try {
+    if (snoozeMinutes === undefined) {
+      const { data: { session } } = await supabase.auth.getSession();
+      snoozeMinutes = session
+        ? (await NotificationService.getUserSettings(session.user.id)).snoozeMinutes
+        : DEFAULT_NOTIFICATION_SETTINGS.snoozeMinutes;
+    }
+
     // Medication reminder category with actions
     await Notifications.setNotificationCategoryAsync('medication-reminder', [
       {
@@ -324,11 +318,18 @@ export async function initializeNotificationCategories(): Promise<void> {
       },
       {
         identifier: 'SNOOZE',
-        buttonTitle: '⏰ Snooze 5min',
+        buttonTitle: `⏰ Snooze ${snoozeMinutes}min`,
         options: {
           opensAppToForeground: false,
         },
       },
+      {
+        identifier: 'SOS',
+        buttonTitle: '🆘 SOS',
+        options: {
+          opensAppToForeground: true,
+        },
+      },
     ]);
 
     // Caregiver alert category with actions
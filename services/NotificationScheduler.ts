@@ -0,0 +1,320 @@
+import * as Notifications from 'expo-notifications';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { addHours, addMinutes, format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { expandDoses } from '../lib/adherence';
+import { MedicationAlarmRow, NotificationSettings, ScheduledDose, getDoseKey, repositories } from '../lib/repositories';
+import {
+  DEFAULT_SCHEDULING_WINDOW_HOURS,
+  NotificationFingerprint,
+  PLANNED_NOTIFICATION_PREFIX,
+  PlannedNotification,
+  describeAppointmentReminder,
+  diffNotifications,
+  planNotifications,
+} from '../lib/notificationPlan';
+import {
+  EscalationPolicy,
+  buildDefaultEscalationPolicy,
+  getEscalationSpan,
+  getEscalationStepTime,
+  getEscalationTemplateValues,
+  isCaregiverStep,
+  renderEscalationTemplate,
+  resolveEscalationPolicy,
+} from '../lib/escalationPolicy';
+import NotificationService, { MedicationAlarm } from './NotificationService';
+
+// Keeps the device's pending reminders in line with the database: on start, on every
+// return to the foreground and after local edits, the next hours of doses and
+// appointment reminders are planned and diffed against what the OS has scheduled.
+
+interface DesiredNotification extends NotificationFingerprint {
+  fireAt: Date;
+  content: Notifications.NotificationContentInput;
+}
+
+// Stored in the notification's data so the next sync can tell whether it is still current
+const withSignature = (
+  identifier: string,
+  fireAt: Date,
+  content: Notifications.NotificationContentInput
+): DesiredNotification => {
+  const signature = JSON.stringify([content.title, content.body, content.sound ?? null, fireAt.getTime()]);
+  return { identifier, signature, fireAt, content: { ...content, data: { ...content.data, signature } } };
+};
+
+// Reminders scheduled by earlier versions of the app, before the scheduler owned them
+const isLegacyReminder = (data: Record<string, any> | undefined): boolean =>
+  data?.type === 'escalation-check' || (!data?.type && (!!data?.medicationId || !!data?.appointmentId));
+
+const isManagedNotification = (request: Notifications.NotificationRequest): boolean =>
+  request.identifier.startsWith(PLANNED_NOTIFICATION_PREFIX) || isLegacyReminder(request.content.data);
+
+const alarmRowKey = (scheduleId: string | null, scheduledTime: Date | string, attempt: number): string =>
+  `${scheduleId}|${new Date(scheduledTime).getTime()}|${attempt}`;
+
+type AlarmRowFields = Pick<MedicationAlarmRow, 'alarm_sent_at' | 'escalation_target' | 'urgency' | 'alert_message'>;
+
+// A pending row whose step has changed (a new policy or settings) is replaced
+const isSameStep = (row: MedicationAlarmRow, fields: AlarmRowFields): boolean =>
+  row.escalation_target === fields.escalation_target &&
+  row.urgency === fields.urgency &&
+  row.alert_message === fields.alert_message &&
+  !!row.alarm_sent_at &&
+  new Date(row.alarm_sent_at).getTime() === new Date(fields.alarm_sent_at!).getTime();
+
+const toAlarm = (dose: ScheduledDose, patientId: string, identifier: string): MedicationAlarm => ({
+  id: identifier,
+  patientId,
+  medicationScheduleId: dose.scheduleId,
+  medicationName: dose.medicationName,
+  scheduledTime: dose.intendedDoseTime,
+  attempt: 1,
+  dosage: dose.dosage,
+});
+
+class NotificationScheduler {
+  private static instance: NotificationScheduler;
+  private syncPromise: Promise<void> | null = null;
+  private resyncRequested = false;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private authSubscription: { unsubscribe: () => void } | null = null;
+
+  static getInstance(): NotificationScheduler {
+    if (!NotificationScheduler.instance) {
+      NotificationScheduler.instance = new NotificationScheduler();
+    }
+    return NotificationScheduler.instance;
+  }
+
+  start(): void {
+    if (this.appStateSubscription) {
+      return;
+    }
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.sync();
+      }
+    });
+
+    // A new sign-in plans that user's reminders; signing out clears them
+    const { data } = supabase.auth.onAuthStateChange(event => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        this.sync();
+      }
+    });
+    this.authSubscription = data.subscription;
+
+    this.sync();
+  }
+
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.authSubscription?.unsubscribe();
+    this.authSubscription = null;
+  }
+
+  // Overlapping calls share one run; a call made while a run is in progress
+  // triggers one more pass so it sees the latest data.
+  sync(): Promise<void> {
+    if (this.syncPromise) {
+      this.resyncRequested = true;
+      return this.syncPromise;
+    }
+
+    this.syncPromise = (async () => {
+      do {
+        this.resyncRequested = false;
+        try {
+          await this.reconcile();
+        } catch (error) {
+          // Offline or a failed query: leave whatever is pending in place until the next sync
+          console.error('[NotificationScheduler] Sync failed:', error);
+        }
+      } while (this.resyncRequested);
+    })().finally(() => {
+      this.syncPromise = null;
+    });
+
+    return this.syncPromise;
+  }
+
+  private async reconcile(): Promise<void> {
+    const { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') return;
+
+    // The stored session, so being offline is not mistaken for being signed out
+    const { data: { session } } = await supabase.auth.getSession();
+    const desired = session ? await this.planForUser(session.user.id) : [];
+
+    const pending = (await Notifications.getAllScheduledNotificationsAsync())
+      .filter(isManagedNotification)
+      .map(request => ({
+        identifier: request.identifier,
+        signature: typeof request.content.data?.signature === 'string' ? request.content.data.signature : null,
+      }));
+
+    const { toAdd, toCancel } = diffNotifications(desired, pending);
+
+    for (const identifier of toCancel) {
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+    }
+    for (const notification of toAdd) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: notification.identifier,
+        content: notification.content,
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: notification.fireAt },
+      });
+    }
+
+    console.log(
+      `[NotificationScheduler] ${desired.length} planned, ${toAdd.length} scheduled, ${toCancel.length} cancelled`
+    );
+  }
+
+  private async planForUser(patientId: string): Promise<DesiredNotification[]> {
+    const now = new Date();
+    const [settings, { data: profile }, schedules] = await Promise.all([
+      NotificationService.getUserSettings(patientId),
+      supabase.from('profiles').select('role, first_name, last_name').eq('id', patientId).maybeSingle(),
+      repositories.schedules.listWithMedications(patientId),
+    ]);
+    // Only patients fill in the daily check-in
+    const preferences = { ...settings, checkinRemindersEnabled: settings.checkinRemindersEnabled && profile?.role !== 'caregiver' };
+    const patientName = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || 'Patient';
+
+    const policies = new Map<string, EscalationPolicy>(
+      schedules.map(schedule => [schedule.medication_id, resolveEscalationPolicy(schedule.medications.escalation_policy, settings)])
+    );
+    const defaultPolicy = buildDefaultEscalationPolicy(settings);
+
+    // Doses due a while ago may still have escalation steps ahead of them
+    const lookbackMinutes = Math.max(getEscalationSpan(defaultPolicy), ...[...policies.values()].map(getEscalationSpan));
+    const from = addMinutes(now, -lookbackMinutes);
+    const to = addHours(now, DEFAULT_SCHEDULING_WINDOW_HOURS);
+
+    const [appointments, logs, alarmRows, checkins] = await Promise.all([
+      repositories.appointments.listBetween(patientId, format(now, 'yyyy-MM-dd'), format(addHours(to, 24), 'yyyy-MM-dd')),
+      repositories.doseLogs.listForDoseWindow(patientId, from, to),
+      repositories.alarms.listBetween(patientId, from, to),
+      preferences.checkinRemindersEnabled
+        ? repositories.checkins.listBetween(patientId, format(now, 'yyyy-MM-dd'), format(to, 'yyyy-MM-dd'))
+        : Promise.resolve([]),
+    ]);
+
+    const doses = expandDoses(schedules, from, to).filter(
+      dose => dose.intendedDoseTime >= from && dose.intendedDoseTime <= to
+    );
+
+    const medicationBySchedule = new Map(schedules.map(schedule => [schedule.id, schedule.medication_id]));
+    const answeredDoseKeys = new Set([
+      ...logs
+        .filter(log => !!log.intended_dose_time)
+        .map(log => getDoseKey(log.medication_id, log.intended_dose_time!)),
+      ...alarmRows
+        .filter(row => row.patient_responded && row.medication_schedule_id && medicationBySchedule.has(row.medication_schedule_id))
+        .map(row => getDoseKey(medicationBySchedule.get(row.medication_schedule_id!)!, row.scheduled_time)),
+    ]);
+
+    // Alarm rows stay in step even with medication reminders off, so caregivers still hear about missed doses
+    await this.reconcileAlarmRows(patientId, patientName, doses, answeredDoseKeys, alarmRows, policies);
+
+    const checkedInDates = new Set(checkins.map(checkin => checkin.checkin_date));
+    return planNotifications({ doses, appointments, answeredDoseKeys, checkedInDates, preferences, policies, now }).map(notification =>
+      withSignature(notification.identifier, notification.fireAt, this.buildContent(notification, patientId, settings))
+    );
+  }
+
+  // The escalate-missed-doses job works from medication_alarms rows, so every
+  // unanswered dose in the window needs one row per step of its escalation policy,
+  // and pending rows of doses or steps that were edited away must go before they
+  // escalate to caregivers. Caregiver steps carry their message, rendered here so
+  // the dose time reads in the patient's local time.
+  private async reconcileAlarmRows(
+    patientId: string,
+    patientName: string,
+    doses: ScheduledDose[],
+    answeredDoseKeys: Set<string>,
+    alarmRows: MedicationAlarmRow[],
+    policies: Map<string, EscalationPolicy>
+  ): Promise<void> {
+    const desired = new Map(
+      doses.flatMap(dose =>
+        (policies.get(dose.medicationId)?.steps ?? []).map((step, index) => {
+          const values = getEscalationTemplateValues(dose.medicationName, dose.dosage, patientName, format(dose.intendedDoseTime, 'h:mm a'));
+          const fields: AlarmRowFields = {
+            alarm_sent_at: getEscalationStepTime(dose.intendedDoseTime, step).toISOString(),
+            escalation_target: step.target,
+            urgency: step.urgency,
+            alert_message: isCaregiverStep(step) ? renderEscalationTemplate(step.message, values) : null,
+          };
+          return [alarmRowKey(dose.scheduleId, dose.intendedDoseTime, index + 1), { dose, stepNumber: index + 1, fields }] as const;
+        })
+      )
+    );
+    const existing = new Map(alarmRows.map(row => [alarmRowKey(row.medication_schedule_id, row.scheduled_time, row.alarm_attempt), row]));
+
+    const stale = alarmRows.filter(row => {
+      if (row.patient_responded || row.caregiver_alerted) return false;
+      const step = desired.get(alarmRowKey(row.medication_schedule_id, row.scheduled_time, row.alarm_attempt));
+      return !step || !isSameStep(row, step.fields);
+    });
+    const staleIds = new Set(stale.map(row => row.id));
+
+    const missing = [...desired.entries()]
+      .filter(([key, { dose }]) => {
+        const row = existing.get(key);
+        return !answeredDoseKeys.has(dose.doseKey) && (!row || staleIds.has(row.id));
+      })
+      .map(([, { dose, stepNumber, fields }]) => ({
+        patient_id: patientId,
+        medication_schedule_id: dose.scheduleId,
+        scheduled_time: dose.intendedDoseTime.toISOString(),
+        alarm_attempt: stepNumber,
+        ...fields,
+      }));
+
+    await repositories.alarms.deletePending(stale.map(row => row.id));
+    await repositories.alarms.insertMany(missing);
+  }
+
+  private buildContent(
+    notification: PlannedNotification,
+    patientId: string,
+    settings: NotificationSettings
+  ): Notifications.NotificationContentInput {
+    switch (notification.kind) {
+      case 'dose_alarm':
+        return NotificationService.buildAlarmContent(
+          { ...toAlarm(notification.dose, patientId, notification.identifier), attempt: notification.stepNumber },
+          notification.step,
+          settings,
+          notification.fireAt
+        );
+      case 'caregiver_check':
+        return NotificationService.buildCaregiverCheckContent(
+          { ...toAlarm(notification.dose, patientId, notification.identifier), attempt: notification.stepNumber },
+          notification.step
+        );
+      case 'appointment_reminder':
+        return {
+          title: '🩺 Appointment Reminder',
+          body: describeAppointmentReminder(notification.appointment, notification.appointmentTime, notification.fireAt),
+          sound: settings.soundEnabled ? 'default' : false,
+          data: { type: 'appointment-reminder', appointmentId: notification.appointment.id },
+        };
+      case 'checkin_reminder':
+        return {
+          title: '📝 Daily Check-in',
+          body: 'How are you feeling today? Take a minute to fill in your health check-in.',
+          sound: settings.soundEnabled ? 'default' : false,
+          data: { type: 'checkin-reminder' },
+        };
+    }
+  }
+}
+
+export default NotificationScheduler.getInstance();
@@ -1,6 +1,31 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
 import { supabase } from '../lib/supabase';
+import OfflineSyncService, { DOSE_RESPONSE_WINDOW_MS } from './OfflineSyncService';
+import { LOW_STOCK_ALERT_TYPE } from './InventoryService';
+import {
+  CaregiverAlert,
+  CaregiverAlertResponse,
+  CaregiverAlertStatus,
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationSettings,
+  repositories,
+} from '../lib/repositories';
+import { Json } from '../lib/database.types';
+import { HEALTH_RULE_ALERT_TYPE } from '../lib/alertRules';
+import { isInQuietHours } from '../lib/notificationPlan';
+import {
+  ESCALATION_TARGET_LABELS,
+  EscalationPolicy,
+  EscalationStep,
+  EscalationUrgency,
+  buildDefaultEscalationPolicy,
+  getEscalationTemplateValues,
+  isCaregiverStep,
+  renderEscalationTemplate,
+} from '../lib/escalationPolicy';
 
 // Make TaskManager optional for better compatibility
 let TaskManager: any;
@@ -26,33 +51,24 @@ export interface MedicationAlarm {
   medicationScheduleId: string;
   medicationName: string;
   scheduledTime: Date;
-  attempt: 1 | 2 | 3;
+  attempt: number; // Step number in the dose's escalation policy
+  dosage?: string;
 }
 
-export interface NotificationSettings {
-  soundEnabled: boolean;
-  vibrationEnabled: boolean;
-  reminderSound: string;
-  maxAttempts: number;
-  snoozeMinutes: number;
-  caregiverAlertDelay: number;
-}
+export type { NotificationSettings };
+
+// caregiver_alerts types the caregiver device picks up and shows as local notifications
+const CAREGIVER_INBOX_ALERT_TYPES = ['medication_missed_local', 'medication_interaction', LOW_STOCK_ALERT_TYPE, HEALTH_RULE_ALERT_TYPE];
 
-const DEFAULT_SETTINGS: NotificationSettings = {
-  soundEnabled: true,
-  vibrationEnabled: true,
-  reminderSound: 'default',
-  maxAttempts: 3,
-  snoozeMinutes: 5,
-  caregiverAlertDelay: 15,
-};
+// Identifies this installation in the user_devices registry
+const DEVICE_ID_STORAGE_KEY = 'device_id';
 
 class NotificationService {
   private static instance: NotificationService;
   private pushToken: string | null = null;
-  private settings: NotificationSettings = DEFAULT_SETTINGS;
-  private caregiverPollingInterval: NodeJS.Timeout | null = null;
-  private isPollingActive: boolean = false;
+
+  // Alerts shown on this device; the live feed and its back-fill can both deliver one
+  private shownCaregiverAlertIds = new Set<string>();
 
   // Global variable to track ongoing caregiver alerts (prevent race conditions)
   private ongoingCaregiverAlerts = new Set<string>();
@@ -110,7 +126,9 @@ class NotificationService {
         console.log('[NotificationService] Push token saved to database');
       } catch (tokenError) {
         console.warn('[NotificationService] Failed to get push token, but continuing with local notifications:', tokenError);
-        // Continue without push token - local notifications will still work
+        // Continue without push token - local notifications will still work; the device
+        // is still registered so it is listed (and kept from being pruned) in Profile → Devices
+        await this.registerDevice(null).catch(error => console.warn('[NotificationService] Failed to register device:', error));
       }
 
       console.log('[NotificationService] Notification service initialized successfully');
@@ -121,103 +139,86 @@ class NotificationService {
     }
   }
 
-  // Save push token to user's notification settings
+  // Register this device's push token; alerts fan out to every enabled device of the user
   private async savePushToken(): Promise<void> {
     if (!this.pushToken) return;
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
-
-      await supabase
-        .from('notification_settings')
-        .upsert({
-          user_id: user.id,
-          expo_push_token: this.pushToken,
-          updated_at: new Date().toISOString(),
-        }, {
-          onConflict: 'user_id'
-        });
+      await this.registerDevice(this.pushToken);
     } catch (error) {
       console.error('Failed to save push token:', error);
     }
   }
 
-  // Schedule medication alarm sequence (3 alarms + caregiver alert)
-  async scheduleMedicationAlarms(alarm: MedicationAlarm, isTestMode: boolean = false): Promise<void> {
-    const scheduleTime = alarm.scheduledTime;
-    const settings = await this.getUserSettings(alarm.patientId);
-
-    // For test mode, use seconds instead of minutes for quick testing
-    const snoozeInterval = isTestMode ? 10 : (settings.snoozeMinutes * 60); // 10 seconds vs 5 minutes
-    const caregiverDelay = isTestMode ? 30 : (settings.caregiverAlertDelay * 60); // 30 seconds vs 15 minutes
-
-    console.log(`[NotificationService] Scheduling 3-step alarm for ${alarm.medicationName} starting at ${scheduleTime.toISOString()}`);
-    console.log(`[NotificationService] Test mode: ${isTestMode ? 'ENABLED (using seconds)' : 'DISABLED (using minutes)'}`);
-    console.log(`[NotificationService] Current time: ${new Date().toISOString()}`);
-    console.log(`[NotificationService] Settings - snooze: ${isTestMode ? snoozeInterval + 's' : settings.snoozeMinutes + 'min'}, caregiver delay: ${isTestMode ? caregiverDelay + 's' : settings.caregiverAlertDelay + 'min'}`);
-
-    // Calculate exact times for each alarm
-    const firstAlarmTime = new Date(scheduleTime.getTime());
-    const secondAlarmTime = new Date(scheduleTime.getTime() + (snoozeInterval * 1000));
-    const thirdAlarmTime = new Date(scheduleTime.getTime() + (snoozeInterval * 2 * 1000));
-    const caregiverCheckTime = new Date(scheduleTime.getTime() + (caregiverDelay * 1000));
+  // Generated once per installation, so a reinstall shows up as a new device
+  async getDeviceId(): Promise<string> {
+    let deviceId = await AsyncStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      deviceId = `${Platform.OS}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+      await AsyncStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+    }
+    return deviceId;
+  }
 
-    console.log(`[NotificationService] Alarm times calculated:
-      1st alarm: ${firstAlarmTime.toISOString()} (in ${Math.round((firstAlarmTime.getTime() - Date.now()) / 1000)}s)
-      2nd alarm: ${secondAlarmTime.toISOString()} (in ${Math.round((secondAlarmTime.getTime() - Date.now()) / 1000)}s)
-      3rd alarm: ${thirdAlarmTime.toISOString()} (in ${Math.round((thirdAlarmTime.getTime() - Date.now()) / 1000)}s)
-      Caregiver check: ${caregiverCheckTime.toISOString()} (in ${Math.round((caregiverCheckTime.getTime() - Date.now()) / 1000)}s)`);
+  private async registerDevice(pushToken: string | null): Promise<void> {
+    const platform = Platform.OS === 'ios' || Platform.OS === 'android' || Platform.OS === 'web' ? Platform.OS : 'unknown';
+    await repositories.devices.register({
+      deviceId: await this.getDeviceId(),
+      platform,
+      deviceName: Constants.deviceName ?? null,
+      pushToken,
+    });
+  }
 
-    // Schedule only the 'Medication Reminder' notification for the initial alert
-    // (Do not schedule the 'First Reminder' notification)
-    // The explicit 'Medication Reminder' notification is scheduled elsewhere (e.g., MedicationFormScreen)
+  // Schedule the follow-up steps of a dose's escalation policy; the first reminder is
+  // scheduled by the caller. Without a policy the default one from the settings is used.
+  async scheduleMedicationAlarms(alarm: MedicationAlarm, isTestMode: boolean = false, policy?: EscalationPolicy): Promise<void> {
+    const scheduleTime = alarm.scheduledTime;
+    const settings = await this.getUserSettings(alarm.patientId);
+    const steps = (policy ?? buildDefaultEscalationPolicy(settings)).steps;
 
-    const secondAlarm = { ...alarm, attempt: 2 as const };
-    await this.scheduleAlarm(secondAlarm, 2, secondAlarmTime, settings);
+    // For test mode, every policy minute lasts two seconds (a 5 minute snooze takes 10 seconds)
+    const secondsPerMinute = isTestMode ? 2 : 60;
+    const stepTime = (step: EscalationStep): Date =>
+      new Date(scheduleTime.getTime() + step.delayMinutes * secondsPerMinute * 1000);
 
-    const thirdAlarm = { ...alarm, attempt: 3 as const };
-    await this.scheduleAlarm(thirdAlarm, 3, thirdAlarmTime, settings);
+    if (__DEV__) {
+      console.log(`[NotificationService] Scheduling ${steps.length}-step escalation for ${alarm.medicationName} starting at ${scheduleTime.toISOString()}${isTestMode ? ' (test mode)' : ''}`);
+    }
 
-    // Schedule caregiver check
-    await this.scheduleCaregiverCheck(alarm, caregiverCheckTime);
+    for (const [index, step] of steps.entries()) {
+      const stepAlarm = { ...alarm, attempt: index + 1 };
+      if (isCaregiverStep(step)) {
+        await this.scheduleCaregiverCheck(stepAlarm, step, stepTime(step));
+        await this.logAlarmAttempt(stepAlarm, step, stepTime(step));
+      } else if (index > 0) {
+        await this.scheduleAlarm(stepAlarm, step, stepTime(step), settings);
+      }
+    }
 
-    console.log(`[NotificationService] ✅ All alarms scheduled successfully for ${alarm.medicationName}`);
+    if (__DEV__) {
+      console.log(`[NotificationService] ✅ All alarms scheduled successfully for ${alarm.medicationName}`);
+    }
   }
 
   // Schedule individual alarm with escalating urgency
   private async scheduleAlarm(
     alarm: MedicationAlarm, 
-    attempt: 1 | 2 | 3, 
+    step: EscalationStep, 
     time: Date, 
     settings: NotificationSettings
   ): Promise<void> {
-    const urgencyLevel = this.getUrgencyLevel(attempt);
-    const notificationId = `medication-${alarm.medicationScheduleId}-${attempt}`;
+    const notificationId = `medication-${alarm.medicationScheduleId}-${alarm.attempt}`;
 
     // Calculate seconds until this alarm should fire (like working medication notifications)
     const secondsUntilTrigger = Math.max(1, Math.round((time.getTime() - Date.now()) / 1000));
 
-    console.log(`[NotificationService] Scheduling alarm ${attempt} for ${time.toISOString()} (in ${secondsUntilTrigger} seconds)`);
-
     try {
       await Notifications.scheduleNotificationAsync({
         identifier: notificationId,
-        content: {
-          title: this.getAlarmTitle(attempt, alarm.medicationName),
-          body: this.getAlarmBody(attempt, alarm.medicationName),
-          sound: settings.soundEnabled ? urgencyLevel.sound : false,
-          vibrate: settings.vibrationEnabled ? urgencyLevel.vibration : undefined,
-          priority: urgencyLevel.priority,
-          categoryIdentifier: 'medication-reminder',
-          data: {
-            type: 'medication-alarm',
-            medicationScheduleId: alarm.medicationScheduleId,
-            patientId: alarm.patientId,
-            attempt,
-            alarmId: alarm.id,
-          },
-        },
+        content: this.buildAlarmContent(alarm, step, settings, time),
         trigger: {
           seconds: secondsUntilTrigger,
           repeats: false,
@@ -225,32 +226,75 @@ class NotificationService {
         },
       });
 
-      console.log(`[NotificationService] ✅ Alarm ${attempt} scheduled successfully for ${secondsUntilTrigger} seconds from now`);
-
       // Log alarm in database
-      await this.logAlarmAttempt(alarm, attempt, time);
+      await this.logAlarmAttempt(alarm, step, time);
 
     } catch (error) {
-      console.error(`[NotificationService] ❌ Failed to schedule alarm ${attempt}:`, error);
+      console.error(`[NotificationService] ❌ Failed to schedule alarm ${alarm.attempt}:`, error);
     }
   }
 
+  // Content of one patient step of a dose's escalation policy (also used by NotificationScheduler).
+  // Reminders that fire during quiet hours are still shown, but silently.
+  buildAlarmContent(
+    alarm: MedicationAlarm,
+    step: EscalationStep,
+    settings: NotificationSettings,
+    fireAt: Date = alarm.scheduledTime
+  ): Notifications.NotificationContentInput {
+    const urgencyLevel = this.getUrgencyLevel(step.urgency);
+    const muted = isInQuietHours(fireAt, settings);
+    const values = getEscalationTemplateValues(alarm.medicationName, alarm.dosage, 'You', '');
+    return {
+      title: renderEscalationTemplate(step.title, values),
+      body: renderEscalationTemplate(step.message, values),
+      sound: settings.soundEnabled && !muted ? urgencyLevel.sound : false,
+      vibrate: settings.vibrationEnabled && !muted ? urgencyLevel.vibration : undefined,
+      priority: urgencyLevel.priority,
+      categoryIdentifier: 'medication-reminder',
+      data: {
+        type: 'medication-alarm',
+        medicationScheduleId: alarm.medicationScheduleId,
+        patientId: alarm.patientId,
+        attempt: alarm.attempt,
+        alarmId: alarm.id,
+        scheduledTime: alarm.scheduledTime.toISOString(),
+      },
+    };
+  }
+
+  buildCaregiverCheckContent(alarm: MedicationAlarm, step: EscalationStep): Notifications.NotificationContentInput {
+    const recipients = ESCALATION_TARGET_LABELS[step.target].toLowerCase();
+    return {
+      title: '🚨 CAREGIVER ALERT CHECK',
+      body: `Checking if ${alarm.medicationName} was taken - will alert ${recipients} if not`,
+      data: {
+        type: 'caregiver-check',
+        medicationScheduleId: alarm.medicationScheduleId,
+        patientId: alarm.patientId,
+        alarmId: alarm.id,
+        medicationName: alarm.medicationName,
+        scheduledTime: alarm.scheduledTime.toISOString(),
+      },
+    };
+  }
+
   // Get escalating urgency settings
-  private getUrgencyLevel(attempt: 1 | 2 | 3) {
-    switch (attempt) {
-      case 1:
+  private getUrgencyLevel(urgency: EscalationUrgency) {
+    switch (urgency) {
+      case 'normal':
         return {
           sound: 'default',
           vibration: [0, 200, 100, 200],
           priority: Notifications.AndroidNotificationPriority.DEFAULT,
         };
-      case 2:
+      case 'high':
         return {
           sound: 'default',
           vibration: [0, 500, 200, 500, 200, 500],
           priority: Notifications.AndroidNotificationPriority.HIGH,
         };
-      case 3:
+      case 'critical':
         return {
           sound: 'default',
           vibration: [0, 1000, 500, 1000, 500, 1000],
@@ -259,32 +303,8 @@ class NotificationService {
     }
   }
 
-  // Generate alarm titles based on attempt
-  private getAlarmTitle(attempt: 1 | 2 | 3, medicationName: string): string {
-    switch (attempt) {
-      case 1:
-        return `💊 First Reminder`;
-      case 2:
-        return `🔔 Second Reminder`;
-      case 3:
-        return `🚨 LAST REMINDER - URGENT`;
-    }
-  }
-
-  // Generate alarm body text
-  private getAlarmBody(attempt: 1 | 2 | 3, medicationName: string): string {
-    switch (attempt) {
-      case 1:
-        return `This is your first reminder to take your ${medicationName}`;
-      case 2:
-        return `This is your second reminder to take your ${medicationName}`;
-      case 3:
-        return `LAST REMINDER: You need to take your ${medicationName} NOW or contact your caregiver immediately`;
-    }
-  }
-
   // Log alarm attempt in database
-  private async logAlarmAttempt(alarm: MedicationAlarm, attempt: number, sentAt: Date): Promise<void> {
+  private async logAlarmAttempt(alarm: MedicationAlarm, step: EscalationStep, sentAt: Date): Promise<void> {
     try {
       await supabase
         .from('medication_alarms')
@@ -292,17 +312,19 @@ class NotificationService {
           patient_id: alarm.patientId,
           medication_schedule_id: alarm.medicationScheduleId,
           scheduled_time: alarm.scheduledTime.toISOString(),
-          alarm_attempt: attempt,
+          alarm_attempt: alarm.attempt,
           alarm_sent_at: sentAt.toISOString(),
+          escalation_target: step.target,
+          urgency: step.urgency,
         });
     } catch (error) {
       console.error('Failed to log alarm attempt:', error);
     }
   }
 
-  // Schedule caregiver check after 3rd alarm
-  private async scheduleCaregiverCheck(alarm: MedicationAlarm, checkTime: Date): Promise<void> {
-    const checkId = `caregiver-check-${alarm.medicationScheduleId}`;
+  // Schedule a check for a caregiver step of the policy
+  private async scheduleCaregiverCheck(alarm: MedicationAlarm, step: EscalationStep, checkTime: Date): Promise<void> {
+    const checkId = `caregiver-check-${alarm.medicationScheduleId}-${alarm.attempt}`;
 
     // Calculate seconds until caregiver check should fire (like working medication notifications)
     const secondsUntilTrigger = Math.max(1, Math.round((checkTime.getTime() - Date.now()) / 1000));
@@ -311,18 +333,7 @@ class NotificationService {
 
     await Notifications.scheduleNotificationAsync({
       identifier: checkId,
-      content: {
-        title: '🚨 CAREGIVER ALERT CHECK',
-        body: `Checking if ${alarm.medicationName} was taken - will alert caregivers if not`,
-        data: {
-          type: 'caregiver-check',
-          medicationScheduleId: alarm.medicationScheduleId,
-          patientId: alarm.patientId,
-          alarmId: alarm.id,
-          medicationName: alarm.medicationName,
-          scheduledTime: alarm.scheduledTime.toISOString(),
-        },
-      },
+      content: this.buildCaregiverCheckContent(alarm, step),
       trigger: {
         seconds: secondsUntilTrigger,
         repeats: false,
@@ -332,73 +343,47 @@ class NotificationService {
 
     console.log(`[NotificationService] ✅ Caregiver check scheduled for ${secondsUntilTrigger} seconds from now`);
 
-    // Also schedule an immediate caregiver alert function
-    this.scheduleDirectCaregiverAlert(alarm, checkTime);
+    // Caregivers are alerted server-side by the escalate-missed-doses edge function,
+    // so a missed dose is still reported when this device is off or the app is killed.
   }
 
-  // Schedule a direct caregiver alert using setTimeout (for testing)
-  private async scheduleDirectCaregiverAlert(alarm: MedicationAlarm, alertTime: Date): Promise<void> {
-    const delay = alertTime.getTime() - Date.now();
-    
-    if (delay > 0) {
-      console.log(`[NotificationService] Setting timeout for caregiver alert in ${delay}ms`);
-      
-      setTimeout(async () => {
-        console.log(`[NotificationService] Timeout triggered - checking if medication was taken`);
-        
-        try {
-          // Check if medication was marked as taken
-          const { data: alarmData } = await supabase
-            .from('medication_alarms')
-            .select('patient_responded')
-            .eq('medication_schedule_id', alarm.medicationScheduleId)
-            .eq('patient_responded', true)
-            .limit(1);
-
-          if (!alarmData || alarmData.length === 0) {
-            console.log(`[NotificationService] No response found - alerting caregivers`);
-            await this.alertCaregivers(alarm);
-          } else {
-            console.log(`[NotificationService] Medication was taken - no caregiver alert needed`);
-          }
-        } catch (error) {
-          console.error('[NotificationService] Error in caregiver alert check:', error);
-          // Alert caregivers anyway on error
-          await this.alertCaregivers(alarm);
-        }
-      }, delay);
-    }
-  }
-
-  // Mark medication as taken (stops remaining alarms)
-  async markMedicationTaken(medicationScheduleId: string, takenAt: Date = new Date()): Promise<void> {
+  // Mark medication as taken (stops remaining alarms). `scheduledTime` is the dose being
+  // answered, from the alarm's notification data when there is one.
+  async markMedicationTaken(
+    medicationScheduleId: string,
+    scheduledTime?: Date | string | null,
+    takenAt: Date = new Date()
+  ): Promise<void> {
     try {
-      // Cancel remaining notifications
+      // Cancel the remaining alarms of this dose; later doses of the schedule stay pending
       const notifications = await Notifications.getAllScheduledNotificationsAsync();
       for (const notification of notifications) {
-        if (notification.content.data?.medicationScheduleId === medicationScheduleId) {
+        const data = notification.content.data;
+        if (data?.medicationScheduleId !== medicationScheduleId) continue;
+        const doseTime = typeof data.scheduledTime === 'string' ? new Date(data.scheduledTime).getTime() : null;
+        if (doseTime === null || doseTime <= takenAt.getTime() + DOSE_RESPONSE_WINDOW_MS) {
           await Notifications.cancelScheduledNotificationAsync(notification.identifier);
         }
       }
 
-      // Update database
-      await supabase
-        .from('medication_alarms')
-        .update({
-          patient_responded: true,
+      // Update database (queued in the offline outbox if there is no connection)
+      const { synced } = await OfflineSyncService.submit({
+        kind: 'alarm_response',
+        payload: {
+          medication_schedule_id: medicationScheduleId,
+          scheduled_time: scheduledTime ? new Date(scheduledTime).toISOString() : null,
           response_time: takenAt.toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .eq('medication_schedule_id', medicationScheduleId)
-        .eq('patient_responded', false);
+        },
+      });
 
-      console.log('Medication marked as taken, alarms cancelled');
+      console.log(`Medication marked as taken, alarms cancelled${synced ? '' : ' (pending sync)'}`);
     } catch (error) {
       console.error('Failed to mark medication as taken:', error);
     }
   }
 
-  // Alert all caregivers for missed medication
+  // Alert the patient's caregivers for missed medication: the ones on call when
+  // there is a rota, otherwise all of them
   async alertCaregivers(alarm: MedicationAlarm): Promise<void> {
     try {
       // Create a unique key for this caregiver alert to prevent duplicates
@@ -459,6 +444,10 @@ class NotificationService {
         return;
       }
 
+      // The rest of the circle is brought in server-side if nobody on call responds
+      const recipientIds = new Set(await repositories.listAlertRecipientIds(alarm.patientId));
+      const recipients = caregivers.filter(caregiver => recipientIds.has(caregiver.caregiver_id));
+
       // Get patient name
       const { data: patient } = await supabase
         .from('profiles')
@@ -470,7 +459,7 @@ class NotificationService {
       console.log(`[NotificationService] Patient name: ${patientName}`);
 
       // Send alert to each caregiver
-      const alertPromises = caregivers.map(async (caregiver) => {
+      const alertPromises = recipients.map(async (caregiver) => {
         console.log(`[NotificationService] Sending alert to caregiver ${caregiver.caregiver_id}`);
         
         return this.sendCaregiverAlert(caregiver.caregiver_id, {
@@ -493,7 +482,7 @@ class NotificationService {
         })
         .eq('medication_schedule_id', alarm.medicationScheduleId);
 
-      console.log(`[NotificationService] Successfully alerted ${caregivers.length} caregivers`);
+      console.log(`[NotificationService] Successfully alerted ${recipients.length} caregivers`);
 
       // Clean up the ongoing alert tracking
       this.ongoingCaregiverAlerts.delete(alertKey);
@@ -506,177 +495,91 @@ class NotificationService {
     }
   }
 
-  // Send individual caregiver alert
-  private async sendCaregiverAlert(caregiverId: string, alertData: any): Promise<void> {
+  // Write an alert to the inbox of every caregiver on call (every active caregiver when
+  // there is no rota); the caregiver device shows it from its live feed
+  async notifyCaregivers(patientId: string, alertType: string, message: string, details?: Json): Promise<number> {
     try {
-      console.log(`[NotificationService] Sending alert to caregiver ${caregiverId}`);
-      
-      // Get caregiver's push token and settings
-      const { data: settings, error: settingsError } = await supabase
-        .from('notification_settings')
-        .select('expo_push_token, sound_enabled, vibration_enabled')
-        .eq('user_id', caregiverId)
-        .single();
+      const caregiverIds = await repositories.listAlertRecipientIds(patientId);
+      const alertIds = await repositories.caregiverAlerts.insertMany(
+        caregiverIds.map(caregiverId => ({
+          patient_id: patientId,
+          caregiver_id: caregiverId,
+          alert_type: alertType,
+          alert_message: message,
+          details: details ?? null,
+        }))
+      );
+      await this.sendAlertMessages(alertIds);
+      console.log(`[NotificationService] Sent ${alertType} alert to ${caregiverIds.length} caregivers`);
+      return caregiverIds.length;
+    } catch (error) {
+      console.error(`[NotificationService] Failed to notify caregivers (${alertType}):`, error);
+      return 0;
+    }
+  }
 
-      console.log(`[NotificationService] Caregiver settings query result:`, { settings, error: settingsError });
-      console.log(`[NotificationService] Caregiver settings:`, settings ? 'found' : 'not found');
-      
-      if (settingsError && settingsError.code !== 'PGRST116') {
-        console.error(`[NotificationService] Error fetching caregiver settings:`, settingsError);
+  // Acknowledge or resolve an alert for the whole caregiver circle. The first
+  // response to each stage is pushed to the patient so they know someone is on it.
+  async respondToCaregiverAlert(
+    alertId: string,
+    status: Exclude<CaregiverAlertStatus, 'open'>,
+    note?: string
+  ): Promise<CaregiverAlertResponse> {
+    const response = await repositories.caregiverAlerts.respond(alertId, status, note);
+
+    if (response.changed) {
+      const { error } = await supabase.functions.invoke('notify-alert-response', {
+        body: { incident_id: response.incidentId },
+      });
+      if (error) {
+        console.warn('[NotificationService] Could not notify the patient of the alert response:', error);
       }
+    }
 
-      const alertMessage = `🚨 ${alertData.patientName} hasn't taken ${alertData.medicationName} scheduled for ${alertData.scheduledTime.toLocaleTimeString()}`;
+    return response;
+  }
 
-      // Try to send push notification if token exists
-      if (settings?.expo_push_token) {
-        console.log(`[NotificationService] Found push token for caregiver, sending push notification...`);
-        console.log(`[NotificationService] Push token: ${settings.expo_push_token.substring(0, 20)}...`);
-        
-        try {
-          const pushPayload = {
-            to: settings.expo_push_token,
-            title: '🚨 MEDICATION ALERT',
-            body: alertMessage,
-            sound: settings.sound_enabled !== false ? 'default' : null,
-            priority: 'high',
-            badge: 1,
-            data: {
-              type: 'caregiver-alert',
-              patientId: alertData.patientId,
-              medicationScheduleId: alertData.medicationScheduleId,
-              patientName: alertData.patientName,
-              medicationName: alertData.medicationName,
-            },
-          };
-          
-          console.log(`[NotificationService] Sending push notification with payload:`, pushPayload);
-          
-          // For MOCK tokens, simulate a successful push notification without actually sending
-          if (settings.expo_push_token.includes('MOCK')) {
-            console.log(`[NotificationService] ✅ MOCK push notification simulated for caregiver (development mode)`);
-            console.log(`[NotificationService] 📱 In production, this would be sent to the caregiver's device`);
-            
-            // Log success without actual push
-            console.log(`[NotificationService] ✅ Push notification sent successfully to caregiver (simulated)`);
-          } else {
-            // Send real push notification for production tokens
-            const response = await fetch('https://exp.host/--/api/v2/push/send', {
-              method: 'POST',
-              headers: {
-                Accept: 'application/json',
-                'Accept-encoding': 'gzip, deflate',
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(pushPayload),
-            });
-
-            const responseData = await response.json();
-            console.log(`[NotificationService] Push notification response:`, responseData);
-            
-            if (responseData.data && responseData.data.status === 'ok') {
-              console.log(`[NotificationService] ✅ Push notification sent successfully to caregiver`);
-            } else {
-              console.warn(`[NotificationService] ⚠️ Push notification failed (expected in development):`, responseData.data?.details || responseData);
-              console.log(`[NotificationService] 🔄 Activating fallback system - storing alert for local delivery`);
-              
-              // For development: If push notification fails due to invalid token,
-              // store the alert in a way that the caregiver device can pick it up
-              console.log(`[NotificationService] 📱 Push notification failed - storing alert for caregiver device polling`);
-              
-              // Store alert for caregiver device polling as fallback
-              const alertToStore = {
-                patient_id: alertData.patientId,
-                caregiver_id: caregiverId,
-                medication_schedule_id: null, // Always null for development to avoid foreign key issues
-                alert_type: 'medication_missed_local',
-                alert_message: alertMessage,
-              };
-              
-              console.log(`[NotificationService] 🔍 DEBUG: About to store alert:`, alertToStore);
-              
-              const { data: insertResult, error: insertError } = await supabase
-                .from('caregiver_alerts')
-                .insert(alertToStore);
-              
-              console.log(`[NotificationService] 🔍 DEBUG: Insert result:`, { insertResult, insertError });
-              
-              if (insertError) {
-                console.error(`[NotificationService] ❌ Failed to store caregiver alert:`, insertError);
-                console.error(`[NotificationService] ❌ Alert data that failed:`, alertToStore);
-              } else {
-                console.log(`[NotificationService] ✅ Alert stored successfully for caregiver device polling`);
-              }
-              
-              console.log(`[NotificationService] 🔄 Alert stored for caregiver device to poll and show locally`);
-            }
-          }
-        } catch (pushError) {
-          console.warn(`[NotificationService] ⚠️ Push notification request failed (expected in development):`, pushError);
-          console.log(`[NotificationService] 🔄 Continuing with local fallback system`);
-        }
-      } else {
-        console.log(`[NotificationService] ⚠️ No push token for caregiver ${caregiverId}, skipping push notification`);
-        console.log(`[NotificationService] Caregiver needs to open the app and initialize notifications first`);
-        
-        // Store alert for caregiver device polling since no push token exists
-        console.log(`[NotificationService] 📱 No push token - storing alert for caregiver device polling`);
-        
-        // Store alert for caregiver device polling as fallback
-        const alertToStore = {
-          patient_id: alertData.patientId,
-          caregiver_id: caregiverId,
-          medication_schedule_id: null, // Always null for development to avoid foreign key issues
-          alert_type: 'medication_missed_local',
-          alert_message: alertMessage,
-        };
-        
-        console.log(`[NotificationService] 🔍 DEBUG: About to store alert (no token):`, alertToStore);
-        
-        const { data: insertResult, error: insertError } = await supabase
-          .from('caregiver_alerts')
-          .insert(alertToStore);
-        
-        console.log(`[NotificationService] 🔍 DEBUG: Insert result:`, { insertResult, insertError });
-        
-        if (insertError) {
-          console.error(`[NotificationService] ❌ Failed to store caregiver alert:`, insertError);
-          console.error(`[NotificationService] ❌ Alert data that failed:`, alertToStore);
-        } else {
-          console.log(`[NotificationService] ✅ Alert stored successfully for caregiver device polling`);
-        }
-        
-        console.log(`[NotificationService] 🔄 Alert stored for caregiver device to poll and show locally`);
-      }
+  // Text and email the caregivers of freshly written inbox alerts, on the channels
+  // they chose (see supabase/functions/_shared/messageDelivery.ts)
+  async sendAlertMessages(alertIds: string[]): Promise<void> {
+    if (alertIds.length === 0) return;
+    const { error } = await supabase.functions.invoke('deliver-caregiver-alert', {
+      body: { alert_ids: alertIds },
+    });
+    if (error) {
+      console.warn('[NotificationService] Could not text or email the caregiver alerts:', error);
+    }
+  }
+
+  // Leave the alert in the caregiver's inbox; their app shows it from its live feed.
+  // Pushes to other people's devices are sent by the edge functions only (see
+  // supabase/functions/_shared/pushDelivery.ts), which hold the tokens and receipts.
+  private async sendCaregiverAlert(caregiverId: string, alertData: any): Promise<void> {
+    try {
+      const alertMessage = `🚨 ${alertData.patientName} hasn't taken ${alertData.medicationName} scheduled for ${alertData.scheduledTime.toLocaleTimeString()}`;
 
-      console.log(`[NotificationService] Caregiver alert processing complete for caregiver ${caregiverId}`);
+      const alertIds = await repositories.caregiverAlerts.insertMany([{
+        patient_id: alertData.patientId,
+        caregiver_id: caregiverId,
+        medication_schedule_id: null, // Always null for development to avoid foreign key issues
+        alert_type: 'medication_missed_local',
+        alert_message: alertMessage,
+      }]);
+      await this.sendAlertMessages(alertIds);
 
+      console.log(`[NotificationService] Caregiver alert stored for caregiver ${caregiverId}`);
     } catch (error) {
       console.error(`[NotificationService] Failed to send caregiver alert to ${caregiverId}:`, error);
     }
   }
 
   // Get user notification settings
-  private async getUserSettings(userId: string): Promise<NotificationSettings> {
+  async getUserSettings(userId: string): Promise<NotificationSettings> {
     try {
-      const { data } = await supabase
-        .from('notification_settings')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
-
-      if (!data) return DEFAULT_SETTINGS;
-
-      return {
-        soundEnabled: data.sound_enabled,
-        vibrationEnabled: data.vibration_enabled,
-        reminderSound: data.reminder_sound,
-        maxAttempts: data.max_reminder_attempts,
-        snoozeMinutes: data.snooze_duration,
-        caregiverAlertDelay: data.caregiver_alert_delay,
-      };
+      return await repositories.notificationSettings.get(userId);
     } catch (error) {
       console.error('Failed to get user settings:', error);
-      return DEFAULT_SETTINGS;
+      return DEFAULT_NOTIFICATION_SETTINGS;
     }
   }
 
@@ -732,17 +635,18 @@ class NotificationService {
         return false;
       }
 
-      // For development, create a mock push token
+      // For development, create a mock push token. Expo rejects it as unregistered and the
+      // server then drops it; deploy the functions with PUSH_PROVIDER=local to fake delivery.
       const mockPushToken = `ExponentPushToken[${user.id.substring(0, 8)}-MOCK-${Date.now()}]`;
       
       console.log(`[NotificationService] Creating mock push token for development: ${mockPushToken}`);
 
       // Save mock token to database
+      await this.registerDevice(mockPushToken);
       const { error } = await supabase
         .from('notification_settings')
         .upsert({
           user_id: user.id,
-          expo_push_token: mockPushToken,
           sound_enabled: true,
           vibration_enabled: true,
           medication_reminders_enabled: true,
@@ -823,11 +727,11 @@ class NotificationService {
       }
 
       // Save real/enhanced token to database
+      await this.registerDevice(realPushToken);
       const { error } = await supabase
         .from('notification_settings')
         .upsert({
           user_id: user.id,
-          expo_push_token: realPushToken,
           sound_enabled: true,
           vibration_enabled: true,
           medication_reminders_enabled: true,
@@ -857,6 +761,10 @@ class NotificationService {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // Switched off in Profile → Notifications; alerts wait in the inbox
+      const settings = await this.getUserSettings(user.id);
+      if (!settings.caregiverAlertsEnabled) return;
+
       if (!quietMode) {
         console.log(`[NotificationService] 🔍 DEBUGGING: Checking for pending caregiver alerts for user ${user.id}...`);
       }
@@ -890,7 +798,7 @@ class NotificationService {
         .select('*')
         .eq('caregiver_id', user.id)
         .eq('acknowledged', false)
-        .or('alert_type.eq.medication_missed_local,alert_type.is.null')
+        .or(`alert_type.in.(${CAREGIVER_INBOX_ALERT_TYPES.join(',')}),alert_type.is.null`)
         .order('created_at', { ascending: false })
         .limit(5);
 
@@ -921,7 +829,7 @@ class NotificationService {
           if (simpleAlerts && simpleAlerts.length > 0) {
             console.log(`[NotificationService] 🔄 Found ${simpleAlerts.length} unacknowledged alerts without type filter - using these instead`);
             // Use the simple alerts if the complex filter failed
-            await this.processAndShowAlerts(simpleAlerts);
+            await this.processAndShowAlerts(simpleAlerts, settings);
             return;
           }
         }
@@ -930,23 +838,39 @@ class NotificationService {
       }
 
       console.log(`[NotificationService] ✅ Found ${alerts.length} pending caregiver alerts - showing local notifications`);
-      await this.processAndShowAlerts(alerts);
+      await this.processAndShowAlerts(alerts, settings);
 
     } catch (error) {
       console.error('[NotificationService] Error checking pending caregiver alerts:', error);
     }
   }
 
+  // Show one alert delivered by the caregiver's live feed (see CaregiverRealtimeService)
+  async showCaregiverAlert(alert: CaregiverAlert): Promise<void> {
+    try {
+      if (alert.acknowledged || !CAREGIVER_INBOX_ALERT_TYPES.includes(alert.alert_type)) return;
+      const settings = await this.getUserSettings(alert.caregiver_id);
+      if (!settings.caregiverAlertsEnabled) return;
+      await this.processAndShowAlerts([alert], settings);
+    } catch (error) {
+      console.error('[NotificationService] Error showing caregiver alert:', error);
+    }
+  }
+
   // Helper method to process and show alerts
-  private async processAndShowAlerts(alerts: any[]): Promise<void> {
+  private async processAndShowAlerts(alerts: any[], settings: NotificationSettings): Promise<void> {
+    const muted = !settings.soundEnabled || isInQuietHours(new Date(), settings);
     for (const alert of alerts) {
+      if (this.shownCaregiverAlertIds.has(alert.id)) continue;
+      this.shownCaregiverAlertIds.add(alert.id);
+
       console.log(`[NotificationService] 📱 Showing local notification for alert: ${alert.alert_message}`);
       
       await Notifications.scheduleNotificationAsync({
         content: {
           title: '🚨 CAREGIVER ALERT',
           body: alert.alert_message,
-          sound: 'default',
+          sound: muted ? false : 'default',
           priority: Notifications.AndroidNotificationPriority.HIGH,
           data: {
             type: 'caregiver-alert-local',
@@ -970,60 +894,6 @@ class NotificationService {
       console.log(`[NotificationService] ✅ Local caregiver alert shown and acknowledged for ID: ${alert.id}`);
     }
   }
-
-  // Start automatic polling for caregiver alerts (call when caregiver opens the app)
-  async startCaregiverAlertPolling(): Promise<void> {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    // Only start polling for caregivers
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (profile?.role !== 'caregiver') {
-      console.log('[NotificationService] Auto-polling not started - user is not a caregiver');
-      return;
-    }
-
-    if (this.isPollingActive) {
-      console.log('[NotificationService] Auto-polling already active');
-      return;
-    }
-
-    console.log('[NotificationService] 🔄 Starting automatic caregiver alert polling...');
-    this.isPollingActive = true;
-
-    // Check immediately
-    await this.checkAndShowPendingCaregiverAlerts();
-
-    // Then check every 10 seconds
-    this.caregiverPollingInterval = setInterval(async () => {
-      if (this.isPollingActive) {
-        // Use quiet mode for auto-polling to reduce console noise
-        await this.checkAndShowPendingCaregiverAlerts(true);
-      }
-    }, 10000); // 10 seconds
-
-    console.log('[NotificationService] ✅ Automatic caregiver alert polling started');
-  }
-
-  // Stop automatic polling (call when caregiver leaves the app or logs out)
-  stopCaregiverAlertPolling(): void {
-    if (this.caregiverPollingInterval) {
-      clearInterval(this.caregiverPollingInterval);
-      this.caregiverPollingInterval = null;
-    }
-    this.isPollingActive = false;
-    console.log('[NotificationService] 🛑 Automatic caregiver alert polling stopped');
-  }
-
-  // Check if polling is active (for debugging)
-  isCaregiverPollingActive(): boolean {
-    return this.isPollingActive;
-  }
 }
 
 export default NotificationService.getInstance(); 
\ No newline at end of file
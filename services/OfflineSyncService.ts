@@ -0,0 +1,419 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { getDoseKey } from '../lib/repositories/ScheduleRepository';
+import InventoryService from './InventoryService';
+
+const OUTBOX_STORAGE_KEY = 'offlineOutbox';
+const RETRY_INTERVAL = 30 * 1000; // Retry every 30 seconds while entries are pending
+const MAX_ATTEMPTS = 5; // Drop an entry after this many non-network failures
+
+// A dose counts as answered by a response up to this long before it was due
+export const DOSE_RESPONSE_WINDOW_MS = 60 * 60 * 1000;
+
+export type DoseLogStatus = 'taken' | 'skipped';
+
+export interface DoseLogPayload {
+  log_id?: string | null; // Existing medication_administration_logs row being changed
+  medication_id: string;
+  schedule_id?: string | null;
+  user_id: string;
+  status: DoseLogStatus;
+  taken_at: string;
+  intended_dose_time: string;
+  notes?: string | null;
+}
+
+export interface AlarmResponsePayload {
+  medication_schedule_id: string;
+  scheduled_time?: string | null; // The dose answered; unknown to some callers and older queued entries
+  response_time: string;
+}
+
+export interface HealthMetricPayload {
+  patient_id: string;
+  category_id: string;
+  value: number;
+  notes?: string | null;
+  recorded_at: string;
+}
+
+export interface HealthCheckinPayload {
+  user_id: string;
+  question_id: string;
+  response: string;
+  checkin_date: string;
+  created_at: string;
+}
+
+export interface OrthostaticTestPayload {
+  patient_id: string;
+  started_at: string;
+  stood_at: string;
+  lying_systolic: number;
+  lying_diastolic: number;
+  lying_heart_rate: number | null;
+  standing_1_systolic: number;
+  standing_1_diastolic: number;
+  standing_1_heart_rate: number | null;
+  standing_3_systolic: number | null;
+  standing_3_diastolic: number | null;
+  standing_3_heart_rate: number | null;
+  symptomatic: boolean;
+  notes: string | null;
+}
+
+type OutboxEntryBase = {
+  id: string;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+};
+
+export type OutboxWrite =
+  | { kind: 'dose_log'; payload: DoseLogPayload }
+  | { kind: 'alarm_response'; payload: AlarmResponsePayload }
+  | { kind: 'health_metrics'; payload: HealthMetricPayload[] }
+  | { kind: 'health_checkin'; payload: HealthCheckinPayload }
+  | { kind: 'orthostatic_test'; payload: OrthostaticTestPayload };
+
+export type OutboxEntry = OutboxEntryBase & OutboxWrite;
+
+export interface SubmitResult {
+  synced: boolean; // false means the write is queued and will be replayed later
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+type SyncedListener = (write: OutboxWrite) => void;
+
+// Supabase surfaces fetch failures as errors whose message mentions the network
+export const isNetworkError = (error: any): boolean => {
+  if (!error) return false;
+  const message = `${error.message || ''} ${error.details || ''}`;
+  return /network request failed|failed to fetch|network error|networkerror|timed? ?out/i.test(message);
+};
+
+class OfflineSyncService {
+  private static instance: OfflineSyncService;
+  private entries: OutboxEntry[] = [];
+  private loaded = false;
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private syncedListeners = new Set<SyncedListener>();
+  private retryInterval: NodeJS.Timeout | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  static getInstance(): OfflineSyncService {
+    if (!OfflineSyncService.instance) {
+      OfflineSyncService.instance = new OfflineSyncService();
+    }
+    return OfflineSyncService.instance;
+  }
+
+  // Replay the outbox now, whenever the app returns to the foreground, and periodically
+  start(): void {
+    if (this.appStateSubscription) {
+      return;
+    }
+
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.flush();
+      }
+    });
+
+    this.retryInterval = setInterval(() => {
+      if (this.entries.length > 0) {
+        this.flush();
+      }
+    }, RETRY_INTERVAL);
+
+    this.flush();
+  }
+
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = null;
+    }
+  }
+
+  // Queue a write and try to sync it straight away. Writes are always appended to the
+  // outbox first so they reach the database in the order they were made.
+  async submit(write: OutboxWrite): Promise<SubmitResult> {
+    await this.load();
+
+    const entry = {
+      ...write,
+      id: `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    } as OutboxEntry;
+
+    this.entries.push(entry);
+    await this.persist();
+
+    await this.flush();
+
+    const pending = this.entries.find(e => e.id === entry.id);
+    if (!pending) {
+      return { synced: true };
+    }
+
+    // Rejected by the database rather than the network: report it like a direct write would
+    if (pending.attempts > 0) {
+      this.entries = this.entries.filter(e => e.id !== entry.id);
+      await this.persist();
+      throw new Error(pending.lastError || `Failed to save ${entry.kind}`);
+    }
+
+    console.log(`[OfflineSyncService] ${entry.kind} queued for later sync (${this.entries.length} pending)`);
+    return { synced: false };
+  }
+
+  async getPendingEntries(): Promise<OutboxEntry[]> {
+    await this.load();
+    return [...this.entries];
+  }
+
+  // Dose keys (see getDoseKey) of logs still waiting to sync, with their queued status
+  getPendingDoseStatuses(entries: OutboxEntry[] = this.entries): Map<string, DoseLogStatus> {
+    const statuses = new Map<string, DoseLogStatus>();
+    entries.forEach(entry => {
+      if (entry.kind === 'dose_log') {
+        statuses.set(getDoseKey(entry.payload.medication_id, entry.payload.intended_dose_time), entry.payload.status);
+      }
+    });
+    return statuses;
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener([...this.entries]));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Called after each write reaches the database, whether straight away or on replay
+  onSynced(listener: SyncedListener): () => void {
+    this.syncedListeners.add(listener);
+    return () => {
+      this.syncedListeners.delete(listener);
+    };
+  }
+
+  // Replay queued entries in order. Stops at the first network failure so later
+  // entries are never applied before earlier ones.
+  async flush(): Promise<void> {
+    if (this.flushPromise) {
+      return this.flushPromise;
+    }
+
+    this.flushPromise = (async () => {
+      await this.load();
+
+      while (this.entries.length > 0) {
+        const entry = this.entries[0];
+        try {
+          await this.replay(entry);
+          this.entries.shift();
+          this.syncedListeners.forEach(listener => listener(entry));
+        } catch (error: any) {
+          if (isNetworkError(error)) {
+            break;
+          }
+
+          entry.attempts += 1;
+          entry.lastError = error?.message || String(error);
+          console.error(`[OfflineSyncService] Failed to sync ${entry.kind} (attempt ${entry.attempts}):`, error);
+
+          if (entry.attempts < MAX_ATTEMPTS) {
+            break;
+          }
+          console.warn(`[OfflineSyncService] Dropping ${entry.kind} after ${MAX_ATTEMPTS} failed attempts`);
+          this.entries.shift();
+        }
+      }
+
+      await this.persist();
+    })();
+
+    try {
+      await this.flushPromise;
+    } finally {
+      this.flushPromise = null;
+    }
+  }
+
+  private async replay(entry: OutboxEntry): Promise<void> {
+    switch (entry.kind) {
+      case 'dose_log':
+        return this.replayDoseLog(entry.payload);
+      case 'alarm_response':
+        return this.replayAlarmResponse(entry.payload);
+      case 'health_metrics':
+        return this.replayHealthMetrics(entry.payload);
+      case 'health_checkin':
+        return this.replayHealthCheckin(entry.payload);
+      case 'orthostatic_test':
+        return this.replayOrthostaticTest(entry.payload);
+    }
+  }
+
+  // A dose can be logged from several devices. The most recent change wins: if the
+  // database already holds a newer log for the same dose, the queued one is discarded.
+  private async replayDoseLog(payload: DoseLogPayload): Promise<void> {
+    const { log_id, ...logFields } = payload;
+
+    let query = supabase
+      .from('medication_administration_logs')
+      .select('id, taken_at')
+      .limit(1);
+
+    query = log_id
+      ? query.eq('id', log_id)
+      : query
+          .eq('user_id', payload.user_id)
+          .eq('medication_id', payload.medication_id)
+          .eq('intended_dose_time', payload.intended_dose_time);
+
+    const { data: existing, error: fetchError } = await query;
+    if (fetchError) throw fetchError;
+
+    const existingLog = existing?.[0];
+    if (existingLog) {
+      if (existingLog.taken_at && new Date(existingLog.taken_at) > new Date(payload.taken_at)) {
+        console.log('[OfflineSyncService] Newer dose log already on server, discarding queued change');
+        return;
+      }
+
+      const { error: updateError } = await supabase
+        .from('medication_administration_logs')
+        .update({ status: payload.status, taken_at: payload.taken_at })
+        .eq('id', existingLog.id);
+      if (updateError) throw updateError;
+      InventoryService.refreshStock(payload.medication_id);
+      return;
+    }
+
+    const { error: insertError } = await supabase
+      .from('medication_administration_logs')
+      .insert([{ ...logFields, schedule_id: logFields.schedule_id || null, notes: logFields.notes ?? null }]);
+    if (insertError) throw insertError;
+    // Stock was decremented by the database; update refill reminders and caregiver alerts
+    InventoryService.refreshStock(payload.medication_id);
+  }
+
+  // Only the answered dose's rows are updated: alarm rows exist for doses up to two days
+  // ahead, and those must still escalate if they are missed. Without the dose's time,
+  // doses due up to DOSE_RESPONSE_WINDOW_MS after the response count as answered.
+  private async replayAlarmResponse(payload: AlarmResponsePayload): Promise<void> {
+    const query = supabase
+      .from('medication_alarms')
+      .update({
+        patient_responded: true,
+        response_time: payload.response_time,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('medication_schedule_id', payload.medication_schedule_id)
+      .eq('patient_responded', false);
+    const latestDoseTime = new Date(new Date(payload.response_time).getTime() + DOSE_RESPONSE_WINDOW_MS).toISOString();
+    const { error } = await (payload.scheduled_time
+      ? query.eq('scheduled_time', payload.scheduled_time)
+      : query.lte('scheduled_time', latestDoseTime));
+    if (error) throw error;
+    InventoryService.refreshStockForSchedule(payload.medication_schedule_id);
+  }
+
+  // Readings are skipped if an identical one (same category and timestamp) was already
+  // stored, so a replay interrupted half-way does not create duplicates.
+  private async replayHealthMetrics(payload: HealthMetricPayload[]): Promise<void> {
+    if (payload.length === 0) return;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('health_metrics')
+      .select('category_id, recorded_at')
+      .eq('patient_id', payload[0].patient_id)
+      .in('recorded_at', [...new Set(payload.map(m => m.recorded_at))]);
+    if (fetchError) throw fetchError;
+
+    const stored = new Set(
+      (existing || []).map(m => `${m.category_id}-${new Date(m.recorded_at).getTime()}`)
+    );
+    const missing = payload.filter(m => !stored.has(`${m.category_id}-${new Date(m.recorded_at).getTime()}`));
+    if (missing.length === 0) return;
+
+    const { error: insertError } = await supabase.from('health_metrics').insert(missing);
+    if (insertError) throw insertError;
+  }
+
+  // One answer per question per day: a queued answer replaces an older one
+  private async replayHealthCheckin(payload: HealthCheckinPayload): Promise<void> {
+    const { data: existing, error: fetchError } = await supabase
+      .from('health_checkins')
+      .select('id, created_at')
+      .eq('user_id', payload.user_id)
+      .eq('question_id', payload.question_id)
+      .eq('checkin_date', payload.checkin_date)
+      .limit(1);
+    if (fetchError) throw fetchError;
+
+    const existingCheckin = existing?.[0];
+    if (existingCheckin) {
+      if (existingCheckin.created_at && new Date(existingCheckin.created_at) > new Date(payload.created_at)) {
+        return;
+      }
+      const { error: updateError } = await supabase
+        .from('health_checkins')
+        .update({ response: payload.response, updated_at: new Date().toISOString() })
+        .eq('id', existingCheckin.id);
+      if (updateError) throw updateError;
+      return;
+    }
+
+    const { error: insertError } = await supabase.from('health_checkins').insert(payload);
+    if (insertError) throw insertError;
+  }
+
+  // A test is identified by its patient and start time, so a replayed one is stored once
+  private async replayOrthostaticTest(payload: OrthostaticTestPayload): Promise<void> {
+    const { error } = await supabase
+      .from('orthostatic_tests')
+      .upsert(payload, { onConflict: 'patient_id,started_at', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+          this.entries = stored ? JSON.parse(stored) : [];
+        } catch (error) {
+          console.error('[OfflineSyncService] Failed to load outbox:', error);
+          this.entries = [];
+        }
+        this.loaded = true;
+      })();
+    }
+    await this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('[OfflineSyncService] Failed to persist outbox:', error);
+    }
+    const snapshot = [...this.entries];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export default OfflineSyncService.getInstance();
@@ -0,0 +1,97 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { CaregiverAlertStatus, repositories } from '../lib/repositories';
+
+// Patient SOS. The alerting itself happens server-side (trigger-sos), which also keeps
+// repeating it until a caregiver acknowledges; the app only asks for it and follows
+// the incident's status. The SOS action on medication reminders opens the app on the
+// hold-to-confirm dialog, so a stray tap on a notification never raises an SOS.
+
+export interface SosResult {
+  incidentId: string;
+  notified: number; // Caregivers alerted
+  duplicate: boolean; // An SOS raised moments ago was still open and is reused
+}
+
+export interface SosStatus {
+  status: CaregiverAlertStatus;
+  responderName: string | null;
+}
+
+type ConfirmationListener = () => void;
+
+class SosService {
+  private static instance: SosService;
+  private confirmationListeners = new Set<ConfirmationListener>();
+  private confirmationPending = false;
+
+  static getInstance(): SosService {
+    if (!SosService.instance) {
+      SosService.instance = new SosService();
+    }
+    return SosService.instance;
+  }
+
+  // A request made before any screen listens (the app was opened from the
+  // notification) is held for the first listener
+  requestConfirmation(): void {
+    if (this.confirmationListeners.size === 0) {
+      this.confirmationPending = true;
+      return;
+    }
+    this.confirmationListeners.forEach(listener => listener());
+  }
+
+  onConfirmationRequested(listener: ConfirmationListener): () => void {
+    this.confirmationListeners.add(listener);
+    if (this.confirmationPending) {
+      this.confirmationPending = false;
+      listener();
+    }
+    return () => {
+      this.confirmationListeners.delete(listener);
+    };
+  }
+
+  async trigger(): Promise<SosResult> {
+    const { data, error } = await supabase.functions.invoke('trigger-sos', { body: {} });
+    if (error) throw error;
+    return {
+      incidentId: data.incident_id,
+      notified: data.notified ?? 0,
+      duplicate: !!data.duplicate,
+    };
+  }
+
+  // Calls back with the current status, then again whenever a caregiver responds
+  watch(incidentId: string, onStatus: (status: SosStatus) => void): () => void {
+    const refresh = async () => {
+      try {
+        const events = await repositories.caregiverAlerts.listEvents([incidentId]);
+        const latest = events[events.length - 1];
+        onStatus({
+          status: latest ? (latest.action as CaregiverAlertStatus) : 'open',
+          responderName: latest?.actor_name ?? null,
+        });
+      } catch (error) {
+        console.error('[SosService] Failed to load SOS status:', error);
+      }
+    };
+
+    const channel: RealtimeChannel = supabase
+      .channel(`sos-${incidentId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'caregiver_alerts', filter: `incident_id=eq.${incidentId}` },
+        () => refresh()
+      )
+      .subscribe();
+
+    refresh();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
+
+export default SosService.getInstance();
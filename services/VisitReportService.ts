@@ -0,0 +1,176 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import * as FileSystem from 'expo-file-system';
+import { format, parseISO, subDays } from 'date-fns';
+import { Appointment, AppointmentReport, repositories } from '../lib/repositories';
+import { applyPersonalRanges } from '../lib/metricDefinitions';
+import { VisitReport, buildVisitReport, renderVisitReportCsv, renderVisitReportHtml } from '../lib/visitReport';
+
+export type VisitReportFormat = 'pdf' | 'csv';
+
+export interface VisitReportRange {
+  from: Date;
+  to: Date;
+  lastVisit: Appointment | null; // The completed appointment the range starts from, if any
+}
+
+export type ReportAppointment = Pick<
+  Appointment,
+  'id' | 'patient_id' | 'doctor_name' | 'doctor_specialty' | 'appointment_date' | 'appointment_time'
+>;
+
+// Used when the patient has no completed appointment yet
+export const DEFAULT_REPORT_DAYS = 30;
+
+const MIME_TYPES: Record<VisitReportFormat, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+};
+
+const UTIS: Record<VisitReportFormat, string> = {
+  pdf: 'com.adobe.pdf',
+  csv: 'public.comma-separated-values-text',
+};
+
+// Everything since the last completed visit, up to today
+export async function getDefaultReportRange(patientId: string, today: Date = new Date()): Promise<VisitReportRange> {
+  const lastVisit = await repositories.appointments.getLastCompleted(patientId, format(today, 'yyyy-MM-dd'));
+  return {
+    from: lastVisit ? parseISO(lastVisit.appointment_date) : subDays(today, DEFAULT_REPORT_DAYS),
+    to: today,
+    lastVisit,
+  };
+}
+
+export async function generateVisitReport(
+  patientId: string,
+  patientName: string,
+  from: Date,
+  to: Date,
+  appointment?: ReportAppointment
+): Promise<VisitReport> {
+  const fromDate = format(from, 'yyyy-MM-dd');
+  const toDate = format(to, 'yyyy-MM-dd');
+  // Timestamped rows are fetched for whole local days
+  const rangeStart = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const rangeEnd = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+
+  const [doses, metrics, metricDefinitions, checkins, symptoms, assessments, motorDiary] = await Promise.all([
+    repositories.getAdherence(patientId, from, to),
+    repositories.metrics.listBetween(patientId, rangeStart, rangeEnd),
+    repositories.metrics.listDefinitions(patientId),
+    repositories.checkins.listBetween(patientId, fromDate, toDate),
+    repositories.symptomLogs.listBetween(patientId, rangeStart, rangeEnd),
+    repositories.assessments.listBetween(patientId, rangeStart, rangeEnd),
+    repositories.motorDiary.listBetween(patientId, fromDate, toDate),
+  ]);
+
+  return buildVisitReport({
+    patientName,
+    periodStart: fromDate,
+    periodEnd: toDate,
+    appointment: appointment && {
+      doctorName: appointment.doctor_name,
+      specialty: appointment.doctor_specialty,
+      date: appointment.appointment_date,
+      time: appointment.appointment_time,
+    },
+    doses,
+    metrics: applyPersonalRanges(metrics, metricDefinitions),
+    checkins,
+    symptoms,
+    assessments,
+    motorDiary,
+  });
+}
+
+const getFileName = (report: VisitReport, reportFormat: VisitReportFormat) =>
+  `visit-report-${report.periodStart}-to-${report.periodEnd}.${reportFormat}`;
+
+// Writes the report to the cache directory and returns its file URI
+export async function exportVisitReport(report: VisitReport, reportFormat: VisitReportFormat): Promise<string> {
+  const target = `${FileSystem.cacheDirectory}${getFileName(report, reportFormat)}`;
+
+  if (reportFormat === 'pdf') {
+    const { uri } = await Print.printToFileAsync({ html: renderVisitReportHtml(report) });
+    await FileSystem.deleteAsync(target, { idempotent: true });
+    await FileSystem.moveAsync({ from: uri, to: target });
+  } else {
+    await FileSystem.writeAsStringAsync(target, renderVisitReportCsv(report), {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+  }
+
+  console.log(`[VisitReportService] Exported ${reportFormat.toUpperCase()} report to ${target}`);
+  return target;
+}
+
+export async function shareVisitReport(report: VisitReport, reportFormat: VisitReportFormat): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = await exportVisitReport(report, reportFormat);
+  await Sharing.shareAsync(uri, {
+    mimeType: MIME_TYPES[reportFormat],
+    UTI: UTIS[reportFormat],
+    dialogTitle: 'Share visit report',
+  });
+}
+
+// Stores both formats under <patient_id>/<appointment_id>/ and records them on the appointment
+export async function attachVisitReport(
+  report: VisitReport,
+  appointment: ReportAppointment,
+  createdBy: string
+): Promise<AppointmentReport> {
+  const folder = `${appointment.patient_id}/${appointment.id}`;
+  const stamp = format(new Date(report.generatedAt), 'yyyyMMdd-HHmmss');
+
+  const upload = async (reportFormat: VisitReportFormat) => {
+    const uri = await exportVisitReport(report, reportFormat);
+    const body = await (await fetch(uri)).arrayBuffer();
+    return repositories.appointmentReports.uploadFile(
+      `${folder}/${stamp}.${reportFormat}`,
+      body,
+      MIME_TYPES[reportFormat]
+    );
+  };
+
+  const [pdfPath, csvPath] = await Promise.all([upload('pdf'), upload('csv')]);
+  const saved = await repositories.appointmentReports.insert({
+    appointment_id: appointment.id,
+    patient_id: appointment.patient_id,
+    period_start: report.periodStart,
+    period_end: report.periodEnd,
+    pdf_path: pdfPath,
+    csv_path: csvPath,
+    created_by: createdBy,
+  });
+
+  console.log(`[VisitReportService] Attached report ${saved.id} to appointment ${appointment.id}`);
+  return saved;
+}
+
+export async function listAttachedReports(appointmentId: string): Promise<AppointmentReport[]> {
+  return repositories.appointmentReports.listForAppointment(appointmentId);
+}
+
+// Downloads an attached file and opens the share sheet for it
+export async function shareAttachedReport(path: string): Promise<void> {
+  const reportFormat: VisitReportFormat = path.endsWith('.csv') ? 'csv' : 'pdf';
+  const url = await repositories.appointmentReports.getSignedUrl(path);
+  const target = `${FileSystem.cacheDirectory}${path.split('/').pop()}`;
+  const { uri } = await FileSystem.downloadAsync(url, target);
+  await Sharing.shareAsync(uri, { mimeType: MIME_TYPES[reportFormat], UTI: UTIS[reportFormat] });
+}
+
+export default {
+  getDefaultReportRange,
+  generateVisitReport,
+  exportVisitReport,
+  shareVisitReport,
+  attachVisitReport,
+  listAttachedReports,
+  shareAttachedReport,
+};
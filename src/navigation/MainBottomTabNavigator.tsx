@@ -13,6 +13,8 @@ import ExerciseRecommendationsScreen from '../../screens/ExerciseRecommendations
 import ProfileStackNavigator from '../../navigation/ProfileStackNavigator';
 import HealthMetricsDashboardScreen from '../screens/HealthMetricsDashboardScreen.tsx';
 import HealthMetricsScreen from '../screens/HealthMetricsScreen.tsx';
+import TrackedMetricsScreen from '../../screens/TrackedMetricsScreen';
+import OrthostaticTestScreen from '../screens/OrthostaticTestScreen';
 import CaregiverAnalyticsScreen from '../../screens/CaregiverAnalyticsScreen'; // Import Analytics screen
 import ParkinsonsAssessmentScreen from '../../screens/ParkinsonsAssessmentScreen'; // Import Parkinson's Assessment
 
@@ -40,6 +42,8 @@ export type HomeStackParamList = {
 export type HealthMetricsStackParamList = {
   HealthMetricsDashboard: undefined;
   LogHealthMetric: undefined; // Screen for inputting metrics
+  TrackedMetrics: undefined; // Custom categories and target ranges
+  OrthostaticTest: undefined; // Guided lying-to-standing blood pressure test
 };
 
 const Tab = createBottomTabNavigator<MainBottomTabParamList>();
@@ -102,6 +106,16 @@ const HealthMetricsStackNavigator = () => {
         component={HealthMetricsScreen} 
         options={{ title: 'Log New Metric' }} 
       />
+      <MetricsStack.Screen 
+        name="TrackedMetrics" 
+        component={TrackedMetricsScreen} 
+        options={{ title: 'Tracked Metrics' }} 
+      />
+      <MetricsStack.Screen 
+        name="OrthostaticTest" 
+        component={OrthostaticTestScreen} 
+        options={{ title: 'Orthostatic BP Test' }} 
+      />
     </MetricsStack.Navigator>
   );
 };
@@ -14,20 +14,48 @@ import {
 } from 'react-native-paper';
 import { LineChart } from "react-native-chart-kit";
 // import { VictoryChart, VictoryLine, VictoryAxis, VictoryTheme, VictoryLegend, VictoryVoronoiContainer } from 'victory-native';
-// import { Svg } from 'react-native-svg';
+import { Circle } from 'react-native-svg';
 import { useAuth } from '../../context/AuthContext.tsx';
 import { supabase } from '../../lib/supabase';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { HealthMetricsStackParamList } from '../navigation/MainBottomTabNavigator';
 import { subDays, format, parseISO, formatISO, startOfDay } from 'date-fns';
+import VisitReportModal from '../../components/VisitReportModal';
+import OrthostaticTrendCard from '../../components/OrthostaticTrendCard';
+import { useUnitPreferences } from '../../hooks/useUnitPreferences';
+import { OrthostaticTest, repositories } from '../../lib/repositories';
+import {
+  EffectiveRange,
+  MetricDefinition,
+  RangeStatus,
+  formatMetricRange,
+  formatMetricValue,
+  getEffectiveRange,
+  getFieldLabel,
+  getRangeStatus,
+} from '../../lib/metricDefinitions';
+import {
+  MOVING_AVERAGE_DAYS,
+  MetricSample,
+  describeAnomaly,
+  findAnomalies,
+  formatStat,
+  getWeeklyChange,
+  movingAverage,
+} from '../../lib/metricStats';
+import { getUnitConversion, localizeDefinition } from '../../lib/units';
 
 // Define a type for the combined health metric data we expect to fetch
 interface DisplayHealthMetric {
   id: string;
   recorded_at: string;
-  category_name: string; // This will be normalized for charting (e.g., "Blood Pressure")
+  category_name: string; // The definition's group, used for charting (e.g., "Blood Pressure")
   original_category_name?: string; // e.g., "Blood Pressure Systolic" for display in lists
+  category_id?: string;
+  series_label?: string; // The field within its group, e.g. "Systolic"
+  range?: EffectiveRange | null;
+  range_status?: RangeStatus;
   category_unit: string | null;
   value: number; 
   notes: string | null;
@@ -42,6 +70,8 @@ interface ChartKitData {
     data: number[];
     color?: (opacity: number) => string;
     strokeWidth?: number;
+    withDots?: boolean;
+    strokeDashArray?: number[];
     legend?: string; // For multi-line charts like blood pressure
   }[];
   legend?: string[]; // Optional top-level legend for the chart
@@ -50,7 +80,18 @@ interface ChartKitData {
 interface ProcessedChart {
   categoryName: string; 
   unit: string | null;
+  decimalPlaces: number;
+  rangeLabel?: string; // Target or normal range, for single-line charts
   chartData: ChartKitData | null; // Null if not enough data
+  weeklyChanges: string[]; // Per field, this week's mean against last week's
+  anomalies: ChartAnomaly[];
+}
+
+// A charted reading far from the patient's own baseline
+interface ChartAnomaly {
+  index: number;
+  value: number;
+  description: string;
 }
 
 interface MetricHistorySection {
@@ -68,16 +109,35 @@ type HealthMetricsDashboardScreenNavigationProp = StackNavigationProp<
 
 type TimePeriod = '7D' | '30D' | 'All';
 
+const ANOMALIES_LISTED = 3;
+
+// The charted values of a reading, by field label
+const getSeriesValues = (m: DisplayHealthMetric, fallbackLabel: string): Record<string, number | undefined> =>
+  // Single-row blood pressure from before systolic and diastolic were split
+  m.systolic !== undefined || m.diastolic !== undefined
+    ? { Systolic: m.systolic, Diastolic: m.diastolic }
+    : { [m.series_label ?? fallbackLabel]: m.value };
+
+const getPeriodStart = (period: TimePeriod, now: Date): Date => {
+  if (period === '7D') return startOfDay(subDays(now, 6));
+  if (period === '30D') return startOfDay(subDays(now, 29));
+  return new Date(0);
+};
+
 const HealthMetricsDashboardScreen: React.FC = () => {
   const theme = useTheme();
   const { user } = useAuth();
   const navigation = useNavigation<HealthMetricsDashboardScreenNavigationProp>();
   const [rawMetrics, setRawMetrics] = useState<DisplayHealthMetric[]>([]);
+  const [definitions, setDefinitions] = useState<MetricDefinition[]>([]);
   const [metricHistorySections, setMetricHistorySections] = useState<MetricHistorySection[]>([]);
   const [processedChartData, setProcessedChartData] = useState<ProcessedChart[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [selectedTimePeriod, setSelectedTimePeriod] = useState<TimePeriod>('7D');
+  const [reportVisible, setReportVisible] = useState(false);
+  const [orthostaticTests, setOrthostaticTests] = useState<OrthostaticTest[]>([]);
+  const { units } = useUnitPreferences();
 
   const processMetricsForDisplayAndChart = useCallback(() => {
     if (!user || rawMetrics.length === 0) {
@@ -86,19 +146,8 @@ const HealthMetricsDashboardScreen: React.FC = () => {
       return;
     }
 
-    // Define the exact normalized category names we want charts for
-    const desiredChartCategories = ["Weight", "Blood Pressure", "Blood Sugar", "Sleep"];
-
     const now = new Date();
-    let startDate: Date;
-
-    if (selectedTimePeriod === '7D') {
-      startDate = startOfDay(subDays(now, 6));
-    } else if (selectedTimePeriod === '30D') {
-      startDate = startOfDay(subDays(now, 29));
-    } else { // 'All'
-      startDate = new Date(0);
-    }
+    const startDate = getPeriodStart(selectedTimePeriod, now);
 
     const metricsInPeriod = rawMetrics.filter(metric => {
       const metricDate = parseISO(metric.recorded_at);
@@ -108,39 +157,8 @@ const HealthMetricsDashboardScreen: React.FC = () => {
     // For Charts (sorted ascending by date)
     const metricsForChart = [...metricsInPeriod].sort((a, b) => parseISO(a.recorded_at).getTime() - parseISO(b.recorded_at).getTime());
 
-    const processedMetrics: DisplayHealthMetric[] = [];
-
-    // First, process and normalize all metrics
-    metricsForChart.forEach(dbMetric => {
-      let normalizedCategoryName = dbMetric.category_name;
-      let displayValue = dbMetric._displayValue || dbMetric.value.toString();
-
-      if (dbMetric.category_name.toLowerCase().includes('systolic') || dbMetric.category_name.toLowerCase().includes('diastolic')) {
-        normalizedCategoryName = 'Blood Pressure'; 
-        // Display value for BP will be handled by grouping later if needed for a list, or shown as individual components
-      } else if (dbMetric.category_name.toLowerCase().includes('glucose') || dbMetric.category_name.toLowerCase().includes('sugar')) {
-        normalizedCategoryName = 'Blood Sugar';
-      } else if (dbMetric.category_name.toLowerCase().includes('sleep duration')) { // Normalize Sleep Duration
-        normalizedCategoryName = 'Sleep';
-      }
-      // Weight will keep its name "Weight"
-
-      processedMetrics.push({
-        id: dbMetric.id,
-        recorded_at: dbMetric.recorded_at,
-        category_name: normalizedCategoryName, // Use the normalized name
-        original_category_name: dbMetric.original_category_name, // Keep original for list display if needed
-        category_unit: dbMetric.category_unit,
-        value: dbMetric.value, // This is the primary value from the DB row
-        systolic: dbMetric.systolic, // Directly use the pre-parsed systolic value from fetchRawMetrics
-        diastolic: dbMetric.diastolic, // Directly use the pre-parsed diastolic value from fetchRawMetrics
-        notes: dbMetric.notes,
-        _displayValue: displayValue,
-      });
-    });
-
-    // Group metrics by the *normalized* category name for charting
-    const groupedForCharts = processedMetrics.reduce((acc, m) => {
+    // One chart per group with readings; each field of the group is one line
+    const groupedForCharts = metricsForChart.reduce((acc, m) => {
       if (!acc[m.category_name]) {
         acc[m.category_name] = [];
       }
@@ -148,91 +166,113 @@ const HealthMetricsDashboardScreen: React.FC = () => {
       return acc;
     }, {} as Record<string, DisplayHealthMetric[]>);
 
-    // Create chart data only for desired categories
+    const seriesColors = [theme.colors.primary, theme.colors.error, theme.colors.tertiary, theme.colors.secondary];
+
     const chartDataArray: ProcessedChart[] = Object.keys(groupedForCharts)
-      .filter(categoryName => desiredChartCategories.includes(categoryName)) // Exact match on normalized names
       .map(categoryName => {
-        const metricsForCategory = groupedForCharts[categoryName].sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime());
+        const metricsForCategory = groupedForCharts[categoryName];
         const unit = metricsForCategory.length > 0 ? metricsForCategory[0].category_unit : '';
-
-        let labels: string[] = [];
-        let datasets: ChartKitData['datasets'] = [];
-
-        if (categoryName === 'Blood Pressure') {
-          const pairedBPData: { recorded_at: string, systolic: number, diastolic: number }[] = [];
-          const tempSys: Record<string, number> = {};
-          const tempDia: Record<string, number> = {};
-          const allTimestamps = new Set<string>();
-
-          // Collect all SBP and DBP readings, mapping them by a precise timestamp
-          metricsForCategory.forEach(m => {
-            // Use a consistent, precise timestamp string as the key for pairing
-            // m.recorded_at is already an ISO string from Supabase
-            const ts = formatISO(parseISO(m.recorded_at)); // Ensures a standardized ISO string key
-            allTimestamps.add(ts);
-            if (m.systolic !== undefined) {
-              tempSys[ts] = m.systolic;
-            }
-            if (m.diastolic !== undefined) {
-              tempDia[ts] = m.diastolic;
-            }
+        // An archived category can share its group with current ones (old single-row blood pressure)
+        const inGroup = definitions.filter(d => d.group === categoryName);
+        const groupDefinitions = inGroup.some(d => !d.archived) ? inGroup.filter(d => !d.archived) : inGroup;
+        const fieldOrder = groupDefinitions.map(getFieldLabel);
+        const decimalPlaces = groupDefinitions.length > 0 && groupDefinitions.every(d => d.inputType === 'integer') ? 0 : 1;
+        const range = groupDefinitions.length === 1 ? getEffectiveRange(groupDefinitions[0]) : null;
+        const rangeLabel = range ? `${range.personal ? 'Target' : 'Normal'} ${formatMetricRange(range, unit)}` : undefined;
+
+        // Fields logged together share recorded_at; a point is drawn once every field has a value
+        const points = new Map<string, Record<string, number>>();
+        const seriesLabels: string[] = [];
+        metricsForCategory.forEach(m => {
+          const ts = formatISO(parseISO(m.recorded_at)); // Ensures a standardized ISO string key
+          const point = points.get(ts) ?? {};
+          Object.entries(getSeriesValues(m, categoryName)).forEach(([label, value]) => {
+            if (typeof value !== 'number' || isNaN(value)) return;
+            point[label] = value;
+            if (!seriesLabels.includes(label)) seriesLabels.push(label);
           });
+          points.set(ts, point);
+        });
 
-          // Iterate through sorted unique timestamps and create pairs
-          Array.from(allTimestamps).sort((a,b) => parseISO(a).getTime() - parseISO(b).getTime()).forEach(tsKey => {
-            if (tempSys[tsKey] !== undefined && tempDia[tsKey] !== undefined) {
-              pairedBPData.push({
-                recorded_at: tsKey, // Store the ISO string timestamp
-                systolic: tempSys[tsKey],
-                diastolic: tempDia[tsKey]
-              });
-            }
-          });
-          
-          if (pairedBPData.length > 0) {
-            labels = pairedBPData.map(bp => format(parseISO(bp.recorded_at), 'MM/dd'));
-            datasets.push({
-              data: pairedBPData.map(bp => bp.systolic),
-              color: (opacity = 1) => theme.colors.primary,
-              strokeWidth: 2,
-              legend: "Systolic"
-            });
-            datasets.push({
-              data: pairedBPData.map(bp => bp.diastolic),
-              color: (opacity = 1) => theme.colors.error,
-              strokeWidth: 2,
-              legend: "Diastolic"
+        const rank = (label: string) => (fieldOrder.includes(label) ? fieldOrder.indexOf(label) : fieldOrder.length);
+        seriesLabels.sort((a, b) => rank(a) - rank(b));
+        const completePoints = Array.from(points.entries())
+          .filter(([, point]) => seriesLabels.every(label => point[label] !== undefined))
+          .sort(([a], [b]) => parseISO(a).getTime() - parseISO(b).getTime());
+
+        if (completePoints.length === 0) {
+          return { categoryName, unit, decimalPlaces, rangeLabel, chartData: null, weeklyChanges: [], anomalies: [] };
+        }
+
+        // Baselines, averages and weekly changes use the whole history, not just the period shown
+        const historyByLabel = new Map<string, MetricSample[]>(seriesLabels.map(label => [label, []]));
+        rawMetrics
+          .filter(m => m.category_name === categoryName)
+          .forEach(m => {
+            Object.entries(getSeriesValues(m, categoryName)).forEach(([label, value]) => {
+              if (typeof value !== 'number' || isNaN(value)) return;
+              historyByLabel.get(label)?.push({ time: parseISO(m.recorded_at).getTime(), value });
             });
-          }
-        } else {
-          const dataPoints: number[] = [];
-          const catLabels: string[] = [];
-          metricsForCategory.forEach(m => {
-            if (typeof m.value === 'number' && !isNaN(m.value)) {
-              dataPoints.push(m.value);
-              catLabels.push(format(parseISO(m.recorded_at), 'MM/dd'));
-            }
           });
-          if (catLabels.length > 0) {
-            labels = catLabels;
-            datasets.push({
-              data: dataPoints,
-              color: (opacity = 1) => theme.colors.primary,
-              strokeWidth: 2
+        historyByLabel.forEach(samples => samples.sort((a, b) => a.time - b.time));
+
+        const statFormat = { unit, decimalPlaces };
+        const pointTimes = completePoints.map(([ts]) => parseISO(ts).getTime());
+        const anomalies: ChartAnomaly[] = [];
+        const weeklyChanges: string[] = [];
+        seriesLabels.forEach(label => {
+          const samples = historyByLabel.get(label) ?? [];
+          findAnomalies(samples).forEach(anomaly => {
+            const index = pointTimes.indexOf(anomaly.time);
+            if (index === -1) return;
+            anomalies.push({
+              index,
+              value: anomaly.value,
+              description: `${format(anomaly.time, 'MM/dd')}${seriesLabels.length > 1 ? ` ${label}` : ''}: ${describeAnomaly(anomaly, statFormat)}`,
             });
+          });
+          const weekly = getWeeklyChange(samples, now);
+          if (weekly.current !== null) {
+            const prefix = seriesLabels.length > 1 ? `${label} ` : '';
+            weeklyChanges.push(
+              weekly.delta === null
+                ? `${prefix}${formatStat(weekly.current, statFormat)} this week`
+                : `${prefix}${formatStat(weekly.current, statFormat)} this week (${weekly.delta >= 0 ? 'up' : 'down'} ${formatStat(Math.abs(weekly.delta), statFormat)} from last week)`
+            );
           }
-        }
+        });
 
-        if (labels.length === 0) { 
-          return { categoryName, unit, chartData: null };
+        const datasets: ChartKitData['datasets'] = seriesLabels.map((label, index) => ({
+          data: completePoints.map(([, point]) => point[label]),
+          color: (opacity = 1) => seriesColors[index % seriesColors.length],
+          strokeWidth: 2,
+          legend: label,
+        }));
+        // A single line gets its moving average drawn behind it
+        if (seriesLabels.length === 1) {
+          const samples = historyByLabel.get(seriesLabels[0]) ?? [];
+          const averages = movingAverage(samples);
+          datasets.push({
+            data: pointTimes.map(time => averages[samples.findIndex(sample => sample.time === time)]),
+            color: () => theme.colors.outline,
+            strokeWidth: 1,
+            withDots: false,
+            strokeDashArray: [6, 4],
+            legend: `${MOVING_AVERAGE_DAYS}-day average`,
+          });
         }
+
         return {
           categoryName,
           unit,
+          decimalPlaces,
+          rangeLabel,
+          weeklyChanges,
+          anomalies: anomalies.sort((a, b) => b.index - a.index),
           chartData: {
-            labels: labels,
-            datasets: datasets,
-            legend: categoryName === 'Blood Pressure' ? ['Systolic', 'Diastolic'] : undefined
+            labels: completePoints.map(([ts]) => format(parseISO(ts), 'MM/dd')),
+            datasets,
+            legend: datasets.length > 1 ? datasets.map(dataset => dataset.legend ?? '') : undefined
           }
         };
       }).filter(pc => pc !== null && pc.chartData !== null && pc.chartData.labels.length > 0) as ProcessedChart[];
@@ -259,8 +299,9 @@ const HealthMetricsDashboardScreen: React.FC = () => {
         // Since dayMetrics is already sorted with newest first for the day (due to initial sort of metricsForHistoryList)
         // the first one we encounter for a category is the latest for that category on that day.
         dayMetrics.forEach(metric => {
-          if (!latestMetricsPerCategory[metric.category_name]) {
-            latestMetricsPerCategory[metric.category_name] = metric;
+          const key = metric.category_id ?? metric.category_name;
+          if (!latestMetricsPerCategory[key]) {
+            latestMetricsPerCategory[key] = metric;
           }
         });
 
@@ -270,7 +311,7 @@ const HealthMetricsDashboardScreen: React.FC = () => {
         };
       }).filter(section => section.data.length > 0); // Ensure sections with no data (after filtering) are not shown
     setMetricHistorySections(sections);
-  }, [user, rawMetrics, selectedTimePeriod, theme.colors.primary, theme.colors.error]);
+  }, [user, rawMetrics, definitions, selectedTimePeriod, theme.colors]);
 
   const fetchRawMetrics = useCallback(async () => {
     if (!user) {
@@ -280,7 +321,7 @@ const HealthMetricsDashboardScreen: React.FC = () => {
     }
     setLoading(true);
     try {
-    const { data, error } = await supabase
+    const [{ data, error }, storedDefinitions, tests] = await Promise.all([supabase
       .from('health_metrics')
       .select(`
         id,
@@ -290,27 +331,28 @@ const HealthMetricsDashboardScreen: React.FC = () => {
           health_metric_categories (id, name, unit)
       `)
       .eq('patient_id', user.id)
-      .order('recorded_at', { ascending: false });
+      .order('recorded_at', { ascending: false }),
+      repositories.metrics.listDefinitions(user.id),
+      repositories.orthostaticTests.listBetween(user.id, new Date(0), new Date()),
+    ]);
 
       if (error) throw error;
 
+      // Readings and ranges are shown in the viewer's units
+      const metricDefinitions = storedDefinitions.map(definition => localizeDefinition(definition, units));
       const newRawMetrics: DisplayHealthMetric[] = data.map((metric: any) => {
         const originalCategoryName = metric.health_metric_categories?.name;
-        let currentCategoryName = originalCategoryName;
+        const definition = metricDefinitions.find(d => d.id === metric.health_metric_categories?.id);
+        const range = definition ? getEffectiveRange(definition) : null;
+        let currentCategoryName = definition?.group ?? originalCategoryName;
         let displayValue;
         let parsedSystolic: number | undefined;
         let parsedDiastolic: number | undefined;
-        const metricValue = parseFloat(metric.value);
-
-        if (originalCategoryName === 'Blood Pressure Systolic') {
-          currentCategoryName = 'Blood Pressure';
-          parsedSystolic = metricValue;
-          displayValue = `${parsedSystolic} ${metric.health_metric_categories?.unit || ''}`.trim();
-        } else if (originalCategoryName === 'Blood Pressure Diastolic') {
-          currentCategoryName = 'Blood Pressure';
-          parsedDiastolic = metricValue;
-          displayValue = `${parsedDiastolic} ${metric.health_metric_categories?.unit || ''}`.trim();
-        } else if (originalCategoryName === 'Blood Pressure') {
+        const conversion = getUnitConversion(metric.health_metric_categories?.unit ?? null, units);
+        const unit = conversion.unit;
+        const metricValue = conversion.toDisplay(parseFloat(metric.value));
+
+        if (originalCategoryName === 'Blood Pressure') {
           // Logic for parsing SBP/DBP from notes if category_name is "Blood Pressure"
           if (metric.notes) {
             const parts = metric.notes.match(/(\d+(\.\d+)?)/g);
@@ -380,8 +422,8 @@ const HealthMetricsDashboardScreen: React.FC = () => {
           } else {
             displayValue = `${metricValue} ${metric.health_metric_categories?.unit || ''}`.trim();
           }
-        } else { // Other categories
-          displayValue = `${metricValue} ${metric.health_metric_categories?.unit || ''}`.trim();
+        } else { // Every other category, including split systolic and diastolic
+          displayValue = formatMetricValue(metricValue, unit);
         }
 
         return {
@@ -389,7 +431,11 @@ const HealthMetricsDashboardScreen: React.FC = () => {
           recorded_at: metric.recorded_at,
           category_name: currentCategoryName || 'Unknown Category',
           original_category_name: (originalCategoryName && originalCategoryName !== currentCategoryName) ? originalCategoryName : undefined,
-          category_unit: metric.health_metric_categories?.unit,
+          category_unit: unit,
+          category_id: metric.health_metric_categories?.id,
+          series_label: definition ? getFieldLabel(definition) : originalCategoryName,
+          range,
+          range_status: getRangeStatus(metricValue, range),
           value: metricValue,
           systolic: parsedSystolic,
           diastolic: parsedDiastolic,
@@ -397,7 +443,9 @@ const HealthMetricsDashboardScreen: React.FC = () => {
           _displayValue: displayValue,
         };
       });
+      setDefinitions(metricDefinitions);
       setRawMetrics(newRawMetrics);
+      setOrthostaticTests(tests);
     } catch (error) {
       console.error('Error fetching health metrics:', error);
       setRawMetrics([]);
@@ -405,7 +453,7 @@ const HealthMetricsDashboardScreen: React.FC = () => {
     setLoading(false);
     setRefreshing(false);
     }
-  }, [user]);
+  }, [user, units]);
 
   useEffect(() => {
     fetchRawMetrics();
@@ -431,9 +479,14 @@ const HealthMetricsDashboardScreen: React.FC = () => {
     <Card style={styles.card}>
       <Card.Content>
           <Title style={{color: theme.colors.primary}}>{item.original_category_name || item.category_name}</Title>
-          <Paragraph style={{fontSize: 18, fontWeight: 'bold', color: theme.colors.secondary}}>
+          <Paragraph style={{fontSize: 18, fontWeight: 'bold', color: item.range_status ? theme.colors.error : theme.colors.secondary}}>
             {item._displayValue}
           </Paragraph>
+          {item.range_status && item.range && (
+            <Text style={{fontSize: 12, color: theme.colors.error}}>
+              {item.range_status === 'low' ? 'Below' : 'Above'} {item.range.personal ? 'target' : 'normal range'} ({formatMetricRange(item.range, item.category_unit)})
+            </Text>
+          )}
           <Text style={{fontSize: 12, color: theme.colors.onSurfaceVariant}}>
             {new Date(item.recorded_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           </Text>
@@ -460,8 +513,8 @@ const HealthMetricsDashboardScreen: React.FC = () => {
     return (
       <Card style={styles.chartCard}>
         <Card.Title 
-          title={`${item.categoryName === 'Blood Sugar' ? 'Sugar' : item.categoryName} Trend (${item.unit || ''})`} 
-          subtitle={`Last ${selectedTimePeriod === '7D' ? '7 Days' : selectedTimePeriod === '30D' ? '30 Days' : 'All Time'}`} 
+          title={`${item.categoryName} Trend (${item.unit || ''})`} 
+          subtitle={`Last ${selectedTimePeriod === '7D' ? '7 Days' : selectedTimePeriod === '30D' ? '30 Days' : 'All Time'}${item.rangeLabel ? ` · ${item.rangeLabel}` : ''}`} 
         />
         <Card.Content>
           <LineChart
@@ -474,7 +527,7 @@ const HealthMetricsDashboardScreen: React.FC = () => {
               backgroundColor: theme.colors.surface,
               backgroundGradientFrom: theme.colors.surfaceVariant,
               backgroundGradientTo: theme.colors.surfaceVariant,
-              decimalPlaces: item.categoryName === 'Blood Pressure' ? 0 : 1,
+              decimalPlaces: item.decimalPlaces,
               color: (opacity = 1) => theme.colors.primary,
               labelColor: (opacity = 1) => theme.colors.onSurfaceVariant,
               style: {
@@ -505,7 +558,11 @@ const HealthMetricsDashboardScreen: React.FC = () => {
             verticalLabelRotation={item.chartData.labels.length > 7 ? 30 : 0}
             hidePointsAtIndex={[]}
             renderDotContent={({x, y, index, indexData}) => {
-              return null;
+              // Ring readings that stand out from the patient's baseline
+              const anomaly = item.anomalies.find(a => a.index === index && a.value === indexData);
+              return anomaly ? (
+                <Circle key={`anomaly-${index}-${indexData}`} cx={x} cy={y} r={8} stroke={theme.colors.error} strokeWidth={2} fill="none" />
+              ) : null;
             }}
           />
           {item.chartData.datasets.length > 1 && item.chartData.legend && (
@@ -518,11 +575,23 @@ const HealthMetricsDashboardScreen: React.FC = () => {
               ))}
         </View>
         )}
+          {item.weeklyChanges.map(change => (
+            <Text key={change} style={[styles.chartNote, { color: theme.colors.onSurfaceVariant }]}>{change}</Text>
+          ))}
+          {item.anomalies.slice(0, ANOMALIES_LISTED).map(anomaly => (
+            <Text key={`${anomaly.index}-${anomaly.value}`} style={[styles.chartNote, { color: theme.colors.error }]}>
+              {anomaly.description}
+            </Text>
+          ))}
       </Card.Content>
     </Card>
   );
   };
 
+  const orthostaticTestsInPeriod = orthostaticTests.filter(
+    test => new Date(test.started_at) >= getPeriodStart(selectedTimePeriod, new Date())
+  );
+
   if (loading && !refreshing && rawMetrics.length === 0) {
     return (
       <View style={[styles.container, styles.centered, { backgroundColor: theme.colors.background }]}>
@@ -573,9 +642,16 @@ const HealthMetricsDashboardScreen: React.FC = () => {
         renderItem={renderChartItem}
         keyExtractor={(item, index) => `chart-${item.categoryName}-${index}`}
         ListHeaderComponent={
-            processedChartData.length > 0 ? (
+            <>
+              {processedChartData.length > 0 && (
                 <Text style={[styles.headerTitle, {color: theme.colors.onSurface}]}>Metric Charts</Text>
-            ) : null
+              )}
+              <OrthostaticTrendCard
+                tests={orthostaticTestsInPeriod}
+                onStartTest={() => navigation.navigate('OrthostaticTest')}
+                style={styles.chartCard}
+              />
+            </>
         }
         ListEmptyComponent={
             !loading && !refreshing && processedChartData.length === 0 ? (
@@ -615,12 +691,21 @@ const HealthMetricsDashboardScreen: React.FC = () => {
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[theme.colors.primary]} progressBackgroundColor={theme.colors.surface} />
         }
       />
+      <FAB
+        style={[styles.reportFab, { backgroundColor: theme.colors.secondaryContainer }]}
+        icon="file-export"
+        size="small"
+        color={theme.colors.onSecondaryContainer}
+        onPress={() => setReportVisible(true)}
+        accessibilityLabel="Export visit report"
+      />
       <FAB
         style={[styles.fab, { backgroundColor: theme.colors.primaryContainer }]}
         icon="plus"
         color={theme.colors.onPrimaryContainer}
         onPress={() => navigation.navigate('LogHealthMetric')}
       />
+      <VisitReportModal visible={reportVisible} onDismiss={() => setReportVisible(false)} />
     </View>
   );
 };
@@ -651,6 +736,12 @@ const styles = StyleSheet.create({
     right: 0,
     bottom: 0,
   },
+  reportFab: {
+    position: 'absolute',
+    margin: 16,
+    right: 4,
+    bottom: 72,
+  },
   headerTitle: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -675,6 +766,10 @@ const styles = StyleSheet.create({
     marginTop: 10,
     marginBottom: 5,
   },
+  chartNote: {
+    fontSize: 12,
+    marginTop: 4,
+  },
   legendContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import { View, ScrollView, StyleSheet, Alert, TouchableOpacity } from 'react-native';
 import {
   Text,
@@ -9,182 +9,118 @@ import {
   useTheme,
   ActivityIndicator,
   Icon,
+  HelperText,
 } from 'react-native-paper';
 import { useAuth } from '../../context/AuthContext.tsx';
-import { supabase } from '../../lib/supabase';
-import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
-import { MainBottomTabParamList } from '../navigation/MainBottomTabNavigator';
-
-// Define a type for our health categories, based on the table structure
-interface HealthCategory {
-  id: string;
-  name: string;
-  unit: string | null;
-  icon?: string; // Keep for potential future use if we map all categories
-}
-
-// Define the specific metric types we will handle directly
-type MetricType = 'blood_pressure' | 'sugar' | 'weight' | 'sleep';
-
-interface MetricTypeOption {
-  key: MetricType;
-  label: string;
-  icon: string;
-  // Define which category names from DB correspond to this type
-  dbCategoryNames: string[]; 
-  // Store fetched category IDs
-  categoryIds?: { [key: string]: string }; // e.g., { systolic: 'uuid', diastolic: 'uuid' } or { default: 'uuid' }
-  unit?: string; // Store the unit for display
-}
-
-type HealthMetricsScreenNavigationProp = BottomTabNavigationProp<
-  MainBottomTabParamList,
-  'HealthMetrics' // Ensure this matches the name in your navigator
->;
-
-type Props = {
-  navigation: HealthMetricsScreenNavigationProp;
-};
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { HealthMetricsStackParamList } from '../navigation/MainBottomTabNavigator';
+import OfflineSyncService from '../../services/OfflineSyncService';
+import { usePendingSync } from '../../hooks/usePendingSync';
+import { useUnitPreferences } from '../../hooks/useUnitPreferences';
+import { repositories } from '../../lib/repositories';
+import {
+  MetricDefinition,
+  MetricGroup,
+  formatMetricRange,
+  getEffectiveRange,
+  getFieldLabel,
+  getRangeStatus,
+  groupMetricDefinitions,
+  parseMetricInput,
+} from '../../lib/metricDefinitions';
+import { getUnitConversion, localizeDefinition } from '../../lib/units';
 
-// Define the fetchCategories function
-const fetchCategories = async (): Promise<HealthCategory[]> => {
-  const { data, error } = await supabase
-    .from('health_metric_categories')
-    .select('id, name, unit');
+type HealthMetricsScreenNavigationProp = StackNavigationProp<HealthMetricsStackParamList, 'LogHealthMetric'>;
 
-  if (error) {
-    console.error('Error fetching health_metric_categories:', error);
-    throw new Error(error.message || 'Failed to fetch health categories from database.');
-  }
-  return data || [];
-};
-
-const HealthMetricsScreen: React.FC<Props> = ({ navigation }) => {
+const HealthMetricsScreen: React.FC = () => {
   const theme = useTheme();
   const { user } = useAuth();
+  const navigation = useNavigation<HealthMetricsScreenNavigationProp>();
 
-  const [metricTypeOptions, setMetricTypeOptions] = useState<MetricTypeOption[]>([
-    { key: 'blood_pressure', label: 'Blood Pressure', icon: 'heart-pulse', dbCategoryNames: ['Blood Pressure Systolic', 'Blood Pressure Diastolic'] },
-    { key: 'sugar', label: 'Sugar', icon: 'water', dbCategoryNames: ['Blood Sugar', 'Glucose', 'Sugar'] }, // Add all relevant DB names
-    { key: 'weight', label: 'Weight', icon: 'weight-kilogram', dbCategoryNames: ['Weight'] },
-    { key: 'sleep', label: 'Sleep', icon: 'sleep', dbCategoryNames: ['Sleep Duration', 'Sleep'] }, // Add all relevant DB names
-  ]);
-  const [selectedMetricType, setSelectedMetricType] = useState<MetricType>('blood_pressure');
+  // The groups the patient can log, built from their metric definitions
+  const [metricGroups, setMetricGroups] = useState<MetricGroup[]>([]);
+  const [selectedGroupName, setSelectedGroupName] = useState<string | null>(null);
   const [categoriesLoading, setCategoriesLoading] = useState<boolean>(true);
 
-  // Input states
-  const [systolic, setSystolic] = useState('');
-  const [diastolic, setDiastolic] = useState('');
-  const [value, setValue] = useState(''); // For sugar, weight, sleep
+  // Input states, one value per definition id in the selected group
+  const [values, setValues] = useState<Record<string, string>>({});
   const [notes, setNotes] = useState('');
   const [submitLoading, setSubmitLoading] = useState(false);
+  const { pendingMetricCount } = usePendingSync();
+  const { units } = useUnitPreferences();
 
-  // Fetch and map category IDs on mount
-  useEffect(() => {
-    const initScreen = async () => {
-      setCategoriesLoading(true);
-      try {
-        const fetchedCategories = await fetchCategories();
-        if (fetchedCategories) {
-          const updatedOptions = metricTypeOptions.map(opt => {
-            let catIds: MetricCategoryIds = {};
-            if (opt.key === 'blood_pressure') {
-              const systolicCat = fetchedCategories.find(cat => cat.name.toLowerCase().includes('systolic'));
-              const diastolicCat = fetchedCategories.find(cat => cat.name.toLowerCase().includes('diastolic'));
-              if (systolicCat) catIds.systolic = systolicCat.id;
-              if (diastolicCat) catIds.diastolic = diastolicCat.id;
-            } else if (opt.key === 'sugar') {
-              // Explicitly find "Blood Glucose" by its exact name (case-insensitive)
-              const sugarCat = fetchedCategories.find(cat => cat.name.toLowerCase() === 'blood glucose');
-              if (sugarCat) {
-                catIds.default = sugarCat.id;
-              } else {
-                // Fallback if "Blood Glucose" isn't found for some reason (should not happen based on DB)
-                const genericSugarCat = fetchedCategories.find(cat => 
-                  cat.name.toLowerCase().includes('sugar') || cat.name.toLowerCase().includes('glucose')
-                );
-                if (genericSugarCat) catIds.default = genericSugarCat.id;
-              }
-            } else {
-              // Original logic for other types like weight, sleep
-              const matchedCat = fetchedCategories.find(cat => cat.name.toLowerCase().includes(opt.key.replace('_', ' ')));
-              if (matchedCat) catIds.default = matchedCat.id;
-            }
-            return { ...opt, categoryIds: catIds };
-          });
-          setMetricTypeOptions(updatedOptions);
-
-          // Pre-select the first available type
-          const firstAvailable = metricTypeOptions.find(opt => 
-            opt.categoryIds && (opt.key === 'blood_pressure' ? (opt.categoryIds.systolic && opt.categoryIds.diastolic) : opt.categoryIds.default)
+  // Reload on focus so metrics added on the Tracked Metrics screen show up
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      const initScreen = async () => {
+        try {
+          const definitions = await repositories.metrics.listDefinitions(user.id);
+          const groups = groupMetricDefinitions(definitions.filter(definition => !definition.archived));
+          setMetricGroups(groups);
+          setSelectedGroupName(current =>
+            current && groups.some(group => group.name === current) ? current : groups[0]?.name ?? null
           );
-          if (firstAvailable) {
-            setSelectedMetricType(firstAvailable.key);
-          }
-
+        } catch (err: any) {
+          console.error('Error fetching metric definitions:', err.message || 'Failed to load initial data.');
+          Alert.alert('Error', err.message || 'Failed to load initial data.');
+        } finally {
+          setCategoriesLoading(false);
         }
-      } catch (err: any) {
-        console.error('Error fetching health categories:', err.message || 'Failed to load initial data.');
-        Alert.alert('Error', err.message || 'Failed to load initial data.');
-      } finally {
-        setCategoriesLoading(false);
-      }
-    };
+      };
 
-    initScreen();
-  }, []);
+      initScreen();
+    }, [user?.id])
+  );
+
+  const selectedGroup = metricGroups.find(group => group.name === selectedGroupName);
 
-  const handleTypeSelect = (type: MetricType) => {
-    setSelectedMetricType(type);
+  const handleGroupSelect = (groupName: string) => {
+    setSelectedGroupName(groupName);
     // Reset input fields when type changes
-    setSystolic('');
-    setDiastolic('');
-    setValue('');
+    setValues({});
     setNotes('');
   };
 
-  const renderMetricInputs = () => {
-    const currentOption = metricTypeOptions.find(opt => opt.key === selectedMetricType);
-    if (!currentOption) return null;
+  // `definition` is in the user's units here
+  const renderRangeHint = (definition: MetricDefinition) => {
+    const range = getEffectiveRange(definition);
+    const value = parseMetricInput(values[definition.id] ?? '', definition.inputType);
+    const status = value === null ? null : getRangeStatus(value, range);
 
-    switch (selectedMetricType) {
-      case 'blood_pressure':
-        return (
-          <>
-            <TextInput
-              label={`Systolic (${currentOption.unit || 'mmHg'})`}
-              value={systolic}
-              onChangeText={setSystolic}
-              keyboardType="number-pad"
-              mode="outlined"
-              style={styles.input}
-            />
-            <TextInput
-              label={`Diastolic (${currentOption.unit || 'mmHg'})`}
-              value={diastolic}
-              onChangeText={setDiastolic}
-              keyboardType="number-pad"
-              mode="outlined"
-              style={styles.input}
-            />
-          </>
-        );
-      case 'sugar':
-      case 'weight':
-      case 'sleep':
-        return (
-          <TextInput
-            label={`${currentOption.label} (${currentOption.unit || 'value'})`}
-            value={value}
-            onChangeText={setValue}
-            keyboardType="numeric"
-            mode="outlined"
-            style={styles.input}
-          />
-        );
-      default:
-        return null;
+    if (status && range) {
+      return (
+        <HelperText type="error" visible>
+          {status === 'low' ? 'Below' : 'Above'} {range.personal ? 'your target' : 'the normal range'} ({formatMetricRange(range, definition.unit)})
+        </HelperText>
+      );
+    }
+    if (range) {
+      return (
+        <HelperText type="info" visible>
+          {range.personal ? 'Your target' : 'Normal range'}: {formatMetricRange(range, definition.unit)}
+        </HelperText>
+      );
     }
+    return null;
+  };
+
+  const renderMetricInputs = () => {
+    if (!selectedGroup) return null;
+
+    return selectedGroup.definitions.map(stored => localizeDefinition(stored, units)).map(definition => (
+      <View key={definition.id} style={styles.field}>
+        <TextInput
+          label={`${getFieldLabel(definition)} (${definition.unit || 'value'})`}
+          value={values[definition.id] ?? ''}
+          onChangeText={text => setValues(current => ({ ...current, [definition.id]: text }))}
+          keyboardType={definition.inputType === 'integer' ? 'number-pad' : 'decimal-pad'}
+          mode="outlined"
+        />
+        {renderRangeHint(definition)}
+      </View>
+    ));
   };
 
   const handleSubmit = async () => {
@@ -192,104 +128,63 @@ const HealthMetricsScreen: React.FC<Props> = ({ navigation }) => {
       Alert.alert('Error', 'You must be logged in to save metrics.');
       return;
     }
-    setSubmitLoading(true);
-
-    const currentOption = metricTypeOptions.find(opt => opt.key === selectedMetricType);
-    if (!currentOption || !currentOption.categoryIds) {
-      Alert.alert('Error', 'Category not configured. Please wait or try again.');
-      setSubmitLoading(false);
+    if (!selectedGroup) {
+      Alert.alert('Error', 'Choose what you are logging first.');
       return;
     }
 
-    const metricsToInsert: any[] = [];
     const recorded_at = new Date().toISOString();
+    const metricsToInsert = [];
 
-    if (selectedMetricType === 'blood_pressure') {
-      if (!systolic || !diastolic) {
-        Alert.alert('Error', 'Please enter both systolic and diastolic values.');
-        setSubmitLoading(false);
-        return;
-      }
-      const systolicValue = parseFloat(systolic);
-      const diastolicValue = parseFloat(diastolic);
-      if (isNaN(systolicValue) || isNaN(diastolicValue)) {
-        Alert.alert('Error', 'Invalid blood pressure values.');
-        setSubmitLoading(false);
+    // Every field of a group is required: systolic without diastolic is not a reading
+    for (const stored of selectedGroup.definitions) {
+      // Typed in the user's units, saved in the category's
+      const definition = localizeDefinition(stored, units);
+      const text = values[definition.id] ?? '';
+      if (!text.trim()) {
+        Alert.alert('Error', `Please enter a value for ${getFieldLabel(definition)}.`);
         return;
       }
-      if (currentOption.categoryIds.systolic) {
-        metricsToInsert.push({
-          patient_id: user.id,
-          category_id: currentOption.categoryIds.systolic,
-          value: systolicValue,
-          notes: notes || null,
-          recorded_at: recorded_at,
-        });
-      }
-      if (currentOption.categoryIds.diastolic) {
-        metricsToInsert.push({
-          patient_id: user.id,
-          category_id: currentOption.categoryIds.diastolic,
-          value: diastolicValue,
-          notes: notes || null, // Could also choose to only add notes to one, or a summary note
-          recorded_at: recorded_at,
-        });
-      }
-      if (metricsToInsert.length < 2 && (currentOption.categoryIds.systolic || currentOption.categoryIds.diastolic)) {
-        // This means one of the BP category IDs was missing, which is an issue
-        Alert.alert('Configuration Error', 'Blood pressure categories not fully configured.');
-        setSubmitLoading(false);
-        return;
-      }
-    } else {
-      if (!value) {
-        Alert.alert('Error', `Please enter a value for ${currentOption.label}.`);
-        setSubmitLoading(false);
-        return;
-      }
-      const numericValue = parseFloat(value);
-      if (isNaN(numericValue)) {
-        Alert.alert('Error', `Invalid value for ${currentOption.label}.`);
-        setSubmitLoading(false);
-        return;
-      }
-      if (currentOption.categoryIds.default) {
-        metricsToInsert.push({
-          patient_id: user.id,
-          category_id: currentOption.categoryIds.default,
-          value: numericValue,
-          notes: notes || null,
-          recorded_at: recorded_at,
-        });
-      } else {
-        Alert.alert('Configuration Error', `${currentOption.label} category not configured.`);
-        setSubmitLoading(false);
+      const numericValue = parseMetricInput(text, definition.inputType);
+      if (numericValue === null) {
+        Alert.alert(
+          'Error',
+          definition.inputType === 'integer'
+            ? `${getFieldLabel(definition)} must be a whole number.`
+            : `Invalid value for ${getFieldLabel(definition)}.`
+        );
         return;
       }
+      metricsToInsert.push({
+        patient_id: user.id,
+        category_id: definition.id,
+        value: getUnitConversion(stored.unit, units).toCanonical(numericValue),
+        notes: notes || null,
+        recorded_at: recorded_at,
+      });
     }
 
-    if (metricsToInsert.length === 0) {
-      Alert.alert('Error', 'No valid data to save.');
+    setSubmitLoading(true);
+    let synced = false;
+    try {
+      ({ synced } = await OfflineSyncService.submit({ kind: 'health_metrics', payload: metricsToInsert }));
+    } catch (error: any) {
       setSubmitLoading(false);
+      console.error('Error saving health metric:', error);
+      Alert.alert('Error', `Failed to save metric: ${error.message}`);
       return;
     }
 
-    const { error } = await supabase.from('health_metrics').insert(metricsToInsert);
-
     setSubmitLoading(false);
-    if (error) {
-      console.error('Error saving health metric:', error);
-      Alert.alert('Error', `Failed to save metric: ${error.message}`);
-    } else {
-      Alert.alert('Success', `${currentOption.label} metric saved successfully!`);
-      // Reset fields after successful submission
-      setSystolic('');
-      setDiastolic('');
-      setValue('');
-      setNotes('');
-      // Optionally navigate back or refresh data on the dashboard
-      // navigation.goBack();
-    }
+    Alert.alert(
+      synced ? 'Success' : 'Saved Offline',
+      synced
+        ? `${selectedGroup.name} saved successfully!`
+        : `${selectedGroup.name} saved on this device and will sync when you're back online.`
+    );
+    // Reset fields after successful submission
+    setValues({});
+    setNotes('');
   };
 
   if (categoriesLoading) {
@@ -306,35 +201,34 @@ const HealthMetricsScreen: React.FC<Props> = ({ navigation }) => {
       <Title style={[styles.title, { color: theme.colors.onBackground }]}>Log Health Metric</Title>
 
       <View style={styles.metricTypeSelectorContainer}>
-        {metricTypeOptions.map((opt) => {
-          const isBloodPressure = opt.key === 'blood_pressure';
-          const idsAvailable = opt.categoryIds && 
-                                (isBloodPressure ? (opt.categoryIds.systolic && opt.categoryIds.diastolic) : opt.categoryIds.default);
-          const isDisabled = !idsAvailable;
+        {metricGroups.map(group => {
+          const isSelected = group.name === selectedGroupName;
           return (
             <TouchableOpacity
-              key={opt.key}
+              key={group.name}
               style={[
                 styles.metricTypeButton,
-                selectedMetricType === opt.key 
-                  ? { backgroundColor: theme.colors.primaryContainer } 
-                  : { backgroundColor: theme.colors.surfaceVariant },
-                isDisabled && styles.disabledMetricTypeButtonBase,
-                isDisabled && { backgroundColor: theme.colors.surfaceDisabled }
+                isSelected ? { backgroundColor: theme.colors.primaryContainer } : { backgroundColor: theme.colors.surfaceVariant },
               ]}
-              onPress={() => handleTypeSelect(opt.key)}
-              disabled={isDisabled}
+              onPress={() => handleGroupSelect(group.name)}
             >
-              <Icon source={opt.icon} size={24} color={selectedMetricType === opt.key ? theme.colors.onPrimaryContainer : (isDisabled ? theme.colors.onSurfaceDisabled : theme.colors.onSurfaceVariant)} />
+              <Icon source={group.icon} size={24} color={isSelected ? theme.colors.onPrimaryContainer : theme.colors.onSurfaceVariant} />
               <Text style={[
                 styles.metricTypeButtonText,
-                { color: selectedMetricType === opt.key ? theme.colors.onPrimaryContainer : (isDisabled ? theme.colors.onSurfaceDisabled : theme.colors.onSurfaceVariant) }
-              ]}>{opt.label}</Text>
+                { color: isSelected ? theme.colors.onPrimaryContainer : theme.colors.onSurfaceVariant }
+              ]}>{group.name}</Text>
             </TouchableOpacity>
           );
         })}
       </View>
 
+      <Button mode="text" icon="tune-variant" onPress={() => navigation.navigate('TrackedMetrics')} style={styles.manageButton}>
+        Add or change tracked metrics
+      </Button>
+      <Button mode="text" icon="human-handsup" onPress={() => navigation.navigate('OrthostaticTest')} style={styles.manageButton}>
+        Take a lying-to-standing blood pressure test
+      </Button>
+
       <Card style={[styles.card, { backgroundColor: theme.colors.surface }]}>
         <Card.Content>
           {renderMetricInputs()}
@@ -350,11 +244,20 @@ const HealthMetricsScreen: React.FC<Props> = ({ navigation }) => {
         </Card.Content>
       </Card>
 
+      {pendingMetricCount > 0 && (
+        <View style={styles.pendingSyncRow}>
+          <Icon source="cloud-upload-outline" size={16} color={theme.colors.onSurfaceVariant} />
+          <Text style={[styles.pendingSyncText, { color: theme.colors.onSurfaceVariant }]}>
+            {pendingMetricCount === 1 ? '1 reading' : `${pendingMetricCount} readings`} pending sync
+          </Text>
+        </View>
+      )}
+
       <Button
         mode="contained"
         onPress={handleSubmit}
         loading={submitLoading}
-        disabled={submitLoading || categoriesLoading}
+        disabled={submitLoading || !selectedGroup}
         style={styles.button}
         labelStyle={styles.buttonLabel}
         icon="plus-circle"
@@ -387,7 +290,7 @@ const styles = StyleSheet.create({
   metricTypeSelectorContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
-    marginBottom: 20,
+    marginBottom: 4,
     flexWrap: 'wrap', // Allow wrapping on smaller screens
   },
   metricTypeButton: {
@@ -402,18 +305,22 @@ const styles = StyleSheet.create({
     flexDirection: 'row', // Icon and text side-by-side
     justifyContent: 'center',
   },
-  disabledMetricTypeButtonBase: {
-    opacity: 0.7, // Optional: further visual cue for disabled state
-  },
   metricTypeButtonText: {
     marginLeft: 8,
     fontSize: 14,
     fontWeight: '600',
   },
+  manageButton: {
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
   card: {
     marginBottom: 20,
     elevation: 2,
   },
+  field: {
+    marginBottom: 4,
+  },
   input: {
     marginBottom: 12,
   },
@@ -425,6 +332,16 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  pendingSyncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  pendingSyncText: {
+    marginLeft: 6,
+    fontSize: 13,
+  },
 });
 
-export default HealthMetricsScreen; 
\ No newline at end of file
+export default HealthMetricsScreen;
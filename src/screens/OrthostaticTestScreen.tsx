@@ -0,0 +1,402 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, ScrollView, StyleSheet, Alert } from 'react-native';
+import { Text, Button, TextInput, Card, Title, Switch, Surface, HelperText, Icon, useTheme } from 'react-native-paper';
+import * as Haptics from 'expo-haptics';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useAuth } from '../../context/AuthContext';
+import { HealthMetricsStackParamList } from '../navigation/MainBottomTabNavigator';
+import OfflineSyncService from '../../services/OfflineSyncService';
+import {
+  BloodPressureReading,
+  LYING_REST_SECONDS,
+  STANDING_CHECKPOINTS,
+  describeOrthostaticResult,
+  evaluateOrthostaticTest,
+  formatTimer,
+  getNextCheckpoint,
+  parseBloodPressureReading,
+} from '../../lib/orthostatic';
+
+type OrthostaticTestScreenNavigationProp = StackNavigationProp<HealthMetricsStackParamList, 'OrthostaticTest'>;
+
+type Step = 'intro' | 'lying' | 'standing' | 'review';
+
+type Stage = 'lying' | 'standing1' | 'standing3';
+
+interface ReadingText {
+  systolic: string;
+  diastolic: string;
+  heartRate: string;
+}
+
+const EMPTY_READING: ReadingText = { systolic: '', diastolic: '', heartRate: '' };
+
+const STAGE_LABELS: Record<Stage, string> = {
+  lying: 'Lying down',
+  standing1: '1 minute standing',
+  standing3: '3 minutes standing',
+};
+
+const secondsSince = (start: Date | null, now: number) => (start ? (now - start.getTime()) / 1000 : 0);
+
+const OrthostaticTestScreen: React.FC = () => {
+  const theme = useTheme();
+  const { user } = useAuth();
+  const navigation = useNavigation<OrthostaticTestScreenNavigationProp>();
+
+  const [step, setStep] = useState<Step>('intro');
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [stoodAt, setStoodAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [texts, setTexts] = useState<Record<Stage, ReadingText>>({
+    lying: EMPTY_READING,
+    standing1: EMPTY_READING,
+    standing3: EMPTY_READING,
+  });
+  const [sitDownEarly, setSitDownEarly] = useState(false);
+  const [symptomatic, setSymptomatic] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const announced = useRef(new Set<string>());
+
+  // Tick while a timer is on screen, and buzz when a reading falls due
+  useEffect(() => {
+    if (step !== 'lying' && step !== 'standing') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [step]);
+
+  useEffect(() => {
+    const due =
+      step === 'lying'
+        ? secondsSince(startedAt, now) >= LYING_REST_SECONDS ? ['rest'] : []
+        : step === 'standing'
+          ? STANDING_CHECKPOINTS.filter(c => secondsSince(stoodAt, now) >= c.seconds).map(c => c.key)
+          : [];
+    due.forEach(key => {
+      if (announced.current.has(key)) return;
+      announced.current.add(key);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    });
+  }, [step, now, startedAt, stoodAt]);
+
+  const parsed = (stage: Stage): BloodPressureReading | string =>
+    parseBloodPressureReading(texts[stage].systolic, texts[stage].diastolic, texts[stage].heartRate);
+
+  const reading = (stage: Stage): BloodPressureReading | null => {
+    const result = parsed(stage);
+    return typeof result === 'string' ? null : result;
+  };
+
+  const updateText = (stage: Stage, field: keyof ReadingText, value: string) =>
+    setTexts(current => ({ ...current, [stage]: { ...current[stage], [field]: value } }));
+
+  const lyingSeconds = secondsSince(startedAt, now);
+  const standingSeconds = secondsSince(stoodAt, now);
+  const nextCheckpoint = getNextCheckpoint(standingSeconds);
+
+  const startLying = () => {
+    announced.current.clear();
+    setStartedAt(new Date());
+    setNow(Date.now());
+    setStep('lying');
+  };
+
+  const standUp = () => {
+    const begin = () => {
+      setStoodAt(new Date());
+      setNow(Date.now());
+      setStep('standing');
+    };
+    if (lyingSeconds < LYING_REST_SECONDS) {
+      Alert.alert(
+        'Rest a little longer?',
+        `Readings are most reliable after ${LYING_REST_SECONDS / 60} minutes lying down.`,
+        [
+          { text: 'Keep resting', style: 'cancel' },
+          { text: 'Stand up now', onPress: begin },
+        ]
+      );
+      return;
+    }
+    begin();
+  };
+
+  const finishStanding = (stoppedEarly: boolean) => {
+    setSitDownEarly(stoppedEarly);
+    if (stoppedEarly) setSymptomatic(true);
+    setStep('review');
+  };
+
+  const lying = reading('lying');
+  const standing1 = reading('standing1');
+  const standing3 = sitDownEarly ? null : reading('standing3');
+  const result = lying && standing1 ? evaluateOrthostaticTest({ lying, standing1, standing3 }) : null;
+
+  const saveTest = async () => {
+    if (!user || !startedAt || !stoodAt || !lying || !standing1) return;
+
+    setSaving(true);
+    let synced = false;
+    try {
+      ({ synced } = await OfflineSyncService.submit({
+        kind: 'orthostatic_test',
+        payload: {
+          patient_id: user.id,
+          started_at: startedAt.toISOString(),
+          stood_at: stoodAt.toISOString(),
+          lying_systolic: lying.systolic,
+          lying_diastolic: lying.diastolic,
+          lying_heart_rate: lying.heartRate,
+          standing_1_systolic: standing1.systolic,
+          standing_1_diastolic: standing1.diastolic,
+          standing_1_heart_rate: standing1.heartRate,
+          standing_3_systolic: standing3?.systolic ?? null,
+          standing_3_diastolic: standing3?.diastolic ?? null,
+          standing_3_heart_rate: standing3?.heartRate ?? null,
+          symptomatic,
+          notes: notes.trim() || null,
+        },
+      }));
+    } catch (error: any) {
+      setSaving(false);
+      console.error('Error saving orthostatic test:', error);
+      Alert.alert('Error', `Failed to save the test: ${error.message}`);
+      return;
+    }
+
+    setSaving(false);
+    Alert.alert(
+      synced ? 'Test saved' : 'Saved Offline',
+      synced ? 'Your standing blood pressure test was saved.' : "The test is saved on this device and will sync when you're back online."
+    );
+    navigation.goBack();
+  };
+
+  const renderReadingFields = (stage: Stage) => {
+    const result = parsed(stage);
+    const typed = texts[stage].systolic !== '' && texts[stage].diastolic !== '';
+    return (
+      <View>
+        <Text variant="labelLarge" style={styles.stageLabel}>{STAGE_LABELS[stage]}</Text>
+        <View style={styles.inputRow}>
+          <TextInput
+            label="Systolic"
+            value={texts[stage].systolic}
+            onChangeText={value => updateText(stage, 'systolic', value)}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.input}
+          />
+          <TextInput
+            label="Diastolic"
+            value={texts[stage].diastolic}
+            onChangeText={value => updateText(stage, 'diastolic', value)}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.input}
+          />
+          <TextInput
+            label="Pulse"
+            value={texts[stage].heartRate}
+            onChangeText={value => updateText(stage, 'heartRate', value)}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.input}
+          />
+        </View>
+        <HelperText type="error" visible={typed && typeof result === 'string'}>
+          {typeof result === 'string' ? result : ''}
+        </HelperText>
+      </View>
+    );
+  };
+
+  const renderTimer = (label: string, seconds: number, done: boolean) => (
+    <Surface style={[styles.timer, { backgroundColor: done ? theme.colors.primaryContainer : theme.colors.surfaceVariant }]} elevation={0}>
+      <Text variant="displaySmall" style={styles.timerText}>{formatTimer(seconds)}</Text>
+      <Text variant="bodyMedium">{label}</Text>
+    </Surface>
+  );
+
+  return (
+    <ScrollView style={[styles.container, { backgroundColor: theme.colors.background }]} contentContainerStyle={styles.contentContainer}>
+      <Title style={[styles.title, { color: theme.colors.onBackground }]}>Standing Blood Pressure Test</Title>
+
+      {step === 'intro' && (
+        <Card style={styles.card}>
+          <Card.Content style={styles.cardContent}>
+            <Text variant="bodyMedium">
+              This test checks whether your blood pressure drops when you stand up, which can cause dizziness and falls.
+            </Text>
+            <Text variant="bodyMedium">1. Lie down with the cuff on and rest for {LYING_REST_SECONDS / 60} minutes, then take a reading.</Text>
+            <Text variant="bodyMedium">2. Stand up. Take a reading after 1 minute and again after 3 minutes.</Text>
+            <Text variant="bodyMedium">
+              Have someone with you if you can. If you feel faint, sit or lie down straight away; you can finish the test early.
+            </Text>
+            <Button mode="contained" icon="bed" onPress={startLying}>I'm lying down, start</Button>
+          </Card.Content>
+        </Card>
+      )}
+
+      {step === 'lying' && (
+        <Card style={styles.card}>
+          <Card.Content style={styles.cardContent}>
+            {renderTimer(
+              lyingSeconds >= LYING_REST_SECONDS ? 'Rested. Take your lying reading now.' : 'Keep resting before your lying reading',
+              Math.max(0, LYING_REST_SECONDS - lyingSeconds),
+              lyingSeconds >= LYING_REST_SECONDS
+            )}
+            {renderReadingFields('lying')}
+            <Button mode="contained" icon="human-handsup" onPress={standUp} disabled={!lying}>
+              Stand up now
+            </Button>
+          </Card.Content>
+        </Card>
+      )}
+
+      {step === 'standing' && (
+        <Card style={styles.card}>
+          <Card.Content style={styles.cardContent}>
+            {renderTimer(
+              nextCheckpoint ? `Standing. Next reading at ${nextCheckpoint.label}` : 'Standing. Take your 3 minute reading now.',
+              standingSeconds,
+              nextCheckpoint === null
+            )}
+            {standingSeconds >= STANDING_CHECKPOINTS[0].seconds && renderReadingFields('standing1')}
+            {standingSeconds >= STANDING_CHECKPOINTS[1].seconds && renderReadingFields('standing3')}
+            <View style={styles.switchRow}>
+              <Text variant="bodyMedium" style={styles.switchLabel}>Dizzy or light-headed since standing</Text>
+              <Switch value={symptomatic} onValueChange={setSymptomatic} />
+            </View>
+            <Button mode="contained" icon="check" onPress={() => finishStanding(false)} disabled={!standing1 || !reading('standing3')}>
+              Done
+            </Button>
+            <Button mode="outlined" icon="seat" onPress={() => finishStanding(true)} disabled={!standing1}>
+              I had to sit down
+            </Button>
+          </Card.Content>
+        </Card>
+      )}
+
+      {step === 'review' && result && lying && standing1 && (
+        <Card style={styles.card}>
+          <Card.Content style={styles.cardContent}>
+            <Surface
+              style={[styles.result, { backgroundColor: result.isOrthostatic ? theme.colors.errorContainer : theme.colors.primaryContainer }]}
+              elevation={0}
+            >
+              <Icon
+                source={result.isOrthostatic ? 'alert-circle' : 'check-circle'}
+                size={28}
+                color={result.isOrthostatic ? theme.colors.onErrorContainer : theme.colors.onPrimaryContainer}
+              />
+              <Text
+                variant="bodyMedium"
+                style={[styles.resultText, { color: result.isOrthostatic ? theme.colors.onErrorContainer : theme.colors.onPrimaryContainer }]}
+              >
+                {describeOrthostaticResult(result)}
+              </Text>
+            </Surface>
+
+            {([['lying', lying], ['standing1', standing1], ['standing3', standing3]] as [Stage, BloodPressureReading | null][]).map(
+              ([stage, value]) => (
+                <View key={stage} style={styles.readingRow}>
+                  <Text variant="bodyMedium">{STAGE_LABELS[stage]}</Text>
+                  <Text variant="bodyMedium" style={styles.bold}>
+                    {value
+                      ? `${value.systolic}/${value.diastolic} mmHg${value.heartRate !== null ? `, pulse ${value.heartRate}` : ''}`
+                      : 'Sat down early'}
+                  </Text>
+                </View>
+              )
+            )}
+            {result.heartRateRise !== null && (
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                Pulse rose by {result.heartRateRise} beats per minute on standing.
+              </Text>
+            )}
+            {result.isOrthostatic && symptomatic && (
+              <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+                Sit down until the dizziness passes, and let your care team know about this result.
+              </Text>
+            )}
+
+            <TextInput label="Notes (Optional)" value={notes} onChangeText={setNotes} mode="outlined" multiline numberOfLines={3} />
+            <Button mode="contained" icon="content-save" onPress={saveTest} loading={saving} disabled={saving}>
+              Save Test
+            </Button>
+          </Card.Content>
+        </Card>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  card: {
+    marginBottom: 20,
+    elevation: 2,
+  },
+  cardContent: {
+    gap: 12,
+  },
+  timer: {
+    alignItems: 'center',
+    borderRadius: 16,
+    padding: 16,
+  },
+  timerText: {
+    fontVariant: ['tabular-nums'],
+  },
+  stageLabel: {
+    marginBottom: 4,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderRadius: 12,
+    padding: 12,
+  },
+  resultText: {
+    flex: 1,
+  },
+  readingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  bold: {
+    fontWeight: '600',
+  },
+});
+
+export default OrthostaticTestScreen;
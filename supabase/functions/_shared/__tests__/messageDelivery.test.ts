@@ -0,0 +1,78 @@
+import { AlertForMessaging, LocalMessageAdapter, sendAlertMessages } from '../messageDelivery';
+
+// A stand-in for the service-role client: lookups answer from the tables below and
+// inserts into outbound_messages are kept.
+
+const settings = [
+  { user_id: 'caregiver-on', alert_channels: { critical: ['sms'], high: ['sms'] }, caregiver_alerts_enabled: true },
+  { user_id: 'caregiver-off', alert_channels: { critical: ['sms', 'email'], high: ['sms'] }, caregiver_alerts_enabled: false },
+];
+
+const profiles = [
+  { id: 'caregiver-on', phone_number: '+15550001', email: 'on@example.com' },
+  { id: 'caregiver-off', phone_number: '+15550002', email: 'off@example.com' },
+];
+
+const createAdminStub = () => {
+  const logged: Record<string, unknown>[] = [];
+  const from = (table: string) => {
+    const chain = {
+      select: () => chain,
+      in: () => Promise.resolve({ data: table === 'profiles' ? profiles : settings, error: null }),
+      insert: (rows: Record<string, unknown>[]) => {
+        logged.push(...rows);
+        return Promise.resolve({ error: null });
+      },
+    };
+    return chain;
+  };
+  return { admin: { from }, logged };
+};
+
+const alert = (caregiverId: string, alertType: string, severity: AlertForMessaging['severity']): AlertForMessaging => ({
+  alertId: `${alertType}-${caregiverId}`,
+  caregiverId,
+  alertType,
+  message: 'Pat needs help now',
+  severity,
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('sendAlertMessages', () => {
+  const adapters = { sms: new LocalMessageAdapter('sms'), email: new LocalMessageAdapter('email') };
+
+  it('sends an SOS to caregivers who switched their alerts off', async () => {
+    const { admin, logged } = createAdminStub();
+
+    const sent = await sendAlertMessages(admin, adapters, [
+      alert('caregiver-on', 'emergency', 'critical'),
+      alert('caregiver-off', 'emergency', 'critical'),
+    ]);
+
+    expect(sent).toBe(3);
+    expect(logged.map(entry => [entry.user_id, entry.channel, entry.recipient, entry.status])).toEqual([
+      ['caregiver-on', 'sms', '+15550001', 'sent'],
+      ['caregiver-off', 'sms', '+15550002', 'sent'],
+      ['caregiver-off', 'email', 'off@example.com', 'sent'],
+    ]);
+  });
+
+  it('sends other alerts only to caregivers with their alerts on', async () => {
+    const { admin, logged } = createAdminStub();
+
+    await expect(
+      sendAlertMessages(admin, adapters, [
+        alert('caregiver-on', 'medication_missed', 'high'),
+        alert('caregiver-off', 'medication_missed', 'high'),
+      ])
+    ).resolves.toBe(1);
+    expect(logged.map(entry => entry.user_id)).toEqual(['caregiver-on']);
+  });
+});
@@ -0,0 +1,188 @@
+import { EscalatedAlert, checkReceipts, pushAlerts } from '../missedDoseAlerts';
+import { DEVICE_NOT_REGISTERED, LocalPushProvider, PushProvider, PushReceipt } from '../pushDelivery';
+
+// A stand-in for the service-role client. Each query is recorded with its operation
+// and filters; `answer` decides what it resolves to.
+
+interface Query {
+  table: string;
+  operation: string;
+  payload: unknown;
+  filters: [string, unknown[]][];
+}
+
+type Answer = (query: Query) => { data?: unknown; error?: unknown } | undefined;
+
+const createAdminStub = (answer: Answer) => {
+  const queries: Query[] = [];
+  const from = (table: string) => {
+    const query: Query = { table, operation: 'select', payload: null, filters: [] };
+    queries.push(query);
+    const chain: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null, ...answer(query) }),
+    };
+    ['select', 'insert', 'update', 'delete'].forEach(operation => {
+      chain[operation] = (payload?: unknown) => {
+        if (operation !== 'select' || query.operation === 'select') {
+          query.operation = operation;
+          query.payload = operation === 'select' ? null : payload;
+        }
+        return chain;
+      };
+    });
+    ['eq', 'in', 'not', 'lte', 'gte', 'lt', 'limit'].forEach(filter => {
+      chain[filter] = (...args: unknown[]) => {
+        query.filters.push([filter, args]);
+        return chain;
+      };
+    });
+    return chain;
+  };
+  return { admin: { from }, queries };
+};
+
+const filterValue = (query: Query, filter: string, column: string) =>
+  query.filters.find(([name, args]) => name === filter && args[0] === column)?.[1][1];
+
+const inboxMoves = (queries: Query[]) =>
+  queries
+    .filter(q => q.table === 'caregiver_alerts' && q.operation === 'update')
+    .flatMap(q => filterValue(q, 'in', 'id') as string[]);
+
+const removedTokens = (queries: Query[]) =>
+  queries
+    .filter(q => q.table === 'user_devices' && q.operation === 'delete')
+    .flatMap(q => filterValue(q, 'in', 'push_token') as string[]);
+
+const alert = (alertId: string, caregiverId: string): EscalatedAlert => ({
+  alert_id: alertId,
+  caregiver_id: caregiverId,
+  patient_id: 'patient-1',
+  medication_alarm_id: `alarm-${alertId}`,
+  medication_schedule_id: 'schedule-1',
+  medication_name: 'Levodopa',
+  dose_scheduled_time: '2025-03-20T12:00:00Z',
+  alert_message: 'Levodopa was not taken',
+  urgency: 'high',
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('pushAlerts', () => {
+  const devices = [
+    { user_id: 'caregiver-1', push_token: 'token-1a' },
+    { user_id: 'caregiver-1', push_token: 'token-1-dead' },
+    { user_id: 'caregiver-2', push_token: 'token-2-dead' },
+    { user_id: 'caregiver-3', push_token: 'token-3' },
+  ];
+  const settings = [{ user_id: 'caregiver-3', sound_enabled: true, caregiver_alerts_enabled: false }];
+
+  const answer: Answer = query => {
+    if (query.table === 'notification_settings') return { data: settings };
+    if (query.table === 'user_devices' && query.operation === 'select') return { data: devices };
+    return undefined;
+  };
+
+  it('moves only alerts that reached no device to the inbox, and drops dead tokens', async () => {
+    const { admin, queries } = createAdminStub(answer);
+    const provider = new LocalPushProvider({ 'token-1-dead': DEVICE_NOT_REGISTERED, 'token-2-dead': DEVICE_NOT_REGISTERED });
+
+    const pushed = await pushAlerts(admin, provider, [alert('alert-1', 'caregiver-1'), alert('alert-2', 'caregiver-2'), alert('alert-3', 'caregiver-3')]);
+
+    expect(pushed).toBe(1);
+    // alert-1 reached one of its devices; alert-2 reached none; caregiver-3 has alerts switched off
+    expect(inboxMoves(queries).sort()).toEqual(['alert-2', 'alert-3']);
+    expect(removedTokens(queries).sort()).toEqual(['token-1-dead', 'token-2-dead']);
+    expect(provider.sent.map(m => m.to)).toEqual(['token-1a']);
+
+    const ticketInsert = queries.find(q => q.table === 'push_tickets' && q.operation === 'insert')!;
+    expect(ticketInsert.payload).toEqual([
+      { ticket_id: 'local-1', user_id: 'caregiver-1', push_token: 'token-1a', caregiver_alert_id: 'alert-1' },
+    ]);
+  });
+
+  it('leaves every alert out of the inbox when the pushes are accepted', async () => {
+    const { admin, queries } = createAdminStub(answer);
+    const provider = new LocalPushProvider();
+
+    await expect(pushAlerts(admin, provider, [alert('alert-1', 'caregiver-1'), alert('alert-2', 'caregiver-2')])).resolves.toBe(3);
+    expect(inboxMoves(queries)).toEqual([]);
+    expect(removedTokens(queries)).toEqual([]);
+  });
+
+  it('moves every alert to the inbox when the devices cannot be loaded', async () => {
+    const { admin, queries } = createAdminStub(query =>
+      query.table === 'user_devices' ? { error: { message: 'connection reset' } } : answer(query)
+    );
+
+    await expect(pushAlerts(admin, new LocalPushProvider(), [alert('alert-1', 'caregiver-1')])).resolves.toBe(0);
+    expect(inboxMoves(queries)).toEqual(['alert-1']);
+  });
+});
+
+describe('checkReceipts', () => {
+  const now = Date.now();
+  const minutesAgo = (minutes: number) => new Date(now - minutes * 60 * 1000).toISOString();
+
+  const pending = [
+    { ticket_id: 't-ok', push_token: 'token-a', caregiver_alert_id: 'alert-ok', created_at: minutesAgo(5) },
+    { ticket_id: 't-dead', push_token: 'token-dead', caregiver_alert_id: 'alert-other-device', created_at: minutesAgo(5) },
+    { ticket_id: 't-waiting', push_token: 'token-b', caregiver_alert_id: 'alert-waiting', created_at: minutesAgo(5) },
+    { ticket_id: 't-expired', push_token: 'token-c', caregiver_alert_id: 'alert-lost', created_at: minutesAgo(25 * 60) },
+  ];
+
+  const receiptProvider = (receipts: Record<string, PushReceipt>): PushProvider => ({
+    name: 'receipts',
+    maxBatchSize: 100,
+    isValidToken: () => true,
+    send: async () => [],
+    getReceipts: async (ids: string[]) => Object.fromEntries(ids.filter(id => receipts[id]).map(id => [id, receipts[id]])),
+  });
+
+  const answer: Answer = query => {
+    if (query.table !== 'push_tickets' || query.operation !== 'select') return undefined;
+    // The pending lookup, then the check for other devices that got the failed alerts
+    if (filterValue(query, 'eq', 'receipt_status') === 'pending') return { data: pending };
+    return { data: [{ caregiver_alert_id: 'alert-other-device' }] };
+  };
+
+  it('confirms delivered pushes and sends alerts no device received to the inbox', async () => {
+    const { admin, queries } = createAdminStub(answer);
+    const provider = receiptProvider({
+      't-ok': { status: 'ok' },
+      't-dead': { status: 'error', message: 'Not registered', details: { error: DEVICE_NOT_REGISTERED } },
+    });
+
+    await expect(checkReceipts(admin, provider)).resolves.toEqual({ ok: 1, failed: 1 });
+
+    // The dead device's alert also went to another device, so only the lost one moves
+    expect(inboxMoves(queries)).toEqual(['alert-lost']);
+    expect(removedTokens(queries)).toEqual(['token-dead']);
+
+    const updates = queries.filter(q => q.table === 'push_tickets' && q.operation === 'update');
+    expect(updates.map(q => [q.payload, q.filters[0]])).toEqual([
+      [expect.objectContaining({ receipt_status: 'error', receipt_error: DEVICE_NOT_REGISTERED }), ['eq', ['ticket_id', 't-dead']]],
+      [expect.objectContaining({ receipt_status: 'error', receipt_error: 'ReceiptUnavailable' }), ['eq', ['ticket_id', 't-expired']]],
+      [expect.objectContaining({ receipt_status: 'ok' }), ['in', ['ticket_id', ['t-ok']]]],
+    ]);
+  });
+
+  it('leaves everything pending when the receipt lookup fails', async () => {
+    const { admin, queries } = createAdminStub(answer);
+    const provider = receiptProvider({});
+    provider.getReceipts = async () => {
+      throw new Error('network down');
+    };
+
+    await expect(checkReceipts(admin, provider)).resolves.toEqual({ ok: 0, failed: 0 });
+    expect(queries.filter(q => q.operation !== 'select')).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  DEVICE_NOT_REGISTERED,
+  LocalPushProvider,
+  PushMessage,
+  PushProvider,
+  PushTicket,
+  PushTransportError,
+  sendPushMessages,
+} from '../pushDelivery';
+
+const message = (to: string): PushMessage => ({ to, title: 'Medication alert', body: 'A dose was missed' });
+
+// A provider that answers each send() with the next scripted response
+const scriptedProvider = (
+  responses: ((messages: PushMessage[]) => PushTicket[] | Error)[],
+  maxBatchSize = 100
+): PushProvider & { batches: string[][] } => {
+  const batches: string[][] = [];
+  return {
+    name: 'scripted',
+    maxBatchSize,
+    batches,
+    isValidToken: (token: string) => token.startsWith('token-'),
+    async send(messages: PushMessage[]) {
+      batches.push(messages.map(m => m.to));
+      const response = responses[batches.length - 1](messages);
+      if (response instanceof Error) throw response;
+      return response;
+    },
+    async getReceipts() {
+      return {};
+    },
+  };
+};
+
+const accepted = (messages: PushMessage[]): PushTicket[] => messages.map((m, i) => ({ status: 'ok', id: `ticket-${m.to}-${i}` }));
+
+let delays: number[];
+
+beforeEach(() => {
+  delays = [];
+  jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+    delays.push(ms ?? 0);
+    callback();
+    return 0;
+  }) as typeof setTimeout);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('sendPushMessages', () => {
+  it('sends in batches of the provider size', async () => {
+    const provider = scriptedProvider([accepted, accepted, accepted], 2);
+    const results = await sendPushMessages(provider, ['token-1', 'token-2', 'token-3', 'token-4', 'token-5'].map(message));
+
+    expect(provider.batches).toEqual([['token-1', 'token-2'], ['token-3', 'token-4'], ['token-5']]);
+    expect(results.map(r => r.status)).toEqual(['sent', 'sent', 'sent', 'sent', 'sent']);
+    expect(delays).toEqual([]);
+  });
+
+  it('fails messages with unusable tokens without sending them', async () => {
+    const provider = scriptedProvider([accepted]);
+    const results = await sendPushMessages(provider, [message('garbage'), message('token-1')]);
+
+    expect(provider.batches).toEqual([['token-1']]);
+    expect(results).toContainEqual({ status: 'failed', message: message('garbage'), error: 'InvalidToken', unregistered: true });
+  });
+
+  it('retries a retryable transport failure with exponential backoff', async () => {
+    const outage = () => new PushTransportError('Push service answered 503', true);
+    const provider = scriptedProvider([outage, outage, accepted]);
+    const results = await sendPushMessages(provider, [message('token-1')], { maxAttempts: 3, baseDelayMs: 100 });
+
+    expect(provider.batches).toHaveLength(3);
+    expect(delays).toEqual([100, 200]);
+    expect(results).toEqual([{ status: 'sent', message: message('token-1'), ticketId: 'ticket-token-1-0' }]);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const outage = () => new PushTransportError('Push service answered 503', true);
+    const provider = scriptedProvider([outage, outage]);
+    const results = await sendPushMessages(provider, [message('token-1')], { maxAttempts: 2, baseDelayMs: 100 });
+
+    expect(provider.batches).toHaveLength(2);
+    expect(results).toEqual([
+      { status: 'failed', message: message('token-1'), error: 'Push service answered 503', unregistered: false },
+    ]);
+  });
+
+  it('does not retry a failure that would happen again', async () => {
+    const provider = scriptedProvider([() => new PushTransportError('Push service answered 400: bad request', false)]);
+    const results = await sendPushMessages(provider, [message('token-1')]);
+
+    expect(provider.batches).toHaveLength(1);
+    expect(delays).toEqual([]);
+    expect(results[0]).toMatchObject({ status: 'failed', unregistered: false });
+  });
+
+  it('retries only the rate-limited messages of a batch', async () => {
+    const provider = scriptedProvider([
+      () => [
+        { status: 'ok', id: 'ticket-1' },
+        { status: 'error', message: 'Too many messages', details: { error: 'MessageRateExceeded' } },
+      ],
+      accepted,
+    ]);
+    const results = await sendPushMessages(provider, [message('token-1'), message('token-2')], { baseDelayMs: 50 });
+
+    expect(provider.batches).toEqual([['token-1', 'token-2'], ['token-2']]);
+    expect(delays).toEqual([50]);
+    expect(results.map(r => r.status)).toEqual(['sent', 'sent']);
+  });
+
+  it('reports unregistered devices from their tickets', async () => {
+    const provider = new LocalPushProvider({ 'token-dead': DEVICE_NOT_REGISTERED });
+    const results = await sendPushMessages(provider, [message('token-live'), message('token-dead')]);
+
+    expect(results).toEqual([
+      { status: 'sent', message: message('token-live'), ticketId: 'local-1' },
+      { status: 'failed', message: message('token-dead'), error: DEVICE_NOT_REGISTERED, unregistered: true },
+    ]);
+    expect(provider.sent).toEqual([message('token-live')]);
+    expect(delays).toEqual([]);
+  });
+});
+
+describe('LocalPushProvider', () => {
+  it('has a receipt for each accepted message only', async () => {
+    const provider = new LocalPushProvider({ 'token-dead': DEVICE_NOT_REGISTERED });
+    await provider.send([message('token-1'), message('token-dead')]);
+
+    await expect(provider.getReceipts(['local-1', 'local-2'])).resolves.toEqual({ 'local-1': { status: 'ok' } });
+  });
+});
@@ -0,0 +1,148 @@
+import { SOS_MAX_REPEAT_INTERVAL_MS, SOS_REPEAT_INTERVAL_MS, repeatUnansweredSos, sosRepeatDelayMs } from '../sosAlerts';
+import { LocalPushProvider } from '../pushDelivery';
+
+// A stand-in for the service-role client. Each query is recorded with its operation
+// and filters; `answer` decides what it resolves to.
+
+interface Query {
+  table: string;
+  operation: string;
+  payload: unknown;
+  filters: [string, unknown[]][];
+}
+
+type Answer = (query: Query) => { data?: unknown; error?: unknown } | undefined;
+
+const createAdminStub = (answer: Answer) => {
+  const queries: Query[] = [];
+  const from = (table: string) => {
+    const query: Query = { table, operation: 'select', payload: null, filters: [] };
+    queries.push(query);
+    const chain: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null, ...answer(query) }),
+    };
+    ['select', 'insert', 'update', 'delete'].forEach(operation => {
+      chain[operation] = (payload?: unknown) => {
+        if (operation !== 'select' || query.operation === 'select') {
+          query.operation = operation;
+          query.payload = operation === 'select' ? null : payload;
+        }
+        return chain;
+      };
+    });
+    ['eq', 'in', 'not', 'lte', 'gte', 'lt', 'limit'].forEach(filter => {
+      chain[filter] = (...args: unknown[]) => {
+        query.filters.push([filter, args]);
+        return chain;
+      };
+    });
+    return chain;
+  };
+  return { admin: { from }, queries };
+};
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+const openAlert = (id: string, incidentId: string) => ({
+  id,
+  caregiver_id: `caregiver-${id}`,
+  patient_id: 'patient-1',
+  incident_id: incidentId,
+  alert_message: 'Pat needs help now',
+});
+
+const sosRequest = (id: string, incidentId: string, notifyCount: number, lastNotifiedMinutesAgo: number) => ({
+  id,
+  incident_id: incidentId,
+  notify_count: notifyCount,
+  last_notified_at: minutesAgo(lastNotifiedMinutesAgo),
+});
+
+const devices = [
+  { user_id: 'caregiver-alert-1', push_token: 'token-1' },
+  { user_id: 'caregiver-alert-2', push_token: 'token-2' },
+];
+
+const answerWith = (alerts: unknown[], requests: unknown[]): Answer => query => {
+  if (query.table === 'caregiver_alerts') return { data: alerts };
+  if (query.table === 'sos_requests' && query.operation === 'select') return { data: requests };
+  if (query.table === 'sos_requests' && query.operation === 'update') return { data: [{ id: 'claimed' }] };
+  if (query.table === 'user_devices' && query.operation === 'select') return { data: devices };
+  return undefined;
+};
+
+const claims = (queries: Query[]) =>
+  queries
+    .filter(q => q.table === 'sos_requests' && q.operation === 'update')
+    .map(q => [q.filters[0][1][1], (q.payload as { notify_count: number }).notify_count]);
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('sosRepeatDelayMs', () => {
+  it('backs off from the first interval to the longest one', () => {
+    expect(sosRepeatDelayMs(1)).toBe(SOS_REPEAT_INTERVAL_MS);
+    expect(sosRepeatDelayMs(2)).toBe(2 * SOS_REPEAT_INTERVAL_MS);
+    expect(sosRepeatDelayMs(3)).toBe(4 * SOS_REPEAT_INTERVAL_MS);
+    expect(sosRepeatDelayMs(4)).toBe(SOS_MAX_REPEAT_INTERVAL_MS);
+    expect(sosRepeatDelayMs(100)).toBe(SOS_MAX_REPEAT_INTERVAL_MS);
+  });
+});
+
+describe('repeatUnansweredSos', () => {
+  it('keeps notifying an unacknowledged SOS after its fifteenth round', async () => {
+    const { admin, queries } = createAdminStub(
+      answerWith([openAlert('alert-1', 'incident-1')], [sosRequest('sos-1', 'incident-1', 15, 16)])
+    );
+    const provider = new LocalPushProvider();
+
+    await expect(repeatUnansweredSos(admin, provider, {})).resolves.toBe(1);
+    expect(claims(queries)).toEqual([['sos-1', 16]]);
+    expect(provider.sent).toEqual([
+      expect.objectContaining({ to: 'token-1', title: '🆘 SOS (no one has responded yet)', body: 'Pat needs help now' }),
+    ]);
+  });
+
+  it('waits out the backed-off delay before the next round', async () => {
+    const { admin, queries } = createAdminStub(
+      answerWith(
+        [openAlert('alert-1', 'incident-1'), openAlert('alert-2', 'incident-2')],
+        [sosRequest('sos-early', 'incident-1', 1, 3), sosRequest('sos-late', 'incident-2', 4, 10)]
+      )
+    );
+    const provider = new LocalPushProvider();
+
+    await expect(repeatUnansweredSos(admin, provider, {})).resolves.toBe(1);
+    expect(claims(queries)).toEqual([['sos-early', 2]]);
+    expect(provider.sent.map(m => m.to)).toEqual(['token-1']);
+  });
+
+  it('only looks for requests of incidents that are still open', async () => {
+    const { admin, queries } = createAdminStub(answerWith([], [sosRequest('sos-1', 'incident-1', 2, 60)]));
+
+    await expect(repeatUnansweredSos(admin, new LocalPushProvider(), {})).resolves.toBe(0);
+    expect(queries.map(q => q.table)).toEqual(['caregiver_alerts']);
+    expect(queries[0].filters).toEqual([
+      ['eq', ['alert_type', 'emergency']],
+      ['eq', ['status', 'open']],
+    ]);
+  });
+
+  it('does not send a round another run has already claimed', async () => {
+    const answer = answerWith([openAlert('alert-1', 'incident-1')], [sosRequest('sos-1', 'incident-1', 20, 30)]);
+    const { admin } = createAdminStub(query =>
+      query.table === 'sos_requests' && query.operation === 'update' ? { data: [] } : answer(query)
+    );
+    const provider = new LocalPushProvider();
+
+    await expect(repeatUnansweredSos(admin, provider, {})).resolves.toBe(0);
+    expect(provider.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+// Text and email delivery of caregiver alerts, alongside push. Caregivers pick the
+// channels they want for each alert severity (notification_settings.alert_channels);
+// addresses come from their profile. Missed-dose and emergency alerts go out on
+// every chosen channel; other alerts only when the caregiver has no device to push to.
+// Caregivers who switched their alerts off get none of them, except an SOS.
+//
+// MESSAGE_PROVIDER=local swaps Twilio and Resend for an adapter that sends nothing,
+// so messages only show up in the outbound_messages log, for local development.
+
+export type MessageChannel = 'sms' | 'email';
+
+export type AlertSeverity = 'normal' | 'high' | 'critical';
+
+export interface OutboundMessage {
+  channel: MessageChannel;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface MessageAdapter {
+  readonly name: string;
+  readonly channel: MessageChannel;
+  // Resolves with the provider's message id; throws when the message was not accepted
+  send(message: OutboundMessage): Promise<string>;
+}
+
+export interface AlertForMessaging {
+  alertId: string;
+  caregiverId: string;
+  alertType: string;
+  message: string;
+  severity: AlertSeverity;
+}
+
+// The column default, for caregivers who never saved their settings
+const DEFAULT_ALERT_CHANNELS: Record<AlertSeverity, MessageChannel[]> = { normal: [], high: [], critical: ['email'] };
+
+const ALWAYS_SENT_ALERT_TYPES = ['medication_missed', 'medication_missed_local', 'emergency'];
+
+// An SOS reaches caregivers who switched their alerts off too, as its push does
+const TOGGLE_EXEMPT_ALERT_TYPES = ['emergency'];
+
+// Alerts raised by the app carry no urgency of their own
+export const ALERT_TYPE_SEVERITY: Record<string, AlertSeverity> = {
+  medication_missed: 'high',
+  medication_missed_local: 'high',
+  emergency: 'critical',
+  medication_interaction: 'normal',
+  medication_low_stock: 'normal',
+  health_rule: 'high',
+};
+
+export class TwilioSmsAdapter implements MessageAdapter {
+  readonly name = 'twilio';
+  readonly channel = 'sms';
+
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(message: OutboundMessage): Promise<string> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: message.to, From: this.from, Body: `${message.subject}\n${message.body}` }),
+    });
+
+    const responseData = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Twilio answered ${response.status}: ${responseData?.message ?? 'unknown error'}`);
+    }
+    return responseData.sid;
+  }
+}
+
+export class ResendEmailAdapter implements MessageAdapter {
+  readonly name = 'resend';
+  readonly channel = 'email';
+
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: OutboundMessage): Promise<string> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ from: this.from, to: [message.to], subject: message.subject, text: message.body }),
+    });
+
+    const responseData = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Resend answered ${response.status}: ${responseData?.message ?? 'unknown error'}`);
+    }
+    return responseData.id;
+  }
+}
+
+export class LocalMessageAdapter implements MessageAdapter {
+  readonly name = 'local';
+  private nextId = 1;
+
+  constructor(readonly channel: MessageChannel) {}
+
+  async send(message: OutboundMessage): Promise<string> {
+    console.log(`[messageDelivery] Local ${this.channel} to ${message.to}: ${message.subject}`);
+    return `local-${this.channel}-${this.nextId++}`;
+  }
+}
+
+// A channel whose provider is not configured is left out, and its messages are
+// logged as failed
+export const createMessageAdapters = (): Partial<Record<MessageChannel, MessageAdapter>> => {
+  if (Deno.env.get('MESSAGE_PROVIDER') === 'local') {
+    return { sms: new LocalMessageAdapter('sms'), email: new LocalMessageAdapter('email') };
+  }
+
+  const adapters: Partial<Record<MessageChannel, MessageAdapter>> = {};
+  const twilioSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const twilioToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const twilioFrom = Deno.env.get('TWILIO_FROM_NUMBER');
+  if (twilioSid && twilioToken && twilioFrom) {
+    adapters.sms = new TwilioSmsAdapter(twilioSid, twilioToken, twilioFrom);
+  }
+  const resendKey = Deno.env.get('RESEND_API_KEY');
+  const emailFrom = Deno.env.get('ALERT_EMAIL_FROM');
+  if (resendKey && emailFrom) {
+    adapters.email = new ResendEmailAdapter(resendKey, emailFrom);
+  }
+  return adapters;
+};
+
+const SUBJECTS: Record<AlertSeverity, string> = {
+  normal: 'Caregiver alert',
+  high: 'Medication alert',
+  critical: 'URGENT alert',
+};
+
+// Sends each alert on the caregiver's chosen channels and logs every attempt in
+// outbound_messages. pushReached lists caregivers who have a device to push to
+// (none by default).
+// Returns the number of messages sent.
+export async function sendAlertMessages(
+  supabaseAdmin: any,
+  adapters: Partial<Record<MessageChannel, MessageAdapter>>,
+  alerts: AlertForMessaging[],
+  pushReached: Set<string> = new Set()
+): Promise<number> {
+  if (alerts.length === 0) return 0;
+
+  const caregiverIds = [...new Set(alerts.map((alert) => alert.caregiverId))];
+  const [{ data: settings, error: settingsError }, { data: profiles, error: profilesError }] = await Promise.all([
+    supabaseAdmin
+      .from('notification_settings')
+      .select('user_id, alert_channels, caregiver_alerts_enabled')
+      .in('user_id', caregiverIds),
+    supabaseAdmin
+      .from('profiles')
+      .select('id, phone_number, email')
+      .in('id', caregiverIds),
+  ]);
+
+  if (settingsError || profilesError) {
+    console.error('[messageDelivery] Failed to load caregiver contact details:', settingsError ?? profilesError);
+    return 0;
+  }
+
+  const settingsByCaregiver = new Map<string, any>((settings ?? []).map((row: any) => [row.user_id, row]));
+  const profilesById = new Map<string, any>((profiles ?? []).map((row: any) => [row.id, row]));
+
+  const log: Record<string, unknown>[] = [];
+  for (const alert of alerts) {
+    const caregiverSettings = settingsByCaregiver.get(alert.caregiverId);
+    if (caregiverSettings?.caregiver_alerts_enabled === false && !TOGGLE_EXEMPT_ALERT_TYPES.includes(alert.alertType)) {
+      continue;
+    }
+    if (!ALWAYS_SENT_ALERT_TYPES.includes(alert.alertType) && pushReached.has(alert.caregiverId)) continue;
+
+    const channels: MessageChannel[] =
+      caregiverSettings?.alert_channels?.[alert.severity] ?? DEFAULT_ALERT_CHANNELS[alert.severity];
+    const profile = profilesById.get(alert.caregiverId);
+
+    for (const channel of channels) {
+      const to = channel === 'sms' ? profile?.phone_number : profile?.email;
+      if (!to) continue;
+
+      const message: OutboundMessage = { channel, to, subject: SUBJECTS[alert.severity], body: alert.message };
+      const entry: Record<string, unknown> = {
+        user_id: alert.caregiverId,
+        caregiver_alert_id: alert.alertId,
+        channel,
+        recipient: to,
+        subject: message.subject,
+        body: message.body,
+      };
+
+      const adapter = adapters[channel];
+      try {
+        if (!adapter) throw new Error(`No ${channel} provider configured`);
+        entry.provider_message_id = await adapter.send(message);
+        entry.provider = adapter.name;
+        entry.status = 'sent';
+      } catch (error) {
+        console.warn(`[messageDelivery] ${channel} for alert ${alert.alertId} failed:`, error);
+        entry.provider = adapter?.name ?? null;
+        entry.status = 'failed';
+        entry.error = (error as Error).message;
+      }
+      log.push(entry);
+    }
+  }
+
+  if (log.length > 0) {
+    const { error } = await supabaseAdmin.from('outbound_messages').insert(log);
+    if (error) console.error('[messageDelivery] Failed to log outbound messages:', error);
+  }
+  return log.filter((entry) => entry.status === 'sent').length;
+}
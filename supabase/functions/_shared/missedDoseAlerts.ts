@@ -0,0 +1,225 @@
+// Push delivery of missed-dose caregiver alerts, shared by escalate-missed-doses
+// for the alerts it raises and the backup alerts for the rest of the circle. An
+// alert whose push reaches none of the caregiver's devices, or whose receipt later
+// reports it undelivered, goes to the caregiver_alerts inbox instead.
+import {
+  DEVICE_NOT_REGISTERED,
+  PushMessage,
+  PushProvider,
+  loadPushTokens,
+  removePushTokens,
+  sendPushMessages,
+} from './pushDelivery.ts';
+
+// Receipts are usually ready within seconds; ones still missing after a day never will be
+const RECEIPT_MIN_AGE_MS = 60 * 1000;
+export const RECEIPT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const PUSHED_ALERT_TYPE = 'medication_missed';
+const INBOX_ALERT_TYPE = 'medication_missed_local';
+
+export interface EscalatedAlert {
+  alert_id: string;
+  caregiver_id: string;
+  patient_id: string;
+  medication_alarm_id: string;
+  medication_schedule_id: string | null;
+  medication_name: string;
+  dose_scheduled_time: string;
+  alert_message: string;
+  urgency: 'normal' | 'high' | 'critical';
+}
+
+// Push each alert to every enabled device of its caregiver. Alerts that reach none
+// of them go to the caregiver_alerts inbox as 'medication_missed_local' for the app
+// to pick up.
+export async function pushAlerts(supabaseAdmin: any, provider: PushProvider, alerts: EscalatedAlert[]): Promise<number> {
+  if (alerts.length === 0) return 0;
+
+  const caregiverIds = [...new Set(alerts.map((alert) => alert.caregiver_id))];
+  const { data: settings, error: settingsError } = await supabaseAdmin
+    .from('notification_settings')
+    .select('user_id, sound_enabled, caregiver_alerts_enabled')
+    .in('user_id', caregiverIds);
+
+  let tokensByCaregiver: Map<string, string[]>;
+  try {
+    if (settingsError) throw settingsError;
+    tokensByCaregiver = await loadPushTokens(supabaseAdmin, caregiverIds);
+  } catch (loadError) {
+    console.error('[missedDoseAlerts] Failed to load caregiver devices:', loadError);
+    await moveToInbox(supabaseAdmin, alerts.map((alert) => alert.alert_id));
+    return 0;
+  }
+
+  const settingsByCaregiver = new Map<string, { sound_enabled: boolean | null; caregiver_alerts_enabled: boolean | null }>(
+    (settings ?? []).map((row: any) => [row.user_id, row])
+  );
+
+  // Caregivers who switched alerts off only see them in the inbox. Quiet hours are
+  // local times and the server does not know the caregiver's timezone, so missed-dose
+  // pushes are not held back by them.
+  const pushable: EscalatedAlert[] = [];
+  const inboxOnly: string[] = [];
+  for (const alert of alerts) {
+    const caregiverSettings = settingsByCaregiver.get(alert.caregiver_id);
+    if (tokensByCaregiver.has(alert.caregiver_id) && caregiverSettings?.caregiver_alerts_enabled !== false) {
+      pushable.push(alert);
+    } else {
+      inboxOnly.push(alert.alert_id);
+    }
+  }
+
+  const alertsByMessage = new Map<PushMessage, EscalatedAlert>();
+  const messages = pushable.flatMap((alert) => tokensByCaregiver.get(alert.caregiver_id)!.map((token) => {
+    const message: PushMessage = {
+      to: token,
+      title: alert.urgency === 'critical' ? '🚨 URGENT MEDICATION ALERT' : '🚨 MEDICATION ALERT',
+      body: alert.alert_message,
+      sound: settingsByCaregiver.get(alert.caregiver_id)?.sound_enabled !== false ? 'default' : null,
+      priority: alert.urgency === 'normal' ? 'default' : 'high',
+      badge: 1,
+      categoryId: 'caregiver-alert',
+      data: {
+        type: 'caregiver-alert',
+        alertId: alert.alert_id,
+        patientId: alert.patient_id,
+        medicationScheduleId: alert.medication_schedule_id,
+        medicationName: alert.medication_name,
+      },
+    };
+    alertsByMessage.set(message, alert);
+    return message;
+  }));
+
+  const results = await sendPushMessages(provider, messages);
+  const tickets: Record<string, unknown>[] = [];
+  const deadTokens: string[] = [];
+  const sentAlertIds = new Set<string>();
+
+  for (const result of results) {
+    const alert = alertsByMessage.get(result.message)!;
+    if (result.status === 'sent') {
+      sentAlertIds.add(alert.alert_id);
+      tickets.push({
+        ticket_id: result.ticketId,
+        user_id: alert.caregiver_id,
+        push_token: result.message.to,
+        caregiver_alert_id: alert.alert_id,
+      });
+    } else {
+      console.warn('[missedDoseAlerts] Push failed for alert', alert.alert_id, result.error);
+      if (result.unregistered) deadTokens.push(result.message.to);
+    }
+  }
+  inboxOnly.push(...pushable.filter((alert) => !sentAlertIds.has(alert.alert_id)).map((alert) => alert.alert_id));
+
+  if (tickets.length > 0) {
+    const { error: ticketError } = await supabaseAdmin.from('push_tickets').insert(tickets);
+    if (ticketError) {
+      console.error('[missedDoseAlerts] Failed to record push tickets:', ticketError);
+    }
+  }
+
+  await moveToInbox(supabaseAdmin, inboxOnly);
+  await removePushTokens(supabaseAdmin, deadTokens);
+  return tickets.length;
+}
+
+// Looks up the receipts of pushes sent by earlier runs. An alert goes to the inbox
+// once the provider could deliver it to none of the caregiver's devices.
+export async function checkReceipts(supabaseAdmin: any, provider: PushProvider): Promise<{ ok: number; failed: number }> {
+  const now = Date.now();
+  const { data: pending, error } = await supabaseAdmin
+    .from('push_tickets')
+    .select('ticket_id, push_token, caregiver_alert_id, created_at')
+    .eq('receipt_status', 'pending')
+    .lte('created_at', new Date(now - RECEIPT_MIN_AGE_MS).toISOString())
+    .limit(1000);
+
+  if (error) {
+    console.error('[missedDoseAlerts] Failed to load pending push tickets:', error);
+    return { ok: 0, failed: 0 };
+  }
+  if (!pending || pending.length === 0) return { ok: 0, failed: 0 };
+
+  let receipts: Record<string, any>;
+  try {
+    receipts = await provider.getReceipts(pending.map((ticket: any) => ticket.ticket_id));
+  } catch (receiptError) {
+    console.warn('[missedDoseAlerts] Receipt lookup failed, retrying next run:', receiptError);
+    return { ok: 0, failed: 0 };
+  }
+
+  const okTicketIds: string[] = [];
+  const failedAlertIds: string[] = [];
+  const deadTokens: string[] = [];
+  const checkedAt = new Date(now).toISOString();
+
+  for (const ticket of pending) {
+    const receipt = receipts[ticket.ticket_id];
+    const expired = now - new Date(ticket.created_at).getTime() > RECEIPT_MAX_AGE_MS;
+    if (!receipt && !expired) continue;
+
+    if (receipt?.status === 'ok') {
+      okTicketIds.push(ticket.ticket_id);
+      continue;
+    }
+
+    const receiptError = receipt ? receipt.details?.error ?? receipt.message : 'ReceiptUnavailable';
+    console.warn('[missedDoseAlerts] Push not delivered for ticket', ticket.ticket_id, receiptError);
+    if (ticket.caregiver_alert_id) failedAlertIds.push(ticket.caregiver_alert_id);
+    if (receiptError === DEVICE_NOT_REGISTERED) deadTokens.push(ticket.push_token);
+
+    await supabaseAdmin
+      .from('push_tickets')
+      .update({ receipt_status: 'error', receipt_error: receiptError, checked_at: checkedAt })
+      .eq('ticket_id', ticket.ticket_id);
+  }
+
+  if (okTicketIds.length > 0) {
+    await supabaseAdmin
+      .from('push_tickets')
+      .update({ receipt_status: 'ok', checked_at: checkedAt })
+      .in('ticket_id', okTicketIds);
+  }
+
+  const undelivered = await withoutLiveTickets(supabaseAdmin, [...new Set(failedAlertIds)]);
+  await moveToInbox(supabaseAdmin, undelivered);
+  await removePushTokens(supabaseAdmin, deadTokens);
+  return { ok: okTicketIds.length, failed: undelivered.length };
+}
+
+// Drops alerts that another device has received, or may still receive
+async function withoutLiveTickets(supabaseAdmin: any, alertIds: string[]): Promise<string[]> {
+  if (alertIds.length === 0) return [];
+
+  const { data: live, error } = await supabaseAdmin
+    .from('push_tickets')
+    .select('caregiver_alert_id')
+    .in('caregiver_alert_id', alertIds)
+    .in('receipt_status', ['ok', 'pending']);
+
+  if (error) {
+    console.error('[missedDoseAlerts] Failed to check other devices for alerts:', error);
+    return alertIds;
+  }
+
+  const reached = new Set((live ?? []).map((ticket: any) => ticket.caregiver_alert_id));
+  return alertIds.filter((alertId) => !reached.has(alertId));
+}
+
+// The caregiver's app shows inbox alerts from its live feed, or when it next opens
+export async function moveToInbox(supabaseAdmin: any, alertIds: string[]): Promise<void> {
+  if (alertIds.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('caregiver_alerts')
+    .update({ alert_type: INBOX_ALERT_TYPE })
+    .in('id', alertIds)
+    .eq('alert_type', PUSHED_ALERT_TYPE);
+
+  if (error) {
+    console.error('[missedDoseAlerts] Failed to move undelivered alerts to the inbox:', error);
+  }
+}
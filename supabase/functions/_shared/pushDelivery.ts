@@ -0,0 +1,254 @@
+// Push delivery shared by the edge functions. A provider sends messages and looks
+// up receipts; sendPushMessages() adds batching and retries on top, and reports
+// per message whether it was accepted, failed for good, or hit a dead token.
+//
+// PUSH_PROVIDER=local swaps Expo for an in-memory provider that accepts every
+// message, for local development and tests.
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  sound?: 'default' | null;
+  priority?: 'default' | 'normal' | 'high';
+  badge?: number;
+  categoryId?: string;
+  data?: Record<string, unknown>;
+}
+
+// Expo's ticket and receipt shapes; other providers report in the same terms
+export type PushTicket =
+  | { status: 'ok'; id: string }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+export type PushReceipt =
+  | { status: 'ok' }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+export interface PushProvider {
+  readonly name: string;
+  readonly maxBatchSize: number;
+  isValidToken(token: string): boolean;
+  // One ticket per message, in order. Throws PushTransportError when the whole request failed.
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+  // Receipts that are not ready yet are missing from the result
+  getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>>;
+}
+
+export class PushTransportError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'PushTransportError';
+  }
+}
+
+export type PushResult =
+  | { status: 'sent'; message: PushMessage; ticketId: string }
+  | { status: 'failed'; message: PushMessage; error: string; unregistered: boolean };
+
+export interface SendOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_RECEIPTS_URL = 'https://exp.host/--/api/v2/push/getReceipts';
+const EXPO_RECEIPT_BATCH_SIZE = 1000;
+
+// Ticket errors worth another attempt; anything else will fail the same way again
+const RETRYABLE_TICKET_ERRORS = ['MessageRateExceeded'];
+
+export const DEVICE_NOT_REGISTERED = 'DeviceNotRegistered';
+
+export class ExpoPushProvider implements PushProvider {
+  readonly name = 'expo';
+  readonly maxBatchSize = 100;
+
+  constructor(private accessToken?: string) {}
+
+  isValidToken(token: string): boolean {
+    return /^Expo(nent)?PushToken\[.+\]$/.test(token);
+  }
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const responseData = await this.post(EXPO_PUSH_URL, messages);
+    const tickets = Array.isArray(responseData?.data) ? responseData.data : null;
+    if (!tickets || tickets.length !== messages.length) {
+      throw new PushTransportError(`Unexpected push response: ${JSON.stringify(responseData?.errors ?? responseData)}`, false);
+    }
+    return tickets;
+  }
+
+  async getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>> {
+    const receipts: Record<string, PushReceipt> = {};
+    for (let i = 0; i < ticketIds.length; i += EXPO_RECEIPT_BATCH_SIZE) {
+      const responseData = await this.post(EXPO_RECEIPTS_URL, { ids: ticketIds.slice(i, i + EXPO_RECEIPT_BATCH_SIZE) });
+      Object.assign(receipts, responseData?.data ?? {});
+    }
+    return receipts;
+  }
+
+  private async post(url: string, body: unknown): Promise<any> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Accept-encoding': 'gzip, deflate',
+          'Content-Type': 'application/json',
+          ...(this.accessToken ? { Authorization: `Bearer ${this.accessToken}` } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new PushTransportError(`Push request failed: ${(error as Error).message}`, true);
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      throw new PushTransportError(`Push service answered ${response.status}`, true);
+    }
+    if (!response.ok) {
+      throw new PushTransportError(`Push service answered ${response.status}: ${await response.text()}`, false);
+    }
+    return response.json();
+  }
+}
+
+// Accepts every message and remembers it. Tokens listed in failures are answered
+// with that Expo error code instead, both as a ticket and as a receipt.
+export class LocalPushProvider implements PushProvider {
+  readonly name = 'local';
+  readonly maxBatchSize = 100;
+  readonly sent: PushMessage[] = [];
+  private receipts: Record<string, PushReceipt> = {};
+  private nextTicket = 1;
+
+  constructor(private failures: Record<string, string> = {}) {}
+
+  isValidToken(token: string): boolean {
+    return token.length > 0;
+  }
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    return messages.map(message => {
+      const failure = this.failures[message.to];
+      if (failure) {
+        return { status: 'error', message: `Local provider: ${failure}`, details: { error: failure } };
+      }
+      this.sent.push(message);
+      const id = `local-${this.nextTicket++}`;
+      this.receipts[id] = { status: 'ok' };
+      return { status: 'ok', id };
+    });
+  }
+
+  async getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>> {
+    return Object.fromEntries(ticketIds.filter(id => this.receipts[id]).map(id => [id, this.receipts[id]]));
+  }
+}
+
+export const createPushProvider = (): PushProvider =>
+  Deno.env.get('PUSH_PROVIDER') === 'local'
+    ? new LocalPushProvider()
+    : new ExpoPushProvider(Deno.env.get('EXPO_ACCESS_TOKEN') ?? undefined);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Sends in provider-sized batches. Transport failures and rate limiting are
+// retried with exponential backoff; a message whose token the provider cannot
+// use is failed without being sent.
+export async function sendPushMessages(
+  provider: PushProvider,
+  messages: PushMessage[],
+  { maxAttempts = 3, baseDelayMs = 1000 }: SendOptions = {}
+): Promise<PushResult[]> {
+  const results: PushResult[] = [];
+  const deliverable: PushMessage[] = [];
+
+  for (const message of messages) {
+    if (provider.isValidToken(message.to)) {
+      deliverable.push(message);
+    } else {
+      results.push({ status: 'failed', message, error: 'InvalidToken', unregistered: true });
+    }
+  }
+
+  for (let i = 0; i < deliverable.length; i += provider.maxBatchSize) {
+    let pending = deliverable.slice(i, i + provider.maxBatchSize);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      const isLastAttempt = attempt >= maxAttempts;
+      const retry: PushMessage[] = [];
+
+      try {
+        const tickets = await provider.send(pending);
+        tickets.forEach((ticket, index) => {
+          const message = pending[index];
+          if (ticket.status === 'ok') {
+            results.push({ status: 'sent', message, ticketId: ticket.id });
+            return;
+          }
+          const error = ticket.details?.error ?? ticket.message;
+          if (!isLastAttempt && RETRYABLE_TICKET_ERRORS.includes(error)) {
+            retry.push(message);
+          } else {
+            results.push({ status: 'failed', message, error, unregistered: error === DEVICE_NOT_REGISTERED });
+          }
+        });
+      } catch (error) {
+        const retryable = error instanceof PushTransportError && error.retryable;
+        if (retryable && !isLastAttempt) {
+          retry.push(...pending);
+        } else {
+          const reason = (error as Error).message;
+          pending.forEach(message => results.push({ status: 'failed', message, error: reason, unregistered: false }));
+        }
+      }
+
+      pending = retry;
+      if (pending.length > 0) {
+        await sleep(baseDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  return results;
+}
+
+// Push tokens of every enabled device of each user (see user_devices)
+export async function loadPushTokens(supabaseAdmin: any, userIds: string[]): Promise<Map<string, string[]>> {
+  const tokens = new Map<string, string[]>();
+  if (userIds.length === 0) return tokens;
+
+  const { data, error } = await supabaseAdmin
+    .from('user_devices')
+    .select('user_id, push_token')
+    .in('user_id', userIds)
+    .eq('enabled', true)
+    .not('push_token', 'is', null);
+
+  if (error) throw error;
+  for (const device of data ?? []) {
+    tokens.set(device.user_id, [...(tokens.get(device.user_id) ?? []), device.push_token]);
+  }
+  return tokens;
+}
+
+// Devices that can never receive a push again are dropped from the registry, so
+// nothing keeps sending to them; the app registers itself again on its next launch
+export async function removePushTokens(supabaseAdmin: any, tokens: string[]): Promise<void> {
+  const unique = [...new Set(tokens)];
+  if (unique.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('user_devices')
+    .delete()
+    .in('push_token', unique);
+
+  if (error) {
+    console.error('[pushDelivery] Failed to remove dead push tokens:', error);
+  } else {
+    console.log(`[pushDelivery] Removed ${unique.length} dead push token(s)`);
+  }
+}
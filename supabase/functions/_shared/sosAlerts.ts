@@ -0,0 +1,164 @@
+// Delivery of patient SOS alerts, shared by trigger-sos (the first round) and
+// escalate-missed-doses (the repeats until someone acknowledges). An SOS is pushed
+// to every device of every caregiver at maximum urgency, regardless of their alert
+// toggle, and also goes out on the channels they chose for critical alerts.
+import { PushMessage, PushProvider, loadPushTokens, removePushTokens, sendPushMessages } from './pushDelivery.ts';
+import { MessageAdapter, MessageChannel, sendAlertMessages } from './messageDelivery.ts';
+
+export const SOS_ALERT_TYPE = 'emergency';
+
+export const SOS_TITLE = '🆘 SOS';
+
+// Repeats start this far apart and back off to SOS_MAX_REPEAT_INTERVAL_MS. They
+// never stop on their own: only acknowledging or resolving the incident ends them.
+export const SOS_REPEAT_INTERVAL_MS = 2 * 60 * 1000;
+export const SOS_MAX_REPEAT_INTERVAL_MS = 15 * 60 * 1000;
+
+// The wait before the next round, once the circle has been notified notifyCount times
+export const sosRepeatDelayMs = (notifyCount: number): number =>
+  Math.min(SOS_REPEAT_INTERVAL_MS * 2 ** Math.max(notifyCount - 1, 0), SOS_MAX_REPEAT_INTERVAL_MS);
+
+export interface SosAlert {
+  alertId: string;
+  caregiverId: string;
+  patientId: string;
+  message: string;
+}
+
+// Returns the number of caregivers reached by push
+export async function notifySosAlerts(
+  supabaseAdmin: any,
+  provider: PushProvider,
+  adapters: Partial<Record<MessageChannel, MessageAdapter>>,
+  alerts: SosAlert[],
+  title: string
+): Promise<number> {
+  if (alerts.length === 0) return 0;
+
+  const tokensByCaregiver = await loadPushTokens(supabaseAdmin, [...new Set(alerts.map((alert) => alert.caregiverId))]);
+
+  const alertsByMessage = new Map<PushMessage, SosAlert>();
+  const messages = alerts.flatMap((alert) => (tokensByCaregiver.get(alert.caregiverId) ?? []).map((token) => {
+    const message: PushMessage = {
+      to: token,
+      title,
+      body: alert.message,
+      sound: 'default',
+      priority: 'high',
+      badge: 1,
+      categoryId: 'caregiver-alert',
+      data: { type: 'caregiver-alert', alertId: alert.alertId, patientId: alert.patientId, sos: true },
+    };
+    alertsByMessage.set(message, alert);
+    return message;
+  }));
+
+  const results = await sendPushMessages(provider, messages);
+  const tickets: Record<string, unknown>[] = [];
+  const deadTokens: string[] = [];
+  const reached = new Set<string>();
+
+  for (const result of results) {
+    const alert = alertsByMessage.get(result.message)!;
+    if (result.status === 'sent') {
+      reached.add(alert.caregiverId);
+      tickets.push({
+        ticket_id: result.ticketId,
+        user_id: alert.caregiverId,
+        push_token: result.message.to,
+        caregiver_alert_id: alert.alertId,
+      });
+    } else {
+      console.warn('[sosAlerts] Push failed for SOS alert', alert.alertId, result.error);
+      if (result.unregistered) deadTokens.push(result.message.to);
+    }
+  }
+
+  if (tickets.length > 0) {
+    const { error } = await supabaseAdmin.from('push_tickets').insert(tickets);
+    if (error) console.error('[sosAlerts] Failed to record push tickets:', error);
+  }
+  await removePushTokens(supabaseAdmin, deadTokens);
+
+  await sendAlertMessages(
+    supabaseAdmin,
+    adapters,
+    alerts.map((alert) => ({
+      alertId: alert.alertId,
+      caregiverId: alert.caregiverId,
+      alertType: SOS_ALERT_TYPE,
+      message: `${title}: ${alert.message}`,
+      severity: 'critical',
+    }))
+  );
+
+  return reached.size;
+}
+
+// Notifies the circle again about SOS incidents nobody has acknowledged or resolved
+// yet, once each one's repeat delay has passed.
+// Returns the number of requests repeated.
+export async function repeatUnansweredSos(
+  supabaseAdmin: any,
+  provider: PushProvider,
+  adapters: Partial<Record<MessageChannel, MessageAdapter>>
+): Promise<number> {
+  const now = Date.now();
+  const { data: openAlerts, error: alertsError } = await supabaseAdmin
+    .from('caregiver_alerts')
+    .select('id, caregiver_id, patient_id, incident_id, alert_message')
+    .eq('alert_type', SOS_ALERT_TYPE)
+    .eq('status', 'open');
+
+  if (alertsError) {
+    console.error('[sosAlerts] Failed to load open SOS alerts:', alertsError);
+    return 0;
+  }
+  if (!openAlerts || openAlerts.length === 0) return 0;
+
+  const { data: requests, error } = await supabaseAdmin
+    .from('sos_requests')
+    .select('id, incident_id, notify_count, last_notified_at')
+    .in('incident_id', [...new Set(openAlerts.map((alert: any) => alert.incident_id))])
+    .lte('last_notified_at', new Date(now - SOS_REPEAT_INTERVAL_MS).toISOString());
+
+  if (error) {
+    console.error('[sosAlerts] Failed to load SOS requests:', error);
+    return 0;
+  }
+
+  const due = (requests ?? []).filter(
+    (sos: any) => new Date(sos.last_notified_at).getTime() + sosRepeatDelayMs(sos.notify_count) <= now
+  );
+
+  let repeated = 0;
+  for (const sos of due) {
+    const alerts = openAlerts.filter((alert: any) => alert.incident_id === sos.incident_id);
+
+    // Claim the round first, so overlapping runs do not both send it
+    const { data: claimed } = await supabaseAdmin
+      .from('sos_requests')
+      .update({ notify_count: sos.notify_count + 1, last_notified_at: new Date(now).toISOString() })
+      .eq('id', sos.id)
+      .eq('notify_count', sos.notify_count)
+      .select('id');
+    if (!claimed || claimed.length === 0) continue;
+
+    await notifySosAlerts(
+      supabaseAdmin,
+      provider,
+      adapters,
+      alerts.map((alert: any) => ({
+        alertId: alert.id,
+        caregiverId: alert.caregiver_id,
+        patientId: alert.patient_id,
+        message: alert.alert_message,
+      })),
+      `${SOS_TITLE} (no one has responded yet)`
+    );
+    repeated += 1;
+  }
+
+  if (repeated > 0) console.log(`[sosAlerts] Repeated ${repeated} unanswered SOS request(s)`);
+  return repeated;
+}
@@ -0,0 +1,102 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadPushTokens } from '../_shared/pushDelivery.ts';
+import { ALERT_TYPE_SEVERITY, createMessageAdapters, sendAlertMessages } from '../_shared/messageDelivery.ts';
+
+// Only alerts raised moments ago are delivered, so replays cannot re-send them
+const MAX_ALERT_AGE_MS = 5 * 60 * 1000;
+
+console.log('deliver-caregiver-alert function initializing');
+
+// Texts and emails caregiver alerts that the app wrote to the caregiver_alerts inbox
+// (missed doses noticed on the patient's device, emergencies, low stock). The caller
+// must be the patient or the caregiver of each alert; escalate-missed-doses handles
+// the alerts it raises itself.
+serve(async (req: Request) => {
+  console.log('[deliver-caregiver-alert] Received request', req.method, req.url);
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const alertIds: string[] = Array.isArray(body?.alert_ids) ? body.alert_ids : [];
+
+    if (alertIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Missing alert_ids' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUserClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseUserClient.auth.getUser();
+    if (authError || !user) {
+      console.error('[deliver-caregiver-alert] Auth error:', authError);
+      return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: alerts, error: alertsError } = await supabaseAdmin
+      .from('caregiver_alerts')
+      .select('id, patient_id, caregiver_id, alert_type, alert_message, created_at, outbound_messages(id)')
+      .in('id', alertIds);
+
+    if (alertsError) {
+      console.error('[deliver-caregiver-alert] Failed to load alerts:', alertsError);
+      return new Response(JSON.stringify({ error: 'Database error', details: alertsError.message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const deliverable = (alerts ?? []).filter((alert: any) =>
+      (alert.patient_id === user.id || alert.caregiver_id === user.id) &&
+      Date.now() - new Date(alert.created_at).getTime() <= MAX_ALERT_AGE_MS &&
+      (alert.outbound_messages ?? []).length === 0
+    );
+
+    const caregiverIds = [...new Set<string>(deliverable.map((alert: any) => alert.caregiver_id))];
+    const tokens = await loadPushTokens(supabaseAdmin, caregiverIds);
+
+    const sent = await sendAlertMessages(
+      supabaseAdmin,
+      createMessageAdapters(),
+      deliverable.map((alert: any) => ({
+        alertId: alert.id,
+        caregiverId: alert.caregiver_id,
+        alertType: alert.alert_type,
+        message: alert.alert_message,
+        severity: ALERT_TYPE_SEVERITY[alert.alert_type] ?? 'normal',
+      })),
+      new Set(tokens.keys())
+    );
+
+    return new Response(JSON.stringify({ alerts: deliverable.length, sent }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (err) {
+    console.error('[deliver-caregiver-alert] Unexpected error:', err);
+    return new Response(JSON.stringify({ error: 'Internal server error', details: (err as Error).message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
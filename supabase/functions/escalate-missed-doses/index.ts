@@ -0,0 +1,211 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { PushProvider, createPushProvider, loadPushTokens } from '../_shared/pushDelivery.ts';
+import {
+  ALERT_TYPE_SEVERITY,
+  MessageAdapter,
+  MessageChannel,
+  createMessageAdapters,
+  sendAlertMessages,
+} from '../_shared/messageDelivery.ts';
+import { repeatUnansweredSos } from '../_shared/sosAlerts.ts';
+import {
+  EscalatedAlert,
+  PUSHED_ALERT_TYPE,
+  RECEIPT_MAX_AGE_MS,
+  checkReceipts,
+  moveToInbox,
+  pushAlerts,
+} from '../_shared/missedDoseAlerts.ts';
+
+// An alert still waiting for its push this long after it was raised (the run that
+// raised it died before sending) goes to the inbox instead
+const UNSENT_ALERT_GRACE_MS = 5 * 60 * 1000;
+
+// Backup alerts for the rest of the circle carry the type of the alert they repeat
+interface BackupAlert extends EscalatedAlert {
+  alert_type: string;
+}
+
+console.log('escalate-missed-doses function initializing');
+
+serve(async (req: Request) => {
+  console.log('[escalate-missed-doses] Received request', req.method, req.url);
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // The scheduled job calls with the service role key and scans every patient.
+    // A signed-in patient may also trigger a check, limited to their own doses.
+    let patientId: string | null = null;
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      const supabaseUserClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data: { user }, error: authError } = await supabaseUserClient.auth.getUser();
+      if (authError || !user) {
+        console.error('[escalate-missed-doses] Auth error:', authError);
+        return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      patientId = user.id;
+    }
+
+    // An explicit "now" lets the escalation be exercised against a local database
+    const body = await req.json().catch(() => ({}));
+    const now = typeof body?.now === 'string' ? body.now : new Date().toISOString();
+
+    const { data: alerts, error: escalateError } = await supabaseAdmin.rpc('escalate_missed_medication_alarms', {
+      p_now: now,
+      p_patient_id: patientId,
+    });
+
+    if (escalateError) {
+      console.error('[escalate-missed-doses] Escalation query failed:', escalateError);
+      return new Response(JSON.stringify({ error: 'Database error', details: escalateError.message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const escalated = (alerts ?? []) as EscalatedAlert[];
+    console.log(`[escalate-missed-doses] ${escalated.length} caregiver alert(s) created`);
+
+    const provider = createPushProvider();
+    const adapters = createMessageAdapters();
+    const delivered = await pushAlerts(supabaseAdmin, provider, escalated);
+
+    // Missed doses also go out by text and email to caregivers who chose those
+    // channels for the alert's urgency, whether or not the push arrived
+    const messaged = await sendAlertMessages(
+      supabaseAdmin,
+      adapters,
+      escalated.map((alert) => ({
+        alertId: alert.alert_id,
+        caregiverId: alert.caregiver_id,
+        alertType: PUSHED_ALERT_TYPE,
+        message: alert.alert_message,
+        severity: alert.urgency,
+      }))
+    );
+
+    const backedUp = await alertBackupCaregivers(supabaseAdmin, provider, adapters, now);
+
+    // Earlier runs' pushes: confirm delivery, or fall back to the inbox
+    const receipts = await checkReceipts(supabaseAdmin, provider);
+    await sweepUnsentAlerts(supabaseAdmin);
+    await pruneStaleDevices(supabaseAdmin);
+    const sosRepeated = await repeatUnansweredSos(supabaseAdmin, provider, adapters);
+
+    return new Response(JSON.stringify({
+      alerted: escalated.length,
+      pushed: delivered,
+      messaged,
+      backedUp,
+      receipts,
+      sosRepeated,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (err) {
+    console.error('[escalate-missed-doses] Unexpected error:', err);
+    return new Response(JSON.stringify({ error: 'Internal server error', details: (err as Error).message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// For patients with an on-call rota: alerts the on-call caregivers have left open too
+// long go to the rest of the circle (see alert_backup_caregivers). Missed doses are
+// pushed like any escalated alert; other types reach the caregiver apps through
+// their live feed. Returns the number of backup alerts raised.
+async function alertBackupCaregivers(
+  supabaseAdmin: any,
+  provider: PushProvider,
+  adapters: Partial<Record<MessageChannel, MessageAdapter>>,
+  now: string
+): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('alert_backup_caregivers', { p_now: now });
+  if (error) {
+    console.error('[escalate-missed-doses] Backup escalation failed:', error);
+    return 0;
+  }
+
+  const backups = (data ?? []) as BackupAlert[];
+  if (backups.length === 0) return 0;
+  console.log(`[escalate-missed-doses] ${backups.length} backup caregiver alert(s) created`);
+
+  await pushAlerts(supabaseAdmin, provider, backups.filter((alert) => alert.alert_type === PUSHED_ALERT_TYPE));
+
+  // As for alerts the app raises: other types are only texted or emailed to
+  // caregivers without a device to see them on
+  const tokens = await loadPushTokens(supabaseAdmin, [...new Set(backups.map((alert) => alert.caregiver_id))]);
+  await sendAlertMessages(
+    supabaseAdmin,
+    adapters,
+    backups.map((alert) => ({
+      alertId: alert.alert_id,
+      caregiverId: alert.caregiver_id,
+      alertType: alert.alert_type,
+      message: alert.alert_message,
+      severity: alert.alert_type === PUSHED_ALERT_TYPE ? alert.urgency : ALERT_TYPE_SEVERITY[alert.alert_type] ?? 'normal',
+    })),
+    new Set(tokens.keys())
+  );
+  return backups.length;
+}
+
+// Devices that have not opened the app in a long while (see prune_stale_user_devices)
+async function pruneStaleDevices(supabaseAdmin: any): Promise<void> {
+  const { data: pruned, error } = await supabaseAdmin.rpc('prune_stale_user_devices');
+  if (error) {
+    console.error('[escalate-missed-doses] Failed to prune stale devices:', error);
+  } else if (pruned > 0) {
+    console.log(`[escalate-missed-doses] Pruned ${pruned} stale device(s)`);
+  }
+}
+
+// Alerts raised by a run that died before pushing them
+async function sweepUnsentAlerts(supabaseAdmin: any): Promise<void> {
+  const { data: unsent, error } = await supabaseAdmin
+    .from('caregiver_alerts')
+    .select('id, push_tickets(ticket_id)')
+    .eq('alert_type', PUSHED_ALERT_TYPE)
+    .eq('acknowledged', false)
+    .lte('created_at', new Date(Date.now() - UNSENT_ALERT_GRACE_MS).toISOString())
+    .gte('created_at', new Date(Date.now() - RECEIPT_MAX_AGE_MS).toISOString());
+
+  if (error) {
+    console.error('[escalate-missed-doses] Failed to look for unsent alerts:', error);
+    return;
+  }
+
+  await moveToInbox(
+    supabaseAdmin,
+    (unsent ?? []).filter((alert: any) => (alert.push_tickets ?? []).length === 0).map((alert: any) => alert.id)
+  );
+}
@@ -0,0 +1,131 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createPushProvider, loadPushTokens, removePushTokens, sendPushMessages } from '../_shared/pushDelivery.ts';
+
+// Only a response made moments ago is announced, so replays cannot re-notify
+const MAX_EVENT_AGE_MS = 5 * 60 * 1000;
+
+console.log('notify-alert-response function initializing');
+
+// Tells the patient that a caregiver is handling (or has handled) an alert about
+// them. The caregiver's app calls this right after respond_to_caregiver_alert()
+// changed the incident; the message is built from the recorded event, not the request.
+serve(async (req: Request) => {
+  console.log('[notify-alert-response] Received request', req.method, req.url);
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const incidentId = body?.incident_id;
+
+    if (!incidentId) {
+      return new Response(JSON.stringify({ error: 'Missing incident_id' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUserClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseUserClient.auth.getUser();
+    if (authError || !user) {
+      console.error('[notify-alert-response] Auth error:', authError);
+      return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: event, error: eventError } = await supabaseAdmin
+      .from('caregiver_alert_events')
+      .select('patient_id, actor_id, actor_name, action, note, created_at')
+      .eq('incident_id', incidentId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (eventError) {
+      console.error('[notify-alert-response] Failed to load alert event:', eventError);
+      return new Response(JSON.stringify({ error: 'Database error', details: eventError.message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!event || event.actor_id !== user.id || Date.now() - new Date(event.created_at).getTime() > MAX_EVENT_AGE_MS) {
+      return new Response(JSON.stringify({ error: 'No recent response by this caregiver' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from('notification_settings')
+      .select('sound_enabled')
+      .eq('user_id', event.patient_id)
+      .maybeSingle();
+
+    if (settingsError) {
+      console.error('[notify-alert-response] Failed to load patient settings:', settingsError);
+    }
+
+    const tokens = (await loadPushTokens(supabaseAdmin, [event.patient_id])).get(event.patient_id) ?? [];
+    if (tokens.length === 0) {
+      return new Response(JSON.stringify({ pushed: false }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const message = event.action === 'acknowledged'
+      ? { title: '🤝 Your caregiver is on it', body: `${event.actor_name} has seen the alert and is looking into it.` }
+      : {
+          title: '✅ Alert resolved',
+          body: event.note ? `${event.actor_name}: ${event.note}` : `${event.actor_name} marked the alert as resolved.`,
+        };
+
+    // The patient still sees the response in their alert history if this fails
+    const results = await sendPushMessages(createPushProvider(), tokens.map((token) => ({
+      to: token,
+      ...message,
+      sound: settings?.sound_enabled !== false ? 'default' : null,
+      data: { type: 'caregiver-alert-response', incidentId },
+    })));
+
+    const pushed = results.some((result) => result.status === 'sent');
+    const deadTokens: string[] = [];
+    for (const result of results) {
+      if (result.status === 'failed') {
+        console.warn('[notify-alert-response] Push failed:', result.error);
+        if (result.unregistered) deadTokens.push(result.message.to);
+      }
+    }
+    await removePushTokens(supabaseAdmin, deadTokens);
+
+    return new Response(JSON.stringify({ pushed }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (err) {
+    console.error('[notify-alert-response] Unexpected error:', err);
+    return new Response(JSON.stringify({ error: 'Internal server error', details: (err as Error).message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,192 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createPushProvider } from '../_shared/pushDelivery.ts';
+import { createMessageAdapters } from '../_shared/messageDelivery.ts';
+import { SOS_ALERT_TYPE, SOS_TITLE, notifySosAlerts } from '../_shared/sosAlerts.ts';
+
+// A second press this soon after the first joins the open request instead of
+// alerting everyone again
+const DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+
+console.log('trigger-sos function initializing');
+
+const formatAgo = (date: Date, now: Date): string => {
+  const minutes = Math.max(0, Math.round((now.getTime() - date.getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} days ago`;
+};
+
+// Called by the patient's app once the SOS button was held down. Alerts every active
+// caregiver with the patient's last dose and check-in; escalate-missed-doses keeps
+// repeating the alert until one of them acknowledges it.
+serve(async (req: Request) => {
+  console.log('[trigger-sos] Received request', req.method, req.url);
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method Not Allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const supabaseUserClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseUserClient.auth.getUser();
+    if (authError || !user) {
+      console.error('[trigger-sos] Auth error:', authError);
+      return new Response(JSON.stringify({ error: 'User not authenticated' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const now = new Date();
+
+    const { data: recent } = await supabaseAdmin
+      .from('sos_requests')
+      .select('id, incident_id, caregiver_count')
+      .eq('patient_id', user.id)
+      .gte('created_at', new Date(now.getTime() - DUPLICATE_WINDOW_MS).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (recent) {
+      return new Response(
+        JSON.stringify({ sos_id: recent.id, incident_id: recent.incident_id, notified: recent.caregiver_count, duplicate: true }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const [caregiversResult, profileResult, doseResult, checkinResult] = await Promise.all([
+      supabaseAdmin
+        .from('patient_caregiver_connections')
+        .select('caregiver_id')
+        .eq('patient_id', user.id)
+        .eq('connection_status', 'active'),
+      supabaseAdmin
+        .from('profiles')
+        .select('first_name, last_name')
+        .eq('id', user.id)
+        .maybeSingle(),
+      supabaseAdmin
+        .from('medication_administration_logs')
+        .select('status, taken_at, created_at, medications(name)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabaseAdmin
+        .from('health_checkins')
+        .select('created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    if (caregiversResult.error) {
+      console.error('[trigger-sos] Failed to load caregivers:', caregiversResult.error);
+      return new Response(JSON.stringify({ error: 'Database error', details: caregiversResult.error.message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const profile = profileResult.data;
+    const patientName = `${profile?.first_name ?? ''} ${profile?.last_name ?? ''}`.trim() || 'Your patient';
+    const lastDose = doseResult.data;
+    const lastCheckin = checkinResult.data;
+
+    const context = {
+      last_dose: lastDose
+        ? {
+            medication: lastDose.medications?.name ?? null,
+            status: lastDose.status,
+            at: lastDose.taken_at ?? lastDose.created_at,
+          }
+        : null,
+      last_checkin_at: lastCheckin?.created_at ?? null,
+    };
+
+    const doseText = context.last_dose
+      ? `Last dose: ${context.last_dose.medication ?? 'medication'} ${context.last_dose.status} ${formatAgo(new Date(context.last_dose.at), now)}.`
+      : 'No doses logged.';
+    const checkinText = context.last_checkin_at
+      ? `Last check-in ${formatAgo(new Date(context.last_checkin_at), now)}.`
+      : 'No check-ins yet.';
+    const message = `${patientName} pressed SOS and needs help. ${doseText} ${checkinText}`;
+
+    const caregiverIds: string[] = (caregiversResult.data ?? []).map((row: any) => row.caregiver_id);
+    const incidentId = crypto.randomUUID();
+
+    const { data: alerts, error: insertError } = caregiverIds.length > 0
+      ? await supabaseAdmin
+          .from('caregiver_alerts')
+          .insert(caregiverIds.map((caregiverId) => ({
+            patient_id: user.id,
+            caregiver_id: caregiverId,
+            incident_id: incidentId,
+            alert_type: SOS_ALERT_TYPE,
+            alert_message: message,
+          })))
+          .select('id, caregiver_id')
+      : { data: [], error: null };
+
+    if (insertError) {
+      console.error('[trigger-sos] Failed to raise SOS alerts:', insertError);
+      return new Response(JSON.stringify({ error: 'Database error', details: insertError.message }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: sos, error: sosError } = await supabaseAdmin
+      .from('sos_requests')
+      .insert({ patient_id: user.id, incident_id: incidentId, context, caregiver_count: caregiverIds.length })
+      .select('id')
+      .single();
+
+    if (sosError) {
+      console.error('[trigger-sos] Failed to record SOS request:', sosError);
+    }
+
+    const pushed = await notifySosAlerts(
+      supabaseAdmin,
+      createPushProvider(),
+      createMessageAdapters(),
+      (alerts ?? []).map((alert: any) => ({
+        alertId: alert.id,
+        caregiverId: alert.caregiver_id,
+        patientId: user.id,
+        message,
+      })),
+      SOS_TITLE
+    );
+
+    console.log(`[trigger-sos] SOS for ${user.id}: ${caregiverIds.length} caregiver(s) alerted, ${pushed} by push`);
+
+    return new Response(
+      JSON.stringify({ sos_id: sos?.id ?? null, incident_id: incidentId, notified: caregiverIds.length, pushed }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (err) {
+    console.error('[trigger-sos] Unexpected error:', err);
+    return new Response(JSON.stringify({ error: 'Internal server error', details: (err as Error).message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,140 @@
+-- Server-side missed-dose escalation.
+-- The escalate-missed-doses edge function calls escalate_missed_medication_alarms()
+-- on a schedule, so caregivers hear about a missed dose even when the patient's
+-- phone is off or the app has been killed.
+
+-- Link each caregiver alert back to the dose that triggered it.
+ALTER TABLE public.caregiver_alerts
+    ADD COLUMN IF NOT EXISTS medication_alarm_id UUID REFERENCES public.medication_alarms(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS dose_scheduled_time TIMESTAMP WITH TIME ZONE;
+
+-- A caregiver is alerted at most once for a given alarm.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_caregiver_alerts_caregiver_alarm
+    ON public.caregiver_alerts(caregiver_id, medication_alarm_id);
+
+CREATE INDEX IF NOT EXISTS idx_medication_alarms_pending_escalation
+    ON public.medication_alarms(scheduled_time)
+    WHERE patient_responded = FALSE AND caregiver_alerted = FALSE;
+
+-- Claims every dose whose final reminder went unanswered for longer than the
+-- patient's caregiver_alert_delay and writes one caregiver_alerts row per active
+-- caregiver. All alarm rows of a claimed dose are flagged caregiver_alerted in the
+-- same statement, so running this twice (or concurrently) never alerts a dose twice.
+--
+-- New alerts are stored as 'medication_missed_local' so the caregiver inbox picks
+-- them up; the edge function switches them to 'medication_missed' once a push
+-- notification has actually been delivered.
+--
+-- p_patient_id limits the scan to one patient (used when a patient's own device
+-- triggers the check); NULL scans every patient.
+CREATE OR REPLACE FUNCTION public.escalate_missed_medication_alarms(
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    p_patient_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    alert_id UUID,
+    caregiver_id UUID,
+    patient_id UUID,
+    medication_alarm_id UUID,
+    medication_schedule_id UUID,
+    medication_name TEXT,
+    dose_scheduled_time TIMESTAMP WITH TIME ZONE,
+    alert_message TEXT
+)
+AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    WITH due AS (
+        SELECT DISTINCT ma.patient_id, ma.medication_schedule_id, ma.scheduled_time
+        FROM public.medication_alarms ma
+        LEFT JOIN public.notification_settings ns ON ns.user_id = ma.patient_id
+        WHERE ma.alarm_attempt >= COALESCE(ns.max_reminder_attempts, 3)
+          AND ma.patient_responded = FALSE
+          AND ma.caregiver_alerted = FALSE
+          AND ma.scheduled_time + make_interval(mins => COALESCE(ns.caregiver_alert_delay, 15)) <= p_now
+          AND (p_patient_id IS NULL OR ma.patient_id = p_patient_id)
+    ),
+    claimed AS (
+        UPDATE public.medication_alarms ma
+        SET caregiver_alerted = TRUE,
+            caregiver_alert_sent_at = p_now,
+            updated_at = p_now
+        FROM due d
+        WHERE ma.patient_id = d.patient_id
+          AND ma.medication_schedule_id IS NOT DISTINCT FROM d.medication_schedule_id
+          AND ma.scheduled_time = d.scheduled_time
+          AND ma.caregiver_alerted = FALSE
+          AND ma.patient_responded = FALSE
+        RETURNING ma.id, ma.patient_id, ma.medication_schedule_id, ma.scheduled_time, ma.alarm_attempt
+    ),
+    doses AS (
+        SELECT DISTINCT ON (c.patient_id, c.medication_schedule_id, c.scheduled_time)
+            c.id, c.patient_id, c.medication_schedule_id, c.scheduled_time
+        FROM claimed c
+        ORDER BY c.patient_id, c.medication_schedule_id, c.scheduled_time, c.alarm_attempt DESC
+    ),
+    described AS (
+        SELECT
+            d.*,
+            COALESCE(m.name, 'their medication') AS med_name,
+            format(
+                '🚨 %s hasn''t taken %s scheduled for %s',
+                COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Patient'),
+                COALESCE(m.name, 'their medication'),
+                to_char(d.scheduled_time, 'HH24:MI')
+            ) AS message
+        FROM doses d
+        LEFT JOIN public.profiles p ON p.id = d.patient_id
+        LEFT JOIN public.medication_schedules ms ON ms.id = d.medication_schedule_id
+        LEFT JOIN public.medications m ON m.id = ms.medication_id
+    ),
+    inserted AS (
+        INSERT INTO public.caregiver_alerts (
+            patient_id,
+            caregiver_id,
+            medication_schedule_id,
+            medication_alarm_id,
+            dose_scheduled_time,
+            alert_type,
+            alert_message
+        )
+        SELECT
+            ds.patient_id,
+            pcc.caregiver_id,
+            ds.medication_schedule_id,
+            ds.id,
+            ds.scheduled_time,
+            'medication_missed_local',
+            ds.message
+        FROM described ds
+        JOIN public.patient_caregiver_connections pcc
+            ON pcc.patient_id = ds.patient_id
+           AND pcc.connection_status = 'active'
+        ON CONFLICT DO NOTHING
+        RETURNING
+            caregiver_alerts.id,
+            caregiver_alerts.caregiver_id,
+            caregiver_alerts.patient_id,
+            caregiver_alerts.medication_alarm_id,
+            caregiver_alerts.medication_schedule_id,
+            caregiver_alerts.dose_scheduled_time,
+            caregiver_alerts.alert_message
+    )
+    SELECT
+        i.id,
+        i.caregiver_id,
+        i.patient_id,
+        i.medication_alarm_id,
+        i.medication_schedule_id,
+        ds.med_name,
+        i.dose_scheduled_time,
+        i.alert_message
+    FROM inserted i
+    JOIN described ds ON ds.id = i.medication_alarm_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the edge function (service role) may run the escalation.
+REVOKE ALL ON FUNCTION public.escalate_missed_medication_alarms(TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.escalate_missed_medication_alarms(TIMESTAMP WITH TIME ZONE, UUID) TO service_role;
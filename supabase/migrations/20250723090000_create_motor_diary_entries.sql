@@ -0,0 +1,51 @@
+-- Hourly ON/OFF motor fluctuation diary, modeled on the Hauser diary.
+-- Each row records the patient's state for one hour of one day.
+CREATE TABLE IF NOT EXISTS public.motor_diary_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    entry_date DATE NOT NULL,
+    hour SMALLINT NOT NULL CHECK (hour BETWEEN 0 AND 23), -- Local hour the entry covers
+    state TEXT NOT NULL CHECK (state IN (
+        'off',
+        'on',
+        'on_non_troublesome_dyskinesia',
+        'on_troublesome_dyskinesia',
+        'asleep'
+    )),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, entry_date, hour)
+);
+
+CREATE INDEX IF NOT EXISTS idx_motor_diary_entries_user_date
+    ON public.motor_diary_entries(user_id, entry_date);
+
+ALTER TABLE public.motor_diary_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own motor diary"
+ON public.motor_diary_entries FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own motor diary"
+ON public.motor_diary_entries FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own motor diary"
+ON public.motor_diary_entries FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own motor diary"
+ON public.motor_diary_entries FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Caregivers can view patient motor diary"
+ON public.motor_diary_entries FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.motor_diary_entries.user_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
@@ -0,0 +1,115 @@
+-- Clinician visit reports: summaries of the period before an appointment,
+-- exported as PDF and CSV and stored alongside the appointment.
+CREATE TABLE IF NOT EXISTS public.appointment_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    appointment_id UUID NOT NULL REFERENCES public.doctor_appointments(id) ON DELETE CASCADE,
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    pdf_path TEXT, -- Object path in the visit-reports bucket
+    csv_path TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (period_start <= period_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reports_appointment
+    ON public.appointment_reports(appointment_id, created_at DESC);
+
+ALTER TABLE public.appointment_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own appointment reports"
+ON public.appointment_reports FOR SELECT
+USING (auth.uid() = patient_id);
+
+CREATE POLICY "Users can insert own appointment reports"
+ON public.appointment_reports FOR INSERT
+WITH CHECK (auth.uid() = patient_id);
+
+CREATE POLICY "Users can delete own appointment reports"
+ON public.appointment_reports FOR DELETE
+USING (auth.uid() = patient_id);
+
+CREATE POLICY "Caregivers can view patient appointment reports"
+ON public.appointment_reports FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.appointment_reports.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+-- Results of the in-app Parkinson's screening assessment, kept so they can be
+-- included in visit reports.
+CREATE TABLE IF NOT EXISTS public.assessment_results (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    risk_level TEXT NOT NULL CHECK (risk_level IN ('Low', 'Moderate', 'High')),
+    percentage SMALLINT NOT NULL CHECK (percentage BETWEEN 0 AND 100),
+    key_factors JSONB NOT NULL DEFAULT '[]'::jsonb,
+    recommendations JSONB NOT NULL DEFAULT '[]'::jsonb,
+    answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assessment_results_user_created
+    ON public.assessment_results(user_id, created_at DESC);
+
+ALTER TABLE public.assessment_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own assessment results"
+ON public.assessment_results FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own assessment results"
+ON public.assessment_results FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Caregivers can view patient assessment results"
+ON public.assessment_results FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.assessment_results.user_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+-- Private bucket; files live under <patient_id>/<appointment_id>/
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('visit-reports', 'visit-reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own visit reports"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'visit-reports'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can read own visit reports"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'visit-reports'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Caregivers can read patient visit reports"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'visit-reports'
+    AND EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id::text = (storage.foldername(name))[1]
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
@@ -0,0 +1,117 @@
+-- Structured doses for medications. catalog_id points at an entry in the app's
+-- bundled catalog (lib/data/medicationCatalog.ts); the free-text name and dosage
+-- columns stay as entered.
+ALTER TABLE public.medications
+    ADD COLUMN IF NOT EXISTS catalog_id TEXT,
+    ADD COLUMN IF NOT EXISTS dose_amount NUMERIC CHECK (dose_amount > 0),
+    ADD COLUMN IF NOT EXISTS dose_unit TEXT CHECK (dose_unit IN ('mg', 'mcg', 'mg/24h', 'mL')),
+    ADD COLUMN IF NOT EXISTS dose_form TEXT CHECK (dose_form IN (
+        'tablet',
+        'capsule',
+        'orally_disintegrating_tablet',
+        'sublingual_film',
+        'patch',
+        'injection',
+        'inhalation',
+        'enteral_suspension',
+        'subcutaneous_infusion'
+    ));
+
+CREATE INDEX IF NOT EXISTS idx_medications_user_catalog
+    ON public.medications(user_id, catalog_id);
+
+-- Map existing free-text names onto catalog entries. Lower priority wins, so
+-- brand names and release-specific spellings are tried before plain generics,
+-- matching matchCatalogEntry() in lib/medicationCatalog.ts.
+WITH catalog (priority, pattern, catalog_id, dose_form, dose_unit) AS (
+    VALUES
+        (10, '\msinemet\s+cr\M', 'carbidopa_levodopa_cr', 'tablet', 'mg'),
+        (10, '\m(rytary|numient)\M', 'carbidopa_levodopa_er_capsule', 'capsule', 'mg'),
+        (10, '\mparcopa\M', 'carbidopa_levodopa_odt', 'orally_disintegrating_tablet', 'mg'),
+        (10, '\m(duopa|duodopa)\M', 'carbidopa_levodopa_enteral', 'enteral_suspension', 'mL'),
+        (10, '\m(vyalev|produodopa|foslevodopa)\M', 'foscarbidopa_foslevodopa', 'subcutaneous_infusion', 'mL'),
+        (10, '\minbrija\M', 'levodopa_inhaled', 'inhalation', 'mg'),
+        (10, '\mmadopar\s+(cr|hbs)\M', 'benserazide_levodopa_cr', 'capsule', 'mg'),
+        (10, '\mstalevo\M', 'carbidopa_levodopa_entacapone', 'tablet', 'mg'),
+        (10, '\mmirapex(in)?\s+er\M|\msifrol\s+er\M', 'pramipexole_er', 'tablet', 'mg'),
+        (10, '\mrequip\s+xl\M', 'ropinirole_er', 'tablet', 'mg'),
+        (10, '\mexelon\s+patch\M', 'rivastigmine_patch', 'patch', 'mg/24h'),
+        (10, '\mzelapar\M', 'selegiline_odt', 'orally_disintegrating_tablet', 'mg'),
+        (10, '\mkynmobi\M', 'apomorphine_film', 'sublingual_film', 'mg'),
+        (10, '\mgocovri\M', 'amantadine_er_capsule', 'capsule', 'mg'),
+        (10, '\mosmolex\M', 'amantadine_er_tablet', 'tablet', 'mg'),
+        (20, '\msinemet\M', 'carbidopa_levodopa_ir', 'tablet', 'mg'),
+        (20, '\m(madopar|prolopa|benserazide)\M', 'benserazide_levodopa', 'capsule', 'mg'),
+        (20, '\mlodosyn\M', 'carbidopa', 'tablet', 'mg'),
+        (20, '\m(azilect|rasagiline)\M', 'rasagiline', 'tablet', 'mg'),
+        (20, '\m(eldepryl|selegiline)\M', 'selegiline', 'capsule', 'mg'),
+        (20, '\m(xadago|safinamide)\M', 'safinamide', 'tablet', 'mg'),
+        (20, '\m(mirapex(in)?|sifrol)\M', 'pramipexole_ir', 'tablet', 'mg'),
+        (20, '\mrequip\M', 'ropinirole_ir', 'tablet', 'mg'),
+        (20, '\m(neupro|rotigotine)\M', 'rotigotine', 'patch', 'mg/24h'),
+        (20, '\m(apokyn|apo-go|apomorphine)\M', 'apomorphine_injection', 'injection', 'mg'),
+        (20, '\m(tasmar|tolcapone)\M', 'tolcapone', 'tablet', 'mg'),
+        (20, '\m(ongentys|opicapone)\M', 'opicapone', 'capsule', 'mg'),
+        (20, '\m(nourianz|istradefylline)\M', 'istradefylline', 'tablet', 'mg'),
+        (20, '\m(artane|benzhexol|trihexyphenidyl)\M', 'trihexyphenidyl', 'tablet', 'mg'),
+        (20, '\m(cogentin|benztropine)\M', 'benztropine', 'tablet', 'mg'),
+        (20, '\m(nuplazid|pimavanserin)\M', 'pimavanserin_tablet', 'tablet', 'mg'),
+        (20, '\m(seroquel|quetiapine)\M', 'quetiapine', 'tablet', 'mg'),
+        (20, '\m(clozaril|clozapine)\M', 'clozapine', 'tablet', 'mg'),
+        (20, '\m(exelon|rivastigmine)\M', 'rivastigmine_capsule', 'capsule', 'mg'),
+        (20, '\m(northera|droxidopa)\M', 'droxidopa', 'capsule', 'mg'),
+        (20, '\m(proamatine|midodrine)\M', 'midodrine', 'tablet', 'mg'),
+        (20, '\m(motilium|domperidone)\M', 'domperidone', 'tablet', 'mg'),
+        (30, '\mlevodopa\M.*\mentacapone\M|\mentacapone\M.*\mlevodopa\M', 'carbidopa_levodopa_entacapone', 'tablet', 'mg'),
+        (30, '\m(levodopa|l-dopa)\M.*\m(cr|controlled)\M', 'carbidopa_levodopa_cr', 'tablet', 'mg'),
+        (30, '\m(levodopa|l-dopa)\M.*\m(er|xl|xr|sr|extended)\M', 'carbidopa_levodopa_er_capsule', 'capsule', 'mg'),
+        (30, '\mpramipexole\M.*\m(er|xr|extended)\M', 'pramipexole_er', 'tablet', 'mg'),
+        (30, '\mropinirole\M.*\m(er|xl|extended)\M', 'ropinirole_er', 'tablet', 'mg'),
+        (30, '\mamantadine\M.*\m(er|extended)\M', 'amantadine_er_capsule', 'capsule', 'mg'),
+        (40, '\m(levodopa|l-dopa)\M', 'carbidopa_levodopa_ir', 'tablet', 'mg'),
+        (40, '\mpramipexole\M', 'pramipexole_ir', 'tablet', 'mg'),
+        (40, '\mropinirole\M', 'ropinirole_ir', 'tablet', 'mg'),
+        (40, '\m(comtan|entacapone)\M', 'entacapone', 'tablet', 'mg'),
+        (40, '\m(symmetrel|amantadine)\M', 'amantadine_ir', 'capsule', 'mg'),
+        (50, '\mcarbidopa\M', 'carbidopa', 'tablet', 'mg')
+),
+matched AS (
+    SELECT DISTINCT ON (m.id) m.id, c.catalog_id, c.dose_form, c.dose_unit
+    FROM public.medications m
+    JOIN catalog c ON lower(m.name) ~ c.pattern
+    WHERE m.catalog_id IS NULL
+    ORDER BY m.id, c.priority
+)
+UPDATE public.medications m
+SET catalog_id = matched.catalog_id,
+    dose_form = COALESCE(m.dose_form, matched.dose_form),
+    dose_unit = COALESCE(m.dose_unit, matched.dose_unit)
+FROM matched
+WHERE m.id = matched.id;
+
+-- Levodopa combinations are written as "25/100" (or "25/100/200"); the structured
+-- amount is the levodopa part
+UPDATE public.medications
+SET dose_amount = (regexp_match(dosage, '\d+(?:\.\d+)?\s*/\s*(\d+(?:\.\d+)?)'))[1]::NUMERIC
+WHERE dose_amount IS NULL
+  AND catalog_id IN (
+      'carbidopa_levodopa_ir',
+      'carbidopa_levodopa_cr',
+      'carbidopa_levodopa_er_capsule',
+      'carbidopa_levodopa_odt',
+      'benserazide_levodopa',
+      'benserazide_levodopa_cr',
+      'carbidopa_levodopa_entacapone'
+  )
+  AND dosage ~ '\d\s*/\s*\d';
+
+-- Everything else: the first "<number> <unit>" in the dosage text
+UPDATE public.medications
+SET dose_amount = (regexp_match(lower(dosage), '(\d+(?:\.\d+)?)\s*(mcg|mg/24h|mg|ml)\M'))[1]::NUMERIC,
+    dose_unit = COALESCE(dose_unit, CASE (regexp_match(lower(dosage), '(\d+(?:\.\d+)?)\s*(mcg|mg/24h|mg|ml)\M'))[2]
+        WHEN 'ml' THEN 'mL'
+        ELSE (regexp_match(lower(dosage), '(\d+(?:\.\d+)?)\s*(mcg|mg/24h|mg|ml)\M'))[2]
+    END)
+WHERE dose_amount IS NULL
+  AND lower(dosage) ~ '\d+(\.\d+)?\s*(mcg|mg/24h|mg|ml)\M'
+  AND (regexp_match(lower(dosage), '(\d+(?:\.\d+)?)\s*(mcg|mg/24h|mg|ml)\M'))[1]::NUMERIC > 0;
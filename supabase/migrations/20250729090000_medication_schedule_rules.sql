@@ -0,0 +1,14 @@
+-- Flexible schedule rules: interval ("every 3 hours while awake"), as-needed with
+-- a daily maximum, and multi-phase titration / taper plans. The rule JSON is
+-- described by ScheduleRule in lib/scheduleRules.ts. Rows without a rule keep the
+-- original meaning: one dose at scheduled_time on each of days_of_week.
+--
+-- scheduled_time stays required; rule rows store their first dose of the day
+-- there ('00:00' for as-needed rules, which have no expected doses).
+ALTER TABLE public.medication_schedules
+    ADD COLUMN IF NOT EXISTS rule JSONB
+    CHECK (rule IS NULL OR rule->>'kind' IN ('interval', 'as_needed', 'titration'));
+
+-- As-needed doses are logged with schedule_id so the daily maximum can be counted
+CREATE INDEX IF NOT EXISTS idx_medication_administration_logs_schedule_taken
+    ON public.medication_administration_logs(schedule_id, taken_at);
@@ -0,0 +1,150 @@
+-- Pill inventory. stock_count is the number of pills (or units) on hand; NULL
+-- means the patient does not track stock for this medication. Every dose marked
+-- taken removes pills_per_dose from the stock, whether it was logged from a
+-- calendar (medication_administration_logs) or by answering a reminder
+-- (medication_alarms.patient_responded). Doing it in triggers means a dose logged
+-- offline is counted once, when the outbox replays it.
+ALTER TABLE public.medications
+    ADD COLUMN IF NOT EXISTS stock_count NUMERIC CHECK (stock_count >= 0),
+    ADD COLUMN IF NOT EXISTS pills_per_dose NUMERIC NOT NULL DEFAULT 1 CHECK (pills_per_dose > 0),
+    ADD COLUMN IF NOT EXISTS refill_reminder_days INTEGER NOT NULL DEFAULT 7 CHECK (refill_reminder_days >= 0),
+    -- Set when caregivers were told stock is critically low; cleared by a refill
+    ADD COLUMN IF NOT EXISTS low_stock_alerted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.consume_medication_stock(p_medication_id UUID, p_doses NUMERIC)
+RETURNS VOID
+AS $$
+BEGIN
+    UPDATE public.medications
+    SET stock_count = GREATEST(stock_count - p_doses * pills_per_dose, 0),
+        updated_at = NOW()
+    WHERE id = p_medication_id
+      AND stock_count IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the stock triggers below consume stock
+REVOKE ALL ON FUNCTION public.consume_medication_stock(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_medication_stock(UUID, NUMERIC) TO service_role;
+
+-- A refill (stock going up) re-arms the caregiver low-stock alert
+CREATE OR REPLACE FUNCTION public.reset_low_stock_alert()
+RETURNS TRIGGER
+AS $$
+BEGIN
+    IF NEW.stock_count IS DISTINCT FROM OLD.stock_count
+       AND (NEW.stock_count IS NULL OR OLD.stock_count IS NULL OR NEW.stock_count > OLD.stock_count) THEN
+        NEW.low_stock_alerted_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_medications_low_stock_alert ON public.medications;
+CREATE TRIGGER reset_medications_low_stock_alert
+    BEFORE UPDATE OF stock_count ON public.medications
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reset_low_stock_alert();
+
+-- Whether a reminder for this dose was answered as taken, in which case the
+-- alarm trigger below has already counted it
+CREATE OR REPLACE FUNCTION public.dose_answered_by_alarm(p_schedule_id UUID, p_scheduled_time TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN
+AS $$
+    SELECT p_schedule_id IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM public.medication_alarms ma
+        WHERE ma.medication_schedule_id = p_schedule_id
+          AND ma.scheduled_time = p_scheduled_time
+          AND ma.patient_responded = TRUE
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.dose_answered_by_alarm(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.dose_answered_by_alarm(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- Calendar logs: taken consumes a dose, taken -> skipped gives it back
+CREATE OR REPLACE FUNCTION public.adjust_stock_for_dose_log()
+RETURNS TRIGGER
+AS $$
+DECLARE
+    was_taken BOOLEAN := TG_OP = 'UPDATE' AND OLD.status = 'taken';
+    is_taken BOOLEAN := NEW.status = 'taken';
+BEGIN
+    IF was_taken = is_taken OR public.dose_answered_by_alarm(NEW.schedule_id, NEW.intended_dose_time) THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM public.consume_medication_stock(NEW.medication_id, CASE WHEN is_taken THEN 1 ELSE -1 END);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS adjust_stock_on_dose_log ON public.medication_administration_logs;
+CREATE TRIGGER adjust_stock_on_dose_log
+    AFTER INSERT OR UPDATE OF status ON public.medication_administration_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.adjust_stock_for_dose_log();
+
+-- Reminders: markMedicationTaken flags the answered dose's alarm rows as
+-- responded, or every open row due by the response time when the dose is not
+-- known. Only the latest dose due by then is the one being taken; each dose has
+-- several alarm rows, so doses are counted once, and not at all if the calendar
+-- already logged them.
+CREATE OR REPLACE FUNCTION public.adjust_stock_for_alarm_response()
+RETURNS TRIGGER
+AS $$
+BEGIN
+    WITH responded AS (
+        SELECT n.medication_schedule_id, MAX(n.scheduled_time) AS scheduled_time
+        FROM new_alarms n
+        JOIN old_alarms o ON o.id = n.id
+        WHERE n.patient_responded
+          AND NOT o.patient_responded
+          AND n.medication_schedule_id IS NOT NULL
+          AND n.scheduled_time <= COALESCE(n.response_time, NOW()) + INTERVAL '1 hour'
+        GROUP BY n.medication_schedule_id
+    ),
+    doses AS (
+        SELECT ms.medication_id, COUNT(*) AS dose_count
+        FROM responded r
+        JOIN public.medication_schedules ms ON ms.id = r.medication_schedule_id
+        WHERE NOT EXISTS (
+                SELECT 1
+                FROM public.medication_alarms ma
+                WHERE ma.medication_schedule_id = r.medication_schedule_id
+                  AND ma.scheduled_time = r.scheduled_time
+                  AND ma.patient_responded
+                  AND ma.id NOT IN (
+                      SELECT n.id
+                      FROM new_alarms n
+                      JOIN old_alarms o ON o.id = n.id
+                      WHERE NOT o.patient_responded
+                  )
+            )
+          AND NOT EXISTS (
+                SELECT 1
+                FROM public.medication_administration_logs l
+                WHERE l.schedule_id = r.medication_schedule_id
+                  AND l.intended_dose_time = r.scheduled_time
+                  AND l.status = 'taken'
+            )
+        GROUP BY ms.medication_id
+    )
+    UPDATE public.medications m
+    SET stock_count = GREATEST(m.stock_count - d.dose_count * m.pills_per_dose, 0),
+        updated_at = NOW()
+    FROM doses d
+    WHERE m.id = d.medication_id
+      AND m.stock_count IS NOT NULL;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS adjust_stock_on_alarm_response ON public.medication_alarms;
+CREATE TRIGGER adjust_stock_on_alarm_response
+    AFTER UPDATE ON public.medication_alarms
+    REFERENCING OLD TABLE AS old_alarms NEW TABLE AS new_alarms
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.adjust_stock_for_alarm_response();
@@ -0,0 +1,17 @@
+-- Notification preferences edited from Profile → Notifications. Each reminder type
+-- can be switched off on its own (medication_reminders_enabled already exists), and
+-- quiet hours mute reminders overnight: medication alarms still arrive but silently,
+-- other reminders are held until the quiet hours end. Both ends are local times;
+-- a start later than the end wraps past midnight.
+ALTER TABLE public.notification_settings
+    ADD COLUMN IF NOT EXISTS appointment_reminders_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS checkin_reminders_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS caregiver_alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+    ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
+
+ALTER TABLE public.notification_settings
+    DROP CONSTRAINT IF EXISTS notification_settings_quiet_hours_check;
+ALTER TABLE public.notification_settings
+    ADD CONSTRAINT notification_settings_quiet_hours_check
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
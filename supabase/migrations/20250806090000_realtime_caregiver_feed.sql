@@ -0,0 +1,24 @@
+-- Caregiver devices receive new caregiver_alerts rows and their patients' dose logs
+-- over Supabase Realtime (services/CaregiverRealtimeService.ts) instead of polling.
+-- Realtime applies each table's RLS SELECT policies to the subscriber, so caregivers
+-- only receive their own alerts and the logs of patients they are connected to.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+          AND schemaname = 'public'
+          AND tablename = 'caregiver_alerts'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.caregiver_alerts;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+          AND schemaname = 'public'
+          AND tablename = 'medication_administration_logs'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.medication_administration_logs;
+    END IF;
+END $$;
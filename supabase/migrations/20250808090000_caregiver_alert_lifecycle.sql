@@ -0,0 +1,208 @@
+-- Caregiver alert lifecycle: open -> acknowledged -> resolved.
+-- Every recipient has their own caregiver_alerts row, so the rows raised for the
+-- same event share an incident_id and move through the lifecycle together: once
+-- one caregiver acknowledges or resolves it, the whole circle sees who did.
+--
+-- The older acknowledged / acknowledged_at columns keep their meaning of "shown
+-- on the caregiver's device"; the lifecycle lives in status and the columns below.
+ALTER TABLE public.caregiver_alerts
+    ADD COLUMN IF NOT EXISTS incident_id UUID,
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'acknowledged', 'resolved')),
+    ADD COLUMN IF NOT EXISTS responder_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS responded_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS resolver_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS resolution_note TEXT;
+
+UPDATE public.caregiver_alerts SET incident_id = id WHERE incident_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_alerts_incident
+    ON public.caregiver_alerts(incident_id);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_alerts_patient_created
+    ON public.caregiver_alerts(patient_id, created_at DESC);
+
+-- Rows about the same missed dose join its unresolved incident, whichever
+-- escalation step raised them, and arrive already showing who is handling it.
+-- Other alerts are grouped with the identical alert sent to the rest of the
+-- circle, which is written in the same statement.
+CREATE OR REPLACE FUNCTION public.assign_caregiver_alert_incident()
+RETURNS TRIGGER
+AS $$
+DECLARE
+    v_incident RECORD;
+BEGIN
+    IF NEW.incident_id IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.medication_schedule_id IS NOT NULL AND NEW.dose_scheduled_time IS NOT NULL THEN
+        SELECT ca.incident_id, ca.status, ca.responder_id, ca.responded_at INTO v_incident
+        FROM public.caregiver_alerts ca
+        WHERE ca.patient_id = NEW.patient_id
+          AND ca.medication_schedule_id = NEW.medication_schedule_id
+          AND ca.dose_scheduled_time = NEW.dose_scheduled_time
+          AND ca.status <> 'resolved'
+        ORDER BY ca.created_at
+        LIMIT 1;
+
+        IF FOUND THEN
+            NEW.incident_id := v_incident.incident_id;
+            NEW.status := v_incident.status;
+            NEW.responder_id := v_incident.responder_id;
+            NEW.responded_at := v_incident.responded_at;
+        END IF;
+    ELSE
+        SELECT ca.incident_id INTO NEW.incident_id
+        FROM public.caregiver_alerts ca
+        WHERE ca.patient_id = NEW.patient_id
+          AND ca.alert_type = NEW.alert_type
+          AND ca.alert_message = NEW.alert_message
+          AND ca.caregiver_id <> NEW.caregiver_id
+          AND ca.created_at >= NOW() - INTERVAL '1 minute'
+        ORDER BY ca.created_at
+        LIMIT 1;
+    END IF;
+
+    NEW.incident_id := COALESCE(NEW.incident_id, NEW.id, gen_random_uuid());
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_caregiver_alert_incident ON public.caregiver_alerts;
+CREATE TRIGGER assign_caregiver_alert_incident
+    BEFORE INSERT ON public.caregiver_alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.assign_caregiver_alert_incident();
+
+ALTER TABLE public.caregiver_alerts
+    ALTER COLUMN incident_id SET NOT NULL;
+
+-- Audit trail: one row per lifecycle change, with the caregiver's name as it was
+-- at the time so the history reads the same for the patient and every caregiver.
+CREATE TABLE IF NOT EXISTS public.caregiver_alert_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id UUID NOT NULL,
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_name TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('acknowledged', 'resolved')),
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_alert_events_incident
+    ON public.caregiver_alert_events(incident_id, created_at);
+
+ALTER TABLE public.caregiver_alert_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by respond_to_caregiver_alert(); read by the patient and their circle
+DROP POLICY IF EXISTS "Patients can view own alert events" ON public.caregiver_alert_events;
+CREATE POLICY "Patients can view own alert events"
+ON public.caregiver_alert_events FOR SELECT
+USING (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Caregivers can view patient alert events" ON public.caregiver_alert_events;
+CREATE POLICY "Caregivers can view patient alert events"
+ON public.caregiver_alert_events FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.caregiver_alert_events.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+-- Patients see the alerts raised about them, for their alert history
+DROP POLICY IF EXISTS "Patients can view alerts about themselves" ON public.caregiver_alerts;
+CREATE POLICY "Patients can view alerts about themselves"
+ON public.caregiver_alerts FOR SELECT
+USING (auth.uid() = patient_id);
+
+-- Moves the caller's alert, and every other row of its incident, forward in the
+-- lifecycle. Acknowledging an incident someone already acknowledged (or resolving
+-- a resolved one) changes nothing; "changed" tells the caller whether this call
+-- did, so only the first response notifies the patient.
+CREATE OR REPLACE FUNCTION public.respond_to_caregiver_alert(
+    p_alert_id UUID,
+    p_status TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    incident_id UUID,
+    patient_id UUID,
+    status TEXT,
+    changed BOOLEAN,
+    actor_name TEXT,
+    alert_message TEXT
+)
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_alert public.caregiver_alerts%ROWTYPE;
+    v_actor_name TEXT;
+    v_note TEXT := NULLIF(trim(p_note), '');
+    v_changed INTEGER;
+BEGIN
+    IF p_status NOT IN ('acknowledged', 'resolved') THEN
+        RAISE EXCEPTION 'Unknown alert status: %', p_status;
+    END IF;
+
+    SELECT * INTO v_alert
+    FROM public.caregiver_alerts ca
+    WHERE ca.id = p_alert_id
+      AND ca.caregiver_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Alert not found';
+    END IF;
+
+    SELECT COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'A caregiver')
+    INTO v_actor_name
+    FROM public.profiles p
+    WHERE p.id = auth.uid();
+    v_actor_name := COALESCE(v_actor_name, 'A caregiver');
+
+    IF p_status = 'acknowledged' THEN
+        UPDATE public.caregiver_alerts ca
+        SET status = 'acknowledged',
+            responder_id = auth.uid(),
+            responded_at = NOW(),
+            acknowledged = TRUE,
+            acknowledged_at = COALESCE(ca.acknowledged_at, NOW())
+        WHERE ca.incident_id = v_alert.incident_id
+          AND ca.status = 'open';
+    ELSE
+        UPDATE public.caregiver_alerts ca
+        SET status = 'resolved',
+            responder_id = COALESCE(ca.responder_id, auth.uid()),
+            responded_at = COALESCE(ca.responded_at, NOW()),
+            resolver_id = auth.uid(),
+            resolved_at = NOW(),
+            resolution_note = v_note,
+            acknowledged = TRUE,
+            acknowledged_at = COALESCE(ca.acknowledged_at, NOW())
+        WHERE ca.incident_id = v_alert.incident_id
+          AND ca.status <> 'resolved';
+    END IF;
+
+    GET DIAGNOSTICS v_changed = ROW_COUNT;
+
+    IF v_changed > 0 THEN
+        INSERT INTO public.caregiver_alert_events (incident_id, patient_id, actor_id, actor_name, action, note)
+        VALUES (v_alert.incident_id, v_alert.patient_id, auth.uid(), v_actor_name, p_status, v_note);
+    END IF;
+
+    RETURN QUERY
+    SELECT ca.incident_id, ca.patient_id, ca.status, v_changed > 0, v_actor_name, ca.alert_message
+    FROM public.caregiver_alerts ca
+    WHERE ca.id = p_alert_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.respond_to_caregiver_alert(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.respond_to_caregiver_alert(UUID, TEXT, TEXT) TO authenticated;
+
@@ -0,0 +1,169 @@
+-- Push delivery with receipts.
+-- Every push accepted by the provider leaves a ticket here. The next run of the
+-- escalate-missed-doses function looks up its receipt: a push that was accepted
+-- but never reached the device sends the alert back to the caregiver's inbox.
+-- Only the edge functions (service role) use this table.
+CREATE TABLE IF NOT EXISTS public.push_tickets (
+    ticket_id TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    push_token TEXT NOT NULL,
+    caregiver_alert_id UUID REFERENCES public.caregiver_alerts(id) ON DELETE CASCADE,
+    receipt_status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (receipt_status IN ('pending', 'ok', 'error')),
+    receipt_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    checked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tickets_pending
+    ON public.push_tickets(created_at)
+    WHERE receipt_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_push_tickets_caregiver_alert
+    ON public.push_tickets(caregiver_alert_id);
+
+ALTER TABLE public.push_tickets ENABLE ROW LEVEL SECURITY;
+
+-- Escalated alerts now start out as 'medication_missed' (a push is on its way) and
+-- only move to the 'medication_missed_local' inbox once delivery has failed, so a
+-- caregiver whose push arrives is not shown the same alert twice. Otherwise the
+-- function is unchanged from 20250804090000_escalation_policies.sql.
+-- Claims every caregiver step that is due for a dose nobody has answered (no
+-- responded alarm row and no taken or skipped log) and writes one caregiver_alerts
+-- row per recipient: the primary caregiver, or every active caregiver. Only the
+-- claimed step is flagged caregiver_alerted, so a later step of the same dose
+-- still fires; running this twice (or concurrently) never raises a step twice.
+--
+-- New alerts are stored as 'medication_missed'; the edge function moves them to the
+-- 'medication_missed_local' inbox if the push cannot be delivered.
+--
+-- p_patient_id limits the scan to one patient (used when a patient's own device
+-- triggers the check); NULL scans every patient.
+CREATE OR REPLACE FUNCTION public.escalate_missed_medication_alarms(
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    p_patient_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    alert_id UUID,
+    caregiver_id UUID,
+    patient_id UUID,
+    medication_alarm_id UUID,
+    medication_schedule_id UUID,
+    medication_name TEXT,
+    dose_scheduled_time TIMESTAMP WITH TIME ZONE,
+    alert_message TEXT,
+    urgency TEXT
+)
+AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    WITH due AS (
+        SELECT ma.id
+        FROM public.medication_alarms ma
+        WHERE ma.escalation_target <> 'patient'
+          AND ma.patient_responded = FALSE
+          AND ma.caregiver_alerted = FALSE
+          AND ma.alarm_sent_at <= p_now
+          AND (p_patient_id IS NULL OR ma.patient_id = p_patient_id)
+          AND NOT EXISTS (
+                SELECT 1
+                FROM public.medication_alarms answered
+                WHERE answered.medication_schedule_id = ma.medication_schedule_id
+                  AND answered.scheduled_time = ma.scheduled_time
+                  AND answered.patient_responded = TRUE
+            )
+          AND NOT EXISTS (
+                SELECT 1
+                FROM public.medication_administration_logs l
+                WHERE l.schedule_id = ma.medication_schedule_id
+                  AND l.intended_dose_time = ma.scheduled_time
+                  AND l.status IN ('taken', 'skipped')
+            )
+    ),
+    claimed AS (
+        UPDATE public.medication_alarms ma
+        SET caregiver_alerted = TRUE,
+            caregiver_alert_sent_at = p_now,
+            updated_at = p_now
+        FROM due d
+        WHERE ma.id = d.id
+          AND ma.caregiver_alerted = FALSE
+        RETURNING ma.id, ma.patient_id, ma.medication_schedule_id, ma.scheduled_time,
+                  ma.escalation_target, ma.urgency, ma.alert_message
+    ),
+    described AS (
+        SELECT
+            c.*,
+            COALESCE(m.name, 'their medication') AS med_name,
+            COALESCE(
+                c.alert_message,
+                format(
+                    '🚨 %s hasn''t taken %s scheduled for %s',
+                    COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Patient'),
+                    COALESCE(m.name, 'their medication'),
+                    to_char(c.scheduled_time, 'HH24:MI')
+                )
+            ) AS message
+        FROM claimed c
+        LEFT JOIN public.profiles p ON p.id = c.patient_id
+        LEFT JOIN public.medication_schedules ms ON ms.id = c.medication_schedule_id
+        LEFT JOIN public.medications m ON m.id = ms.medication_id
+    ),
+    recipients AS (
+        SELECT ds.id AS alarm_id, pcc.caregiver_id
+        FROM described ds
+        JOIN public.patient_caregiver_connections pcc
+            ON pcc.patient_id = ds.patient_id
+           AND pcc.connection_status = 'active'
+        WHERE ds.escalation_target = 'all_caregivers'
+           OR pcc.caregiver_id = public.get_primary_caregiver_id(ds.patient_id)
+    ),
+    inserted AS (
+        INSERT INTO public.caregiver_alerts (
+            patient_id,
+            caregiver_id,
+            medication_schedule_id,
+            medication_alarm_id,
+            dose_scheduled_time,
+            alert_type,
+            alert_message
+        )
+        SELECT
+            ds.patient_id,
+            r.caregiver_id,
+            ds.medication_schedule_id,
+            ds.id,
+            ds.scheduled_time,
+            'medication_missed',
+            ds.message
+        FROM described ds
+        JOIN recipients r ON r.alarm_id = ds.id
+        ON CONFLICT DO NOTHING
+        RETURNING
+            caregiver_alerts.id,
+            caregiver_alerts.caregiver_id,
+            caregiver_alerts.patient_id,
+            caregiver_alerts.medication_alarm_id,
+            caregiver_alerts.medication_schedule_id,
+            caregiver_alerts.dose_scheduled_time,
+            caregiver_alerts.alert_message
+    )
+    SELECT
+        i.id,
+        i.caregiver_id,
+        i.patient_id,
+        i.medication_alarm_id,
+        i.medication_schedule_id,
+        ds.med_name,
+        i.dose_scheduled_time,
+        i.alert_message,
+        ds.urgency
+    FROM inserted i
+    JOIN described ds ON ds.id = i.medication_alarm_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the edge function (service role) may run the escalation.
+REVOKE ALL ON FUNCTION public.escalate_missed_medication_alarms(TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.escalate_missed_medication_alarms(TIMESTAMP WITH TIME ZONE, UUID) TO service_role;
@@ -0,0 +1,107 @@
+-- Device registry for push notifications. A user can be signed in on several
+-- devices (a caregiver's phone and tablet) and every enabled device with a push
+-- token receives their alerts. notification_settings.expo_push_token only held the
+-- last device to register; it is copied over below and no longer written.
+CREATE TABLE IF NOT EXISTS public.user_devices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    device_id TEXT NOT NULL, -- Generated by the app on first launch
+    platform TEXT NOT NULL DEFAULT 'unknown' CHECK (platform IN ('ios', 'android', 'web', 'unknown')),
+    device_name TEXT,
+    push_token TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, device_id)
+);
+
+-- A token reaches one physical device, which is signed in to one account at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_devices_push_token
+    ON public.user_devices(push_token)
+    WHERE push_token IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_last_seen
+    ON public.user_devices(last_seen_at);
+
+ALTER TABLE public.user_devices ENABLE ROW LEVEL SECURITY;
+
+-- Rows are created through register_user_device(); users can switch off or remove their own
+DROP POLICY IF EXISTS "Users can view own devices" ON public.user_devices;
+CREATE POLICY "Users can view own devices"
+ON public.user_devices FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own devices" ON public.user_devices;
+CREATE POLICY "Users can update own devices"
+ON public.user_devices FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own devices" ON public.user_devices;
+CREATE POLICY "Users can delete own devices"
+ON public.user_devices FOR DELETE
+USING (auth.uid() = user_id);
+
+INSERT INTO public.user_devices (user_id, device_id, push_token, last_seen_at)
+SELECT ns.user_id, 'legacy', ns.expo_push_token, COALESCE(ns.updated_at, NOW())
+FROM public.notification_settings ns
+WHERE ns.expo_push_token IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Called by the app on every launch. The token is taken away from any other row
+-- first: whoever signed in on the device last is the one who gets its pushes.
+-- A device the user switched off stays switched off.
+CREATE OR REPLACE FUNCTION public.register_user_device(
+    p_device_id TEXT,
+    p_platform TEXT,
+    p_device_name TEXT DEFAULT NULL,
+    p_push_token TEXT DEFAULT NULL
+)
+RETURNS public.user_devices
+AS $$
+DECLARE
+    v_device public.user_devices;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_push_token IS NOT NULL THEN
+        DELETE FROM public.user_devices
+        WHERE push_token = p_push_token
+          AND NOT (user_id = auth.uid() AND device_id = p_device_id);
+    END IF;
+
+    INSERT INTO public.user_devices (user_id, device_id, platform, device_name, push_token, last_seen_at)
+    VALUES (auth.uid(), p_device_id, p_platform, p_device_name, p_push_token, NOW())
+    ON CONFLICT (user_id, device_id) DO UPDATE
+    SET platform = EXCLUDED.platform,
+        device_name = COALESCE(EXCLUDED.device_name, public.user_devices.device_name),
+        push_token = COALESCE(EXCLUDED.push_token, public.user_devices.push_token),
+        last_seen_at = NOW()
+    RETURNING * INTO v_device;
+
+    RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.register_user_device(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.register_user_device(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Devices that have not opened the app for p_max_age are assumed gone (sold,
+-- reset, uninstalled); the escalate-missed-doses function prunes them each run.
+CREATE OR REPLACE FUNCTION public.prune_stale_user_devices(p_max_age INTERVAL DEFAULT INTERVAL '60 days')
+RETURNS INTEGER
+AS $$
+DECLARE
+    v_pruned INTEGER;
+BEGIN
+    DELETE FROM public.user_devices
+    WHERE last_seen_at < NOW() - p_max_age;
+
+    GET DIAGNOSTICS v_pruned = ROW_COUNT;
+    RETURN v_pruned;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.prune_stale_user_devices(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.prune_stale_user_devices(INTERVAL) TO service_role;
@@ -0,0 +1,44 @@
+-- Text and email for caregiver alerts, for caregivers who cannot be reached by push
+-- (no device registered, app uninstalled). alert_channels lists the extra channels
+-- a caregiver wants per alert severity; SMS goes to profiles.phone_number and email
+-- to profiles.email. Only critical alerts are emailed until the caregiver says otherwise.
+ALTER TABLE public.notification_settings
+    ADD COLUMN IF NOT EXISTS alert_channels JSONB NOT NULL
+        DEFAULT '{"normal": [], "high": [], "critical": ["email"]}'::jsonb;
+
+ALTER TABLE public.notification_settings
+    DROP CONSTRAINT IF EXISTS notification_settings_alert_channels_check;
+ALTER TABLE public.notification_settings
+    ADD CONSTRAINT notification_settings_alert_channels_check
+    CHECK (jsonb_typeof(alert_channels) = 'object');
+
+-- Every text and email sent (or attempted) by the edge functions. With
+-- MESSAGE_PROVIDER=local nothing leaves the server and this log is the outbox.
+CREATE TABLE IF NOT EXISTS public.outbound_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    caregiver_alert_id UUID REFERENCES public.caregiver_alerts(id) ON DELETE SET NULL,
+    channel TEXT NOT NULL CHECK (channel IN ('sms', 'email')),
+    recipient TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    provider TEXT,
+    provider_message_id TEXT,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_alert
+    ON public.outbound_messages(caregiver_alert_id);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_user_created
+    ON public.outbound_messages(user_id, created_at DESC);
+
+ALTER TABLE public.outbound_messages ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge functions only
+DROP POLICY IF EXISTS "Users can view messages sent to them" ON public.outbound_messages;
+CREATE POLICY "Users can view messages sent to them"
+ON public.outbound_messages FOR SELECT
+USING (auth.uid() = user_id);
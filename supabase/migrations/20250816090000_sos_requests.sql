@@ -0,0 +1,47 @@
+-- Patient SOS. The trigger-sos edge function raises an 'emergency' caregiver alert
+-- for every active caregiver, all in one incident, and records the request here
+-- with the context it was sent with (last dose, last check-in). Until a caregiver
+-- acknowledges or resolves the incident, escalate-missed-doses notifies the circle
+-- again at lengthening intervals; notify_count and last_notified_at track those rounds.
+CREATE TABLE IF NOT EXISTS public.sos_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    incident_id UUID NOT NULL,
+    context JSONB NOT NULL DEFAULT '{}'::jsonb,
+    caregiver_count INTEGER NOT NULL DEFAULT 0,
+    notify_count INTEGER NOT NULL DEFAULT 1,
+    last_notified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sos_requests_patient_created
+    ON public.sos_requests(patient_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_sos_requests_incident
+    ON public.sos_requests(incident_id);
+
+-- The repeats start from the SOS alerts still open
+CREATE INDEX IF NOT EXISTS idx_caregiver_alerts_open_emergency
+    ON public.caregiver_alerts(incident_id)
+    WHERE alert_type = 'emergency' AND status = 'open';
+
+ALTER TABLE public.sos_requests ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge functions only
+DROP POLICY IF EXISTS "Patients can view own SOS requests" ON public.sos_requests;
+CREATE POLICY "Patients can view own SOS requests"
+ON public.sos_requests FOR SELECT
+USING (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Caregivers can view patient SOS requests" ON public.sos_requests;
+CREATE POLICY "Caregivers can view patient SOS requests"
+ON public.sos_requests FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.sos_requests.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
@@ -0,0 +1,487 @@
+-- Caregiver on-call rota.
+-- A patient's caregivers can split the week into shifts ("Anna weekdays 08:00-20:00",
+-- "the aide every night 20:00-08:00"). While a rota exists, alerts go to whoever is
+-- on call instead of the whole circle, and an alert nobody has acknowledged after a
+-- while is passed on to everyone else. Patients without shifts keep the old routing.
+CREATE TABLE IF NOT EXISTS public.caregiver_shifts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    caregiver_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Days the shift starts on, 0 = Sunday. A shift whose end_time is not after its
+    -- start_time runs past midnight into the next day; equal times mean 24 hours.
+    days_of_week SMALLINT[] NOT NULL
+        CHECK (cardinality(days_of_week) > 0 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    timezone TEXT NOT NULL DEFAULT 'UTC',
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_shifts_patient
+    ON public.caregiver_shifts(patient_id);
+
+-- One occurrence of a shift covered by somebody else. starts_at/ends_at are the
+-- occurrence being swapped, so a swap never outlives the shift it replaces.
+CREATE TABLE IF NOT EXISTS public.caregiver_shift_swaps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    shift_id UUID NOT NULL REFERENCES public.caregiver_shifts(id) ON DELETE CASCADE,
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    covering_caregiver_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL CHECK (ends_at > starts_at),
+    note TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_shift_swaps_shift_period
+    ON public.caregiver_shift_swaps(shift_id, starts_at, ends_at);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_shift_swaps_patient
+    ON public.caregiver_shift_swaps(patient_id, ends_at);
+
+-- Incidents already passed on to the rest of the circle (see alert_backup_caregivers)
+CREATE TABLE IF NOT EXISTS public.caregiver_alert_backups (
+    incident_id UUID PRIMARY KEY,
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    escalated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.caregiver_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.caregiver_shift_swaps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.caregiver_alert_backups ENABLE ROW LEVEL SECURITY;
+
+-- Patients can see their rota; the caregivers in the circle run it
+DROP POLICY IF EXISTS "Patients can view own caregiver shifts" ON public.caregiver_shifts;
+CREATE POLICY "Patients can view own caregiver shifts"
+ON public.caregiver_shifts FOR SELECT
+USING (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Caregivers can manage patient shifts" ON public.caregiver_shifts;
+CREATE POLICY "Caregivers can manage patient shifts"
+ON public.caregiver_shifts FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.caregiver_shifts.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.caregiver_shifts.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+DROP POLICY IF EXISTS "Patients can view own shift swaps" ON public.caregiver_shift_swaps;
+CREATE POLICY "Patients can view own shift swaps"
+ON public.caregiver_shift_swaps FOR SELECT
+USING (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Caregivers can manage patient shift swaps" ON public.caregiver_shift_swaps;
+CREATE POLICY "Caregivers can manage patient shift swaps"
+ON public.caregiver_shift_swaps FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.caregiver_shift_swaps.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.caregiver_shift_swaps.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+DROP TRIGGER IF EXISTS update_caregiver_shifts_updated_at ON public.caregiver_shifts;
+CREATE TRIGGER update_caregiver_shifts_updated_at
+    BEFORE UPDATE ON public.caregiver_shifts
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The caregivers on call for a patient at p_at: everyone whose shift covers that
+-- moment in the shift's own timezone, with swapped occurrences handed to the
+-- covering caregiver. Only active connections count. A patient with a rota but
+-- nobody on call (a gap in the rota) gets every active caregiver, so no alert is
+-- dropped; a patient without any shifts gets an empty result.
+CREATE OR REPLACE FUNCTION public.get_on_call_caregiver_ids(
+    p_patient_id UUID,
+    p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS SETOF UUID
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL
+       AND auth.uid() <> p_patient_id
+       AND NOT EXISTS (
+            SELECT 1 FROM public.patient_caregiver_connections pcc
+            WHERE pcc.patient_id = p_patient_id
+              AND pcc.caregiver_id = auth.uid()
+              AND pcc.connection_status = 'active'
+        ) THEN
+        RAISE EXCEPTION 'Not allowed to view this rota';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.caregiver_shifts s WHERE s.patient_id = p_patient_id) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH local_times AS (
+        SELECT
+            s.id,
+            s.caregiver_id,
+            s.days_of_week,
+            s.start_time,
+            s.end_time,
+            EXTRACT(DOW FROM p_at AT TIME ZONE s.timezone)::SMALLINT AS dow,
+            (p_at AT TIME ZONE s.timezone)::TIME AS local_time
+        FROM public.caregiver_shifts s
+        WHERE s.patient_id = p_patient_id
+    ),
+    active_shifts AS (
+        SELECT lt.id, lt.caregiver_id
+        FROM local_times lt
+        WHERE (lt.start_time < lt.end_time
+               AND lt.dow = ANY(lt.days_of_week)
+               AND lt.local_time >= lt.start_time
+               AND lt.local_time < lt.end_time)
+           OR (lt.start_time >= lt.end_time
+               AND ((lt.dow = ANY(lt.days_of_week) AND lt.local_time >= lt.start_time)
+                 OR (((lt.dow + 6) % 7)::SMALLINT = ANY(lt.days_of_week) AND lt.local_time < lt.end_time)))
+    ),
+    on_call AS (
+        SELECT COALESCE(swap.covering_caregiver_id, a.caregiver_id) AS caregiver_id
+        FROM active_shifts a
+        LEFT JOIN LATERAL (
+            SELECT sw.covering_caregiver_id
+            FROM public.caregiver_shift_swaps sw
+            WHERE sw.shift_id = a.id
+              AND sw.starts_at <= p_at
+              AND sw.ends_at > p_at
+            ORDER BY sw.created_at DESC
+            LIMIT 1
+        ) swap ON TRUE
+    )
+    SELECT DISTINCT pcc.caregiver_id
+    FROM on_call oc
+    JOIN public.patient_caregiver_connections pcc
+        ON pcc.patient_id = p_patient_id
+       AND pcc.caregiver_id = oc.caregiver_id
+       AND pcc.connection_status = 'active';
+
+    IF NOT FOUND THEN
+        RETURN QUERY
+        SELECT pcc.caregiver_id
+        FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = p_patient_id
+          AND pcc.connection_status = 'active';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_on_call_caregiver_ids(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_on_call_caregiver_ids(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated, service_role;
+
+-- Caregivers only see their own connection rows and profile, so the rota screen
+-- gets the names of the rest of the circle from here.
+CREATE OR REPLACE FUNCTION public.get_care_circle(p_patient_id UUID)
+RETURNS TABLE (
+    caregiver_id UUID,
+    first_name TEXT,
+    last_name TEXT
+)
+AS $$
+#variable_conflict use_column
+BEGIN
+    IF auth.uid() IS NULL
+       OR (auth.uid() <> p_patient_id
+           AND NOT EXISTS (
+                SELECT 1 FROM public.patient_caregiver_connections pcc
+                WHERE pcc.patient_id = p_patient_id
+                  AND pcc.caregiver_id = auth.uid()
+                  AND pcc.connection_status = 'active'
+            )) THEN
+        RAISE EXCEPTION 'Not allowed to view this care circle';
+    END IF;
+
+    RETURN QUERY
+    SELECT pcc.caregiver_id, p.first_name::TEXT, p.last_name::TEXT
+    FROM public.patient_caregiver_connections pcc
+    LEFT JOIN public.profiles p ON p.id = pcc.caregiver_id
+    WHERE pcc.patient_id = p_patient_id
+      AND pcc.connection_status = 'active'
+    ORDER BY pcc.created_at ASC NULLS LAST, pcc.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_care_circle(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_care_circle(UUID) TO authenticated;
+
+-- A 'primary_caregiver' escalation step now goes to whoever is on call when the
+-- patient has a rota, and to the primary caregiver as before when they do not.
+-- Otherwise the function is unchanged from 20250810090000_push_delivery.sql.
+-- Claims every caregiver step that is due for a dose nobody has answered (no
+-- responded alarm row and no taken or skipped log) and writes one caregiver_alerts
+-- row per recipient: the on-call (or primary) caregiver, or every active caregiver.
+-- Only the claimed step is flagged caregiver_alerted, so a later step of the same
+-- dose still fires; running this twice (or concurrently) never raises a step twice.
+--
+-- New alerts are stored as 'medication_missed'; the edge function moves them to the
+-- 'medication_missed_local' inbox if the push cannot be delivered.
+--
+-- p_patient_id limits the scan to one patient (used when a patient's own device
+-- triggers the check); NULL scans every patient.
+CREATE OR REPLACE FUNCTION public.escalate_missed_medication_alarms(
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    p_patient_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    alert_id UUID,
+    caregiver_id UUID,
+    patient_id UUID,
+    medication_alarm_id UUID,
+    medication_schedule_id UUID,
+    medication_name TEXT,
+    dose_scheduled_time TIMESTAMP WITH TIME ZONE,
+    alert_message TEXT,
+    urgency TEXT
+)
+AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    WITH due AS (
+        SELECT ma.id
+        FROM public.medication_alarms ma
+        WHERE ma.escalation_target <> 'patient'
+          AND ma.patient_responded = FALSE
+          AND ma.caregiver_alerted = FALSE
+          AND ma.alarm_sent_at <= p_now
+          AND (p_patient_id IS NULL OR ma.patient_id = p_patient_id)
+          AND NOT EXISTS (
+                SELECT 1
+                FROM public.medication_alarms answered
+                WHERE answered.medication_schedule_id = ma.medication_schedule_id
+                  AND answered.scheduled_time = ma.scheduled_time
+                  AND answered.patient_responded = TRUE
+            )
+          AND NOT EXISTS (
+                SELECT 1
+                FROM public.medication_administration_logs l
+                WHERE l.schedule_id = ma.medication_schedule_id
+                  AND l.intended_dose_time = ma.scheduled_time
+                  AND l.status IN ('taken', 'skipped')
+            )
+    ),
+    claimed AS (
+        UPDATE public.medication_alarms ma
+        SET caregiver_alerted = TRUE,
+            caregiver_alert_sent_at = p_now,
+            updated_at = p_now
+        FROM due d
+        WHERE ma.id = d.id
+          AND ma.caregiver_alerted = FALSE
+        RETURNING ma.id, ma.patient_id, ma.medication_schedule_id, ma.scheduled_time,
+                  ma.escalation_target, ma.urgency, ma.alert_message
+    ),
+    described AS (
+        SELECT
+            c.*,
+            COALESCE(m.name, 'their medication') AS med_name,
+            COALESCE(
+                c.alert_message,
+                format(
+                    '🚨 %s hasn''t taken %s scheduled for %s',
+                    COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Patient'),
+                    COALESCE(m.name, 'their medication'),
+                    to_char(c.scheduled_time, 'HH24:MI')
+                )
+            ) AS message
+        FROM claimed c
+        LEFT JOIN public.profiles p ON p.id = c.patient_id
+        LEFT JOIN public.medication_schedules ms ON ms.id = c.medication_schedule_id
+        LEFT JOIN public.medications m ON m.id = ms.medication_id
+    ),
+    recipients AS (
+        SELECT ds.id AS alarm_id, pcc.caregiver_id
+        FROM described ds
+        JOIN public.patient_caregiver_connections pcc
+            ON pcc.patient_id = ds.patient_id
+           AND pcc.connection_status = 'active'
+        WHERE ds.escalation_target = 'all_caregivers'
+           OR pcc.caregiver_id IN (SELECT public.get_on_call_caregiver_ids(ds.patient_id, p_now))
+           OR (NOT EXISTS (SELECT 1 FROM public.caregiver_shifts s WHERE s.patient_id = ds.patient_id)
+               AND pcc.caregiver_id = public.get_primary_caregiver_id(ds.patient_id))
+    ),
+    inserted AS (
+        INSERT INTO public.caregiver_alerts (
+            patient_id,
+            caregiver_id,
+            medication_schedule_id,
+            medication_alarm_id,
+            dose_scheduled_time,
+            alert_type,
+            alert_message
+        )
+        SELECT
+            ds.patient_id,
+            r.caregiver_id,
+            ds.medication_schedule_id,
+            ds.id,
+            ds.scheduled_time,
+            'medication_missed',
+            ds.message
+        FROM described ds
+        JOIN recipients r ON r.alarm_id = ds.id
+        ON CONFLICT DO NOTHING
+        RETURNING
+            caregiver_alerts.id,
+            caregiver_alerts.caregiver_id,
+            caregiver_alerts.patient_id,
+            caregiver_alerts.medication_alarm_id,
+            caregiver_alerts.medication_schedule_id,
+            caregiver_alerts.dose_scheduled_time,
+            caregiver_alerts.alert_message
+    )
+    SELECT
+        i.id,
+        i.caregiver_id,
+        i.patient_id,
+        i.medication_alarm_id,
+        i.medication_schedule_id,
+        ds.med_name,
+        i.dose_scheduled_time,
+        i.alert_message,
+        ds.urgency
+    FROM inserted i
+    JOIN described ds ON ds.id = i.medication_alarm_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backup for patients with a rota: an incident still open p_timeout after it was
+-- raised goes to every active caregiver who has not had it yet, in the same
+-- incident, so the first of them to respond closes it for everyone. Each incident
+-- is passed on once. SOS alerts already reach the whole circle and are skipped.
+-- Missed doses are written as 'medication_missed' for the edge function to push;
+-- other alert types reach the caregiver apps through their live feed.
+CREATE OR REPLACE FUNCTION public.alert_backup_caregivers(
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    p_timeout INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS TABLE (
+    alert_id UUID,
+    caregiver_id UUID,
+    patient_id UUID,
+    medication_alarm_id UUID,
+    medication_schedule_id UUID,
+    medication_name TEXT,
+    dose_scheduled_time TIMESTAMP WITH TIME ZONE,
+    alert_message TEXT,
+    urgency TEXT,
+    alert_type TEXT
+)
+AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    WITH stale AS (
+        SELECT
+            ca.incident_id,
+            ca.patient_id,
+            MIN(ca.created_at) AS raised_at
+        FROM public.caregiver_alerts ca
+        WHERE ca.alert_type <> 'emergency'
+          AND ca.created_at > p_now - INTERVAL '1 day'
+          AND EXISTS (SELECT 1 FROM public.caregiver_shifts s WHERE s.patient_id = ca.patient_id)
+        GROUP BY ca.incident_id, ca.patient_id
+        HAVING bool_and(ca.status = 'open')
+           AND MIN(ca.created_at) <= p_now - p_timeout
+    ),
+    claimed AS (
+        INSERT INTO public.caregiver_alert_backups (incident_id, patient_id, escalated_at)
+        SELECT s.incident_id, s.patient_id, p_now
+        FROM stale s
+        ON CONFLICT DO NOTHING
+        RETURNING caregiver_alert_backups.incident_id
+    ),
+    -- The first alert of each incident is the template for the backup rows
+    source AS (
+        SELECT DISTINCT ON (ca.incident_id) ca.*
+        FROM public.caregiver_alerts ca
+        JOIN claimed c ON c.incident_id = ca.incident_id
+        ORDER BY ca.incident_id, ca.created_at, ca.id
+    ),
+    inserted AS (
+        INSERT INTO public.caregiver_alerts (
+            incident_id,
+            patient_id,
+            caregiver_id,
+            medication_schedule_id,
+            medication_alarm_id,
+            dose_scheduled_time,
+            alert_type,
+            alert_message
+        )
+        SELECT
+            src.incident_id,
+            src.patient_id,
+            pcc.caregiver_id,
+            src.medication_schedule_id,
+            src.medication_alarm_id,
+            src.dose_scheduled_time,
+            CASE WHEN src.alert_type = 'medication_missed_local' THEN 'medication_missed' ELSE src.alert_type END,
+            src.alert_message
+        FROM source src
+        JOIN public.patient_caregiver_connections pcc
+            ON pcc.patient_id = src.patient_id
+           AND pcc.connection_status = 'active'
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.caregiver_alerts existing
+            WHERE existing.incident_id = src.incident_id
+              AND existing.caregiver_id = pcc.caregiver_id
+        )
+        ON CONFLICT DO NOTHING
+        RETURNING
+            caregiver_alerts.id,
+            caregiver_alerts.caregiver_id,
+            caregiver_alerts.patient_id,
+            caregiver_alerts.medication_alarm_id,
+            caregiver_alerts.medication_schedule_id,
+            caregiver_alerts.dose_scheduled_time,
+            caregiver_alerts.alert_message,
+            caregiver_alerts.alert_type
+    )
+    SELECT
+        i.id,
+        i.caregiver_id,
+        i.patient_id,
+        i.medication_alarm_id,
+        i.medication_schedule_id,
+        COALESCE(m.name, 'their medication'),
+        i.dose_scheduled_time,
+        i.alert_message,
+        COALESCE(ma.urgency, 'high'),
+        i.alert_type
+    FROM inserted i
+    LEFT JOIN public.medication_alarms ma ON ma.id = i.medication_alarm_id
+    LEFT JOIN public.medication_schedules ms ON ms.id = i.medication_schedule_id
+    LEFT JOIN public.medications m ON m.id = ms.medication_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the edge function (service role) may run the backup escalation.
+REVOKE ALL ON FUNCTION public.alert_backup_caregivers(TIMESTAMP WITH TIME ZONE, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.alert_backup_caregivers(TIMESTAMP WITH TIME ZONE, INTERVAL) TO service_role;
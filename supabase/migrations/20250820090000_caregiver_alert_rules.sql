@@ -0,0 +1,95 @@
+-- Rule-based caregiver alerts on health data.
+-- Caregivers define conditions over a patient's readings (health_metrics), check-in
+-- answers (health_checkins) and adherence, e.g. "systolic below 90 twice in 24
+-- hours". The condition is a JSON document evaluated by lib/alertRules.ts; a rule
+-- that matches raises a 'health_rule' caregiver alert with the readings, answers or
+-- doses that triggered it in caregiver_alerts.details.
+CREATE TABLE IF NOT EXISTS public.caregiver_alert_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    condition JSONB NOT NULL CHECK (jsonb_typeof(condition) = 'object' AND condition ? 'kind'),
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    -- A rule only fires again on data recorded after this
+    last_triggered_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_alert_rules_patient
+    ON public.caregiver_alert_rules(patient_id)
+    WHERE enabled;
+
+ALTER TABLE public.caregiver_alert_rules ENABLE ROW LEVEL SECURITY;
+
+-- The patient's app evaluates the rules, so the patient can read them
+DROP POLICY IF EXISTS "Patients can view own alert rules" ON public.caregiver_alert_rules;
+CREATE POLICY "Patients can view own alert rules"
+ON public.caregiver_alert_rules FOR SELECT
+USING (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Caregivers can manage patient alert rules" ON public.caregiver_alert_rules;
+CREATE POLICY "Caregivers can manage patient alert rules"
+ON public.caregiver_alert_rules FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.caregiver_alert_rules.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.caregiver_alert_rules.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+DROP TRIGGER IF EXISTS update_caregiver_alert_rules_updated_at ON public.caregiver_alert_rules;
+CREATE TRIGGER update_caregiver_alert_rules_updated_at
+    BEFORE UPDATE ON public.caregiver_alert_rules
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The data behind an alert, when it has any (health rules: rule, condition, evidence)
+ALTER TABLE public.caregiver_alerts
+    ADD COLUMN IF NOT EXISTS details JSONB;
+
+-- Records that a rule fired, for the patient's device that evaluated it. Only the
+-- caller that saw the rule's previous last_triggered_at wins, so two devices
+-- evaluating the same data raise one alert.
+CREATE OR REPLACE FUNCTION public.claim_alert_rule(
+    p_rule_id UUID,
+    p_previous_triggered_at TIMESTAMP WITH TIME ZONE,
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS BOOLEAN
+AS $$
+DECLARE
+    v_claimed INTEGER;
+BEGIN
+    UPDATE public.caregiver_alert_rules r
+    SET last_triggered_at = p_now
+    WHERE r.id = p_rule_id
+      AND r.enabled
+      AND r.last_triggered_at IS NOT DISTINCT FROM p_previous_triggered_at
+      AND (
+            r.patient_id = auth.uid()
+            OR EXISTS (
+                SELECT 1 FROM public.patient_caregiver_connections pcc
+                WHERE pcc.patient_id = r.patient_id
+                  AND pcc.caregiver_id = auth.uid()
+                  AND pcc.connection_status = 'active'
+            )
+        );
+    GET DIAGNOSTICS v_claimed = ROW_COUNT;
+    RETURN v_claimed > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claim_alert_rule(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_alert_rule(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
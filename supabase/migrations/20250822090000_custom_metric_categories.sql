@@ -0,0 +1,144 @@
+-- Per-patient metric categories and personal target ranges.
+-- health_metric_categories rows with a patient_id are that patient's own categories,
+-- added by the patient or a caregiver; rows without one are shared by everyone.
+-- Each category says how its value is entered (input_type), which icon it shows, and
+-- which group it belongs to: categories in one group (systolic and diastolic blood
+-- pressure) are entered together and charted together.
+ALTER TABLE public.health_metric_categories
+    ADD COLUMN IF NOT EXISTS patient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS input_type TEXT NOT NULL DEFAULT 'decimal',
+    ADD COLUMN IF NOT EXISTS icon TEXT,
+    ADD COLUMN IF NOT EXISTS group_name TEXT,
+    ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 100,
+    -- Archived categories are no longer offered for entry; their readings stay
+    ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.health_metric_categories
+    DROP CONSTRAINT IF EXISTS health_metric_categories_input_type_check;
+ALTER TABLE public.health_metric_categories
+    ADD CONSTRAINT health_metric_categories_input_type_check CHECK (input_type IN ('integer', 'decimal'));
+
+-- Two patients may each track their own "Heart Rate"; names are unique per patient
+ALTER TABLE public.health_metric_categories
+    DROP CONSTRAINT IF EXISTS health_metric_categories_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_health_metric_categories_patient_name
+    ON public.health_metric_categories(patient_id, lower(name))
+    WHERE patient_id IS NOT NULL;
+
+-- The shared categories the log form used to hardcode
+UPDATE public.health_metric_categories
+SET group_name = 'Blood Pressure', input_type = 'integer', icon = 'heart-pulse', sort_order = 10
+WHERE patient_id IS NULL AND name = 'Blood Pressure Systolic';
+
+UPDATE public.health_metric_categories
+SET group_name = 'Blood Pressure', input_type = 'integer', icon = 'heart-pulse', sort_order = 11
+WHERE patient_id IS NULL AND name = 'Blood Pressure Diastolic';
+
+UPDATE public.health_metric_categories
+SET icon = 'water', sort_order = 20
+WHERE patient_id IS NULL AND name = 'Blood Glucose';
+
+UPDATE public.health_metric_categories
+SET icon = 'weight-kilogram', sort_order = 30
+WHERE patient_id IS NULL AND name = 'Weight';
+
+UPDATE public.health_metric_categories
+SET icon = 'sleep', sort_order = 40
+WHERE patient_id IS NULL AND name = 'Sleep Duration';
+
+-- Single-value blood pressure from before systolic and diastolic were split
+UPDATE public.health_metric_categories
+SET archived = TRUE
+WHERE patient_id IS NULL AND name = 'Blood Pressure';
+
+ALTER TABLE public.health_metric_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view shared and own metric categories" ON public.health_metric_categories;
+CREATE POLICY "Users can view shared and own metric categories"
+ON public.health_metric_categories FOR SELECT
+TO authenticated
+USING (
+    patient_id IS NULL
+    OR patient_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.health_metric_categories.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+-- Shared categories are managed by migrations only
+DROP POLICY IF EXISTS "Patients and caregivers can manage own metric categories" ON public.health_metric_categories;
+CREATE POLICY "Patients and caregivers can manage own metric categories"
+ON public.health_metric_categories FOR ALL
+TO authenticated
+USING (
+    patient_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.health_metric_categories.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+)
+WITH CHECK (
+    patient_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.health_metric_categories.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+-- A patient's own target range for a category. It overrides the category's
+-- normal range wherever readings are judged: the log form, the dashboard,
+-- alert rules and visit reports.
+CREATE TABLE IF NOT EXISTS public.patient_metric_targets (
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES public.health_metric_categories(id) ON DELETE CASCADE,
+    target_min NUMERIC,
+    target_max NUMERIC,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (patient_id, category_id),
+    CHECK (target_min IS NOT NULL OR target_max IS NOT NULL),
+    CHECK (target_min IS NULL OR target_max IS NULL OR target_min <= target_max)
+);
+
+ALTER TABLE public.patient_metric_targets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Patients can manage own metric targets" ON public.patient_metric_targets;
+CREATE POLICY "Patients can manage own metric targets"
+ON public.patient_metric_targets FOR ALL
+USING (auth.uid() = patient_id)
+WITH CHECK (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Caregivers can manage patient metric targets" ON public.patient_metric_targets;
+CREATE POLICY "Caregivers can manage patient metric targets"
+ON public.patient_metric_targets FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.patient_metric_targets.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.patient_metric_targets.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
+
+DROP TRIGGER IF EXISTS update_patient_metric_targets_updated_at ON public.patient_metric_targets;
+CREATE TRIGGER update_patient_metric_targets_updated_at
+    BEFORE UPDATE ON public.patient_metric_targets
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,62 @@
+-- Orthostatic blood pressure tests.
+-- The patient lies down and rests, takes a lying reading, then stands and takes
+-- readings 1 and 3 minutes after standing. The readings of one test are stored
+-- together. A drop of at least 20 mmHg systolic or 10 mmHg diastolic from lying to
+-- either standing reading is orthostatic hypotension, a falls risk in Parkinson's.
+CREATE TABLE IF NOT EXISTS public.orthostatic_tests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- When the patient lay down; with patient_id, identifies a test replayed from the offline outbox
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    stood_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    lying_systolic SMALLINT NOT NULL CHECK (lying_systolic BETWEEN 50 AND 300),
+    lying_diastolic SMALLINT NOT NULL CHECK (lying_diastolic BETWEEN 20 AND 200),
+    lying_heart_rate SMALLINT CHECK (lying_heart_rate BETWEEN 20 AND 250),
+    standing_1_systolic SMALLINT NOT NULL CHECK (standing_1_systolic BETWEEN 50 AND 300),
+    standing_1_diastolic SMALLINT NOT NULL CHECK (standing_1_diastolic BETWEEN 20 AND 200),
+    standing_1_heart_rate SMALLINT CHECK (standing_1_heart_rate BETWEEN 20 AND 250),
+    -- Missing when the patient could not stay standing for 3 minutes
+    standing_3_systolic SMALLINT CHECK (standing_3_systolic BETWEEN 50 AND 300),
+    standing_3_diastolic SMALLINT CHECK (standing_3_diastolic BETWEEN 20 AND 200),
+    standing_3_heart_rate SMALLINT CHECK (standing_3_heart_rate BETWEEN 20 AND 250),
+    -- Dizzy or light-headed on standing
+    symptomatic BOOLEAN NOT NULL DEFAULT FALSE,
+    notes TEXT,
+    -- The largest drop from lying to standing; LEAST ignores a missing 3-minute reading
+    systolic_drop INTEGER GENERATED ALWAYS AS
+        (lying_systolic - LEAST(standing_1_systolic, standing_3_systolic)) STORED,
+    diastolic_drop INTEGER GENERATED ALWAYS AS
+        (lying_diastolic - LEAST(standing_1_diastolic, standing_3_diastolic)) STORED,
+    is_orthostatic BOOLEAN GENERATED ALWAYS AS (
+        lying_systolic - LEAST(standing_1_systolic, standing_3_systolic) >= 20
+        OR lying_diastolic - LEAST(standing_1_diastolic, standing_3_diastolic) >= 10
+    ) STORED,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (patient_id, started_at),
+    CHECK ((standing_3_systolic IS NULL) = (standing_3_diastolic IS NULL)),
+    CHECK (stood_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_orthostatic_tests_patient_started
+    ON public.orthostatic_tests(patient_id, started_at DESC);
+
+ALTER TABLE public.orthostatic_tests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Patients can manage own orthostatic tests" ON public.orthostatic_tests;
+CREATE POLICY "Patients can manage own orthostatic tests"
+ON public.orthostatic_tests FOR ALL
+USING (auth.uid() = patient_id)
+WITH CHECK (auth.uid() = patient_id);
+
+DROP POLICY IF EXISTS "Caregivers can view patient orthostatic tests" ON public.orthostatic_tests;
+CREATE POLICY "Caregivers can view patient orthostatic tests"
+ON public.orthostatic_tests FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.patient_caregiver_connections pcc
+        WHERE pcc.patient_id = public.orthostatic_tests.patient_id
+          AND pcc.caregiver_id = auth.uid()
+          AND pcc.connection_status = 'active'
+    )
+);
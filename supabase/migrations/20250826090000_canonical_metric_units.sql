@@ -0,0 +1,99 @@
+-- Canonical units for health readings.
+-- Readings are stored in kg, mmol/L, °C and cm whatever units they were typed in;
+-- each user's display units live in profiles.preferences.units and the app converts
+-- on the way in and out (lib/units.ts). Categories created with another unit for one
+-- of these quantities (lb, mg/dL, °F, in) are moved to the canonical unit here, with
+-- their readings, normal ranges, personal targets and alert rule thresholds.
+
+-- The canonical unit for a unit this migration converts, or NULL. Takes the same
+-- spellings as UNIT_ALIASES in lib/units.ts, so both sides agree on a category.
+CREATE OR REPLACE FUNCTION pg_temp.canonical_unit(unit TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE lower(trim(unit))
+        WHEN 'lb' THEN 'kg'
+        WHEN 'lbs' THEN 'kg'
+        WHEN 'pounds' THEN 'kg'
+        WHEN 'mg/dl' THEN 'mmol/L'
+        WHEN '°f' THEN '°C'
+        WHEN 'f' THEN '°C'
+        WHEN 'fahrenheit' THEN '°C'
+        WHEN 'in' THEN 'cm'
+        WHEN 'inches' THEN 'cm'
+        WHEN '"' THEN 'cm'
+    END
+$$;
+
+-- A value in `unit` converted to its canonical unit, to 3 decimal places
+CREATE OR REPLACE FUNCTION pg_temp.to_canonical(value NUMERIC, unit TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT round(CASE pg_temp.canonical_unit(unit)
+        WHEN 'kg' THEN value * 0.45359237
+        WHEN 'mmol/L' THEN value / 18.016
+        WHEN '°C' THEN (value - 32) * 5 / 9
+        WHEN 'cm' THEN value * 2.54
+    END, 3)
+$$;
+
+-- Readings first, while their categories still say which unit they are in
+UPDATE public.health_metrics hm
+SET value = pg_temp.to_canonical(hm.value, c.unit)
+FROM public.health_metric_categories c
+WHERE c.id = hm.category_id
+  AND pg_temp.canonical_unit(c.unit) IS NOT NULL;
+
+UPDATE public.patient_metric_targets t
+SET target_min = pg_temp.to_canonical(t.target_min, c.unit),
+    target_max = pg_temp.to_canonical(t.target_max, c.unit),
+    updated_at = NOW()
+FROM public.health_metric_categories c
+WHERE c.id = t.category_id
+  AND pg_temp.canonical_unit(c.unit) IS NOT NULL;
+
+-- Reading rules name their category; the patient's own category is preferred over
+-- a shared one with the same name
+UPDATE public.caregiver_alert_rules r
+SET condition = jsonb_set(r.condition, '{threshold}', to_jsonb(pg_temp.to_canonical((r.condition->>'threshold')::NUMERIC, c.unit))),
+    updated_at = NOW()
+FROM public.health_metric_categories c
+WHERE r.condition->>'kind' = 'metric'
+  AND jsonb_typeof(r.condition->'threshold') = 'number'
+  AND pg_temp.canonical_unit(c.unit) IS NOT NULL
+  AND c.id = (
+      SELECT candidate.id FROM public.health_metric_categories candidate
+      WHERE lower(candidate.name) = lower(r.condition->>'categoryName')
+        AND (candidate.patient_id IS NULL OR candidate.patient_id = r.patient_id)
+      ORDER BY candidate.patient_id NULLS LAST
+      LIMIT 1
+  );
+
+UPDATE public.health_metric_categories
+SET normal_range_min = pg_temp.to_canonical(normal_range_min, unit),
+    normal_range_max = pg_temp.to_canonical(normal_range_max, unit),
+    -- Converted values are rarely whole numbers
+    input_type = 'decimal',
+    unit = pg_temp.canonical_unit(unit)
+WHERE pg_temp.canonical_unit(unit) IS NOT NULL;
+
+-- Spell canonical units one way, so the app recognises them
+UPDATE public.health_metric_categories
+SET unit = CASE lower(trim(unit))
+    WHEN 'kgs' THEN 'kg'
+    WHEN 'kilograms' THEN 'kg'
+    WHEN 'mmol/l' THEN 'mmol/L'
+    WHEN '°c' THEN '°C'
+    WHEN 'c' THEN '°C'
+    WHEN 'celsius' THEN '°C'
+    ELSE unit
+END
+WHERE lower(trim(unit)) IN ('kgs', 'kilograms', 'mmol/l', '°c', 'c', 'celsius')
+  AND unit NOT IN ('mmol/L', '°C');
+
+UPDATE public.health_metric_categories
+SET icon = 'scale-bathroom'
+WHERE patient_id IS NULL AND name = 'Weight' AND icon = 'weight-kilogram';